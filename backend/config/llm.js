@@ -0,0 +1,75 @@
+/**
+ * LLM configuration
+ * Per-task model settings and the retry policy shared by every LLM call site
+ */
+
+/**
+ * Read a numeric environment variable
+ * @param {string} name - Variable name
+ * @param {number|undefined} fallback - Value when unset or not a number
+ */
+const envNumber = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+// Defaults per task. Each can be overridden with LLM_<TASK>_MODEL, LLM_<TASK>_TEMPERATURE
+// and LLM_<TASK>_MAX_TOKENS (e.g. LLM_INTERNET_SEARCH_MODEL); the model falls back to
+// LLM_MODEL and then to the provider's default model.
+const taskDefaults = {
+  chat: {
+    temperature: 0.7,
+    maxTokens: 1000,
+    topP: 0.9,
+    frequencyPenalty: 0.1,
+    presencePenalty: 0.1
+  },
+  internetSearch: {
+    temperature: 0.7,
+    maxTokens: 1200,
+    topP: 0.9,
+    frequencyPenalty: 0.1,
+    presencePenalty: 0.1
+  },
+  vendorParser: {
+    temperature: 0.3,
+    json: true
+  },
+  solutionParser: {
+    temperature: 0.3,
+    json: true
+  }
+};
+
+/**
+ * Get the settings for a task
+ * @param {string} task - Task name (chat, internetSearch, vendorParser, solutionParser)
+ * @returns {Object} { model, temperature, maxTokens, topP, frequencyPenalty, presencePenalty, json }
+ */
+const getTaskConfig = (task) => {
+  const defaults = taskDefaults[task];
+  if (!defaults) {
+    throw new Error(`Unknown LLM task "${task}"`);
+  }
+
+  const prefix = `LLM_${task.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+
+  return {
+    ...defaults,
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || null,
+    temperature: envNumber(`${prefix}_TEMPERATURE`, defaults.temperature),
+    maxTokens: envNumber(`${prefix}_MAX_TOKENS`, defaults.maxTokens)
+  };
+};
+
+module.exports = {
+  tasks: Object.keys(taskDefaults),
+  getTaskConfig,
+
+  // Retries with exponential backoff for rate limits, server errors and network failures
+  retry: {
+    maxRetries: envNumber('LLM_MAX_RETRIES', 2),
+    baseDelayMs: envNumber('LLM_RETRY_BASE_MS', 500),
+    maxDelayMs: envNumber('LLM_RETRY_MAX_MS', 8000)
+  }
+};
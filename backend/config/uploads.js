@@ -0,0 +1,32 @@
+/**
+ * Upload configuration
+ * File size, count and MIME type limits shared by upload routes and storage drivers
+ */
+
+const MB = 1024 * 1024;
+
+const maxFileSizeMB = parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB) || 10;
+
+module.exports = {
+  maxFileSizeMB,
+  maxFileSize: maxFileSizeMB * MB,
+  maxFiles: parseInt(process.env.UPLOAD_MAX_FILES) || 5,
+
+  // Documents and images that make sense for proposals (SOWs, case studies, data samples)
+  allowedMimeTypes: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/plain',
+    'text/csv',
+    'image/png',
+    'image/jpeg'
+  ],
+
+  // How long signed download URLs stay valid
+  downloadUrlTtlSeconds: parseInt(process.env.UPLOAD_URL_TTL_SECONDS) || 300
+};
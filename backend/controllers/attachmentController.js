@@ -0,0 +1,205 @@
+/**
+ * Attachment Controller
+ * Handles file uploads for proposals, responses and chat, and signed downloads
+ */
+
+const path = require('path');
+const crypto = require('crypto');
+const Attachment = require('../models/Attachment');
+const Proposal = require('../models/Proposal');
+const { loadChatThread } = require('./proposalChatController');
+const organizationService = require('../services/organizationService');
+const { getStorage } = require('../services/storage');
+const uploadConfig = require('../config/uploads');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+/**
+ * Build a Content-Disposition header that keeps the original file name
+ * Older clients get an ASCII fallback; others read the UTF-8 name from filename* (RFC 6266).
+ * @param {string} name - Original file name
+ * @returns {string} Header value
+ */
+const contentDisposition = (name) => {
+  const fallback = name.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * Check whether a user may read an attachment.
+ * Superadmins, the uploader, the proposal owner (or its organization) and the vendor of the
+ * linked response have access.
+ * @param {Object} user - Authenticated user
+ * @param {Object} attachment - Attachment document
+ * @param {Object} proposal - Proposal the attachment belongs to
+ * @returns {Promise<boolean>} Whether access is allowed
+ */
+const canAccessAttachment = async (user, attachment, proposal) => {
+  const userId = user._id.toString();
+
+  if (user.role === 'superadmin') return true;
+  if (attachment.uploadedBy.toString() === userId) return true;
+
+  if (attachment.responseId) {
+    const response = proposal.responses.id(attachment.responseId);
+    if (response && response.vendorId.toString() === userId) return true;
+  }
+
+  return organizationService.canManage(user, proposal, 'createdBy');
+};
+
+/**
+ * Upload files to a proposal
+ * @route POST /api/attachments
+ * @access Private (Proposal Owner, Vendors responding, or Superadmin)
+ * @body multipart: files[], proposalId, responseId?, context?
+ */
+const uploadAttachments = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId, context = 'response' } = req.body;
+  const user = req.user;
+
+  if (!req.files || req.files.length === 0) {
+    return next(new AppError('No files uploaded', 400));
+  }
+
+  if (!proposalId) {
+    return next(new AppError('Proposal ID is required', 400));
+  }
+
+  if (responseId) {
+    // Thread participants only
+    await loadChatThread(user, proposalId, responseId);
+  } else {
+    // Before a response exists, vendors may upload to customer proposals they can respond to
+    const proposal = await Proposal.findById(proposalId);
+    if (!proposal) {
+      return next(new AppError('Proposal not found', 404));
+    }
+
+    const isOwner = await organizationService.canManage(user, proposal, 'createdBy');
+    const isRespondingVendor = user.role === 'vendor' && proposal.creatorType === 'customer';
+    if (user.role !== 'superadmin' && !isOwner && !isRespondingVendor) {
+      return next(new AppError('Not authorized to upload files to this proposal', 403));
+    }
+  }
+
+  const storage = getStorage();
+  const attachments = [];
+
+  for (const file of req.files) {
+    const storageKey = `proposals/${proposalId}/${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+    await storage.save(storageKey, file.buffer, file.mimetype);
+
+    const attachment = await Attachment.create({
+      proposalId,
+      responseId: responseId || undefined,
+      uploadedBy: user._id,
+      context: context === 'chat' ? 'chat' : 'response',
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      driver: storage.name,
+      storageKey
+    });
+
+    attachments.push(attachment.getPublicProfile());
+  }
+
+  res.status(201).json({
+    success: true,
+    message: 'Files uploaded successfully',
+    attachments
+  });
+});
+
+/**
+ * Get a short-lived signed download URL for an attachment
+ * @route GET /api/attachments/:id/url
+ * @access Private (Proposal participants or Superadmin)
+ */
+const getDownloadUrl = catchAsync(async (req, res, next) => {
+  const attachment = await Attachment.findById(req.params.id);
+
+  if (!attachment) {
+    return next(new AppError('Attachment not found', 404));
+  }
+
+  const proposal = await Proposal.findById(attachment.proposalId);
+  if (!proposal || !(await canAccessAttachment(req.user, attachment, proposal))) {
+    return next(new AppError('Not authorized to access this file', 403));
+  }
+
+  const expiresIn = uploadConfig.downloadUrlTtlSeconds;
+  const url = await getStorage().getDownloadUrl(attachment, {
+    baseUrl: process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`,
+    expiresIn
+  });
+
+  res.status(200).json({
+    success: true,
+    url,
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString()
+  });
+});
+
+/**
+ * Download a locally stored attachment through a signed link
+ * @route GET /api/attachments/:id/download?expires=&signature=
+ * @access Public (valid signature required)
+ */
+const downloadAttachment = catchAsync(async (req, res, next) => {
+  const storage = getStorage();
+  const { expires, signature } = req.query;
+
+  if (typeof storage.verify !== 'function' || !storage.verify(req.params.id, expires, signature)) {
+    return next(new AppError('Download link is invalid or has expired', 403));
+  }
+
+  const attachment = await Attachment.findById(req.params.id);
+  if (!attachment) {
+    return next(new AppError('Attachment not found', 404));
+  }
+
+  res.set({
+    'Content-Type': attachment.mimeType,
+    'Content-Length': attachment.size,
+    'Content-Disposition': contentDisposition(attachment.originalName),
+    'Cache-Control': 'private, no-store'
+  });
+
+  const stream = storage.createReadStream(attachment.storageKey);
+  stream.on('error', () => next(new AppError('File not found in storage', 404)));
+  stream.pipe(res);
+});
+
+/**
+ * Delete an attachment
+ * @route DELETE /api/attachments/:id
+ * @access Private (Uploader or Superadmin)
+ */
+const deleteAttachment = catchAsync(async (req, res, next) => {
+  const attachment = await Attachment.findById(req.params.id);
+
+  if (!attachment) {
+    return next(new AppError('Attachment not found', 404));
+  }
+
+  if (req.user.role !== 'superadmin' && attachment.uploadedBy.toString() !== req.user._id.toString()) {
+    return next(new AppError('Not authorized to delete this file', 403));
+  }
+
+  await getStorage().remove(attachment.storageKey);
+  await attachment.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    message: 'File deleted successfully'
+  });
+});
+
+module.exports = {
+  uploadAttachments,
+  getDownloadUrl,
+  downloadAttachment,
+  deleteAttachment
+};
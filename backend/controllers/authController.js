@@ -3,43 +3,55 @@
  * Handles user registration, login, and authentication-related operations
  */
 
-const jwt = require('jsonwebtoken');
 const User = require('../models/User');
 const Company = require('../models/Company');
+const emailService = require('../services/emailService');
+const sessionService = require('../services/sessionService');
+const twoFactorService = require('../services/twoFactorService');
+const ssoService = require('../services/ssoService');
 const { AppError, catchAsync } = require('../middleware/errorHandler');
 
 /**
- * Generate JWT token
- * @param {string} userId - User ID
- * @returns {string} JWT token
- */
-const generateToken = (userId) => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRE || '7d'
-  });
-};
-
-/**
- * Send token response
+ * Start a session and send the access token, with the refresh token as an httpOnly cookie
  * @param {Object} user - User object
  * @param {number} statusCode - HTTP status code
+ * @param {Object} req - Express request object
  * @param {Object} res - Express response object
  * @param {string} message - Success message
+ * @param {Object} options - { twoFactorVerified } when the sign-in passed a two-factor check
  */
-const sendTokenResponse = (user, statusCode, res, message) => {
-  const token = generateToken(user._id);
-  
+const sendTokenResponse = async (user, statusCode, req, res, message, options = {}) => {
+  const { session, accessToken, refreshToken } = await sessionService.create(user, req, options);
+  sessionService.setRefreshCookie(res, refreshToken, session.expiresAt);
+
   // Update last login
   user.updateLastLogin();
 
   res.status(statusCode).json({
     success: true,
     message,
-    token,
-    user: user.getProfile()
+    token: accessToken,
+    user: user.getProfile(),
+    // Superadmins must enrol before they can use sensitive admin routes
+    twoFactorSetupRequired: user.role === 'superadmin' && !user.twoFactor?.enabled
   });
 };
 
+/**
+ * Issue an email verification token and queue the verification email
+ * @param {Object} user - User document
+ */
+const sendVerificationEmail = async (user) => {
+  const token = user.createEmailToken('emailVerification');
+  await user.save({ validateBeforeSave: false });
+
+  await emailService.queue('verifyEmail', user.email, {
+    firstName: user.firstName,
+    token,
+    expiresInHours: 24
+  }, { userId: user._id });
+};
+
 /**
  * Register a new user
  * @param {Object} req - Express request object
@@ -82,7 +94,10 @@ const register = catchAsync(async (req, res, next) => {
     await user.save();
   }
 
-  sendTokenResponse(user, 201, res, 'User registered successfully');
+  emailService.queue('welcome', user.email, { firstName: user.firstName, role: user.role }, { userId: user._id });
+  await sendVerificationEmail(user);
+
+  await sendTokenResponse(user, 201, req, res, 'User registered successfully');
 });
 
 /**
@@ -101,6 +116,18 @@ const login = catchAsync(async (req, res, next) => {
 
   // Find user and include password for comparison
   const user = await User.findOne({ email }).select('+password');
+
+  // Organizations can require their domains to sign in through their identity provider
+  // (superadmins keep password sign-in so they are never locked out)
+  const ssoOrganization = await ssoService.findEnforcingOrganization(email);
+  if (ssoOrganization && user?.role !== 'superadmin') {
+    return res.status(403).json({
+      success: false,
+      code: 'SSO_REQUIRED',
+      message: `${ssoOrganization.name} signs in with single sign-on`,
+      sso: { organizationId: ssoOrganization._id, organizationName: ssoOrganization.name }
+    });
+  }
   
   if (!user) {
     return next(new AppError('Invalid credentials', 401));
@@ -118,7 +145,48 @@ const login = catchAsync(async (req, res, next) => {
     return next(new AppError('Invalid credentials', 401));
   }
 
-  sendTokenResponse(user, 200, res, 'Login successful');
+  // With two-factor enabled no session is created until the code is checked
+  if (user.twoFactor?.enabled) {
+    return res.status(200).json({
+      success: true,
+      twoFactorRequired: true,
+      challengeToken: twoFactorService.signChallenge(user),
+      message: 'Enter the code from your authenticator app'
+    });
+  }
+
+  await sendTokenResponse(user, 200, req, res, 'Login successful');
+});
+
+/**
+ * Second login step: check the authenticator or recovery code for a password-verified login
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const loginTwoFactor = catchAsync(async (req, res, next) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+
+  const userId = twoFactorService.readChallenge(challengeToken);
+  if (!userId) {
+    return next(new AppError('Your sign-in has expired. Please sign in again.', 401));
+  }
+
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) {
+    return next(new AppError('Your sign-in has expired. Please sign in again.', 401));
+  }
+
+  const result = await twoFactorService.verify(user._id, { code, recoveryCode });
+  if (!result) {
+    return next(new AppError(recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authenticator code', 401));
+  }
+
+  const message = result.method === 'recovery_code'
+    ? `Login successful. ${result.recoveryCodesRemaining} recovery code${result.recoveryCodesRemaining === 1 ? '' : 's'} left.`
+    : 'Login successful';
+
+  await sendTokenResponse(user, 200, req, res, message, { twoFactorVerified: true });
 });
 
 /**
@@ -193,9 +261,10 @@ const changePassword = catchAsync(async (req, res, next) => {
     return next(new AppError('Current password is incorrect', 400));
   }
 
-  // Update password
+  // Update password and sign out every other device
   user.password = newPassword;
   await user.save();
+  await sessionService.revokeAll(user._id, 'password_change', req.sessionId);
 
   res.status(200).json({
     success: true,
@@ -212,29 +281,28 @@ const changePassword = catchAsync(async (req, res, next) => {
 const forgotPassword = catchAsync(async (req, res, next) => {
   const { email } = req.body;
 
-  const user = await User.findOne({ email });
-  
-  if (!user) {
-    return next(new AppError('No user found with this email address', 404));
-  }
+  const user = await User.findOne({ email, isActive: true });
 
-  // Generate reset token (in a real app, you'd send this via email)
-  const resetToken = generateToken(user._id);
-  
-  // In production, you would:
-  // 1. Save reset token to database with expiry
-  // 2. Send email with reset link
-  // 3. Return success message without exposing token
+  // Same response whether or not the address has an account
+  if (user) {
+    const token = user.createEmailToken('passwordReset');
+    await user.save({ validateBeforeSave: false });
+
+    await emailService.queue('passwordReset', user.email, {
+      firstName: user.firstName,
+      token,
+      expiresInMinutes: 60
+    }, { userId: user._id });
+  }
 
   res.status(200).json({
     success: true,
-    message: 'Password reset token sent to email',
-    resetToken // Remove this in production
+    message: 'If an account exists for that email, a password reset link has been sent'
   });
 });
 
 /**
- * Reset password
+ * Reset password with a single-use token; every existing session is revoked
  * @param {Object} req - Express request object
  * @param {Object} res - Express response object
  * @param {Function} next - Express next function
@@ -242,36 +310,71 @@ const forgotPassword = catchAsync(async (req, res, next) => {
 const resetPassword = catchAsync(async (req, res, next) => {
   const { token, newPassword } = req.body;
 
-  // Verify token
-  const decoded = jwt.verify(token, process.env.JWT_SECRET);
-  
-  const user = await User.findById(decoded.userId);
-  
-  if (!user) {
-    return next(new AppError('Invalid or expired reset token', 400));
+  const redeemed = await User.redeemEmailToken('passwordReset', token);
+
+  if (!redeemed || !redeemed.isActive) {
+    return next(new AppError('Invalid or expired reset link', 400));
   }
 
-  // Update password
+  const user = await User.findById(redeemed._id).select('+password');
   user.password = newPassword;
+  // The reset link reached the inbox, so the address is confirmed
+  user.isEmailVerified = true;
   await user.save();
+  await sessionService.revokeAll(user._id, 'password_reset');
+
+  res.status(200).json({
+    success: true,
+    message: 'Password reset successfully. Please sign in with your new password.'
+  });
+});
+
+/**
+ * Exchange the refresh token cookie for a new access token (the refresh token is rotated)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const refreshToken = catchAsync(async (req, res, next) => {
+  const result = await sessionService.rotate(sessionService.readRefreshCookie(req));
+
+  if (!result) {
+    sessionService.clearRefreshCookie(res);
+    return next(new AppError('Session expired. Please sign in again.', 401));
+  }
+
+  const user = await User.findById(result.session.userId);
+  if (!user || !user.isActive) {
+    await sessionService.revoke(result.session._id, 'revoked');
+    sessionService.clearRefreshCookie(res);
+    return next(new AppError('Session expired. Please sign in again.', 401));
+  }
+
+  if (result.refreshToken) {
+    sessionService.setRefreshCookie(res, result.refreshToken, result.session.expiresAt);
+  }
 
   res.status(200).json({
     success: true,
-    message: 'Password reset successfully'
+    token: result.accessToken
   });
 });
 
 /**
- * Logout user (client-side token removal)
+ * Logout user: revoke the current session and clear the refresh cookie
  * @param {Object} req - Express request object
  * @param {Object} res - Express response object
  * @param {Function} next - Express next function
  */
 const logout = catchAsync(async (req, res, next) => {
-  // In a more sophisticated setup, you might:
-  // 1. Add token to blacklist
-  // 2. Update user's last logout time
-  // 3. Clear server-side sessions
+  // The access token may already have expired, so fall back to the refresh cookie
+  const [cookieSessionId] = (sessionService.readRefreshCookie(req) || '').split('.');
+  const sessionId = req.sessionId || cookieSessionId;
+
+  if (sessionId && /^[a-f\d]{24}$/i.test(sessionId)) {
+    await sessionService.revoke(sessionId, 'logout');
+  }
+  sessionService.clearRefreshCookie(res);
 
   res.status(200).json({
     success: true,
@@ -279,6 +382,64 @@ const logout = catchAsync(async (req, res, next) => {
   });
 });
 
+/**
+ * Sign out everywhere: revoke every session of the current user
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const logoutAll = catchAsync(async (req, res, next) => {
+  const revoked = await sessionService.revokeAll(req.user._id, 'logout_all');
+  sessionService.clearRefreshCookie(res);
+
+  res.status(200).json({
+    success: true,
+    message: `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}`
+  });
+});
+
+/**
+ * Get the current user's active sessions
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getSessions = catchAsync(async (req, res, next) => {
+  const sessions = await sessionService.listForUser(req.user._id, req.sessionId);
+
+  res.status(200).json({
+    success: true,
+    count: sessions.length,
+    sessions
+  });
+});
+
+/**
+ * Revoke one of the current user's sessions
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const revokeSession = catchAsync(async (req, res, next) => {
+  const sessions = await sessionService.listForUser(req.user._id, req.sessionId);
+  const session = sessions.find(item => item._id.toString() === req.params.id);
+
+  if (!session) {
+    return next(new AppError('Session not found', 404));
+  }
+
+  await sessionService.revoke(session._id, 'revoked');
+  if (session.current) {
+    sessionService.clearRefreshCookie(res);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: session.current ? 'Signed out' : `Signed out ${session.device}`,
+    current: session.current
+  });
+});
+
 /**
  * Delete user account
  * @param {Object} req - Express request object
@@ -300,6 +461,8 @@ const deleteAccount = catchAsync(async (req, res, next) => {
   // Soft delete - deactivate account instead of removing
   user.isActive = false;
   await user.save();
+  await sessionService.revokeAll(user._id, 'revoked');
+  sessionService.clearRefreshCookie(res);
 
   res.status(200).json({
     success: true,
@@ -308,28 +471,48 @@ const deleteAccount = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Verify email address
+ * Verify email address with a single-use token
  * @param {Object} req - Express request object
  * @param {Object} res - Express response object
  * @param {Function} next - Express next function
  */
 const verifyEmail = catchAsync(async (req, res, next) => {
-  const { token } = req.params;
+  const user = await User.redeemEmailToken('emailVerification', req.body.token);
 
-  // In a real app, you'd verify the email token
-  // For now, we'll just mark email as verified
-  const user = await User.findById(req.user._id);
-  
   if (!user) {
-    return next(new AppError('User not found', 404));
+    return next(new AppError('Invalid or expired verification link', 400));
   }
 
-  user.isEmailVerified = true;
-  await user.save();
+  if (!user.isEmailVerified) {
+    user.isEmailVerified = true;
+    await user.save({ validateBeforeSave: false });
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Email verified successfully',
+    email: user.email
+  });
+});
+
+/**
+ * Send a new email verification link to the current user
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const resendVerificationEmail = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id);
+
+  if (user.isEmailVerified) {
+    return next(new AppError('Email is already verified', 400));
+  }
+
+  await sendVerificationEmail(user);
 
   res.status(200).json({
     success: true,
-    message: 'Email verified successfully'
+    message: `Verification email sent to ${user.email}`
   });
 });
 
@@ -490,14 +673,20 @@ const updateUserRole = catchAsync(async (req, res, next) => {
 module.exports = {
   register,
   login,
+  loginTwoFactor,
   getProfile,
   updateProfile,
   changePassword,
   forgotPassword,
   resetPassword,
+  refreshToken,
   logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
   deleteAccount,
   verifyEmail,
+  resendVerificationEmail,
   getAllUsers,
   getUserData,
   updateUserRole
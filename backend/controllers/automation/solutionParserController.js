@@ -4,14 +4,10 @@
  */
 
 const { scrapeWebsite } = require('../../services/automation/websiteScraper');
-const OpenAI = require('openai');
 const { readFileSync } = require('fs');
 const { join } = require('path');
 const { AppError, catchAsync } = require('../../middleware/errorHandler');
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const llm = require('../../services/llm');
 
 /**
  * Load prompt template from file
@@ -57,8 +53,8 @@ Return only valid JSON.`;
  * Extract solution data from website content using AI
  */
 async function extractSolutionData(websiteContent) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
+  if (!llm.isLLMConfigured()) {
+    throw new Error("LLM provider not configured");
   }
 
   try {
@@ -67,23 +63,18 @@ async function extractSolutionData(websiteContent) {
 
     console.log('Extracting solution data from website...');
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are a helpful assistant that extracts structured data from website content. Always return valid JSON that matches solution listing format.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    });
-
-    const responseText = completion.choices[0]?.message?.content || "{}";
+    const completion = await llm.complete('solutionParser', [
+      {
+        role: "system",
+        content: "You are a helpful assistant that extracts structured data from website content. Always return valid JSON that matches solution listing format.",
+      },
+      {
+        role: "user",
+        content: prompt,
+      },
+    ]);
+
+    const responseText = completion.content || "{}";
     const parsedData = JSON.parse(responseText);
     
     console.log('Successfully extracted solution data');
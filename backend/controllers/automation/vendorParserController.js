@@ -5,14 +5,10 @@
  */
 
 const { scrapeWebsite } = require('../../services/automation/websiteScraper');
-const OpenAI = require('openai');
 const { readFileSync } = require('fs');
 const { join } = require('path');
 const { AppError, catchAsync } = require('../../middleware/errorHandler');
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const llm = require('../../services/llm');
 
 /**
  * Load prompt template from file
@@ -32,8 +28,8 @@ function loadPrompt(promptName) {
  * Extract section data from website content using AI
  */
 async function extractSectionData(websiteContent, promptName, sectionName) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
+  if (!llm.isLLMConfigured()) {
+    throw new Error("LLM provider not configured");
   }
 
   try {
@@ -42,23 +38,18 @@ async function extractSectionData(websiteContent, promptName, sectionName) {
 
     console.log(`Extracting ${sectionName}...`);
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are a helpful assistant that extracts structured data from website content. Always return valid JSON.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    });
-
-    const responseText = completion.choices[0]?.message?.content || "{}";
+    const completion = await llm.complete('vendorParser', [
+      {
+        role: "system",
+        content: "You are a helpful assistant that extracts structured data from website content. Always return valid JSON.",
+      },
+      {
+        role: "user",
+        content: prompt,
+      },
+    ]);
+
+    const responseText = completion.content || "{}";
     const parsedData = JSON.parse(responseText);
     
     console.log(`Successfully extracted ${sectionName}`);
@@ -127,8 +118,8 @@ function getEmptySectionData(sectionName) {
  * Extract vendor data from website content
  */
 async function extractVendorData(websiteContent) {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
+  if (!llm.isLLMConfigured()) {
+    throw new Error("LLM provider not configured");
   }
 
   console.log("Starting vendor data extraction...");
@@ -0,0 +1,388 @@
+/**
+ * Blog Controller
+ * Handles public blog reads and superadmin/editor authoring with scheduled publishing
+ */
+
+const Blog = require('../models/Blog');
+const Solution = require('../models/Solution');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// Fields an author may set or edit; status only changes through publish/schedule/unpublish
+const EDITABLE_FIELDS = [
+  'title', 'excerpt', 'content', 'category', 'subcategory', 'tags', 'industry',
+  'featuredImage', 'isFeatured', 'metaTitle', 'metaDescription', 'keywords', 'relatedSolutions'
+];
+
+// Sort options for public blog lists
+const SORT_OPTIONS = {
+  newest: { publishedAt: -1 },
+  oldest: { publishedAt: 1 },
+  popular: { views: -1, publishedAt: -1 },
+  trending: { likes: -1, publishedAt: -1 }
+};
+
+// Fields shown on list cards
+const LIST_FIELDS = '-content -comments -__v';
+
+// Solution fields shown on related solution cards
+const SOLUTION_CARD_FIELDS = 'title slug shortDescription category industry pricing.model rating images companyId';
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pick the author-editable fields from a request body
+ * @param {Object} body - Request body
+ */
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((data, field) => (
+  body[field] !== undefined ? { ...data, [field]: body[field] } : data
+), {});
+
+/**
+ * Editors manage their own posts; superadmins manage every post
+ * @param {Object} user - Authenticated user
+ * @param {Object} blog - Blog document
+ */
+const canManage = (user, blog) => (
+  user.role === 'superadmin' || blog.authorId.toString() === user._id.toString()
+);
+
+/**
+ * Load a post the current user may manage
+ * @param {Object} user - Authenticated user
+ * @param {string} blogId - Blog ID
+ * @returns {Promise<Object>} Blog document
+ */
+const loadManagedBlog = async (user, blogId) => {
+  const blog = await Blog.findById(blogId);
+
+  if (!blog) {
+    throw new AppError('Blog post not found', 404);
+  }
+
+  if (!canManage(user, blog)) {
+    throw new AppError('Not authorized to manage this blog post', 403);
+  }
+
+  return blog;
+};
+
+/**
+ * Get published blog posts with filtering and pagination
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getBlogs = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 12, search, category, industry, tag, sort = 'newest' } = req.query;
+
+  await Blog.publishDue();
+
+  const filter = { status: 'published' };
+  if (search) filter.$text = { $search: search };
+  if (category) filter.category = category;
+  if (industry) filter.industry = industry;
+  if (tag) filter.tags = tag.toLowerCase();
+
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [blogs, total] = await Promise.all([
+    Blog.find(filter)
+      .sort(SORT_OPTIONS[sort] || SORT_OPTIONS.newest)
+      .skip(skip)
+      .limit(parseInt(limit))
+      .select(LIST_FIELDS),
+    Blog.countDocuments(filter)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: blogs.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    blogs
+  });
+});
+
+/**
+ * Get featured blog posts
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getFeaturedBlogs = catchAsync(async (req, res, next) => {
+  await Blog.publishDue();
+
+  const blogs = await Blog.findFeatured(parseInt(req.query.limit) || 5);
+
+  res.status(200).json({
+    success: true,
+    count: blogs.length,
+    blogs
+  });
+});
+
+/**
+ * Get a published post by slug, with related solutions and posts
+ * Authors and superadmins can also preview their unpublished posts.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getBlogBySlug = catchAsync(async (req, res, next) => {
+  await Blog.publishDue();
+
+  const blog = await Blog.findOne({ slug: req.params.slug.toLowerCase() })
+    .populate({
+      path: 'relatedSolutions',
+      match: { status: 'approved', isActive: true },
+      select: SOLUTION_CARD_FIELDS,
+      populate: { path: 'companyId', select: 'name logo' }
+    });
+
+  const isPreview = blog && blog.status !== 'published' && req.user && canManage(req.user, blog);
+  if (!blog || (blog.status !== 'published' && !isPreview)) {
+    return next(new AppError('Blog post not found', 404));
+  }
+
+  if (!isPreview) {
+    await Blog.updateOne({ _id: blog._id }, { $inc: { views: 1 } }, { timestamps: false });
+  }
+
+  const relatedBlogs = await Blog.find({
+    _id: { $ne: blog._id },
+    status: 'published',
+    $or: [{ _id: { $in: blog.relatedBlogs } }, { category: blog.category }]
+  })
+    .sort({ publishedAt: -1 })
+    .limit(3)
+    .select('title slug excerpt featuredImage publishedAt readTime authorName');
+
+  const post = blog.getPublicProfile();
+  // Only approved comments are public
+  post.comments = (post.comments || []).filter(comment => comment.isApproved);
+
+  res.status(200).json({
+    success: true,
+    isPreview: Boolean(isPreview),
+    blog: post,
+    relatedBlogs
+  });
+});
+
+/**
+ * Get posts for the authoring screen (all statuses)
+ * Editors only see their own posts.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getManagedBlogs = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, status, search } = req.query;
+
+  await Blog.publishDue();
+
+  const filter = {};
+  if (req.user.role !== 'superadmin') filter.authorId = req.user._id;
+  if (status) filter.status = status;
+  if (search) filter.title = { $regex: escapeRegex(search), $options: 'i' };
+
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [blogs, total] = await Promise.all([
+    Blog.find(filter)
+      .sort({ updatedAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit))
+      .select(LIST_FIELDS),
+    Blog.countDocuments(filter)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: blogs.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    blogs
+  });
+});
+
+/**
+ * Get a post by ID for editing
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getManagedBlog = catchAsync(async (req, res, next) => {
+  const blog = await loadManagedBlog(req.user, req.params.id);
+
+  await blog.populate('relatedSolutions', 'title shortDescription category');
+
+  res.status(200).json({
+    success: true,
+    blog: blog.getPublicProfile()
+  });
+});
+
+/**
+ * Create a draft post
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const createBlog = catchAsync(async (req, res, next) => {
+  const blog = await Blog.create({
+    ...pickEditable(req.body),
+    authorId: req.user._id,
+    authorName: `${req.user.firstName} ${req.user.lastName}`,
+    authorBio: req.user.bio,
+    authorAvatar: req.user.avatar,
+    status: 'draft'
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Blog post created',
+    blog: blog.getPublicProfile()
+  });
+});
+
+/**
+ * Update a post's content
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateBlog = catchAsync(async (req, res, next) => {
+  const blog = await loadManagedBlog(req.user, req.params.id);
+
+  Object.assign(blog, pickEditable(req.body));
+  await blog.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Blog post updated',
+    blog: blog.getPublicProfile()
+  });
+});
+
+/**
+ * Delete a post
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const deleteBlog = catchAsync(async (req, res, next) => {
+  const blog = await loadManagedBlog(req.user, req.params.id);
+
+  await blog.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    message: 'Blog post deleted'
+  });
+});
+
+/**
+ * Publish a post now
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const publishBlog = catchAsync(async (req, res, next) => {
+  const blog = await loadManagedBlog(req.user, req.params.id);
+
+  if (blog.status === 'published') {
+    return next(new AppError('Blog post is already published', 409));
+  }
+
+  await blog.publish();
+
+  res.status(200).json({
+    success: true,
+    message: 'Blog post published',
+    blog: blog.getPublicProfile()
+  });
+});
+
+/**
+ * Schedule a post to go live at a future time
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const scheduleBlog = catchAsync(async (req, res, next) => {
+  const blog = await loadManagedBlog(req.user, req.params.id);
+
+  if (blog.status === 'published') {
+    return next(new AppError('Unpublish the post before scheduling it', 409));
+  }
+
+  await blog.schedule(new Date(req.body.scheduledAt));
+
+  res.status(200).json({
+    success: true,
+    message: `Blog post scheduled for ${blog.scheduledAt.toISOString()}`,
+    blog: blog.getPublicProfile()
+  });
+});
+
+/**
+ * Move a published or scheduled post back to draft
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const unpublishBlog = catchAsync(async (req, res, next) => {
+  const blog = await loadManagedBlog(req.user, req.params.id);
+
+  await blog.unpublish();
+
+  res.status(200).json({
+    success: true,
+    message: 'Blog post moved to drafts',
+    blog: blog.getPublicProfile()
+  });
+});
+
+/**
+ * Search approved solutions to link from a post
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const searchLinkableSolutions = catchAsync(async (req, res, next) => {
+  const { q = '' } = req.query;
+
+  const solutions = await Solution.find({
+    status: 'approved',
+    isActive: true,
+    ...(q && { title: { $regex: escapeRegex(q), $options: 'i' } })
+  })
+    .sort({ title: 1 })
+    .limit(10)
+    .select('title shortDescription category');
+
+  res.status(200).json({
+    success: true,
+    count: solutions.length,
+    solutions
+  });
+});
+
+module.exports = {
+  getBlogs,
+  getFeaturedBlogs,
+  getBlogBySlug,
+  getManagedBlogs,
+  getManagedBlog,
+  createBlog,
+  updateBlog,
+  deleteBlog,
+  publishBlog,
+  scheduleBlog,
+  unpublishBlog,
+  searchLinkableSolutions
+};
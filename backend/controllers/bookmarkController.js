@@ -0,0 +1,348 @@
+/**
+ * Bookmark Controller
+ * Handles named bookmark lists, the solutions saved in them and sharing lists with an
+ * organization. Members of the organization can add solutions to a shared list and remove
+ * the ones they saved; removing others', renaming, sharing and deleting it is limited to its
+ * creator and the organization's owners and admins. Notes stay private to whoever saved
+ * the solution.
+ */
+
+const mongoose = require('mongoose');
+const Bookmark = require('../models/Bookmark');
+const BookmarkList = require('../models/BookmarkList');
+const Solution = require('../models/Solution');
+const organizationService = require('../services/organizationService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// express-validator accepts 'true' and 'false' strings as booleans
+const isTrue = (value) => value === true || value === 'true';
+
+/**
+ * Load a list the user can see (their own, or one shared with their organization)
+ * @param {Object} user - Authenticated user
+ * @param {string} listId - List ID
+ * @param {Array<string>} roles - Organization roles needed on shared lists (any member when empty)
+ * @returns {Promise<Object>} Bookmark list document
+ */
+const loadList = async (user, listId, roles = []) => {
+  const list = await BookmarkList.findById(listId);
+
+  if (!list || !(await organizationService.canManage(user, list, 'userId'))) {
+    throw new AppError('List not found', 404);
+  }
+
+  if (roles.length > 0 && !(await organizationService.canManage(user, list, 'userId', roles))) {
+    throw new AppError('Only the list creator or an organization admin can change this list', 403);
+  }
+
+  return list;
+};
+
+/**
+ * Shape a list for the API
+ * @param {Object} list - Bookmark list document (owner and organization may be populated)
+ * @param {Object} user - Authenticated user
+ * @param {number} itemCount - Number of saved solutions
+ * @returns {Object} List response
+ */
+const toResponse = (list, user, itemCount) => {
+  const data = list.toObject();
+  delete data.__v;
+
+  const ownerId = data.userId?._id || data.userId;
+  return {
+    ...data,
+    shared: Boolean(data.organizationId),
+    isOwner: ownerId?.toString() === user._id.toString(),
+    itemCount
+  };
+};
+
+/**
+ * Shape a saved solution for the API. Notes are private to the member who saved the
+ * solution, so on a shared list other members get an empty note.
+ * @param {Object} bookmark - Bookmark document (solution and saver may be populated)
+ * @param {Object} user - Authenticated user
+ * @returns {Object} Item response
+ */
+const toItem = (bookmark, user) => {
+  const saverId = bookmark.userId?._id || bookmark.userId;
+  const isMine = saverId?.toString() === user._id.toString();
+
+  return {
+    _id: bookmark._id,
+    solution: bookmark.solutionId,
+    note: isMine ? bookmark.note || '' : '',
+    isMine,
+    addedBy: bookmark.userId,
+    createdAt: bookmark.createdAt,
+    updatedAt: bookmark.updatedAt
+  };
+};
+
+/**
+ * Get the user's lists and lists shared with their organizations
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getLists = catchAsync(async (req, res, next) => {
+  // Every user has a default list for quick saves
+  await BookmarkList.getDefaultList(req.user._id);
+
+  const lists = await BookmarkList.find(await organizationService.ownerFilter(req.user, 'userId'))
+    .populate('userId', 'firstName lastName')
+    .populate('organizationId', 'name')
+    .sort({ isDefault: -1, updatedAt: -1 });
+
+  const listIds = lists.map(list => list._id);
+  const counts = await Bookmark.aggregate([
+    { $match: { listId: { $in: listIds } } },
+    { $group: { _id: '$listId', count: { $sum: 1 } } }
+  ]);
+  const countByList = new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+
+  // With ?solutionId, point out where that solution is already saved (for the save dialog)
+  let savedIn = new Map();
+  if (req.query.solutionId && mongoose.isValidObjectId(req.query.solutionId)) {
+    const saved = await Bookmark.find({ listId: { $in: listIds }, solutionId: req.query.solutionId }).select('listId');
+    savedIn = new Map(saved.map(bookmark => [bookmark.listId.toString(), bookmark._id]));
+  }
+
+  res.status(200).json({
+    success: true,
+    count: lists.length,
+    lists: lists.map(list => ({
+      ...toResponse(list, req.user, countByList.get(list._id.toString()) || 0),
+      ...(req.query.solutionId ? { savedItemId: savedIn.get(list._id.toString()) || null } : {})
+    }))
+  });
+});
+
+/**
+ * Resolve the organization a list is shared with
+ * @param {Object} user - Authenticated user
+ * @returns {Promise<Object>} Organization ID
+ */
+const sharingOrganizationId = async (user) => {
+  const organization = await organizationService.getActiveOrganization(user);
+  if (!organization) {
+    throw new AppError('Join an organization to share a list', 400);
+  }
+  return organization._id;
+};
+
+/**
+ * Create a bookmark list
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const createList = catchAsync(async (req, res, next) => {
+  const { name, description, shared } = req.body;
+
+  const list = await BookmarkList.create({
+    userId: req.user._id,
+    organizationId: isTrue(shared) ? await sharingOrganizationId(req.user) : undefined,
+    name,
+    description
+  });
+
+  await list.populate([
+    { path: 'userId', select: 'firstName lastName' },
+    { path: 'organizationId', select: 'name' }
+  ]);
+
+  res.status(201).json({
+    success: true,
+    message: 'List created successfully',
+    list: toResponse(list, req.user, 0)
+  });
+});
+
+/**
+ * Get a list with its saved solutions
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getList = catchAsync(async (req, res, next) => {
+  const list = await loadList(req.user, req.params.id);
+
+  const [bookmarks, canManage] = await Promise.all([
+    Bookmark.find({ listId: list._id })
+      .populate({
+        path: 'solutionId',
+        select: 'title slug shortDescription category pricing.model deployment.type rating companyId status isActive',
+        populate: { path: 'companyId', select: 'name logo isVerified' }
+      })
+      .populate('userId', 'firstName lastName')
+      .sort({ createdAt: -1 }),
+    organizationService.canManage(req.user, list, 'userId', organizationService.managerRoles)
+  ]);
+
+  await list.populate([
+    { path: 'userId', select: 'firstName lastName' },
+    { path: 'organizationId', select: 'name' }
+  ]);
+
+  // Deleted solutions drop out of the list
+  const items = bookmarks.filter(bookmark => bookmark.solutionId);
+
+  res.status(200).json({
+    success: true,
+    list: { ...toResponse(list, req.user, items.length), canManage },
+    items: items.map(bookmark => toItem(bookmark, req.user))
+  });
+});
+
+/**
+ * Rename, describe or share a list
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateList = catchAsync(async (req, res, next) => {
+  const list = await loadList(req.user, req.params.id, organizationService.managerRoles);
+  const { name, description, shared } = req.body;
+
+  if (name !== undefined) list.name = name;
+  if (description !== undefined) list.description = description;
+
+  if (shared !== undefined) {
+    if (isTrue(shared) && !list.organizationId) {
+      list.organizationId = await sharingOrganizationId(req.user);
+    } else if (!isTrue(shared) && list.organizationId) {
+      // Unsharing leaves only the creator with access, so it is theirs to do
+      if (list.userId.toString() !== req.user._id.toString()) {
+        return next(new AppError('Only the list creator can stop sharing it', 403));
+      }
+      list.organizationId = undefined;
+    }
+  }
+
+  await list.save();
+  const itemCount = await Bookmark.countDocuments({ listId: list._id });
+
+  await list.populate([
+    { path: 'userId', select: 'firstName lastName' },
+    { path: 'organizationId', select: 'name' }
+  ]);
+
+  res.status(200).json({
+    success: true,
+    message: 'List updated successfully',
+    list: toResponse(list, req.user, itemCount)
+  });
+});
+
+/**
+ * Delete a list and the bookmarks in it
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const deleteList = catchAsync(async (req, res, next) => {
+  const list = await loadList(req.user, req.params.id, organizationService.managerRoles);
+
+  if (list.isDefault) {
+    return next(new AppError('Your default list cannot be deleted', 400));
+  }
+
+  await Bookmark.removeBookmarks({ listId: list._id });
+  await list.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    message: 'List deleted successfully'
+  });
+});
+
+/**
+ * Save a solution to a list
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const addItem = catchAsync(async (req, res, next) => {
+  const list = await loadList(req.user, req.params.id);
+  const { solutionId, note } = req.body;
+
+  const solution = await Solution.findById(solutionId).select('status isActive');
+  if (!solution || solution.status !== 'approved' || !solution.isActive) {
+    return next(new AppError('Solution not found', 404));
+  }
+
+  const { bookmark, created } = await Bookmark.addBookmark(req.user._id, solutionId, list._id, note);
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    message: created ? `Saved to ${list.name}` : `Already in ${list.name}`,
+    bookmark: toItem(bookmark, req.user)
+  });
+});
+
+/**
+ * Update the note on a solution the user saved
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateItem = catchAsync(async (req, res, next) => {
+  const list = await loadList(req.user, req.params.id);
+
+  const bookmark = await Bookmark.findOneAndUpdate(
+    { _id: req.params.itemId, listId: list._id, userId: req.user._id },
+    { note: req.body.note },
+    { new: true, runValidators: true }
+  );
+
+  if (!bookmark) {
+    return next(new AppError('Saved solution not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Note saved',
+    bookmark: toItem(bookmark, req.user)
+  });
+});
+
+/**
+ * Remove a solution from a list
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const removeItem = catchAsync(async (req, res, next) => {
+  const list = await loadList(req.user, req.params.id);
+
+  const bookmark = await Bookmark.findOne({ _id: req.params.itemId, listId: list._id }).select('userId');
+  if (!bookmark) {
+    return next(new AppError('Saved solution not found', 404));
+  }
+
+  // Members remove what they saved; the creator and organization admins can remove anything
+  if (bookmark.userId.toString() !== req.user._id.toString() &&
+    !(await organizationService.canManage(req.user, list, 'userId', organizationService.managerRoles))) {
+    return next(new AppError('Only the member who saved this solution or a list manager can remove it', 403));
+  }
+
+  await Bookmark.removeBookmarks({ _id: bookmark._id });
+
+  res.status(200).json({
+    success: true,
+    message: `Removed from ${list.name}`
+  });
+});
+
+module.exports = {
+  getLists,
+  createList,
+  getList,
+  updateList,
+  deleteList,
+  addItem,
+  updateItem,
+  removeItem
+};
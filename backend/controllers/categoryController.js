@@ -0,0 +1,282 @@
+/**
+ * Category Controller
+ * Handles the public category/industry taxonomy and superadmin management (rename, move, merge)
+ */
+
+const Category = require('../models/Category');
+const categoryService = require('../services/categoryService');
+const solutionSearchService = require('../services/solutionSearchService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// Fields a superadmin may set or edit
+const EDITABLE_FIELDS = ['name', 'type', 'parentId', 'description', 'icon', 'synonyms', 'order', 'isActive'];
+
+/**
+ * Pick the editable fields from a request body
+ * @param {Object} body - Request body
+ */
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((data, field) => (
+  body[field] !== undefined ? { ...data, [field]: body[field] } : data
+), {});
+
+/**
+ * Load a taxonomy entry
+ * @param {string} categoryId - Category ID
+ * @returns {Promise<Object>} Category document
+ */
+const loadCategory = async (categoryId) => {
+  const category = await Category.findById(categoryId);
+
+  if (!category) {
+    throw new AppError('Category not found', 404);
+  }
+
+  return category;
+};
+
+/**
+ * Load and check the parent an entry is being placed under (two levels only)
+ * @param {Object} category - Entry being created or edited
+ * @returns {Promise<Object|null>} Parent document
+ */
+const loadParent = async (category) => {
+  if (!category.parentId) return null;
+
+  if (category._id && category.parentId.equals(category._id)) {
+    throw new AppError('A category cannot be its own parent', 400);
+  }
+
+  const parent = await Category.findById(category.parentId);
+
+  if (!parent || parent.type !== category.type) {
+    throw new AppError(`Parent must be an existing ${category.type}`, 400);
+  }
+
+  if (parent.parentId) {
+    throw new AppError('Only two levels are supported; choose a top-level parent', 400);
+  }
+
+  if (!category.isNew && await Category.exists({ parentId: category._id })) {
+    throw new AppError('Move or merge this entry\'s children before nesting it', 409);
+  }
+
+  return parent;
+};
+
+/**
+ * Reject names and synonyms another entry of the same type already uses
+ * @param {Object} category - Entry being created or edited
+ * @param {Array<string>} names - Names to check
+ */
+const assertNamesAvailable = async (category, names) => {
+  const conflict = await categoryService.findConflict(category.type, names, category.isNew ? null : category._id);
+
+  if (conflict) {
+    throw new AppError(`"${conflict.name}" is already used by the ${category.type} "${conflict.entry.name}"`, 409);
+  }
+};
+
+/**
+ * Refresh caches after the taxonomy or solution names changed
+ * @param {number} repointed - Number of solutions re-pointed
+ */
+const afterChange = (repointed) => {
+  categoryService.invalidate();
+  if (repointed > 0) {
+    solutionSearchService.invalidate();
+  }
+};
+
+/**
+ * Get active categories and industries with live approved-solution counts
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getCategories = catchAsync(async (req, res, next) => {
+  const { categories, industries } = await categoryService.getTaxonomy();
+
+  res.status(200).json({
+    success: true,
+    categories,
+    industries
+  });
+});
+
+/**
+ * Get every entry, including hidden ones, with synonyms and solution values that match no entry
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getManagedCategories = catchAsync(async (req, res, next) => {
+  const { categories, industries, unmapped } = await categoryService.getTaxonomy({ includeInactive: true });
+
+  res.status(200).json({
+    success: true,
+    categories,
+    industries,
+    unmapped
+  });
+});
+
+/**
+ * Create a category or industry; solutions using its synonyms are re-pointed to it
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const createCategory = catchAsync(async (req, res, next) => {
+  const category = new Category(pickEditable(req.body));
+  const parent = await loadParent(category);
+
+  await assertNamesAvailable(category, [category.name, ...category.synonyms]);
+  await category.save();
+
+  const repointed = await categoryService.repoint(category.type, category.synonyms, category, parent);
+  afterChange(repointed);
+
+  res.status(201).json({
+    success: true,
+    message: repointed
+      ? `Created "${category.name}" and re-pointed ${repointed} solutions`
+      : `Created "${category.name}"`,
+    category,
+    repointed
+  });
+});
+
+/**
+ * Update an entry; renames, moves and new synonyms re-point the solutions that use them
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateCategory = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req.params.id);
+  const { type, ...updates } = pickEditable(req.body);
+
+  if (type && type !== category.type) {
+    return next(new AppError('The type of an entry cannot be changed', 400));
+  }
+
+  const previous = {
+    name: category.name,
+    parentId: category.parentId ? category.parentId.toString() : null,
+    synonyms: [...category.synonyms]
+  };
+
+  Object.assign(category, updates);
+
+  const renamed = category.name !== previous.name;
+  const moved = (category.parentId ? category.parentId.toString() : null) !== previous.parentId;
+
+  // The old name keeps resolving, so links and imports that still use it keep working
+  if (renamed && previous.name.toLowerCase() !== category.name.toLowerCase()) {
+    category.synonyms = [...category.synonyms, previous.name.toLowerCase()];
+  }
+
+  const parent = moved ? await loadParent(category) : await Category.findById(category.parentId);
+  const addedSynonyms = category.synonyms.filter(synonym => !previous.synonyms.includes(synonym));
+
+  await assertNamesAvailable(category, [
+    ...(renamed ? [category.name] : []),
+    ...addedSynonyms.filter(synonym => synonym !== previous.name.toLowerCase())
+  ]);
+  await category.save();
+
+  // Solutions under a renamed top-level category's children follow through Solution.category
+  const repointed = await categoryService.repoint(category.type, [
+    ...(renamed || moved ? [previous.name] : []),
+    ...addedSynonyms
+  ], category, parent);
+  afterChange(repointed);
+
+  res.status(200).json({
+    success: true,
+    message: repointed
+      ? `Updated "${category.name}" and re-pointed ${repointed} solutions`
+      : `Updated "${category.name}"`,
+    category,
+    repointed
+  });
+});
+
+/**
+ * Merge an entry into another of the same type; its solutions, synonyms and children move over
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const mergeCategory = catchAsync(async (req, res, next) => {
+  const source = await loadCategory(req.params.id);
+  const target = await loadCategory(req.body.targetId);
+
+  if (source._id.equals(target._id)) {
+    return next(new AppError('Choose a different entry to merge into', 400));
+  }
+
+  if (source.type !== target.type) {
+    return next(new AppError('Categories can only be merged with categories, and industries with industries', 400));
+  }
+
+  const children = await Category.find({ parentId: source._id });
+
+  if (children.length && target.parentId) {
+    return next(new AppError('Move or merge this entry\'s children before merging it into a child entry', 409));
+  }
+
+  const parent = target.parentId ? await Category.findById(target.parentId) : null;
+
+  await Category.updateMany({ parentId: source._id }, { $set: { parentId: target._id } });
+
+  target.synonyms = [...target.synonyms, source.name.toLowerCase(), ...source.synonyms];
+  await target.save();
+  await source.deleteOne();
+
+  const repointed = await categoryService.repoint(source.type, [source.name, ...source.synonyms], target, parent);
+  afterChange(repointed);
+
+  res.status(200).json({
+    success: true,
+    message: `Merged "${source.name}" into "${target.name}" and re-pointed ${repointed} solutions`,
+    category: target,
+    repointed
+  });
+});
+
+/**
+ * Delete an entry that no solution uses and that has no children
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const deleteCategory = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req.params.id);
+
+  if (await Category.exists({ parentId: category._id })) {
+    return next(new AppError('Move or merge this entry\'s children first', 409));
+  }
+
+  const inUse = await categoryService.countSolutionsUsing(category);
+  if (inUse > 0) {
+    return next(new AppError(`${inUse} solutions use "${category.name}"; merge it into another entry instead`, 409));
+  }
+
+  await category.deleteOne();
+  afterChange(0);
+
+  res.status(200).json({
+    success: true,
+    message: `Deleted "${category.name}"`
+  });
+});
+
+module.exports = {
+  getCategories,
+  getManagedCategories,
+  createCategory,
+  updateCategory,
+  mergeCategory,
+  deleteCategory
+};
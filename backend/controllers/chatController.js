@@ -4,8 +4,24 @@
  */
 
 const aiAgentService = require('../services/aiAgentService');
+const realtimeService = require('../services/realtimeService');
 const { AppError } = require('../middleware/errorHandler');
 
+/**
+ * Validate an incoming chat message
+ * @param {*} message - Message from the request body
+ * @returns {string|null} Error message, or null when valid
+ */
+const getMessageError = (message) => {
+  if (!message || typeof message !== 'string' || message.trim().length === 0) {
+    return 'Message is required and must be a non-empty string';
+  }
+  if (message.length > 1000) {
+    return 'Message is too long. Maximum 1000 characters allowed.';
+  }
+  return null;
+};
+
 /**
  * Send message to AI agent
  */
@@ -14,19 +30,16 @@ const sendMessage = async (req, res, next) => {
     const { message, sessionId } = req.body;
     
     // Validate input
-    if (!message || typeof message !== 'string' || message.trim().length === 0) {
-      return next(new AppError('Message is required and must be a non-empty string', 400));
-    }
-    
-    if (message.length > 1000) {
-      return next(new AppError('Message is too long. Maximum 1000 characters allowed.', 400));
+    const validationError = getMessageError(message);
+    if (validationError) {
+      return next(new AppError(validationError, 400));
     }
     
     // Process message with AI agent
-    const result = await aiAgentService.processMessage(message.trim(), sessionId);
+    const result = await aiAgentService.processMessage(message.trim(), sessionId, { user: req.user });
     
     if (!result.success) {
-      return next(new AppError(result.error || 'Failed to process message', 500));
+      return next(new AppError(result.error || 'Failed to process message', result.statusCode || 500));
     }
     
     res.status(200).json({
@@ -36,6 +49,7 @@ const sendMessage = async (req, res, next) => {
         sessionId: result.sessionId,
         context: result.context,
         solutionCards: result.solutionCards,
+        actions: result.actions,
         timestamp: new Date().toISOString()
       }
     });
@@ -46,6 +60,110 @@ const sendMessage = async (req, res, next) => {
   }
 };
 
+/**
+ * Send message to AI agent and stream the reply as Server-Sent Events
+ * Events: `start` { sessionId }, `token` { content }, `done` { response, solutionCards, actions, ... }, `error` { error }.
+ * Closing the connection stops generation.
+ */
+const streamMessage = async (req, res, next) => {
+  const { message, sessionId } = req.body;
+  
+  // Validate input before switching to an event stream
+  const validationError = getMessageError(message);
+  if (validationError) {
+    return next(new AppError(validationError, 400));
+  }
+  
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  
+  const send = (event, data) => {
+    if (!res.writableEnded) {
+      realtimeService.write(res, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  
+  // Stop generating when the client goes away
+  const abortController = new AbortController();
+  res.on('close', () => abortController.abort());
+  
+  try {
+    const result = await aiAgentService.streamMessage(message.trim(), sessionId, {
+      user: req.user,
+      signal: abortController.signal,
+      onToken: (content) => send('token', { content }),
+      onStart: (id) => send('start', { sessionId: id })
+    });
+    
+    if (!result.success) {
+      send('error', { error: result.error || 'Failed to process message', statusCode: result.statusCode || 500 });
+    } else {
+      send('done', {
+        response: result.response,
+        sessionId: result.sessionId,
+        stopped: result.stopped,
+        context: result.context,
+        solutionCards: result.solutionCards,
+        actions: result.actions,
+        timestamp: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Error in streamMessage:', error);
+    send('error', { error: 'Internal server error while processing message', statusCode: 500 });
+  }
+  
+  res.end();
+};
+
+/**
+ * Build a handler that confirms or cancels an action proposed by the agent
+ * @param {boolean} confirm - true to run the action, false to cancel it
+ */
+const resolveAction = (confirm) => async (req, res, next) => {
+  try {
+    const { actionId } = req.params;
+    const { sessionId } = req.body;
+    
+    if (!sessionId) {
+      return next(new AppError('Session ID is required', 400));
+    }
+    
+    const result = await aiAgentService.resolveAction(sessionId, actionId, req.user, confirm);
+    
+    if (!result.success) {
+      return next(new AppError(result.error, result.statusCode || 500));
+    }
+    
+    res.status(200).json({
+      success: true,
+      data: {
+        action: result.action,
+        message: result.message
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error in resolveAction:', error);
+    next(new AppError('Internal server error while resolving action', 500));
+  }
+};
+
+/**
+ * Confirm and run an action proposed by the agent
+ */
+const confirmAction = resolveAction(true);
+
+/**
+ * Cancel an action proposed by the agent
+ */
+const cancelAction = resolveAction(false);
+
 /**
  * Get conversation history for a session
  */
@@ -57,14 +175,19 @@ const getConversationHistory = async (req, res, next) => {
       return next(new AppError('Session ID is required', 400));
     }
     
-    const history = aiAgentService.getConversationHistory(sessionId);
+    const result = await aiAgentService.getConversationHistory(sessionId, req.user);
+    
+    if (!result.success) {
+      return next(new AppError(result.error, result.statusCode || 500));
+    }
     
     res.status(200).json({
       success: true,
       data: {
         sessionId: sessionId,
-        history: history,
-        messageCount: history.length
+        title: result.title,
+        history: result.history,
+        messageCount: result.history.length
       }
     });
     
@@ -85,7 +208,11 @@ const clearConversationHistory = async (req, res, next) => {
       return next(new AppError('Session ID is required', 400));
     }
     
-    const result = aiAgentService.clearConversationHistory(sessionId);
+    const result = await aiAgentService.clearConversationHistory(sessionId, req.user);
+    
+    if (!result.success) {
+      return next(new AppError(result.error, result.statusCode || 500));
+    }
     
     res.status(200).json({
       success: true,
@@ -98,12 +225,38 @@ const clearConversationHistory = async (req, res, next) => {
   }
 };
 
+/**
+ * List previous conversations
+ * Signed-in users get their own sessions; anonymous visitors pass the
+ * session IDs stored in their browser as a comma-separated `ids` query.
+ */
+const getSessions = async (req, res, next) => {
+  try {
+    const sessionIds = typeof req.query.ids === 'string'
+      ? req.query.ids.split(',').map(id => id.trim()).filter(Boolean).slice(0, 50)
+      : [];
+    
+    const sessions = await aiAgentService.listSessions(req.user, sessionIds);
+    
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error in getSessions:', error);
+    next(new AppError('Internal server error while fetching conversations', 500));
+  }
+};
+
 /**
  * Get AI agent statistics
  */
 const getAgentStats = async (req, res, next) => {
   try {
-    const stats = aiAgentService.getStats();
+    const stats = await aiAgentService.getStats();
     
     res.status(200).json({
       success: true,
@@ -123,7 +276,7 @@ const healthCheck = async (req, res, next) => {
   try {
     // Test OpenAI connection with a simple request
     const testMessage = "Hello, are you working?";
-    const result = await aiAgentService.processMessage(testMessage);
+    const result = await aiAgentService.processMessage(testMessage, null, { persist: false });
     
     res.status(200).json({
       success: true,
@@ -147,8 +300,12 @@ const healthCheck = async (req, res, next) => {
 
 module.exports = {
   sendMessage,
+  streamMessage,
+  confirmAction,
+  cancelAction,
   getConversationHistory,
   clearConversationHistory,
+  getSessions,
   getAgentStats,
   healthCheck
 };
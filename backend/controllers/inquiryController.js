@@ -0,0 +1,270 @@
+/**
+ * Inquiry Controller
+ * Handles solution contact requests: buyers send and follow them, vendors work them as leads
+ */
+
+const mongoose = require('mongoose');
+const Inquiry = require('../models/Inquiry');
+const Solution = require('../models/Solution');
+const inquiryService = require('../services/inquiryService');
+const organizationService = require('../services/organizationService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Load an inquiry the user may work (its vendor, their organization or a superadmin)
+ * @param {Object} user - Authenticated user
+ * @param {string} inquiryId - Inquiry ID
+ * @returns {Promise<Object>} Inquiry document
+ */
+const loadOwnedInquiry = async (user, inquiryId) => {
+  const inquiry = await Inquiry.findById(inquiryId);
+
+  if (!inquiry) {
+    throw new AppError('Inquiry not found', 404);
+  }
+
+  if (user.role !== 'superadmin' && !(await organizationService.canManage(user, inquiry, 'vendorId'))) {
+    throw new AppError('Not authorized to manage this inquiry', 403);
+  }
+
+  return inquiry;
+};
+
+/**
+ * Populate an inquiry for the vendor inbox
+ * @param {Object} inquiry - Inquiry document
+ */
+const populateForVendor = (inquiry) => inquiry.populate([
+  { path: 'solutionId', select: 'title' },
+  { path: 'buyerId', select: 'firstName lastName email avatar' },
+  { path: 'notes.authorId', select: 'firstName lastName' }
+]);
+
+/**
+ * Send a contact request about a solution to its vendor
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const createInquiry = catchAsync(async (req, res, next) => {
+  const solution = await Solution.findById(req.params.id);
+
+  if (!solution || solution.status !== 'approved' || !solution.isActive) {
+    return next(new AppError('Solution not found', 404));
+  }
+
+  if (solution.vendorId.toString() === req.user._id.toString()) {
+    return next(new AppError('You cannot send an inquiry about your own solution', 400));
+  }
+
+  const { name, email, company, message } = req.body;
+  const inquiry = await Inquiry.create({
+    solutionId: solution._id,
+    vendorId: solution.vendorId,
+    organizationId: solution.organizationId,
+    buyerId: req.user._id,
+    name,
+    email,
+    company,
+    message
+  });
+
+  await Solution.updateMetric(solution._id, 'inquiries', 1);
+  inquiryService.notifyVendor(inquiry, solution);
+
+  res.status(201).json({
+    success: true,
+    message: 'Contact request sent successfully',
+    inquiry: inquiry.getBuyerView()
+  });
+});
+
+/**
+ * Get the inquiries the current user has sent, with vendor replies
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getMyInquiries = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, solutionId } = req.query;
+
+  const filter = { buyerId: req.user._id };
+  if (solutionId) {
+    filter.solutionId = solutionId;
+  }
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [inquiries, total] = await Promise.all([
+    Inquiry.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit))
+      .populate('solutionId', 'title'),
+    Inquiry.countDocuments(filter)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: inquiries.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    inquiries: inquiries.map(inquiry => inquiry.getBuyerView())
+  });
+});
+
+/**
+ * Get the vendor's inquiry inbox, shared with their organizations, with per-status counts
+ * (superadmins see every inquiry)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getInquiries = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, status, solutionId, search } = req.query;
+
+  const baseFilter = req.user.role === 'superadmin' ? {} : await organizationService.ownerFilter(req.user, 'vendorId');
+  if (solutionId) {
+    baseFilter.solutionId = new mongoose.Types.ObjectId(solutionId);
+  }
+  if (search) {
+    const pattern = new RegExp(escapeRegex(search), 'i');
+    baseFilter.$and = [{ $or: [{ name: pattern }, { email: pattern }, { company: pattern }, { message: pattern }] }];
+  }
+
+  const filter = status ? { ...baseFilter, status } : baseFilter;
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [inquiries, total, statusCounts] = await Promise.all([
+    Inquiry.find(filter)
+      .sort({ lastActivityAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit))
+      .select('-notes')
+      .populate('solutionId', 'title'),
+    Inquiry.countDocuments(filter),
+    Inquiry.aggregate([
+      { $match: baseFilter },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ])
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: inquiries.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    counts: statusCounts.reduce((counts, { _id, count }) => ({ ...counts, [_id]: count }), {}),
+    inquiries
+  });
+});
+
+/**
+ * Get one inquiry with notes and replies
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getInquiry = catchAsync(async (req, res, next) => {
+  const inquiry = await loadOwnedInquiry(req.user, req.params.id);
+  await populateForVendor(inquiry);
+
+  res.status(200).json({
+    success: true,
+    inquiry
+  });
+});
+
+/**
+ * Move an inquiry through the sales pipeline
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateInquiryStatus = catchAsync(async (req, res, next) => {
+  const inquiry = await loadOwnedInquiry(req.user, req.params.id);
+
+  if (inquiry.status !== req.body.status) {
+    inquiry.status = req.body.status;
+    inquiry.statusChangedAt = new Date();
+    inquiry.lastActivityAt = new Date();
+    await inquiry.save();
+  }
+
+  await populateForVendor(inquiry);
+
+  res.status(200).json({
+    success: true,
+    message: `Inquiry marked as ${inquiry.status}`,
+    inquiry
+  });
+});
+
+/**
+ * Add a private note to an inquiry
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const addInquiryNote = catchAsync(async (req, res, next) => {
+  const inquiry = await loadOwnedInquiry(req.user, req.params.id);
+
+  inquiry.notes.push({ content: req.body.content, authorId: req.user._id });
+  inquiry.lastActivityAt = new Date();
+  await inquiry.save();
+  await populateForVendor(inquiry);
+
+  res.status(201).json({
+    success: true,
+    message: 'Note added',
+    inquiry
+  });
+});
+
+/**
+ * Reply to the buyer; a new inquiry moves to contacted
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const replyToInquiry = catchAsync(async (req, res, next) => {
+  const inquiry = await loadOwnedInquiry(req.user, req.params.id);
+
+  inquiry.replies.push({ message: req.body.message, authorId: req.user._id });
+  const reply = inquiry.replies[inquiry.replies.length - 1];
+
+  if (inquiry.status === 'new') {
+    inquiry.status = 'contacted';
+    inquiry.statusChangedAt = new Date();
+  }
+  inquiry.lastActivityAt = new Date();
+  await inquiry.save();
+
+  const solution = await Solution.findById(inquiry.solutionId).select('title');
+  reply.emailed = await inquiryService.deliverReply(inquiry, reply, solution);
+  if (reply.emailed) {
+    await inquiry.save();
+  }
+
+  await populateForVendor(inquiry);
+
+  res.status(201).json({
+    success: true,
+    message: reply.emailed ? 'Reply sent' : 'Reply saved, but the email could not be queued',
+    inquiry
+  });
+});
+
+module.exports = {
+  createInquiry,
+  getMyInquiries,
+  getInquiries,
+  getInquiry,
+  updateInquiryStatus,
+  addInquiryNote,
+  replyToInquiry
+};
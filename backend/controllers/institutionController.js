@@ -5,6 +5,7 @@
 
 const HealthcareInstitution = require('../models/HealthcareInstitution');
 const User = require('../models/User');
+const organizationService = require('../services/organizationService');
 const { AppError, catchAsync } = require('../middleware/errorHandler');
 
 /**
@@ -86,16 +87,22 @@ const createOrUpdateInstitution = catchAsync(async (req, res, next) => {
     }
   });
 
-  // Find existing or create new
-  let institution = await HealthcareInstitution.findOne({ userId });
+  // Find existing (the active organization's profile first) or create new
+  let institution = await organizationService.findProfile(HealthcareInstitution, req.user);
   
   if (institution) {
-    // Update existing
+    // Organization profiles are edited by the creator or the organization's owners and admins
+    if (!(await organizationService.canManage(req.user, institution, 'userId', organizationService.managerRoles))) {
+      return next(new AppError('Only organization owners and admins can edit this profile', 403));
+    }
+
+    // Update existing (the profile stays with the user who created it)
+    delete institutionData.userId;
     Object.assign(institution, institutionData);
     await institution.save();
   } else {
     // Create new
-    institution = await HealthcareInstitution.create(institutionData);
+    institution = await HealthcareInstitution.create({ ...institutionData, organizationId: organizationService.ownerOrganizationId(req.user) });
   }
 
   // Update user profile flags
@@ -116,14 +123,12 @@ const createOrUpdateInstitution = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Get institution profile for current user
+ * Get institution profile for current user (the active organization's profile if it has one)
  * @route GET /api/institution
  * @access Private
  */
 const getInstitution = catchAsync(async (req, res, next) => {
-  const userId = req.user._id;
-
-  const institution = await HealthcareInstitution.findOne({ userId });
+  const institution = await organizationService.findProfile(HealthcareInstitution, req.user);
 
   if (!institution) {
     return res.status(200).json({
@@ -0,0 +1,188 @@
+/**
+ * Mail Controller
+ * Handles the superadmin dev mailbox: the transactional outbox, retries and template previews
+ */
+
+const OutboxEmail = require('../models/OutboxEmail');
+const emailService = require('../services/emailService');
+const { getMailTransport } = require('../services/mail');
+const { render, listTemplates } = require('../services/mail/templates');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Single-use tokens in account links (password reset, email verification, invitations)
+const TOKEN_PARAM = /([?&](?:amp;)?token=)[^&\s"'<>]+/g;
+
+/**
+ * Copy an outbox email with the tokens in its links replaced
+ * @param {Object} email - OutboxEmail document
+ * @returns {Object} Email safe to show in the mailbox
+ */
+const redactTokens = (email) => {
+  const redacted = email.toObject();
+  ['html', 'text'].forEach(field => {
+    if (redacted[field]) {
+      redacted[field] = redacted[field].replace(TOKEN_PARAM, '$1[redacted]');
+    }
+  });
+  return redacted;
+};
+
+/**
+ * Get outbox emails with per-status counts
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getOutbox = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, status, template, search } = req.query;
+
+  const baseFilter = {};
+  if (template) {
+    baseFilter.template = template;
+  }
+  if (search) {
+    const pattern = new RegExp(escapeRegex(search), 'i');
+    baseFilter.$or = [{ to: pattern }, { subject: pattern }];
+  }
+
+  const filter = status ? { ...baseFilter, status } : baseFilter;
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [emails, total, statusCounts] = await Promise.all([
+    OutboxEmail.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit))
+      .select('-html -text'),
+    OutboxEmail.countDocuments(filter),
+    OutboxEmail.aggregate([
+      { $match: baseFilter },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ])
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: emails.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    counts: statusCounts.reduce((counts, { _id, count }) => ({ ...counts, [_id]: count }), {}),
+    transport: getMailTransport().name,
+    emails
+  });
+});
+
+/**
+ * Get one outbox email with its rendered content
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getOutboxEmail = catchAsync(async (req, res, next) => {
+  const email = await OutboxEmail.findById(req.params.id);
+
+  if (!email) {
+    return next(new AppError('Email not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    email: redactTokens(email)
+  });
+});
+
+/**
+ * Queue a failed email again
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const retryOutboxEmail = catchAsync(async (req, res, next) => {
+  const existing = await OutboxEmail.findById(req.params.id).select('status');
+
+  if (!existing) {
+    return next(new AppError('Email not found', 404));
+  }
+
+  const email = await emailService.retry(req.params.id);
+
+  if (!email) {
+    return next(new AppError(`Email is already ${existing.status}`, 409));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: email.status === 'sent' ? 'Email sent' : 'Email queued for retry',
+    email: redactTokens(email)
+  });
+});
+
+/**
+ * List the transactional templates
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getTemplates = catchAsync(async (req, res, next) => {
+  res.status(200).json({
+    success: true,
+    templates: listTemplates()
+  });
+});
+
+/**
+ * Render a template with its sample data
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const previewTemplate = catchAsync(async (req, res, next) => {
+  const template = listTemplates().find(({ name }) => name === req.params.name);
+
+  if (!template) {
+    return next(new AppError('Template not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    template: template.name,
+    ...render(template.name, template.sample)
+  });
+});
+
+/**
+ * Queue a template with sample data to an address (defaults to the current user)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const sendTestEmail = catchAsync(async (req, res, next) => {
+  const { template } = req.body;
+  const to = req.body.to || req.user.email;
+  const { sample } = listTemplates().find(({ name }) => name === template);
+
+  const email = await emailService.queue(template, to, sample, { userId: req.user._id });
+
+  if (!email) {
+    return next(new AppError('Test email could not be queued', 500));
+  }
+
+  res.status(201).json({
+    success: true,
+    message: `Test email queued for ${to}`,
+    email: redactTokens(email)
+  });
+});
+
+module.exports = {
+  getOutbox,
+  getOutboxEmail,
+  retryOutboxEmail,
+  getTemplates,
+  previewTemplate,
+  sendTestEmail
+};
@@ -0,0 +1,418 @@
+/**
+ * Newsletter Controller
+ * Handles newsletter composing, audience previews, sending, and open/click/unsubscribe tracking
+ */
+
+const Newsletter = require('../models/Newsletter');
+const NewsletterDelivery = require('../models/NewsletterDelivery');
+const Solution = require('../models/Solution');
+const Blog = require('../models/Blog');
+const newsletterService = require('../services/newsletterService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// Fields a superadmin may set or edit; status only changes through schedule/send
+const EDITABLE_FIELDS = [
+  'title', 'description', 'content', 'category', 'tags', 'industry', 'priority',
+  'distribution', 'featuredSolutions', 'featuredBlogs', 'template', 'metaTitle', 'metaDescription'
+];
+
+// Newsletters can no longer be edited once sending has started
+const LOCKED_STATUSES = ['sending', 'sent'];
+
+// Fields shown on list rows
+const LIST_FIELDS = '-content -htmlContent -previousVersions -__v';
+
+// 1x1 transparent GIF returned by the open pixel
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pick the editable fields from a request body
+ * @param {Object} body - Request body
+ */
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((data, field) => (
+  body[field] !== undefined ? { ...data, [field]: body[field] } : data
+), {});
+
+/**
+ * Load a newsletter that can still be changed
+ * @param {string} newsletterId - Newsletter ID
+ * @returns {Promise<Object>} Newsletter document
+ */
+const loadEditableNewsletter = async (newsletterId) => {
+  const newsletter = await Newsletter.findById(newsletterId);
+
+  if (!newsletter) {
+    throw new AppError('Newsletter not found', 404);
+  }
+
+  if (LOCKED_STATUSES.includes(newsletter.status)) {
+    throw new AppError(`Newsletter is already ${newsletter.status}`, 409);
+  }
+
+  return newsletter;
+};
+
+/**
+ * Get newsletters in every status
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getNewsletters = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, status } = req.query;
+
+  const query = status ? { status } : {};
+
+  const [newsletters, total] = await Promise.all([
+    Newsletter.find(query)
+      .select(LIST_FIELDS)
+      .sort({ updatedAt: -1 })
+      .limit(limit * 1)
+      .skip((page - 1) * limit),
+    Newsletter.countDocuments(query)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: newsletters.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / limit),
+    newsletters
+  });
+});
+
+/**
+ * Get a newsletter for editing, with its featured content and delivery breakdown
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await Newsletter.findById(req.params.id)
+    .populate('featuredSolutions', 'title category')
+    .populate('featuredBlogs', 'title slug category');
+
+  if (!newsletter) {
+    return next(new AppError('Newsletter not found', 404));
+  }
+
+  const failures = await NewsletterDelivery.find({ newsletterId: newsletter._id, status: 'failed' })
+    .select('email error updatedAt')
+    .limit(20);
+
+  res.status(200).json({
+    success: true,
+    newsletter: newsletter.getPublicProfile(),
+    failures
+  });
+});
+
+/**
+ * Create a draft newsletter
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const createNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await Newsletter.create({
+    ...pickEditable(req.body),
+    authorId: req.user._id,
+    status: 'draft'
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Newsletter created',
+    newsletter: newsletter.getPublicProfile()
+  });
+});
+
+/**
+ * Update a newsletter; content changes are kept in previousVersions
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await loadEditableNewsletter(req.params.id);
+  const { content, ...updates } = pickEditable(req.body);
+
+  Object.assign(newsletter, updates);
+  newsletter.editorId = req.user._id;
+
+  if (content !== undefined && content !== newsletter.content) {
+    await newsletter.createNewVersion(content, req.user._id);
+  } else {
+    await newsletter.save();
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Newsletter updated',
+    newsletter: newsletter.getPublicProfile()
+  });
+});
+
+/**
+ * Delete a newsletter that has not been sent
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const deleteNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await loadEditableNewsletter(req.params.id);
+
+  await NewsletterDelivery.deleteMany({ newsletterId: newsletter._id });
+  await newsletter.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    message: 'Newsletter deleted'
+  });
+});
+
+/**
+ * Count the subscribers an audience would reach
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const previewAudience = catchAsync(async (req, res, next) => {
+  const recipientCount = await newsletterService.countAudience(req.body.distribution);
+
+  res.status(200).json({
+    success: true,
+    recipientCount
+  });
+});
+
+/**
+ * Render a newsletter's email without tracking
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const previewNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await newsletterService.loadForRendering(req.params.id);
+
+  if (!newsletter) {
+    return next(new AppError('Newsletter not found', 404));
+  }
+
+  const { subject, html } = newsletterService.render(newsletter);
+
+  res.status(200).json({
+    success: true,
+    subject,
+    html
+  });
+});
+
+/**
+ * Send an untracked test copy to the current user
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const sendTestNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await Newsletter.findById(req.params.id).select('_id');
+
+  if (!newsletter) {
+    return next(new AppError('Newsletter not found', 404));
+  }
+
+  await newsletterService.sendTest(newsletter._id, req.user.email);
+
+  res.status(200).json({
+    success: true,
+    message: `Test newsletter sent to ${req.user.email}`
+  });
+});
+
+/**
+ * Schedule a newsletter to be sent later
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const scheduleNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await loadEditableNewsletter(req.params.id);
+
+  await newsletter.schedule(new Date(req.body.scheduledAt));
+
+  res.status(200).json({
+    success: true,
+    message: `Newsletter scheduled for ${newsletter.scheduledAt.toISOString()}`,
+    newsletter: newsletter.getPublicProfile()
+  });
+});
+
+/**
+ * Cancel a scheduled send
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const unscheduleNewsletter = catchAsync(async (req, res, next) => {
+  const newsletter = await loadEditableNewsletter(req.params.id);
+
+  if (newsletter.status !== 'scheduled') {
+    return next(new AppError('Newsletter is not scheduled', 409));
+  }
+
+  newsletter.status = 'draft';
+  newsletter.scheduledAt = undefined;
+  await newsletter.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Newsletter moved to drafts',
+    newsletter: newsletter.getPublicProfile()
+  });
+});
+
+/**
+ * Start sending a newsletter now; delivery continues in the background
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const sendNewsletter = catchAsync(async (req, res, next) => {
+  await loadEditableNewsletter(req.params.id);
+
+  const newsletter = await newsletterService.claim(req.params.id);
+  if (!newsletter) {
+    return next(new AppError('Newsletter cannot be sent in its current status', 409));
+  }
+
+  newsletterService.deliver(newsletter._id).catch(error => {
+    console.error(`Newsletter "${newsletter.title}" failed to send:`, error.message);
+  });
+
+  res.status(202).json({
+    success: true,
+    message: `Sending to ${newsletter.distribution.recipientCount} subscribers`,
+    newsletter: newsletter.getPublicProfile()
+  });
+});
+
+/**
+ * Search solutions and published blog posts to feature in a newsletter
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const searchFeaturableContent = catchAsync(async (req, res, next) => {
+  const { q = '' } = req.query;
+  const pattern = new RegExp(escapeRegex(q.trim()), 'i');
+
+  const [solutions, blogs] = await Promise.all([
+    Solution.find({ status: 'approved', isActive: true, title: pattern })
+      .select('title category')
+      .limit(10),
+    Blog.find({ status: 'published', title: pattern })
+      .select('title slug category')
+      .limit(10)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    solutions,
+    blogs
+  });
+});
+
+/**
+ * Record an open and return a transparent pixel
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const trackOpen = catchAsync(async (req, res, next) => {
+  await newsletterService.recordOpen(req.params.token);
+
+  res.set({
+    'Content-Type': 'image/gif',
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private'
+  });
+  res.status(200).send(TRACKING_PIXEL);
+});
+
+/**
+ * Record a click and redirect to the signed destination
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const trackClick = catchAsync(async (req, res, next) => {
+  const { url, sig } = req.query;
+
+  if (!newsletterService.verifyLink(req.params.token, url, sig)) {
+    return next(new AppError('Invalid or tampered link', 400));
+  }
+
+  await newsletterService.recordClick(req.params.token);
+
+  res.redirect(302, url);
+});
+
+/**
+ * Unsubscribe from newsletters (unsubscribe page and List-Unsubscribe one-click)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const unsubscribe = catchAsync(async (req, res, next) => {
+  const delivery = await newsletterService.unsubscribe(req.params.token);
+
+  if (!delivery) {
+    return next(new AppError('Unsubscribe link is invalid', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `${delivery.email} will no longer receive newsletters`
+  });
+});
+
+/**
+ * Resubscribe after unsubscribing by mistake
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const resubscribe = catchAsync(async (req, res, next) => {
+  const delivery = await newsletterService.resubscribe(req.params.token);
+
+  if (!delivery) {
+    return next(new AppError('Subscription link is invalid', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `${delivery.email} is subscribed to newsletters again`
+  });
+});
+
+module.exports = {
+  getNewsletters,
+  getNewsletter,
+  createNewsletter,
+  updateNewsletter,
+  deleteNewsletter,
+  previewAudience,
+  previewNewsletter,
+  sendTestNewsletter,
+  scheduleNewsletter,
+  unscheduleNewsletter,
+  sendNewsletter,
+  searchFeaturableContent,
+  trackOpen,
+  trackClick,
+  unsubscribe,
+  resubscribe
+};
@@ -0,0 +1,471 @@
+/**
+ * Organization Controller
+ * Handles organizations, member roles, invitations and switching the active organization
+ */
+
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const organizationService = require('../services/organizationService');
+const ssoService = require('../services/ssoService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+const MEMBER_FIELDS = 'firstName lastName email avatar role';
+
+/**
+ * Load an organization the user belongs to (superadmins can open any)
+ * @param {Object} user - Authenticated user
+ * @param {string} organizationId - Organization ID
+ * @param {Array<string>} roles - Roles required (any member when empty)
+ * @returns {Promise<Object>} Organization document
+ */
+const loadOrganization = async (user, organizationId, roles = []) => {
+  const organization = await Organization.findById(organizationId);
+
+  if (!organization || (user.role !== 'superadmin' && !organization.getMember(user._id))) {
+    throw new AppError('Organization not found', 404);
+  }
+
+  if (user.role !== 'superadmin' && !organization.hasRole(user._id, roles)) {
+    throw new AppError('Only organization owners and admins can do this', 403);
+  }
+
+  return organization;
+};
+
+/**
+ * Organization type that matches a user's account
+ * @param {Object} user - User
+ * @returns {string|null} vendor, buyer, or null for superadmins (either)
+ */
+const organizationTypeFor = (user) => {
+  if (user.role === 'vendor') return 'vendor';
+  if (user.role === 'customer') return 'buyer';
+  return null;
+};
+
+/**
+ * Serialize an organization for a member; invitations are only shown to owners and admins
+ * @param {Object} organization - Organization document
+ * @param {Object} user - Viewing user
+ * @returns {Object} Organization
+ */
+const toResponse = (organization, user) => {
+  const result = organization.getPublicProfile(user._id);
+  if (user.role !== 'superadmin' && !organization.hasRole(user._id, organizationService.managerRoles)) {
+    delete result.invitations;
+    result.sso = { enabled: Boolean(result.sso?.enabled), protocol: result.sso?.protocol };
+  }
+  return result;
+};
+
+/**
+ * Serialize SSO settings with the URLs to register at the identity provider
+ * @param {Object} organization - Organization document
+ * @returns {Object} SSO settings (the client secret is never returned)
+ */
+const ssoSettingsResponse = (organization) => {
+  const { oidc = {}, ...settings } = organization.sso ? organization.sso.toObject() : {};
+  const { clientSecret, ...publicOidc } = oidc;
+
+  return {
+    ...settings,
+    oidc: { ...publicOidc, hasClientSecret: Boolean(clientSecret) },
+    serviceProvider: ssoService.serviceProviderUrls(organization)
+  };
+};
+
+/**
+ * Get the organizations the current user belongs to
+ * @route GET /api/organizations
+ * @access Private
+ */
+const getOrganizations = catchAsync(async (req, res, next) => {
+  const organizations = await Organization.find({ 'members.userId': req.user._id })
+    .populate('companyId', 'name logo')
+    .sort({ name: 1 });
+
+  res.status(200).json({
+    success: true,
+    count: organizations.length,
+    activeOrganizationId: req.user.activeOrganizationId || null,
+    organizations: organizations.map(organization => {
+      const { invitations, members, ...summary } = organization.getPublicProfile(req.user._id);
+      return { ...summary, memberCount: members.length };
+    })
+  });
+});
+
+/**
+ * Create an organization with the current user as owner and switch to it
+ * @route POST /api/organizations
+ * @access Private
+ */
+const createOrganization = catchAsync(async (req, res, next) => {
+  const type = organizationTypeFor(req.user) || req.body.type;
+
+  if (!type) {
+    return next(new AppError('Organization type is required', 400));
+  }
+  if (req.body.type && req.body.type !== type) {
+    return next(new AppError(`Your account can only create ${type} organizations`, 400));
+  }
+
+  const organization = await Organization.create({
+    name: req.body.name,
+    type,
+    // Vendor organizations list solutions under the founder's company
+    companyId: type === 'vendor' ? req.user.companyId : undefined,
+    members: [{ userId: req.user._id, role: 'owner' }],
+    createdBy: req.user._id
+  });
+
+  await organizationService.activate(req.user, organization);
+
+  res.status(201).json({
+    success: true,
+    message: 'Organization created successfully',
+    organization: toResponse(organization, req.user)
+  });
+});
+
+/**
+ * Get an organization with its members
+ * @route GET /api/organizations/:id
+ * @access Private (Members or Superadmin)
+ */
+const getOrganization = catchAsync(async (req, res, next) => {
+  const organization = await loadOrganization(req.user, req.params.id);
+
+  await organization.populate([
+    { path: 'members.userId', select: MEMBER_FIELDS },
+    { path: 'invitations.invitedBy', select: 'firstName lastName' },
+    { path: 'companyId', select: 'name logo' }
+  ]);
+
+  res.status(200).json({
+    success: true,
+    organization: toResponse(organization, req.user)
+  });
+});
+
+/**
+ * Rename an organization
+ * @route PUT /api/organizations/:id
+ * @access Private (Owners and Admins)
+ */
+const updateOrganization = catchAsync(async (req, res, next) => {
+  const organization = await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+
+  organization.name = req.body.name;
+  await organization.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Organization updated successfully',
+    organization: toResponse(organization, req.user)
+  });
+});
+
+/**
+ * Make an organization the one new proposals, solutions and profiles belong to
+ * @route POST /api/organizations/:id/switch
+ * @access Private (Members)
+ */
+const switchOrganization = catchAsync(async (req, res, next) => {
+  const organization = await Organization.findOne({ _id: req.params.id, 'members.userId': req.user._id });
+
+  if (!organization) {
+    return next(new AppError('Organization not found', 404));
+  }
+
+  const user = await organizationService.activate(req.user, organization);
+
+  res.status(200).json({
+    success: true,
+    message: `Switched to ${organization.name}`,
+    activeOrganizationId: organization._id,
+    user: user.getProfile()
+  });
+});
+
+/**
+ * Invite someone by email
+ * @route POST /api/organizations/:id/invitations
+ * @access Private (Owners and Admins)
+ */
+const inviteMember = catchAsync(async (req, res, next) => {
+  const organization = await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+  const { email, role = 'member' } = req.body;
+
+  const existingUser = await User.findOne({ email }).select('_id');
+  if (existingUser && organization.getMember(existingUser._id)) {
+    return next(new AppError('This person is already a member', 400));
+  }
+
+  const token = organization.createInvitation(email, role, req.user._id);
+  await organization.save();
+
+  const invitation = organization.invitations[organization.invitations.length - 1];
+  await organizationService.sendInvitation(organization, invitation, token, req.user);
+
+  const { tokenHash, ...result } = invitation.toObject();
+
+  res.status(201).json({
+    success: true,
+    message: `Invitation sent to ${email}`,
+    invitation: result
+  });
+});
+
+/**
+ * Cancel a pending invitation
+ * @route DELETE /api/organizations/:id/invitations/:invitationId
+ * @access Private (Owners and Admins)
+ */
+const revokeInvitation = catchAsync(async (req, res, next) => {
+  const organization = await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+  const invitation = organization.invitations.id(req.params.invitationId);
+
+  if (!invitation) {
+    return next(new AppError('Invitation not found', 404));
+  }
+
+  invitation.deleteOne();
+  await organization.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Invitation cancelled'
+  });
+});
+
+/**
+ * Accept an invitation sent to the current user's email address
+ * @route POST /api/organizations/invitations/accept
+ * @access Private
+ */
+const acceptInvitation = catchAsync(async (req, res, next) => {
+  const tokenHash = Organization.hashInvitationToken(req.body.token);
+  const organization = await Organization.findOne({ 'invitations.tokenHash': tokenHash });
+  const invitation = organization?.invitations.find(item => item.tokenHash === tokenHash);
+
+  if (!invitation || invitation.expiresAt < new Date()) {
+    return next(new AppError('This invitation is invalid or has expired', 400));
+  }
+
+  if (invitation.email !== req.user.email.toLowerCase()) {
+    return next(new AppError(`This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`, 403));
+  }
+
+  const accountType = organizationTypeFor(req.user);
+  if (accountType && accountType !== organization.type) {
+    return next(new AppError(`Only ${organization.type === 'vendor' ? 'vendor' : 'buyer'} accounts can join this organization`, 400));
+  }
+
+  if (!organization.getMember(req.user._id)) {
+    organization.members.push({ userId: req.user._id, role: invitation.role, invitedBy: invitation.invitedBy });
+  }
+  invitation.deleteOne();
+  await organization.save();
+
+  // First organization: start working in it right away
+  if (!(await organizationService.getActiveOrganization(req.user))) {
+    await organizationService.activate(req.user, organization);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `You joined ${organization.name}`,
+    organization: toResponse(organization, req.user)
+  });
+});
+
+/**
+ * Change a member's role
+ * Only owners can make or unmake owners, and the last owner cannot step down.
+ * @route PUT /api/organizations/:id/members/:userId
+ * @access Private (Owners and Admins)
+ */
+const updateMemberRole = catchAsync(async (req, res, next) => {
+  const organization = await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+  const member = organization.getMember(req.params.userId);
+  const { role } = req.body;
+
+  if (!member) {
+    return next(new AppError('Member not found', 404));
+  }
+
+  const actingAsOwner = req.user.role === 'superadmin' || organization.hasRole(req.user._id, ['owner']);
+  if ((role === 'owner' || member.role === 'owner') && !actingAsOwner) {
+    return next(new AppError('Only owners can change owner roles', 403));
+  }
+
+  const ownerCount = organization.members.filter(item => item.role === 'owner').length;
+  if (member.role === 'owner' && role !== 'owner' && ownerCount === 1) {
+    return next(new AppError('An organization needs at least one owner. Make someone else an owner first.', 400));
+  }
+
+  member.role = role;
+  await organization.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Member role updated',
+    member
+  });
+});
+
+/**
+ * Remove a member, or leave when removing yourself
+ * @route DELETE /api/organizations/:id/members/:userId
+ * @access Private (Owners and Admins, or the member themselves)
+ */
+const removeMember = catchAsync(async (req, res, next) => {
+  const leaving = req.params.userId === req.user._id.toString();
+  const organization = await loadOrganization(req.user, req.params.id, leaving ? [] : organizationService.managerRoles);
+  const member = organization.getMember(req.params.userId);
+
+  if (!member) {
+    return next(new AppError('Member not found', 404));
+  }
+
+  const actingAsOwner = req.user.role === 'superadmin' || organization.hasRole(req.user._id, ['owner']);
+  if (!leaving && member.role === 'owner' && !actingAsOwner) {
+    return next(new AppError('Only owners can remove an owner', 403));
+  }
+
+  const ownerCount = organization.members.filter(item => item.role === 'owner').length;
+  if (member.role === 'owner' && ownerCount === 1) {
+    return next(new AppError('An organization needs at least one owner. Make someone else an owner first.', 400));
+  }
+
+  organization.members = organization.members.filter(item => item !== member);
+  await organization.save();
+  await organizationService.clearActive([member.userId], organization._id);
+
+  res.status(200).json({
+    success: true,
+    message: leaving ? `You left ${organization.name}` : 'Member removed'
+  });
+});
+
+/**
+ * Get single sign-on settings
+ * @route GET /api/organizations/:id/sso
+ * @access Private (Owners and Admins)
+ */
+const getSsoSettings = catchAsync(async (req, res, next) => {
+  await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+  const organization = await Organization.findById(req.params.id).select('+sso.oidc.clientSecret');
+
+  res.status(200).json({
+    success: true,
+    sso: ssoSettingsResponse(organization)
+  });
+});
+
+/**
+ * Configure single sign-on. Email domains route sign-ins and allow existing accounts to be
+ * linked, so only superadmins can change them.
+ * @route PUT /api/organizations/:id/sso
+ * @access Private (Owners and Admins; domains by Superadmin)
+ */
+const updateSsoSettings = catchAsync(async (req, res, next) => {
+  await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+  const organization = await Organization.findById(req.params.id).select('+sso.oidc.clientSecret');
+  const { protocol, enabled, enforced, defaultRole, domains, oidc = {}, saml = {} } = req.body;
+  const sso = organization.sso;
+
+  if (domains !== undefined) {
+    const requested = [...new Set(domains)];
+    const current = sso.domains || [];
+    const changed = requested.length !== current.length || requested.some(domain => !current.includes(domain));
+
+    if (changed && req.user.role !== 'superadmin') {
+      return next(new AppError('Contact support to change the email domains for single sign-on', 403));
+    }
+
+    const taken = await ssoService.claimedDomains(requested, organization._id);
+    if (taken.length > 0) {
+      return next(new AppError(`Already used by another organization: ${taken.join(', ')}`, 400));
+    }
+    sso.domains = requested;
+  }
+
+  if (protocol === 'oidc') {
+    const issuer = await ssoService.checkDiscovery(oidc.discoveryUrl);
+    if (!issuer) {
+      return next(new AppError('The discovery URL did not return an OpenID Connect configuration', 400));
+    }
+
+    sso.oidc.discoveryUrl = oidc.discoveryUrl;
+    sso.oidc.clientId = oidc.clientId;
+    sso.oidc.scopes = oidc.scopes || 'openid email profile';
+    // Leave the stored secret alone unless a new one is sent; an empty string removes it
+    if (oidc.clientSecret !== undefined) {
+      sso.oidc.clientSecret = oidc.clientSecret ? ssoService.encrypt(oidc.clientSecret) : undefined;
+    }
+  } else if (saml.metadataXml || saml.metadataUrl) {
+    const metadata = saml.metadataXml
+      ? ssoService.parseSamlMetadata(saml.metadataXml)
+      : await ssoService.fetchSamlMetadata(saml.metadataUrl);
+
+    if (!metadata) {
+      return next(new AppError('The SAML metadata needs an IdP sign-on URL and a signing certificate', 400));
+    }
+    sso.saml = { metadataUrl: saml.metadataXml ? undefined : saml.metadataUrl, ...metadata };
+  } else if (!sso.saml?.entryPoint) {
+    return next(new AppError('Provide your identity provider\'s SAML metadata URL or XML', 400));
+  }
+
+  sso.protocol = protocol;
+  if (defaultRole !== undefined) sso.defaultRole = defaultRole;
+  if (enforced !== undefined) sso.enforced = enforced;
+  if (enabled !== undefined) sso.enabled = enabled;
+
+  if (sso.enabled && sso.domains.length === 0) {
+    return next(new AppError('Single sign-on needs at least one email domain. Contact support to add yours.', 400));
+  }
+
+  await organization.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Single sign-on settings saved',
+    sso: ssoSettingsResponse(organization)
+  });
+});
+
+/**
+ * Turn single sign-on off and forget the identity provider (domains are kept)
+ * @route DELETE /api/organizations/:id/sso
+ * @access Private (Owners and Admins)
+ */
+const deleteSsoSettings = catchAsync(async (req, res, next) => {
+  const organization = await loadOrganization(req.user, req.params.id, organizationService.managerRoles);
+
+  organization.sso = { domains: organization.sso?.domains || [] };
+  await organization.save();
+
+  res.status(200).json({
+    success: true,
+    message: 'Single sign-on turned off',
+    sso: ssoSettingsResponse(organization)
+  });
+});
+
+module.exports = {
+  getOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  switchOrganization,
+  inviteMember,
+  revokeInvitation,
+  acceptInvitation,
+  updateMemberRole,
+  removeMember,
+  getSsoSettings,
+  updateSsoSettings,
+  deleteSsoSettings
+};
@@ -0,0 +1,258 @@
+/**
+ * Proposal Chat Controller
+ * Handles the message thread between a proposal owner and a responding vendor
+ */
+
+const Proposal = require('../models/Proposal');
+const ProposalMessage = require('../models/ProposalMessage');
+const Attachment = require('../models/Attachment');
+const realtimeService = require('../services/realtimeService');
+const organizationService = require('../services/organizationService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+/**
+ * Load a proposal response and verify the user may take part in its thread.
+ * Only the proposal owner (or its organization), the responding vendor and superadmins have access.
+ * @param {Object} user - Authenticated user
+ * @param {string} proposalId - Proposal ID
+ * @param {string} responseId - Response ID
+ * @returns {Promise<Object>} { proposal, response }
+ */
+const loadChatThread = async (user, proposalId, responseId) => {
+  const proposal = await Proposal.findById(proposalId);
+
+  if (!proposal) {
+    throw new AppError('Proposal not found', 404);
+  }
+
+  const response = proposal.responses.id(responseId);
+  if (!response) {
+    throw new AppError('Response not found', 404);
+  }
+
+  const isVendor = response.vendorId.toString() === user._id.toString();
+
+  if (user.role !== 'superadmin' && !isVendor && !(await organizationService.canManage(user, proposal, 'createdBy'))) {
+    throw new AppError('Not authorized to access this conversation', 403);
+  }
+
+  return { proposal, response };
+};
+
+/**
+ * Get the user IDs taking part in a response thread
+ * @param {Object} proposal - Proposal document
+ * @param {Object} response - Response subdocument
+ * @returns {Promise<Array<string>>} Proposal owner, its organization's members and the responding vendor IDs
+ */
+const getThreadParticipants = async (proposal, response) => {
+  const organizationMembers = proposal.organizationId
+    ? await organizationService.memberUserIds(proposal.organizationId)
+    : [];
+
+  return [...new Set([
+    proposal.createdBy.toString(),
+    ...organizationMembers,
+    response.vendorId.toString()
+  ])];
+};
+
+/**
+ * Get messages for a proposal response thread
+ * @route GET /api/proposals/:proposalId/responses/:responseId/messages
+ * @access Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+const getChatMessages = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId } = req.params;
+  const { before, after, limit = 50 } = req.query;
+
+  await loadChatThread(req.user, proposalId, responseId);
+
+  const messages = await ProposalMessage.findThread(proposalId, responseId, {
+    before,
+    after,
+    limit: Math.min(parseInt(limit) || 50, 100)
+  });
+
+  res.status(200).json({
+    success: true,
+    count: messages.length,
+    messages: messages.map(message => message.getPublicProfile())
+  });
+});
+
+/**
+ * Send a message to a proposal response thread
+ * @route POST /api/proposals/:proposalId/responses/:responseId/messages
+ * @access Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+const sendChatMessage = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId } = req.params;
+  const user = req.user;
+  const text = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  const attachments = Array.isArray(req.body.attachments) ? req.body.attachments : [];
+
+  if (!text && attachments.length === 0) {
+    return next(new AppError('Message text or an attachment is required', 400));
+  }
+
+  const { proposal, response } = await loadChatThread(user, proposalId, responseId);
+
+  // Only files uploaded by the sender to this proposal (or http links) are kept
+  const resolvedAttachments = await Attachment.resolveForProposal(proposalId, user._id, attachments);
+  if (!text && resolvedAttachments.length === 0) {
+    return next(new AppError('Message text or an attachment is required', 400));
+  }
+
+  const message = await ProposalMessage.create({
+    proposalId,
+    responseId,
+    senderId: user._id,
+    senderName: `${user.firstName} ${user.lastName}`,
+    senderRole: user.role,
+    message: text,
+    attachments: resolvedAttachments
+  });
+
+  // Push to everyone in the thread (the sender may have it open in other tabs)
+  const participants = await getThreadParticipants(proposal, response);
+  const chatMessage = message.getPublicProfile();
+
+  realtimeService.sendToUsers(participants, 'chat:message', {
+    proposalId,
+    responseId,
+    message: chatMessage
+  });
+  realtimeService.sendToUsers(
+    participants.filter(id => id !== user._id.toString()),
+    'notification',
+    {
+      type: 'chat:message',
+      proposalId,
+      responseId,
+      proposalTitle: proposal.title,
+      senderName: chatMessage.senderName,
+      preview: chatMessage.message,
+      createdAt: chatMessage.createdAt
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: 'Message sent successfully',
+    chatMessage
+  });
+});
+
+/**
+ * Broadcast a typing indicator to the other party of a thread
+ * @route POST /api/proposals/:proposalId/responses/:responseId/messages/typing
+ * @access Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+const sendTypingIndicator = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId } = req.params;
+  const user = req.user;
+
+  const { proposal, response } = await loadChatThread(user, proposalId, responseId);
+
+  realtimeService.sendToUsers(
+    (await getThreadParticipants(proposal, response)).filter(id => id !== user._id.toString()),
+    'chat:typing',
+    {
+      proposalId,
+      responseId,
+      userId: user._id,
+      userName: `${user.firstName} ${user.lastName}`,
+      isTyping: req.body.isTyping !== false
+    }
+  );
+
+  res.status(200).json({
+    success: true
+  });
+});
+
+/**
+ * Mark all messages in a thread as read by the current user
+ * @route POST /api/proposals/:proposalId/responses/:responseId/messages/read
+ * @access Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+const markMessagesRead = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId } = req.params;
+  const user = req.user;
+
+  const { proposal, response } = await loadChatThread(user, proposalId, responseId);
+
+  const readAt = await ProposalMessage.markThreadRead(proposalId, responseId, user._id);
+
+  realtimeService.sendToUsers(await getThreadParticipants(proposal, response), 'chat:read', {
+    proposalId,
+    responseId,
+    userId: user._id,
+    readAt
+  });
+
+  res.status(200).json({
+    success: true,
+    readAt
+  });
+});
+
+/**
+ * Get unread message counts across all threads of the current user
+ * @route GET /api/proposals/messages/unread
+ * @access Private
+ */
+const getUnreadMessages = catchAsync(async (req, res, next) => {
+  const userId = req.user._id;
+  const organizationIds = (await organizationService.memberOrganizationIds(userId)).map(id => id.toString());
+
+  const proposals = await Proposal.find({
+    $or: [
+      { createdBy: userId },
+      { organizationId: { $in: organizationIds } },
+      { 'responses.vendorId': userId }
+    ]
+  }).select('title createdBy organizationId responses._id responses.vendorId responses.vendorName');
+
+  // Owners (and their organization) see every response thread, vendors only their own
+  const threads = [];
+  const titles = {};
+  proposals.forEach(proposal => {
+    const isOwner = proposal.createdBy.toString() === userId.toString() ||
+      (proposal.organizationId && organizationIds.includes(proposal.organizationId.toString()));
+    titles[proposal._id.toString()] = proposal.title;
+
+    proposal.responses.forEach(response => {
+      if (isOwner || response.vendorId.toString() === userId.toString()) {
+        threads.push({ proposalId: proposal._id, responseId: response._id });
+      }
+    });
+  });
+
+  const summary = await ProposalMessage.getUnreadSummary(userId, threads);
+  const unread = summary.map(thread => ({
+    proposalId: thread._id.proposalId,
+    responseId: thread._id.responseId,
+    proposalTitle: titles[thread._id.proposalId.toString()],
+    unreadCount: thread.unreadCount,
+    lastMessage: thread.lastMessage,
+    lastSenderName: thread.lastSenderName,
+    lastMessageAt: thread.lastMessageAt
+  }));
+
+  res.status(200).json({
+    success: true,
+    totalUnread: unread.reduce((sum, thread) => sum + thread.unreadCount, 0),
+    threads: unread
+  });
+});
+
+module.exports = {
+  loadChatThread,
+  getChatMessages,
+  sendChatMessage,
+  sendTypingIndicator,
+  markMessagesRead,
+  getUnreadMessages
+};
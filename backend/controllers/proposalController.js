@@ -8,8 +8,124 @@ const User = require('../models/User');
 const Solution = require('../models/Solution');
 const Vendor = require('../models/Vendor');
 const Company = require('../models/Company');
+const Attachment = require('../models/Attachment');
+const realtimeService = require('../services/realtimeService');
+const emailService = require('../services/emailService');
+const reviewVerificationService = require('../services/reviewVerificationService');
+const organizationService = require('../services/organizationService');
 const { AppError, catchAsync } = require('../middleware/errorHandler');
 
+// Fields that only change through lifecycle endpoints
+const PROTECTED_FIELDS = ['responses', 'status', 'statusHistory', 'hire', 'createdBy', 'creatorType', 'organizationId'];
+
+/**
+ * Convert model lifecycle errors into operational API errors
+ * @param {Error} error - Error thrown by a Proposal lifecycle method
+ * @param {Function} next - Express next function
+ */
+const handleLifecycleError = (error, next) => {
+  if (error.name === 'TransitionError') {
+    return next(new AppError(error.message, 400));
+  }
+  if (error.message === 'Response not found') {
+    return next(new AppError(error.message, 404));
+  }
+  throw error;
+};
+
+/**
+ * Load a proposal and verify the user owns it, directly or through its organization
+ * (superadmins always pass)
+ * @param {Object} user - Authenticated user
+ * @param {string} proposalId - Proposal ID
+ * @returns {Promise<Object>} Proposal document
+ */
+const loadOwnedProposal = async (user, proposalId) => {
+  const proposal = await Proposal.findById(proposalId);
+
+  if (!proposal) {
+    throw new AppError('Proposal not found', 404);
+  }
+
+  if (user.role !== 'superadmin' && !(await organizationService.canManage(user, proposal, 'createdBy'))) {
+    throw new AppError('Not authorized to manage this proposal', 403);
+  }
+
+  return proposal;
+};
+
+/**
+ * Email a vendor that their response was accepted
+ * @param {Object} proposal - Proposal document
+ * @param {Object} response - Response subdocument
+ */
+const emailResponseAccepted = async (proposal, response) => {
+  const vendor = await User.findById(response.vendorId).select('email firstName');
+  if (!vendor?.email) return;
+
+  await emailService.queue('responseAccepted', vendor.email, {
+    firstName: vendor.firstName,
+    proposalId: proposal._id,
+    proposalTitle: proposal.title
+  }, { userId: vendor._id });
+};
+
+/**
+ * Email a customer that a vendor responded to their proposal
+ * @param {Object} proposal - Proposal document
+ * @param {Object} responseData - New response data (vendorName, vendorCompany)
+ */
+const emailNewResponse = async (proposal, responseData) => {
+  const customer = await User.findById(proposal.createdBy).select('email firstName');
+  if (!customer?.email) return;
+
+  await emailService.queue('proposalResponse', customer.email, {
+    firstName: customer.firstName,
+    proposalId: proposal._id,
+    proposalTitle: proposal.title,
+    vendorName: responseData.vendorName,
+    vendorCompany: responseData.vendorCompany
+  }, { userId: customer._id });
+};
+
+/**
+ * Let the vendor whose response changed know about it
+ * @param {Object} proposal - Proposal document
+ * @param {Object} response - Response subdocument
+ * @param {string} type - Notification type
+ */
+const notifyResponseVendor = (proposal, response, type) => {
+  realtimeService.sendToUser(response.vendorId.toString(), 'notification', {
+    type,
+    proposalId: proposal._id,
+    responseId: response._id,
+    proposalTitle: proposal.title,
+    status: response.status,
+    proposalStatus: proposal.status,
+    createdAt: new Date()
+  });
+
+  if (type === 'response:accepted') {
+    emailResponseAccepted(proposal, response)
+      .catch(error => console.error('Failed to email vendor about accepted response:', error.message));
+  }
+};
+
+/**
+ * Point uploaded files referenced by a response at that response, so the
+ * responding vendor keeps access to them through attachment access checks
+ * @param {Object} response - Response subdocument
+ */
+const linkAttachmentsToResponse = async (response) => {
+  const ids = (response.attachments || [])
+    .filter(attachment => attachment.attachmentId)
+    .map(attachment => attachment.attachmentId);
+
+  if (ids.length > 0) {
+    await Attachment.updateMany({ _id: { $in: ids } }, { responseId: response._id });
+  }
+};
+
 /**
  * Create a new proposal
  * @route POST /api/proposals
@@ -20,15 +136,25 @@ const createProposal = catchAsync(async (req, res, next) => {
   
   // Determine creator type based on user role
   const creatorType = user.role === 'customer' ? 'customer' : 'vendor';
-  
+
+  // New proposals start either as a draft or published
+  const status = req.body.status || 'draft';
+  if (!['draft', 'active'].includes(status)) {
+    return next(new AppError('New proposals must be created as draft or active', 400));
+  }
+
   const proposalData = {
     ...req.body,
+    status,
+    statusHistory: [{ from: null, to: status, changedBy: user._id }],
+    hire: undefined,
     createdBy: user._id,
     creatorType,
+    organizationId: organizationService.ownerOrganizationId(user),
     contactName: req.body.contactName || `${user.firstName} ${user.lastName}`,
     contactEmail: req.body.contactEmail || user.email,
     contactPhone: req.body.contactPhone || user.phone,
-    publishedAt: req.body.status === 'active' ? new Date() : null
+    publishedAt: status === 'active' ? new Date() : null
   };
 
   const proposal = await Proposal.create(proposalData);
@@ -73,27 +199,30 @@ const getProposals = catchAsync(async (req, res, next) => {
   // Non-admin users see different views
   // Ensure req.user exists (should be set by auth middleware)
   if (req.user && req.user.role !== 'superadmin') {
+    // Own proposals include those of the user's organizations
+    const ownFilter = await organizationService.ownerFilter(req.user, 'createdBy');
+
     if (req.user.role === 'customer') {
       // Customers see their own proposals and all active vendor proposals
       andConditions.push({
         $or: [
-          { createdBy: req.user._id },
-          { creatorType: 'vendor', status: 'active' }
+          ownFilter,
+          { creatorType: 'vendor', status: { $in: Proposal.OPEN_STATUSES } }
         ]
       });
     } else if (req.user.role === 'vendor') {
       // Vendors see customer proposals and their own proposals
       andConditions.push({
         $or: [
-          { creatorType: 'customer', status: 'active' },
-          { createdBy: req.user._id }
+          { creatorType: 'customer', status: { $in: Proposal.OPEN_STATUSES } },
+          ownFilter
         ]
       });
     }
   }
 
-  // Exclude expired proposals unless specifically requested
-  if (status !== 'cancelled' && status !== 'completed') {
+  // Exclude expired proposals unless a closed status is specifically requested
+  if (!['hired', 'fulfilled', 'cancelled'].includes(status)) {
     andConditions.push({
       $or: [
         { expiresAt: { $gt: new Date() } },
@@ -153,16 +282,19 @@ const getProposal = catchAsync(async (req, res, next) => {
 
   // Check access permissions
   if (req.user.role !== 'superadmin') {
-    const isOwner = proposal.createdBy._id.toString() === req.user._id.toString();
+    const isOwner = await organizationService.canManage(req.user, proposal, 'createdBy');
     
     if (req.user.role === 'customer') {
       // Customers can see their own proposals and active vendor proposals
-      if (!isOwner && (proposal.creatorType !== 'vendor' || proposal.status !== 'active')) {
+      if (!isOwner && (proposal.creatorType !== 'vendor' || !Proposal.OPEN_STATUSES.includes(proposal.status))) {
         return next(new AppError('Not authorized to view this proposal', 403));
       }
     } else if (req.user.role === 'vendor') {
-      // Vendors can see customer proposals and their own proposals
-      if (!isOwner && (proposal.creatorType !== 'customer' || proposal.status !== 'active')) {
+      // Vendors can see customer proposals, their own proposals and proposals they responded to
+      const hasResponded = proposal.responses.some(
+        r => r.vendorId && r.vendorId._id.toString() === req.user._id.toString()
+      );
+      if (!isOwner && !hasResponded && (proposal.creatorType !== 'customer' || !Proposal.OPEN_STATUSES.includes(proposal.status))) {
         return next(new AppError('Not authorized to view this proposal', 403));
       }
     }
@@ -188,24 +320,34 @@ const updateProposal = catchAsync(async (req, res, next) => {
     return next(new AppError('Proposal not found', 404));
   }
 
-  // Check authorization
-  if (req.user.role !== 'superadmin' && proposal.createdBy.toString() !== req.user._id.toString()) {
+  // Check authorization (the creator or any member of the owning organization)
+  if (req.user.role !== 'superadmin' && !(await organizationService.canManage(req.user, proposal, 'createdBy'))) {
     return next(new AppError('Not authorized to update this proposal', 403));
   }
 
   // Update fields
   Object.keys(req.body).forEach(key => {
-    if (req.body[key] !== undefined && key !== 'responses') {
+    if (req.body[key] !== undefined && !PROTECTED_FIELDS.includes(key)) {
       proposal[key] = req.body[key];
     }
   });
 
-  // Update publishedAt if status changed to active
-  if (req.body.status === 'active' && proposal.status !== 'active') {
-    proposal.publishedAt = new Date();
-  }
+  // Status changes go through the lifecycle; hiring and shortlisting
+  // happen through the response endpoints
+  const { status } = req.body;
+  if (status && status !== proposal.status) {
+    if (['shortlisting', 'hired', 'fulfilled'].includes(status)) {
+      return next(new AppError(`Use the dedicated endpoint to move a proposal to ${status}`, 400));
+    }
 
-  await proposal.save();
+    try {
+      await proposal.changeStatus(status, { userId: req.user._id });
+    } catch (error) {
+      return handleLifecycleError(error, next);
+    }
+  } else {
+    await proposal.save();
+  }
 
   res.status(200).json({
     success: true,
@@ -228,8 +370,9 @@ const deleteProposal = catchAsync(async (req, res, next) => {
     return next(new AppError('Proposal not found', 404));
   }
 
-  // Check authorization
-  if (req.user.role !== 'superadmin' && proposal.createdBy.toString() !== req.user._id.toString()) {
+  // Check authorization (the creator or an owner or admin of the owning organization)
+  if (req.user.role !== 'superadmin' &&
+      !(await organizationService.canManage(req.user, proposal, 'createdBy', organizationService.managerRoles))) {
     return next(new AppError('Not authorized to delete this proposal', 403));
   }
 
@@ -266,8 +409,8 @@ const addResponse = catchAsync(async (req, res, next) => {
     return next(new AppError('Only customer proposals can receive vendor responses', 400));
   }
 
-  // Check if proposal is active
-  if (proposal.status !== 'active') {
+  // Check if proposal is still open for responses
+  if (!Proposal.OPEN_STATUSES.includes(proposal.status)) {
     return next(new AppError('This proposal is not accepting responses', 400));
   }
 
@@ -307,11 +450,13 @@ const addResponse = catchAsync(async (req, res, next) => {
     proposalText: req.body.proposalText,
     proposedPrice: req.body.proposedPrice,
     proposedTimeline: req.body.proposedTimeline,
-    status: 'pending'
+    caseStudyLink: req.body.caseStudyLink,
+    attachments: await Attachment.resolveForProposal(id, user._id, req.body.attachments)
   };
 
   try {
-    await proposal.addResponse(responseData);
+    const addedResponse = await proposal.addResponse(responseData);
+    await linkAttachmentsToResponse(addedResponse);
 
     // Populate the new response
     await proposal.populate('responses.vendorId', 'firstName lastName email');
@@ -320,6 +465,8 @@ const addResponse = catchAsync(async (req, res, next) => {
     }
 
     const newResponse = proposal.responses[proposal.responses.length - 1];
+    emailNewResponse(proposal, responseData)
+      .catch(error => console.error('Failed to email proposal owner about response:', error.message));
 
     res.status(201).json({
       success: true,
@@ -335,48 +482,290 @@ const addResponse = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Update response status (accept/reject)
+ * Update response status (shortlist/accept/reject)
+ * Accepting a response hires that vendor, pending superadmin verification
  * @route PUT /api/proposals/:proposalId/responses/:responseId
  * @access Private (Proposal Owner or Superadmin)
  */
 const updateResponseStatus = catchAsync(async (req, res, next) => {
   const { proposalId, responseId } = req.params;
-  const { status } = req.body;
+  const { status, note } = req.body;
 
-  if (!['accepted', 'rejected', 'pending'].includes(status)) {
-    return next(new AppError('Invalid status. Must be accepted, rejected, or pending', 400));
+  if (!['shortlisted', 'accepted', 'rejected'].includes(status)) {
+    return next(new AppError('Invalid status. Must be shortlisted, accepted, or rejected', 400));
   }
 
+  const proposal = await loadOwnedProposal(req.user, proposalId);
+
+  try {
+    const response = await proposal.updateResponseStatus(responseId, status, { userId: req.user._id, note });
+    notifyResponseVendor(proposal, response, `response:${status}`);
+  } catch (error) {
+    return handleLifecycleError(error, next);
+  }
+
+  await proposal.populate('responses.vendorId', 'firstName lastName email');
+  await proposal.populate('responses.solutionId', 'title shortDescription');
+
+  res.status(200).json({
+    success: true,
+    message: 'Response status updated successfully',
+    response: proposal.responses.id(responseId),
+    proposalStatus: proposal.status,
+    hire: proposal.hire
+  });
+});
+
+/**
+ * Withdraw a vendor response
+ * @route POST /api/proposals/:proposalId/responses/:responseId/withdraw
+ * @access Private (Response Owner or Superadmin)
+ */
+const withdrawResponse = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId } = req.params;
+  const user = req.user;
+
   const proposal = await Proposal.findById(proposalId);
 
   if (!proposal) {
     return next(new AppError('Proposal not found', 404));
   }
 
-  // Check authorization - only proposal owner can update response status
-  if (req.user.role !== 'superadmin' && proposal.createdBy.toString() !== req.user._id.toString()) {
-    return next(new AppError('Not authorized to update this response', 403));
+  const response = proposal.responses.id(responseId);
+  if (!response) {
+    return next(new AppError('Response not found', 404));
+  }
+
+  // Check authorization - only the vendor who created the response can withdraw it
+  if (user.role !== 'superadmin' && response.vendorId.toString() !== user._id.toString()) {
+    return next(new AppError('Not authorized to withdraw this response', 403));
   }
 
   try {
-    await proposal.updateResponseStatus(responseId, status);
-    
-    await proposal.populate('responses.vendorId', 'firstName lastName email');
-    await proposal.populate('responses.solutionId', 'title shortDescription');
+    await proposal.withdrawResponse(responseId, { userId: user._id, note: req.body.reason });
+  } catch (error) {
+    return handleLifecycleError(error, next);
+  }
 
-    const updatedResponse = proposal.responses.id(responseId);
+  realtimeService.sendToUser(proposal.createdBy.toString(), 'notification', {
+    type: 'response:withdrawn',
+    proposalId: proposal._id,
+    responseId: response._id,
+    proposalTitle: proposal.title,
+    vendorName: response.vendorName,
+    createdAt: new Date()
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Response withdrawn successfully',
+    response: proposal.responses.id(responseId)
+  });
+});
+
+/**
+ * Mark a response as viewed by the proposal owner
+ * @route POST /api/proposals/:proposalId/responses/:responseId/view
+ * @access Private (Proposal Owner)
+ */
+const markResponseViewed = catchAsync(async (req, res, next) => {
+  const { proposalId, responseId } = req.params;
+
+  const proposal = await Proposal.findById(proposalId);
+
+  if (!proposal) {
+    return next(new AppError('Proposal not found', 404));
+  }
+
+  // Superadmin views don't count as the customer having seen the response
+  if (!(await organizationService.canManage(req.user, proposal, 'createdBy'))) {
+    return res.status(200).json({ success: true, viewedAt: null });
+  }
+
+  try {
+    const response = await proposal.markResponseViewed(responseId);
 
     res.status(200).json({
       success: true,
-      message: 'Response status updated successfully',
-      response: updatedResponse
+      viewedAt: response.viewedAt
     });
   } catch (error) {
-    if (error.message === 'Response not found') {
-      return next(new AppError(error.message, 404));
+    return handleLifecycleError(error, next);
+  }
+});
+
+/**
+ * Hire the vendor behind a response
+ * @route POST /api/proposals/:id/hire
+ * @access Private (Proposal Owner or Superadmin)
+ */
+const hireVendor = catchAsync(async (req, res, next) => {
+  const { responseId, note } = req.body;
+
+  if (!responseId) {
+    return next(new AppError('responseId is required', 400));
+  }
+
+  const proposal = await loadOwnedProposal(req.user, req.params.id);
+  const response = proposal.responses.id(responseId);
+
+  if (!response) {
+    return next(new AppError('Response not found', 404));
+  }
+
+  try {
+    // Hiring straight from the response list shortlists the vendor first
+    if (response.status === 'pending') {
+      await proposal.updateResponseStatus(responseId, 'shortlisted', { userId: req.user._id });
     }
-    throw error;
+    await proposal.updateResponseStatus(responseId, 'accepted', { userId: req.user._id, note });
+  } catch (error) {
+    return handleLifecycleError(error, next);
   }
+
+  notifyResponseVendor(proposal, response, 'response:accepted');
+
+  res.status(200).json({
+    success: true,
+    message: 'Vendor hired. The hire is awaiting admin verification.',
+    proposal: proposal.getPublicProfile()
+  });
+});
+
+/**
+ * Verify or reject a pending hire
+ * @route POST /api/proposals/:id/hire/verify
+ * @access Private (Superadmin only)
+ */
+const verifyHire = catchAsync(async (req, res, next) => {
+  const { approved, note } = req.body;
+
+  if (typeof approved !== 'boolean') {
+    return next(new AppError('approved must be true or false', 400));
+  }
+
+  const proposal = await Proposal.findById(req.params.id);
+
+  if (!proposal) {
+    return next(new AppError('Proposal not found', 404));
+  }
+
+  try {
+    await proposal.verifyHire(approved, { userId: req.user._id, note });
+  } catch (error) {
+    return handleLifecycleError(error, next);
+  }
+
+  const response = proposal.responses.id(proposal.hire.responseId);
+  const type = approved ? 'hire:verified' : 'hire:rejected';
+
+  // Only a verified hire counts as a purchase for verified reviews
+  if (response) {
+    await reviewVerificationService.refreshForPurchase(proposal.createdBy, response.solutionId, proposal.organizationId);
+  }
+  realtimeService.sendToUser(proposal.createdBy.toString(), 'notification', {
+    type,
+    proposalId: proposal._id,
+    responseId: proposal.hire.responseId,
+    proposalTitle: proposal.title,
+    createdAt: new Date()
+  });
+  if (response) {
+    notifyResponseVendor(proposal, response, type);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: approved ? 'Hire verified' : 'Hire rejected',
+    proposal: proposal.getPublicProfile()
+  });
+});
+
+/**
+ * Mark a proposal with a verified hire as fulfilled
+ * @route POST /api/proposals/:id/fulfill
+ * @access Private (Proposal Owner or Superadmin)
+ */
+const fulfillProposal = catchAsync(async (req, res, next) => {
+  const proposal = await loadOwnedProposal(req.user, req.params.id);
+
+  try {
+    await proposal.changeStatus('fulfilled', { userId: req.user._id, note: req.body.note });
+  } catch (error) {
+    return handleLifecycleError(error, next);
+  }
+
+  const response = proposal.responses.id(proposal.hire.responseId);
+  if (response) {
+    notifyResponseVendor(proposal, response, 'proposal:fulfilled');
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Proposal marked as fulfilled',
+    proposal: proposal.getPublicProfile()
+  });
+});
+
+/**
+ * Cancel a proposal
+ * @route POST /api/proposals/:id/cancel
+ * @access Private (Proposal Owner or Superadmin)
+ */
+const cancelProposal = catchAsync(async (req, res, next) => {
+  const proposal = await loadOwnedProposal(req.user, req.params.id);
+
+  try {
+    await proposal.changeStatus('cancelled', { userId: req.user._id, note: req.body.note });
+  } catch (error) {
+    return handleLifecycleError(error, next);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Proposal cancelled',
+    proposal: proposal.getPublicProfile()
+  });
+});
+
+/**
+ * Get hires awaiting superadmin verification
+ * @route GET /api/proposals/hires/pending
+ * @access Private (Superadmin only)
+ */
+const getPendingHires = catchAsync(async (req, res, next) => {
+  const proposals = await Proposal.find({
+    status: 'hired',
+    'hire.verificationStatus': 'pending'
+  })
+    .populate('createdBy', 'firstName lastName email')
+    .populate('hire.hiredBy', 'firstName lastName email')
+    .sort({ 'hire.hiredAt': 1 })
+    .select('-__v');
+
+  const hires = proposals.map(proposal => {
+    const response = proposal.responses.id(proposal.hire.responseId);
+    return {
+      proposalId: proposal._id,
+      proposalTitle: proposal.title,
+      customer: proposal.createdBy,
+      hire: proposal.hire,
+      response: response ? {
+        _id: response._id,
+        vendorId: response.vendorId,
+        vendorName: response.vendorName,
+        vendorCompany: response.vendorCompany,
+        proposedPrice: response.proposedPrice,
+        proposedTimeline: response.proposedTimeline
+      } : null
+    };
+  });
+
+  res.status(200).json({
+    success: true,
+    count: hires.length,
+    hires
+  });
 });
 
 /**
@@ -404,9 +793,9 @@ const updateResponse = catchAsync(async (req, res, next) => {
     return next(new AppError('Not authorized to update this response', 403));
   }
 
-  // Only allow updates if response is still pending or viewed (not shortlisted/rejected)
-  if (response.status === 'shortlisted' || response.status === 'rejected') {
-    return next(new AppError('Cannot update a response that has been shortlisted or rejected', 400));
+  // Only pending responses can be edited; once the customer acts on it the response is frozen
+  if (response.status !== 'pending') {
+    return next(new AppError(`Cannot update a response that has been ${response.status}`, 400));
   }
 
   try {
@@ -416,10 +805,30 @@ const updateResponse = catchAsync(async (req, res, next) => {
       proposedPrice: req.body.proposedPrice,
       proposedTimeline: req.body.proposedTimeline,
       caseStudyLink: req.body.caseStudyLink,
-      attachments: req.body.attachments
+      attachments: req.body.attachments !== undefined
+        ? await Attachment.resolveForProposal(
+          proposalId,
+          user.role === 'superadmin' ? null : user._id,
+          req.body.attachments
+        )
+        : undefined
     };
 
-    await proposal.updateResponse(responseId, updateData);
+    const previousVersion = response.version || 1;
+    const updated = await proposal.updateResponse(responseId, updateData, user._id);
+    await linkAttachmentsToResponse(updated);
+
+    if (updated.version !== previousVersion) {
+      realtimeService.sendToUser(proposal.createdBy.toString(), 'notification', {
+        type: 'response:revised',
+        proposalId: proposal._id,
+        responseId: updated._id,
+        proposalTitle: proposal.title,
+        vendorName: updated.vendorName,
+        version: updated.version,
+        createdAt: new Date()
+      });
+    }
     
     await proposal.populate('responses.vendorId', 'firstName lastName email');
     await proposal.populate('responses.solutionId', 'title shortDescription');
@@ -447,5 +856,12 @@ module.exports = {
   deleteProposal,
   addResponse,
   updateResponseStatus,
-  updateResponse
+  updateResponse,
+  withdrawResponse,
+  markResponseViewed,
+  hireVendor,
+  verifyHire,
+  fulfillProposal,
+  cancelProposal,
+  getPendingHires
 };
@@ -6,6 +6,7 @@
 const Query = require('../models/Query');
 const Solution = require('../models/Solution');
 const Company = require('../models/Company');
+const reviewVerificationService = require('../services/reviewVerificationService');
 const { AppError, catchAsync } = require('../middleware/errorHandler');
 
 /**
@@ -443,6 +444,8 @@ const resolveQuery = catchAsync(async (req, res, next) => {
     return next(new AppError('Not authorized to resolve this query', 403));
   }
 
+  const previousSolution = query.resolution?.selectedSolution;
+
   // Update query resolution
   query.status = 'closed';
   query.resolution = {
@@ -454,6 +457,12 @@ const resolveQuery = catchAsync(async (req, res, next) => {
 
   await query.save();
 
+  // Re-check reviews for the chosen solution and any previously chosen one
+  await reviewVerificationService.refreshForPurchase(query.customerId, selectedSolution);
+  if (previousSolution && previousSolution.toString() !== String(selectedSolution)) {
+    await reviewVerificationService.refreshForPurchase(query.customerId, previousSolution);
+  }
+
   res.status(200).json({
     success: true,
     message: 'Query resolved successfully',
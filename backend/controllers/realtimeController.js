@@ -0,0 +1,66 @@
+/**
+ * Realtime Controller
+ * Opens Server-Sent Events streams for authenticated users
+ */
+
+const realtimeService = require('../services/realtimeService');
+
+/**
+ * Issue a single-use ticket for opening an event stream
+ * @route POST /api/realtime/ticket
+ * @access Private
+ */
+const issueStreamTicket = (req, res) => {
+  const { ticket, expiresIn } = realtimeService.issueTicket(req.user._id, req.sessionId);
+
+  res.set('Cache-Control', 'no-store');
+  res.status(200).json({
+    success: true,
+    ticket,
+    expiresIn
+  });
+};
+
+/**
+ * Open an event stream for the authenticated user
+ * @route GET /api/realtime/stream
+ * @access Private
+ */
+const openStream = (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // Tell the browser how long to wait before reconnecting
+  realtimeService.write(res, 'retry: 5000\n\n');
+
+  const removeClient = realtimeService.addClient(req.user._id, res, req.sessionId);
+  realtimeService.sendToUser(req.user._id, 'connected', {
+    userId: req.user._id,
+    timestamp: new Date().toISOString()
+  });
+
+  req.on('close', removeClient);
+};
+
+/**
+ * Get realtime connection statistics
+ * @route GET /api/realtime/stats
+ * @access Private (Superadmin only)
+ */
+const getStats = (req, res) => {
+  res.status(200).json({
+    success: true,
+    stats: realtimeService.getStats()
+  });
+};
+
+module.exports = {
+  issueStreamTicket,
+  openStream,
+  getStats
+};
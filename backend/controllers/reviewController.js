@@ -0,0 +1,387 @@
+/**
+ * Review Controller
+ * Handles solution reviews, helpful votes, reports and superadmin moderation
+ */
+
+const Review = require('../models/Review');
+const Solution = require('../models/Solution');
+const Company = require('../models/Company');
+const reviewVerificationService = require('../services/reviewVerificationService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+// Fields a reviewer may set or edit
+const EDITABLE_FIELDS = ['title', 'content', 'rating', 'isAnonymous', 'implementation'];
+
+// Sort options for public review lists
+const SORT_OPTIONS = {
+  newest: { reviewedAt: -1 },
+  helpful: { 'helpful.count': -1, reviewedAt: -1 },
+  highest: { 'rating.overall': -1, reviewedAt: -1 },
+  lowest: { 'rating.overall': 1, reviewedAt: -1 }
+};
+
+/**
+ * Pick the reviewer-editable fields from a request body
+ * @param {Object} body - Request body
+ */
+const pickEditable = (body) => EDITABLE_FIELDS.reduce((data, field) => (
+  body[field] !== undefined ? { ...data, [field]: body[field] } : data
+), {});
+
+/**
+ * Get approved reviews for a solution with rating statistics
+ * Signed-in users also get their own review, whatever its status.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getSolutionReviews = catchAsync(async (req, res, next) => {
+  const { solutionId } = req.params;
+  const { page = 1, limit = 10, sort = 'newest', verified } = req.query;
+
+  const filter = { solutionId, status: 'approved' };
+  if (verified === 'true') {
+    filter.isVerified = true;
+  }
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [reviews, total, stats, myReview] = await Promise.all([
+    Review.find(filter)
+      .sort(SORT_OPTIONS[sort] || SORT_OPTIONS.newest)
+      .skip(skip)
+      .limit(parseInt(limit))
+      .populate('customerId', 'firstName lastName avatar'),
+    Review.countDocuments(filter),
+    Review.calculateAverageRating(solutionId),
+    req.user ? Review.findOne({ solutionId, customerId: req.user._id }) : null
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: reviews.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    stats,
+    reviews: reviews.map(review => ({
+      ...review.getPublicProfile(),
+      isHelpfulToMe: req.user ? review.helpful.users.some(id => id.toString() === req.user._id.toString()) : false
+    })),
+    myReview: myReview ? { ...myReview.getPublicProfile(), customerName: myReview.customerName } : null
+  });
+});
+
+/**
+ * Create a review for a solution
+ * Reviews start as pending and only count towards ratings once approved.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const createReview = catchAsync(async (req, res, next) => {
+  const { solutionId } = req.body;
+
+  const solution = await Solution.findOne({ _id: solutionId, status: 'approved', isActive: true });
+  if (!solution) {
+    return next(new AppError('Solution not found', 404));
+  }
+
+  if (solution.vendorId && solution.vendorId.toString() === req.user._id.toString()) {
+    return next(new AppError('You cannot review your own solution', 403));
+  }
+
+  const existing = await Review.findOne({ solutionId, customerId: req.user._id });
+  if (existing) {
+    return next(new AppError('You have already reviewed this solution', 409));
+  }
+
+  const company = req.user.companyId ? await Company.findById(req.user.companyId).select('name') : null;
+
+  const review = new Review({
+    ...pickEditable(req.body),
+    solutionId,
+    companyId: solution.companyId,
+    customerId: req.user._id,
+    customerName: `${req.user.firstName} ${req.user.lastName}`,
+    customerCompany: company?.name,
+    status: 'pending'
+  });
+  await reviewVerificationService.applyToReview(review);
+  await review.save();
+
+  res.status(201).json({
+    success: true,
+    message: 'Review submitted and awaiting moderation',
+    review: review.getPublicProfile()
+  });
+});
+
+/**
+ * Update own review
+ * Edited reviews go back to moderation.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const updateReview = catchAsync(async (req, res, next) => {
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.customerId.toString() !== req.user._id.toString()) {
+    return next(new AppError('Not authorized to update this review', 403));
+  }
+
+  const wasApproved = review.status === 'approved';
+
+  Object.assign(review, pickEditable(req.body));
+  review.status = 'pending';
+  review.approvedAt = undefined;
+  review.lastUpdated = new Date();
+  await review.save();
+
+  if (wasApproved) {
+    await Review.refreshRatings(review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Review updated and awaiting moderation',
+    review: review.getPublicProfile()
+  });
+});
+
+/**
+ * Delete a review
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const deleteReview = catchAsync(async (req, res, next) => {
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.customerId.toString() !== req.user._id.toString() && req.user.role !== 'superadmin') {
+    return next(new AppError('Not authorized to delete this review', 403));
+  }
+
+  await review.deleteOne();
+
+  if (review.status === 'approved') {
+    await Review.refreshRatings(review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Review deleted successfully'
+  });
+});
+
+/**
+ * Mark or unmark a review as helpful
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const toggleHelpful = catchAsync(async (req, res, next) => {
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.status !== 'approved') {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.customerId.toString() === req.user._id.toString()) {
+    return next(new AppError('You cannot vote on your own review', 400));
+  }
+
+  const alreadyMarked = review.helpful.users.some(id => id.toString() === req.user._id.toString());
+  if (alreadyMarked) {
+    await review.removeHelpful(req.user._id);
+  } else {
+    await review.markHelpful(req.user._id);
+  }
+
+  res.status(200).json({
+    success: true,
+    helpful: {
+      count: review.helpful.count,
+      isHelpfulToMe: !alreadyMarked
+    }
+  });
+});
+
+/**
+ * Report a review for moderation; it stays published unless enough distinct users report it
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const reportReview = catchAsync(async (req, res, next) => {
+  const { reason } = req.body;
+
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  // Only published reviews can be reported
+  if (review.status !== 'approved' && review.status !== 'flagged') {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (review.isReportedBy(req.user._id)) {
+    return next(new AppError('You have already reported this review', 409));
+  }
+
+  const report = await review.flag(reason, req.user._id);
+  if (!report) {
+    return next(new AppError('You have already reported this review', 409));
+  }
+
+  if (report.hidden) {
+    await Review.refreshRatings(report.review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Review reported. Our team will take a look.'
+  });
+});
+
+/**
+ * Get reviews awaiting moderation (Superadmin only)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getModerationQueue = catchAsync(async (req, res, next) => {
+  const { page = 1, limit = 20, status } = req.query;
+
+  // Published reviews with open reports are queued too, they just stay visible meanwhile
+  const reportedFilter = { status: 'approved', 'reported.open': { $gt: 0 } };
+  let filter;
+  if (!status) {
+    filter = { $or: [{ status: { $in: ['pending', 'flagged'] } }, reportedFilter] };
+  } else if (status === 'flagged') {
+    filter = { $or: [{ status: 'flagged' }, reportedFilter] };
+  } else {
+    filter = { status };
+  }
+  const skip = (parseInt(page) - 1) * parseInt(limit);
+
+  const [reviews, total, counts] = await Promise.all([
+    Review.find(filter)
+      .sort({ 'reported.count': -1, reviewedAt: 1 })
+      .skip(skip)
+      .limit(parseInt(limit))
+      .populate('solutionId', 'title slug')
+      .populate('customerId', 'firstName lastName email')
+      .select('-helpful.users -reported.users -__v'),
+    Review.countDocuments(filter),
+    // Reported but still published reviews count towards "flagged" (the Reported tab)
+    Review.aggregate([{
+      $group: {
+        _id: {
+          $cond: [
+            { $and: [{ $eq: ['$status', 'approved'] }, { $gt: ['$reported.open', 0] }] },
+            'flagged',
+            '$status'
+          ]
+        },
+        count: { $sum: 1 }
+      }
+    }])
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: reviews.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / parseInt(limit)),
+    counts: counts.reduce((result, item) => ({ ...result, [item._id]: item.count }), {}),
+    reviews
+  });
+});
+
+/**
+ * Approve or reject a review (Superadmin only)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const moderateReview = catchAsync(async (req, res, next) => {
+  const { status, note } = req.body;
+
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  const wasApproved = review.status === 'approved';
+
+  review.moderatedBy = req.user._id;
+  review.moderationNote = note;
+  if (status === 'approved') {
+    await review.approve();
+  } else {
+    await review.reject();
+  }
+
+  if (wasApproved !== (status === 'approved')) {
+    await Review.refreshRatings(review);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `Review ${status} successfully`,
+    review
+  });
+});
+
+/**
+ * Override whether a review shows as verified (Superadmin only)
+ * `automatic` drops a previous override and re-runs the purchase check.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const setReviewVerification = catchAsync(async (req, res, next) => {
+  const { status, reason } = req.body;
+
+  const review = await Review.findById(req.params.id);
+  if (!review) {
+    return next(new AppError('Review not found', 404));
+  }
+
+  if (status === 'automatic') {
+    await reviewVerificationService.clearOverride(review);
+  } else {
+    await reviewVerificationService.override(review, status === 'verified', reason, req.user._id);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: review.isVerified ? 'Review marked as verified' : 'Review marked as unverified',
+    isVerified: review.isVerified,
+    verification: review.verification
+  });
+});
+
+module.exports = {
+  getSolutionReviews,
+  createReview,
+  updateReview,
+  deleteReview,
+  toggleHelpful,
+  reportReview,
+  getModerationQueue,
+  moderateReview,
+  setReviewVerification
+};
@@ -7,6 +7,9 @@ const Solution = require('../models/Solution');
 const Company = require('../models/Company');
 const Review = require('../models/Review');
 const Query = require('../models/Query');
+const solutionSearchService = require('../services/solutionSearchService');
+const categoryService = require('../services/categoryService');
+const organizationService = require('../services/organizationService');
 const { AppError, catchAsync } = require('../middleware/errorHandler');
 
 /**
@@ -23,6 +26,7 @@ const getSolutions = catchAsync(async (req, res, next) => {
     industry,
     companyId,
     vendorId,
+    organizationId,
     search,
     sort = 'newest',
     minRating,
@@ -31,13 +35,16 @@ const getSolutions = catchAsync(async (req, res, next) => {
     deploymentType
   } = req.query;
 
-  // Build filter object
-  const filter = { status: 'approved', isActive: true };
+  // Build filter object; categories and industries accept names, slugs or synonyms
+  const filter = {
+    status: 'approved',
+    isActive: true,
+    ...await categoryService.solutionFilter({ category, industry })
+  };
 
-  if (category) filter.category = category;
-  if (industry) filter.industry = industry;
   if (companyId) filter.companyId = companyId;
   if (vendorId) filter.vendorId = vendorId;
+  if (organizationId) filter.organizationId = organizationId;
   if (minRating) filter['rating.average'] = { $gte: parseFloat(minRating) };
   if (pricingModel) filter['pricing.model'] = pricingModel;
   if (deploymentType) filter['deployment.type'] = deploymentType;
@@ -142,10 +149,12 @@ const createSolution = catchAsync(async (req, res, next) => {
     return next(new AppError('Vendor must be associated with a company', 400));
   }
   
-  // Prepare solution data
+  // Prepare solution data with category and industry mapped onto the taxonomy
   const solutionData = {
     ...req.body,
-    vendorId: req.user._id
+    ...await categoryService.normalizeSolutionFields(req.body),
+    vendorId: req.user._id,
+    organizationId: organizationService.ownerOrganizationId(req.user)
   };
 
   // Handle companyId based on user role
@@ -157,6 +166,7 @@ const createSolution = catchAsync(async (req, res, next) => {
   }
 
   const solution = await Solution.create(solutionData);
+  solutionSearchService.invalidate();
 
   // Update company solution count (only if companyId exists)
   if (solutionData.companyId) {
@@ -189,19 +199,22 @@ const updateSolution = catchAsync(async (req, res, next) => {
     return next(new AppError('Solution not found', 404));
   }
 
-  // Check if user can update this solution
-  if (req.user.role !== 'superadmin' && solution.vendorId.toString() !== req.user._id.toString()) {
+  // Check if user can update this solution (the vendor or any member of its organization)
+  if (req.user.role !== 'superadmin' && !(await organizationService.canManage(req.user, solution, 'vendorId'))) {
     return next(new AppError('Not authorized to update this solution', 403));
   }
 
-  // Update solution
-  Object.keys(req.body).forEach(key => {
-    if (req.body[key] !== undefined) {
-      solution[key] = req.body[key];
+  // Update solution with category and industry mapped onto the taxonomy
+  const updates = { ...req.body, ...await categoryService.normalizeSolutionFields(req.body) };
+  delete updates.organizationId;
+  Object.keys(updates).forEach(key => {
+    if (updates[key] !== undefined) {
+      solution[key] = updates[key];
     }
   });
 
   await solution.save();
+  solutionSearchService.invalidate();
 
   // Populate related data
   await solution.populate('companyId', 'name logo industry');
@@ -229,14 +242,16 @@ const deleteSolution = catchAsync(async (req, res, next) => {
     return next(new AppError('Solution not found', 404));
   }
 
-  // Check if user can delete this solution
-  if (req.user.role !== 'superadmin' && solution.vendorId.toString() !== req.user._id.toString()) {
+  // Check if user can delete this solution (the vendor or an owner or admin of its organization)
+  if (req.user.role !== 'superadmin' &&
+      !(await organizationService.canManage(req.user, solution, 'vendorId', organizationService.managerRoles))) {
     return next(new AppError('Not authorized to delete this solution', 403));
   }
 
   // Soft delete - mark as inactive
   solution.isActive = false;
   await solution.save();
+  solutionSearchService.invalidate();
 
   // Update company solution count
   await Company.updateSolutionCount(solution.companyId, -1);
@@ -284,7 +299,7 @@ const getSolutionsByCategory = catchAsync(async (req, res, next) => {
   const { limit = 10 } = req.query;
 
   const solutions = await Solution.find({
-    category,
+    ...await categoryService.solutionFilter({ category }),
     status: 'approved',
     isActive: true
   })
@@ -335,8 +350,7 @@ const searchSolutions = catchAsync(async (req, res, next) => {
   }
 
   // Category and industry filters
-  if (category) searchQuery.category = category;
-  if (industry) searchQuery.industry = industry;
+  Object.assign(searchQuery, await categoryService.solutionFilter({ category, industry }));
 
   // Tag filters
   if (tags) {
@@ -544,11 +558,50 @@ const getSolutionStats = catchAsync(async (req, res, next) => {
       bookmarks: solution.bookmarks,
       inquiries: solution.inquiries,
       rating: ratingStats,
-      recentReviews
+      recentReviews: recentReviews.map(review => review.getPublicProfile())
     }
   });
 });
 
+/**
+ * Compare solutions side by side
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const compareSolutions = catchAsync(async (req, res, next) => {
+  const { ids } = req.query;
+
+  const solutions = await Solution.find({
+    _id: { $in: ids },
+    status: 'approved',
+    isActive: true
+  })
+    .populate('companyId', 'name logo industry website isVerified')
+    .select('-__v');
+
+  if (solutions.length === 0) {
+    return next(new AppError('No solutions found to compare', 404));
+  }
+
+  // Keep the order of the shared URL so columns don't move around
+  const byId = new Map(solutions.map(solution => [solution._id.toString(), solution]));
+  const ordered = ids.map(id => byId.get(id)).filter(Boolean);
+
+  const ratings = await Promise.all(ordered.map(solution => Review.calculateAverageRating(solution._id)));
+
+  res.status(200).json({
+    success: true,
+    count: ordered.length,
+    solutions: ordered.map((solution, index) => ({
+      ...solution.getPublicProfile(),
+      ratingStats: ratings[index]
+    })),
+    // Solutions that were removed or unpublished since the comparison was shared
+    missing: ids.filter(id => !byId.has(id))
+  });
+});
+
 /**
  * Get all draft solutions (Admin only)
  * @param {Object} req - Express request object
@@ -616,6 +669,7 @@ const approveSolution = catchAsync(async (req, res, next) => {
   solution.approvedBy = req.user._id;
 
   await solution.save();
+  solutionSearchService.invalidate();
 
   res.status(200).json({
     success: true,
@@ -677,6 +731,7 @@ module.exports = {
   getRecommendations,
   toggleLike,
   getSolutionStats,
+  compareSolutions,
   getDraftSolutions,
   approveSolution,
   getAdminStats
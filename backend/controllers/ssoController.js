@@ -0,0 +1,162 @@
+/**
+ * SSO Controller
+ * Handles domain discovery and the browser redirects of OIDC and SAML sign-in.
+ * The sign-in endpoints are navigated to by the browser, so failures redirect back to the
+ * login page with an sso_error message instead of answering with JSON.
+ */
+
+const Organization = require('../models/Organization');
+const sessionService = require('../services/sessionService');
+const ssoService = require('../services/ssoService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+/**
+ * Send the browser back to the login page with an error
+ * @param {Object} res - Express response object
+ * @param {string} message - Message shown on the login page
+ */
+const redirectWithError = (res, message) => {
+  res.redirect(`${ssoService.clientUrl}/auth/login?sso_error=${encodeURIComponent(message)}`);
+};
+
+/**
+ * Load an organization with SSO turned on
+ * @param {string} organizationId - Organization ID
+ * @returns {Promise<Object|null>} Organization document (with the OIDC client secret)
+ */
+const loadSsoOrganization = async (organizationId) => {
+  if (!/^[a-f\d]{24}$/i.test(String(organizationId))) return null;
+  const organization = await Organization.findById(organizationId).select('+sso.oidc.clientSecret');
+  return organization?.sso?.enabled ? organization : null;
+};
+
+/**
+ * Provision the user, start a session and hand the browser back to the frontend, which
+ * picks the session up with the refresh cookie
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Object} organization - Organization document
+ * @param {Object|null} result - { profile, redirect } from the identity provider
+ */
+const completeSignIn = async (req, res, organization, result) => {
+  if (!result) {
+    return redirectWithError(res, `Sign-in with ${organization.name} did not complete. Please try again.`);
+  }
+
+  const { user, error } = await ssoService.provision(organization, result.profile);
+  if (error) {
+    return redirectWithError(res, error);
+  }
+
+  const { session, refreshToken } = await sessionService.create(user, req);
+  sessionService.setRefreshCookie(res, refreshToken, session.expiresAt);
+  await user.updateLastLogin();
+
+  res.redirect(`${ssoService.clientUrl}/auth/sso/callback?redirect=${encodeURIComponent(result.redirect)}`);
+};
+
+/**
+ * Find the organization that signs in an email address with SSO
+ * @route GET /api/auth/sso/discover
+ * @access Public
+ */
+const discoverSso = catchAsync(async (req, res, next) => {
+  const organization = await ssoService.findOrganizationForEmail(req.query.email);
+
+  res.status(200).json({
+    success: true,
+    sso: organization
+      ? {
+          organizationId: organization._id,
+          organizationName: organization.name,
+          protocol: organization.sso.protocol,
+          enforced: organization.sso.enforced
+        }
+      : null
+  });
+});
+
+/**
+ * Redirect to the organization's identity provider
+ * @route GET /api/auth/sso/:organizationId/start
+ * @access Public
+ */
+const startSso = catchAsync(async (req, res, next) => {
+  const organization = await loadSsoOrganization(req.params.organizationId);
+  if (!organization) {
+    return redirectWithError(res, 'Single sign-on is not set up for this organization.');
+  }
+
+  try {
+    const { protocol } = organization.sso;
+    const { url, transaction } = protocol === 'saml'
+      ? await ssoService.startSaml(organization, req.query.redirect)
+      : await ssoService.startOidc(organization, req.query.redirect);
+    ssoService.setTransactionCookie(res, transaction, protocol);
+    res.redirect(url);
+  } catch (error) {
+    console.error('Failed to start SSO sign-in:', error.message);
+    redirectWithError(res, `${organization.name}'s identity provider could not be reached. Please try again later.`);
+  }
+});
+
+/**
+ * OIDC redirect URI: exchange the code and sign the user in
+ * @route GET /api/auth/sso/:organizationId/oidc/callback
+ * @access Public
+ */
+const oidcCallback = catchAsync(async (req, res, next) => {
+  const organization = await loadSsoOrganization(req.params.organizationId);
+  const transaction = ssoService.readTransactionCookie(req);
+  ssoService.clearTransactionCookie(res);
+
+  if (!organization || organization.sso.protocol !== 'oidc') {
+    return redirectWithError(res, 'Single sign-on is not set up for this organization.');
+  }
+
+  if (req.query.error) {
+    return redirectWithError(res, req.query.error_description || `Sign-in with ${organization.name} was cancelled.`);
+  }
+
+  await completeSignIn(req, res, organization, await ssoService.finishOidc(organization, req, transaction));
+});
+
+/**
+ * SAML assertion consumer service: validate the response and sign the user in
+ * @route POST /api/auth/sso/:organizationId/saml/acs
+ * @access Public
+ */
+const samlAcs = catchAsync(async (req, res, next) => {
+  const organization = await loadSsoOrganization(req.params.organizationId);
+  const transaction = ssoService.readTransactionCookie(req);
+  ssoService.clearTransactionCookie(res);
+
+  if (!organization || organization.sso.protocol !== 'saml') {
+    return redirectWithError(res, 'Single sign-on is not set up for this organization.');
+  }
+
+  await completeSignIn(req, res, organization, await ssoService.finishSaml(organization, req.body || {}, transaction));
+});
+
+/**
+ * Service provider metadata for configuring the SAML identity provider
+ * @route GET /api/auth/sso/:organizationId/saml/metadata
+ * @access Public
+ */
+const samlMetadata = catchAsync(async (req, res, next) => {
+  const organization = await Organization.findById(req.params.organizationId);
+
+  if (!organization) {
+    return next(new AppError('Organization not found', 404));
+  }
+
+  res.type('application/xml').send(ssoService.samlMetadata(organization));
+});
+
+module.exports = {
+  discoverSso,
+  startSso,
+  oidcCallback,
+  samlAcs,
+  samlMetadata
+};
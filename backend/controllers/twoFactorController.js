@@ -0,0 +1,208 @@
+/**
+ * Two-Factor Controller
+ * Handles TOTP enrolment, step-up checks, recovery codes and turning two-factor off
+ */
+
+const User = require('../models/User');
+const sessionService = require('../services/sessionService');
+const twoFactorService = require('../services/twoFactorService');
+const { AppError, catchAsync } = require('../middleware/errorHandler');
+
+/**
+ * Get the current user's two-factor status
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const getTwoFactorStatus = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id).select('+twoFactor.recoveryCodes');
+
+  res.status(200).json({
+    success: true,
+    twoFactor: {
+      enabled: Boolean(user.twoFactor?.enabled),
+      enabledAt: user.twoFactor?.enabledAt,
+      required: user.role === 'superadmin',
+      recoveryCodesRemaining: user.twoFactor?.enabled ? (user.twoFactor.recoveryCodes || []).length : 0,
+      verifiedAt: req.twoFactorVerifiedAt || null,
+      recentlyVerified: twoFactorService.isRecent(req.twoFactorVerifiedAt)
+    }
+  });
+});
+
+/**
+ * Start enrolment: generate a secret and return its QR code
+ * The secret stays pending until a code from it is confirmed.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const setupTwoFactor = catchAsync(async (req, res, next) => {
+  if (req.user.twoFactor?.enabled) {
+    return next(new AppError('Two-factor authentication is already enabled', 400));
+  }
+
+  const { secret, encryptedSecret, otpauthUrl, qrCode } = await twoFactorService.createEnrolment(req.user);
+
+  await User.updateOne({ _id: req.user._id }, { $set: { 'twoFactor.pendingSecret': encryptedSecret } });
+
+  res.status(200).json({
+    success: true,
+    secret,
+    otpauthUrl,
+    qrCode
+  });
+});
+
+/**
+ * Finish enrolment with a code from the authenticator app and issue recovery codes
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const enableTwoFactor = catchAsync(async (req, res, next) => {
+  const user = await User.findById(req.user._id).select('+twoFactor.pendingSecret');
+
+  if (user.twoFactor?.enabled) {
+    return next(new AppError('Two-factor authentication is already enabled', 400));
+  }
+  if (!user.twoFactor?.pendingSecret) {
+    return next(new AppError('Start two-factor setup first', 400));
+  }
+
+  const step = twoFactorService.matchStep(user.twoFactor.pendingSecret, req.body.code);
+  if (step === null) {
+    return next(new AppError('Invalid authenticator code. Check the time on your device and try again.', 400));
+  }
+
+  const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+
+  await User.updateOne({ _id: user._id }, {
+    $set: {
+      'twoFactor.enabled': true,
+      'twoFactor.enabledAt': new Date(),
+      'twoFactor.secret': user.twoFactor.pendingSecret,
+      'twoFactor.recoveryCodes': hashes,
+      'twoFactor.lastUsedStep': step
+    },
+    $unset: { 'twoFactor.pendingSecret': 1 }
+  });
+
+  // Enrolling proves possession of the device, so this session counts as verified
+  await sessionService.markTwoFactorVerified(req.sessionId);
+
+  res.status(200).json({
+    success: true,
+    message: 'Two-factor authentication enabled',
+    recoveryCodes: codes
+  });
+});
+
+/**
+ * Confirm a code on the current session before using sensitive routes
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const verifyTwoFactor = catchAsync(async (req, res, next) => {
+  const { code, recoveryCode } = req.body;
+
+  if (!req.user.twoFactor?.enabled) {
+    return next(new AppError('Two-factor authentication is not enabled', 400));
+  }
+
+  const result = await twoFactorService.verify(req.user._id, { code, recoveryCode });
+  if (!result) {
+    return next(new AppError(recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authenticator code', 400));
+  }
+
+  const session = await sessionService.markTwoFactorVerified(req.sessionId);
+
+  res.status(200).json({
+    success: true,
+    message: 'Verified',
+    verifiedAt: session.twoFactorVerifiedAt,
+    recoveryCodesRemaining: result.recoveryCodesRemaining
+  });
+});
+
+/**
+ * Replace the recovery codes (the old ones stop working)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const regenerateRecoveryCodes = catchAsync(async (req, res, next) => {
+  const { code, recoveryCode } = req.body;
+
+  if (!req.user.twoFactor?.enabled) {
+    return next(new AppError('Two-factor authentication is not enabled', 400));
+  }
+
+  const result = await twoFactorService.verify(req.user._id, { code, recoveryCode });
+  if (!result) {
+    return next(new AppError(recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authenticator code', 400));
+  }
+
+  const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+  await User.updateOne({ _id: req.user._id }, { $set: { 'twoFactor.recoveryCodes': hashes } });
+
+  res.status(200).json({
+    success: true,
+    message: 'New recovery codes generated',
+    recoveryCodes: codes
+  });
+});
+
+/**
+ * Turn two-factor authentication off (not allowed for superadmins)
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const disableTwoFactor = catchAsync(async (req, res, next) => {
+  const { password, code, recoveryCode } = req.body;
+
+  if (req.user.role === 'superadmin') {
+    return next(new AppError('Two-factor authentication is required for superadmin accounts', 403));
+  }
+  if (!req.user.twoFactor?.enabled) {
+    return next(new AppError('Two-factor authentication is not enabled', 400));
+  }
+
+  const user = await User.findById(req.user._id).select('+password');
+  const isPasswordCorrect = await user.comparePassword(password);
+  if (!isPasswordCorrect) {
+    return next(new AppError('Password is incorrect', 400));
+  }
+
+  const result = await twoFactorService.verify(req.user._id, { code, recoveryCode });
+  if (!result) {
+    return next(new AppError(recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authenticator code', 400));
+  }
+
+  await User.updateOne({ _id: user._id }, {
+    $set: { 'twoFactor.enabled': false },
+    $unset: {
+      'twoFactor.enabledAt': 1,
+      'twoFactor.secret': 1,
+      'twoFactor.pendingSecret': 1,
+      'twoFactor.recoveryCodes': 1,
+      'twoFactor.lastUsedStep': 1
+    }
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Two-factor authentication disabled'
+  });
+});
+
+module.exports = {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  verifyTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+};
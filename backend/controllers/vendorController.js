@@ -1,10 +1,12 @@
 /**
  * Vendor Controller
- * Handles vendor profile operations
+ * Handles vendor profile operations and the public vendor directory
  */
 
 const Vendor = require('../models/Vendor');
 const User = require('../models/User');
+const vendorDirectoryService = require('../services/vendorDirectoryService');
+const organizationService = require('../services/organizationService');
 const { AppError, catchAsync } = require('../middleware/errorHandler');
 
 /**
@@ -97,16 +99,22 @@ const createOrUpdateVendor = catchAsync(async (req, res, next) => {
     }
   });
 
-  // Find existing or create new
-  let vendor = await Vendor.findOne({ userId });
+  // Find existing (the active organization's profile first) or create new
+  let vendor = await organizationService.findProfile(Vendor, req.user);
   
   if (vendor) {
-    // Update existing
+    // Organization profiles are edited by the creator or the organization's owners and admins
+    if (!(await organizationService.canManage(req.user, vendor, 'userId', organizationService.managerRoles))) {
+      return next(new AppError('Only organization owners and admins can edit this profile', 403));
+    }
+
+    // Update existing (the profile stays with the user who created it)
+    delete vendorData.userId;
     Object.assign(vendor, vendorData);
     await vendor.save();
   } else {
     // Create new
-    vendor = await Vendor.create(vendorData);
+    vendor = await Vendor.create({ ...vendorData, organizationId: organizationService.ownerOrganizationId(req.user) });
   }
 
   // Update user profile flags
@@ -127,14 +135,12 @@ const createOrUpdateVendor = catchAsync(async (req, res, next) => {
 });
 
 /**
- * Get vendor profile for current user
+ * Get vendor profile for current user (the active organization's profile if it has one)
  * @route GET /api/vendor
  * @access Private
  */
 const getVendor = catchAsync(async (req, res, next) => {
-  const userId = req.user._id;
-
-  const vendor = await Vendor.findOne({ userId });
+  const vendor = await organizationService.findProfile(Vendor, req.user);
 
   if (!vendor) {
     return res.status(200).json({
@@ -179,8 +185,78 @@ const getVendorByUserId = catchAsync(async (req, res, next) => {
   });
 });
 
+/**
+ * Get the public vendor directory
+ * @route GET /api/vendor/directory
+ * @access Public
+ */
+const getVendorDirectory = catchAsync(async (req, res, next) => {
+  const {
+    page = 1,
+    limit = 12,
+    sort = 'verified',
+    search,
+    companyType,
+    companySize,
+    deployment,
+    compliance,
+    pricingRange,
+    category,
+    verified
+  } = req.query;
+
+  const { vendors, total } = await vendorDirectoryService.search(
+    { search, companyType, companySize, deployment, compliance, pricingRange, category, verified },
+    { page: parseInt(page), limit: parseInt(limit), sort }
+  );
+
+  res.status(200).json({
+    success: true,
+    count: vendors.length,
+    total,
+    currentPage: parseInt(page),
+    totalPages: Math.ceil(total / limit),
+    vendors
+  });
+});
+
+/**
+ * Get the filter options for the vendor directory
+ * @route GET /api/vendor/directory/filters
+ * @access Public
+ */
+const getVendorDirectoryFilters = catchAsync(async (req, res, next) => {
+  const filters = await vendorDirectoryService.getFilterOptions();
+
+  res.status(200).json({
+    success: true,
+    filters
+  });
+});
+
+/**
+ * Get a vendor's public profile with their approved solutions
+ * @route GET /api/vendor/directory/:id
+ * @access Public
+ */
+const getVendorProfile = catchAsync(async (req, res, next) => {
+  const vendor = await vendorDirectoryService.getProfile(req.params.id);
+
+  if (!vendor) {
+    return next(new AppError('Vendor not found', 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    vendor
+  });
+});
+
 module.exports = {
   createOrUpdateVendor,
   getVendor,
-  getVendorByUserId
+  getVendorByUserId,
+  getVendorDirectory,
+  getVendorDirectoryFilters,
+  getVendorProfile
 };
@@ -5,6 +5,28 @@
 
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const sessionService = require('../services/sessionService');
+const twoFactorService = require('../services/twoFactorService');
+const realtimeService = require('../services/realtimeService');
+
+/**
+ * Verify an access token, check its session is still active and load the user
+ * @param {string} token - Raw JWT (without "Bearer " prefix)
+ * @returns {Promise<Object>} { user, session }; user is null if not found
+ * @throws {JsonWebTokenError} If the token is invalid or its session was revoked
+ */
+const getUserFromToken = async (token) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+  // Only session-bound tokens are accepted, so signing out revokes them server-side
+  const session = decoded.sid && await sessionService.findActive(decoded.sid);
+  if (!session || session.userId.toString() !== decoded.userId) {
+    throw new jwt.JsonWebTokenError('Session has been revoked');
+  }
+
+  const user = await User.findById(decoded.userId).select('-password');
+  return { user, session };
+};
 
 /**
  * Verify JWT token and authenticate user
@@ -36,11 +58,8 @@ const authenticate = async (req, res, next) => {
       });
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    
-    // Get user from database (include password for verification if needed)
-    const user = await User.findById(decoded.userId).select('-password');
+    // Verify token and get user from database
+    const { user, session } = await getUserFromToken(token);
     
     if (!user) {
       return res.status(401).json({
@@ -57,8 +76,10 @@ const authenticate = async (req, res, next) => {
       });
     }
 
-    // Add user to request object
+    // Add user and session to request object
     req.user = user;
+    req.sessionId = session._id;
+    req.twoFactorVerifiedAt = session.twoFactorVerifiedAt;
     next();
 
   } catch (error) {
@@ -67,7 +88,7 @@ const authenticate = async (req, res, next) => {
     if (error.name === 'JsonWebTokenError') {
       return res.status(401).json({
         success: false,
-        message: 'Token is not valid.'
+        message: error.message === 'Session has been revoked' ? 'Session has been revoked.' : 'Token is not valid.'
       });
     }
     
@@ -85,6 +106,55 @@ const authenticate = async (req, res, next) => {
   }
 };
 
+/**
+ * Authenticate an event stream with a single-use ticket from POST /api/realtime/ticket
+ * The ticket's session must still be active when the stream opens.
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next function
+ */
+const authenticateStreamTicket = async (req, res, next) => {
+  try {
+    const entry = typeof req.query.ticket === 'string' ? realtimeService.redeemTicket(req.query.ticket) : null;
+
+    if (!entry) {
+      return res.status(401).json({
+        success: false,
+        message: 'Stream ticket is invalid or has expired.'
+      });
+    }
+
+    const session = await sessionService.findActive(entry.sessionId);
+    if (!session || session.userId.toString() !== entry.userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session has been revoked.'
+      });
+    }
+
+    const user = await User.findById(entry.userId).select('-password');
+    if (!user || !user.isActive) {
+      return res.status(401).json({
+        success: false,
+        message: user ? 'Account is deactivated.' : 'Token is not valid. User not found.'
+      });
+    }
+
+    req.user = user;
+    req.sessionId = session._id;
+    req.twoFactorVerifiedAt = session.twoFactorVerifiedAt;
+    next();
+
+  } catch (error) {
+    console.error('Stream authentication error:', error.message);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Server error during authentication.'
+    });
+  }
+};
+
 /**
  * Check if user has required role
  * @param {string|Array} roles - Required role(s)
@@ -112,6 +182,42 @@ const authorize = (...roles) => {
   };
 };
 
+/**
+ * Require two-factor authentication on this session within TWO_FACTOR_RECENT_MINUTES
+ * Use after authenticate on sensitive routes. The `code` in the 403 response tells the
+ * client whether to enrol (TWO_FACTOR_SETUP_REQUIRED) or re-verify (TWO_FACTOR_REQUIRED).
+ * @returns {Function} Middleware function
+ */
+const requireTwoFactor = () => {
+  return (req, res, next) => {
+    // Check if user is authenticated
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Access denied. Please authenticate first.'
+      });
+    }
+
+    if (!req.user.twoFactor?.enabled) {
+      return res.status(403).json({
+        success: false,
+        code: 'TWO_FACTOR_SETUP_REQUIRED',
+        message: 'Set up two-factor authentication to use this feature.'
+      });
+    }
+
+    if (!twoFactorService.isRecent(req.twoFactorVerifiedAt)) {
+      return res.status(403).json({
+        success: false,
+        code: 'TWO_FACTOR_REQUIRED',
+        message: 'Confirm it is you with your authenticator code to continue.'
+      });
+    }
+
+    next();
+  };
+};
+
 /**
  * Check if user can access resource (owner or admin)
  * @param {string} resourceUserIdField - Field name containing user ID in resource
@@ -234,11 +340,12 @@ const optionalAuth = async (req, res, next) => {
       return next();
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    const user = await User.findById(decoded.userId).select('-password');
+    const { user, session } = await getUserFromToken(token);
     
     if (user && user.isActive) {
       req.user = user;
+      req.sessionId = session._id;
+      req.twoFactorVerifiedAt = session.twoFactorVerifiedAt;
     }
 
     next();
@@ -263,7 +370,9 @@ const authRateLimit = (req, res, next) => {
 
 module.exports = {
   authenticate,
+  authenticateStreamTicket,
   authorize,
+  requireTwoFactor,
   authorizeOwnerOrAdmin,
   authorizeCompanyAccess,
   optionalAuth,
@@ -3,6 +3,8 @@
  * Centralized error handling for the application
  */
 
+const { maxFileSizeMB } = require('../config/uploads');
+
 /**
  * Custom error class for application-specific errors
  */
@@ -194,11 +196,13 @@ const handleFileUploadError = (err, req, res, next) => {
     let message = 'File upload error';
     
     if (err.code === 'LIMIT_FILE_SIZE') {
-      message = 'File too large. Maximum size allowed is 5MB.';
+      message = `File too large. Maximum size allowed is ${maxFileSizeMB}MB.`;
     } else if (err.code === 'LIMIT_FILE_COUNT') {
       message = 'Too many files uploaded.';
     } else if (err.code === 'LIMIT_UNEXPECTED_FILE') {
       message = 'Unexpected field name in file upload.';
+    } else if (err.code === 'UNSUPPORTED_FILE_TYPE') {
+      message = err.message;
     }
     
     return res.status(400).json({
@@ -0,0 +1,34 @@
+/**
+ * Upload Middleware
+ * Multer configuration enforcing the size, count and MIME limits from config/uploads
+ */
+
+const multer = require('multer');
+const uploadConfig = require('../config/uploads');
+
+/**
+ * Reject files whose MIME type is not on the allow-list
+ */
+const fileFilter = (req, file, cb) => {
+  if (uploadConfig.allowedMimeTypes.includes(file.mimetype)) {
+    return cb(null, true);
+  }
+
+  const error = new Error(`File type not allowed: ${file.originalname}`);
+  error.code = 'UNSUPPORTED_FILE_TYPE';
+  cb(error);
+};
+
+// Files are buffered in memory and handed to the storage driver by the controller
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: uploadConfig.maxFileSize,
+    files: uploadConfig.maxFiles
+  },
+  fileFilter
+});
+
+module.exports = {
+  uploadFiles: upload.array('files', uploadConfig.maxFiles)
+};
@@ -4,6 +4,7 @@
  */
 
 const { body, param, query, validationResult } = require('express-validator');
+const { TEMPLATE_NAMES } = require('../services/mail/templates');
 
 /**
  * Handle validation errors
@@ -87,6 +88,107 @@ const validateUserLogin = [
   handleValidationErrors
 ];
 
+/**
+ * Forgot password validation
+ */
+const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+    
+  handleValidationErrors
+];
+
+/**
+ * Password reset validation
+ */
+const validatePasswordReset = [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid or expired reset link'),
+    
+  body('newPassword')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Email verification validation
+ */
+const validateEmailVerification = [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid or expired verification link'),
+    
+  handleValidationErrors
+];
+
+// A TOTP code or a recovery code, shared by the two-factor validators
+const twoFactorCodeRules = [
+  // Required unless a recovery code is given
+  body('code')
+    .if(body('recoveryCode').isEmpty())
+    .matches(/^\d{6}$/)
+    .withMessage('Enter the 6-digit code from your authenticator app'),
+
+  body('recoveryCode')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ min: 10, max: 20 })
+    .withMessage('Invalid recovery code')
+];
+
+/**
+ * Two-factor enrolment validation
+ */
+const validateTwoFactorEnable = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Enter the 6-digit code from your authenticator app'),
+
+  handleValidationErrors
+];
+
+/**
+ * Two-factor code validation (step-up checks, new recovery codes)
+ */
+const validateTwoFactorCode = [
+  ...twoFactorCodeRules,
+  handleValidationErrors
+];
+
+/**
+ * Two-factor login step validation
+ */
+const validateTwoFactorLogin = [
+  body('challengeToken')
+    .isJWT()
+    .withMessage('Your sign-in has expired. Please sign in again.'),
+
+  ...twoFactorCodeRules,
+  handleValidationErrors
+];
+
+/**
+ * Two-factor disable validation
+ */
+const validateTwoFactorDisable = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+
+  ...twoFactorCodeRules,
+  handleValidationErrors
+];
+
 /**
  * Company creation validation
  */
@@ -234,6 +336,33 @@ const validateQueryCreation = [
   handleValidationErrors
 ];
 
+/**
+ * Proposal response validation (create and update)
+ * Attachments reference uploaded files by attachmentId; entries without one must be http(s) links.
+ */
+const validateProposalResponse = [
+  body('attachments')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Attachments must be a list of at most 20 entries'),
+
+  body('attachments.*')
+    .isObject()
+    .withMessage('Each attachment must be an object'),
+
+  body('attachments.*.attachmentId')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Invalid attachment ID'),
+
+  body('attachments.*.url')
+    .if((url, { req, pathValues }) => !req.body.attachments[pathValues[0]]?.attachmentId)
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .withMessage('Attachment links must be valid http(s) URLs'),
+
+  handleValidationErrors
+];
+
 /**
  * Blog creation validation
  */
@@ -272,6 +401,72 @@ const validateBlogCreation = [
     .isArray()
     .withMessage('Tags must be an array'),
     
+  body('featuredImage.url')
+    .optional({ checkFalsy: true })
+    .isURL()
+    .withMessage('Featured image must be a valid URL'),
+    
+  body('relatedSolutions')
+    .optional()
+    .isArray({ max: 6 })
+    .withMessage('At most 6 related solutions can be linked'),
+    
+  body('relatedSolutions.*')
+    .isMongoId()
+    .withMessage('Invalid related solution ID'),
+    
+  body('isFeatured')
+    .optional()
+    .isBoolean()
+    .withMessage('isFeatured must be true or false'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Blog update validation (all fields optional)
+ */
+const validateBlogUpdate = [
+  body(['title', 'excerpt', 'content', 'category', 'industry'])
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Title, excerpt, content, category and industry cannot be empty'),
+    
+  body('title')
+    .optional()
+    .isLength({ max: 200 })
+    .withMessage('Title cannot exceed 200 characters'),
+    
+  body('excerpt')
+    .optional()
+    .isLength({ max: 300 })
+    .withMessage('Excerpt cannot exceed 300 characters'),
+    
+  body('tags')
+    .optional()
+    .isArray()
+    .withMessage('Tags must be an array'),
+    
+  body('featuredImage.url')
+    .optional({ checkFalsy: true })
+    .isURL()
+    .withMessage('Featured image must be a valid URL'),
+    
+  body('relatedSolutions')
+    .optional()
+    .isArray({ max: 6 })
+    .withMessage('At most 6 related solutions can be linked'),
+    
+  body('relatedSolutions.*')
+    .isMongoId()
+    .withMessage('Invalid related solution ID'),
+    
+  body('isFeatured')
+    .optional()
+    .isBoolean()
+    .withMessage('isFeatured must be true or false'),
+    
   handleValidationErrors
 ];
 
@@ -279,6 +474,10 @@ const validateBlogCreation = [
  * Review creation validation
  */
 const validateReviewCreation = [
+  body('solutionId')
+    .isMongoId()
+    .withMessage('Valid solution ID is required'),
+    
   body('title')
     .trim()
     .notEmpty()
@@ -323,91 +522,784 @@ const validateReviewCreation = [
     .notEmpty()
     .withMessage('Implementation duration is required'),
     
+  body(['implementation.challenges', 'implementation.benefits'])
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Challenges and benefits must be lists of at most 10 items'),
+    
   handleValidationErrors
 ];
 
 /**
- * MongoDB ObjectId validation
+ * Review update validation (all fields optional)
  */
-const validateObjectId = (paramName) => [
-  param(paramName)
-    .isMongoId()
-    .withMessage(`Invalid ${paramName} format`),
+const validateReviewUpdate = [
+  body('title')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Review title cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Title cannot exceed 100 characters'),
+    
+  body('content')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Review content cannot be empty')
+    .isLength({ max: 1000 })
+    .withMessage('Review cannot exceed 1000 characters'),
+    
+  body('rating.overall')
+    .if(body('rating').exists())
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Overall rating must be between 1 and 5'),
+    
+  body(['rating.features', 'rating.easeOfUse', 'rating.valueForMoney', 'rating.customerSupport'])
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Ratings must be between 1 and 5'),
+    
+  body(['implementation.challenges', 'implementation.benefits'])
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Challenges and benefits must be lists of at most 10 items'),
     
   handleValidationErrors
 ];
 
 /**
- * Pagination validation
+ * Review report validation
  */
-const validatePagination = [
-  query('page')
-    .optional()
-    .isInt({ min: 1 })
-    .withMessage('Page must be a positive integer'),
+const validateReviewReport = [
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required')
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
     
-  query('limit')
-    .optional()
-    .isInt({ min: 1, max: 100 })
-    .withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors
+];
+
+/**
+ * Review moderation validation
+ */
+const validateReviewModeration = [
+  body('status')
+    .isIn(['approved', 'rejected'])
+    .withMessage('Status must be approved or rejected'),
     
-  query('sort')
+  body('note')
     .optional()
-    .isIn(['newest', 'oldest', 'rating', 'views', 'title'])
-    .withMessage('Invalid sort option'),
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters'),
     
   handleValidationErrors
 ];
 
 /**
- * Admin drafts validation
+ * Review verification override validation rules
  */
-const validateAdminDrafts = [
-  query('page')
+const validateReviewVerification = [
+  body('status')
+    .isIn(['verified', 'unverified', 'automatic'])
+    .withMessage('Status must be verified, unverified or automatic'),
+    
+  body('reason')
+    .if(body('status').not().equals('automatic'))
+    .trim()
+    .isLength({ min: 5, max: 500 })
+    .withMessage('A reason between 5 and 500 characters is required'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Scheduling validation rules (blog posts and newsletters)
+ */
+const validateSchedule = [
+  body('scheduledAt')
+    .isISO8601()
+    .withMessage('scheduledAt must be a valid date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('scheduledAt must be in the future'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Newsletter audience rules, shared by create, update and audience preview
+ * @param {boolean} optional - Whether the audience may be omitted
+ */
+const newsletterAudienceRules = (optional) => [
+  body('distribution.targetAudience')
+    .if((value) => !optional || value !== undefined)
+    .isIn(['all', 'customers', 'vendors', 'specific-industry', 'custom'])
+    .withMessage('Invalid target audience'),
+    
+  body('distribution.industryFilter')
+    .if(body('distribution.targetAudience').equals('specific-industry'))
+    .isArray({ min: 1 })
+    .withMessage('Choose at least one industry'),
+    
+  body(['distribution.industryFilter', 'distribution.roleFilter', 'distribution.customFilters.interests'])
     .optional()
-    .isInt({ min: 1 })
-    .withMessage('Page must be a positive integer'),
+    .isArray()
+    .withMessage('Audience filters must be arrays'),
     
-  query('limit')
+  body('distribution.roleFilter.*')
+    .isIn(['customer', 'vendor', 'editor', 'superadmin'])
+    .withMessage('Invalid role in audience filter')
+];
+
+/**
+ * Newsletter content rules
+ * @param {boolean} optional - Whether required fields may be omitted (updates)
+ */
+const newsletterContentRules = (optional) => [
+  body(['title', 'description', 'content', 'category', 'industry'])
+    .if((value) => !optional || value !== undefined)
+    .trim()
+    .notEmpty()
+    .withMessage('Title, description, content, category and industry are required'),
+    
+  body('title')
     .optional()
-    .isInt({ min: 1, max: 100 })
-    .withMessage('Limit must be between 1 and 100'),
+    .isLength({ max: 200 })
+    .withMessage('Title cannot exceed 200 characters'),
     
-  query('status')
+  body('description')
     .optional()
-    .isIn(['draft', 'pending', 'approved', 'rejected'])
-    .withMessage('Status must be one of: draft, pending, approved, rejected'),
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
     
-  query('search')
+  body(['featuredSolutions', 'featuredBlogs'])
     .optional()
-    .isString()
-    .withMessage('Search must be a string'),
+    .isArray({ max: 6 })
+    .withMessage('At most 6 solutions and 6 blog posts can be featured'),
+    
+  body(['featuredSolutions.*', 'featuredBlogs.*'])
+    .isMongoId()
+    .withMessage('Invalid featured content ID'),
+    
+  body('template.headerImage')
+    .optional({ checkFalsy: true })
+    .isURL()
+    .withMessage('Header image must be a valid URL'),
     
+  // The audience defaults to everyone
+  ...newsletterAudienceRules(true)
+];
+
+/**
+ * Newsletter creation validation
+ */
+const validateNewsletterCreation = [
+  ...newsletterContentRules(false),
   handleValidationErrors
 ];
 
 /**
- * Search validation
+ * Newsletter update validation (all fields optional)
  */
-const validateSearch = [
-  query('q')
+const validateNewsletterUpdate = [
+  ...newsletterContentRules(true),
+  handleValidationErrors
+];
+
+/**
+ * Newsletter audience preview validation
+ */
+const validateNewsletterAudience = [
+  ...newsletterAudienceRules(false),
+  handleValidationErrors
+];
+
+/**
+ * Category/industry taxonomy rules
+ * @param {boolean} optional - Whether required fields may be omitted (updates)
+ */
+const categoryRules = (optional) => [
+  body('name')
+    .if((value) => !optional || value !== undefined)
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+    
+  body('type')
+    .if((value) => !optional || value !== undefined)
+    .isIn(['category', 'industry'])
+    .withMessage('Type must be category or industry'),
+    
+  body('parentId')
+    .optional({ nullable: true })
+    .isMongoId()
+    .withMessage('Invalid parent ID'),
+    
+  body('description')
     .optional()
     .trim()
-    .isLength({ min: 2 })
-    .withMessage('Search query must be at least 2 characters'),
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
     
-  query('category')
+  body('icon')
     .optional()
     .trim()
-    .notEmpty()
-    .withMessage('Category cannot be empty'),
+    .isLength({ max: 16 })
+    .withMessage('Icon cannot exceed 16 characters'),
     
-  query('industry')
+  body('synonyms')
     .optional()
+    .isArray({ max: 50 })
+    .withMessage('Synonyms must be an array of at most 50 entries'),
+    
+  body('synonyms.*')
     .trim()
-    .notEmpty()
-    .withMessage('Industry cannot be empty'),
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Each synonym must be between 1 and 100 characters'),
+    
+  body('order')
+    .optional()
+    .isInt()
+    .withMessage('Order must be an integer'),
     
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be true or false')
+];
+
+/**
+ * Category creation validation
+ */
+const validateCategoryCreation = [
+  ...categoryRules(false),
+  handleValidationErrors
+];
+
+/**
+ * Category update validation (all fields optional)
+ */
+const validateCategoryUpdate = [
+  ...categoryRules(true),
+  handleValidationErrors
+];
+
+/**
+ * Category merge validation
+ */
+const validateCategoryMerge = [
+  body('targetId')
+    .isMongoId()
+    .withMessage('Choose a valid entry to merge into'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Solution contact request (inquiry) validation
+ */
+const validateInquiryCreation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+    
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+    
+  body('company')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Company cannot exceed 200 characters'),
+    
+  body('message')
+    .trim()
+    .notEmpty()
+    .withMessage('Message is required')
+    .isLength({ max: 2000 })
+    .withMessage('Message cannot exceed 2000 characters'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Vendor inquiry inbox filter validation
+ */
+const validateInquiryList = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  query('status')
+    .optional()
+    .isIn(['new', 'contacted', 'qualified', 'won', 'lost'])
+    .withMessage('Invalid inquiry status'),
+    
+  query('solutionId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid solution ID'),
+    
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search cannot exceed 100 characters'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Inquiry status change validation
+ */
+const validateInquiryStatus = [
+  body('status')
+    .isIn(['new', 'contacted', 'qualified', 'won', 'lost'])
+    .withMessage('Status must be new, contacted, qualified, won or lost'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Inquiry note validation
+ */
+const validateInquiryNote = [
+  body('content')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Note must be between 1 and 2000 characters'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Inquiry reply validation
+ */
+const validateInquiryReply = [
+  body('message')
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Reply must be between 1 and 5000 characters'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Mail outbox list validation
+ */
+const validateOutboxList = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  query('status')
+    .optional()
+    .isIn(['queued', 'sending', 'sent', 'failed'])
+    .withMessage('Invalid outbox status'),
+    
+  query('template')
+    .optional()
+    .isIn(TEMPLATE_NAMES)
+    .withMessage('Unknown mail template'),
+    
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search cannot exceed 100 characters'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Test email validation
+ */
+const validateTestEmail = [
+  body('template')
+    .isIn(TEMPLATE_NAMES)
+    .withMessage('Unknown mail template'),
+    
+  body('to')
+    .optional()
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+    
+  handleValidationErrors
+];
+
+/**
+ * Organization creation validation
+ */
+const validateOrganizationCreation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Organization name must be between 2 and 100 characters'),
+
+  body('type')
+    .optional()
+    .isIn(['vendor', 'buyer'])
+    .withMessage('Type must be vendor or buyer'),
+
+  handleValidationErrors
+];
+
+/**
+ * Organization update validation
+ */
+const validateOrganizationUpdate = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Organization name must be between 2 and 100 characters'),
+
+  handleValidationErrors
+];
+
+/**
+ * Organization invitation validation
+ */
+const validateOrganizationInvitation = [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('role')
+    .optional()
+    .isIn(['admin', 'member'])
+    .withMessage('Role must be admin or member'),
+
+  handleValidationErrors
+];
+
+/**
+ * Organization invitation acceptance validation
+ */
+const validateInvitationAcceptance = [
+  body('token')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Invalid invitation token'),
+
+  handleValidationErrors
+];
+
+/**
+ * Organization member role validation
+ */
+const validateMemberRole = [
+  body('role')
+    .isIn(['owner', 'admin', 'member'])
+    .withMessage('Role must be owner, admin or member'),
+
+  handleValidationErrors
+];
+
+/**
+ * Single sign-on discovery validation
+ */
+const validateSsoDiscovery = [
+  query('email')
+    .isEmail()
+    .withMessage('Please provide a valid email'),
+
+  handleValidationErrors
+];
+
+/**
+ * Organization single sign-on settings validation
+ */
+const validateSsoSettings = [
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be true or false'),
+
+  body('protocol')
+    .isIn(['oidc', 'saml'])
+    .withMessage('Protocol must be oidc or saml'),
+
+  body('defaultRole')
+    .optional()
+    .isIn(['admin', 'member'])
+    .withMessage('Default role must be admin or member'),
+
+  body('enforced')
+    .optional()
+    .isBoolean()
+    .withMessage('Enforced must be true or false'),
+
+  body('domains')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Domains must be a list of up to 20 domains'),
+
+  body('domains.*')
+    .trim()
+    .toLowerCase()
+    .isFQDN()
+    .withMessage('Each domain must be a valid domain name'),
+
+  body('oidc.discoveryUrl')
+    .if(body('protocol').equals('oidc'))
+    .isURL({ require_tld: false, require_protocol: true })
+    .withMessage('Discovery URL must be a valid URL'),
+
+  body('oidc.clientId')
+    .if(body('protocol').equals('oidc'))
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Client ID is required'),
+
+  body('oidc.clientSecret')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Client secret cannot exceed 1000 characters'),
+
+  body('oidc.scopes')
+    .optional()
+    .trim()
+    .matches(/^[\w:./-]+( [\w:./-]+)*$/)
+    .withMessage('Scopes must be separated by spaces'),
+
+  body('saml.metadataUrl')
+    .optional({ checkFalsy: true })
+    .isURL({ require_tld: false, require_protocol: true })
+    .withMessage('Metadata URL must be a valid URL'),
+
+  body('saml.metadataXml')
+    .optional()
+    .isString()
+    .isLength({ max: 200000 })
+    .withMessage('Metadata XML is too large'),
+
+  handleValidationErrors
+];
+
+/**
+ * MongoDB ObjectId validation
+ */
+const validateObjectId = (paramName) => [
+  param(paramName)
+    .isMongoId()
+    .withMessage(`Invalid ${paramName} format`),
+    
+  handleValidationErrors
+];
+
+/**
+ * Pagination validation
+ */
+const validatePagination = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  query('sort')
+    .optional()
+    .isIn(['newest', 'oldest', 'rating', 'views', 'title'])
+    .withMessage('Invalid sort option'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Admin drafts validation
+ */
+const validateAdminDrafts = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  query('status')
+    .optional()
+    .isIn(['draft', 'pending', 'approved', 'rejected'])
+    .withMessage('Status must be one of: draft, pending, approved, rejected'),
+    
+  query('search')
+    .optional()
+    .isString()
+    .withMessage('Search must be a string'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Vendor directory validation
+ */
+const validateVendorDirectory = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+
+  query('sort')
+    .optional()
+    .isIn(['verified', 'newest', 'name', 'rating', 'solutions'])
+    .withMessage('Sort must be one of: verified, newest, name, rating, solutions'),
+
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Search must be at most 100 characters'),
+
+  query('verified')
+    .optional()
+    .isBoolean()
+    .withMessage('Verified must be true or false'),
+
+  handleValidationErrors
+];
+
+/**
+ * Search validation
+ */
+const validateSearch = [
+  query('q')
+    .optional()
+    .trim()
+    .isLength({ min: 2 })
+    .withMessage('Search query must be at least 2 characters'),
+    
+  query('category')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Category cannot be empty'),
+    
+  query('industry')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Industry cannot be empty'),
+    
+  handleValidationErrors
+];
+
+/**
+ * Bookmark list rules
+ * @param {boolean} optional - Whether the name may be omitted (updates)
+ */
+const bookmarkListRules = (optional) => [
+  body('name')
+    .if((value) => !optional || value !== undefined)
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('List name must be between 1 and 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+
+  body('shared')
+    .optional()
+    .isBoolean()
+    .withMessage('Shared must be true or false')
+];
+
+/**
+ * Bookmark list creation validation
+ */
+const validateBookmarkListCreation = [
+  ...bookmarkListRules(false),
+  handleValidationErrors
+];
+
+/**
+ * Bookmark list update validation (all fields optional)
+ */
+const validateBookmarkListUpdate = [
+  ...bookmarkListRules(true),
+  handleValidationErrors
+];
+
+/**
+ * Bookmark list item validation
+ */
+const validateBookmarkItem = [
+  body('solutionId')
+    .isMongoId()
+    .withMessage('Invalid solution ID format'),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Note cannot exceed 1000 characters'),
+
+  handleValidationErrors
+];
+
+/**
+ * Bookmark note validation
+ */
+const validateBookmarkNote = [
+  body('note')
+    .isString()
+    .withMessage('Note is required')
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Note cannot exceed 1000 characters'),
+
+  handleValidationErrors
+];
+
+/**
+ * Solution comparison validation
+ */
+const validateSolutionComparison = [
+  query('ids')
+    .isString()
+    .withMessage('Solution IDs are required')
+    .bail()
+    .customSanitizer(value => [...new Set(String(value || '').split(',').map(id => id.trim()).filter(Boolean))])
+    .custom(ids => ids.length >= 2 && ids.length <= 4)
+    .withMessage('Compare between 2 and 4 solutions')
+    .bail()
+    .custom(ids => ids.every(id => /^[a-f\d]{24}$/i.test(id)))
+    .withMessage('Invalid solution ID format'),
+
   handleValidationErrors
 ];
 
@@ -415,13 +1307,53 @@ module.exports = {
   handleValidationErrors,
   validateUserRegistration,
   validateUserLogin,
+  validateForgotPassword,
+  validatePasswordReset,
+  validateEmailVerification,
+  validateTwoFactorEnable,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorDisable,
   validateCompanyCreation,
   validateSolutionCreation,
   validateQueryCreation,
+  validateProposalResponse,
   validateBlogCreation,
   validateReviewCreation,
+  validateReviewUpdate,
+  validateReviewReport,
+  validateReviewModeration,
+  validateReviewVerification,
+  validateBlogUpdate,
+  validateSchedule,
+  validateNewsletterCreation,
+  validateNewsletterUpdate,
+  validateNewsletterAudience,
+  validateCategoryCreation,
+  validateCategoryUpdate,
+  validateCategoryMerge,
+  validateInquiryCreation,
+  validateInquiryList,
+  validateInquiryStatus,
+  validateInquiryNote,
+  validateInquiryReply,
+  validateOutboxList,
+  validateTestEmail,
+  validateOrganizationCreation,
+  validateOrganizationUpdate,
+  validateOrganizationInvitation,
+  validateInvitationAcceptance,
+  validateMemberRole,
+  validateSsoDiscovery,
+  validateSsoSettings,
   validateObjectId,
   validatePagination,
   validateAdminDrafts,
-  validateSearch
+  validateVendorDirectory,
+  validateSearch,
+  validateSolutionComparison,
+  validateBookmarkListCreation,
+  validateBookmarkListUpdate,
+  validateBookmarkItem,
+  validateBookmarkNote
 };
@@ -0,0 +1,113 @@
+/**
+ * Attachment Model - Files uploaded to proposals, responses and chat threads
+ * File contents live in the configured storage driver; this holds the metadata
+ */
+
+const mongoose = require('mongoose');
+
+// Attachment schema definition
+const attachmentSchema = new mongoose.Schema({
+  // Ownership
+  proposalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Proposal',
+    required: true
+  },
+  responseId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  context: {
+    type: String,
+    enum: ['response', 'chat'],
+    default: 'response'
+  },
+
+  // File information
+  originalName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+
+  // Storage location
+  driver: {
+    type: String,
+    enum: ['local', 's3'],
+    required: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+attachmentSchema.index({ proposalId: 1, responseId: 1 });
+attachmentSchema.index({ uploadedBy: 1 });
+
+/**
+ * Get public profile (without storage internals)
+ */
+attachmentSchema.methods.getPublicProfile = function() {
+  return {
+    _id: this._id,
+    proposalId: this.proposalId,
+    responseId: this.responseId,
+    context: this.context,
+    name: this.originalName,
+    type: this.mimeType,
+    size: this.size,
+    createdAt: this.createdAt
+  };
+};
+
+/**
+ * Static method to turn client-supplied attachment references into trusted
+ * entries. Uploaded files must belong to the proposal and the uploader;
+ * entries without an attachmentId are kept only if they are http(s) links.
+ * @param {string} proposalId - Proposal ID
+ * @param {string|null} userId - ID of the user attaching the files (null skips the uploader check)
+ * @param {Array<Object>} attachments - Entries like { attachmentId, name, type, url }
+ * @returns {Promise<Array>} Normalized attachment entries
+ */
+attachmentSchema.statics.resolveForProposal = async function(proposalId, userId, attachments = []) {
+  const ids = attachments.filter(a => a && a.attachmentId).map(a => a.attachmentId);
+  const uploads = ids.length > 0
+    ? await this.find({ _id: { $in: ids }, proposalId, ...(userId ? { uploadedBy: userId } : {}) })
+    : [];
+  const uploadsById = new Map(uploads.map(upload => [upload._id.toString(), upload]));
+
+  return attachments
+    .filter(a => a && (a.attachmentId
+      ? uploadsById.has(a.attachmentId.toString())
+      : typeof a.url === 'string' && /^https?:\/\//i.test(a.url)))
+    .map(a => {
+      if (!a.attachmentId) {
+        return { name: a.name || a.url, type: a.type || 'link', url: a.url };
+      }
+      const upload = uploadsById.get(a.attachmentId.toString());
+      return {
+        attachmentId: upload._id,
+        name: upload.originalName,
+        type: upload.mimeType,
+        size: upload.size
+      };
+    });
+};
+
+module.exports = mongoose.model('Attachment', attachmentSchema);
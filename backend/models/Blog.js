@@ -79,7 +79,7 @@ const blogSchema = new mongoose.Schema({
   // Blog status and publication
   status: {
     type: String,
-    enum: ['draft', 'published', 'archived'],
+    enum: ['draft', 'scheduled', 'published', 'archived'],
     default: 'draft'
   },
   isFeatured: {
@@ -193,6 +193,7 @@ blogSchema.index({ slug: 1 });
 blogSchema.index({ authorId: 1 });
 blogSchema.index({ category: 1, industry: 1 });
 blogSchema.index({ status: 1, publishedAt: -1 });
+blogSchema.index({ status: 1, scheduledAt: 1 });
 blogSchema.index({ isFeatured: 1 });
 blogSchema.index({ tags: 1 });
 
@@ -235,6 +236,26 @@ blogSchema.pre('save', async function(next) {
 blogSchema.methods.publish = function() {
   this.status = 'published';
   this.publishedAt = new Date();
+  this.scheduledAt = undefined;
+  return this.save();
+};
+
+/**
+ * Schedule blog post for later publication
+ * @param {Date} scheduleDate - When the post should go live
+ */
+blogSchema.methods.schedule = function(scheduleDate) {
+  this.status = 'scheduled';
+  this.scheduledAt = scheduleDate;
+  return this.save();
+};
+
+/**
+ * Take a post offline and back to draft
+ */
+blogSchema.methods.unpublish = function() {
+  this.status = 'draft';
+  this.scheduledAt = undefined;
   return this.save();
 };
 
@@ -279,6 +300,19 @@ blogSchema.methods.getPublicProfile = function() {
   return blogObject;
 };
 
+/**
+ * Static method to publish scheduled posts whose time has come
+ * Called before public reads, so no background job is needed.
+ * @param {Date} now - Current time
+ * @returns {Promise<Object>} Update result
+ */
+blogSchema.statics.publishDue = function(now = new Date()) {
+  return this.updateMany(
+    { status: 'scheduled', scheduledAt: { $lte: now } },
+    [{ $set: { status: 'published', publishedAt: '$scheduledAt' } }]
+  );
+};
+
 /**
  * Static method to find published blogs by category
  * @param {string} category - Category to filter by
@@ -0,0 +1,100 @@
+/**
+ * Bookmark Model - A solution saved to a bookmark list
+ * Keeps Solution.bookmarks in step with the number of people who saved the solution
+ */
+
+const mongoose = require('mongoose');
+
+// Bookmark schema definition
+const bookmarkSchema = new mongoose.Schema({
+  // Who saved the solution; on a shared list this can be any member
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  listId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BookmarkList',
+    required: true
+  },
+  solutionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Solution',
+    required: true
+  },
+  // Never shown outside the list
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Note cannot exceed 1000 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// A solution can only be in a list once
+bookmarkSchema.index({ listId: 1, solutionId: 1 }, { unique: true });
+bookmarkSchema.index({ listId: 1, createdAt: -1 });
+bookmarkSchema.index({ solutionId: 1, userId: 1 });
+
+/**
+ * Static method to set Solution.bookmarks to the number of people who saved it
+ * @param {string} solutionId - Solution ID
+ * @returns {Promise<number>} Saved count
+ */
+bookmarkSchema.statics.syncSolutionCount = async function(solutionId) {
+  const userIds = await this.distinct('userId', { solutionId });
+
+  // Skip timestamps so a bookmark doesn't count as an edit of the solution
+  await mongoose.model('Solution').updateOne(
+    { _id: solutionId },
+    { $set: { bookmarks: userIds.length } },
+    { timestamps: false }
+  );
+
+  return userIds.length;
+};
+
+/**
+ * Static method to save a solution to a list
+ * @param {string} userId - User saving the solution
+ * @param {string} solutionId - Solution ID
+ * @param {string} listId - List ID (the user's default list when omitted)
+ * @param {string} note - Optional note
+ * @returns {Promise<Object>} { bookmark, created } - created is false if it was already saved
+ */
+bookmarkSchema.statics.addBookmark = async function(userId, solutionId, listId, note) {
+  if (!listId) {
+    listId = (await mongoose.model('BookmarkList').getDefaultList(userId))._id;
+  }
+
+  const existing = await this.findOne({ listId, solutionId });
+  if (existing) {
+    return { bookmark: existing, created: false };
+  }
+
+  const bookmark = await this.create({ userId, listId, solutionId, note });
+  await this.syncSolutionCount(solutionId);
+  await mongoose.model('BookmarkList').updateOne({ _id: listId }, { $currentDate: { updatedAt: true } });
+
+  return { bookmark, created: true };
+};
+
+/**
+ * Static method to remove bookmarks and resync the affected solutions
+ * @param {Object} filter - Bookmarks to remove
+ * @returns {Promise<number>} Number removed
+ */
+bookmarkSchema.statics.removeBookmarks = async function(filter) {
+  const solutionIds = await this.distinct('solutionId', filter);
+  const { deletedCount } = await this.deleteMany(filter);
+
+  for (const solutionId of solutionIds) {
+    await this.syncSolutionCount(solutionId);
+  }
+
+  return deletedCount;
+};
+
+module.exports = mongoose.model('Bookmark', bookmarkSchema);
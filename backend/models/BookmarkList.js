@@ -0,0 +1,62 @@
+/**
+ * Bookmark List Model - Named lists of saved solutions (e.g. "Radiology AI shortlist")
+ * A list belongs to the user who created it; setting organizationId shares it with the
+ * members of that organization.
+ */
+
+const mongoose = require('mongoose');
+
+const DEFAULT_LIST_NAME = 'Saved';
+
+// Bookmark list schema definition
+const bookmarkListSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Set when the list is shared with an organization
+  organizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+  name: {
+    type: String,
+    required: [true, 'List name is required'],
+    trim: true,
+    maxlength: [100, 'List name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  // Quick saves (and the AI agent) go to the user's default list
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+bookmarkListSchema.index({ userId: 1, updatedAt: -1 });
+bookmarkListSchema.index({ organizationId: 1, updatedAt: -1 });
+bookmarkListSchema.index({ userId: 1, isDefault: 1 });
+
+/**
+ * Static method to find or create a user's default list
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>} Bookmark list document
+ */
+bookmarkListSchema.statics.getDefaultList = async function(userId) {
+  const existing = await this.findOne({ userId, isDefault: true });
+  if (existing) {
+    return existing;
+  }
+  return this.create({ userId, name: DEFAULT_LIST_NAME, isDefault: true });
+};
+
+bookmarkListSchema.statics.DEFAULT_LIST_NAME = DEFAULT_LIST_NAME;
+
+module.exports = mongoose.model('BookmarkList', bookmarkListSchema);
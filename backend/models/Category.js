@@ -0,0 +1,95 @@
+/**
+ * Category Model - Managed taxonomy of solution categories and industries
+ * Top-level categories map to Solution.category and their children to Solution.subcategory;
+ * industries map to Solution.industry. Solutions store names, so renames and merges re-point them.
+ */
+
+const mongoose = require('mongoose');
+
+const TAXONOMY_TYPES = ['category', 'industry'];
+
+const categorySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  slug: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: TAXONOMY_TYPES,
+    required: [true, 'Type is required']
+  },
+  // Parent entry of the same type; only two levels are supported
+  parentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  // Emoji shown on the categories page
+  icon: {
+    type: String,
+    trim: true,
+    maxlength: [16, 'Icon cannot exceed 16 characters']
+  },
+  // Alternative spellings that resolve to this entry (stored lowercase)
+  synonyms: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  order: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+categorySchema.index({ type: 1, slug: 1 }, { unique: true });
+categorySchema.index({ type: 1, parentId: 1, order: 1 });
+
+/**
+ * Turn a name into a URL slug
+ * @param {string} name - Entry name
+ * @returns {string} Slug
+ */
+categorySchema.statics.slugify = function(name) {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 -]/g, '') // Remove special characters
+    .trim()
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/-+/g, '-'); // Replace multiple hyphens with single
+};
+
+/**
+ * Derive the slug from the name whenever the name changes
+ */
+categorySchema.pre('validate', function(next) {
+  if (this.name && (this.isModified('name') || !this.slug)) {
+    this.slug = this.constructor.slugify(this.name);
+  }
+  this.synonyms = [...new Set((this.synonyms || []).filter(Boolean))];
+  next();
+});
+
+categorySchema.statics.TAXONOMY_TYPES = TAXONOMY_TYPES;
+
+module.exports = mongoose.model('Category', categorySchema);
@@ -0,0 +1,313 @@
+/**
+ * ChatSession Model - Persisted AI agent conversations
+ * Sessions owned by a user are kept; anonymous sessions expire via a TTL index
+ */
+
+const mongoose = require('mongoose');
+
+// Anonymous sessions are removed after this much inactivity
+const ANONYMOUS_TTL_HOURS = parseInt(process.env.CHAT_SESSION_TTL_HOURS) || 72;
+
+// Sessions with a message in this window count as active in stats
+const ACTIVE_WINDOW_MINUTES = 30;
+
+// Oldest messages are dropped beyond this to keep documents small
+const MAX_STORED_MESSAGES = 200;
+
+// Agent actions not confirmed within this window can no longer be run
+const ACTION_TTL_MINUTES = 30;
+
+// Solution card returned to the frontend alongside an assistant turn
+const solutionCardSchema = new mongoose.Schema({
+  id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Solution'
+  },
+  title: String,
+  company: String,
+  website: String,
+  industry: String,
+  category: String,
+  shortDescription: String,
+  pricing: String,
+  price: Number,
+  logo: String,
+  isPremium: Boolean
+}, { _id: false });
+
+// Write action proposed by the agent, run only once the user confirms it
+const agentActionSchema = new mongoose.Schema({
+  actionId: {
+    type: String,
+    required: true
+  },
+  tool: {
+    type: String,
+    required: true
+  },
+  args: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  summary: String,
+  status: {
+    type: String,
+    enum: ['pending', 'executing', 'completed', 'cancelled', 'failed'],
+    default: 'pending'
+  },
+  result: {
+    message: String,
+    link: String
+  },
+  error: String,
+  resolvedAt: Date
+}, { _id: false });
+
+const chatMessageSchema = new mongoose.Schema({
+  role: {
+    type: String,
+    enum: ['user', 'assistant'],
+    required: true
+  },
+  content: {
+    type: String,
+    required: true
+  },
+  solutionCards: [solutionCardSchema],
+  actions: [agentActionSchema],
+  searchType: {
+    type: String,
+    enum: ['database', 'internet'],
+    default: 'database'
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Chat session schema definition
+const chatSessionSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    maxlength: [100, 'Session ID cannot exceed 100 characters']
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: [120, 'Title cannot exceed 120 characters']
+  },
+  messages: [chatMessageSchema],
+  lastMessageAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Only set for anonymous sessions
+  expiresAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+chatSessionSchema.index({ userId: 1, lastMessageAt: -1 });
+chatSessionSchema.index({ lastMessageAt: -1 });
+chatSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Keep the expiry of anonymous sessions rolling with activity
+chatSessionSchema.pre('save', function(next) {
+  this.expiresAt = this.userId
+    ? null
+    : new Date(Date.now() + ANONYMOUS_TTL_HOURS * 60 * 60 * 1000);
+  next();
+});
+
+/**
+ * Check whether a user may read or change this session.
+ * Anonymous sessions are reachable by anyone holding the session ID.
+ * @param {Object|null} user - Authenticated user, if any
+ * @returns {boolean}
+ */
+chatSessionSchema.methods.isAccessibleBy = function(user) {
+  if (!this.userId) return true;
+  if (!user) return false;
+  return user.role === 'superadmin' || this.userId.toString() === user._id.toString();
+};
+
+/**
+ * Get the most recent turns in the shape the OpenAI API expects
+ * @param {number} limit - Maximum number of messages
+ * @returns {Array<Object>} { role, content } pairs, oldest first
+ */
+chatSessionSchema.methods.getRecentHistory = function(limit = 10) {
+  return this.messages.slice(-limit).map(({ role, content }) => ({ role, content }));
+};
+
+/**
+ * Append a user message and the assistant's reply
+ * @param {string} userMessage - Message sent by the user
+ * @param {string} assistantMessage - Reply from the agent
+ * @param {Object} options - { solutionCards, searchType, actions }
+ */
+chatSessionSchema.methods.addTurn = async function(userMessage, assistantMessage, options = {}) {
+  const { solutionCards = [], searchType = 'database', actions = [] } = options;
+  const now = new Date();
+
+  if (!this.title) {
+    this.title = userMessage.length > 80 ? `${userMessage.slice(0, 77)}...` : userMessage;
+  }
+
+  this.messages.push({ role: 'user', content: userMessage, searchType, timestamp: now });
+  this.messages.push({ role: 'assistant', content: assistantMessage, solutionCards, actions, searchType, timestamp: now });
+  this.trimMessages(now);
+
+  await this.save();
+};
+
+/**
+ * Append an assistant message that isn't a reply to a user message (e.g. an action result)
+ * @param {string} content - Message text
+ */
+chatSessionSchema.methods.addAssistantMessage = async function(content) {
+  const now = new Date();
+
+  this.messages.push({ role: 'assistant', content, timestamp: now });
+  this.trimMessages(now);
+
+  await this.save();
+};
+
+/**
+ * Record activity and drop the oldest messages beyond the storage cap
+ * @param {Date} now - Time of the latest message
+ */
+chatSessionSchema.methods.trimMessages = function(now) {
+  this.lastMessageAt = now;
+
+  if (this.messages.length > MAX_STORED_MESSAGES) {
+    this.messages = this.messages.slice(-MAX_STORED_MESSAGES);
+  }
+};
+
+/**
+ * Find an agent action proposed in this session
+ * @param {string} actionId - Action ID
+ * @returns {Object|null} { message, action }
+ */
+chatSessionSchema.methods.findAction = function(actionId) {
+  for (const message of this.messages) {
+    const action = (message.actions || []).find(item => item.actionId === actionId);
+    if (action) return { message, action };
+  }
+  return null;
+};
+
+/**
+ * Check whether a proposed action is too old to confirm
+ * @param {Object} message - Message the action belongs to
+ * @returns {boolean}
+ */
+chatSessionSchema.methods.isActionExpired = function(message) {
+  return Date.now() - new Date(message.timestamp).getTime() > ACTION_TTL_MINUTES * 60 * 1000;
+};
+
+/**
+ * Get a summary for conversation lists
+ */
+chatSessionSchema.methods.getSummary = function() {
+  const lastMessage = this.messages[this.messages.length - 1];
+
+  return {
+    sessionId: this.sessionId,
+    title: this.title || 'New conversation',
+    messageCount: this.messages.length,
+    lastMessage: lastMessage ? lastMessage.content.slice(0, 120) : '',
+    lastMessageAt: this.lastMessageAt,
+    createdAt: this.createdAt
+  };
+};
+
+/**
+ * Static method to load a session, creating it if it doesn't exist yet.
+ * Anonymous sessions are claimed by the first authenticated user to use them.
+ * @param {string} sessionId - Client session ID
+ * @param {Object|null} user - Authenticated user, if any
+ * @returns {Promise<Object|null>} Session, or null if it belongs to someone else
+ */
+chatSessionSchema.statics.findOrCreate = async function(sessionId, user = null) {
+  let session = await this.findOne({ sessionId });
+
+  if (!session) {
+    return new this({ sessionId, userId: user ? user._id : null });
+  }
+
+  if (!session.isAccessibleBy(user)) {
+    return null;
+  }
+
+  if (!session.userId && user) {
+    session.userId = user._id;
+  }
+
+  return session;
+};
+
+/**
+ * Static method to claim a pending agent action so only one request resolves it
+ * Moves the action from pending to executing in a single update.
+ * @param {string} sessionId - Client session ID
+ * @param {string} actionId - Action ID
+ * @returns {Promise<Object|null>} Session with the claimed action, or null if it was no longer pending
+ */
+chatSessionSchema.statics.claimAction = function(sessionId, actionId) {
+  return this.findOneAndUpdate(
+    { sessionId, 'messages.actions': { $elemMatch: { actionId, status: 'pending' } } },
+    { $set: { 'messages.$[message].actions.$[action].status': 'executing' } },
+    {
+      arrayFilters: [
+        { 'message.actions.actionId': actionId },
+        { 'action.actionId': actionId, 'action.status': 'pending' }
+      ],
+      new: true
+    }
+  );
+};
+
+/**
+ * Static method to get conversation statistics
+ * @returns {Promise<Object>} Session and message counts
+ */
+chatSessionSchema.statics.getStats = async function() {
+  const activeSince = new Date(Date.now() - ACTIVE_WINDOW_MINUTES * 60 * 1000);
+
+  const [totals] = await this.aggregate([
+    {
+      $group: {
+        _id: null,
+        totalSessions: { $sum: 1 },
+        authenticatedSessions: { $sum: { $cond: [{ $ifNull: ['$userId', false] }, 1, 0] } },
+        activeSessions: { $sum: { $cond: [{ $gte: ['$lastMessageAt', activeSince] }, 1, 0] } },
+        totalMessages: { $sum: { $size: '$messages' } }
+      }
+    }
+  ]);
+
+  return {
+    totalSessions: totals?.totalSessions || 0,
+    authenticatedSessions: totals?.authenticatedSessions || 0,
+    activeSessions: totals?.activeSessions || 0,
+    totalMessages: totals?.totalMessages || 0
+  };
+};
+
+module.exports = mongoose.model('ChatSession', chatSessionSchema);
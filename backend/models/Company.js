@@ -215,19 +215,18 @@ companySchema.statics.updateSolutionCount = async function(companyId, increment
 };
 
 /**
- * Update company rating
+ * Recalculate company rating from its approved reviews
  * @param {string} companyId - Company ID
- * @param {number} newRating - New rating value
  */
-companySchema.statics.updateRating = async function(companyId, newRating) {
-  const company = await this.findById(companyId);
-  if (!company) return;
+companySchema.statics.updateRating = async function(companyId) {
+  const stats = await mongoose.model('Review').calculateCompanyRating(companyId);
 
-  const totalRating = company.rating.average * company.rating.count + newRating;
-  company.rating.count += 1;
-  company.rating.average = totalRating / company.rating.count;
-  
-  await company.save();
+  // Skip timestamps so a review doesn't count as an edit of the company
+  await this.updateOne(
+    { _id: companyId },
+    { $set: { 'rating.average': stats.averageRating, 'rating.count': stats.totalReviews } },
+    { timestamps: false }
+  );
 };
 
 /**
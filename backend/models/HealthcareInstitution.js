@@ -14,6 +14,12 @@ const healthcareInstitutionSchema = new mongoose.Schema(
       unique: true,
       index: true,
     },
+    // Organization that owns the profile; its owners and admins can edit it
+    organizationId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Organization',
+      index: true,
+    },
     selectedAISolutions: [{
       type: String,
       trim: true,
@@ -0,0 +1,135 @@
+/**
+ * Inquiry Model - Buyer contact requests (leads) sent from a solution page
+ * Each inquiry belongs to the solution's vendor, who tracks it through a sales status,
+ * keeps private notes and replies to the buyer.
+ */
+
+const mongoose = require('mongoose');
+
+const INQUIRY_STATUSES = ['new', 'contacted', 'qualified', 'won', 'lost'];
+
+// Inquiry schema definition
+const inquirySchema = new mongoose.Schema({
+  solutionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Solution',
+    required: true
+  },
+  vendorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  buyerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Copied from the solution so the whole vendor organization shares the inbox
+  organizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+
+  // Contact details as entered on the form
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    trim: true,
+    lowercase: true
+  },
+  company: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Company cannot exceed 200 characters']
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [2000, 'Message cannot exceed 2000 characters']
+  },
+
+  // Vendor pipeline
+  status: {
+    type: String,
+    enum: INQUIRY_STATUSES,
+    default: 'new'
+  },
+  statusChangedAt: Date,
+
+  // Private to the vendor
+  notes: [{
+    content: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [2000, 'Note cannot exceed 2000 characters']
+    },
+    authorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+
+  // Vendor replies, shown to the buyer and emailed to them
+  replies: [{
+    message: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [5000, 'Reply cannot exceed 5000 characters']
+    },
+    authorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    emailed: {
+      type: Boolean,
+      default: false
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+
+  lastActivityAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+inquirySchema.index({ vendorId: 1, status: 1, lastActivityAt: -1 });
+inquirySchema.index({ buyerId: 1, solutionId: 1, createdAt: -1 });
+inquirySchema.index({ solutionId: 1 });
+inquirySchema.index({ organizationId: 1, status: 1, lastActivityAt: -1 });
+
+/**
+ * Get the inquiry as the buyer sees it (the vendor's pipeline status and notes stay private)
+ * @returns {Object} Buyer-facing inquiry
+ */
+inquirySchema.methods.getBuyerView = function() {
+  const inquiry = this.toObject();
+  delete inquiry.notes;
+  delete inquiry.status;
+  delete inquiry.statusChangedAt;
+  return inquiry;
+};
+
+inquirySchema.statics.INQUIRY_STATUSES = INQUIRY_STATUSES;
+
+module.exports = mongoose.model('Inquiry', inquirySchema);
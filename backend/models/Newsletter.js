@@ -64,7 +64,7 @@ const newsletterSchema = new mongoose.Schema({
   // Newsletter status and publication
   status: {
     type: String,
-    enum: ['draft', 'scheduled', 'published', 'sent', 'archived'],
+    enum: ['draft', 'scheduled', 'published', 'sending', 'sent', 'archived'],
     default: 'draft'
   },
   priority: {
@@ -87,8 +87,10 @@ const newsletterSchema = new mongoose.Schema({
     },
     industryFilter: [String],
     roleFilter: [String],
-    customFilters: mongoose.Schema.Types.Mixed
+    customFilters: mongoose.Schema.Types.Mixed, // { interests: [String] }
+    recipientCount: Number
   },
+  sendError: String,
   
   // Newsletter metrics
   metrics: {
@@ -0,0 +1,58 @@
+/**
+ * Newsletter Delivery Model - One newsletter send to one subscriber
+ * Its token identifies the recipient in open pixels, tracked links and unsubscribe links
+ */
+
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+// Newsletter delivery schema definition
+const newsletterDeliverySchema = new mongoose.Schema({
+  newsletterId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Newsletter',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  token: {
+    type: String,
+    required: true,
+    default: () => crypto.randomBytes(24).toString('hex')
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'sent', 'failed'],
+    default: 'queued'
+  },
+  messageId: String,
+  error: String,
+  sentAt: Date,
+
+  // Engagement (first occurrence only, so metrics count unique recipients)
+  openedAt: Date,
+  clickedAt: Date,
+  clickCount: {
+    type: Number,
+    default: 0
+  },
+  unsubscribedAt: Date
+}, {
+  timestamps: true
+});
+
+// A newsletter is delivered at most once per user, which makes interrupted sends resumable
+newsletterDeliverySchema.index({ newsletterId: 1, userId: 1 }, { unique: true });
+newsletterDeliverySchema.index({ newsletterId: 1, status: 1 });
+newsletterDeliverySchema.index({ token: 1 }, { unique: true });
+
+module.exports = mongoose.model('NewsletterDelivery', newsletterDeliverySchema);
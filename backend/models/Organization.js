@@ -0,0 +1,227 @@
+/**
+ * Organization Model - A team of users that owns proposals, solutions and profiles together
+ * Vendor organizations link to the public Company profile; buyer organizations (for example
+ * a hospital's purchasing team) have none. Members are owners, admins or members, and new
+ * members join through emailed single-use invitations. An organization can also sign its
+ * members in through its own identity provider (OIDC or SAML).
+ */
+
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+const ORGANIZATION_ROLES = ['owner', 'admin', 'member'];
+
+// How long an invitation link stays valid
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Member subdocument
+const memberSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: ORGANIZATION_ROLES,
+    default: 'member'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
+
+// Pending invitation subdocument (only a hash of the token is stored)
+const invitationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'member'],
+    default: 'member'
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { timestamps: true });
+
+// Single sign-on settings (see services/ssoService.js)
+const ssoSchema = new mongoose.Schema({
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  protocol: {
+    type: String,
+    enum: ['oidc', 'saml']
+  },
+  // Email domains routed to this identity provider; set by a superadmin once the
+  // organization has shown it controls them
+  domains: [{
+    type: String,
+    lowercase: true,
+    trim: true
+  }],
+  // Organization role given to users created on their first SSO sign-in
+  defaultRole: {
+    type: String,
+    enum: ['admin', 'member'],
+    default: 'member'
+  },
+  // Turn off password sign-in for the organization's domains
+  enforced: {
+    type: Boolean,
+    default: false
+  },
+  oidc: {
+    discoveryUrl: String,
+    clientId: String,
+    // Encrypted with ssoService.encrypt
+    clientSecret: {
+      type: String,
+      select: false
+    },
+    scopes: {
+      type: String,
+      default: 'openid email profile'
+    }
+  },
+  saml: {
+    metadataUrl: String,
+    entryPoint: String,
+    idpIssuer: String,
+    idpCerts: [String]
+  }
+}, { _id: false });
+
+// Organization schema definition
+const organizationSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Organization name is required'],
+    trim: true,
+    maxlength: [100, 'Organization name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    enum: ['vendor', 'buyer'],
+    required: true
+  },
+  // Public company profile of a vendor organization
+  companyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  members: [memberSchema],
+  invitations: [invitationSchema],
+  sso: {
+    type: ssoSchema,
+    default: () => ({})
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+organizationSchema.index({ 'members.userId': 1 });
+organizationSchema.index({ 'invitations.tokenHash': 1 });
+organizationSchema.index({ companyId: 1 });
+organizationSchema.index({ 'sso.domains': 1 });
+
+/**
+ * Hash an invitation token for storage and lookup
+ * @param {string} token - Raw token
+ * @returns {string} Hex SHA-256 digest
+ */
+organizationSchema.statics.hashInvitationToken = function(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+};
+
+/**
+ * Get a user's membership
+ * @param {string} userId - User ID
+ * @returns {Object|undefined} Member subdocument
+ */
+organizationSchema.methods.getMember = function(userId) {
+  return this.members.find(member => {
+    const memberId = member.userId && member.userId._id ? member.userId._id : member.userId;
+    return memberId.toString() === userId.toString();
+  });
+};
+
+/**
+ * Check whether a user is a member with one of the given roles
+ * @param {string} userId - User ID
+ * @param {Array<string>} roles - Accepted roles (any role when empty)
+ * @returns {boolean} True if the user qualifies
+ */
+organizationSchema.methods.hasRole = function(userId, roles = []) {
+  const member = this.getMember(userId);
+  return Boolean(member) && (roles.length === 0 || roles.includes(member.role));
+};
+
+/**
+ * Add an invitation, replacing any pending one for the same email (caller saves)
+ * @param {string} email - Invitee email
+ * @param {string} role - admin or member
+ * @param {string} invitedBy - Inviting user ID
+ * @returns {string} Raw token to email
+ */
+organizationSchema.methods.createInvitation = function(email, role, invitedBy) {
+  const token = crypto.randomBytes(32).toString('hex');
+  const normalized = email.toLowerCase().trim();
+
+  this.invitations = this.invitations.filter(invitation => invitation.email !== normalized);
+  this.invitations.push({
+    email: normalized,
+    role,
+    tokenHash: this.constructor.hashInvitationToken(token),
+    invitedBy,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+  });
+
+  return token;
+};
+
+/**
+ * Get organization summary for a member
+ * @param {string} userId - Viewing user ID
+ * @returns {Object} Organization without invitation token hashes
+ */
+organizationSchema.methods.getPublicProfile = function(userId) {
+  const organizationObject = this.toObject();
+  delete organizationObject.__v;
+  organizationObject.invitations = (organizationObject.invitations || []).map(({ tokenHash, ...invitation }) => invitation);
+  if (userId) {
+    organizationObject.myRole = this.getMember(userId)?.role || null;
+  }
+  return organizationObject;
+};
+
+organizationSchema.statics.ROLES = ORGANIZATION_ROLES;
+organizationSchema.statics.INVITATION_TTL_MS = INVITATION_TTL_MS;
+
+module.exports = mongoose.model('Organization', organizationSchema);
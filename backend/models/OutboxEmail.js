@@ -0,0 +1,73 @@
+/**
+ * Outbox Email Model - A rendered transactional email waiting to be, or already, sent
+ * The outbox worker claims queued messages, retries failures with backoff and gives up
+ * after maxAttempts.
+ */
+
+const mongoose = require('mongoose');
+const { TEMPLATE_NAMES } = require('../services/mail/templates');
+
+const OUTBOX_STATUSES = ['queued', 'sending', 'sent', 'failed'];
+
+// Outbox email schema definition
+const outboxEmailSchema = new mongoose.Schema({
+  template: {
+    type: String,
+    enum: TEMPLATE_NAMES,
+    required: true
+  },
+  to: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  html: String,
+  text: String,
+  headers: {
+    type: Map,
+    of: String
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+
+  // Delivery
+  status: {
+    type: String,
+    enum: OUTBOX_STATUSES,
+    default: 'queued'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastError: String,
+  transport: String,
+  messageId: String,
+  sentAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+outboxEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+outboxEmailSchema.index({ createdAt: -1 });
+outboxEmailSchema.index({ to: 1, createdAt: -1 });
+
+outboxEmailSchema.statics.OUTBOX_STATUSES = OUTBOX_STATUSES;
+
+module.exports = mongoose.model('OutboxEmail', outboxEmailSchema);
@@ -5,6 +5,128 @@
 
 const mongoose = require('mongoose');
 
+/**
+ * Proposal lifecycle: draft → active → shortlisting → hired → fulfilled,
+ * with cancellation possible until the proposal is fulfilled.
+ * Hires stay pending until a superadmin verifies them; a rejected hire
+ * sends the proposal back to shortlisting.
+ */
+const PROPOSAL_TRANSITIONS = {
+  draft: ['active', 'cancelled'],
+  active: ['shortlisting', 'cancelled'],
+  shortlisting: ['active', 'hired', 'cancelled'],
+  hired: ['fulfilled', 'cancelled'],
+  fulfilled: [],
+  cancelled: []
+};
+
+/**
+ * Response lifecycle: pending → shortlisted → accepted/rejected/withdrawn
+ */
+const RESPONSE_TRANSITIONS = {
+  pending: ['shortlisted', 'rejected', 'withdrawn'],
+  shortlisted: ['accepted', 'rejected', 'withdrawn'],
+  accepted: [],
+  rejected: [],
+  withdrawn: []
+};
+
+// Proposals still open to vendor responses
+const OPEN_STATUSES = ['active', 'shortlisting'];
+
+/**
+ * Throw if a status change is not allowed by the lifecycle
+ * @param {Object} transitions - Transition map
+ * @param {string} from - Current status
+ * @param {string} to - Requested status
+ * @param {string} label - Entity name for the error message
+ */
+const assertTransition = (transitions, from, to, label) => {
+  if (!(transitions[from] || []).includes(to)) {
+    const error = new Error(`Cannot change ${label} status from ${from} to ${to}`);
+    error.name = 'TransitionError';
+    throw error;
+  }
+};
+
+// Audit trail entry, shared by proposals and responses
+const statusChangeSchema = new mongoose.Schema({
+  from: String,
+  to: {
+    type: String,
+    required: true
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+// Fields of a response that are versioned when the vendor edits it
+const REVISION_FIELDS = ['solutionId', 'proposalText', 'proposedPrice', 'proposedTimeline', 'caseStudyLink'];
+
+// Snapshot of a response's content at one version
+const responseRevisionSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true
+  },
+  solutionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Solution'
+  },
+  proposalText: String,
+  proposedPrice: String,
+  proposedTimeline: String,
+  caseStudyLink: String,
+  attachments: [{
+    attachmentId: mongoose.Schema.Types.ObjectId,
+    name: String
+  }],
+  editedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+/**
+ * Build a revision snapshot from a response's current content
+ * @param {Object} response - Response subdocument or plain response data
+ * @param {number} version - Version number of the snapshot
+ * @param {string} editedBy - User who produced this version
+ * @returns {Object} Revision entry
+ */
+const snapshotResponse = (response, version, editedBy) => ({
+  version,
+  ...REVISION_FIELDS.reduce((snapshot, field) => ({ ...snapshot, [field]: response[field] }), {}),
+  attachments: (response.attachments || []).map(({ attachmentId, name }) => ({ attachmentId, name })),
+  editedBy
+});
+
+/**
+ * Compare the versioned content of two snapshots
+ * @returns {boolean} Whether any versioned field differs
+ */
+const hasRevisionChanges = (before, after) => {
+  const attachmentKey = snapshot => snapshot.attachments.map(a => `${a.attachmentId || ''}:${a.name}`).join('|');
+
+  return REVISION_FIELDS.some(field => String(before[field] ?? '') !== String(after[field] ?? ''))
+    || attachmentKey(before) !== attachmentKey(after);
+};
+
 // Proposal schema definition
 const proposalSchema = new mongoose.Schema({
   // Proposal information
@@ -31,6 +153,11 @@ const proposalSchema = new mongoose.Schema({
     enum: ['customer', 'vendor'],
     required: true
   },
+  // Organization that owns the proposal; its members can manage it with the creator
+  organizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
   
   // Proposal categorization
   category: {
@@ -69,6 +196,14 @@ const proposalSchema = new mongoose.Schema({
       enum: ['cloud', 'on-premise', 'hybrid', 'any'],
       default: 'any'
     },
+    dataType: {
+      type: String,
+      trim: true
+    },
+    compliance: [{
+      type: String,
+      trim: true
+    }],
     requiredFeatures: [{
       type: String,
       trim: true
@@ -99,9 +234,30 @@ const proposalSchema = new mongoose.Schema({
   // Status and management
   status: {
     type: String,
-    enum: ['draft', 'active', 'in_progress', 'completed', 'cancelled'],
+    enum: Object.keys(PROPOSAL_TRANSITIONS),
     default: 'draft'
   },
+  statusHistory: [statusChangeSchema],
+
+  // Hired vendor response, pending superadmin verification
+  hire: {
+    responseId: mongoose.Schema.Types.ObjectId,
+    hiredBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    hiredAt: Date,
+    verificationStatus: {
+      type: String,
+      enum: ['pending', 'verified', 'rejected']
+    },
+    verifiedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    verifiedAt: Date,
+    verificationNote: String
+  },
   priority: {
     type: String,
     enum: ['low', 'medium', 'high', 'urgent'],
@@ -139,15 +295,44 @@ const proposalSchema = new mongoose.Schema({
       type: String,
       trim: true
     },
+    caseStudyLink: {
+      type: String,
+      trim: true
+    },
+    attachments: [{
+      attachmentId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Attachment'
+      },
+      name: {
+        type: String,
+        required: true
+      },
+      type: String,
+      url: String,
+      size: Number
+    }],
     submittedAt: {
       type: Date,
       default: Date.now
     },
+    updatedAt: {
+      type: Date
+    },
+    viewedAt: {
+      type: Date
+    },
     status: {
       type: String,
-      enum: ['pending', 'accepted', 'rejected'],
+      enum: Object.keys(RESPONSE_TRANSITIONS),
       default: 'pending'
-    }
+    },
+    statusHistory: [statusChangeSchema],
+    version: {
+      type: Number,
+      default: 1
+    },
+    revisions: [responseRevisionSchema]
   }],
   
   // Metrics
@@ -188,6 +373,7 @@ proposalSchema.virtual('daysUntilExpiry').get(function() {
 
 // Indexes for better query performance
 proposalSchema.index({ createdBy: 1 });
+proposalSchema.index({ organizationId: 1 });
 proposalSchema.index({ creatorType: 1 });
 proposalSchema.index({ status: 1, priority: 1 });
 proposalSchema.index({ category: 1, industry: 1 });
@@ -195,6 +381,39 @@ proposalSchema.index({ title: 'text', description: 'text' });
 proposalSchema.index({ createdAt: -1 });
 proposalSchema.index({ expiresAt: 1 });
 proposalSchema.index({ tags: 1 });
+proposalSchema.index({ 'hire.verificationStatus': 1 });
+
+/**
+ * Record a proposal status change in the audit trail (no validation)
+ * @param {string} status - New status
+ * @param {Object} actor - { userId, note }
+ */
+proposalSchema.methods.recordStatus = function(status, { userId, note } = {}) {
+  this.statusHistory.push({ from: this.status, to: status, changedBy: userId, note });
+  this.status = status;
+
+  if (status === 'active' && !this.publishedAt) {
+    this.publishedAt = new Date();
+  }
+};
+
+/**
+ * Change proposal status, enforcing the lifecycle
+ * @param {string} status - New status
+ * @param {Object} actor - { userId, note }
+ */
+proposalSchema.methods.changeStatus = async function(status, actor = {}) {
+  assertTransition(PROPOSAL_TRANSITIONS, this.status, status, 'proposal');
+
+  if (status === 'fulfilled' && this.hire?.verificationStatus !== 'verified') {
+    const error = new Error('The hire must be verified by an admin before the proposal can be fulfilled');
+    error.name = 'TransitionError';
+    throw error;
+  }
+
+  this.recordStatus(status, actor);
+  await this.save();
+};
 
 /**
  * Add vendor response to proposal
@@ -210,42 +429,139 @@ proposalSchema.methods.addResponse = async function(responseData) {
     throw new Error('You have already submitted a response to this proposal');
   }
   
-  this.responses.push(responseData);
+  this.responses.push({
+    ...responseData,
+    status: 'pending',
+    statusHistory: [{ from: null, to: 'pending', changedBy: responseData.vendorId }],
+    version: 1,
+    revisions: [snapshotResponse(responseData, 1, responseData.vendorId)]
+  });
   this.responsesCount = this.responses.length;
-  this.status = this.status === 'draft' ? 'active' : this.status;
+  if (this.status === 'draft') {
+    this.recordStatus('active', { userId: responseData.vendorId });
+  }
   await this.save();
   
   return this.responses[this.responses.length - 1];
 };
 
 /**
- * Update response status
+ * Update response status, enforcing the lifecycle. Only allowed while the proposal is open.
+ * Shortlisting moves the proposal into shortlisting; accepting a response
+ * hires that vendor and queues the hire for superadmin verification.
  * @param {string} responseId - Response ID
  * @param {string} status - New status
+ * @param {Object} actor - { userId, note }
  */
-proposalSchema.methods.updateResponseStatus = async function(responseId, status) {
+proposalSchema.methods.updateResponseStatus = async function(responseId, status, actor = {}) {
   const response = this.responses.id(responseId);
   if (!response) {
     throw new Error('Response not found');
   }
-  
-  response.status = status;
+
+  // Responses only move while the proposal is open; a hired, fulfilled or cancelled proposal is settled
+  if (!OPEN_STATUSES.includes(this.status)) {
+    const error = new Error(`Cannot change response status while the proposal is ${this.status}`);
+    error.name = 'TransitionError';
+    throw error;
+  }
+
+  assertTransition(RESPONSE_TRANSITIONS, response.status, status, 'response');
+
+  if (['shortlisted', 'accepted'].includes(status) && this.status === 'active') {
+    this.recordStatus('shortlisting', actor);
+  }
+
   if (status === 'accepted') {
-    this.status = 'in_progress';
+    assertTransition(PROPOSAL_TRANSITIONS, this.status, 'hired', 'proposal');
+    this.recordStatus('hired', actor);
+    this.hire = {
+      responseId: response._id,
+      hiredBy: actor.userId,
+      hiredAt: new Date(),
+      verificationStatus: 'pending'
+    };
+  }
+
+  response.statusHistory.push({ from: response.status, to: status, changedBy: actor.userId, note: actor.note });
+  response.status = status;
+  await this.save();
+
+  return response;
+};
+
+/**
+ * Superadmin decision on a pending hire. A rejected hire returns the
+ * response to the shortlist and the proposal to shortlisting.
+ * @param {boolean} approved - Whether the hire is verified
+ * @param {Object} actor - { userId, note }
+ */
+proposalSchema.methods.verifyHire = async function(approved, actor = {}) {
+  if (this.status !== 'hired' || this.hire?.verificationStatus !== 'pending') {
+    const error = new Error('This proposal has no hire awaiting verification');
+    error.name = 'TransitionError';
+    throw error;
   }
+
+  this.hire.verificationStatus = approved ? 'verified' : 'rejected';
+  this.hire.verifiedBy = actor.userId;
+  this.hire.verifiedAt = new Date();
+  this.hire.verificationNote = actor.note;
+
+  if (!approved) {
+    const response = this.responses.id(this.hire.responseId);
+    if (response && response.status === 'accepted') {
+      response.statusHistory.push({ from: 'accepted', to: 'shortlisted', changedBy: actor.userId, note: actor.note });
+      response.status = 'shortlisted';
+    }
+    this.recordStatus('shortlisting', actor);
+  }
+
   await this.save();
 };
 
 /**
- * Update response content
+ * Withdraw a vendor's response
+ * @param {string} responseId - Response ID
+ * @param {Object} actor - { userId, note } where note is the withdrawal reason
+ */
+proposalSchema.methods.withdrawResponse = async function(responseId, actor = {}) {
+  return this.updateResponseStatus(responseId, 'withdrawn', actor);
+};
+
+/**
+ * Record that the proposal owner has looked at a response
+ * @param {string} responseId - Response ID
+ */
+proposalSchema.methods.markResponseViewed = async function(responseId) {
+  const response = this.responses.id(responseId);
+  if (!response) {
+    throw new Error('Response not found');
+  }
+
+  if (!response.viewedAt) {
+    response.viewedAt = new Date();
+    await this.save({ validateBeforeSave: false });
+  }
+
+  return response;
+};
+
+/**
+ * Update response content. Edits that change the content are appended
+ * to the response's revision log as a new version.
  * @param {string} responseId - Response ID
  * @param {Object} updateData - Data to update
+ * @param {string} editedBy - User making the edit
  */
-proposalSchema.methods.updateResponse = async function(responseId, updateData) {
+proposalSchema.methods.updateResponse = async function(responseId, updateData, editedBy) {
   const response = this.responses.id(responseId);
   if (!response) {
     throw new Error('Response not found');
   }
+
+  const currentVersion = response.version || 1;
+  const before = snapshotResponse(response, currentVersion, response.vendorId);
   
   // Update fields
   if (updateData.solutionId !== undefined) {
@@ -266,6 +582,16 @@ proposalSchema.methods.updateResponse = async function(responseId, updateData) {
   if (updateData.attachments !== undefined) {
     response.attachments = updateData.attachments;
   }
+
+  const after = snapshotResponse(response, currentVersion + 1, editedBy);
+  if (hasRevisionChanges(before, after)) {
+    // Responses submitted before revisions were tracked start their log here
+    if (response.revisions.length === 0) {
+      response.revisions.push({ ...before, createdAt: response.submittedAt });
+    }
+    response.revisions.push(after);
+    response.version = after.version;
+  }
   
   response.updatedAt = new Date();
   await this.save();
@@ -297,4 +623,8 @@ proposalSchema.methods.isExpired = function() {
   return this.expiresAt && this.expiresAt < new Date();
 };
 
+proposalSchema.statics.PROPOSAL_TRANSITIONS = PROPOSAL_TRANSITIONS;
+proposalSchema.statics.RESPONSE_TRANSITIONS = RESPONSE_TRANSITIONS;
+proposalSchema.statics.OPEN_STATUSES = OPEN_STATUSES;
+
 module.exports = mongoose.model('Proposal', proposalSchema);
@@ -0,0 +1,183 @@
+/**
+ * ProposalMessage Model - Chat messages between a customer and a responding vendor
+ * Each thread is scoped to a single vendor response on a proposal
+ */
+
+const mongoose = require('mongoose');
+
+// Proposal message schema definition
+const proposalMessageSchema = new mongoose.Schema({
+  // Thread identification
+  proposalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Proposal',
+    required: true
+  },
+  responseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+
+  // Sender information (name cached for performance)
+  senderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  senderName: {
+    type: String,
+    required: true
+  },
+  senderRole: {
+    type: String,
+    enum: ['customer', 'vendor', 'superadmin'],
+    required: true
+  },
+
+  // Message content
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [5000, 'Message cannot exceed 5000 characters'],
+    default: ''
+  },
+  attachments: [{
+    attachmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Attachment'
+    },
+    name: {
+      type: String,
+      required: true
+    },
+    type: String,
+    url: String,
+    size: Number
+  }],
+
+  // Read receipts
+  readBy: [{
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    readAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+proposalMessageSchema.index({ proposalId: 1, responseId: 1, createdAt: 1 });
+proposalMessageSchema.index({ senderId: 1 });
+proposalMessageSchema.index({ 'readBy.userId': 1 });
+
+// Require either text or at least one attachment
+proposalMessageSchema.pre('validate', function(next) {
+  if (!this.message && (!this.attachments || this.attachments.length === 0)) {
+    this.invalidate('message', 'Message text or an attachment is required');
+  }
+  next();
+});
+
+/**
+ * Get public profile (without internal fields)
+ */
+proposalMessageSchema.methods.getPublicProfile = function() {
+  const messageObject = this.toObject();
+  delete messageObject.__v;
+  return messageObject;
+};
+
+/**
+ * Static method to fetch a thread in chronological order
+ * @param {string} proposalId - Proposal ID
+ * @param {string} responseId - Response ID
+ * @param {Object} options - Pagination options ({ before, after, limit })
+ * @returns {Promise<Array>} Array of messages, oldest first
+ */
+proposalMessageSchema.statics.findThread = async function(proposalId, responseId, options = {}) {
+  const { before, after, limit = 50 } = options;
+  const filter = { proposalId, responseId };
+
+  if (before) {
+    filter.createdAt = { $lt: new Date(before) };
+  }
+
+  // Polling clients only need what arrived since their newest message
+  if (after) {
+    return this.find({ ...filter, createdAt: { $gt: new Date(after) } })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .select('-__v');
+  }
+
+  // Take the newest page, then return it oldest-first for display
+  const messages = await this.find(filter)
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .select('-__v');
+
+  return messages.reverse();
+};
+
+/**
+ * Static method to mark a thread as read for a user
+ * @param {string} proposalId - Proposal ID
+ * @param {string} responseId - Response ID
+ * @param {string} userId - Reader's user ID
+ * @returns {Promise<Date>} Timestamp recorded on the read receipts
+ */
+proposalMessageSchema.statics.markThreadRead = async function(proposalId, responseId, userId) {
+  const readAt = new Date();
+
+  await this.updateMany(
+    {
+      proposalId,
+      responseId,
+      senderId: { $ne: userId },
+      'readBy.userId': { $ne: userId }
+    },
+    { $push: { readBy: { userId, readAt } } }
+  );
+
+  return readAt;
+};
+
+/**
+ * Static method to summarise unread messages per thread for a user
+ * @param {string} userId - User ID
+ * @param {Array<Object>} threads - Threads the user takes part in ({ proposalId, responseId })
+ * @returns {Promise<Array>} Unread counts with the latest unread message per thread
+ */
+proposalMessageSchema.statics.getUnreadSummary = async function(userId, threads) {
+  if (threads.length === 0) return [];
+
+  const userObjectId = new mongoose.Types.ObjectId(userId);
+
+  return this.aggregate([
+    {
+      $match: {
+        $or: threads.map(({ proposalId, responseId }) => ({ proposalId, responseId })),
+        senderId: { $ne: userObjectId },
+        'readBy.userId': { $ne: userObjectId }
+      }
+    },
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: { proposalId: '$proposalId', responseId: '$responseId' },
+        unreadCount: { $sum: 1 },
+        lastMessage: { $first: '$message' },
+        lastSenderName: { $first: '$senderName' },
+        lastMessageAt: { $first: '$createdAt' }
+      }
+    },
+    { $sort: { lastMessageAt: -1 } }
+  ]);
+};
+
+module.exports = mongoose.model('ProposalMessage', proposalMessageSchema);
@@ -5,6 +5,12 @@
 
 const mongoose = require('mongoose');
 
+// Optional sub-ratings averaged into the breakdown
+const SUB_RATINGS = ['features', 'easeOfUse', 'valueForMoney', 'customerSupport'];
+
+// Distinct open reports that hide a published review until a moderator decides
+const REPORTS_TO_HIDE = parseInt(process.env.REVIEW_REPORTS_TO_HIDE) || 3;
+
 // Review schema definition
 const reviewSchema = new mongoose.Schema({
   // Review content
@@ -85,6 +91,24 @@ const reviewSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
+  // Why the review is (or is not) verified; manual overrides win over automatic checks
+  verification: {
+    source: {
+      type: String,
+      enum: ['proposal', 'query', 'manual']
+    },
+    referenceId: mongoose.Schema.Types.ObjectId, // Proposal or Query that proves the purchase
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Verification reason cannot exceed 500 characters']
+    },
+    verifiedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    updatedAt: Date
+  },
   isAnonymous: {
     type: Boolean,
     default: false
@@ -106,6 +130,11 @@ const reviewSchema = new mongoose.Schema({
       type: Number,
       default: 0
     },
+    // Reports since the last moderation decision
+    open: {
+      type: Number,
+      default: 0
+    },
     reasons: [String],
     users: [{
       type: mongoose.Schema.Types.ObjectId,
@@ -128,6 +157,15 @@ const reviewSchema = new mongoose.Schema({
     default: Date.now
   },
   approvedAt: Date,
+  moderatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  moderationNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Moderation note cannot exceed 500 characters']
+  },
   lastUpdated: {
     type: Date,
     default: Date.now
@@ -164,6 +202,8 @@ reviewSchema.virtual('formattedDate').get(function() {
 
 // Indexes for better query performance
 reviewSchema.index({ solutionId: 1, status: 1 });
+reviewSchema.index({ solutionId: 1, status: 1, isVerified: 1 });
+reviewSchema.index({ solutionId: 1, customerId: 1 }, { unique: true });
 reviewSchema.index({ companyId: 1 });
 reviewSchema.index({ customerId: 1 });
 reviewSchema.index({ rating: -1 });
@@ -171,33 +211,66 @@ reviewSchema.index({ reviewedAt: -1 });
 reviewSchema.index({ status: 1 });
 
 /**
- * Approve review
+ * Approve review (settles any open reports)
  */
 reviewSchema.methods.approve = function() {
   this.status = 'approved';
   this.approvedAt = new Date();
+  this.reported.open = 0;
   return this.save();
 };
 
 /**
- * Reject review
+ * Reject review (settles any open reports)
  */
 reviewSchema.methods.reject = function() {
   this.status = 'rejected';
+  this.reported.open = 0;
   return this.save();
 };
 
 /**
- * Flag review for moderation
- * @param {string} reason - Reason for flagging
- * @param {string} userId - ID of user flagging the review
+ * Check whether a user has already reported this review
+ * @param {string} userId - User ID
+ * @returns {boolean}
  */
-reviewSchema.methods.flag = function(reason, userId) {
-  this.status = 'flagged';
-  this.reported.count += 1;
-  this.reported.reasons.push(reason);
-  this.reported.users.push(userId);
-  return this.save();
+reviewSchema.methods.isReportedBy = function(userId) {
+  return this.reported.users.some(id => id.toString() === userId.toString());
+};
+
+/**
+ * Report a published review for moderation
+ * The review stays visible and is queued for a moderator; it is hidden (flagged) only once
+ * REPORTS_TO_HIDE distinct users have reported it since the last moderation decision.
+ * @param {string} reason - Reason for reporting
+ * @param {string} userId - ID of user reporting the review
+ * @returns {Promise<Object|null>} { review, hidden }, or null if the user already reported it
+ */
+reviewSchema.methods.flag = async function(reason, userId) {
+  // One atomic update, so the same user cannot report twice even with concurrent requests
+  const review = await this.constructor.findOneAndUpdate(
+    { _id: this._id, status: { $in: ['approved', 'flagged'] }, 'reported.users': { $ne: userId } },
+    {
+      $inc: { 'reported.count': 1, 'reported.open': 1 },
+      $push: { 'reported.reasons': reason, 'reported.users': userId }
+    },
+    { new: true }
+  );
+
+  if (!review) {
+    return null;
+  }
+
+  let hidden = false;
+  if (review.status === 'approved' && review.reported.open >= REPORTS_TO_HIDE) {
+    const result = await this.constructor.updateOne({ _id: review._id, status: 'approved' }, { status: 'flagged' });
+    hidden = result.modifiedCount > 0;
+    if (hidden) {
+      review.status = 'flagged';
+    }
+  }
+
+  return { review, hidden };
 };
 
 /**
@@ -206,7 +279,7 @@ reviewSchema.methods.flag = function(reason, userId) {
  */
 reviewSchema.methods.markHelpful = function(userId) {
   // Check if user already marked as helpful
-  const alreadyMarked = this.helpful.users.includes(userId);
+  const alreadyMarked = this.helpful.users.some(id => id.toString() === userId.toString());
   
   if (!alreadyMarked) {
     this.helpful.count += 1;
@@ -221,7 +294,7 @@ reviewSchema.methods.markHelpful = function(userId) {
  * @param {string} userId - ID of user removing helpful mark
  */
 reviewSchema.methods.removeHelpful = function(userId) {
-  const userIndex = this.helpful.users.indexOf(userId);
+  const userIndex = this.helpful.users.findIndex(id => id.toString() === userId.toString());
   
   if (userIndex > -1) {
     this.helpful.count -= 1;
@@ -258,8 +331,16 @@ reviewSchema.methods.getPublicProfile = function() {
     reviewObject.customerName = 'Anonymous';
     reviewObject.customerCompany = '';
     reviewObject.customerRole = '';
+    reviewObject.customerId = null;
   }
   
+  // Who reported or found a review helpful is not public
+  reviewObject.helpful = { count: this.helpful.count };
+  delete reviewObject.reported;
+  delete reviewObject.moderatedBy;
+  reviewObject.verification = this.isVerified && this.verification?.source
+    ? { source: this.verification.source }
+    : undefined;
   delete reviewObject.__v;
   return reviewObject;
 };
@@ -290,7 +371,7 @@ reviewSchema.statics.calculateAverageRating = async function(solutionId) {
   const result = await this.aggregate([
     {
       $match: {
-        solutionId: mongoose.Types.ObjectId(solutionId),
+        solutionId: new mongoose.Types.ObjectId(solutionId),
         status: 'approved'
       }
     },
@@ -299,9 +380,12 @@ reviewSchema.statics.calculateAverageRating = async function(solutionId) {
         _id: null,
         averageRating: { $avg: '$rating.overall' },
         totalReviews: { $sum: 1 },
+        verifiedReviews: { $sum: { $cond: ['$isVerified', 1, 0] } },
         ratingDistribution: {
           $push: '$rating.overall'
-        }
+        },
+        // $avg skips reviews that left a sub-rating out
+        ...SUB_RATINGS.reduce((fields, key) => ({ ...fields, [key]: { $avg: `$rating.${key}` } }), {})
       }
     }
   ]);
@@ -310,7 +394,9 @@ reviewSchema.statics.calculateAverageRating = async function(solutionId) {
     return {
       averageRating: 0,
       totalReviews: 0,
-      ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
+      verifiedReviews: 0,
+      ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+      breakdown: SUB_RATINGS.reduce((breakdown, key) => ({ ...breakdown, [key]: null }), {})
     };
   }
   
@@ -324,8 +410,53 @@ reviewSchema.statics.calculateAverageRating = async function(solutionId) {
   return {
     averageRating: Math.round(data.averageRating * 10) / 10,
     totalReviews: data.totalReviews,
-    ratingDistribution: distribution
+    verifiedReviews: data.verifiedReviews,
+    ratingDistribution: distribution,
+    breakdown: SUB_RATINGS.reduce((breakdown, key) => ({
+      ...breakdown,
+      [key]: data[key] === null ? null : Math.round(data[key] * 10) / 10
+    }), {})
+  };
+};
+
+/**
+ * Static method to calculate the average rating across all of a company's solutions
+ * @param {string} companyId - Company ID
+ * @returns {Promise<Object>} { averageRating, totalReviews }
+ */
+reviewSchema.statics.calculateCompanyRating = async function(companyId) {
+  const [result] = await this.aggregate([
+    {
+      $match: {
+        companyId: new mongoose.Types.ObjectId(companyId),
+        status: 'approved'
+      }
+    },
+    {
+      $group: {
+        _id: null,
+        averageRating: { $avg: '$rating.overall' },
+        totalReviews: { $sum: 1 }
+      }
+    }
+  ]);
+
+  return {
+    averageRating: result ? Math.round(result.averageRating * 10) / 10 : 0,
+    totalReviews: result ? result.totalReviews : 0
   };
 };
 
+/**
+ * Static method to recompute the rating aggregates of a review's solution and company
+ * Call after any change that adds, removes or (un)approves a review.
+ * @param {Object} review - Review (or { solutionId, companyId })
+ */
+reviewSchema.statics.refreshRatings = async function(review) {
+  await Promise.all([
+    mongoose.model('Solution').updateRating(review.solutionId),
+    mongoose.model('Company').updateRating(review.companyId)
+  ]);
+};
+
 module.exports = mongoose.model('Review', reviewSchema);
@@ -0,0 +1,68 @@
+/**
+ * Session Model - One signed-in device
+ * Access tokens carry the session ID and are rejected once the session is revoked. The
+ * refresh token is stored hashed and rotated on every use; the previous hash is kept so a
+ * replayed (stolen) refresh token can be detected.
+ */
+
+const mongoose = require('mongoose');
+
+// Session schema definition
+const sessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  previousTokenHash: {
+    type: String,
+    select: false
+  },
+  rotatedAt: Date,
+
+  // Device details captured at sign-in
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  ip: String,
+
+  // Last successful two-factor check on this device (sensitive routes require a recent one)
+  twoFactorVerifiedAt: Date,
+
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'revoked', 'password_change', 'password_reset', 'token_reuse']
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+// Expired sessions are removed by MongoDB
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Whether the session can still be used
+ * @returns {boolean} True if not revoked or expired
+ */
+sessionSchema.methods.isActive = function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+module.exports = mongoose.model('Session', sessionSchema);
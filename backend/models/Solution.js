@@ -63,6 +63,11 @@ const solutionSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Vendor organization that owns the listing; its members can manage it
+  organizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
   
   // Solution features and capabilities
   features: [{
@@ -300,7 +305,18 @@ const solutionSchema = new mongoose.Schema({
   // SEO and marketing
   metaTitle: String,
   metaDescription: String,
-  keywords: [String]
+  keywords: [String],
+  
+  // Cached search embedding, refreshed when the indexed text or provider changes
+  embedding: {
+    type: {
+      vector: [Number],
+      provider: String,
+      contentHash: String,
+      updatedAt: Date
+    },
+    select: false
+  }
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -338,6 +354,7 @@ solutionSchema.index({ slug: 1 });
 solutionSchema.index({ category: 1, industry: 1 });
 solutionSchema.index({ companyId: 1 });
 solutionSchema.index({ vendorId: 1 });
+solutionSchema.index({ organizationId: 1 });
 solutionSchema.index({ status: 1, isActive: 1 });
 solutionSchema.index({ isFeatured: 1 });
 solutionSchema.index({ 'rating.average': -1 });
@@ -388,19 +405,18 @@ solutionSchema.statics.updateMetric = async function(solutionId, metric, increme
 };
 
 /**
- * Update solution rating
+ * Recalculate solution rating from its approved reviews
  * @param {string} solutionId - Solution ID
- * @param {number} newRating - New rating value
  */
-solutionSchema.statics.updateRating = async function(solutionId, newRating) {
-  const solution = await this.findById(solutionId);
-  if (!solution) return;
+solutionSchema.statics.updateRating = async function(solutionId) {
+  const stats = await mongoose.model('Review').calculateAverageRating(solutionId);
 
-  const totalRating = solution.rating.average * solution.rating.count + newRating;
-  solution.rating.count += 1;
-  solution.rating.average = totalRating / solution.rating.count;
-  
-  await solution.save();
+  // Skip timestamps so a review doesn't count as an edit of the solution
+  await this.updateOne(
+    { _id: solutionId },
+    { $set: { 'rating.average': stats.averageRating, 'rating.count': stats.totalReviews } },
+    { timestamps: false }
+  );
 };
 
 /**
@@ -5,6 +5,13 @@
 
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
+
+// Single-use email tokens: only a SHA-256 hash is stored, and issuing a new one replaces the old
+const EMAIL_TOKENS = {
+  passwordReset: { tokenField: 'resetPasswordToken', expireField: 'resetPasswordExpire', ttlMs: 60 * 60 * 1000 },
+  emailVerification: { tokenField: 'emailVerificationToken', expireField: 'emailVerificationExpire', ttlMs: 24 * 60 * 60 * 1000 }
+};
 
 // User schema definition with validation
 const userSchema = new mongoose.Schema({
@@ -39,7 +46,7 @@ const userSchema = new mongoose.Schema({
   // User role and permissions
   role: {
     type: String,
-    enum: ['customer', 'vendor', 'superadmin'],
+    enum: ['customer', 'vendor', 'editor', 'superadmin'],
     default: 'customer',
     required: true
   },
@@ -70,6 +77,12 @@ const userSchema = new mongoose.Schema({
     ref: 'Company',
     required: function() { return this.role === 'vendor'; }
   },
+
+  // Organization the user is currently working in (see Organization.members)
+  activeOrganizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
   
   // Customer-specific fields
   interests: [{
@@ -81,6 +94,15 @@ const userSchema = new mongoose.Schema({
     trim: true
   },
   
+  // Newsletter subscription (turned off by unsubscribe links)
+  newsletter: {
+    subscribed: {
+      type: Boolean,
+      default: true
+    },
+    unsubscribedAt: Date
+  },
+  
   // Profile completion flags (for solutions-hub-main compatibility)
   hasInstitutionProfile: {
     type: Boolean,
@@ -104,6 +126,59 @@ const userSchema = new mongoose.Schema({
     default: true
   },
   
+  // Password reset and email verification tokens (hashed)
+  resetPasswordToken: {
+    type: String,
+    select: false
+  },
+  resetPasswordExpire: Date,
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpire: Date,
+  
+  // TOTP two-factor authentication (secrets are encrypted, recovery codes hashed)
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    enabledAt: Date,
+    secret: {
+      type: String,
+      select: false
+    },
+    pendingSecret: {
+      type: String,
+      select: false
+    },
+    recoveryCodes: {
+      type: [String],
+      select: false
+    },
+    // Last accepted TOTP time step, so a code cannot be replayed
+    lastUsedStep: {
+      type: Number,
+      select: false
+    }
+  },
+  
+  // Identity provider account this user signs in with (organization single sign-on)
+  sso: {
+    organizationId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Organization'
+    },
+    protocol: {
+      type: String,
+      enum: ['oidc', 'saml']
+    },
+    // Stable user ID from the identity provider (OIDC sub or SAML NameID)
+    subject: String,
+    lastLoginAt: Date
+  },
+  
   // Social login fields
   googleId: String,
   linkedinId: String,
@@ -128,6 +203,9 @@ userSchema.virtual('fullName').get(function() {
 userSchema.index({ email: 1 });
 userSchema.index({ role: 1 });
 userSchema.index({ companyId: 1 });
+userSchema.index({ resetPasswordToken: 1 }, { sparse: true });
+userSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+userSchema.index({ 'sso.organizationId': 1, 'sso.subject': 1 }, { sparse: true });
 
 /**
  * Hash password before saving to database
@@ -163,6 +241,47 @@ userSchema.methods.updateLastLogin = function() {
   return this.save({ validateBeforeSave: false });
 };
 
+/**
+ * Hash an email token for storage and lookup
+ * @param {string} token - Raw token
+ * @returns {string} Hex SHA-256 digest
+ */
+userSchema.statics.hashEmailToken = function(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+};
+
+/**
+ * Issue a new single-use email token, replacing any earlier one (caller saves the user)
+ * @param {string} purpose - passwordReset or emailVerification
+ * @returns {string} Raw token to send to the user
+ */
+userSchema.methods.createEmailToken = function(purpose) {
+  const { tokenField, expireField, ttlMs } = EMAIL_TOKENS[purpose];
+  const token = crypto.randomBytes(32).toString('hex');
+
+  this[tokenField] = this.constructor.hashEmailToken(token);
+  this[expireField] = new Date(Date.now() + ttlMs);
+
+  return token;
+};
+
+/**
+ * Redeem an email token: find its unexpired user and clear the token in the same update,
+ * so each token works once
+ * @param {string} purpose - passwordReset or emailVerification
+ * @param {string} token - Raw token
+ * @returns {Promise<Object|null>} User, or null if the token is unknown, used or expired
+ */
+userSchema.statics.redeemEmailToken = function(purpose, token) {
+  const { tokenField, expireField } = EMAIL_TOKENS[purpose];
+
+  return this.findOneAndUpdate(
+    { [tokenField]: this.hashEmailToken(token), [expireField]: { $gt: new Date() } },
+    { $unset: { [tokenField]: 1, [expireField]: 1 } },
+    { new: true }
+  );
+};
+
 /**
  * Get user profile without sensitive information
  * @returns {Object} Clean user profile
@@ -171,6 +290,13 @@ userSchema.methods.getProfile = function() {
   const userObject = this.toObject();
   delete userObject.password;
   delete userObject.__v;
+  delete userObject.resetPasswordToken;
+  delete userObject.resetPasswordExpire;
+  delete userObject.emailVerificationToken;
+  delete userObject.emailVerificationExpire;
+  if (userObject.twoFactor) {
+    userObject.twoFactor = { enabled: userObject.twoFactor.enabled, enabledAt: userObject.twoFactor.enabledAt };
+  }
   return userObject;
 };
 
@@ -186,6 +312,9 @@ userSchema.methods.getPublicProfile = function() {
   delete userObject.resetPasswordExpire;
   delete userObject.emailVerificationToken;
   delete userObject.emailVerificationExpire;
+  if (userObject.twoFactor) {
+    userObject.twoFactor = { enabled: userObject.twoFactor.enabled, enabledAt: userObject.twoFactor.enabledAt };
+  }
   return userObject;
 };
 
@@ -0,0 +1,48 @@
+/**
+ * Attachment Routes
+ * Handles file uploads and signed downloads for proposals
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  uploadAttachments,
+  getDownloadUrl,
+  downloadAttachment,
+  deleteAttachment
+} = require('../controllers/attachmentController');
+
+const { authenticate } = require('../middleware/auth');
+const { validateObjectId } = require('../middleware/validation');
+const { uploadFiles } = require('../middleware/upload');
+const { handleFileUploadError } = require('../middleware/errorHandler');
+
+/**
+ * @route   POST /api/attachments
+ * @desc    Upload files to a proposal, response or chat thread
+ * @access  Private (Proposal participants)
+ */
+router.post('/', authenticate, uploadFiles, handleFileUploadError, uploadAttachments);
+
+/**
+ * @route   GET /api/attachments/:id/url
+ * @desc    Get a short-lived signed download URL
+ * @access  Private (Proposal participants or Superadmin)
+ */
+router.get('/:id/url', authenticate, validateObjectId('id'), getDownloadUrl);
+
+/**
+ * @route   GET /api/attachments/:id/download
+ * @desc    Download a locally stored file through a signed link
+ * @access  Public (valid signature required)
+ */
+router.get('/:id/download', validateObjectId('id'), downloadAttachment);
+
+/**
+ * @route   DELETE /api/attachments/:id
+ * @desc    Delete an uploaded file
+ * @access  Private (Uploader or Superadmin)
+ */
+router.delete('/:id', authenticate, validateObjectId('id'), deleteAttachment);
+
+module.exports = router;
@@ -8,24 +8,54 @@ const router = express.Router();
 const {
   register,
   login,
+  loginTwoFactor,
   getProfile,
   updateProfile,
   changePassword,
   forgotPassword,
   resetPassword,
+  refreshToken,
   logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
   deleteAccount,
   verifyEmail,
+  resendVerificationEmail,
   getAllUsers,
   getUserData,
   updateUserRole
 } = require('../controllers/authController');
+const {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  verifyTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} = require('../controllers/twoFactorController');
+const {
+  discoverSso,
+  startSso,
+  oidcCallback,
+  samlAcs,
+  samlMetadata
+} = require('../controllers/ssoController');
 
-const { authenticate, authorize } = require('../middleware/auth');
+const { authenticate, authorize, requireTwoFactor, optionalAuth } = require('../middleware/auth');
 const {
   validateUserRegistration,
   validateUserLogin,
-  validatePagination
+  validateForgotPassword,
+  validatePasswordReset,
+  validateEmailVerification,
+  validateTwoFactorEnable,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorDisable,
+  validateSsoDiscovery,
+  validatePagination,
+  validateObjectId
 } = require('../middleware/validation');
 
 /**
@@ -42,6 +72,48 @@ router.post('/register', validateUserRegistration, register);
  */
 router.post('/login', validateUserLogin, login);
 
+/**
+ * @route   POST /api/auth/login/2fa
+ * @desc    Second login step: authenticator or recovery code
+ * @access  Public (login challenge token)
+ */
+router.post('/login/2fa', validateTwoFactorLogin, loginTwoFactor);
+
+/**
+ * @route   GET /api/auth/sso/discover
+ * @desc    Find the organization that signs in an email domain with SSO
+ * @access  Public
+ */
+router.get('/sso/discover', validateSsoDiscovery, discoverSso);
+
+/**
+ * @route   GET /api/auth/sso/:organizationId/start
+ * @desc    Redirect to the organization's identity provider
+ * @access  Public
+ */
+router.get('/sso/:organizationId/start', startSso);
+
+/**
+ * @route   GET /api/auth/sso/:organizationId/oidc/callback
+ * @desc    OIDC redirect URI
+ * @access  Public (identity provider redirect)
+ */
+router.get('/sso/:organizationId/oidc/callback', oidcCallback);
+
+/**
+ * @route   POST /api/auth/sso/:organizationId/saml/acs
+ * @desc    SAML assertion consumer service
+ * @access  Public (identity provider POST)
+ */
+router.post('/sso/:organizationId/saml/acs', samlAcs);
+
+/**
+ * @route   GET /api/auth/sso/:organizationId/saml/metadata
+ * @desc    Service provider metadata for the SAML identity provider
+ * @access  Public
+ */
+router.get('/sso/:organizationId/saml/metadata', validateObjectId('organizationId'), samlMetadata);
+
 /**
  * @route   GET /api/auth/profile
  * @desc    Get current user profile
@@ -68,21 +140,49 @@ router.put('/change-password', authenticate, changePassword);
  * @desc    Send password reset email
  * @access  Public
  */
-router.post('/forgot-password', forgotPassword);
+router.post('/forgot-password', validateForgotPassword, forgotPassword);
 
 /**
  * @route   PUT /api/auth/reset-password
- * @desc    Reset password with token
+ * @desc    Reset password with an emailed token and revoke existing sessions
  * @access  Public
  */
-router.put('/reset-password', resetPassword);
+router.put('/reset-password', validatePasswordReset, resetPassword);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange the refresh token cookie for a new access token
+ * @access  Public (refresh cookie)
+ */
+router.post('/refresh', refreshToken);
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout user
+ * @desc    Revoke the current session and clear the refresh cookie
+ * @access  Public (access token or refresh cookie)
+ */
+router.post('/logout', optionalAuth, logout);
+
+/**
+ * @route   POST /api/auth/logout-all
+ * @desc    Sign out everywhere (revoke every session)
+ * @access  Private
+ */
+router.post('/logout-all', authenticate, logoutAll);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    Get the current user's active sessions
  * @access  Private
  */
-router.post('/logout', authenticate, logout);
+router.get('/sessions', authenticate, getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Sign out one session
+ * @access  Private
+ */
+router.delete('/sessions/:id', authenticate, validateObjectId('id'), revokeSession);
 
 /**
  * @route   DELETE /api/auth/account
@@ -92,17 +192,66 @@ router.post('/logout', authenticate, logout);
 router.delete('/account', authenticate, deleteAccount);
 
 /**
- * @route   GET /api/auth/verify-email/:token
- * @desc    Verify email address
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify email address with an emailed token
+ * @access  Public
+ */
+router.post('/verify-email', validateEmailVerification, verifyEmail);
+
+/**
+ * @route   POST /api/auth/verify-email/resend
+ * @desc    Send a new verification email
+ * @access  Private
+ */
+router.post('/verify-email/resend', authenticate, resendVerificationEmail);
+
+/**
+ * @route   GET /api/auth/2fa
+ * @desc    Get two-factor status for the current user and session
+ * @access  Private
+ */
+router.get('/2fa', authenticate, getTwoFactorStatus);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor enrolment (QR code and secret)
+ * @access  Private
+ */
+router.post('/2fa/setup', authenticate, setupTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm enrolment with a code and get recovery codes
+ * @access  Private
+ */
+router.post('/2fa/enable', authenticate, validateTwoFactorEnable, enableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/verify
+ * @desc    Confirm a code on the current session (step-up for sensitive routes)
+ * @access  Private
+ */
+router.post('/2fa/verify', authenticate, validateTwoFactorCode, verifyTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace recovery codes
+ * @access  Private
+ */
+router.post('/2fa/recovery-codes', authenticate, validateTwoFactorCode, regenerateRecoveryCodes);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Turn two-factor authentication off (not for superadmins)
  * @access  Private
  */
-router.get('/verify-email/:token', authenticate, verifyEmail);
+router.post('/2fa/disable', authenticate, validateTwoFactorDisable, disableTwoFactor);
 
 /**
  * @route   GET /api/auth/users
  * @desc    Get all users (Admin only)
- * @access  Private (Superadmin only)
+ * @access  Private (Superadmin only, recent two-factor check)
  */
-router.get('/users', authenticate, authorize('superadmin'), validatePagination, getAllUsers);
+router.get('/users', authenticate, authorize('superadmin'), requireTwoFactor(), validatePagination, getAllUsers);
 
 module.exports = router;
@@ -0,0 +1,119 @@
+/**
+ * Blog Routes
+ * Handles public blog reads and superadmin/editor authoring
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getBlogs,
+  getFeaturedBlogs,
+  getBlogBySlug,
+  getManagedBlogs,
+  getManagedBlog,
+  createBlog,
+  updateBlog,
+  deleteBlog,
+  publishBlog,
+  scheduleBlog,
+  unpublishBlog,
+  searchLinkableSolutions
+} = require('../controllers/blogController');
+
+const { authenticate, authorize, optionalAuth } = require('../middleware/auth');
+const {
+  validateBlogCreation,
+  validateBlogUpdate,
+  validateSchedule,
+  validatePagination,
+  validateObjectId
+} = require('../middleware/validation');
+
+// Roles allowed to write posts
+const AUTHORS = ['superadmin', 'editor'];
+
+/**
+ * @route   GET /api/blogs
+ * @desc    Get published blog posts with filtering and pagination
+ * @access  Public
+ */
+router.get('/', validatePagination, getBlogs);
+
+/**
+ * @route   GET /api/blogs/featured
+ * @desc    Get featured blog posts
+ * @access  Public
+ */
+router.get('/featured', getFeaturedBlogs);
+
+/**
+ * @route   GET /api/blogs/manage
+ * @desc    Get posts in every status for the authoring screen
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.get('/manage', authenticate, authorize(...AUTHORS), validatePagination, getManagedBlogs);
+
+/**
+ * @route   GET /api/blogs/manage/solutions
+ * @desc    Search approved solutions to link from a post
+ * @access  Private (Superadmin or Editor)
+ */
+router.get('/manage/solutions', authenticate, authorize(...AUTHORS), searchLinkableSolutions);
+
+/**
+ * @route   GET /api/blogs/manage/:id
+ * @desc    Get a post for editing
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.get('/manage/:id', authenticate, authorize(...AUTHORS), validateObjectId('id'), getManagedBlog);
+
+/**
+ * @route   POST /api/blogs
+ * @desc    Create a draft post
+ * @access  Private (Superadmin or Editor)
+ */
+router.post('/', authenticate, authorize(...AUTHORS), validateBlogCreation, createBlog);
+
+/**
+ * @route   PUT /api/blogs/:id
+ * @desc    Update a post
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.put('/:id', authenticate, authorize(...AUTHORS), validateObjectId('id'), validateBlogUpdate, updateBlog);
+
+/**
+ * @route   DELETE /api/blogs/:id
+ * @desc    Delete a post
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.delete('/:id', authenticate, authorize(...AUTHORS), validateObjectId('id'), deleteBlog);
+
+/**
+ * @route   POST /api/blogs/:id/publish
+ * @desc    Publish a post now
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.post('/:id/publish', authenticate, authorize(...AUTHORS), validateObjectId('id'), publishBlog);
+
+/**
+ * @route   POST /api/blogs/:id/schedule
+ * @desc    Schedule a post to go live later
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.post('/:id/schedule', authenticate, authorize(...AUTHORS), validateObjectId('id'), validateSchedule, scheduleBlog);
+
+/**
+ * @route   POST /api/blogs/:id/unpublish
+ * @desc    Move a post back to drafts
+ * @access  Private (Superadmin, or Editor for own posts)
+ */
+router.post('/:id/unpublish', authenticate, authorize(...AUTHORS), validateObjectId('id'), unpublishBlog);
+
+/**
+ * @route   GET /api/blogs/:slug
+ * @desc    Get a published post by slug (authors may preview unpublished ones)
+ * @access  Public
+ */
+router.get('/:slug', optionalAuth, getBlogBySlug);
+
+module.exports = router;
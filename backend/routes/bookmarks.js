@@ -0,0 +1,87 @@
+/**
+ * Bookmark Routes
+ * Handles named bookmark lists, their saved solutions and sharing with an organization
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getLists,
+  createList,
+  getList,
+  updateList,
+  deleteList,
+  addItem,
+  updateItem,
+  removeItem
+} = require('../controllers/bookmarkController');
+
+const { authenticate } = require('../middleware/auth');
+const {
+  validateBookmarkListCreation,
+  validateBookmarkListUpdate,
+  validateBookmarkItem,
+  validateBookmarkNote,
+  validateObjectId
+} = require('../middleware/validation');
+
+// All bookmark routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/bookmarks/lists
+ * @desc    Get the user's lists and lists shared with their organizations (?solutionId marks where it is saved)
+ * @access  Private
+ */
+router.get('/lists', getLists);
+
+/**
+ * @route   POST /api/bookmarks/lists
+ * @desc    Create a list
+ * @access  Private
+ */
+router.post('/lists', validateBookmarkListCreation, createList);
+
+/**
+ * @route   GET /api/bookmarks/lists/:id
+ * @desc    Get a list with its saved solutions and notes
+ * @access  Private (Creator or organization members when shared)
+ */
+router.get('/lists/:id', validateObjectId('id'), getList);
+
+/**
+ * @route   PUT /api/bookmarks/lists/:id
+ * @desc    Rename, describe or share a list
+ * @access  Private (Creator or organization owners and admins)
+ */
+router.put('/lists/:id', validateObjectId('id'), validateBookmarkListUpdate, updateList);
+
+/**
+ * @route   DELETE /api/bookmarks/lists/:id
+ * @desc    Delete a list and its saved solutions
+ * @access  Private (Creator or organization owners and admins)
+ */
+router.delete('/lists/:id', validateObjectId('id'), deleteList);
+
+/**
+ * @route   POST /api/bookmarks/lists/:id/items
+ * @desc    Save a solution to a list
+ * @access  Private (Creator or organization members when shared)
+ */
+router.post('/lists/:id/items', validateObjectId('id'), validateBookmarkItem, addItem);
+
+/**
+ * @route   PUT /api/bookmarks/lists/:id/items/:itemId
+ * @desc    Update the note on a saved solution
+ * @access  Private (Creator or organization members when shared)
+ */
+router.put('/lists/:id/items/:itemId', validateObjectId('id'), validateObjectId('itemId'), validateBookmarkNote, updateItem);
+
+/**
+ * @route   DELETE /api/bookmarks/lists/:id/items/:itemId
+ * @desc    Remove a solution from a list
+ * @access  Private (Creator or organization members when shared)
+ */
+router.delete('/lists/:id/items/:itemId', validateObjectId('id'), validateObjectId('itemId'), removeItem);
+
+module.exports = router;
@@ -0,0 +1,70 @@
+/**
+ * Category Routes
+ * Handles the public category/industry taxonomy and superadmin management
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getCategories,
+  getManagedCategories,
+  createCategory,
+  updateCategory,
+  mergeCategory,
+  deleteCategory
+} = require('../controllers/categoryController');
+
+const { authenticate, authorize } = require('../middleware/auth');
+const {
+  validateCategoryCreation,
+  validateCategoryUpdate,
+  validateCategoryMerge,
+  validateObjectId
+} = require('../middleware/validation');
+
+/**
+ * @route   GET /api/categories
+ * @desc    Get active categories and industries with live approved-solution counts
+ * @access  Public
+ */
+router.get('/', getCategories);
+
+// Everything below is taxonomy management
+router.use(authenticate, authorize('superadmin'));
+
+/**
+ * @route   GET /api/categories/manage
+ * @desc    Get every entry with synonyms, plus solution values that match no entry
+ * @access  Private (Superadmin only)
+ */
+router.get('/manage', getManagedCategories);
+
+/**
+ * @route   POST /api/categories
+ * @desc    Create a category or industry
+ * @access  Private (Superadmin only)
+ */
+router.post('/', validateCategoryCreation, createCategory);
+
+/**
+ * @route   PUT /api/categories/:id
+ * @desc    Rename, move or edit an entry; affected solutions are re-pointed
+ * @access  Private (Superadmin only)
+ */
+router.put('/:id', validateObjectId('id'), validateCategoryUpdate, updateCategory);
+
+/**
+ * @route   POST /api/categories/:id/merge
+ * @desc    Merge an entry into another of the same type
+ * @access  Private (Superadmin only)
+ */
+router.post('/:id/merge', validateObjectId('id'), validateCategoryMerge, mergeCategory);
+
+/**
+ * @route   DELETE /api/categories/:id
+ * @desc    Delete an unused entry
+ * @access  Private (Superadmin only)
+ */
+router.delete('/:id', validateObjectId('id'), deleteCategory);
+
+module.exports = router;
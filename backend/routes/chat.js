@@ -6,11 +6,16 @@
 const express = require('express');
 const {
   sendMessage,
+  streamMessage,
+  confirmAction,
+  cancelAction,
   getConversationHistory,
   clearConversationHistory,
+  getSessions,
   getAgentStats,
   healthCheck
 } = require('../controllers/chatController');
+const { authenticate, optionalAuth } = require('../middleware/auth');
 
 const router = express.Router();
 
@@ -31,6 +36,9 @@ const chatRateLimit = rateLimit({
 // Apply rate limiting to chat endpoints
 router.use(chatRateLimit);
 
+// Attach the user when signed in so conversations can be owned
+router.use(optionalAuth);
+
 /**
  * @route   POST /api/chat/message
  * @desc    Send message to AI agent
@@ -39,17 +47,49 @@ router.use(chatRateLimit);
  */
 router.post('/message', sendMessage);
 
+/**
+ * @route   POST /api/chat/message/stream
+ * @desc    Send message to AI agent and stream the reply (text/event-stream)
+ * @access  Public
+ * @body    { message: string, sessionId?: string }
+ */
+router.post('/message/stream', streamMessage);
+
+/**
+ * @route   POST /api/chat/actions/:actionId/confirm
+ * @desc    Confirm and run an action the agent proposed (draft proposal, bookmark)
+ * @access  Private (session owner)
+ * @body    { sessionId: string }
+ */
+router.post('/actions/:actionId/confirm', authenticate, confirmAction);
+
+/**
+ * @route   POST /api/chat/actions/:actionId/cancel
+ * @desc    Cancel an action the agent proposed
+ * @access  Private (session owner)
+ * @body    { sessionId: string }
+ */
+router.post('/actions/:actionId/cancel', authenticate, cancelAction);
+
+/**
+ * @route   GET /api/chat/sessions
+ * @desc    List previous conversations for the signed-in user or the given anonymous sessions
+ * @access  Public
+ * @query   { ids?: string } - Comma-separated anonymous session IDs
+ */
+router.get('/sessions', getSessions);
+
 /**
  * @route   GET /api/chat/history/:sessionId
  * @desc    Get conversation history for a session
- * @access  Public (can be made private if needed)
+ * @access  Public (owner only once a session belongs to a user)
  */
 router.get('/history/:sessionId', getConversationHistory);
 
 /**
  * @route   DELETE /api/chat/history/:sessionId
  * @desc    Clear conversation history for a session
- * @access  Public (can be made private if needed)
+ * @access  Public (owner only once a session belongs to a user)
  */
 router.delete('/history/:sessionId', clearConversationHistory);
 
@@ -85,7 +125,7 @@ router.post('/internet-search', async (req, res) => {
     }
     
     const aiAgentService = require('../services/aiAgentService');
-    const result = await aiAgentService.handleInternetSearchRequest(message, sessionId);
+    const result = await aiAgentService.handleInternetSearchRequest(message, sessionId, { user: req.user });
     
     if (result.success) {
       res.json({
@@ -98,7 +138,7 @@ router.post('/internet-search', async (req, res) => {
         }
       });
     } else {
-      res.status(500).json({
+      res.status(result.statusCode || 500).json({
         success: false,
         error: result.error
       });
@@ -0,0 +1,72 @@
+/**
+ * Inquiry Routes
+ * Handles the buyer's sent inquiries and the vendor lead inbox
+ * (inquiries are created through POST /api/solutions/:id/contact)
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getMyInquiries,
+  getInquiries,
+  getInquiry,
+  updateInquiryStatus,
+  addInquiryNote,
+  replyToInquiry
+} = require('../controllers/inquiryController');
+
+const { authenticate, authorize } = require('../middleware/auth');
+const {
+  validateInquiryList,
+  validateInquiryStatus,
+  validateInquiryNote,
+  validateInquiryReply,
+  validateObjectId
+} = require('../middleware/validation');
+
+// All inquiry routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/inquiries/mine
+ * @desc    Get inquiries the current user has sent, with vendor replies
+ * @access  Private
+ */
+router.get('/mine', validateInquiryList, getMyInquiries);
+
+/**
+ * @route   GET /api/inquiries
+ * @desc    Get the vendor's inquiry inbox with per-status counts
+ * @access  Private (Vendors and Superadmin)
+ */
+router.get('/', authorize('vendor', 'superadmin'), validateInquiryList, getInquiries);
+
+/**
+ * @route   GET /api/inquiries/:id
+ * @desc    Get an inquiry with notes and replies
+ * @access  Private (Owning vendor or Superadmin)
+ */
+router.get('/:id', authorize('vendor', 'superadmin'), validateObjectId('id'), getInquiry);
+
+/**
+ * @route   PUT /api/inquiries/:id/status
+ * @desc    Move an inquiry to new, contacted, qualified, won or lost
+ * @access  Private (Owning vendor or Superadmin)
+ */
+router.put('/:id/status', authorize('vendor', 'superadmin'), validateObjectId('id'), validateInquiryStatus, updateInquiryStatus);
+
+/**
+ * @route   POST /api/inquiries/:id/notes
+ * @desc    Add a private note
+ * @access  Private (Owning vendor or Superadmin)
+ */
+router.post('/:id/notes', authorize('vendor', 'superadmin'), validateObjectId('id'), validateInquiryNote, addInquiryNote);
+
+/**
+ * @route   POST /api/inquiries/:id/replies
+ * @desc    Reply to the buyer by email
+ * @access  Private (Owning vendor or Superadmin)
+ */
+router.post('/:id/replies', authorize('vendor', 'superadmin'), validateObjectId('id'), validateInquiryReply, replyToInquiry);
+
+module.exports = router;
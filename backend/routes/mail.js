@@ -0,0 +1,69 @@
+/**
+ * Mail Routes
+ * Handles the superadmin dev mailbox for transactional email
+ * Mounted only for the file or memory transport outside production (see isDevMailboxEnabled)
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getOutbox,
+  getOutboxEmail,
+  retryOutboxEmail,
+  getTemplates,
+  previewTemplate,
+  sendTestEmail
+} = require('../controllers/mailController');
+
+const { authenticate, authorize, requireTwoFactor } = require('../middleware/auth');
+const {
+  validateOutboxList,
+  validateTestEmail,
+  validateObjectId
+} = require('../middleware/validation');
+
+router.use(authenticate, authorize('superadmin'), requireTwoFactor());
+
+/**
+ * @route   GET /api/mail/outbox
+ * @desc    Get outbox emails with per-status counts and the active transport
+ * @access  Private (Superadmin only)
+ */
+router.get('/outbox', validateOutboxList, getOutbox);
+
+/**
+ * @route   GET /api/mail/outbox/:id
+ * @desc    Get one outbox email with its HTML and text (token links redacted)
+ * @access  Private (Superadmin only)
+ */
+router.get('/outbox/:id', validateObjectId('id'), getOutboxEmail);
+
+/**
+ * @route   POST /api/mail/outbox/:id/retry
+ * @desc    Queue a failed email again with fresh attempts
+ * @access  Private (Superadmin only)
+ */
+router.post('/outbox/:id/retry', validateObjectId('id'), retryOutboxEmail);
+
+/**
+ * @route   GET /api/mail/templates
+ * @desc    List transactional templates with their sample data
+ * @access  Private (Superadmin only)
+ */
+router.get('/templates', getTemplates);
+
+/**
+ * @route   GET /api/mail/templates/:name/preview
+ * @desc    Render a template with its sample data
+ * @access  Private (Superadmin only)
+ */
+router.get('/templates/:name/preview', previewTemplate);
+
+/**
+ * @route   POST /api/mail/test
+ * @desc    Queue a template with sample data (to the current user unless "to" is given)
+ * @access  Private (Superadmin only)
+ */
+router.post('/test', validateTestEmail, sendTestEmail);
+
+module.exports = router;
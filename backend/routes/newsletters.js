@@ -0,0 +1,152 @@
+/**
+ * Newsletter Routes
+ * Handles superadmin newsletter composing and sending, and public tracking/unsubscribe links
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getNewsletters,
+  getNewsletter,
+  createNewsletter,
+  updateNewsletter,
+  deleteNewsletter,
+  previewAudience,
+  previewNewsletter,
+  sendTestNewsletter,
+  scheduleNewsletter,
+  unscheduleNewsletter,
+  sendNewsletter,
+  searchFeaturableContent,
+  trackOpen,
+  trackClick,
+  unsubscribe,
+  resubscribe
+} = require('../controllers/newsletterController');
+
+const { authenticate, authorize } = require('../middleware/auth');
+const {
+  validateNewsletterCreation,
+  validateNewsletterUpdate,
+  validateNewsletterAudience,
+  validateSchedule,
+  validatePagination,
+  validateObjectId
+} = require('../middleware/validation');
+
+/**
+ * @route   GET /api/newsletters/track/:token/open.gif
+ * @desc    Record a newsletter open (tracking pixel)
+ * @access  Public
+ */
+router.get('/track/:token/open.gif', trackOpen);
+
+/**
+ * @route   GET /api/newsletters/track/:token/click
+ * @desc    Record a click and redirect to the signed destination URL
+ * @access  Public
+ */
+router.get('/track/:token/click', trackClick);
+
+/**
+ * @route   POST /api/newsletters/unsubscribe/:token
+ * @desc    Unsubscribe from newsletters (also the List-Unsubscribe one-click target)
+ * @access  Public
+ */
+router.post('/unsubscribe/:token', unsubscribe);
+
+/**
+ * @route   POST /api/newsletters/resubscribe/:token
+ * @desc    Subscribe again from the same link
+ * @access  Public
+ */
+router.post('/resubscribe/:token', resubscribe);
+
+// Everything below is for superadmins
+router.use(authenticate, authorize('superadmin'));
+
+/**
+ * @route   GET /api/newsletters
+ * @desc    Get newsletters in every status
+ * @access  Private (Superadmin only)
+ */
+router.get('/', validatePagination, getNewsletters);
+
+/**
+ * @route   POST /api/newsletters
+ * @desc    Create a draft newsletter
+ * @access  Private (Superadmin only)
+ */
+router.post('/', validateNewsletterCreation, createNewsletter);
+
+/**
+ * @route   POST /api/newsletters/audience
+ * @desc    Count the subscribers an audience segment would reach
+ * @access  Private (Superadmin only)
+ */
+router.post('/audience', validateNewsletterAudience, previewAudience);
+
+/**
+ * @route   GET /api/newsletters/content
+ * @desc    Search solutions and blog posts to feature
+ * @access  Private (Superadmin only)
+ */
+router.get('/content', searchFeaturableContent);
+
+/**
+ * @route   GET /api/newsletters/:id
+ * @desc    Get a newsletter with its delivery failures
+ * @access  Private (Superadmin only)
+ */
+router.get('/:id', validateObjectId('id'), getNewsletter);
+
+/**
+ * @route   PUT /api/newsletters/:id
+ * @desc    Update a newsletter that has not been sent
+ * @access  Private (Superadmin only)
+ */
+router.put('/:id', validateObjectId('id'), validateNewsletterUpdate, updateNewsletter);
+
+/**
+ * @route   DELETE /api/newsletters/:id
+ * @desc    Delete a newsletter that has not been sent
+ * @access  Private (Superadmin only)
+ */
+router.delete('/:id', validateObjectId('id'), deleteNewsletter);
+
+/**
+ * @route   GET /api/newsletters/:id/preview
+ * @desc    Render the newsletter email without tracking
+ * @access  Private (Superadmin only)
+ */
+router.get('/:id/preview', validateObjectId('id'), previewNewsletter);
+
+/**
+ * @route   POST /api/newsletters/:id/test
+ * @desc    Send a test copy to the current user
+ * @access  Private (Superadmin only)
+ */
+router.post('/:id/test', validateObjectId('id'), sendTestNewsletter);
+
+/**
+ * @route   POST /api/newsletters/:id/schedule
+ * @desc    Schedule the send
+ * @access  Private (Superadmin only)
+ */
+router.post('/:id/schedule', validateObjectId('id'), validateSchedule, scheduleNewsletter);
+
+/**
+ * @route   POST /api/newsletters/:id/unschedule
+ * @desc    Cancel a scheduled send
+ * @access  Private (Superadmin only)
+ */
+router.post('/:id/unschedule', validateObjectId('id'), unscheduleNewsletter);
+
+/**
+ * @route   POST /api/newsletters/:id/send
+ * @desc    Send now to the audience segment
+ * @access  Private (Superadmin only)
+ */
+router.post('/:id/send', validateObjectId('id'), sendNewsletter);
+
+module.exports = router;
@@ -0,0 +1,129 @@
+/**
+ * Organization Routes
+ * Handles organizations, members, invitations and the active organization
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  switchOrganization,
+  inviteMember,
+  revokeInvitation,
+  acceptInvitation,
+  updateMemberRole,
+  removeMember,
+  getSsoSettings,
+  updateSsoSettings,
+  deleteSsoSettings
+} = require('../controllers/organizationController');
+
+const { authenticate } = require('../middleware/auth');
+const {
+  validateOrganizationCreation,
+  validateOrganizationUpdate,
+  validateOrganizationInvitation,
+  validateInvitationAcceptance,
+  validateMemberRole,
+  validateSsoSettings,
+  validateObjectId
+} = require('../middleware/validation');
+
+// All organization routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/organizations
+ * @desc    Get the organizations the current user belongs to
+ * @access  Private
+ */
+router.get('/', getOrganizations);
+
+/**
+ * @route   POST /api/organizations
+ * @desc    Create an organization (the creator becomes its owner)
+ * @access  Private
+ */
+router.post('/', validateOrganizationCreation, createOrganization);
+
+/**
+ * @route   POST /api/organizations/invitations/accept
+ * @desc    Accept an invitation sent to the current user's email
+ * @access  Private
+ */
+router.post('/invitations/accept', validateInvitationAcceptance, acceptInvitation);
+
+/**
+ * @route   GET /api/organizations/:id
+ * @desc    Get an organization with members (and invitations for owners and admins)
+ * @access  Private (Members or Superadmin)
+ */
+router.get('/:id', validateObjectId('id'), getOrganization);
+
+/**
+ * @route   PUT /api/organizations/:id
+ * @desc    Rename an organization
+ * @access  Private (Owners and Admins)
+ */
+router.put('/:id', validateObjectId('id'), validateOrganizationUpdate, updateOrganization);
+
+/**
+ * @route   POST /api/organizations/:id/switch
+ * @desc    Make an organization the active one
+ * @access  Private (Members)
+ */
+router.post('/:id/switch', validateObjectId('id'), switchOrganization);
+
+/**
+ * @route   POST /api/organizations/:id/invitations
+ * @desc    Invite someone by email as admin or member
+ * @access  Private (Owners and Admins)
+ */
+router.post('/:id/invitations', validateObjectId('id'), validateOrganizationInvitation, inviteMember);
+
+/**
+ * @route   DELETE /api/organizations/:id/invitations/:invitationId
+ * @desc    Cancel a pending invitation
+ * @access  Private (Owners and Admins)
+ */
+router.delete('/:id/invitations/:invitationId', validateObjectId('id'), validateObjectId('invitationId'), revokeInvitation);
+
+/**
+ * @route   PUT /api/organizations/:id/members/:userId
+ * @desc    Change a member's role
+ * @access  Private (Owners and Admins)
+ */
+router.put('/:id/members/:userId', validateObjectId('id'), validateObjectId('userId'), validateMemberRole, updateMemberRole);
+
+/**
+ * @route   DELETE /api/organizations/:id/members/:userId
+ * @desc    Remove a member, or leave the organization
+ * @access  Private (Owners and Admins, or the member themselves)
+ */
+router.delete('/:id/members/:userId', validateObjectId('id'), validateObjectId('userId'), removeMember);
+
+/**
+ * @route   GET /api/organizations/:id/sso
+ * @desc    Get single sign-on settings and the URLs to register at the identity provider
+ * @access  Private (Owners and Admins)
+ */
+router.get('/:id/sso', validateObjectId('id'), getSsoSettings);
+
+/**
+ * @route   PUT /api/organizations/:id/sso
+ * @desc    Configure OIDC or SAML single sign-on
+ * @access  Private (Owners and Admins; email domains by Superadmin)
+ */
+router.put('/:id/sso', validateObjectId('id'), validateSsoSettings, updateSsoSettings);
+
+/**
+ * @route   DELETE /api/organizations/:id/sso
+ * @desc    Turn single sign-on off
+ * @access  Private (Owners and Admins)
+ */
+router.delete('/:id/sso', validateObjectId('id'), deleteSsoSettings);
+
+module.exports = router;
@@ -13,11 +13,25 @@ const {
   deleteProposal,
   addResponse,
   updateResponseStatus,
-  updateResponse
+  updateResponse,
+  withdrawResponse,
+  markResponseViewed,
+  hireVendor,
+  verifyHire,
+  fulfillProposal,
+  cancelProposal,
+  getPendingHires
 } = require('../controllers/proposalController');
+const {
+  getChatMessages,
+  sendChatMessage,
+  sendTypingIndicator,
+  markMessagesRead,
+  getUnreadMessages
+} = require('../controllers/proposalChatController');
 
-const { authenticate } = require('../middleware/auth');
-const { validateObjectId } = require('../middleware/validation');
+const { authenticate, authorize, requireTwoFactor } = require('../middleware/auth');
+const { validateObjectId, validateProposalResponse } = require('../middleware/validation');
 
 /**
  * @route   GET /api/proposals
@@ -26,6 +40,20 @@ const { validateObjectId } = require('../middleware/validation');
  */
 router.get('/', authenticate, getProposals);
 
+/**
+ * @route   GET /api/proposals/messages/unread
+ * @desc    Get unread chat message counts for the current user
+ * @access  Private
+ */
+router.get('/messages/unread', authenticate, getUnreadMessages);
+
+/**
+ * @route   GET /api/proposals/hires/pending
+ * @desc    Get hires awaiting verification
+ * @access  Private (Superadmin only)
+ */
+router.get('/hires/pending', authenticate, authorize('superadmin'), getPendingHires);
+
 /**
  * @route   GET /api/proposals/:id
  * @desc    Get single proposal by ID
@@ -54,16 +82,44 @@ router.put('/:id', authenticate, validateObjectId('id'), updateProposal);
  */
 router.delete('/:id', authenticate, validateObjectId('id'), deleteProposal);
 
+/**
+ * @route   POST /api/proposals/:id/hire
+ * @desc    Hire the vendor behind a response
+ * @access  Private (Owner or Superadmin)
+ */
+router.post('/:id/hire', authenticate, validateObjectId('id'), hireVendor);
+
+/**
+ * @route   POST /api/proposals/:id/hire/verify
+ * @desc    Verify or reject a pending hire
+ * @access  Private (Superadmin only, recent two-factor check)
+ */
+router.post('/:id/hire/verify', authenticate, authorize('superadmin'), requireTwoFactor(), validateObjectId('id'), verifyHire);
+
+/**
+ * @route   POST /api/proposals/:id/fulfill
+ * @desc    Mark a proposal with a verified hire as fulfilled
+ * @access  Private (Owner or Superadmin)
+ */
+router.post('/:id/fulfill', authenticate, validateObjectId('id'), fulfillProposal);
+
+/**
+ * @route   POST /api/proposals/:id/cancel
+ * @desc    Cancel a proposal
+ * @access  Private (Owner or Superadmin)
+ */
+router.post('/:id/cancel', authenticate, validateObjectId('id'), cancelProposal);
+
 /**
  * @route   POST /api/proposals/:id/responses
  * @desc    Add vendor response to proposal
  * @access  Private (Vendors only)
  */
-router.post('/:id/responses', authenticate, validateObjectId('id'), addResponse);
+router.post('/:id/responses', authenticate, validateObjectId('id'), validateProposalResponse, addResponse);
 
 /**
  * @route   PUT /api/proposals/:proposalId/responses/:responseId
- * @desc    Update response status (accept/reject)
+ * @desc    Update response status (shortlist/accept/reject)
  * @access  Private (Proposal Owner or Superadmin)
  */
 router.put('/:proposalId/responses/:responseId', 
@@ -82,7 +138,80 @@ router.put('/:proposalId/responses/:responseId/update',
   authenticate, 
   validateObjectId('proposalId'),
   validateObjectId('responseId'),
+  validateProposalResponse,
   updateResponse
 );
 
+/**
+ * @route   POST /api/proposals/:proposalId/responses/:responseId/withdraw
+ * @desc    Withdraw a vendor response
+ * @access  Private (Response Owner or Superadmin)
+ */
+router.post('/:proposalId/responses/:responseId/withdraw',
+  authenticate,
+  validateObjectId('proposalId'),
+  validateObjectId('responseId'),
+  withdrawResponse
+);
+
+/**
+ * @route   POST /api/proposals/:proposalId/responses/:responseId/view
+ * @desc    Mark a response as viewed by the proposal owner
+ * @access  Private (Proposal Owner)
+ */
+router.post('/:proposalId/responses/:responseId/view',
+  authenticate,
+  validateObjectId('proposalId'),
+  validateObjectId('responseId'),
+  markResponseViewed
+);
+
+/**
+ * @route   GET /api/proposals/:proposalId/responses/:responseId/messages
+ * @desc    Get chat messages for a response thread
+ * @access  Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+router.get('/:proposalId/responses/:responseId/messages',
+  authenticate,
+  validateObjectId('proposalId'),
+  validateObjectId('responseId'),
+  getChatMessages
+);
+
+/**
+ * @route   POST /api/proposals/:proposalId/responses/:responseId/messages
+ * @desc    Send a chat message to a response thread
+ * @access  Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+router.post('/:proposalId/responses/:responseId/messages',
+  authenticate,
+  validateObjectId('proposalId'),
+  validateObjectId('responseId'),
+  sendChatMessage
+);
+
+/**
+ * @route   POST /api/proposals/:proposalId/responses/:responseId/messages/typing
+ * @desc    Broadcast a typing indicator to the other party
+ * @access  Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+router.post('/:proposalId/responses/:responseId/messages/typing',
+  authenticate,
+  validateObjectId('proposalId'),
+  validateObjectId('responseId'),
+  sendTypingIndicator
+);
+
+/**
+ * @route   POST /api/proposals/:proposalId/responses/:responseId/messages/read
+ * @desc    Mark a response thread as read
+ * @access  Private (Proposal Owner, Responding Vendor or Superadmin)
+ */
+router.post('/:proposalId/responses/:responseId/messages/read',
+  authenticate,
+  validateObjectId('proposalId'),
+  validateObjectId('responseId'),
+  markMessagesRead
+);
+
 module.exports = router;
@@ -0,0 +1,32 @@
+/**
+ * Realtime Routes
+ * Server-Sent Events endpoint for live chat and notification delivery
+ */
+
+const express = require('express');
+const router = express.Router();
+const { issueStreamTicket, openStream, getStats } = require('../controllers/realtimeController');
+const { authenticate, authenticateStreamTicket, authorize } = require('../middleware/auth');
+
+/**
+ * @route   POST /api/realtime/ticket
+ * @desc    Get a short-lived, single-use ticket for opening the event stream
+ * @access  Private
+ */
+router.post('/ticket', authenticate, issueStreamTicket);
+
+/**
+ * @route   GET /api/realtime/stream?ticket=
+ * @desc    Open a Server-Sent Events stream for the current user
+ * @access  Private (stream ticket; EventSource cannot send an Authorization header)
+ */
+router.get('/stream', authenticateStreamTicket, openStream);
+
+/**
+ * @route   GET /api/realtime/stats
+ * @desc    Get realtime connection statistics
+ * @access  Private (Superadmin only)
+ */
+router.get('/stats', authenticate, authorize('superadmin'), getStats);
+
+module.exports = router;
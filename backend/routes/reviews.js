@@ -0,0 +1,94 @@
+/**
+ * Review Routes
+ * Handles solution reviews, helpful votes, reports and moderation
+ */
+
+const express = require('express');
+const router = express.Router();
+const {
+  getSolutionReviews,
+  createReview,
+  updateReview,
+  deleteReview,
+  toggleHelpful,
+  reportReview,
+  getModerationQueue,
+  moderateReview,
+  setReviewVerification
+} = require('../controllers/reviewController');
+
+const { authenticate, authorize, requireTwoFactor, optionalAuth } = require('../middleware/auth');
+const {
+  validateReviewCreation,
+  validateReviewUpdate,
+  validateReviewReport,
+  validateReviewModeration,
+  validateReviewVerification,
+  validatePagination,
+  validateObjectId
+} = require('../middleware/validation');
+
+/**
+ * @route   GET /api/reviews/solution/:solutionId
+ * @desc    Get approved reviews and rating breakdown for a solution
+ * @access  Public (includes the caller's own review when signed in)
+ */
+router.get('/solution/:solutionId', validateObjectId('solutionId'), validatePagination, optionalAuth, getSolutionReviews);
+
+/**
+ * @route   GET /api/reviews/admin/queue
+ * @desc    Get pending and reported reviews
+ * @access  Private (Superadmin only)
+ */
+router.get('/admin/queue', authenticate, authorize('superadmin'), validatePagination, getModerationQueue);
+
+/**
+ * @route   POST /api/reviews
+ * @desc    Review a solution
+ * @access  Private (Customers)
+ */
+router.post('/', authenticate, authorize('customer'), validateReviewCreation, createReview);
+
+/**
+ * @route   PUT /api/reviews/:id
+ * @desc    Update own review (returns it to moderation)
+ * @access  Private (Author)
+ */
+router.put('/:id', authenticate, validateObjectId('id'), validateReviewUpdate, updateReview);
+
+/**
+ * @route   DELETE /api/reviews/:id
+ * @desc    Delete a review
+ * @access  Private (Author or Superadmin)
+ */
+router.delete('/:id', authenticate, validateObjectId('id'), deleteReview);
+
+/**
+ * @route   POST /api/reviews/:id/helpful
+ * @desc    Mark or unmark a review as helpful
+ * @access  Private
+ */
+router.post('/:id/helpful', authenticate, validateObjectId('id'), toggleHelpful);
+
+/**
+ * @route   POST /api/reviews/:id/report
+ * @desc    Report a review for moderation
+ * @access  Private
+ */
+router.post('/:id/report', authenticate, validateObjectId('id'), validateReviewReport, reportReview);
+
+/**
+ * @route   PUT /api/reviews/:id/moderate
+ * @desc    Approve or reject a review
+ * @access  Private (Superadmin only, recent two-factor check)
+ */
+router.put('/:id/moderate', authenticate, authorize('superadmin'), requireTwoFactor(), validateObjectId('id'), validateReviewModeration, moderateReview);
+
+/**
+ * @route   PUT /api/reviews/:id/verification
+ * @desc    Override a review's verified-customer status (with a reason)
+ * @access  Private (Superadmin only)
+ */
+router.put('/:id/verification', authenticate, authorize('superadmin'), validateObjectId('id'), validateReviewVerification, setReviewVerification);
+
+module.exports = router;
@@ -17,17 +17,21 @@ const {
   getRecommendations,
   toggleLike,
   getSolutionStats,
+  compareSolutions,
   getDraftSolutions,
   approveSolution,
   getAdminStats
 } = require('../controllers/solutionController');
+const { createInquiry } = require('../controllers/inquiryController');
 
-const { authenticate, authorize, optionalAuth } = require('../middleware/auth');
+const { authenticate, authorize, requireTwoFactor, optionalAuth } = require('../middleware/auth');
 const {
   validateSolutionCreation,
   validatePagination,
   validateAdminDrafts,
   validateSearch,
+  validateSolutionComparison,
+  validateInquiryCreation,
   validateObjectId
 } = require('../middleware/validation');
 
@@ -59,6 +63,13 @@ router.get('/search', validateSearch, validatePagination, searchSolutions);
  */
 router.get('/recommendations', authenticate, getRecommendations);
 
+/**
+ * @route   GET /api/solutions/compare
+ * @desc    Compare 2 to 4 solutions side by side (?ids=a,b,c)
+ * @access  Public
+ */
+router.get('/compare', validateSolutionComparison, compareSolutions);
+
 /**
  * @route   GET /api/solutions/category/:category
  * @desc    Get solutions by category
@@ -110,41 +121,10 @@ router.post('/:id/like', authenticate, validateObjectId('id'), toggleLike);
 
 /**
  * @route   POST /api/solutions/:id/contact
- * @desc    Contact vendor about a solution
+ * @desc    Send the vendor an inquiry about a solution
  * @access  Private
  */
-router.post('/:id/contact', authenticate, validateObjectId('id'), async (req, res) => {
-  try {
-    const { name, email, company, message } = req.body;
-    const solutionId = req.params.id;
-    const userId = req.user.id;
-
-    // Basic validation
-    if (!name || !email || !message) {
-      return res.status(400).json({
-        success: false,
-        error: 'Name, email, and message are required'
-      });
-    }
-
-    // Here you would typically:
-    // 1. Save the contact request to database
-    // 2. Send email notification to vendor
-    // 3. Send confirmation email to user
-    
-    // For now, just return success
-    res.json({
-      success: true,
-      message: 'Contact request sent successfully'
-    });
-  } catch (error) {
-    console.error('Error processing contact request:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to send contact request'
-    });
-  }
-});
+router.post('/:id/contact', authenticate, validateObjectId('id'), validateInquiryCreation, createInquiry);
 
 /**
  * @route   GET /api/solutions/admin/drafts
@@ -163,8 +143,8 @@ router.get('/admin/stats', authenticate, authorize('superadmin'), getAdminStats)
 /**
  * @route   PUT /api/solutions/:id/approve
  * @desc    Approve or reject a solution (Superadmin only)
- * @access  Private (Superadmin only)
+ * @access  Private (Superadmin only, recent two-factor check)
  */
-router.put('/:id/approve', authenticate, authorize('superadmin'), validateObjectId('id'), approveSolution);
+router.put('/:id/approve', authenticate, authorize('superadmin'), requireTwoFactor(), validateObjectId('id'), approveSolution);
 
 module.exports = router;
@@ -1,6 +1,6 @@
 /**
  * Vendors Routes
- * Handles vendor profile endpoints
+ * Handles vendor profile and public vendor directory endpoints
  */
 
 const express = require('express');
@@ -8,9 +8,34 @@ const router = express.Router();
 const {
   createOrUpdateVendor,
   getVendor,
-  getVendorByUserId
+  getVendorByUserId,
+  getVendorDirectory,
+  getVendorDirectoryFilters,
+  getVendorProfile
 } = require('../controllers/vendorController');
 const { authenticate } = require('../middleware/auth');
+const { validateObjectId, validateVendorDirectory } = require('../middleware/validation');
+
+/**
+ * @route   GET /api/vendor/directory
+ * @desc    Search listed vendors by company type, size, deployment, compliance and pricing range
+ * @access  Public
+ */
+router.get('/directory', validateVendorDirectory, getVendorDirectory);
+
+/**
+ * @route   GET /api/vendor/directory/filters
+ * @desc    Get the vendor directory filter options
+ * @access  Public
+ */
+router.get('/directory/filters', getVendorDirectoryFilters);
+
+/**
+ * @route   GET /api/vendor/directory/:id
+ * @desc    Get a vendor's public profile and approved solutions
+ * @access  Public
+ */
+router.get('/directory/:id', validateObjectId('id'), getVendorProfile);
 
 /**
  * @route   POST /api/vendor
@@ -0,0 +1,85 @@
+/**
+ * Script to move existing bookmarks into bookmark lists
+ * Bookmarks saved before lists existed go to their user's default "Saved" list, the old
+ * one-bookmark-per-user index is replaced by one-per-list, and every solution's bookmark
+ * counter is recalculated from the saved entries. Safe to re-run.
+ */
+
+const mongoose = require('mongoose');
+const Bookmark = require('../models/Bookmark');
+const BookmarkList = require('../models/BookmarkList');
+const Solution = require('../models/Solution');
+
+// Connect to MongoDB
+const connectDB = async () => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/ai-solutions-hub');
+    console.log('✅ Connected to MongoDB');
+  } catch (error) {
+    console.error('❌ MongoDB connection error:', error);
+    process.exit(1);
+  }
+};
+
+// Set Solution.bookmarks to the number of people who saved each solution
+const syncBookmarkCounts = async () => {
+  const counts = await Bookmark.aggregate([
+    { $group: { _id: { solutionId: '$solutionId', userId: '$userId' } } },
+    { $group: { _id: '$_id.solutionId', count: { $sum: 1 } } }
+  ]);
+
+  const saved = counts.map(entry => entry._id);
+  await Solution.updateMany({ _id: { $nin: saved }, bookmarks: { $ne: 0 } }, { $set: { bookmarks: 0 } }, { timestamps: false });
+
+  for (const entry of counts) {
+    await Solution.updateOne({ _id: entry._id }, { $set: { bookmarks: entry.count } }, { timestamps: false });
+  }
+
+  console.log(`✅ Synced bookmark counts for ${counts.length} saved solutions`);
+};
+
+// Assign list-less bookmarks to default lists and swap the unique index
+const migrateBookmarks = async () => {
+  try {
+    const collection = Bookmark.collection;
+
+    const indexes = await collection.indexes().catch(() => []);
+    if (indexes.some(index => index.name === 'userId_1_solutionId_1')) {
+      await collection.dropIndex('userId_1_solutionId_1');
+      console.log('  - Dropped the one-bookmark-per-user index');
+    }
+
+    const userIds = await collection.distinct('userId', { listId: { $exists: false } });
+    for (const userId of userIds) {
+      const list = await BookmarkList.getDefaultList(userId);
+      const { modifiedCount } = await collection.updateMany(
+        { userId, listId: { $exists: false } },
+        { $set: { listId: list._id } }
+      );
+      console.log(`  - User ${userId}: ${modifiedCount} bookmarks → "${list.name}"`);
+    }
+
+    await Bookmark.syncIndexes();
+    console.log(`✅ Moved bookmarks of ${userIds.length} users into lists`);
+
+    await syncBookmarkCounts();
+  } catch (error) {
+    console.error('❌ Error migrating bookmarks:', error);
+  }
+};
+
+// Main execution
+const main = async () => {
+  await connectDB();
+  await migrateBookmarks();
+  await mongoose.connection.close();
+  console.log('✅ Bookmark migration finished');
+  process.exit(0);
+};
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { migrateBookmarks, syncBookmarkCounts };
@@ -0,0 +1,125 @@
+/**
+ * Script to move existing accounts into organizations
+ * Vendors are grouped by company into one vendor organization (the earliest account becomes
+ * the owner), customers with an institution profile get a buyer organization, and their
+ * proposals, solutions, profiles and inquiries are stamped with the organization.
+ * Users who already belong to an organization are skipped, so the script can be re-run.
+ */
+
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Company = require('../models/Company');
+const Organization = require('../models/Organization');
+const Proposal = require('../models/Proposal');
+const Solution = require('../models/Solution');
+const Vendor = require('../models/Vendor');
+const HealthcareInstitution = require('../models/HealthcareInstitution');
+const Inquiry = require('../models/Inquiry');
+
+// Connect to MongoDB
+const connectDB = async () => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/ai-solutions-hub');
+    console.log('✅ Connected to MongoDB');
+  } catch (error) {
+    console.error('❌ MongoDB connection error:', error);
+    process.exit(1);
+  }
+};
+
+// Stamp a user's records with their organization (records that already have one are left alone)
+const assignRecords = async (userIds, organizationId) => {
+  const unassigned = { organizationId: null };
+
+  await Promise.all([
+    Proposal.updateMany({ ...unassigned, createdBy: { $in: userIds } }, { organizationId }),
+    Solution.updateMany({ ...unassigned, vendorId: { $in: userIds } }, { organizationId }),
+    Vendor.updateMany({ ...unassigned, userId: { $in: userIds } }, { organizationId }),
+    HealthcareInstitution.updateMany({ ...unassigned, userId: { $in: userIds } }, { organizationId }),
+    Inquiry.updateMany({ ...unassigned, vendorId: { $in: userIds } }, { organizationId }),
+    User.updateMany({ _id: { $in: userIds }, activeOrganizationId: null }, { activeOrganizationId: organizationId })
+  ]);
+};
+
+// Create an organization for users who are not in one yet
+const createOrganization = async (users, attributes) => {
+  const members = [];
+  for (const user of users) {
+    if (!(await Organization.exists({ 'members.userId': user._id }))) {
+      members.push(user);
+    }
+  }
+  if (members.length === 0) return null;
+
+  const organization = await Organization.create({
+    ...attributes,
+    members: members.map((user, index) => ({
+      userId: user._id,
+      role: index === 0 ? 'owner' : 'member',
+      joinedAt: user.createdAt
+    })),
+    createdBy: members[0]._id
+  });
+
+  await assignRecords(members.map(user => user._id), organization._id);
+  return organization;
+};
+
+const migrateOrganizations = async () => {
+  try {
+    let created = 0;
+
+    // Vendor organizations, one per company
+    const companyIds = await User.distinct('companyId', { role: 'vendor', companyId: { $ne: null } });
+    for (const companyId of companyIds) {
+      const company = await Company.findById(companyId).select('name');
+      const users = await User.find({ role: 'vendor', companyId }).sort({ createdAt: 1 });
+      const organization = await createOrganization(users, {
+        name: company?.name || `${users[0].firstName} ${users[0].lastName}`,
+        type: 'vendor',
+        companyId
+      });
+
+      if (organization) {
+        created++;
+        console.log(`  - ${organization.name}: vendor organization with ${organization.members.length} member(s)`);
+      }
+    }
+
+    // Buyer organizations for customers with an institution profile
+    const institutions = await HealthcareInstitution.find({ organizationId: null }).populate('userId');
+    for (const institution of institutions) {
+      if (!institution.userId || institution.userId.role !== 'customer') continue;
+
+      const organization = await createOrganization([institution.userId], {
+        name: institution.institutionName,
+        type: 'buyer'
+      });
+
+      if (organization) {
+        created++;
+        console.log(`  - ${organization.name}: buyer organization`);
+      }
+    }
+
+    console.log(`✅ Created ${created} organizations`);
+  } catch (error) {
+    console.error('❌ Error migrating organizations:', error);
+  }
+};
+
+// Main execution
+const main = async () => {
+  await connectDB();
+  await migrateOrganizations();
+  await mongoose.connection.close();
+  console.log('✅ Organization migration finished');
+  process.exit(0);
+};
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { migrateOrganizations };
@@ -0,0 +1,97 @@
+/**
+ * Script to migrate proposals to the hire/fulfil lifecycle
+ * in_progress → hired (verified), completed → fulfilled,
+ * and 'viewed' responses → pending with a viewedAt timestamp
+ */
+
+const mongoose = require('mongoose');
+const Proposal = require('../models/Proposal');
+
+// Connect to MongoDB
+const connectDB = async () => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/ai-solutions-hub');
+    console.log('✅ Connected to MongoDB');
+  } catch (error) {
+    console.error('❌ MongoDB connection error:', error);
+    process.exit(1);
+  }
+};
+
+const STATUS_MAP = {
+  in_progress: 'hired',
+  completed: 'fulfilled'
+};
+
+// Rewrite legacy statuses with the raw collection, bypassing schema enums
+const migrateProposalStatuses = async () => {
+  try {
+    const collection = Proposal.collection;
+    const now = new Date();
+    let migrated = 0;
+
+    const cursor = collection.find({
+      $or: [
+        { status: { $in: Object.keys(STATUS_MAP) } },
+        { 'responses.status': 'viewed' }
+      ]
+    });
+
+    for await (const proposal of cursor) {
+      const update = {};
+      const acceptedResponse = (proposal.responses || []).find(r => r.status === 'accepted');
+
+      if (STATUS_MAP[proposal.status]) {
+        update.status = STATUS_MAP[proposal.status];
+        update.statusHistory = [
+          ...(proposal.statusHistory || []),
+          { from: proposal.status, to: update.status, changedAt: now, note: 'Migrated from legacy status' }
+        ];
+
+        // Legacy hires predate verification, so treat them as verified
+        if (acceptedResponse && !proposal.hire) {
+          update.hire = {
+            responseId: acceptedResponse._id,
+            hiredBy: proposal.createdBy,
+            hiredAt: proposal.updatedAt || now,
+            verificationStatus: 'verified',
+            verifiedAt: now,
+            verificationNote: 'Migrated from legacy status'
+          };
+        }
+      }
+
+      if ((proposal.responses || []).some(r => r.status === 'viewed')) {
+        update.responses = proposal.responses.map(response => (
+          response.status === 'viewed'
+            ? { ...response, status: 'pending', viewedAt: response.viewedAt || response.updatedAt || now }
+            : response
+        ));
+      }
+
+      await collection.updateOne({ _id: proposal._id }, { $set: update });
+      migrated++;
+      console.log(`  - ${proposal.title}: ${proposal.status} → ${update.status || proposal.status}`);
+    }
+
+    console.log(`✅ Migrated ${migrated} proposals`);
+  } catch (error) {
+    console.error('❌ Error migrating proposal statuses:', error);
+  }
+};
+
+// Main execution
+const main = async () => {
+  await connectDB();
+  await migrateProposalStatuses();
+  await mongoose.connection.close();
+  console.log('✅ Proposal status migration finished');
+  process.exit(0);
+};
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { migrateProposalStatuses };
@@ -0,0 +1,286 @@
+/**
+ * Local mock identity provider for trying out organization single sign-on
+ * Serves an OpenID Connect provider (discovery, authorize, token, userinfo, JWKS) and a SAML
+ * IdP (metadata and HTTP-Redirect sign-on that posts a signed assertion back). Every sign-in
+ * shows a form where you pick the email and name to sign in as. The signing key and
+ * certificate are generated with openssl on first run and kept in the system temp directory,
+ * so configured organizations keep working across restarts.
+ *
+ * Usage: npm run mock-idp (the API needs SSO_ALLOW_PRIVATE_IDP=true to reach it)
+ *   OIDC discovery URL:  http://localhost:4000  (client ID mock-client, secret mock-secret)
+ *   SAML metadata URL:   http://localhost:4000/saml/metadata
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+const { execFileSync } = require('child_process');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const { SignedXml } = require('xml-crypto');
+const { DOMParser } = require('@xmldom/xmldom');
+
+const PORT = parseInt(process.env.MOCK_IDP_PORT) || 4000;
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'mock-client';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || 'mock-secret';
+const DEFAULT_EMAIL = process.env.MOCK_IDP_EMAIL || 'jane.doe@example-hospital.org';
+
+const KEY_DIR = path.join(os.tmpdir(), 'astrovault-mock-idp');
+const CODE_TTL_MS = 60 * 1000;
+
+// Escape text for HTML and XML output
+const escape = (value) => String(value ?? '').replace(/[&<>"']/g, (char) => (
+  { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[char]
+));
+
+// Load the signing key and self-signed certificate, generating them on first run
+const loadKeys = () => {
+  const keyFile = path.join(KEY_DIR, 'key.pem');
+  const certFile = path.join(KEY_DIR, 'cert.pem');
+
+  if (!fs.existsSync(keyFile) || !fs.existsSync(certFile)) {
+    fs.mkdirSync(KEY_DIR, { recursive: true });
+    execFileSync('openssl', [
+      'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '365',
+      '-subj', '/CN=AstroVault Mock IdP', '-keyout', keyFile, '-out', certFile
+    ], { stdio: 'ignore' });
+  }
+
+  return { privateKey: fs.readFileSync(keyFile, 'utf8'), certificate: fs.readFileSync(certFile, 'utf8') };
+};
+
+// Base64 body of a PEM certificate
+const certificateBody = (pem) => pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+
+// Sign-in form shown by both protocols
+const renderSignInForm = (action, hidden, title) => `<!DOCTYPE html>
+<html><head><title>Mock IdP</title>
+<style>body{font-family:sans-serif;background:#1f2937;color:#f9fafb;display:flex;justify-content:center;padding-top:80px}
+form{background:#111827;padding:32px;border-radius:12px;width:360px}label{display:block;margin:12px 0 4px;font-size:14px}
+input{width:100%;padding:8px;border-radius:6px;border:1px solid #4b5563;background:#1f2937;color:#fff;box-sizing:border-box}
+button{margin-top:20px;width:100%;padding:10px;border:0;border-radius:6px;background:#2563eb;color:#fff;font-size:15px}</style></head>
+<body><form method="post" action="${escape(action)}">
+<h2>${escape(title)}</h2>
+${Object.entries(hidden).map(([name, value]) => `<input type="hidden" name="${escape(name)}" value="${escape(value)}">`).join('\n')}
+<label>Email</label><input name="email" value="${escape(DEFAULT_EMAIL)}">
+<label>First name</label><input name="firstName" value="Jane">
+<label>Last name</label><input name="lastName" value="Doe">
+<button type="submit">Sign in</button>
+</form></body></html>`;
+
+// Stable subject per email, like a real directory's user ID
+const subjectFor = (email) => crypto.createHash('sha256').update(String(email).toLowerCase()).digest('hex').slice(0, 24);
+
+/**
+ * Build the mock IdP app
+ * @returns {Object} Express app
+ */
+const createMockIdp = () => {
+  const { privateKey, certificate } = loadKeys();
+  const publicJwk = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+  const keyId = crypto.createHash('sha256').update(publicJwk.n).digest('base64url').slice(0, 16);
+  const jwk = { ...publicJwk, kid: keyId, use: 'sig', alg: 'RS256' };
+
+  // Issued authorization codes and access tokens (in memory)
+  const codes = new Map();
+  const accessTokens = new Map();
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  // ---- OpenID Connect ----
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: ['sub', 'email', 'email_verified', 'name', 'given_name', 'family_name']
+    });
+  });
+
+  app.get('/jwks', (req, res) => res.json({ keys: [jwk] }));
+
+  app.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+    if (client_id !== CLIENT_ID || !redirect_uri) {
+      return res.status(400).send('Unknown client_id or missing redirect_uri');
+    }
+    res.send(renderSignInForm('/authorize', {
+      redirect_uri, state, nonce, code_challenge, code_challenge_method
+    }, 'Sign in to Mock IdP (OIDC)'));
+  });
+
+  app.post('/authorize', (req, res) => {
+    const { redirect_uri, state, nonce, code_challenge, email, firstName, lastName } = req.body;
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, { redirect_uri, nonce, code_challenge, email, firstName, lastName, expiresAt: Date.now() + CODE_TTL_MS });
+
+    const url = new URL(redirect_uri);
+    url.searchParams.set('code', code);
+    if (state) url.searchParams.set('state', state);
+    console.log(`🔑 OIDC sign-in as ${email}`);
+    res.redirect(url.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    const [basicId, basicSecret] = Buffer.from((req.get('authorization') || '').replace(/^Basic /, ''), 'base64')
+      .toString().split(':').map(decodeURIComponent);
+    const clientId = req.body.client_id || basicId;
+    const clientSecret = req.body.client_secret || basicSecret;
+
+    if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    const grant = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    if (!grant || grant.expiresAt < Date.now() || grant.redirect_uri !== req.body.redirect_uri) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    if (grant.code_challenge) {
+      const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+      if (challenge !== grant.code_challenge) {
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      }
+    }
+
+    const claims = {
+      email: grant.email,
+      email_verified: true,
+      given_name: grant.firstName,
+      family_name: grant.lastName,
+      name: `${grant.firstName} ${grant.lastName}`.trim()
+    };
+    const idToken = jwt.sign({ ...claims, nonce: grant.nonce }, privateKey, {
+      algorithm: 'RS256',
+      keyid: keyId,
+      issuer: ISSUER,
+      audience: CLIENT_ID,
+      subject: subjectFor(grant.email),
+      expiresIn: '5m'
+    });
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    accessTokens.set(accessToken, { sub: subjectFor(grant.email), ...claims });
+
+    res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  });
+
+  app.get('/userinfo', (req, res) => {
+    const info = accessTokens.get((req.get('authorization') || '').replace(/^Bearer /, ''));
+    if (!info) return res.status(401).json({ error: 'invalid_token' });
+    res.json(info);
+  });
+
+  // ---- SAML ----
+
+  app.get('/saml/metadata', (req, res) => {
+    res.type('application/xml').send(`<?xml version="1.0"?>
+<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${ISSUER}/saml">
+  <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol" WantAuthnRequestsSigned="false">
+    <md:KeyDescriptor use="signing">
+      <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+        <ds:X509Data><ds:X509Certificate>${certificateBody(certificate)}</ds:X509Certificate></ds:X509Data>
+      </ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:NameIDFormat>urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress</md:NameIDFormat>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="${ISSUER}/saml/sso"/>
+  </md:IDPSSODescriptor>
+</md:EntityDescriptor>`);
+  });
+
+  app.get('/saml/sso', (req, res) => {
+    let request;
+    try {
+      const xml = zlib.inflateRawSync(Buffer.from(String(req.query.SAMLRequest || ''), 'base64')).toString();
+      request = new DOMParser().parseFromString(xml, 'text/xml').documentElement;
+    } catch (error) {
+      return res.status(400).send('Could not read SAMLRequest');
+    }
+
+    const issuer = request.getElementsByTagNameNS('urn:oasis:names:tc:SAML:2.0:assertion', 'Issuer')[0];
+    res.send(renderSignInForm('/saml/sso', {
+      requestId: request.getAttribute('ID'),
+      acsUrl: request.getAttribute('AssertionConsumerServiceURL'),
+      audience: issuer ? issuer.textContent : '',
+      relayState: req.query.RelayState || ''
+    }, 'Sign in to Mock IdP (SAML)'));
+  });
+
+  app.post('/saml/sso', (req, res) => {
+    const { requestId, acsUrl, audience, relayState, email, firstName, lastName } = req.body;
+    const now = new Date();
+    const later = new Date(now.getTime() + 5 * 60 * 1000).toISOString();
+    const id = (prefix) => `${prefix}${crypto.randomBytes(16).toString('hex')}`;
+    const attribute = (name, value) => `<saml:Attribute Name="${name}"><saml:AttributeValue>${escape(value)}</saml:AttributeValue></saml:Attribute>`;
+
+    const assertion = `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="${id('_a')}" Version="2.0" IssueInstant="${now.toISOString()}">` +
+      `<saml:Issuer>${ISSUER}/saml</saml:Issuer>` +
+      `<saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${escape(email)}</saml:NameID>` +
+      `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData InResponseTo="${escape(requestId)}" NotOnOrAfter="${later}" Recipient="${escape(acsUrl)}"/></saml:SubjectConfirmation></saml:Subject>` +
+      `<saml:Conditions NotBefore="${now.toISOString()}" NotOnOrAfter="${later}"><saml:AudienceRestriction><saml:Audience>${escape(audience)}</saml:Audience></saml:AudienceRestriction></saml:Conditions>` +
+      `<saml:AuthnStatement AuthnInstant="${now.toISOString()}" SessionIndex="${id('_s')}"><saml:AuthnContext><saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef></saml:AuthnContext></saml:AuthnStatement>` +
+      `<saml:AttributeStatement>${attribute('email', email)}${attribute('firstName', firstName)}${attribute('lastName', lastName)}</saml:AttributeStatement>` +
+      '</saml:Assertion>';
+
+    const signer = new SignedXml({
+      privateKey,
+      publicCert: certificate,
+      signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+      canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#'
+    });
+    signer.addReference({
+      xpath: "//*[local-name(.)='Assertion']",
+      transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+      digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256'
+    });
+    signer.computeSignature(assertion, {
+      location: { reference: "//*[local-name(.)='Issuer']", action: 'after' }
+    });
+
+    const response = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="${id('_r')}" Version="2.0" IssueInstant="${now.toISOString()}" Destination="${escape(acsUrl)}" InResponseTo="${escape(requestId)}">` +
+      `<saml:Issuer>${ISSUER}/saml</saml:Issuer>` +
+      '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>' +
+      signer.getSignedXml() +
+      '</samlp:Response>';
+
+    console.log(`🔑 SAML sign-in as ${email}`);
+    res.send(`<!DOCTYPE html><html><body onload="document.forms[0].submit()">
+<form method="post" action="${escape(acsUrl)}">
+<input type="hidden" name="SAMLResponse" value="${Buffer.from(response).toString('base64')}">
+<input type="hidden" name="RelayState" value="${escape(relayState)}">
+<noscript><button type="submit">Continue</button></noscript>
+</form></body></html>`);
+  });
+
+  return app;
+};
+
+// Main execution
+const main = () => {
+  const app = createMockIdp();
+  app.listen(PORT, () => {
+    console.log(`✅ Mock IdP running at ${ISSUER}`);
+    console.log(`   OIDC discovery URL: ${ISSUER}  (client ID ${CLIENT_ID}, secret ${CLIENT_SECRET})`);
+    console.log(`   SAML metadata URL:  ${ISSUER}/saml/metadata`);
+  });
+};
+
+// Run the script
+if (require.main === module) {
+  main();
+}
+
+module.exports = { createMockIdp };
@@ -0,0 +1,159 @@
+/**
+ * Seed Categories
+ * Populates the category/industry taxonomy with the marketplace defaults.
+ * Existing entries are left untouched, so it is safe to re-run after superadmin edits.
+ */
+
+const mongoose = require('mongoose');
+require('dotenv').config();
+
+const Category = require('../models/Category');
+
+const categories = [
+  {
+    name: 'Chatbots',
+    icon: '🤖',
+    description: 'AI-powered conversational agents for customer service, sales, and support',
+    synonyms: ['chatbot', 'ai chatbots', 'conversational ai', 'virtual assistant'],
+    children: []
+  },
+  {
+    name: 'Predictive Analytics',
+    icon: '📊',
+    description: 'Machine learning models for forecasting, risk assessment, and data insights',
+    synonyms: ['forecasting', 'predictive modeling'],
+    children: []
+  },
+  {
+    name: 'Computer Vision',
+    icon: '👁️',
+    description: 'Image recognition, object detection, and visual AI applications',
+    synonyms: ['cv', 'vision ai'],
+    children: [
+      { name: 'Image Recognition', icon: '🖼️', description: 'Visual search, image classification, and visual content analysis', synonyms: ['image classification'] },
+      { name: 'Medical Imaging', icon: '🩻', description: 'AI analysis of radiology and pathology images', synonyms: ['radiology ai'] }
+    ]
+  },
+  {
+    name: 'Recommendation Systems',
+    icon: '🎯',
+    description: 'Personalized content and product recommendations using AI',
+    synonyms: ['recommendation engine', 'recommender systems', 'personalization'],
+    children: []
+  },
+  {
+    name: 'Natural Language Processing',
+    icon: '📝',
+    description: 'Text analysis, sentiment analysis, and language understanding',
+    synonyms: ['nlp', 'text analytics'],
+    children: [
+      { name: 'Sentiment Analysis', icon: '😊', description: 'Emotion detection, opinion mining, and social media monitoring', synonyms: ['opinion mining'] },
+      { name: 'Document Processing', icon: '📄', description: 'Extraction and classification of documents and forms', synonyms: ['idp', 'ocr', 'intelligent document processing'] }
+    ]
+  },
+  {
+    name: 'Machine Learning',
+    icon: '🧠',
+    description: 'ML platforms, model training, and automated ML solutions',
+    synonyms: ['ml', 'automl', 'mlops'],
+    children: [
+      { name: 'Deep Learning', icon: '🕸️', description: 'Neural network platforms and models', synonyms: ['neural networks'] }
+    ]
+  },
+  {
+    name: 'Robotic Process Automation',
+    icon: '⚙️',
+    description: 'Automated workflows and business process optimization',
+    synonyms: ['rpa', 'workflow automation', 'process automation'],
+    children: []
+  },
+  {
+    name: 'Voice Recognition',
+    icon: '🎤',
+    description: 'Speech-to-text, voice assistants, and audio processing',
+    synonyms: ['speech recognition', 'speech-to-text', 'asr'],
+    children: []
+  }
+];
+
+const industries = [
+  {
+    name: 'Healthcare',
+    icon: '🏥',
+    synonyms: ['health care', 'medical'],
+    children: [
+      { name: 'Hospitals & Health Systems', synonyms: ['hospitals', 'health systems'] },
+      { name: 'Health Insurance', synonyms: ['payers'] },
+      { name: 'Life Sciences', synonyms: ['pharma', 'pharmaceuticals', 'biotech'] }
+    ]
+  },
+  { name: 'Finance', icon: '💳', synonyms: ['financial services', 'fintech', 'banking'] },
+  { name: 'E-commerce', icon: '🛒', synonyms: ['ecommerce', 'e commerce', 'online retail'] },
+  { name: 'Retail', icon: '🏬', synonyms: [] },
+  { name: 'Technology', icon: '💻', synonyms: ['tech', 'software', 'saas'] },
+  { name: 'Manufacturing', icon: '🏭', synonyms: ['industrial'] },
+  { name: 'Education', icon: '🎓', synonyms: ['edtech', 'higher education'] },
+  { name: 'Real Estate', icon: '🏠', synonyms: ['property', 'proptech'] },
+  { name: 'Travel', icon: '✈️', synonyms: ['hospitality', 'tourism'] },
+  { name: 'Media', icon: '📺', synonyms: ['entertainment', 'publishing'] },
+  { name: 'Automotive', icon: '🚗', synonyms: ['mobility'] },
+  { name: 'Government', icon: '🏛️', synonyms: ['public sector'] },
+  { name: 'Legal', icon: '⚖️', synonyms: ['legaltech'] }
+];
+
+/**
+ * Insert an entry unless one with the same slug exists
+ * @param {string} type - 'category' or 'industry'
+ * @param {Object} entry - Entry data
+ * @param {number} order - Display order
+ * @param {Object} [parent] - Parent entry
+ * @returns {Promise<Object>} { category, created }
+ */
+async function insertIfMissing(type, { children, ...entry }, order, parent = null) {
+  const slug = Category.slugify(entry.name);
+  const existing = await Category.findOne({ type, slug });
+  if (existing) return { category: existing, created: false };
+
+  const category = await Category.create({ ...entry, type, order, parentId: parent ? parent._id : null });
+  return { category, created: true };
+}
+
+async function seedCategories() {
+  try {
+    const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/ai_solutions_marketplace';
+    console.log('🔗 Connecting to MongoDB...');
+    await mongoose.connect(mongoURI);
+    console.log('✅ Connected to MongoDB');
+
+    let created = 0;
+    let skipped = 0;
+
+    for (const [type, entries] of [['category', categories], ['industry', industries]]) {
+      for (const [index, entry] of entries.entries()) {
+        const { category, created: isNew } = await insertIfMissing(type, entry, index);
+        isNew ? created++ : skipped++;
+
+        for (const [childIndex, child] of (entry.children || []).entries()) {
+          const result = await insertIfMissing(type, child, childIndex, category);
+          result.created ? created++ : skipped++;
+        }
+      }
+    }
+
+    console.log(`\n📊 Summary:`);
+    console.log(`   - Created: ${created}`);
+    console.log(`   - Already present: ${skipped}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error seeding categories:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  seedCategories();
+}
+
+module.exports = { seedCategories, categories, industries };
@@ -24,6 +24,19 @@ const userRoutes = require('./routes/user');
 const automationRoutes = require('./routes/automation');
 const proposalRoutes = require('./routes/proposals');
 const dataFieldsRoutes = require('./routes/dataFields');
+const realtimeRoutes = require('./routes/realtime');
+const attachmentRoutes = require('./routes/attachments');
+const reviewRoutes = require('./routes/reviews');
+const blogRoutes = require('./routes/blogs');
+const newsletterRoutes = require('./routes/newsletters');
+const categoryRoutes = require('./routes/categories');
+const inquiryRoutes = require('./routes/inquiries');
+const mailRoutes = require('./routes/mail');
+const organizationRoutes = require('./routes/organizations');
+const bookmarkRoutes = require('./routes/bookmarks');
+const newsletterService = require('./services/newsletterService');
+const emailService = require('./services/emailService');
+const { getMailTransport, isDevMailboxEnabled } = require('./services/mail');
 
 // Initialize Express app
 const app = express();
@@ -51,6 +64,18 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
 }));
 
+// Live updates: the event stream, the polling fallbacks and typing/read indicators.
+// An open tab sends these every few seconds, so they get their own, larger budget.
+const REALTIME_REQUESTS = [
+  { method: 'ALL', path: /^\/realtime\// },
+  { method: 'GET', path: /^\/proposals\/messages\/unread$/ },
+  { method: 'GET', path: /^\/proposals\/[^/]+\/responses\/[^/]+\/messages$/ },
+  { method: 'POST', path: /^\/proposals\/[^/]+\/responses\/[^/]+\/messages\/(typing|read)$/ }
+];
+
+const isRealtimeRequest = (req) => REALTIME_REQUESTS.some(({ method, path }) =>
+  (method === 'ALL' || method === req.method) && path.test(req.path));
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000, // 15 minutes
@@ -60,10 +85,23 @@ const limiter = rateLimit({
     message: 'Too many requests from this IP, please try again later.'
   },
   standardHeaders: true,
-  legacyHeaders: false
+  legacyHeaders: false,
+  skip: isRealtimeRequest
 });
 
-app.use('/api/', limiter);
+const realtimeLimiter = rateLimit({
+  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000,
+  max: parseInt(process.env.RATE_LIMIT_REALTIME_MAX_REQUESTS) || 1000,
+  message: {
+    success: false,
+    message: 'Too many requests from this IP, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => !isRealtimeRequest(req)
+});
+
+app.use('/api/', limiter, realtimeLimiter);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -102,6 +140,19 @@ app.use('/api/user', userRoutes);
 app.use('/api/automation', automationRoutes);
 app.use('/api/proposals', proposalRoutes);
 app.use('/api/data-fields', dataFieldsRoutes);
+app.use('/api/realtime', realtimeRoutes);
+app.use('/api/attachments', attachmentRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/blogs', blogRoutes);
+app.use('/api/newsletters', newsletterRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/inquiries', inquiryRoutes);
+// Dev mailbox only with a local transport outside production (it shows the queued emails)
+if (isDevMailboxEnabled()) {
+  app.use('/api/mail', mailRoutes);
+}
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/bookmarks', bookmarkRoutes);
 
 // API documentation endpoint
 app.get('/api', (req, res) => {
@@ -112,21 +163,139 @@ app.get('/api', (req, res) => {
     endpoints: {
       auth: {
         'POST /api/auth/register': 'Register new user',
-        'POST /api/auth/login': 'Login user',
+        'POST /api/auth/login': 'Login user (returns a challenge token when two-factor is on)',
+        'POST /api/auth/login/2fa': 'Finish login with an authenticator or recovery code',
         'GET /api/auth/profile': 'Get user profile',
         'PUT /api/auth/profile': 'Update user profile',
         'PUT /api/auth/change-password': 'Change password',
-        'POST /api/auth/logout': 'Logout user'
+        'POST /api/auth/forgot-password': 'Email a single-use password reset link',
+        'PUT /api/auth/reset-password': 'Reset password with the emailed token (revokes all sessions)',
+        'POST /api/auth/verify-email': 'Verify email address with the emailed token',
+        'POST /api/auth/verify-email/resend': 'Send a new verification email',
+        'POST /api/auth/refresh': 'Get a new access token with the refresh cookie (rotates it)',
+        'POST /api/auth/logout': 'Revoke the current session',
+        'POST /api/auth/logout-all': 'Sign out everywhere',
+        'GET /api/auth/sessions': 'List your active sessions',
+        'DELETE /api/auth/sessions/:id': 'Sign out one session',
+        'GET /api/auth/2fa': 'Two-factor status',
+        'POST /api/auth/2fa/setup': 'Start two-factor enrolment (QR code)',
+        'POST /api/auth/2fa/enable': 'Confirm enrolment and get recovery codes',
+        'POST /api/auth/2fa/verify': 'Confirm a code for sensitive admin actions',
+        'POST /api/auth/2fa/recovery-codes': 'Replace recovery codes',
+        'POST /api/auth/2fa/disable': 'Turn two-factor off (not for superadmins)',
+        'GET /api/auth/sso/discover': 'Find the organization that signs in an email domain with SSO',
+        'GET /api/auth/sso/:organizationId/start': 'Redirect to the organization\'s identity provider',
+        'GET /api/auth/sso/:organizationId/oidc/callback': 'OIDC redirect URI',
+        'POST /api/auth/sso/:organizationId/saml/acs': 'SAML assertion consumer service',
+        'GET /api/auth/sso/:organizationId/saml/metadata': 'SAML service provider metadata'
       },
       solutions: {
         'GET /api/solutions': 'Get all solutions',
         'GET /api/solutions/featured': 'Get featured solutions',
         'GET /api/solutions/search': 'Search solutions',
         'GET /api/solutions/recommendations': 'Get recommendations',
+        'GET /api/solutions/compare': 'Compare 2 to 4 solutions side by side',
         'GET /api/solutions/:id': 'Get solution by ID',
         'POST /api/solutions': 'Create solution (vendors only)',
         'PUT /api/solutions/:id': 'Update solution',
-        'DELETE /api/solutions/:id': 'Delete solution'
+        'DELETE /api/solutions/:id': 'Delete solution',
+        'POST /api/solutions/:id/contact': 'Send the vendor an inquiry about a solution'
+      },
+      inquiries: {
+        'GET /api/inquiries/mine': 'Get inquiries you have sent, with vendor replies',
+        'GET /api/inquiries': 'Get your inquiry inbox with per-status counts (vendors only)',
+        'GET /api/inquiries/:id': 'Get an inquiry with notes and replies (owning vendor)',
+        'PUT /api/inquiries/:id/status': 'Move an inquiry to new, contacted, qualified, won or lost (owning vendor)',
+        'POST /api/inquiries/:id/notes': 'Add a private note (owning vendor)',
+        'POST /api/inquiries/:id/replies': 'Reply to the buyer by email (owning vendor)'
+      },
+      organizations: {
+        'GET /api/organizations': 'Get your organizations and the active one',
+        'POST /api/organizations': 'Create an organization (you become its owner)',
+        'GET /api/organizations/:id': 'Get an organization with members and pending invitations',
+        'PUT /api/organizations/:id': 'Rename an organization (owners and admins)',
+        'POST /api/organizations/:id/switch': 'Make an organization the active one',
+        'POST /api/organizations/:id/invitations': 'Invite someone by email (owners and admins)',
+        'DELETE /api/organizations/:id/invitations/:invitationId': 'Cancel an invitation (owners and admins)',
+        'POST /api/organizations/invitations/accept': 'Accept an invitation sent to your email',
+        'PUT /api/organizations/:id/members/:userId': 'Change a member role (owners and admins)',
+        'DELETE /api/organizations/:id/members/:userId': 'Remove a member, or leave',
+        'GET /api/organizations/:id/sso': 'Get single sign-on settings (owners and admins)',
+        'PUT /api/organizations/:id/sso': 'Configure OIDC or SAML single sign-on (owners and admins)',
+        'DELETE /api/organizations/:id/sso': 'Turn single sign-on off (owners and admins)'
+      },
+      bookmarks: {
+        'GET /api/bookmarks/lists': 'Get your bookmark lists and lists shared with your organizations',
+        'POST /api/bookmarks/lists': 'Create a bookmark list',
+        'GET /api/bookmarks/lists/:id': 'Get a list with its saved solutions and notes',
+        'PUT /api/bookmarks/lists/:id': 'Rename or share a list (creator, owners and admins)',
+        'DELETE /api/bookmarks/lists/:id': 'Delete a list (creator, owners and admins)',
+        'POST /api/bookmarks/lists/:id/items': 'Save a solution to a list',
+        'PUT /api/bookmarks/lists/:id/items/:itemId': 'Update the note on a saved solution',
+        'DELETE /api/bookmarks/lists/:id/items/:itemId': 'Remove a solution from a list'
+      },
+      mail: {
+        'GET /api/mail/outbox': 'Get transactional emails with per-status counts (superadmin only)',
+        'GET /api/mail/outbox/:id': 'Get an outbox email with its HTML and text, token links redacted (superadmin only)',
+        'POST /api/mail/outbox/:id/retry': 'Queue a failed email again (superadmin only)',
+        'GET /api/mail/templates': 'List transactional templates (superadmin only)',
+        'GET /api/mail/templates/:name/preview': 'Render a template with sample data (superadmin only)',
+        'POST /api/mail/test': 'Queue a test email from a template (superadmin only)'
+      },
+      categories: {
+        'GET /api/categories': 'Get categories and industries with live solution counts',
+        'GET /api/categories/manage': 'Get every entry with synonyms and unmapped solution values (superadmin only)',
+        'POST /api/categories': 'Create a category or industry (superadmin only)',
+        'PUT /api/categories/:id': 'Rename, move or edit an entry and re-point its solutions (superadmin only)',
+        'POST /api/categories/:id/merge': 'Merge an entry into another (superadmin only)',
+        'DELETE /api/categories/:id': 'Delete an unused entry (superadmin only)'
+      },
+      vendors: {
+        'GET /api/vendor/directory': 'Search the public vendor directory',
+        'GET /api/vendor/directory/filters': 'Get vendor directory filter options',
+        'GET /api/vendor/directory/:id': 'Get a vendor profile with approved solutions',
+        'POST /api/vendor': 'Submit the vendor questionnaire (vendors only)',
+        'GET /api/vendor': 'Get your vendor questionnaire'
+      },
+      reviews: {
+        'GET /api/reviews/solution/:solutionId': 'Get approved reviews and rating breakdown for a solution',
+        'POST /api/reviews': 'Review a solution (customers only)',
+        'PUT /api/reviews/:id': 'Update own review',
+        'DELETE /api/reviews/:id': 'Delete review',
+        'POST /api/reviews/:id/helpful': 'Mark or unmark a review as helpful',
+        'POST /api/reviews/:id/report': 'Report a review',
+        'GET /api/reviews/admin/queue': 'Get reviews awaiting moderation (superadmin only)',
+        'PUT /api/reviews/:id/moderate': 'Approve or reject a review (superadmin only)',
+        'PUT /api/reviews/:id/verification': 'Override verified-customer status with a reason (superadmin only)'
+      },
+      blogs: {
+        'GET /api/blogs': 'Get published blog posts',
+        'GET /api/blogs/featured': 'Get featured blog posts',
+        'GET /api/blogs/:slug': 'Get a blog post with related solutions',
+        'GET /api/blogs/manage': 'Get posts in every status (superadmin/editor)',
+        'POST /api/blogs': 'Create a draft post (superadmin/editor)',
+        'PUT /api/blogs/:id': 'Update a post (superadmin/editor)',
+        'DELETE /api/blogs/:id': 'Delete a post (superadmin/editor)',
+        'POST /api/blogs/:id/publish': 'Publish a post now (superadmin/editor)',
+        'POST /api/blogs/:id/schedule': 'Schedule a post (superadmin/editor)',
+        'POST /api/blogs/:id/unpublish': 'Move a post back to drafts (superadmin/editor)'
+      },
+      newsletters: {
+        'GET /api/newsletters': 'Get newsletters (superadmin only)',
+        'POST /api/newsletters': 'Create a draft newsletter (superadmin only)',
+        'POST /api/newsletters/audience': 'Count subscribers in an audience segment (superadmin only)',
+        'GET /api/newsletters/:id': 'Get a newsletter with delivery failures (superadmin only)',
+        'PUT /api/newsletters/:id': 'Update an unsent newsletter (superadmin only)',
+        'DELETE /api/newsletters/:id': 'Delete an unsent newsletter (superadmin only)',
+        'GET /api/newsletters/:id/preview': 'Render the newsletter email (superadmin only)',
+        'POST /api/newsletters/:id/test': 'Send a test copy to yourself (superadmin only)',
+        'POST /api/newsletters/:id/schedule': 'Schedule the send (superadmin only)',
+        'POST /api/newsletters/:id/unschedule': 'Cancel a scheduled send (superadmin only)',
+        'POST /api/newsletters/:id/send': 'Send now (superadmin only)',
+        'GET /api/newsletters/track/:token/open.gif': 'Open tracking pixel',
+        'GET /api/newsletters/track/:token/click': 'Click tracking redirect',
+        'POST /api/newsletters/unsubscribe/:token': 'Unsubscribe from newsletters',
+        'POST /api/newsletters/resubscribe/:token': 'Subscribe to newsletters again'
       },
       queries: {
         'GET /api/queries': 'Get queries',
@@ -139,10 +308,19 @@ app.get('/api', (req, res) => {
       },
       chat: {
         'POST /api/chat/message': 'Send message to AI agent',
+        'POST /api/chat/message/stream': 'Send message to AI agent and stream the reply (SSE)',
+        'POST /api/chat/actions/:actionId/confirm': 'Confirm an action proposed by the AI agent',
+        'POST /api/chat/actions/:actionId/cancel': 'Cancel an action proposed by the AI agent',
+        'GET /api/chat/sessions': 'List previous conversations',
         'GET /api/chat/history/:sessionId': 'Get conversation history',
         'DELETE /api/chat/history/:sessionId': 'Clear conversation history',
         'GET /api/chat/stats': 'Get AI agent statistics',
         'GET /api/chat/health': 'AI agent health check'
+      },
+      realtime: {
+        'POST /api/realtime/ticket': 'Get a single-use ticket for opening the event stream',
+        'GET /api/realtime/stream': 'Server-Sent Events stream for chat messages, typing indicators and read receipts (?ticket=)',
+        'GET /api/realtime/stats': 'Get realtime connection statistics (superadmin only)'
       }
     }
   });
@@ -178,12 +356,21 @@ process.on('SIGTERM', () => {
   });
 });
 
+// Fail at startup on a misconfigured MAIL_TRANSPORT instead of at the first send
+getMailTransport();
+
 // Start server
 const PORT = process.env.PORT || 5000;
 const server = app.listen(PORT, () => {
   console.log(`🚀 Server running in ${process.env.NODE_ENV || 'development'} mode on port ${PORT}`);
   console.log(`📱 API Documentation: http://localhost:${PORT}/api`);
   console.log(`❤️  Health Check: http://localhost:${PORT}/health`);
+
+  // Send scheduled newsletters when they are due
+  newsletterService.startScheduler();
+
+  // Deliver queued transactional email and retry failures
+  emailService.startWorker();
 });
 
 module.exports = app;
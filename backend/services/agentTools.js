@@ -0,0 +1,366 @@
+/**
+ * Agent Tools - Marketplace operations the AI agent can call
+ * Read tools run as soon as the model asks for them; write tools only run
+ * after the user confirms the proposed action in the chat.
+ */
+
+const mongoose = require('mongoose');
+const Solution = require('../models/Solution');
+const Proposal = require('../models/Proposal');
+const Bookmark = require('../models/Bookmark');
+const solutionSearchService = require('./solutionSearchService');
+const organizationService = require('./organizationService');
+
+// Same options the Post Need wizard offers
+const INDUSTRIES = ['Healthcare', 'E-commerce', 'Finance', 'Technology', 'Manufacturing', 'Education', 'Retail', 'Other'];
+const DATA_TYPES = ['Images', 'Text', 'Audio', 'Video', 'Structured Data', 'Mixed', 'Other'];
+const COMPLIANCE_OPTIONS = ['HIPAA', 'GDPR', 'SOC 2', 'PCI DSS', 'ISO 27001', 'None Required', 'Other'];
+const TIMELINES = ['immediate', '1-month', '3-months', '6-months', '1-year', 'flexible'];
+const DEPLOYMENT_TYPES = ['cloud', 'on-premise', 'hybrid', 'saas', 'api'];
+
+/**
+ * Error whose message is safe to show the user and the model
+ */
+class ToolError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the solution card the chat UI renders
+ * @param {Object} solution - Lean solution with companyId populated
+ */
+const toSolutionCard = (solution) => ({
+  id: solution._id,
+  title: solution.title,
+  company: solution.companyId?.name || 'Unknown Company',
+  website: solution.companyId?.website || '',
+  industry: solution.industry,
+  category: solution.category,
+  shortDescription: solution.shortDescription || solution.description,
+  pricing: solution.pricing?.model || 'Contact for pricing',
+  price: solution.pricing?.price?.amount || null,
+  logo: solution.companyId?.logo || null,
+  isPremium: solution.isPremium || false
+});
+
+/**
+ * Load a visible solution by ID or exact title
+ * @param {string} reference - Solution ID or title
+ */
+const findSolution = async (reference) => {
+  const filter = mongoose.Types.ObjectId.isValid(reference)
+    ? { _id: reference }
+    : { title: new RegExp(`^${escapeRegex(String(reference).trim())}$`, 'i') };
+
+  const solution = await Solution.findOne({ ...filter, status: 'approved', isActive: true })
+    .populate('companyId', 'name website industry logo')
+    .lean();
+
+  if (!solution) {
+    throw new ToolError(`Solution "${reference}" was not found`);
+  }
+  return solution;
+};
+
+const tools = {
+  search_solutions: {
+    description: 'Search approved AI solutions in the marketplace. Use the filters when the user mentions a category, industry, budget or deployment requirement.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What the user is looking for' },
+        category: { type: 'string', description: 'Solution category, e.g. Chatbots or Computer Vision' },
+        industry: { type: 'string', description: 'Industry, e.g. Healthcare' },
+        maxPrice: { type: 'number', description: 'Maximum listed price in USD; free solutions always match' },
+        deployment: { type: 'string', enum: DEPLOYMENT_TYPES },
+        limit: { type: 'integer', minimum: 1, maximum: 10 }
+      },
+      required: ['query']
+    },
+    execute: async (args) => {
+      const filter = {};
+      if (args.category) filter.category = new RegExp(`^${escapeRegex(args.category)}$`, 'i');
+      if (args.industry) filter.industry = new RegExp(`^${escapeRegex(args.industry)}$`, 'i');
+      if (args.deployment) filter['deployment.type'] = args.deployment;
+      if (typeof args.maxPrice === 'number') {
+        filter.$or = [{ 'pricing.price.amount': { $lte: args.maxPrice } }, { 'pricing.model': 'free' }];
+      }
+
+      const limit = Math.min(Math.max(parseInt(args.limit) || 5, 1), 10);
+      const solutions = await solutionSearchService.search(args.query, { limit, filter });
+
+      return {
+        data: {
+          count: solutions.length,
+          solutions: solutions.map(solution => ({
+            id: solution._id.toString(),
+            title: solution.title,
+            company: solution.companyId?.name,
+            category: solution.category,
+            industry: solution.industry,
+            pricing: solution.pricing?.model,
+            price: solution.pricing?.price?.amount ?? null,
+            deployment: solution.deployment?.type,
+            rating: solution.rating?.average || 0
+          }))
+        },
+        solutionCards: solutions.map(toSolutionCard)
+      };
+    }
+  },
+
+  compare_solutions: {
+    description: 'Compare two marketplace solutions side by side (pricing, deployment, rating, compliance, implementation time).',
+    parameters: {
+      type: 'object',
+      properties: {
+        solutions: {
+          type: 'array',
+          description: 'IDs (preferred) or exact titles of the two solutions',
+          items: { type: 'string' },
+          minItems: 2,
+          maxItems: 2
+        }
+      },
+      required: ['solutions']
+    },
+    execute: async (args) => {
+      if (!Array.isArray(args.solutions) || args.solutions.length !== 2) {
+        throw new ToolError('Provide exactly two solutions to compare');
+      }
+
+      const solutions = await Promise.all(args.solutions.map(findSolution));
+
+      return {
+        data: {
+          solutions: solutions.map(solution => ({
+            id: solution._id.toString(),
+            title: solution.title,
+            company: solution.companyId?.name,
+            category: solution.category,
+            industry: solution.industry,
+            pricing: {
+              model: solution.pricing?.model,
+              amount: solution.pricing?.price?.amount ?? null,
+              currency: solution.pricing?.price?.currency,
+              period: solution.pricing?.price?.period,
+              freeTrial: solution.pricing?.freeTrial?.available || false
+            },
+            deployment: solution.deployment,
+            rating: solution.rating,
+            implementationTime: solution.implementationTime,
+            compliance: (solution.compliance || []).map(item => item.standard).filter(Boolean),
+            certifications: (solution.certifications || []).map(item => item.name).filter(Boolean),
+            features: (solution.features || []).slice(0, 8)
+          }))
+        },
+        solutionCards: solutions.map(toSolutionCard)
+      };
+    }
+  },
+
+  get_my_proposals: {
+    requiresAuth: true,
+    description: "Get the status of the signed-in user's proposals (including their organization's) and how many vendor responses each has.",
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: Object.keys(Proposal.PROPOSAL_TRANSITIONS) }
+      }
+    },
+    execute: async (args, { user }) => {
+      // Same proposals the user sees in the app, including their organization's
+      const filter = await organizationService.ownerFilter(user, 'createdBy');
+      if (args.status) filter.status = args.status;
+
+      const proposals = await Proposal.find(filter)
+        .select('title status responses.status hire.verificationStatus createdAt publishedAt')
+        .sort({ createdAt: -1 })
+        .limit(10)
+        .lean();
+
+      return {
+        data: {
+          count: proposals.length,
+          proposals: proposals.map(proposal => ({
+            id: proposal._id.toString(),
+            title: proposal.title,
+            status: proposal.status,
+            responses: proposal.responses.length,
+            pendingResponses: proposal.responses.filter(response => response.status === 'pending').length,
+            hireVerification: proposal.hire?.verificationStatus || null,
+            createdAt: proposal.createdAt,
+            link: `/proposals/${proposal._id}`
+          }))
+        }
+      };
+    }
+  },
+
+  draft_proposal: {
+    requiresAuth: true,
+    requiresConfirmation: true,
+    description: 'Draft a proposal (a request for vendors) from the conversation. It is saved as a draft the user reviews in the Post Need wizard before publishing.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short title of the need' },
+        description: { type: 'string', description: 'What the user wants to achieve' },
+        industry: { type: 'string', enum: INDUSTRIES },
+        dataType: { type: 'string', enum: DATA_TYPES },
+        compliance: { type: 'string', enum: COMPLIANCE_OPTIONS },
+        budgetMin: { type: 'number' },
+        budgetMax: { type: 'number' },
+        currency: { type: 'string', description: 'ISO currency code, defaults to USD' },
+        timeline: { type: 'string', enum: TIMELINES }
+      },
+      required: ['title', 'description', 'industry']
+    },
+    prepare: async (args) => {
+      if (!args.title || !args.description) {
+        throw new ToolError('A proposal needs a title and a description');
+      }
+      if (args.budgetMin && args.budgetMax && args.budgetMin > args.budgetMax) {
+        throw new ToolError('Maximum budget must be greater than minimum budget');
+      }
+      return `Save a draft proposal "${args.title}"`;
+    },
+    execute: async (args, { user }) => {
+      const status = 'draft';
+      const proposal = await Proposal.create({
+        title: args.title,
+        description: args.description,
+        category: args.dataType || 'Other',
+        industry: args.industry,
+        tags: [args.industry, args.dataType].filter(Boolean).map(tag => tag.toLowerCase()),
+        requirements: {
+          budget: {
+            min: args.budgetMin || undefined,
+            max: args.budgetMax || undefined,
+            currency: args.currency || 'USD'
+          },
+          timeline: TIMELINES.includes(args.timeline) ? args.timeline : 'flexible',
+          dataType: args.dataType,
+          compliance: args.compliance ? [args.compliance] : []
+        },
+        status,
+        statusHistory: [{ from: null, to: status, changedBy: user._id }],
+        createdBy: user._id,
+        creatorType: user.role === 'customer' ? 'customer' : 'vendor',
+        organizationId: organizationService.ownerOrganizationId(user),
+        contactName: `${user.firstName} ${user.lastName}`,
+        contactEmail: user.email,
+        contactPhone: user.phone
+      });
+
+      return {
+        message: `Draft proposal "${proposal.title}" saved. Review it in the wizard and publish it when you're ready.`,
+        link: `/proposals?draft=${proposal._id}`
+      };
+    }
+  },
+
+  bookmark_solution: {
+    requiresAuth: true,
+    requiresConfirmation: true,
+    description: "Save a solution to the signed-in user's default bookmark list.",
+    parameters: {
+      type: 'object',
+      properties: {
+        solution: { type: 'string', description: 'Solution ID (preferred) or exact title' }
+      },
+      required: ['solution']
+    },
+    prepare: async (args) => {
+      const solution = await findSolution(args.solution);
+      // Store the resolved ID so confirming doesn't depend on the title staying the same
+      args.solution = solution._id.toString();
+      return `Bookmark "${solution.title}"`;
+    },
+    execute: async (args, { user }) => {
+      const solution = await findSolution(args.solution);
+      const { bookmark, created } = await Bookmark.addBookmark(user._id, solution._id);
+
+      return {
+        message: created
+          ? `"${solution.title}" was added to your bookmarks.`
+          : `"${solution.title}" is already in your bookmarks.`,
+        link: `/dashboard/bookmarks/${bookmark.listId}`
+      };
+    }
+  }
+};
+
+/**
+ * Get the tool definitions offered to the model
+ * Tools that act on an account are only offered to signed-in users.
+ * @param {Object|null} user - Authenticated user, if any
+ * @returns {Array<Object>} { name, description, parameters }
+ */
+const getToolDefinitions = (user) => Object.entries(tools)
+  .filter(([, tool]) => user || !tool.requiresAuth)
+  .map(([name, tool]) => ({ name, description: tool.description, parameters: tool.parameters }));
+
+/**
+ * Look up a tool the user is allowed to call
+ * @param {string} name - Tool name
+ * @param {Object|null} user - Authenticated user, if any
+ */
+const getTool = (name, user) => {
+  const tool = tools[name];
+  if (!tool) {
+    throw new ToolError(`Unknown tool "${name}"`);
+  }
+  if (tool.requiresAuth && !user) {
+    throw new ToolError('You need to sign in to do that');
+  }
+  return tool;
+};
+
+/**
+ * Whether a tool changes data and needs the user to confirm it first
+ * @param {string} name - Tool name
+ */
+const requiresConfirmation = (name) => Boolean(tools[name]?.requiresConfirmation);
+
+/**
+ * Run a read-only tool
+ * @param {string} name - Tool name
+ * @param {Object} args - Arguments from the model
+ * @param {Object} context - { user }
+ * @returns {Promise<Object>} { data, solutionCards }
+ */
+const runTool = async (name, args, context) => getTool(name, context.user).execute(args, context);
+
+/**
+ * Validate a write tool call and describe it for the confirmation prompt
+ * @param {string} name - Tool name
+ * @param {Object} args - Arguments from the model (may be normalised in place)
+ * @param {Object} context - { user }
+ * @returns {Promise<string>} Summary shown to the user
+ */
+const prepareAction = async (name, args, context) => getTool(name, context.user).prepare(args, context);
+
+/**
+ * Run a write tool the user has confirmed
+ * @param {string} name - Tool name
+ * @param {Object} args - Stored arguments
+ * @param {Object} context - { user }
+ * @returns {Promise<Object>} { message, link }
+ */
+const executeAction = async (name, args, context) => getTool(name, context.user).execute(args, context);
+
+module.exports = {
+  ToolError,
+  toSolutionCard,
+  getToolDefinitions,
+  requiresConfirmation,
+  runTool,
+  prepareAction,
+  executeAction
+};
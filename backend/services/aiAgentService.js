@@ -1,9 +1,8 @@
 /**
  * AI Agent Service - Context-Aware AI Assistant
- * Integrates OpenAI GPT-4o Mini with MongoDB context search
+ * Integrates the configured LLM provider with MongoDB context search
  */
 
-const OpenAI = require('openai');
 const { v4: uuidv4 } = require('uuid');
 
 // Import MongoDB models for context search
@@ -12,16 +11,20 @@ const Company = require('../models/Company');
 const Query = require('../models/Query');
 const Blog = require('../models/Blog');
 const User = require('../models/User');
+const ChatSession = require('../models/ChatSession');
+const solutionSearchService = require('./solutionSearchService');
+const agentTools = require('./agentTools');
+const llm = require('./llm');
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Number of previous messages sent to OpenAI as conversation context
+const CONTEXT_MESSAGE_LIMIT = 10;
+
+// Rounds of tool calls the model may chain before it has to answer
+const MAX_TOOL_ROUNDS = 3;
 
 class AIAgentService {
   constructor() {
     this.systemPrompt = this.buildSystemPrompt();
-    this.conversationHistory = new Map(); // Store conversation history per session
   }
 
   /**
@@ -51,6 +54,11 @@ Your role is to help users discover AI solutions from our database that match th
 - Be helpful, accurate, and professional
 - Ask clarifying questions about department or industry if needed
 
+**Tools:**
+- Use search_solutions when the user has budget, deployment, category or industry constraints, and compare_solutions to compare two solutions
+- Signed-in users can ask you to check their proposals, draft a proposal from the conversation or bookmark a solution; ask anonymous users to sign in first
+- Drafting a proposal and bookmarking only happen after the user confirms them with the button under your reply. Never say they are done; ask the user to confirm instead.
+
 **Important:** Always base your responses ONLY on the solutions provided from our database. If no matching solutions are found, explain what departments/industries we do have solutions for.
 
 Remember: You're here to help users find the right AI solutions from our curated database.`;
@@ -58,9 +66,9 @@ Remember: You're here to help users find the right AI solutions from our curated
 
   /**
    * Search MongoDB for relevant context based on user message
+   * Solutions are ranked by hybrid semantic + BM25 score
    */
   async searchContext(userMessage) {
-    const searchTerms = this.extractSearchTerms(userMessage);
     const context = {
       solutions: [],
       companies: [],
@@ -70,46 +78,8 @@ Remember: You're here to help users find the right AI solutions from our curated
     };
 
     try {
-      // Focus ONLY on solutions - more precise search
-      let solutionQuery = {};
-      
-      // If we have specific keywords, use them for precise matching
-      if (searchTerms.solutionKeywords.length > 0 || searchTerms.industryKeywords.length > 0) {
-        solutionQuery = {
-          $or: [
-            // Primary matches - title and short description (highest priority)
-            { title: { $regex: searchTerms.solutionKeywords.join('|'), $options: 'i' } },
-            { shortDescription: { $regex: searchTerms.solutionKeywords.join('|'), $options: 'i' } },
-            
-            // Secondary matches - category and industry
-            { category: { $regex: searchTerms.solutionKeywords.join('|'), $options: 'i' } },
-            { industry: { $regex: searchTerms.industryKeywords.join('|'), $options: 'i' } },
-            
-            // Tertiary matches - tags and use cases
-            { tags: { $in: searchTerms.solutionKeywords } },
-            { useCases: { $regex: searchTerms.solutionKeywords.join('|'), $options: 'i' } }
-          ]
-        };
-      } else {
-        // If no specific keywords found, do a more targeted search with user's words
-        const words = userMessage.split(' ').filter(word => word.length > 3);
-        if (words.length > 0) {
-          solutionQuery = {
-            $or: [
-              { title: { $regex: words.join('|'), $options: 'i' } },
-              { shortDescription: { $regex: words.join('|'), $options: 'i' } },
-              { category: { $regex: words.join('|'), $options: 'i' } },
-              { industry: { $regex: words.join('|'), $options: 'i' } }
-            ]
-          };
-        }
-      }
-      
-      // Get solutions with company information - limit to most relevant ones
-      context.solutions = await Solution.find(solutionQuery)
-        .populate('companyId', 'name website industry')
-        .limit(5) // Show only top 5 most relevant solutions
-        .lean();
+      // Focus ONLY on solutions - show only the top 5 most relevant
+      context.solutions = await solutionSearchService.search(userMessage, { limit: 5 });
 
       // Only get companies that are related to the found solutions
       if (context.solutions.length > 0) {
@@ -129,65 +99,6 @@ Remember: You're here to help users find the right AI solutions from our curated
     }
   }
 
-  /**
-   * Extract relevant search terms from user message
-   */
-  extractSearchTerms(message) {
-    const lowerMessage = message.toLowerCase();
-    
-    // AI/Technology keywords
-    const aiKeywords = ['ai', 'artificial intelligence', 'machine learning', 'ml', 'deep learning', 
-                       'neural network', 'nlp', 'computer vision', 'chatbot', 'automation'];
-    
-      // Solution type keywords - expanded with healthcare and sales terms
-      const solutionKeywords = ['chatbot', 'predictive analytics', 'recommendation', 'computer vision',
-                               'natural language', 'automation', 'analytics', 'forecasting', 'optimization',
-                               'personalization', 'fraud detection', 'image recognition', 'sentiment analysis',
-                               'medical imaging', 'diagnosis', 'treatment', 'patient care', 'clinical decision',
-                               'health monitoring', 'telemedicine', 'electronic health records', 'ehr',
-                               'medical records', 'health data', 'clinical analytics', 'medical ai',
-                               'healthcare ai', 'medical chatbot', 'health analytics', 'clinical ai',
-                               'sales', 'customer service', 'crm', 'lead generation', 'marketing automation',
-                               'sales automation', 'customer engagement', 'sales analytics', 'revenue optimization'];
-    
-    // Industry keywords - expanded with comprehensive healthcare and sales terms
-    const industryKeywords = ['healthcare', 'medical', 'health', 'clinical', 'hospital', 'pharmaceutical',
-                             'pharma', 'biotech', 'biotechnology', 'medicine', 'healthcare industry',
-                             'medical industry', 'health industry', 'clinical care', 'patient care',
-                             'healthcare services', 'medical services', 'health services',
-                             'finance', 'e-commerce', 'retail', 'manufacturing', 'education', 'technology', 
-                             'marketing', 'sales', 'customer service', 'sales industry', 'business development',
-                             'revenue', 'lead generation', 'customer acquisition', 'sales automation'];
-    
-    // Company keywords
-    const companyKeywords = ['vendor', 'company', 'provider', 'solution provider', 'ai company'];
-    
-    // Query keywords
-    const queryKeywords = ['need', 'looking for', 'requirement', 'challenge', 'problem', 'help',
-                          'solution for', 'implement', 'deploy', 'integrate'];
-    
-    // Blog keywords
-    const blogKeywords = ['trend', 'best practice', 'guide', 'tutorial', 'article', 'blog',
-                         'insight', 'expert', 'analysis', 'comparison'];
-    
-    const found = {
-      solutionKeywords: solutionKeywords.filter(keyword => lowerMessage.includes(keyword)),
-      industryKeywords: industryKeywords.filter(keyword => lowerMessage.includes(keyword)),
-      companyKeywords: companyKeywords.filter(keyword => lowerMessage.includes(keyword)),
-      queryKeywords: queryKeywords.filter(keyword => lowerMessage.includes(keyword)),
-      blogKeywords: blogKeywords.filter(keyword => lowerMessage.includes(keyword)),
-      aiKeywords: aiKeywords.filter(keyword => lowerMessage.includes(keyword))
-    };
-    
-    // If no specific keywords found, extract general terms
-    if (Object.values(found).every(arr => arr.length === 0)) {
-      const words = message.split(' ').filter(word => word.length > 3);
-      found.solutionKeywords = words.slice(0, 3);
-    }
-    
-    return found;
-  }
-
   /**
    * Format context for OpenAI prompt - Focus only on solutions
    */
@@ -215,8 +126,9 @@ Remember: You're here to help users find the right AI solutions from our curated
           contextText += `   - **Use Cases**: ${solution.useCases.join(', ')}\n`;
         }
         
-        if (solution.aiTechnology && solution.aiTechnology.length > 0) {
-          contextText += `   - **AI Technology**: ${solution.aiTechnology.join(', ')}\n`;
+        const aiTechnology = [solution.aiTechnology?.approach, solution.aiTechnology?.model].filter(Boolean);
+        if (aiTechnology.length > 0) {
+          contextText += `   - **AI Technology**: ${aiTechnology.join(', ')}\n`;
         }
         
         contextText += '\n';
@@ -235,33 +147,51 @@ Remember: You're here to help users find the right AI solutions from our curated
   }
 
   /**
-   * Process user message and generate AI response
+   * Load the stored session for a conversation turn
+   * @param {string} sessionId - Client session ID
+   * @param {Object|null} user - Authenticated user, if any
+   * @returns {Promise<Object>} { session } or a failed result when the session belongs to another user
    */
-  async processMessage(message, sessionId = null) {
-    try {
-      // Get or create conversation history
-      if (!sessionId) {
-        sessionId = uuidv4();
-      }
-      
-      let conversationHistory = this.conversationHistory.get(sessionId) || [];
-      
-      // Search for relevant context in our database
-      const context = await this.searchContext(message);
-      const contextText = this.formatContext(context);
-      
-      // Check if we have good matches in our system
-      const hasRelevantSolutions = context.solutions.length > 0;
-      const hasRelevantCompanies = context.companies.length > 0;
-      const hasRelevantQueries = context.queries.length > 0;
-      const hasRelevantBlogs = context.blogs.length > 0;
-      
-      // Build enhanced system prompt based on search results
-      let enhancedSystemPrompt = this.systemPrompt;
-      
-      if (!hasRelevantSolutions && !hasRelevantCompanies && !hasRelevantQueries && !hasRelevantBlogs) {
-        // No relevant matches found in our system
-        enhancedSystemPrompt += `
+  async loadSession(sessionId, user) {
+    const session = await ChatSession.findOrCreate(sessionId, user);
+
+    if (!session) {
+      return {
+        success: false,
+        error: 'You do not have access to this conversation',
+        statusCode: 403,
+        sessionId
+      };
+    }
+
+    return { success: true, session };
+  }
+
+  /**
+   * Search for context and build the OpenAI request for a conversation turn
+   * @param {string} message - User message
+   * @param {Object|null} session - Stored session supplying previous messages
+   * @returns {Promise<Object>} { messages, context, searchStatus, solutionCards }
+   */
+  async prepareTurn(message, session) {
+    const history = session ? session.getRecentHistory(CONTEXT_MESSAGE_LIMIT) : [];
+
+    // Search for relevant context in our database
+    const context = await this.searchContext(message);
+    const contextText = this.formatContext(context);
+    
+    // Check if we have good matches in our system
+    const hasRelevantSolutions = context.solutions.length > 0;
+    const hasRelevantCompanies = context.companies.length > 0;
+    const hasRelevantQueries = context.queries.length > 0;
+    const hasRelevantBlogs = context.blogs.length > 0;
+    
+    // Build enhanced system prompt based on search results
+    let enhancedSystemPrompt = this.systemPrompt;
+    
+    if (!hasRelevantSolutions && !hasRelevantCompanies && !hasRelevantQueries && !hasRelevantBlogs) {
+      // No relevant matches found in our system
+      enhancedSystemPrompt += `
 
 **IMPORTANT CONTEXT:**
 Based on your query, I couldn't find any matching solutions in our current database. 
@@ -283,80 +213,145 @@ Would you like me to:
 Let me know which option you'd prefer, and I'll be happy to help!"
 
 **Remember:** Always be helpful and offer multiple options when no system matches are found.`;
-      } else {
-        // We have relevant matches - use them
-        enhancedSystemPrompt += contextText;
+    } else {
+      // We have relevant matches - use them
+      enhancedSystemPrompt += contextText;
+    }
+    
+    // Build messages array for OpenAI
+    const messages = [
+      { role: 'system', content: enhancedSystemPrompt }
+    ];
+    
+    // Add conversation history (recent messages only to keep context manageable)
+    history.forEach(msg => {
+      messages.push(msg);
+    });
+    
+    // Add current user message
+    messages.push({ role: 'user', content: message });
+
+    // Include solution cards for frontend to render
+    const solutionCards = context.solutions.map(agentTools.toSolutionCard);
+
+    return {
+      messages,
+      context: {
+        solutionsFound: context.solutions.length,
+        companiesFound: context.companies.length,
+        queriesFound: context.queries.length,
+        blogsFound: context.blogs.length
+      },
+      searchStatus: {
+        hasSystemMatches: hasRelevantSolutions || hasRelevantCompanies || hasRelevantQueries || hasRelevantBlogs,
+        needsInternetSearch: !hasRelevantSolutions && !hasRelevantCompanies && !hasRelevantQueries && !hasRelevantBlogs
+      },
+      solutionCards
+    };
+  }
+
+  /**
+   * Process user message and generate AI response
+   * @param {string} message - User message
+   * @param {string|null} sessionId - Existing session ID, or null to start a new one
+   * @param {Object} options - { user, persist } - persist: false skips storing the turn (health checks)
+   */
+  async processMessage(message, sessionId = null, options = {}) {
+    const { user = null, persist = true } = options;
+
+    try {
+      // Get or create the stored conversation
+      if (!sessionId) {
+        sessionId = uuidv4();
       }
       
-      // Build messages array for OpenAI
-      const messages = [
-        { role: 'system', content: enhancedSystemPrompt }
-      ];
+      let session = null;
+      if (persist) {
+        const loaded = await this.loadSession(sessionId, user);
+        if (!loaded.success) return loaded;
+        session = loaded.session;
+      }
       
-      // Add conversation history (last 10 messages to keep context manageable)
-      conversationHistory.slice(-10).forEach(msg => {
-        messages.push(msg);
-      });
+      const turn = await this.prepareTurn(message, session);
       
-      // Add current user message
-      messages.push({ role: 'user', content: message });
+      // Call the LLM provider, running any tools it asks for
+      const reply = await this.runAgent(turn.messages, { user });
+      const solutionCards = reply.solutionCards || turn.solutionCards;
       
-      // Call OpenAI API
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: messages,
-        max_tokens: 1000, // Increased for more detailed responses
-        temperature: 0.7,
-        top_p: 0.9,
-        frequency_penalty: 0.1,
-        presence_penalty: 0.1
-      });
+      // Store the turn along with the cards and actions shown for it
+      if (session) {
+        await session.addTurn(message, reply.response, { solutionCards, actions: reply.actions });
+      }
       
-      const aiResponse = completion.choices[0].message.content;
+      return {
+        success: true,
+        response: reply.response,
+        sessionId: sessionId,
+        context: turn.context,
+        searchStatus: turn.searchStatus,
+        solutionCards,
+        actions: reply.actions
+      };
       
-      // Update conversation history
-      conversationHistory.push({ role: 'user', content: message });
-      conversationHistory.push({ role: 'assistant', content: aiResponse });
+    } catch (error) {
+      console.error('Error processing AI message:', error);
       
-      // Keep only last 20 messages to manage memory
-      if (conversationHistory.length > 20) {
-        conversationHistory = conversationHistory.slice(-20);
-      }
+      return {
+        success: false,
+        error: 'Sorry, I encountered an error processing your request. Please try again.',
+        sessionId: sessionId
+      };
+    }
+  }
+
+  /**
+   * Process user message and stream the AI response token by token
+   * If the signal aborts mid-stream, the partial reply is kept and returned with stopped: true.
+   * @param {string} message - User message
+   * @param {string|null} sessionId - Existing session ID, or null to start a new one
+   * @param {Object} options - { user, onStart, onToken, signal }
+   */
+  async streamMessage(message, sessionId = null, options = {}) {
+    const { user = null, onStart = () => {}, onToken = () => {}, signal } = options;
+
+    if (!sessionId) {
+      sessionId = uuidv4();
+    }
+
+    try {
+      const loaded = await this.loadSession(sessionId, user);
+      if (!loaded.success) return loaded;
+      const session = loaded.session;
+      onStart(sessionId);
+      
+      const turn = await this.prepareTurn(message, session);
       
-      this.conversationHistory.set(sessionId, conversationHistory);
+      // Call the LLM provider in streaming mode, running any tools it asks for
+      const reply = await this.runAgent(turn.messages, { user, onToken, signal });
+      const solutionCards = reply.solutionCards || turn.solutionCards;
+      
+      // Keep whatever the user saw, even if generation was stopped
+      if (reply.response) {
+        await session.addTurn(message, reply.response, { solutionCards, actions: reply.actions });
+      }
       
       return {
         success: true,
-        response: aiResponse,
+        response: reply.response,
         sessionId: sessionId,
-        context: {
-          solutionsFound: context.solutions.length,
-          companiesFound: context.companies.length,
-          queriesFound: context.queries.length,
-          blogsFound: context.blogs.length
-        },
-        searchStatus: {
-          hasSystemMatches: hasRelevantSolutions || hasRelevantCompanies || hasRelevantQueries || hasRelevantBlogs,
-          needsInternetSearch: !hasRelevantSolutions && !hasRelevantCompanies && !hasRelevantQueries && !hasRelevantBlogs
-        },
-        // Include solution cards for frontend to render
-        solutionCards: context.solutions.map(solution => ({
-          id: solution._id,
-          title: solution.title,
-          company: solution.companyId?.name || 'Unknown Company',
-          website: solution.companyId?.website || '',
-          industry: solution.industry,
-          category: solution.category,
-          shortDescription: solution.shortDescription || solution.description,
-          pricing: solution.pricing?.model || 'Contact for pricing',
-          price: solution.pricing?.price?.amount || null,
-          logo: solution.companyId?.logo || null,
-          isPremium: solution.isPremium || false // Add premium flag
-        }))
+        stopped: reply.stopped,
+        context: turn.context,
+        searchStatus: turn.searchStatus,
+        solutionCards,
+        actions: reply.actions
       };
       
     } catch (error) {
-      console.error('Error processing AI message:', error);
+      if (signal?.aborted) {
+        return { success: true, response: '', sessionId, stopped: true, solutionCards: [] };
+      }
+      
+      console.error('Error streaming AI message:', error);
       
       return {
         success: false,
@@ -366,39 +361,267 @@ Let me know which option you'd prefer, and I'll be happy to help!"
     }
   }
 
+  /**
+   * Run the model until it answers, executing the tools it calls along the way
+   * Read tools run immediately; write tools become pending actions the user has to confirm.
+   * Passing onToken streams the reply; if the signal aborts, the partial reply is returned with stopped: true.
+   * @param {Array<Object>} messages - Request messages, extended with tool calls and results
+   * @param {Object} options - { user, onToken, signal }
+   * @returns {Promise<Object>} { response, stopped, actions, solutionCards } - solutionCards is null unless a tool returned some
+   */
+  async runAgent(messages, options = {}) {
+    const { user = null, onToken = null, signal } = options;
+    const tools = agentTools.getToolDefinitions(user);
+    const actions = [];
+    let solutionCards = null;
+    let response = '';
+    let stopped = false;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // The last round must produce an answer
+      const toolChoice = round < MAX_TOOL_ROUNDS ? 'auto' : 'none';
+      // Text from separate rounds is shown as separate paragraphs
+      const separator = response ? '\n\n' : '';
+      let content = '';
+      let toolCalls = [];
+
+      if (onToken) {
+        const stream = await llm.stream('chat', messages, { signal, tools, toolChoice });
+
+        try {
+          for await (const event of stream) {
+            if (event.type === 'tool_call') {
+              toolCalls.push(event.toolCall);
+            } else {
+              const token = content ? event.content : separator + event.content;
+              content += token;
+              onToken(token);
+            }
+          }
+        } catch (error) {
+          if (!signal?.aborted) throw error;
+          stopped = true;
+        }
+      } else {
+        const completion = await llm.complete('chat', messages, { tools, toolChoice });
+        content = completion.content ? separator + completion.content : '';
+        toolCalls = completion.toolCalls || [];
+      }
+
+      response += content;
+      if (stopped || toolCalls.length === 0) break;
+
+      messages.push({
+        role: 'assistant',
+        content: content.trim() || null,
+        tool_calls: toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      });
+
+      for (const call of toolCalls) {
+        const outcome = await this.handleToolCall(call, user, actions);
+        if (outcome.solutionCards) solutionCards = outcome.solutionCards;
+        messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(outcome.result) });
+      }
+    }
+
+    return { response, stopped, actions, solutionCards };
+  }
+
+  /**
+   * Run one tool call from the model
+   * @param {Object} call - { id, name, arguments } with arguments as a JSON string
+   * @param {Object|null} user - Authenticated user, if any
+   * @param {Array<Object>} actions - Pending actions of this turn; write tools are added here
+   * @returns {Promise<Object>} { result, solutionCards } - result is sent back to the model
+   */
+  async handleToolCall(call, user, actions) {
+    let args;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch (error) {
+      return { result: { error: 'Tool arguments must be valid JSON' } };
+    }
+
+    try {
+      if (agentTools.requiresConfirmation(call.name)) {
+        const summary = await agentTools.prepareAction(call.name, args, { user });
+        actions.push({ actionId: uuidv4(), tool: call.name, args, summary, status: 'pending' });
+        return { result: { status: 'awaiting_user_confirmation', summary } };
+      }
+
+      const { data, solutionCards } = await agentTools.runTool(call.name, args, { user });
+      return { result: data, solutionCards };
+    } catch (error) {
+      if (error.name !== 'ToolError') {
+        console.error(`Error running agent tool ${call.name}:`, error);
+      }
+      return { result: { error: error.name === 'ToolError' ? error.message : 'The tool failed to run' } };
+    }
+  }
+
+  /**
+   * Confirm or cancel an action the agent proposed, running it on confirmation
+   * The outcome is added to the conversation as an assistant message.
+   * @param {string} sessionId - Session the action was proposed in
+   * @param {string} actionId - Action ID
+   * @param {Object} user - Authenticated user; must own the session
+   * @param {boolean} confirm - true to run the action, false to cancel it
+   * @returns {Promise<Object>} { success, action, message } or a failed result with a statusCode
+   */
+  async resolveAction(sessionId, actionId, user, confirm) {
+    const existing = await ChatSession.findOne({ sessionId });
+    const found = existing && existing.userId && existing.userId.toString() === user._id.toString()
+      ? existing.findAction(actionId)
+      : null;
+
+    if (!found) {
+      return { success: false, error: 'Action not found', statusCode: 404 };
+    }
+
+    // Claim the action first so concurrent confirmations cannot run it twice
+    const session = found.action.status === 'pending' ? await ChatSession.claimAction(sessionId, actionId) : null;
+    if (!session) {
+      const current = await ChatSession.findOne({ sessionId });
+      const status = current?.findAction(actionId)?.action.status || found.action.status;
+      const state = status === 'executing' ? 'is already being handled' : `has already been ${status}`;
+      return { success: false, error: `This action ${state}`, statusCode: 409 };
+    }
+
+    const { message, action } = session.findAction(actionId);
+
+    let reply;
+    if (!confirm) {
+      action.status = 'cancelled';
+      reply = `Okay, I won't do that: ${action.summary}.`;
+    } else if (session.isActionExpired(message)) {
+      action.status = 'cancelled';
+      action.error = 'Expired before it was confirmed';
+      reply = 'That request has expired. Ask me again if you still want it done.';
+    } else {
+      try {
+        action.result = await agentTools.executeAction(action.tool, action.args, { user });
+        action.status = 'completed';
+        reply = action.result.message;
+      } catch (error) {
+        if (error.name !== 'ToolError') {
+          console.error(`Error running agent action ${action.tool}:`, error);
+        }
+        action.status = 'failed';
+        action.error = error.name === 'ToolError' ? error.message : 'Something went wrong';
+        reply = `Sorry, I couldn't do that: ${action.error}.`;
+      }
+    }
+
+    action.resolvedAt = new Date();
+    await session.addAssistantMessage(reply);
+
+    return {
+      success: true,
+      action: action.toObject(),
+      message: session.messages[session.messages.length - 1].toObject()
+    };
+  }
+
   /**
    * Get conversation history for a session
+   * @param {string} sessionId - Session ID
+   * @param {Object|null} user - Authenticated user, if any
    */
-  getConversationHistory(sessionId) {
-    return this.conversationHistory.get(sessionId) || [];
+  async getConversationHistory(sessionId, user = null) {
+    const session = await ChatSession.findOne({ sessionId });
+
+    if (!session) {
+      return { success: true, title: null, history: [] };
+    }
+
+    if (!session.isAccessibleBy(user)) {
+      return { success: false, error: 'You do not have access to this conversation', statusCode: 403 };
+    }
+
+    return {
+      success: true,
+      title: session.title,
+      history: session.messages.map(msg => msg.toObject())
+    };
   }
 
   /**
    * Clear conversation history for a session
+   * @param {string} sessionId - Session ID
+   * @param {Object|null} user - Authenticated user, if any
    */
-  clearConversationHistory(sessionId) {
-    this.conversationHistory.delete(sessionId);
+  async clearConversationHistory(sessionId, user = null) {
+    const session = await ChatSession.findOne({ sessionId });
+
+    if (session) {
+      if (!session.isAccessibleBy(user)) {
+        return { success: false, error: 'You do not have access to this conversation', statusCode: 403 };
+      }
+      await session.deleteOne();
+    }
+
     return { success: true, message: 'Conversation history cleared' };
   }
 
+  /**
+   * List previous conversations
+   * Authenticated users get their own sessions; anonymous visitors can only
+   * look up unclaimed sessions by the IDs their browser kept.
+   * @param {Object|null} user - Authenticated user, if any
+   * @param {Array<string>} sessionIds - Anonymous session IDs to include
+   * @param {number} limit - Maximum number of sessions
+   */
+  async listSessions(user = null, sessionIds = [], limit = 20) {
+    const conditions = [];
+
+    if (user) {
+      conditions.push({ userId: user._id });
+    }
+    if (sessionIds.length > 0) {
+      conditions.push({ sessionId: { $in: sessionIds }, userId: null });
+    }
+
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    const sessions = await ChatSession.find({ $or: conditions })
+      .sort({ lastMessageAt: -1 })
+      .limit(limit);
+
+    return sessions.map(session => session.getSummary());
+  }
+
   /**
    * Get AI agent statistics
    */
-  getStats() {
-    return {
-      activeSessions: this.conversationHistory.size,
-      totalMessages: Array.from(this.conversationHistory.values())
-        .reduce((total, history) => total + history.length, 0)
-    };
+  async getStats() {
+    return ChatSession.getStats();
   }
 
   /**
    * Handle internet search request when no system matches found
+   * @param {string} message - User message
+   * @param {string|null} sessionId - Existing session ID, or null to start a new one
+   * @param {Object} options - { user }
    */
-  async handleInternetSearchRequest(message, sessionId = null) {
+  async handleInternetSearchRequest(message, sessionId = null, options = {}) {
+    const { user = null } = options;
+
     try {
+      if (!sessionId) {
+        sessionId = uuidv4();
+      }
+      
       // Get conversation history
-      let conversationHistory = this.conversationHistory.get(sessionId) || [];
+      const loaded = await this.loadSession(sessionId, user);
+      if (!loaded.success) return loaded;
+      const session = loaded.session;
+      const conversationHistory = session.getRecentHistory(CONTEXT_MESSAGE_LIMIT);
       
       // Build internet search prompt
       const internetSearchPrompt = `You are "Agent," an intelligent AI assistant for AI SolutionsHub. 
@@ -437,31 +660,20 @@ Be helpful, specific, and actionable.`;
       ];
       
       // Add conversation history
-      conversationHistory.slice(-10).forEach(msg => {
+      conversationHistory.forEach(msg => {
         messages.push(msg);
       });
       
       // Add current user message
       messages.push({ role: 'user', content: message });
       
-      // Call OpenAI API
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: messages,
-        max_tokens: 1200, // More tokens for comprehensive internet search results
-        temperature: 0.7,
-        top_p: 0.9,
-        frequency_penalty: 0.1,
-        presence_penalty: 0.1
-      });
+      // Call the LLM provider (more tokens for comprehensive internet search results)
+      const completion = await llm.complete('internetSearch', messages);
       
-      const aiResponse = completion.choices[0].message.content;
+      const aiResponse = completion.content;
       
       // Update conversation history
-      conversationHistory.push({ role: 'user', content: message });
-      conversationHistory.push({ role: 'assistant', content: aiResponse });
-      
-      this.conversationHistory.set(sessionId, conversationHistory);
+      await session.addTurn(message, aiResponse, { searchType: 'internet' });
       
       return {
         success: true,
@@ -0,0 +1,408 @@
+/**
+ * Category Service - Taxonomy lookups, live solution counts and re-pointing
+ * Solutions, queries, companies and users store category and industry names as text;
+ * this service resolves free text to taxonomy entries and rewrites those names when
+ * superadmins rename, move or merge entries.
+ */
+
+const Category = require('../models/Category');
+const Solution = require('../models/Solution');
+const Query = require('../models/Query');
+const Company = require('../models/Company');
+const User = require('../models/User');
+
+// Solutions counted on the categories page
+const VISIBLE_SOLUTION = { status: 'approved', isActive: true };
+
+// Fields returned for every entry
+const PUBLIC_FIELDS = ['_id', 'name', 'slug', 'type', 'parentId', 'description', 'icon', 'order'];
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive exact match, so legacy values that differ only in case are re-pointed too
+const exactly = (name) => new RegExp(`^${escapeRegex(name)}$`, 'i');
+
+const lookupKey = (value) => String(value).trim().toLowerCase();
+
+class CategoryService {
+  constructor() {
+    this.entries = null;
+  }
+
+  /**
+   * Get every taxonomy entry, cached until the taxonomy changes
+   * @returns {Promise<Array<Object>>} Lean entries sorted by order then name
+   */
+  async getEntries() {
+    if (!this.entries) {
+      this.entries = Category.find().sort({ order: 1, name: 1 }).lean().catch(error => {
+        this.entries = null;
+        throw error;
+      });
+    }
+    return this.entries;
+  }
+
+  /**
+   * Drop the cached taxonomy after a change
+   */
+  invalidate() {
+    this.entries = null;
+  }
+
+  /**
+   * Find the entry a value refers to by name, slug or synonym
+   * @param {Array<Object>} entries - Taxonomy entries
+   * @param {string} type - 'category' or 'industry'
+   * @param {string} value - Free-text value
+   * @returns {Object|null} Matching entry
+   */
+  match(entries, type, value) {
+    if (!value) return null;
+    const key = lookupKey(value);
+    const sameType = entries.filter(entry => entry.type === type);
+
+    return sameType.find(entry => entry.name.toLowerCase() === key || entry.slug === key)
+      || sameType.find(entry => entry.synonyms.includes(key))
+      || null;
+  }
+
+  /**
+   * Resolve a free-text value to a taxonomy entry
+   * @param {string} type - 'category' or 'industry'
+   * @param {string} value - Free-text value
+   * @returns {Promise<Object|null>} Matching entry
+   */
+  async resolve(type, value) {
+    return this.match(await this.getEntries(), type, value);
+  }
+
+  /**
+   * Get an entry's parent
+   * @param {Array<Object>} entries - Taxonomy entries
+   * @param {Object} entry - Child entry
+   * @returns {Object|null} Parent entry
+   */
+  parentOf(entries, entry) {
+    if (!entry?.parentId) return null;
+    return entries.find(candidate => candidate._id.equals(entry.parentId)) || null;
+  }
+
+  /**
+   * Find an entry of the same type already using one of the given names
+   * @param {string} type - 'category' or 'industry'
+   * @param {Array<string>} names - Names and synonyms to check
+   * @param {string} [excludeId] - Entry being edited
+   * @returns {Promise<Object|null>} { entry, name } of the first conflict
+   */
+  async findConflict(type, names, excludeId) {
+    const entries = (await this.getEntries())
+      .filter(entry => entry.type === type && (!excludeId || !entry._id.equals(excludeId)));
+
+    for (const name of names) {
+      const key = lookupKey(name);
+      const slug = Category.slugify(name);
+      const entry = entries.find(candidate =>
+        candidate.name.toLowerCase() === key ||
+        candidate.slug === slug ||
+        candidate.synonyms.includes(key)
+      );
+      if (entry) return { entry, name };
+    }
+    return null;
+  }
+
+  /**
+   * Build a Solution filter for category and industry values (names, slugs or synonyms)
+   * Entries also match solutions still using a synonym, and parents include their children,
+   * so results agree with the live counts. Unknown values are matched as given.
+   * @param {Object} values - { category, industry }
+   * @returns {Promise<Object>} Mongo filter fields
+   */
+  async solutionFilter({ category, industry } = {}) {
+    const entries = await this.getEntries();
+    const filter = {};
+
+    const childrenOf = (entry) => entries.filter(child => child.parentId && child.parentId.equals(entry._id));
+    const aliases = (list) => list.flatMap(entry => [entry.name, ...entry.synonyms]).map(exactly);
+
+    if (category) {
+      const entry = this.match(entries, 'category', category);
+      if (!entry) {
+        filter.category = category;
+      } else if (entry.parentId) {
+        // Wrapped in $and so it cannot clash with another $or in the caller's filter
+        filter.$and = [{ $or: [{ subcategory: { $in: aliases([entry]) } }, { category: { $in: aliases([entry]) } }] }];
+      } else {
+        filter.category = { $in: aliases([entry, ...childrenOf(entry)]) };
+      }
+    }
+
+    if (industry) {
+      const entry = this.match(entries, 'industry', industry);
+      filter.industry = entry ? { $in: aliases([entry, ...childrenOf(entry)]) } : industry;
+    }
+
+    return filter;
+  }
+
+  /**
+   * Replace free-text category, subcategory and industry values with taxonomy names
+   * Values that match no entry are kept, so automated imports never fail on them.
+   * @param {Object} data - { category, subcategory, industry }
+   * @returns {Promise<Object>} Normalized fields (only those that were given)
+   */
+  async normalizeSolutionFields({ category, subcategory, industry } = {}) {
+    const entries = await this.getEntries();
+    const fields = {};
+
+    if (category !== undefined) {
+      const entry = this.match(entries, 'category', category);
+      const parent = this.parentOf(entries, entry);
+      if (parent) {
+        fields.category = parent.name;
+        fields.subcategory = entry.name;
+      } else {
+        fields.category = entry ? entry.name : category;
+      }
+    }
+
+    if (subcategory) {
+      const entry = this.match(entries, 'category', subcategory);
+      const parent = this.parentOf(entries, entry);
+      if (parent) {
+        fields.category = parent.name;
+        fields.subcategory = entry.name;
+      } else {
+        fields.subcategory = subcategory;
+      }
+    }
+
+    if (industry !== undefined) {
+      const entry = this.match(entries, 'industry', industry);
+      fields.industry = entry ? entry.name : industry;
+    }
+
+    return fields;
+  }
+
+  /**
+   * Count visible solutions per entry, including values that only match a synonym
+   * @param {Array<Object>} entries - Taxonomy entries
+   * @returns {Promise<Object>} { stats: Map of entry ID to stats, unmapped: Array }
+   */
+  async getStats(entries) {
+    const [rows, tagRows] = await Promise.all([
+      Solution.aggregate([
+        { $match: VISIBLE_SOLUTION },
+        {
+          $group: {
+            _id: { category: '$category', subcategory: '$subcategory', industry: '$industry' },
+            solutions: { $sum: 1 },
+            companies: { $addToSet: '$companyId' },
+            ratingSum: { $sum: { $cond: [{ $gt: ['$rating.count', 0] }, '$rating.average', 0] } },
+            ratedCount: { $sum: { $cond: [{ $gt: ['$rating.count', 0] }, 1, 0] } }
+          }
+        }
+      ]),
+      Solution.aggregate([
+        { $match: VISIBLE_SOLUTION },
+        { $unwind: '$tags' },
+        { $group: { _id: { category: '$category', tag: '$tags' }, count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const stats = new Map();
+    const unmapped = new Map();
+
+    const statFor = (entry) => {
+      const id = entry._id.toString();
+      if (!stats.has(id)) {
+        stats.set(id, { solutions: 0, companies: new Set(), ratingSum: 0, ratedCount: 0, industries: new Map(), tags: new Map() });
+      }
+      return stats.get(id);
+    };
+
+    // An entry and its parent both count a solution
+    const lineage = (entry) => [entry, this.parentOf(entries, entry)].filter(Boolean);
+
+    const noteUnmapped = (field, value, count) => {
+      const key = `${field}:${value}`;
+      const current = unmapped.get(key) || { field, value, solutionCount: 0 };
+      current.solutionCount += count;
+      unmapped.set(key, current);
+    };
+
+    rows.forEach(row => {
+      const touched = new Map();
+      ['category', 'subcategory'].forEach(field => {
+        const value = row._id[field];
+        if (!value) return;
+        const entry = this.match(entries, 'category', value);
+        if (!entry) return noteUnmapped(field, value, row.solutions);
+        lineage(entry).forEach(item => touched.set(item._id.toString(), item));
+      });
+
+      const industry = this.match(entries, 'industry', row._id.industry);
+      if (industry) {
+        lineage(industry).forEach(item => touched.set(item._id.toString(), item));
+      } else if (row._id.industry) {
+        noteUnmapped('industry', row._id.industry, row.solutions);
+      }
+
+      touched.forEach(entry => {
+        const stat = statFor(entry);
+        stat.solutions += row.solutions;
+        stat.ratingSum += row.ratingSum;
+        stat.ratedCount += row.ratedCount;
+        row.companies.filter(Boolean).forEach(id => stat.companies.add(id.toString()));
+
+        if (entry.type === 'category' && row._id.industry) {
+          const industryName = industry ? industry.name : row._id.industry;
+          stat.industries.set(industryName, (stat.industries.get(industryName) || 0) + row.solutions);
+        }
+      });
+    });
+
+    tagRows.forEach(row => {
+      const entry = this.match(entries, 'category', row._id.category);
+      if (!entry) return;
+      lineage(entry).forEach(item => {
+        const stat = statFor(item);
+        stat.tags.set(row._id.tag, (stat.tags.get(row._id.tag) || 0) + row.count);
+      });
+    });
+
+    return {
+      stats,
+      unmapped: [...unmapped.values()].sort((a, b) => b.solutionCount - a.solutionCount)
+    };
+  }
+
+  /**
+   * Build the category and industry trees with live counts
+   * @param {Object} options - { includeInactive: also return hidden entries and synonyms }
+   * @returns {Promise<Object>} { categories, industries, unmapped }
+   */
+  async getTaxonomy({ includeInactive = false } = {}) {
+    const entries = await this.getEntries();
+    const { stats, unmapped } = await this.getStats(entries);
+
+    const top = (map) => [...map.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([name]) => name);
+
+    const present = (entry) => {
+      const stat = stats.get(entry._id.toString());
+      const node = PUBLIC_FIELDS.reduce((data, field) => ({ ...data, [field]: entry[field] }), {});
+
+      if (includeInactive) {
+        node.synonyms = entry.synonyms;
+        node.isActive = entry.isActive;
+      }
+
+      return {
+        ...node,
+        solutionCount: stat ? stat.solutions : 0,
+        companyCount: stat ? stat.companies.size : 0,
+        averageRating: stat && stat.ratedCount ? Math.round((stat.ratingSum / stat.ratedCount) * 10) / 10 : 0,
+        ...(entry.type === 'category' && !entry.parentId && {
+          topIndustries: stat ? top(stat.industries).slice(0, 4) : [],
+          topTags: stat ? top(stat.tags).slice(0, 6) : []
+        })
+      };
+    };
+
+    const visible = entries.filter(entry => includeInactive || entry.isActive);
+
+    const tree = (type) => visible
+      .filter(entry => entry.type === type && !entry.parentId)
+      .map(entry => ({
+        ...present(entry),
+        children: visible
+          .filter(child => child.parentId && child.parentId.equals(entry._id))
+          .map(present)
+      }));
+
+    return {
+      categories: tree('category'),
+      industries: tree('industry'),
+      ...(includeInactive && { unmapped })
+    };
+  }
+
+  /**
+   * Count solutions in any status that still use an entry's name
+   * @param {Object} entry - Taxonomy entry
+   * @returns {Promise<number>} Number of solutions using the name
+   */
+  async countSolutionsUsing(entry) {
+    const name = exactly(entry.name);
+    const filter = entry.type === 'industry'
+      ? { industry: name }
+      : { $or: [{ category: name }, { subcategory: name }] };
+
+    return Solution.countDocuments(filter);
+  }
+
+  /**
+   * Re-point solutions, queries, companies and users from old names to an entry
+   * Category targets also set the solution's level: a child sets both category (its parent)
+   * and subcategory, a top-level entry sets category and clears a subcategory it replaces.
+   * @param {string} type - 'category' or 'industry'
+   * @param {Array<string>} names - Old names and synonyms
+   * @param {Object} target - Entry the names now belong to
+   * @param {Object|null} targetParent - Parent of the target
+   * @returns {Promise<number>} Number of solutions changed
+   */
+  async repoint(type, names, target, targetParent = null) {
+    let changed = 0;
+    // Re-pointing is not an edit by the vendor
+    const options = { timestamps: false };
+
+    for (const name of [...new Set(names.filter(Boolean))]) {
+      const pattern = exactly(name);
+      const renamed = name !== target.name;
+
+      if (type === 'industry') {
+        const result = await Solution.updateMany({ industry: pattern }, { $set: { industry: target.name } }, options);
+        changed += result.modifiedCount;
+        await Promise.all([
+          Query.updateMany({ industry: pattern }, { $set: { industry: target.name } }, options),
+          Company.updateMany({ industry: pattern }, { $set: { industry: target.name } }, options),
+          User.updateMany({ industry: pattern }, { $set: { industry: target.name } }, options)
+        ]);
+        continue;
+      }
+
+      const placement = targetParent
+        ? [
+          [{ category: pattern }, { $set: { category: targetParent.name, subcategory: target.name } }],
+          [{ subcategory: pattern }, { $set: { category: targetParent.name, subcategory: target.name } }]
+        ]
+        : [
+          [{ category: pattern }, { $set: { category: target.name } }],
+          [{ subcategory: pattern }, { $set: { category: target.name }, $unset: { subcategory: 1 } }]
+        ];
+
+      for (const [filter, update] of placement) {
+        const result = await Solution.updateMany(filter, update, options);
+        changed += result.modifiedCount;
+      }
+
+      if (renamed) {
+        // A case-only rename must not pull the new name along with the old one
+        const oldValue = name.toLowerCase() === target.name.toLowerCase() ? name : pattern;
+
+        await Query.updateMany({ category: pattern }, { $set: { category: target.name } }, options);
+        await Company.updateMany({ categories: pattern }, { $addToSet: { categories: target.name } }, options);
+        await Company.updateMany({ categories: target.name }, { $pull: { categories: oldValue } }, options);
+      }
+    }
+
+    return changed;
+  }
+}
+
+module.exports = new CategoryService();
@@ -0,0 +1,170 @@
+/**
+ * Email Service - Transactional mail through a persistent outbox
+ * Messages are rendered from a template and stored first, then delivered by a worker that
+ * retries failures with backoff, so a mail outage delays email instead of losing it.
+ * Queueing never throws: callers fire and forget.
+ */
+
+const OutboxEmail = require('../models/OutboxEmail');
+const { getMailTransport, sendMail } = require('./mail');
+const { render } = require('./mail/templates');
+
+// Delay before each retry (after the 1st, 2nd, ... failed attempt)
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+
+class EmailService {
+  constructor() {
+    this.workerTimer = null;
+    this.processing = false;
+    this.processAgain = false;
+  }
+
+  /**
+   * Render a template and add it to the outbox
+   * @param {string} template - Template name
+   * @param {string} to - Recipient address
+   * @param {Object} data - Template data
+   * @param {Object} options - { userId, headers }
+   * @returns {Promise<Object|null>} Outbox email, or null if it could not be queued
+   */
+  async queue(template, to, data = {}, options = {}) {
+    try {
+      const { subject, html, text } = render(template, data);
+      const email = await OutboxEmail.create({
+        template,
+        to,
+        subject,
+        html,
+        text,
+        headers: options.headers,
+        userId: options.userId
+      });
+
+      setImmediate(() => {
+        this.processDue().catch(error => console.error('Mail outbox error:', error.message));
+      });
+
+      return email;
+    } catch (error) {
+      console.error(`Failed to queue "${template}" email:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Atomically claim the next due message
+   * @returns {Promise<Object|null>} Claimed outbox email
+   */
+  claimNext() {
+    return OutboxEmail.findOneAndUpdate(
+      { status: 'queued', nextAttemptAt: { $lte: new Date() } },
+      { $set: { status: 'sending' }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Send one claimed message and record the outcome
+   * @param {Object} email - Outbox email in the sending state
+   */
+  async deliver(email) {
+    try {
+      const { messageId } = await sendMail({
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: email.headers ? Object.fromEntries(email.headers) : undefined
+      });
+
+      email.status = 'sent';
+      email.sentAt = new Date();
+      email.messageId = messageId;
+      email.transport = getMailTransport().name;
+      email.lastError = undefined;
+    } catch (error) {
+      email.lastError = error.message;
+      if (email.attempts >= email.maxAttempts) {
+        email.status = 'failed';
+      } else {
+        const delay = RETRY_DELAYS_MS[Math.min(email.attempts, RETRY_DELAYS_MS.length) - 1];
+        email.status = 'queued';
+        email.nextAttemptAt = new Date(Date.now() + delay);
+      }
+      console.error(`Email to ${email.to} failed (attempt ${email.attempts}/${email.maxAttempts}):`, error.message);
+    }
+
+    await email.save();
+  }
+
+  /**
+   * Deliver every message that is due
+   */
+  async processDue() {
+    if (this.processing) {
+      this.processAgain = true;
+      return;
+    }
+    this.processing = true;
+
+    try {
+      do {
+        this.processAgain = false;
+        let email;
+        while ((email = await this.claimNext())) {
+          await this.deliver(email);
+        }
+      } while (this.processAgain);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Queue a failed message again with a fresh set of attempts
+   * @param {string} emailId - Outbox email ID
+   * @returns {Promise<Object|null>} Requeued email, or null if it was not retryable
+   */
+  async retry(emailId) {
+    const email = await OutboxEmail.findOneAndUpdate(
+      { _id: emailId, status: { $in: ['queued', 'failed'] } },
+      { $set: { status: 'queued', attempts: 0, nextAttemptAt: new Date() } },
+      { new: true }
+    );
+
+    if (email) {
+      await this.processDue();
+      return OutboxEmail.findById(emailId);
+    }
+    return null;
+  }
+
+  /**
+   * Requeue messages left in the sending state by a restart
+   */
+  async resumeInterrupted() {
+    await OutboxEmail.updateMany(
+      { status: 'sending' },
+      { $set: { status: 'queued', nextAttemptAt: new Date() } }
+    );
+  }
+
+  /**
+   * Resume interrupted sends, then deliver due messages on an interval
+   * @param {number} intervalMs - Check interval (MAIL_OUTBOX_INTERVAL_MS, default 30s)
+   */
+  startWorker(intervalMs = parseInt(process.env.MAIL_OUTBOX_INTERVAL_MS) || 30000) {
+    if (this.workerTimer) return;
+
+    this.resumeInterrupted()
+      .then(() => this.processDue())
+      .catch(error => console.error('Mail outbox resume error:', error.message));
+
+    this.workerTimer = setInterval(() => {
+      this.processDue().catch(error => console.error('Mail outbox error:', error.message));
+    }, intervalMs);
+    this.workerTimer.unref();
+  }
+}
+
+module.exports = new EmailService();
@@ -0,0 +1,74 @@
+/**
+ * Inquiry Service - Lets vendors and buyers know about solution contact requests
+ * New inquiries are pushed to the vendor (realtime + email, reply-to the buyer);
+ * vendor replies are emailed to the buyer. Emails go through the outbox, which retries
+ * delivery, so a mail outage cannot lose a lead.
+ */
+
+const User = require('../models/User');
+const realtimeService = require('./realtimeService');
+const emailService = require('./emailService');
+
+class InquiryService {
+  /**
+   * Tell a vendor about a new inquiry
+   * @param {Object} inquiry - Inquiry document
+   * @param {Object} solution - Solution document
+   */
+  async notifyVendor(inquiry, solution) {
+    realtimeService.sendToUser(inquiry.vendorId.toString(), 'notification', {
+      type: 'inquiry:new',
+      inquiryId: inquiry._id,
+      solutionId: solution._id,
+      solutionTitle: solution.title,
+      senderName: inquiry.name,
+      preview: inquiry.message.slice(0, 140),
+      createdAt: inquiry.createdAt
+    });
+
+    try {
+      const vendor = await User.findById(inquiry.vendorId).select('email');
+      if (!vendor?.email) return;
+
+      await emailService.queue('newInquiry', vendor.email, {
+        inquiryId: inquiry._id,
+        solutionTitle: solution.title,
+        name: inquiry.name,
+        email: inquiry.email,
+        company: inquiry.company,
+        message: inquiry.message
+      }, { userId: vendor._id, headers: { 'Reply-To': inquiry.email } });
+    } catch (error) {
+      console.error('Failed to email vendor about inquiry:', error.message);
+    }
+  }
+
+  /**
+   * Queue a vendor reply for the buyer and push it to them
+   * @param {Object} inquiry - Inquiry document
+   * @param {Object} reply - Reply subdocument
+   * @param {Object} solution - Solution document (title)
+   * @returns {Promise<boolean>} Whether the email was queued
+   */
+  async deliverReply(inquiry, reply, solution) {
+    realtimeService.sendToUser(inquiry.buyerId.toString(), 'notification', {
+      type: 'inquiry:reply',
+      inquiryId: inquiry._id,
+      solutionId: inquiry.solutionId,
+      solutionTitle: solution?.title,
+      preview: reply.message.slice(0, 140),
+      createdAt: reply.createdAt
+    });
+
+    const email = await emailService.queue('inquiryReply', inquiry.email, {
+      solutionId: inquiry.solutionId,
+      solutionTitle: solution?.title,
+      message: reply.message,
+      originalMessage: inquiry.message
+    }, { userId: inquiry.buyerId });
+
+    return Boolean(email);
+  }
+}
+
+module.exports = new InquiryService();
@@ -0,0 +1,29 @@
+/**
+ * Azure OpenAI LLM Provider - Chat completions through an Azure OpenAI resource
+ * The task model is used as the deployment name
+ */
+
+const { AzureOpenAI } = require('openai');
+const OpenAIProvider = require('./openaiProvider');
+
+class AzureOpenAIProvider extends OpenAIProvider {
+  constructor() {
+    const { AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY } = process.env;
+    if (!AZURE_OPENAI_ENDPOINT || !AZURE_OPENAI_API_KEY) {
+      throw new Error('LLM_PROVIDER=azure requires AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY');
+    }
+
+    super({
+      name: 'azure',
+      defaultModel: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o-mini',
+      client: new AzureOpenAI({
+        endpoint: AZURE_OPENAI_ENDPOINT,
+        apiKey: AZURE_OPENAI_API_KEY,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+        maxRetries: 0
+      })
+    });
+  }
+}
+
+module.exports = AzureOpenAIProvider;
@@ -0,0 +1,144 @@
+/**
+ * LLM Service - Selects the chat model provider and applies task settings and retries
+ * LLM_PROVIDER=openai (default), azure, local (Ollama/vLLM via an OpenAI-compatible API) or mock
+ *
+ * Messages use the OpenAI chat format (including assistant tool_calls and role: 'tool' results)
+ * and tools are given as { name, description, parameters } with a JSON schema.
+ */
+
+const llmConfig = require('../../config/llm');
+
+const providers = {
+  openai: () => {
+    const OpenAIProvider = require('./openaiProvider');
+    return new OpenAIProvider();
+  },
+  azure: () => {
+    const AzureOpenAIProvider = require('./azureOpenAIProvider');
+    return new AzureOpenAIProvider();
+  },
+  local: () => {
+    const LocalProvider = require('./localProvider');
+    return new LocalProvider();
+  },
+  mock: () => {
+    const MockProvider = require('./mockProvider');
+    return new MockProvider();
+  }
+};
+
+let activeProvider = null;
+
+/**
+ * Get the configured LLM provider (created on first use)
+ * @returns {Object} LLM provider instance
+ */
+const getLLMProvider = () => {
+  if (!activeProvider) {
+    const name = process.env.LLM_PROVIDER || 'openai';
+    if (!providers[name]) {
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${Object.keys(providers).join(', ')}`);
+    }
+    activeProvider = providers[name]();
+  }
+  return activeProvider;
+};
+
+/**
+ * Check whether the configured provider has everything it needs
+ * @returns {boolean}
+ */
+const isLLMConfigured = () => {
+  try {
+    getLLMProvider();
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Whether a failed call is worth retrying (rate limits, server errors, network failures)
+ * @param {Error} error - Error thrown by the provider
+ */
+const isRetryable = (error) => {
+  if (error.name === 'AbortError' || error.name === 'APIUserAbortError') return false;
+  if (error.status === undefined) return true;
+  return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a provider call, retrying with exponential backoff
+ * @param {Function} fn - Async function performing the call
+ * @param {Object} options - { signal }
+ */
+const withRetry = async (fn, options = {}) => {
+  const { maxRetries, baseDelayMs, maxDelayMs } = llmConfig.retry;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || options.signal?.aborted || !isRetryable(error)) {
+        throw error;
+      }
+
+      // Exponential backoff with jitter
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`LLM call failed (${error.status || error.message}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Build a provider-neutral request from a task's settings
+ * @param {Object} provider - LLM provider
+ * @param {string} task - Task name from config/llm.js
+ * @param {Array<Object>} messages - Chat messages
+ * @param {Object} overrides - Settings that take precedence over the task config
+ */
+const buildRequest = (provider, task, messages, overrides) => {
+  const config = { ...llmConfig.getTaskConfig(task), ...overrides };
+  return { ...config, model: config.model || provider.defaultModel, messages };
+};
+
+/**
+ * Generate a completion for a task
+ * @param {string} task - Task name from config/llm.js
+ * @param {Array<Object>} messages - Chat messages
+ * @param {Object} options - { signal, tools, ...setting overrides }
+ * @returns {Promise<Object>} { content, toolCalls, model, usage }
+ */
+const complete = async (task, messages, options = {}) => {
+  const { signal, ...overrides } = options;
+  const provider = getLLMProvider();
+  const request = buildRequest(provider, task, messages, overrides);
+
+  return withRetry(() => provider.complete(request, { signal }), { signal });
+};
+
+/**
+ * Stream a completion for a task
+ * Starting the stream is retried; once tokens flow, errors are passed to the caller.
+ * @param {string} task - Task name from config/llm.js
+ * @param {Array<Object>} messages - Chat messages
+ * @param {Object} options - { signal, tools, ...setting overrides }
+ * @returns {Promise<AsyncIterable<Object>>} { type: 'token', content } and { type: 'tool_call', toolCall } events
+ */
+const stream = async (task, messages, options = {}) => {
+  const { signal, ...overrides } = options;
+  const provider = getLLMProvider();
+  const request = buildRequest(provider, task, messages, overrides);
+
+  return withRetry(() => provider.stream(request, { signal }), { signal });
+};
+
+module.exports = {
+  getLLMProvider,
+  isLLMConfigured,
+  complete,
+  stream
+};
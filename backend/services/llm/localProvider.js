@@ -0,0 +1,24 @@
+/**
+ * Local LLM Provider - OpenAI-compatible endpoint such as Ollama or vLLM
+ * LLM_LOCAL_BASE_URL defaults to Ollama's OpenAI-compatible API
+ */
+
+const OpenAI = require('openai');
+const OpenAIProvider = require('./openaiProvider');
+
+class LocalProvider extends OpenAIProvider {
+  constructor() {
+    super({
+      name: 'local',
+      defaultModel: process.env.LLM_LOCAL_MODEL || 'llama3.1',
+      client: new OpenAI({
+        baseURL: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+        // Most local servers ignore the key, but the client requires one
+        apiKey: process.env.LLM_LOCAL_API_KEY || 'local',
+        maxRetries: 0
+      })
+    });
+  }
+}
+
+module.exports = LocalProvider;
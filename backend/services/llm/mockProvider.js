@@ -0,0 +1,57 @@
+/**
+ * Mock LLM Provider - Deterministic responses for tests and offline development
+ * Echoes the last user message; JSON tasks get an empty object. Never calls tools.
+ */
+
+class MockProvider {
+  constructor() {
+    this.name = 'mock';
+    this.defaultModel = 'mock';
+  }
+
+  /**
+   * Build the deterministic reply for a request
+   * @param {Object} request - Provider-neutral request
+   * @returns {string}
+   */
+  respond(request) {
+    if (request.json) {
+      return '{}';
+    }
+
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    return `Mock response to: ${lastUserMessage ? lastUserMessage.content : ''}`;
+  }
+
+  /**
+   * Generate a full completion
+   * @param {Object} request - Provider-neutral request
+   * @returns {Promise<Object>} { content, toolCalls, model, usage }
+   */
+  async complete(request) {
+    return { content: this.respond(request), toolCalls: [], model: this.defaultModel, usage: null };
+  }
+
+  /**
+   * Stream the same reply word by word
+   * @param {Object} request - Provider-neutral request
+   * @param {Object} options - { signal }
+   * @returns {Promise<AsyncIterable<Object>>} { type: 'token', content } events
+   */
+  async stream(request, options = {}) {
+    const tokens = this.respond(request).split(/(?=\s)/);
+
+    return (async function* () {
+      for (const token of tokens) {
+        if (options.signal?.aborted) {
+          const error = new Error('Request was aborted.');
+          error.name = 'AbortError';
+          throw error;
+        }
+        yield { type: 'token', content: token };
+      }
+    })();
+  }
+}
+
+module.exports = MockProvider;
@@ -0,0 +1,109 @@
+/**
+ * OpenAI LLM Provider - Chat completions through the OpenAI API
+ * Also the base class for the Azure and OpenAI-compatible local adapters
+ */
+
+const OpenAI = require('openai');
+
+class OpenAIProvider {
+  /**
+   * @param {Object} options - { name, defaultModel, client } for adapters that bring their own client
+   */
+  constructor(options = {}) {
+    if (!options.client && !process.env.OPENAI_API_KEY) {
+      throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+    }
+
+    this.name = options.name || 'openai';
+    this.defaultModel = options.defaultModel || 'gpt-4o-mini';
+    // Retries are handled by the LLM service so every provider backs off the same way
+    this.client = options.client || new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+  }
+
+  /**
+   * Map a provider-neutral request to chat completion parameters
+   * @param {Object} request - { model, messages, temperature, maxTokens, topP, frequencyPenalty, presencePenalty, json, tools, toolChoice }
+   */
+  buildParams(request) {
+    const params = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature
+    };
+
+    if (request.maxTokens !== undefined) params.max_tokens = request.maxTokens;
+    if (request.topP !== undefined) params.top_p = request.topP;
+    if (request.frequencyPenalty !== undefined) params.frequency_penalty = request.frequencyPenalty;
+    if (request.presencePenalty !== undefined) params.presence_penalty = request.presencePenalty;
+    if (request.json) params.response_format = { type: 'json_object' };
+    if (request.tools && request.tools.length > 0) {
+      params.tools = request.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }));
+      if (request.toolChoice) params.tool_choice = request.toolChoice;
+    }
+
+    return params;
+  }
+
+  /**
+   * Generate a full completion
+   * @param {Object} request - Provider-neutral request
+   * @param {Object} options - { signal }
+   * @returns {Promise<Object>} { content, toolCalls, model, usage }
+   */
+  async complete(request, options = {}) {
+    const completion = await this.client.chat.completions.create(this.buildParams(request), { signal: options.signal });
+    const message = completion.choices[0]?.message || {};
+
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      })),
+      model: completion.model,
+      usage: completion.usage || null
+    };
+  }
+
+  /**
+   * Start a streaming completion
+   * Resolves once the request is accepted, so connection errors can be retried before any token is emitted
+   * @param {Object} request - Provider-neutral request
+   * @param {Object} options - { signal }
+   * @returns {Promise<AsyncIterable<Object>>} { type: 'token', content } events, then one { type: 'tool_call', toolCall } per requested tool
+   */
+  async stream(request, options = {}) {
+    const stream = await this.client.chat.completions.create(
+      { ...this.buildParams(request), stream: true },
+      { signal: options.signal }
+    );
+
+    return (async function* () {
+      // Tool call names and arguments arrive in fragments keyed by index
+      const toolCalls = [];
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta || {};
+        if (delta.content) {
+          yield { type: 'token', content: delta.content };
+        }
+        (delta.tool_calls || []).forEach(fragment => {
+          const call = toolCalls[fragment.index] || (toolCalls[fragment.index] = { id: '', name: '', arguments: '' });
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        });
+      }
+
+      for (const toolCall of toolCalls.filter(Boolean)) {
+        yield { type: 'tool_call', toolCall };
+      }
+    })();
+  }
+}
+
+module.exports = OpenAIProvider;
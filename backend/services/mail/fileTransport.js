@@ -0,0 +1,80 @@
+/**
+ * File Mail Transport - Writes each message as an .eml file instead of sending it
+ * Open the files in any mail client to check how a message renders
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+class FileTransport {
+  constructor() {
+    this.name = 'file';
+    this.outboxDir = path.resolve(process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '../../mail-outbox'));
+  }
+
+  /**
+   * Encode a header value that may contain non-ASCII characters
+   * @param {string} value - Header value
+   */
+  encodeHeader(value) {
+    return /^[\x20-\x7e]*$/.test(value)
+      ? value
+      : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+
+  /**
+   * Build a multipart/alternative MIME message
+   * @param {Object} message - { from, to, subject, html, text, headers }
+   * @param {string} messageId - Message-ID header value
+   * @returns {string} Raw message
+   */
+  buildMessage(message, messageId) {
+    const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+    const headers = {
+      From: message.from,
+      To: message.to,
+      Subject: this.encodeHeader(message.subject || ''),
+      Date: new Date().toUTCString(),
+      'Message-ID': messageId,
+      'MIME-Version': '1.0',
+      ...message.headers,
+      'Content-Type': `multipart/alternative; boundary="${boundary}"`
+    };
+
+    const part = (type, body) => [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from(body).toString('base64').replace(/.{76}/g, '$&\r\n')
+    ].join('\r\n');
+
+    return [
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      '',
+      part('text/plain', message.text || ''),
+      part('text/html', message.html || ''),
+      `--${boundary}--`,
+      ''
+    ].join('\r\n');
+  }
+
+  /**
+   * Write a message to the outbox directory
+   * @param {Object} message - { from, to, subject, html, text, headers }
+   * @returns {Promise<Object>} { messageId, path }
+   */
+  async send(message) {
+    const id = `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+    const messageId = `<${id}@astrovault.local>`;
+    const filePath = path.join(this.outboxDir, `${id}.eml`);
+
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+    await fs.promises.writeFile(filePath, this.buildMessage(message, messageId));
+
+    return { messageId, path: filePath };
+  }
+}
+
+module.exports = FileTransport;
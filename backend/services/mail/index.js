@@ -0,0 +1,64 @@
+/**
+ * Mail Service - Selects the outgoing mail transport
+ * MAIL_TRANSPORT=file (default) writes .eml files to disk, MAIL_TRANSPORT=memory keeps them in memory,
+ * MAIL_TRANSPORT=smtp sends over SMTP (point it at Mailpit/MailHog on localhost:1025 to catch mail locally)
+ *
+ * Messages are given as { to, subject, html, text, headers } and transports resolve to { messageId }.
+ */
+
+const FileTransport = require('./fileTransport');
+const MemoryTransport = require('./memoryTransport');
+
+const transports = {
+  file: () => new FileTransport(),
+  memory: () => new MemoryTransport(),
+  smtp: () => {
+    const SmtpTransport = require('./smtpTransport');
+    return new SmtpTransport();
+  }
+};
+
+let activeTransport = null;
+
+/**
+ * Get the configured mail transport (created on first use)
+ * @returns {Object} Mail transport instance
+ */
+const getMailTransport = () => {
+  if (!activeTransport) {
+    const name = process.env.MAIL_TRANSPORT || 'file';
+    if (!transports[name]) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}". Use one of: ${Object.keys(transports).join(', ')}`);
+    }
+    activeTransport = transports[name]();
+  }
+  return activeTransport;
+};
+
+/**
+ * Whether the superadmin dev mailbox may be served
+ * Only local transports outside production: with SMTP the outbox holds live account links
+ * @returns {boolean} True for the file or memory transport when NODE_ENV is not production
+ */
+const isDevMailboxEnabled = () => {
+  const name = process.env.MAIL_TRANSPORT || 'file';
+  return ['file', 'memory'].includes(name) && process.env.NODE_ENV !== 'production';
+};
+
+/**
+ * Send a message with the default sender
+ * @param {Object} message - { to, subject, html, text, headers, from? }
+ * @returns {Promise<Object>} { messageId }
+ */
+const sendMail = (message) => {
+  return getMailTransport().send({
+    from: process.env.MAIL_FROM || 'AstroVault AI <no-reply@localhost>',
+    ...message
+  });
+};
+
+module.exports = {
+  getMailTransport,
+  isDevMailboxEnabled,
+  sendMail
+};
@@ -0,0 +1,32 @@
+/**
+ * Memory Mail Transport - Keeps sent messages in process memory instead of sending them
+ * Useful in development and tests; the outbox in the dev mailbox shows what was "sent"
+ */
+
+const crypto = require('crypto');
+
+class MemoryTransport {
+  constructor() {
+    this.name = 'memory';
+    this.limit = parseInt(process.env.MAIL_MEMORY_LIMIT) || 200;
+    this.messages = [];
+  }
+
+  /**
+   * Store a message, dropping the oldest once the limit is reached
+   * @param {Object} message - { from, to, subject, html, text, headers }
+   * @returns {Promise<Object>} { messageId }
+   */
+  async send(message) {
+    const messageId = `<${Date.now()}-${crypto.randomBytes(6).toString('hex')}@astrovault.local>`;
+
+    this.messages.push({ ...message, messageId, sentAt: new Date() });
+    if (this.messages.length > this.limit) {
+      this.messages.splice(0, this.messages.length - this.limit);
+    }
+
+    return { messageId };
+  }
+}
+
+module.exports = MemoryTransport;
@@ -0,0 +1,40 @@
+/**
+ * SMTP Mail Transport - Sends messages through an SMTP server
+ * Works with real providers and with local catchers such as Mailpit or MailHog
+ */
+
+const nodemailer = require('nodemailer');
+
+class SmtpTransport {
+  constructor() {
+    this.name = 'smtp';
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT) || 1025,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASSWORD
+      } : undefined
+    });
+  }
+
+  /**
+   * Send a message
+   * @param {Object} message - { from, to, subject, html, text, headers }
+   * @returns {Promise<Object>} { messageId }
+   */
+  async send(message) {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+module.exports = SmtpTransport;
@@ -0,0 +1,226 @@
+/**
+ * Mail Templates - Transactional messages rendered to { subject, html, text }
+ * Every template carries sample data so it can be previewed from the dev mailbox.
+ */
+
+const clientUrl = () => process.env.CLIENT_URL || 'http://localhost:3000';
+
+// Escape text for HTML output
+const escapeHtml = (value = '') => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Plain text to HTML paragraphs
+const paragraphs = (text = '') => escapeHtml(text)
+  .split(/\n{2,}/)
+  .map(paragraph => `<p style="margin:0 0 12px;line-height:1.5;">${paragraph.replace(/\n/g, '<br>')}</p>`)
+  .join('');
+
+// Call-to-action link styled as a button
+const button = (href, label) =>
+  `<a href="${escapeHtml(href)}" style="display:inline-block;margin-top:8px;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a>`;
+
+// Wrap a message body in the shared email layout
+const layout = (body) => `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      ${body}
+    </div>
+    <p style="max-width:600px;margin:16px auto 0;color:#9ca3af;font-size:12px;text-align:center;">
+      You received this email because of activity on your AstroVault AI account.
+    </p>
+  </body>
+</html>`;
+
+const heading = (text) => `<h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(text)}</h1>`;
+
+const templates = {
+  welcome: {
+    description: 'Sent after registration',
+    sample: { firstName: 'Ada', role: 'customer' },
+    render: ({ firstName, role }) => {
+      const url = `${clientUrl()}/dashboard`;
+      const intro = role === 'vendor'
+        ? 'List your solutions and respond to proposals from healthcare buyers.'
+        : 'Search solutions, compare vendors and post proposals to find the right fit.';
+
+      return {
+        subject: 'Welcome to AstroVault AI',
+        text: `Hi ${firstName},\n\nWelcome to AstroVault AI. ${intro}\n\nGo to your dashboard: ${url}`,
+        html: layout(`
+          ${heading(`Welcome, ${firstName}`)}
+          ${paragraphs(`Welcome to AstroVault AI. ${intro}`)}
+          ${button(url, 'Go to your dashboard')}
+        `)
+      };
+    }
+  },
+
+  verifyEmail: {
+    description: 'Email address confirmation link',
+    sample: { firstName: 'Ada', token: 'sample-token', expiresInHours: 24 },
+    render: ({ firstName, token, expiresInHours = 24 }) => {
+      const url = `${clientUrl()}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+      return {
+        subject: 'Confirm your email address',
+        text: `Hi ${firstName},\n\nConfirm your email address by opening this link within ${expiresInHours} hours:\n${url}`,
+        html: layout(`
+          ${heading('Confirm your email address')}
+          ${paragraphs(`Hi ${firstName}, please confirm your email address. The link expires in ${expiresInHours} hours.`)}
+          ${button(url, 'Confirm email')}
+        `)
+      };
+    }
+  },
+
+  passwordReset: {
+    description: 'Password reset link',
+    sample: { firstName: 'Ada', token: 'sample-token', expiresInMinutes: 60 },
+    render: ({ firstName, token, expiresInMinutes = 60 }) => {
+      const url = `${clientUrl()}/auth/reset-password?token=${encodeURIComponent(token)}`;
+      const note = `The link expires in ${expiresInMinutes} minutes. If you did not ask for a reset, you can ignore this email.`;
+
+      return {
+        subject: 'Reset your password',
+        text: `Hi ${firstName},\n\nReset your password here:\n${url}\n\n${note}`,
+        html: layout(`
+          ${heading('Reset your password')}
+          ${paragraphs(`Hi ${firstName}, we received a request to reset your password.`)}
+          ${button(url, 'Choose a new password')}
+          <p style="margin:16px 0 0;color:#6b7280;font-size:14px;">${escapeHtml(note)}</p>
+        `)
+      };
+    }
+  },
+
+  proposalResponse: {
+    description: 'A vendor responded to a customer proposal',
+    sample: { firstName: 'Ada', proposalId: '000000000000000000000000', proposalTitle: 'Patient intake automation', vendorName: 'Grace Hopper', vendorCompany: 'Compiler Health' },
+    render: ({ firstName, proposalId, proposalTitle, vendorName, vendorCompany }) => {
+      const url = `${clientUrl()}/proposals/${proposalId}`;
+      const from = vendorCompany ? `${vendorName} (${vendorCompany})` : vendorName;
+
+      return {
+        subject: `New response to "${proposalTitle}"`,
+        text: `Hi ${firstName},\n\n${from} responded to your proposal "${proposalTitle}".\n\nReview the response: ${url}`,
+        html: layout(`
+          ${heading('You have a new response')}
+          ${paragraphs(`Hi ${firstName}, ${from} responded to your proposal "${proposalTitle}".`)}
+          ${button(url, 'Review the response')}
+        `)
+      };
+    }
+  },
+
+  responseAccepted: {
+    description: 'A customer accepted a vendor response',
+    sample: { firstName: 'Grace', proposalId: '000000000000000000000000', proposalTitle: 'Patient intake automation' },
+    render: ({ firstName, proposalId, proposalTitle }) => {
+      const url = `${clientUrl()}/proposals/${proposalId}`;
+
+      return {
+        subject: `Your response to "${proposalTitle}" was accepted`,
+        text: `Hi ${firstName},\n\nGood news: your response to "${proposalTitle}" was accepted. The hire is awaiting admin verification.\n\nOpen the proposal: ${url}`,
+        html: layout(`
+          ${heading('Your response was accepted')}
+          ${paragraphs(`Hi ${firstName}, good news: your response to "${proposalTitle}" was accepted. The hire is awaiting admin verification.`)}
+          ${button(url, 'Open the proposal')}
+        `)
+      };
+    }
+  },
+
+  newInquiry: {
+    description: 'A buyer contacted a vendor about a solution',
+    sample: { inquiryId: '000000000000000000000000', solutionTitle: 'Triage Assistant', name: 'Ada Lovelace', email: 'ada@example.com', company: 'Analytical Clinic', message: 'Does this integrate with our EHR?\n\nThanks, Ada' },
+    render: ({ inquiryId, solutionTitle, name, email, company, message }) => {
+      const url = `${clientUrl()}/vendor/inquiries?id=${inquiryId}`;
+      const from = company ? `${name} (${company})` : name;
+
+      return {
+        subject: `New inquiry about ${solutionTitle}`,
+        text: `${from} <${email}> asked about ${solutionTitle}:\n\n${message}\n\nOpen your inbox: ${url}`,
+        html: layout(`
+          ${heading(`New inquiry about ${solutionTitle}`)}
+          <p style="margin:0 0 16px;color:#4b5563;">From ${escapeHtml(from)} &lt;${escapeHtml(email)}&gt;</p>
+          ${paragraphs(message)}
+          ${button(url, 'Open inquiry')}
+        `)
+      };
+    }
+  },
+
+  inquiryReply: {
+    description: 'A vendor replied to a buyer inquiry',
+    sample: { solutionId: '000000000000000000000000', solutionTitle: 'Triage Assistant', message: 'Yes, we support HL7 and FHIR.', originalMessage: 'Does this integrate with our EHR?' },
+    render: ({ solutionId, solutionTitle, message, originalMessage }) => {
+      const url = `${clientUrl()}/solutions/${solutionId}`;
+      const title = solutionTitle || 'your inquiry';
+
+      return {
+        subject: `Re: your inquiry about ${title}`,
+        text: `${message}\n\n---\nYou wrote:\n${originalMessage}\n\nView the solution: ${url}`,
+        html: layout(`
+          ${heading(`Reply about ${title}`)}
+          ${paragraphs(message)}
+          <div style="margin-top:24px;padding-top:16px;border-top:1px solid #e5e7eb;color:#6b7280;font-size:14px;">
+            <p style="margin:0 0 8px;">You wrote:</p>
+            ${paragraphs(originalMessage)}
+            <a href="${escapeHtml(url)}" style="color:#2563eb;">View the solution</a>
+          </div>
+        `)
+      };
+    }
+  },
+
+  organizationInvite: {
+    description: 'An invitation to join an organization',
+    sample: { organizationName: 'Compiler Health', inviterName: 'Grace Hopper', role: 'member', token: 'sample-token', expiresInDays: 7 },
+    render: ({ organizationName, inviterName, role, token, expiresInDays = 7 }) => {
+      const url = `${clientUrl()}/organizations/accept?token=${encodeURIComponent(token)}`;
+      const note = `The invitation expires in ${expiresInDays} days. Sign in or create an account with this email address to accept it.`;
+
+      return {
+        subject: `Join ${organizationName} on AstroVault AI`,
+        text: `${inviterName} invited you to join ${organizationName} as ${role === 'admin' ? 'an admin' : 'a member'}.\n\nAccept the invitation: ${url}\n\n${note}`,
+        html: layout(`
+          ${heading(`Join ${organizationName}`)}
+          ${paragraphs(`${inviterName} invited you to join ${organizationName} as ${role === 'admin' ? 'an admin' : 'a member'}.`)}
+          ${button(url, 'Accept invitation')}
+          <p style="margin:16px 0 0;color:#6b7280;font-size:14px;">${escapeHtml(note)}</p>
+        `)
+      };
+    }
+  }
+};
+
+/**
+ * Render a template
+ * @param {string} name - Template name
+ * @param {Object} data - Template data
+ * @returns {Object} { subject, html, text }
+ */
+const render = (name, data = {}) => {
+  const template = templates[name];
+  if (!template) {
+    throw new Error(`Unknown mail template "${name}"`);
+  }
+  return template.render(data);
+};
+
+/**
+ * List the templates with their sample data
+ * @returns {Array<Object>} { name, description, sample }
+ */
+const listTemplates = () => Object.entries(templates)
+  .map(([name, { description, sample }]) => ({ name, description, sample }));
+
+module.exports = {
+  TEMPLATE_NAMES: Object.keys(templates),
+  render,
+  listTemplates
+};
@@ -0,0 +1,443 @@
+/**
+ * Newsletter Service - Audience segments, rendering, sending and engagement tracking
+ * Each recipient gets a NewsletterDelivery whose token is embedded in the open pixel,
+ * tracked links and unsubscribe link. Scheduled newsletters are sent by a timer started
+ * with the server.
+ */
+
+const crypto = require('crypto');
+const Newsletter = require('../models/Newsletter');
+const NewsletterDelivery = require('../models/NewsletterDelivery');
+const User = require('../models/User');
+const { sendMail } = require('./mail');
+
+// Statuses a newsletter can be sent from
+const SENDABLE_STATUSES = ['draft', 'scheduled', 'published'];
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Escape text for HTML output
+const escapeHtml = (value = '') => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Case-insensitive exact matches for a list of values
+const anyOf = (values) => values.map(value => new RegExp(`^${escapeRegex(value.trim())}$`, 'i'));
+
+class NewsletterService {
+  constructor() {
+    this.schedulerTimer = null;
+    this.schedulerRunning = false;
+  }
+
+  get clientUrl() {
+    return process.env.CLIENT_URL || 'http://localhost:3000';
+  }
+
+  get apiUrl() {
+    return process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+  }
+
+  /**
+   * Build the User query for a newsletter's audience (subscribed, active users only)
+   * @param {Object} distribution - Newsletter.distribution
+   * @returns {Object} Mongo query
+   */
+  buildAudienceQuery(distribution = {}) {
+    const { targetAudience = 'all', industryFilter = [], roleFilter = [], customFilters = {} } = distribution;
+    const query = { isActive: true, 'newsletter.subscribed': { $ne: false } };
+
+    switch (targetAudience) {
+      case 'customers':
+        query.role = 'customer';
+        break;
+      case 'vendors':
+        query.role = 'vendor';
+        break;
+      case 'specific-industry':
+        query.industry = { $in: anyOf(industryFilter) };
+        break;
+      case 'custom':
+        if (roleFilter.length) query.role = { $in: roleFilter };
+        if (industryFilter.length) query.industry = { $in: anyOf(industryFilter) };
+        if (customFilters?.interests?.length) query.interests = { $in: anyOf(customFilters.interests) };
+        break;
+      default:
+        break;
+    }
+
+    return query;
+  }
+
+  /**
+   * Count the users a distribution would reach
+   * @param {Object} distribution - Newsletter.distribution
+   * @returns {Promise<number>}
+   */
+  countAudience(distribution) {
+    return User.countDocuments(this.buildAudienceQuery(distribution));
+  }
+
+  /**
+   * Signature for a tracked link, so the click endpoint cannot be used as an open redirect
+   * @param {string} token - Delivery token
+   * @param {string} url - Destination URL
+   */
+  signLink(token, url) {
+    return crypto
+      .createHmac('sha256', process.env.NEWSLETTER_SIGNING_SECRET || process.env.JWT_SECRET)
+      .update(`${token}:${url}`)
+      .digest('hex');
+  }
+
+  /**
+   * Verify a tracked link signature
+   * @param {string} token - Delivery token
+   * @param {string} url - Destination URL from the query string
+   * @param {string} signature - Signature from the query string
+   * @returns {boolean}
+   */
+  verifyLink(token, url, signature) {
+    if (typeof url !== 'string' || !url || !signature) return false;
+    const expected = Buffer.from(this.signLink(token, url));
+    const provided = Buffer.from(String(signature));
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Render newsletter Markdown (headings, paragraphs, lists, links, bold and italics) as HTML
+   * @param {string} text - Markdown source
+   * @returns {string} HTML
+   */
+  renderMarkdown(text = '') {
+    const inline = (value) => escapeHtml(value)
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2" style="color:inherit;">$1</a>')
+      .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+      .replace(/\*([^*]+)\*/g, '<em>$1</em>');
+
+    return text.trim().split(/\n{2,}/).map(block => {
+      const heading = block.match(/^(#{1,3})\s+(.+)$/);
+      if (heading) {
+        const size = { 1: 24, 2: 20, 3: 17 }[heading[1].length];
+        return `<h${heading[1].length} style="font-size:${size}px;margin:24px 0 8px;">${inline(heading[2])}</h${heading[1].length}>`;
+      }
+
+      const lines = block.split('\n');
+      if (lines.every(line => /^[-*]\s+/.test(line))) {
+        const items = lines.map(line => `<li style="margin:4px 0;">${inline(line.replace(/^[-*]\s+/, ''))}</li>`);
+        return `<ul style="padding-left:20px;margin:0 0 16px;">${items.join('')}</ul>`;
+      }
+
+      return `<p style="margin:0 0 16px;line-height:1.6;">${lines.map(inline).join('<br>')}</p>`;
+    }).join('\n');
+  }
+
+  /**
+   * Render a newsletter for one recipient
+   * @param {Object} newsletter - Newsletter with featuredSolutions/featuredBlogs populated
+   * @param {string|null} token - Delivery token, or null for previews and test sends (no tracking)
+   * @returns {Object} { subject, html, text, headers }
+   */
+  render(newsletter, token = null) {
+    const customColors = newsletter.template?.colors || {};
+    const colors = {
+      primary: customColors.primary || '#7c3aed',
+      background: customColors.background || '#f3f4f6',
+      text: customColors.text || '#111827'
+    };
+    const unsubscribeUrl = `${this.clientUrl}/newsletter/unsubscribe?token=${token || 'preview'}`;
+
+    const solutions = (newsletter.featuredSolutions || []).filter(solution => solution?.title);
+    const blogs = (newsletter.featuredBlogs || []).filter(blog => blog?.title);
+
+    const card = (title, description, url) => `
+      <tr><td style="padding:12px 0;border-top:1px solid #e5e7eb;">
+        <a href="${url}" style="color:${colors.primary};font-weight:600;text-decoration:none;">${escapeHtml(title)}</a>
+        <p style="margin:4px 0 0;color:#4b5563;font-size:14px;line-height:1.5;">${escapeHtml(description || '')}</p>
+      </td></tr>`;
+
+    const section = (heading, rows) => rows.length ? `
+      <h2 style="font-size:18px;margin:32px 0 8px;">${heading}</h2>
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows.join('')}</table>` : '';
+
+    let body = `
+      ${newsletter.template?.headerImage ? `<img src="${escapeHtml(newsletter.template.headerImage)}" alt="" width="600" style="display:block;width:100%;border-radius:8px;margin-bottom:24px;">` : ''}
+      <h1 style="font-size:26px;margin:0 0 8px;">${escapeHtml(newsletter.title)}</h1>
+      <p style="margin:0 0 24px;color:#6b7280;">${escapeHtml(newsletter.description)}</p>
+      ${newsletter.htmlContent || this.renderMarkdown(newsletter.content)}
+      ${section('Featured solutions', solutions.map(solution => card(
+        solution.title, solution.shortDescription, `${this.clientUrl}/solutions/${solution._id}`
+      )))}
+      ${section('From the blog', blogs.map(blog => card(
+        blog.title, blog.excerpt, `${this.clientUrl}/blog/${blog.slug}`
+      )))}`;
+
+    // Route every link through the click tracker
+    if (token) {
+      body = body.replace(/href="(https?:\/\/[^"]+)"/g, (match, escapedUrl) => {
+        const url = escapedUrl.replace(/&amp;/g, '&');
+        const tracked = `${this.apiUrl}/api/newsletters/track/${token}/click?url=${encodeURIComponent(url)}&sig=${this.signLink(token, url)}`;
+        return `href="${escapeHtml(tracked)}"`;
+      });
+    }
+
+    const html = `<!DOCTYPE html>
+<html><body style="margin:0;padding:0;background:${colors.background};">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px 12px;">
+    <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:12px;">
+      <tr><td style="padding:32px;font-family:Arial,Helvetica,sans-serif;color:${colors.text};">${body}</td></tr>
+      <tr><td style="padding:24px 32px;border-top:1px solid #e5e7eb;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#6b7280;">
+        ${newsletter.template?.footerContent ? `<p style="margin:0 0 8px;">${escapeHtml(newsletter.template.footerContent)}</p>` : ''}
+        You are receiving this because you have an AstroVault AI account.
+        <a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280;">Unsubscribe</a>
+      </td></tr>
+    </table>
+  </td></tr></table>
+  ${token ? `<img src="${this.apiUrl}/api/newsletters/track/${token}/open.gif" width="1" height="1" alt="" style="display:block;">` : ''}
+</body></html>`;
+
+    const text = [
+      newsletter.title,
+      newsletter.description,
+      newsletter.content,
+      ...solutions.map(solution => `${solution.title}: ${this.clientUrl}/solutions/${solution._id}`),
+      ...blogs.map(blog => `${blog.title}: ${this.clientUrl}/blog/${blog.slug}`),
+      `Unsubscribe: ${unsubscribeUrl}`
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      subject: newsletter.title,
+      html,
+      text,
+      headers: token ? {
+        'List-Unsubscribe': `<${this.apiUrl}/api/newsletters/unsubscribe/${token}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      } : {}
+    };
+  }
+
+  /**
+   * Load a newsletter with the content its email embeds
+   * @param {string} newsletterId - Newsletter ID
+   */
+  loadForRendering(newsletterId) {
+    return Newsletter.findById(newsletterId)
+      .populate('featuredSolutions', 'title shortDescription')
+      .populate('featuredBlogs', 'title excerpt slug');
+  }
+
+  /**
+   * Send an untracked copy to one address
+   * @param {string} newsletterId - Newsletter ID
+   * @param {string} email - Recipient
+   */
+  async sendTest(newsletterId, email) {
+    const newsletter = await this.loadForRendering(newsletterId);
+    const message = this.render(newsletter);
+    return sendMail({ ...message, to: email, subject: `[Test] ${message.subject}` });
+  }
+
+  /**
+   * Claim a newsletter for sending so it is never sent twice at once
+   * @param {string} newsletterId - Newsletter ID
+   * @returns {Promise<Object|null>} The claimed newsletter, or null if it is not sendable
+   */
+  async claim(newsletterId) {
+    const newsletter = await Newsletter.findOneAndUpdate(
+      { _id: newsletterId, status: { $in: SENDABLE_STATUSES } },
+      { $set: { status: 'sending' }, $unset: { sendError: 1 } },
+      { new: true }
+    );
+    if (newsletter) {
+      newsletter.distribution.recipientCount = await this.countAudience(newsletter.distribution);
+      await newsletter.save();
+    }
+    return newsletter;
+  }
+
+  /**
+   * Deliver a claimed newsletter to its audience
+   * Recipients that already have a sent delivery are skipped, so an interrupted send can resume.
+   * @param {string} newsletterId - Newsletter ID (status 'sending')
+   * @returns {Promise<Object>} { delivered, failed }
+   */
+  async deliver(newsletterId) {
+    const newsletter = await this.loadForRendering(newsletterId);
+
+    try {
+      const recipients = User.find(this.buildAudienceQuery(newsletter.distribution)).select('email').cursor();
+
+      for await (const user of recipients) {
+        const delivery = await NewsletterDelivery.findOneAndUpdate(
+          { newsletterId: newsletter._id, userId: user._id },
+          { $setOnInsert: { email: user.email } },
+          { upsert: true, new: true, setDefaultsOnInsert: true }
+        );
+        if (delivery.status === 'sent') continue;
+
+        try {
+          const { messageId } = await sendMail({ ...this.render(newsletter, delivery.token), to: delivery.email });
+          Object.assign(delivery, { status: 'sent', messageId, sentAt: new Date(), error: undefined });
+        } catch (error) {
+          Object.assign(delivery, { status: 'failed', error: error.message });
+        }
+        await delivery.save();
+      }
+
+      const [delivered, failed] = await Promise.all([
+        NewsletterDelivery.countDocuments({ newsletterId: newsletter._id, status: 'sent' }),
+        NewsletterDelivery.countDocuments({ newsletterId: newsletter._id, status: 'failed' })
+      ]);
+
+      newsletter.metrics.delivered = delivered;
+      newsletter.metrics.bounced = failed;
+      await newsletter.markAsSent(delivered + failed);
+
+      return { delivered, failed };
+    } catch (error) {
+      // Leave completed deliveries in place; sending again picks up where this stopped
+      await Newsletter.updateOne({ _id: newsletter._id }, { status: 'draft', sendError: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Claim and deliver a newsletter
+   * @param {string} newsletterId - Newsletter ID
+   * @returns {Promise<Object|null>} Delivery counts, or null if it was not sendable
+   */
+  async send(newsletterId) {
+    const claimed = await this.claim(newsletterId);
+    return claimed ? this.deliver(claimed._id) : null;
+  }
+
+  /**
+   * Send every scheduled newsletter that is due
+   */
+  async sendDue() {
+    if (this.schedulerRunning) return;
+    this.schedulerRunning = true;
+
+    try {
+      const due = await Newsletter.findScheduled();
+      for (const newsletter of due) {
+        try {
+          const result = await this.send(newsletter._id);
+          if (result) {
+            console.log(`📧 Newsletter "${newsletter.title}" sent: ${result.delivered} delivered, ${result.failed} failed`);
+          }
+        } catch (error) {
+          console.error(`Newsletter "${newsletter.title}" failed to send:`, error.message);
+        }
+      }
+    } finally {
+      this.schedulerRunning = false;
+    }
+  }
+
+  /**
+   * Finish sends that were interrupted by a restart
+   */
+  async resumeInterrupted() {
+    const interrupted = await Newsletter.find({ status: 'sending' }).select('_id title');
+    for (const newsletter of interrupted) {
+      try {
+        await this.deliver(newsletter._id);
+      } catch (error) {
+        console.error(`Newsletter "${newsletter.title}" failed to resume:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Resume interrupted sends, then check for due newsletters on an interval
+   * @param {number} intervalMs - Check interval (NEWSLETTER_SCHEDULER_INTERVAL_MS, default 60s)
+   */
+  startScheduler(intervalMs = parseInt(process.env.NEWSLETTER_SCHEDULER_INTERVAL_MS) || 60000) {
+    if (this.schedulerTimer) return;
+
+    this.resumeInterrupted().catch(error => console.error('Newsletter resume error:', error.message));
+
+    this.schedulerTimer = setInterval(() => {
+      this.sendDue().catch(error => console.error('Newsletter scheduler error:', error.message));
+    }, intervalMs);
+    this.schedulerTimer.unref();
+  }
+
+  /**
+   * Record the first open of a delivery
+   * @param {string} token - Delivery token
+   */
+  async recordOpen(token) {
+    const delivery = await NewsletterDelivery.findOneAndUpdate(
+      { token, openedAt: null },
+      { openedAt: new Date() }
+    );
+    if (delivery) {
+      await Newsletter.updateOne({ _id: delivery.newsletterId }, { $inc: { 'metrics.opened': 1 } });
+    }
+  }
+
+  /**
+   * Record a click (a click also counts as an open for clients that block images)
+   * @param {string} token - Delivery token
+   */
+  async recordClick(token) {
+    const firstClick = await NewsletterDelivery.findOneAndUpdate(
+      { token, clickedAt: null },
+      { clickedAt: new Date(), $inc: { clickCount: 1 } }
+    );
+
+    if (firstClick) {
+      await Newsletter.updateOne({ _id: firstClick.newsletterId }, { $inc: { 'metrics.clicked': 1 } });
+      await this.recordOpen(token);
+    } else {
+      await NewsletterDelivery.updateOne({ token }, { $inc: { clickCount: 1 } });
+    }
+  }
+
+  /**
+   * Unsubscribe the recipient of a delivery from all newsletters
+   * @param {string} token - Delivery token
+   * @returns {Promise<Object|null>} The delivery, or null for an unknown token
+   */
+  async unsubscribe(token) {
+    const delivery = await NewsletterDelivery.findOne({ token });
+    if (!delivery) return null;
+
+    await User.updateOne(
+      { _id: delivery.userId },
+      { 'newsletter.subscribed': false, 'newsletter.unsubscribedAt': new Date() }
+    );
+
+    if (!delivery.unsubscribedAt) {
+      delivery.unsubscribedAt = new Date();
+      await delivery.save();
+      await Newsletter.updateOne({ _id: delivery.newsletterId }, { $inc: { 'metrics.unsubscribed': 1 } });
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Undo an unsubscribe from the same link
+   * @param {string} token - Delivery token
+   * @returns {Promise<Object|null>} The delivery, or null for an unknown token
+   */
+  async resubscribe(token) {
+    const delivery = await NewsletterDelivery.findOne({ token });
+    if (!delivery) return null;
+
+    await User.updateOne(
+      { _id: delivery.userId },
+      { 'newsletter.subscribed': true, $unset: { 'newsletter.unsubscribedAt': 1 } }
+    );
+
+    return delivery;
+  }
+}
+
+module.exports = new NewsletterService();
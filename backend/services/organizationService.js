@@ -0,0 +1,180 @@
+/**
+ * Organization Service - Membership lookups and shared ownership checks
+ * Proposals, solutions, inquiries and vendor/institution profiles carry an organizationId
+ * next to the user who created them. A user can manage a record they created or one owned
+ * by an organization they belong to; some actions are limited to owners and admins.
+ */
+
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const emailService = require('./emailService');
+
+// Roles that can manage members, invitations and organization profiles
+const MANAGER_ROLES = ['owner', 'admin'];
+
+// Read an ObjectId from a plain or populated reference
+const refId = (value) => (value && value._id ? value._id : value);
+
+class OrganizationService {
+  get managerRoles() {
+    return MANAGER_ROLES;
+  }
+
+  /**
+   * IDs of every organization a user belongs to
+   * @param {string} userId - User ID
+   * @returns {Promise<Array>} Organization IDs
+   */
+  memberOrganizationIds(userId) {
+    return Organization.find({ 'members.userId': userId }).distinct('_id');
+  }
+
+  /**
+   * IDs of every member of an organization
+   * @param {string} organizationId - Organization ID
+   * @returns {Promise<Array<string>>} User IDs
+   */
+  async memberUserIds(organizationId) {
+    const organization = await Organization.findById(organizationId).select('members.userId').lean();
+    return organization ? organization.members.map(member => member.userId.toString()) : [];
+  }
+
+  /**
+   * Query filter for records a user owns directly or through an organization
+   * @param {Object} user - Authenticated user
+   * @param {string} ownerField - Field holding the creating user (e.g. createdBy, vendorId)
+   * @returns {Promise<Object>} MongoDB filter
+   */
+  async ownerFilter(user, ownerField) {
+    const organizationIds = await this.memberOrganizationIds(user._id);
+    if (organizationIds.length === 0) {
+      return { [ownerField]: user._id };
+    }
+
+    return {
+      $or: [
+        { [ownerField]: user._id },
+        { organizationId: { $in: organizationIds } }
+      ]
+    };
+  }
+
+  /**
+   * Whether a user may manage a record: they created it, or they are a member of the
+   * organization that owns it (with one of the given roles, if any are listed)
+   * @param {Object} user - Authenticated user
+   * @param {Object} doc - Record with an organizationId
+   * @param {string} ownerField - Field holding the creating user
+   * @param {Array<string>} roles - Organization roles allowed (any member when empty)
+   * @returns {Promise<boolean>} True if allowed
+   */
+  async canManage(user, doc, ownerField, roles = []) {
+    const ownerId = refId(doc[ownerField]);
+    if (ownerId && ownerId.toString() === user._id.toString()) {
+      return true;
+    }
+
+    const organizationId = refId(doc.organizationId);
+    if (!organizationId) {
+      return false;
+    }
+
+    const member = { userId: user._id };
+    if (roles.length > 0) {
+      member.role = { $in: roles };
+    }
+
+    return Boolean(await Organization.exists({ _id: organizationId, members: { $elemMatch: member } }));
+  }
+
+  /**
+   * The organization a user is working in, if they are still a member of it
+   * @param {Object} user - User document
+   * @returns {Promise<Object|null>} Organization document
+   */
+  async getActiveOrganization(user) {
+    if (!user.activeOrganizationId) {
+      return null;
+    }
+    return Organization.findOne({ _id: user.activeOrganizationId, 'members.userId': user._id });
+  }
+
+  /**
+   * Organization to stamp on a record the user creates
+   * @param {Object} user - Authenticated user
+   * @returns {Object|undefined} Organization ID
+   */
+  ownerOrganizationId(user) {
+    return user.activeOrganizationId || undefined;
+  }
+
+  /**
+   * Find the vendor or institution profile a user works on: the active organization's
+   * profile if it has one, otherwise the user's own
+   * @param {Object} Model - Vendor or HealthcareInstitution model
+   * @param {Object} user - Authenticated user
+   * @returns {Promise<Object|null>} Profile document
+   */
+  async findProfile(Model, user) {
+    if (user.activeOrganizationId) {
+      const profile = await Model.findOne({ organizationId: user.activeOrganizationId });
+      if (profile) {
+        return profile;
+      }
+    }
+    return Model.findOne({ userId: user._id });
+  }
+
+  /**
+   * Make an organization the user's active one (vendor organizations also set the
+   * user's company, which solutions are listed under)
+   * @param {Object} user - User document
+   * @param {Object} organization - Organization the user belongs to
+   * @returns {Promise<Object>} Updated user
+   */
+  async activate(user, organization) {
+    const update = { activeOrganizationId: organization._id };
+    if (organization.companyId) {
+      update.companyId = organization.companyId;
+    }
+    return User.findByIdAndUpdate(user._id, update, { new: true });
+  }
+
+  /**
+   * Point members who were working in an organization somewhere else
+   * @param {Array} userIds - Users who left or were removed
+   * @param {string} organizationId - Organization they left
+   */
+  async clearActive(userIds, organizationId) {
+    const users = await User.find({ _id: { $in: userIds }, activeOrganizationId: organizationId }).select('_id');
+
+    for (const user of users) {
+      const next = await Organization.findOne({ 'members.userId': user._id }).sort({ createdAt: 1 });
+      if (next) {
+        await this.activate(user, next);
+      } else {
+        await User.updateOne({ _id: user._id }, { $unset: { activeOrganizationId: 1 } });
+      }
+    }
+  }
+
+  /**
+   * Email an invitation link
+   * @param {Object} organization - Organization document
+   * @param {Object} invitation - Invitation subdocument
+   * @param {string} token - Raw invitation token
+   * @param {Object} inviter - Inviting user
+   * @returns {Promise<Object|null>} Outbox email
+   */
+  sendInvitation(organization, invitation, token, inviter) {
+    return emailService.queue('organizationInvite', invitation.email, {
+      organizationName: organization.name,
+      inviterName: `${inviter.firstName} ${inviter.lastName}`,
+      role: invitation.role,
+      token,
+      expiresInDays: Math.round(Organization.INVITATION_TTL_MS / (24 * 60 * 60 * 1000))
+    });
+  }
+}
+
+module.exports = new OrganizationService();
@@ -0,0 +1,182 @@
+/**
+ * Realtime Service - Server-Sent Events push channel
+ * Keeps track of open event streams per user and delivers events to them
+ */
+
+const crypto = require('crypto');
+
+class RealtimeService {
+  constructor() {
+    this.clients = new Map(); // userId -> Set of open streams ({ res, sessionId, remove })
+    this.tickets = new Map(); // ticket -> { userId, sessionId, expiresAt }
+    this.heartbeatInterval = parseInt(process.env.REALTIME_HEARTBEAT_MS) || 25000;
+    this.ticketTtl = (parseInt(process.env.REALTIME_TICKET_TTL_SECONDS) || 30) * 1000;
+  }
+
+  /**
+   * Issue a single-use ticket for opening an event stream
+   * EventSource cannot send headers, so the stream URL carries this short-lived ticket
+   * instead of the access token (URLs end up in access logs and browser history).
+   * @param {string} userId - User ID
+   * @param {string} sessionId - Session of the access token that asked for the ticket
+   * @returns {Object} { ticket, expiresIn } with expiresIn in seconds
+   */
+  issueTicket(userId, sessionId) {
+    const now = Date.now();
+    this.tickets.forEach((entry, ticket) => {
+      if (entry.expiresAt <= now) this.tickets.delete(ticket);
+    });
+
+    const ticket = crypto.randomBytes(32).toString('base64url');
+    this.tickets.set(ticket, {
+      userId: userId.toString(),
+      sessionId: sessionId.toString(),
+      expiresAt: now + this.ticketTtl
+    });
+
+    return { ticket, expiresIn: this.ticketTtl / 1000 };
+  }
+
+  /**
+   * Use up a stream ticket
+   * @param {string} ticket - Ticket from issueTicket
+   * @returns {Object|null} { userId, sessionId }, or null if unknown, used or expired
+   */
+  redeemTicket(ticket) {
+    const entry = this.tickets.get(ticket);
+    if (!entry) return null;
+
+    this.tickets.delete(ticket);
+    return entry.expiresAt > Date.now() ? { userId: entry.userId, sessionId: entry.sessionId } : null;
+  }
+
+  /**
+   * Register an open SSE response for a user
+   * @param {string} userId - User ID
+   * @param {Object} res - Express response object kept open as an event stream
+   * @param {string} sessionId - Session of the access token that opened the stream
+   * @returns {Function} Cleanup function that unregisters the stream
+   */
+  addClient(userId, res, sessionId = null) {
+    const key = userId.toString();
+
+    if (!this.clients.has(key)) {
+      this.clients.set(key, new Set());
+    }
+
+    // Comment lines keep proxies from closing idle connections
+    const heartbeat = setInterval(() => {
+      this.write(res, ': heartbeat\n\n');
+    }, this.heartbeatInterval);
+
+    const client = {
+      res,
+      sessionId: sessionId ? sessionId.toString() : null,
+      remove: () => {
+        clearInterval(heartbeat);
+        const streams = this.clients.get(key);
+        if (streams) {
+          streams.delete(client);
+          if (streams.size === 0) {
+            this.clients.delete(key);
+          }
+        }
+      }
+    };
+    this.clients.get(key).add(client);
+
+    return client.remove;
+  }
+
+  /**
+   * End streams of a user, e.g. once their session is revoked
+   * @param {string} userId - User ID
+   * @param {Function} match - Predicate on the stream's session ID (all streams when omitted)
+   * @returns {number} Number of streams closed
+   */
+  closeClients(userId, match = () => true) {
+    const streams = this.clients.get(userId.toString());
+    if (!streams) return 0;
+
+    const closing = [...streams].filter(client => match(client.sessionId));
+    closing.forEach(client => {
+      client.remove();
+      client.res.end();
+    });
+    return closing.length;
+  }
+
+  /**
+   * End the streams opened under one session
+   * @param {string} userId - User ID
+   * @param {string} sessionId - Revoked session ID
+   * @returns {number} Number of streams closed
+   */
+  closeSession(userId, sessionId) {
+    return this.closeClients(userId, streamSessionId => streamSessionId === sessionId.toString());
+  }
+
+  /**
+   * Write raw data to a stream, flushing through the compression middleware
+   * @param {Object} res - Express response object
+   * @param {string} chunk - Data to write
+   */
+  write(res, chunk) {
+    res.write(chunk);
+    if (typeof res.flush === 'function') {
+      res.flush();
+    }
+  }
+
+  /**
+   * Send an event to every open stream of a user
+   * @param {string} userId - Recipient user ID
+   * @param {string} event - Event name
+   * @param {Object} data - Event payload
+   */
+  sendToUser(userId, event, data) {
+    if (!userId) return;
+
+    const streams = this.clients.get(userId.toString());
+    if (!streams) return;
+
+    const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    streams.forEach(client => this.write(client.res, payload));
+  }
+
+  /**
+   * Send an event to several users
+   * @param {Array<string>} userIds - Recipient user IDs
+   * @param {string} event - Event name
+   * @param {Object} data - Event payload
+   */
+  sendToUsers(userIds, event, data) {
+    const unique = new Set(userIds.filter(Boolean).map(id => id.toString()));
+    unique.forEach(userId => this.sendToUser(userId, event, data));
+  }
+
+  /**
+   * Check whether a user currently has an open stream
+   * @param {string} userId - User ID
+   */
+  isOnline(userId) {
+    return this.clients.has(userId.toString());
+  }
+
+  /**
+   * Get connection statistics
+   */
+  getStats() {
+    let connections = 0;
+    this.clients.forEach(streams => {
+      connections += streams.size;
+    });
+
+    return {
+      connectedUsers: this.clients.size,
+      connections
+    };
+  }
+}
+
+module.exports = new RealtimeService();
@@ -0,0 +1,71 @@
+/**
+ * BM25 Index - Lexical ranking for the retrieval layer
+ * Works fully offline and gives deterministic scores
+ */
+
+const { tokenize } = require('./text');
+
+// Standard BM25 tuning parameters
+const K1 = 1.2;
+const B = 0.75;
+
+class BM25Index {
+  /**
+   * @param {Array<Object>} documents - { id, text } pairs to index
+   */
+  constructor(documents) {
+    this.documents = documents.map(doc => {
+      const termFrequencies = new Map();
+      const tokens = tokenize(doc.text);
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+      return { id: doc.id, length: tokens.length, termFrequencies };
+    });
+
+    this.averageLength = this.documents.reduce((total, doc) => total + doc.length, 0) / (this.documents.length || 1);
+
+    // Number of documents containing each term
+    this.documentFrequencies = new Map();
+    this.documents.forEach(doc => {
+      doc.termFrequencies.forEach((count, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+    });
+  }
+
+  /**
+   * Inverse document frequency of a term (BM25+ variant, never negative)
+   * @param {string} term - Normalized token
+   * @returns {number}
+   */
+  idf(term) {
+    const n = this.documentFrequencies.get(term) || 0;
+    return Math.log(1 + (this.documents.length - n + 0.5) / (n + 0.5));
+  }
+
+  /**
+   * Score every document against a query
+   * @param {string} query - Raw query text
+   * @returns {Map<string, number>} Document ID -> score, only for documents sharing a term
+   */
+  score(query) {
+    const terms = [...new Set(tokenize(query))];
+    const scores = new Map();
+
+    this.documents.forEach(doc => {
+      let score = 0;
+      terms.forEach(term => {
+        const tf = doc.termFrequencies.get(term);
+        if (!tf) return;
+        const norm = tf + K1 * (1 - B + B * (doc.length / (this.averageLength || 1)));
+        score += this.idf(term) * ((tf * (K1 + 1)) / norm);
+      });
+      if (score > 0) {
+        scores.set(doc.id, score);
+      }
+    });
+
+    return scores;
+  }
+}
+
+module.exports = BM25Index;
@@ -0,0 +1,36 @@
+/**
+ * Retrieval Service - Selects the embedding provider
+ * EMBEDDING_PROVIDER=openai uses OpenAI embeddings, EMBEDDING_PROVIDER=local uses
+ * deterministic hashed vectors. Defaults to openai when OPENAI_API_KEY is set.
+ */
+
+const LocalEmbeddingProvider = require('./localEmbeddingProvider');
+
+const providers = {
+  local: () => new LocalEmbeddingProvider(),
+  openai: () => {
+    const OpenAIEmbeddingProvider = require('./openaiEmbeddingProvider');
+    return new OpenAIEmbeddingProvider();
+  }
+};
+
+let activeProvider = null;
+
+/**
+ * Get the configured embedding provider (created on first use)
+ * @returns {Object} Embedding provider instance
+ */
+const getEmbeddingProvider = () => {
+  if (!activeProvider) {
+    const name = process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+    if (!providers[name]) {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Use one of: ${Object.keys(providers).join(', ')}`);
+    }
+    activeProvider = providers[name]();
+  }
+  return activeProvider;
+};
+
+module.exports = {
+  getEmbeddingProvider
+};
@@ -0,0 +1,83 @@
+/**
+ * Local Embedding Provider - Deterministic hashed term vectors
+ * Needs no network access; word, bigram and character-trigram features are hashed
+ * into a fixed-size vector so close spellings ("analytic" / "analytics") still overlap
+ */
+
+const { tokenize } = require('./text');
+
+/**
+ * 32-bit FNV-1a hash
+ * @param {string} value - Feature string
+ * @returns {number} Unsigned hash
+ */
+const fnv1a = (value) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+class LocalEmbeddingProvider {
+  constructor() {
+    this.dimensions = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS) || 512;
+    this.name = `local-hash-${this.dimensions}`;
+    // Hashed vectors share many small features, so require more overlap than dense embeddings
+    this.minSimilarity = 0.2;
+  }
+
+  /**
+   * Extract weighted features from text
+   * @param {string} text - Raw text
+   * @returns {Map<string, number>} Feature -> weight
+   */
+  extractFeatures(text) {
+    const tokens = tokenize(text);
+    const features = new Map();
+    const add = (feature, weight) => features.set(feature, (features.get(feature) || 0) + weight);
+
+    tokens.forEach((token, index) => {
+      add(`w:${token}`, 1);
+      if (index > 0) {
+        add(`b:${tokens[index - 1]}_${token}`, 0.5);
+      }
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    return features;
+  }
+
+  /**
+   * Embed a single text
+   * @param {string} text - Raw text
+   * @returns {Array<number>} L2-normalized vector
+   */
+  embedOne(text) {
+    const vector = new Array(this.dimensions).fill(0);
+
+    this.extractFeatures(text).forEach((weight, feature) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(weight + 1));
+    });
+
+    const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+    return norm ? vector.map(value => Number((value / norm).toFixed(6))) : vector;
+  }
+
+  /**
+   * Embed several texts
+   * @param {Array<string>} texts - Raw texts
+   * @returns {Promise<Array<Array<number>>>} One vector per text
+   */
+  async embed(texts) {
+    return texts.map(text => this.embedOne(text));
+  }
+}
+
+module.exports = LocalEmbeddingProvider;
@@ -0,0 +1,47 @@
+/**
+ * OpenAI Embedding Provider - Dense semantic embeddings
+ * Uses the OpenAI embeddings API (default model: text-embedding-3-small)
+ */
+
+const OpenAI = require('openai');
+
+// Inputs per embeddings request
+const BATCH_SIZE = 100;
+
+// Keep inputs well under the model's token limit
+const MAX_INPUT_CHARS = 8000;
+
+class OpenAIEmbeddingProvider {
+  constructor() {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+    }
+
+    this.model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+    this.name = `openai-${this.model}`;
+    this.minSimilarity = 0.3;
+    this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+
+  /**
+   * Embed several texts
+   * @param {Array<string>} texts - Raw texts
+   * @returns {Promise<Array<Array<number>>>} One vector per text, in input order
+   */
+  async embed(texts) {
+    const vectors = [];
+
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const batch = texts.slice(start, start + BATCH_SIZE).map(text => (text || ' ').slice(0, MAX_INPUT_CHARS));
+      const response = await this.client.embeddings.create({ model: this.model, input: batch });
+
+      response.data
+        .sort((a, b) => a.index - b.index)
+        .forEach(item => vectors.push(item.embedding));
+    }
+
+    return vectors;
+  }
+}
+
+module.exports = OpenAIEmbeddingProvider;
@@ -0,0 +1,93 @@
+/**
+ * Text helpers shared by the retrieval layer
+ * Tokenization is deliberately simple and deterministic so local scoring is repeatable
+ */
+
+const crypto = require('crypto');
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'need', 'of', 'on', 'or', 'our', 'show', 'that',
+  'the', 'their', 'this', 'to', 'us', 'want', 'we', 'what', 'which', 'with', 'you', 'your'
+]);
+
+/**
+ * Reduce simple plural forms so "chatbots" matches "chatbot"
+ * @param {string} token - Lowercase token
+ * @returns {string} Normalized token
+ */
+const normalizeToken = (token) => {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+/**
+ * Split text into normalized search tokens
+ * @param {string} text - Raw text
+ * @returns {Array<string>} Tokens in order of appearance
+ */
+const tokenize = (text = '') => text
+  .toLowerCase()
+  .split(/[^a-z0-9]+/)
+  .filter(token => token.length > 1 && !STOPWORDS.has(token))
+  .map(normalizeToken);
+
+/**
+ * Build the searchable text of a solution
+ * @param {Object} solution - Solution document or plain object
+ * @returns {string} Concatenated text of the indexed fields
+ */
+const buildSolutionText = (solution) => {
+  const features = (solution.features || []).map(feature => `${feature.title || ''} ${feature.description || ''}`);
+  const aiTechnology = solution.aiTechnology
+    ? [solution.aiTechnology.approach, solution.aiTechnology.model]
+    : [];
+
+  return [
+    solution.title,
+    solution.shortDescription,
+    solution.description,
+    solution.category,
+    solution.industry,
+    ...(solution.tags || []),
+    ...(solution.useCases || []),
+    ...features,
+    ...aiTechnology
+  ].filter(Boolean).join('\n');
+};
+
+/**
+ * Hash text so stale embeddings can be detected
+ * @param {string} text - Text that was embedded
+ * @returns {string} SHA-256 hex digest
+ */
+const hashText = (text) => crypto.createHash('sha256').update(text).digest('hex');
+
+/**
+ * Cosine similarity of two vectors of equal length
+ * @param {Array<number>} a - First vector
+ * @param {Array<number>} b - Second vector
+ * @returns {number} Similarity in [-1, 1], 0 when either vector is empty
+ */
+const cosineSimilarity = (a, b) => {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+module.exports = {
+  tokenize,
+  buildSolutionText,
+  hashText,
+  cosineSimilarity
+};
@@ -0,0 +1,139 @@
+/**
+ * Review Verification Service - Marks reviews from real customers as verified
+ * A review is verified when the reviewer's organization hired a vendor for the
+ * solution through a proposal (and a superadmin verified the hire), or resolved
+ * a query by selecting it.
+ */
+
+const Review = require('../models/Review');
+const Proposal = require('../models/Proposal');
+const Query = require('../models/Query');
+const organizationService = require('./organizationService');
+
+class ReviewVerificationService {
+  /**
+   * Get a user's organizations and everyone in them (just the user when they have none)
+   * @param {string} userId - User ID
+   * @param {string} [organizationId] - Organization the purchase was made for, if known
+   * @returns {Promise<Object>} { organizationIds, memberIds }
+   */
+  async getOrganizationScope(userId, organizationId) {
+    const organizationIds = (await organizationService.memberOrganizationIds(userId)).map(id => id.toString());
+    if (organizationId && !organizationIds.includes(organizationId.toString())) {
+      organizationIds.push(organizationId.toString());
+    }
+
+    const members = await Promise.all(organizationIds.map(id => organizationService.memberUserIds(id)));
+    const memberIds = [...new Set([userId.toString(), ...members.flat()])];
+
+    return { organizationIds, memberIds };
+  }
+
+  /**
+   * Find a purchase by the given organizations or users that names the solution
+   * @param {Object} scope - { organizationIds, memberIds } from getOrganizationScope
+   * @param {string} solutionId - Solution ID
+   * @returns {Promise<Object|null>} { source, referenceId } or null
+   */
+  async findEvidence({ organizationIds, memberIds }, solutionId) {
+    // An accepted response is only a pending hire until a superadmin verifies it
+    const proposal = await Proposal.findOne({
+      $or: [
+        { createdBy: { $in: memberIds } },
+        { organizationId: { $in: organizationIds } }
+      ],
+      'hire.verificationStatus': 'verified',
+      responses: { $elemMatch: { solutionId, status: 'accepted' } }
+    }).select('_id');
+    if (proposal) {
+      return { source: 'proposal', referenceId: proposal._id };
+    }
+
+    const query = await Query.findOne({
+      customerId: { $in: memberIds },
+      status: 'closed',
+      'resolution.selectedSolution': solutionId
+    }).select('_id');
+    if (query) {
+      return { source: 'query', referenceId: query._id };
+    }
+
+    return null;
+  }
+
+  /**
+   * Set the automatic verification on a review that is about to be saved
+   * Manual overrides are left alone.
+   * @param {Object} review - Review document (not saved here)
+   */
+  async applyToReview(review) {
+    if (review.verification?.source === 'manual') {
+      return;
+    }
+
+    const scope = await this.getOrganizationScope(review.customerId);
+    const evidence = await this.findEvidence(scope, review.solutionId);
+
+    review.isVerified = Boolean(evidence);
+    review.verification = evidence ? { ...evidence, updatedAt: new Date() } : undefined;
+  }
+
+  /**
+   * Re-check the reviews a user's organization left on a solution
+   * Call after a purchase is recorded or undone (hire verified or rejected, query resolved).
+   * @param {string} userId - Buyer's user ID
+   * @param {string} solutionId - Solution ID
+   * @param {string} [organizationId] - Organization the purchase was made for, if any
+   */
+  async refreshForPurchase(userId, solutionId, organizationId) {
+    if (!userId || !solutionId) {
+      return;
+    }
+
+    const scope = await this.getOrganizationScope(userId, organizationId);
+    const evidence = await this.findEvidence(scope, solutionId);
+    const filter = {
+      solutionId,
+      customerId: { $in: scope.memberIds },
+      'verification.source': { $ne: 'manual' }
+    };
+
+    if (evidence) {
+      await Review.updateMany(filter, {
+        $set: { isVerified: true, verification: { ...evidence, updatedAt: new Date() } }
+      });
+    } else {
+      await Review.updateMany(filter, { $set: { isVerified: false }, $unset: { verification: 1 } });
+    }
+  }
+
+  /**
+   * Superadmin override of a review's verified status
+   * @param {Object} review - Review document
+   * @param {boolean} isVerified - Whether the review should show as verified
+   * @param {string} reason - Why the override was made
+   * @param {string} adminId - Superadmin user ID
+   */
+  async override(review, isVerified, reason, adminId) {
+    review.isVerified = isVerified;
+    review.verification = {
+      source: 'manual',
+      reason,
+      verifiedBy: adminId,
+      updatedAt: new Date()
+    };
+    await review.save();
+  }
+
+  /**
+   * Drop a manual override and go back to the automatic check
+   * @param {Object} review - Review document
+   */
+  async clearOverride(review) {
+    review.verification = undefined;
+    await this.applyToReview(review);
+    await review.save();
+  }
+}
+
+module.exports = new ReviewVerificationService();
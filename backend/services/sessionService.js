@@ -0,0 +1,263 @@
+/**
+ * Session Service - Access tokens, rotating refresh tokens and per-device sessions
+ * Access tokens are short-lived JWTs bound to a session. The refresh token lives in an
+ * httpOnly cookie scoped to /api/auth, is stored hashed, and is replaced on every refresh.
+ * Presenting an already-rotated refresh token revokes the session, except within a short
+ * grace window that covers two tabs refreshing at the same time.
+ */
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const Session = require('../models/Session');
+const realtimeService = require('./realtimeService');
+
+const REFRESH_COOKIE = 'refresh_token';
+
+// How long a just-rotated refresh token is still accepted (without rotating again)
+const REUSE_GRACE_MS = 30 * 1000;
+
+// Hash a refresh token secret for storage
+const hashSecret = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// Constant-time comparison of two hex digests
+const sameHash = (a, b) => Boolean(a && b) && a.length === b.length &&
+  crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Short human-readable device label from a User-Agent header
+ * @param {string} userAgent - User-Agent header
+ * @returns {string} e.g. "Chrome on macOS"
+ */
+const describeUserAgent = (userAgent = '') => {
+  const browsers = [['Edge', /Edg\//], ['Opera', /OPR\//], ['Chrome', /Chrome\//], ['Firefox', /Firefox\//], ['Safari', /Safari\//]];
+  const systems = [['iOS', /iPhone|iPad/], ['Android', /Android/], ['Windows', /Windows/], ['macOS', /Mac OS X/], ['Linux', /Linux/]];
+
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const system = systems.find(([, pattern]) => pattern.test(userAgent));
+
+  if (!browser && !system) return 'Unknown device';
+  if (!system) return browser[0];
+  if (!browser) return system[0];
+  return `${browser[0]} on ${system[0]}`;
+};
+
+class SessionService {
+  get accessTokenExpire() {
+    return process.env.JWT_ACCESS_EXPIRE || '15m';
+  }
+
+  get refreshTtlMs() {
+    return (parseInt(process.env.REFRESH_TOKEN_DAYS) || 30) * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Sign an access token for a session
+   * @param {Object} session - Session document
+   * @returns {string} JWT
+   */
+  signAccessToken(session) {
+    return jwt.sign({ userId: session.userId, sid: session._id }, process.env.JWT_SECRET, {
+      expiresIn: this.accessTokenExpire
+    });
+  }
+
+  /**
+   * Start a session for a user signing in
+   * @param {Object} user - User document
+   * @param {Object} req - Express request (device details)
+   * @param {Object} options - { twoFactorVerified } when the sign-in passed a two-factor check
+   * @returns {Promise<Object>} { session, accessToken, refreshToken }
+   */
+  async create(user, req, options = {}) {
+    const secret = crypto.randomBytes(32).toString('hex');
+    const session = await Session.create({
+      userId: user._id,
+      tokenHash: hashSecret(secret),
+      userAgent: (req.get('user-agent') || '').slice(0, 500),
+      ip: req.ip,
+      twoFactorVerifiedAt: options.twoFactorVerified ? new Date() : undefined,
+      expiresAt: new Date(Date.now() + this.refreshTtlMs)
+    });
+
+    return {
+      session,
+      accessToken: this.signAccessToken(session),
+      refreshToken: `${session._id}.${secret}`
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a rotated refresh token
+   * @param {string} refreshToken - Refresh token from the cookie
+   * @returns {Promise<Object|null>} { session, accessToken, refreshToken? }, or null if the
+   *   token is invalid (refreshToken is omitted inside the reuse grace window)
+   */
+  async rotate(refreshToken) {
+    const [sessionId, secret] = String(refreshToken || '').split('.');
+    if (!sessionId || !secret || !/^[a-f\d]{24}$/i.test(sessionId)) return null;
+
+    const session = await Session.findById(sessionId).select('+tokenHash +previousTokenHash');
+    if (!session || !session.isActive()) return null;
+
+    const presented = hashSecret(secret);
+
+    if (sameHash(presented, session.previousTokenHash)) {
+      if (session.rotatedAt && Date.now() - session.rotatedAt.getTime() < REUSE_GRACE_MS) {
+        return { session, accessToken: this.signAccessToken(session) };
+      }
+      await this.revoke(session._id, 'token_reuse');
+      return null;
+    }
+
+    if (!sameHash(presented, session.tokenHash)) return null;
+
+    const nextSecret = crypto.randomBytes(32).toString('hex');
+    const rotated = await Session.findOneAndUpdate(
+      { _id: session._id, tokenHash: session.tokenHash, revokedAt: null },
+      {
+        $set: {
+          tokenHash: hashSecret(nextSecret),
+          previousTokenHash: session.tokenHash,
+          rotatedAt: new Date(),
+          lastUsedAt: new Date(),
+          expiresAt: new Date(Date.now() + this.refreshTtlMs)
+        }
+      },
+      { new: true }
+    );
+
+    // Another request rotated it first; treat like a replay inside the grace window
+    if (!rotated) {
+      return { session, accessToken: this.signAccessToken(session) };
+    }
+
+    return {
+      session: rotated,
+      accessToken: this.signAccessToken(rotated),
+      refreshToken: `${rotated._id}.${nextSecret}`
+    };
+  }
+
+  /**
+   * Find a session that access tokens may still use
+   * @param {string} sessionId - Session ID from the access token
+   * @returns {Promise<Object|null>} Active session
+   */
+  findActive(sessionId) {
+    return Session.findOne({ _id: sessionId, revokedAt: null, expiresAt: { $gt: new Date() } });
+  }
+
+  /**
+   * Record a successful two-factor check on a session
+   * @param {string} sessionId - Session ID
+   * @returns {Promise<Object|null>} Updated session
+   */
+  markTwoFactorVerified(sessionId) {
+    return Session.findByIdAndUpdate(sessionId, { $set: { twoFactorVerifiedAt: new Date() } }, { new: true });
+  }
+
+  /**
+   * Revoke one session and end the event streams opened under it
+   * @param {string} sessionId - Session ID
+   * @param {string} reason - Revocation reason
+   * @returns {Promise<Object|null>} Revoked session, or null if it was not active
+   */
+  async revoke(sessionId, reason = 'revoked') {
+    const session = await Session.findOneAndUpdate(
+      { _id: sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+      { new: true }
+    );
+
+    if (session) {
+      realtimeService.closeSession(session.userId, session._id);
+    }
+    return session;
+  }
+
+  /**
+   * Revoke every active session of a user and end their event streams
+   * @param {string} userId - User ID
+   * @param {string} reason - Revocation reason
+   * @param {string} exceptSessionId - Session to keep (e.g. the current one)
+   * @returns {Promise<number>} Number of sessions revoked
+   */
+  async revokeAll(userId, reason, exceptSessionId = null) {
+    const filter = { userId, revokedAt: null };
+    if (exceptSessionId) {
+      filter._id = { $ne: exceptSessionId };
+    }
+    const result = await Session.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+
+    const keep = exceptSessionId ? exceptSessionId.toString() : null;
+    realtimeService.closeClients(userId, streamSessionId => streamSessionId !== keep);
+    return result.modifiedCount;
+  }
+
+  /**
+   * List a user's active sessions, most recent first
+   * @param {string} userId - User ID
+   * @param {string} currentSessionId - Session of the current request
+   * @returns {Promise<Array<Object>>} Sessions with a device label and current flag
+   */
+  async listForUser(userId, currentSessionId) {
+    const sessions = await Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 });
+
+    return sessions.map(session => ({
+      _id: session._id,
+      device: describeUserAgent(session.userAgent),
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: Boolean(currentSessionId) && session._id.toString() === currentSessionId.toString()
+    }));
+  }
+
+  /**
+   * Read the refresh token cookie
+   * @param {Object} req - Express request
+   * @returns {string|null} Refresh token
+   */
+  readRefreshCookie(req) {
+    const header = req.headers.cookie || '';
+    const pair = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${REFRESH_COOKIE}=`));
+    return pair ? decodeURIComponent(pair.slice(REFRESH_COOKIE.length + 1)) : null;
+  }
+
+  /**
+   * Cookie options for the refresh token (REFRESH_COOKIE_SAMESITE=none when the API is on another site)
+   * @returns {Object} Express cookie options
+   */
+  cookieOptions() {
+    const sameSite = process.env.REFRESH_COOKIE_SAMESITE || 'lax';
+    return {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production' || sameSite === 'none',
+      sameSite,
+      path: '/api/auth'
+    };
+  }
+
+  /**
+   * Set the refresh token cookie
+   * @param {Object} res - Express response
+   * @param {string} refreshToken - Refresh token
+   * @param {Date} expiresAt - Session expiry
+   */
+  setRefreshCookie(res, refreshToken, expiresAt) {
+    res.cookie(REFRESH_COOKIE, refreshToken, { ...this.cookieOptions(), expires: expiresAt });
+  }
+
+  /**
+   * Clear the refresh token cookie
+   * @param {Object} res - Express response
+   */
+  clearRefreshCookie(res) {
+    res.clearCookie(REFRESH_COOKIE, this.cookieOptions());
+  }
+}
+
+module.exports = new SessionService();
@@ -0,0 +1,179 @@
+/**
+ * Solution Search Service - Hybrid semantic + lexical retrieval over solutions
+ * Ranks approved solutions by a blend of embedding similarity and BM25 score
+ */
+
+const Solution = require('../models/Solution');
+const BM25Index = require('./retrieval/bm25');
+const { getEmbeddingProvider } = require('./retrieval');
+const { buildSolutionText, hashText, cosineSimilarity } = require('./retrieval/text');
+
+// Only solutions customers can see are searchable
+const SEARCH_FILTER = { status: 'approved', isActive: true };
+
+// Fields needed to build the indexed text
+const INDEX_FIELDS = 'title shortDescription description category industry tags useCases features aiTechnology +embedding';
+
+class SolutionSearchService {
+  constructor() {
+    this.indexTtlMs = (parseInt(process.env.RETRIEVAL_INDEX_TTL_SECONDS) || 60) * 1000;
+    // Share of the final score that comes from embedding similarity (rest is BM25)
+    this.semanticWeight = process.env.RETRIEVAL_SEMANTIC_WEIGHT !== undefined
+      ? parseFloat(process.env.RETRIEVAL_SEMANTIC_WEIGHT)
+      : 0.6;
+    this.index = null;
+    this.builtAt = 0;
+    this.building = null;
+  }
+
+  /**
+   * Get the in-memory index, rebuilding it when it is older than the TTL
+   * @returns {Promise<Object>} { bm25, vectors, ids }
+   */
+  async getIndex() {
+    if (this.index && Date.now() - this.builtAt < this.indexTtlMs) {
+      return this.index;
+    }
+
+    // Concurrent searches share a single rebuild
+    if (!this.building) {
+      this.building = this.buildIndex().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  /**
+   * Load searchable solutions, embed any whose text changed and build the index
+   * @returns {Promise<Object>} Freshly built index
+   */
+  async buildIndex() {
+    const provider = getEmbeddingProvider();
+    const solutions = await Solution.find(SEARCH_FILTER).select(INDEX_FIELDS).lean();
+
+    const documents = solutions.map(solution => {
+      const text = buildSolutionText(solution);
+      return { id: solution._id.toString(), text, contentHash: hashText(text), embedding: solution.embedding };
+    });
+
+    const stale = documents.filter(doc =>
+      !doc.embedding ||
+      doc.embedding.provider !== provider.name ||
+      doc.embedding.contentHash !== doc.contentHash
+    );
+
+    if (stale.length > 0) {
+      try {
+        const vectors = await provider.embed(stale.map(doc => doc.text));
+        const now = new Date();
+
+        stale.forEach((doc, i) => {
+          doc.embedding = { vector: vectors[i], provider: provider.name, contentHash: doc.contentHash, updatedAt: now };
+        });
+
+        await Solution.bulkWrite(stale.map(doc => ({
+          updateOne: {
+            filter: { _id: doc.id },
+            update: { $set: { embedding: doc.embedding } },
+            timestamps: false
+          }
+        })));
+      } catch (error) {
+        // Stale solutions fall back to lexical ranking until the next rebuild
+        console.error('Error embedding solutions:', error.message);
+      }
+    }
+
+    const vectors = new Map();
+    documents.forEach(doc => {
+      if (doc.embedding && doc.embedding.provider === provider.name && doc.embedding.contentHash === doc.contentHash) {
+        vectors.set(doc.id, doc.embedding.vector);
+      }
+    });
+
+    this.index = {
+      bm25: new BM25Index(documents),
+      vectors,
+      ids: documents.map(doc => doc.id)
+    };
+    this.builtAt = Date.now();
+
+    return this.index;
+  }
+
+  /**
+   * Drop the cached index so the next search rebuilds it
+   */
+  invalidate() {
+    this.index = null;
+  }
+
+  /**
+   * Score all indexed solutions against a query
+   * @param {string} query - User query
+   * @returns {Promise<Array<Object>>} { id, score, semantic, lexical } sorted by score, best first
+   */
+  async rank(query) {
+    const provider = getEmbeddingProvider();
+    const index = await this.getIndex();
+
+    const lexicalScores = index.bm25.score(query);
+    const maxLexical = Math.max(0, ...lexicalScores.values());
+
+    let queryVector = null;
+    if (index.vectors.size > 0 && this.semanticWeight > 0) {
+      try {
+        [queryVector] = await provider.embed([query]);
+      } catch (error) {
+        console.error('Error embedding search query:', error.message);
+      }
+    }
+
+    const results = [];
+    index.ids.forEach(id => {
+      const lexical = maxLexical > 0 ? (lexicalScores.get(id) || 0) / maxLexical : 0;
+      const vector = index.vectors.get(id);
+      const semantic = queryVector && vector ? cosineSimilarity(queryVector, vector) : 0;
+
+      // Skip solutions that neither share a term nor are semantically close
+      if (lexical === 0 && semantic < provider.minSimilarity) return;
+
+      const score = queryVector
+        ? this.semanticWeight * semantic + (1 - this.semanticWeight) * lexical
+        : lexical;
+
+      results.push({ id, score, semantic, lexical });
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Find the solutions that best match a query
+   * @param {string} query - User query
+   * @param {Object} options - { limit, filter } - filter is an extra Mongo query the results must match
+   * @returns {Promise<Array<Object>>} Lean solutions with company populated and a searchScore, best first
+   */
+  async search(query, options = {}) {
+    const { limit = 5, filter = null } = options;
+
+    // With a filter, rank everything first so matches further down the list still fill the limit
+    const ranked = await this.rank(query);
+    const candidates = filter ? ranked : ranked.slice(0, limit);
+    if (candidates.length === 0) return [];
+
+    const solutions = await Solution.find({ ...filter, _id: { $in: candidates.map(result => result.id) } })
+      .populate('companyId', 'name website industry logo')
+      .lean();
+
+    const byId = new Map(solutions.map(solution => [solution._id.toString(), solution]));
+
+    return candidates
+      .filter(result => byId.has(result.id))
+      .slice(0, limit)
+      .map(result => ({ ...byId.get(result.id), searchScore: Number(result.score.toFixed(4)) }));
+  }
+}
+
+module.exports = new SolutionSearchService();
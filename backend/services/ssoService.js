@@ -0,0 +1,703 @@
+/**
+ * SSO Service - Organization single sign-on over OIDC or SAML with just-in-time provisioning
+ * An organization points at its identity provider (an OIDC discovery URL, or SAML metadata)
+ * and lists the email domains it owns. Signing in creates the account on first use, adds it
+ * to the organization with the default role and links it to the identity provider's subject.
+ * Existing accounts are only linked when their email is on one of the organization's domains.
+ */
+
+const crypto = require('crypto');
+const dns = require('dns');
+const net = require('net');
+const http = require('http');
+const https = require('https');
+const jwt = require('jsonwebtoken');
+const { Issuer, generators, custom } = require('openid-client');
+const { SAML } = require('@node-saml/node-saml');
+const { DOMParser } = require('@xmldom/xmldom');
+const User = require('../models/User');
+const Organization = require('../models/Organization');
+const organizationService = require('./organizationService');
+
+// Cookie that carries the OIDC state, nonce and PKCE verifier (or the SAML RelayState nonce)
+// between start and callback
+const TRANSACTION_COOKIE = 'sso_transaction';
+
+// How long a sign-in may take at the identity provider
+const TRANSACTION_EXPIRE = '10m';
+const TRANSACTION_TTL_MS = 10 * 60 * 1000;
+
+// Limits for documents downloaded from identity providers
+const FETCH_TIMEOUT_MS = 10000;
+const FETCH_MAX_BYTES = 1024 * 1024;
+
+// Identity provider URLs are entered by organization owners, so they must not reach
+// loopback, private or link-local (cloud metadata) addresses
+const privateAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => privateAddresses.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => privateAddresses.addSubnet(address, prefix, 'ipv6'));
+
+// Values Issuer.discover assumes when a configuration leaves them out
+const ISSUER_DEFAULTS = {
+  claim_types_supported: ['normal'],
+  claims_parameter_supported: false,
+  grant_types_supported: ['authorization_code', 'implicit'],
+  request_parameter_supported: false,
+  request_uri_parameter_supported: true,
+  require_request_uri_registration: false,
+  response_modes_supported: ['query', 'fragment'],
+  token_endpoint_auth_methods_supported: ['client_secret_basic']
+};
+
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+// Common attribute names for SAML assertions (Azure AD, Okta, ADFS, Google)
+const SAML_ATTRIBUTES = {
+  email: ['email', 'mail', 'emailAddress', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'],
+  firstName: ['firstName', 'givenName', 'given_name', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname'],
+  lastName: ['lastName', 'surname', 'sn', 'family_name', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname']
+};
+
+// Domain part of an email address
+const emailDomain = (email) => String(email || '').toLowerCase().trim().split('@')[1] || '';
+
+// First non-empty value among a SAML profile's attributes
+const pickAttribute = (profile, names) => {
+  for (const name of names) {
+    const value = Array.isArray(profile[name]) ? profile[name][0] : profile[name];
+    if (value) return String(value);
+  }
+  return '';
+};
+
+// Cache key that changes whenever the organization's settings are saved
+const cacheKey = (organization) => `${organization._id}:${new Date(organization.updatedAt).getTime()}`;
+
+// The local mock IdP runs on http://localhost; never allowed in production
+const allowPrivateIdp = () => process.env.SSO_ALLOW_PRIVATE_IDP === 'true' && process.env.NODE_ENV !== 'production';
+
+const isPrivateAddress = (address) => {
+  const family = net.isIP(address);
+  return family !== 0 && privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Check that an identity provider URL is https and does not name a private address
+ * @param {string|URL} value - URL to check
+ * @returns {URL} Parsed URL
+ */
+const assertIdpUrl = (value) => {
+  const url = new URL(value);
+  if (allowPrivateIdp()) {
+    if (!['http:', 'https:'].includes(url.protocol)) throw new Error(`${url.protocol} URLs are not supported`);
+    return url;
+  }
+  if (url.protocol !== 'https:') throw new Error('Identity provider URLs must use https');
+  if (isPrivateAddress(url.hostname.replace(/^\[|\]$/g, ''))) throw new Error(`${url.hostname} is a private address`);
+  return url;
+};
+
+// dns.lookup that refuses private addresses. It runs for every connection, so a host name
+// cannot be pointed at an internal address after the URL was checked.
+const publicLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (!allowPrivateIdp() && addresses.some(isPrivateAddress)) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EPRIVATE' }));
+    }
+    callback(null, address, family);
+  });
+};
+
+// openid-client fetches the token, userinfo and JWKS endpoints itself
+custom.setHttpOptionsDefaults({ lookup: publicLookup, timeout: FETCH_TIMEOUT_MS });
+
+/**
+ * Download a document from an identity provider. Redirects are not followed and the
+ * response is limited in size and time.
+ * @param {string} value - URL
+ * @param {string} accept - Accept header
+ * @returns {Promise<string>} Response body
+ */
+const fetchIdpDocument = (value, accept) => new Promise((resolve, reject) => {
+  const url = assertIdpUrl(value);
+  const request = (url.protocol === 'https:' ? https : http).get(url, {
+    headers: { Accept: accept },
+    lookup: publicLookup
+  }, (response) => {
+    if (response.statusCode !== 200) {
+      response.resume();
+      return request.destroy(new Error(`${url.origin} answered ${response.statusCode}`));
+    }
+
+    const chunks = [];
+    let size = 0;
+    response.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > FETCH_MAX_BYTES) return request.destroy(new Error(`Response is larger than ${FETCH_MAX_BYTES} bytes`));
+      chunks.push(chunk);
+    });
+    response.on('end', () => {
+      clearTimeout(timer);
+      resolve(Buffer.concat(chunks).toString('utf8'));
+    });
+  });
+
+  const timer = setTimeout(() => request.destroy(new Error(`Request timed out after ${FETCH_TIMEOUT_MS}ms`)), FETCH_TIMEOUT_MS);
+  request.on('error', (error) => {
+    clearTimeout(timer);
+    reject(error);
+  });
+});
+
+class SsoService {
+  constructor() {
+    this.oidcClients = new Map();
+    this.samlProviders = new Map();
+  }
+
+  get clientUrl() {
+    return process.env.CLIENT_URL || 'http://localhost:3000';
+  }
+
+  get apiUrl() {
+    return process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+  }
+
+  // Encryption key for OIDC client secrets: SSO_ENCRYPTION_KEY if set, otherwise derived from JWT_SECRET
+  get encryptionKey() {
+    return crypto.createHash('sha256')
+      .update(process.env.SSO_ENCRYPTION_KEY || `sso:${process.env.JWT_SECRET}`)
+      .digest();
+  }
+
+  /**
+   * Encrypt an OIDC client secret for storage
+   * @param {string} secret - Client secret
+   * @returns {string} iv.tag.ciphertext (base64)
+   */
+  encrypt(secret) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypt a stored OIDC client secret
+   * @param {string} value - Value produced by encrypt()
+   * @returns {string|null} Client secret, or null if it cannot be decrypted
+   */
+  decrypt(value) {
+    try {
+      const [iv, tag, encrypted] = String(value).split('.').map(part => Buffer.from(part, 'base64'));
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    } catch (error) {
+      console.error('Failed to decrypt SSO client secret:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * URLs the identity provider needs to know about
+   * @param {Object} organization - Organization document
+   * @returns {Object} { oidcRedirectUri, samlAcsUrl, samlEntityId, samlMetadataUrl }
+   */
+  serviceProviderUrls(organization) {
+    const base = `${this.apiUrl}/api/auth/sso/${organization._id}`;
+    return {
+      oidcRedirectUri: `${base}/oidc/callback`,
+      samlAcsUrl: `${base}/saml/acs`,
+      samlEntityId: `${base}/saml/metadata`,
+      samlMetadataUrl: `${base}/saml/metadata`
+    };
+  }
+
+  /**
+   * Keep post-login redirects on this site
+   * @param {string} redirect - Requested path
+   * @returns {string} Relative path, /dashboard when missing or unsafe
+   */
+  safeRedirect(redirect) {
+    const path = String(redirect || '');
+    return path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') ? path : '/dashboard';
+  }
+
+  /**
+   * Organization with SSO turned on for an email's domain
+   * @param {string} email - Email address
+   * @returns {Promise<Object|null>} Organization document
+   */
+  findOrganizationForEmail(email) {
+    const domain = emailDomain(email);
+    if (!domain) return Promise.resolve(null);
+    return Organization.findOne({ 'sso.enabled': true, 'sso.domains': domain });
+  }
+
+  /**
+   * Whether an email domain must sign in through its organization's identity provider
+   * @param {string} email - Email address
+   * @returns {Promise<Object|null>} The enforcing organization, or null
+   */
+  async findEnforcingOrganization(email) {
+    const organization = await this.findOrganizationForEmail(email);
+    return organization?.sso.enforced ? organization : null;
+  }
+
+  /**
+   * Organizations other than this one that already route any of these domains
+   * @param {Array<string>} domains - Email domains
+   * @param {string} organizationId - Organization claiming them
+   * @returns {Promise<Array<string>>} Domains taken elsewhere
+   */
+  async claimedDomains(domains, organizationId) {
+    if (domains.length === 0) return [];
+    const others = await Organization.find({ _id: { $ne: organizationId }, 'sso.domains': { $in: domains } }).select('sso.domains');
+    const taken = new Set(others.flatMap(organization => organization.sso.domains));
+    return domains.filter(domain => taken.has(domain));
+  }
+
+  /**
+   * Read the IdP settings out of SAML metadata
+   * @param {string} xml - EntityDescriptor XML
+   * @returns {Object|null} { idpIssuer, entryPoint, idpCerts }, or null if unusable
+   */
+  parseSamlMetadata(xml) {
+    let document;
+    try {
+      document = new DOMParser({ onError: () => {} }).parseFromString(String(xml || ''), 'text/xml');
+    } catch (error) {
+      return null;
+    }
+
+    const entity = document?.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')[0];
+    const idp = entity?.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+    if (!idp) return null;
+
+    const services = Array.from(idp.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService'));
+    const service = services.find(item => item.getAttribute('Binding') === REDIRECT_BINDING) || services[0];
+
+    const idpCerts = Array.from(idp.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor'))
+      .filter(key => !key.getAttribute('use') || key.getAttribute('use') === 'signing')
+      .flatMap(key => Array.from(key.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')))
+      .map(cert => cert.textContent.replace(/\s+/g, ''))
+      .filter(Boolean);
+
+    const entryPoint = service?.getAttribute('Location');
+    if (!entryPoint || idpCerts.length === 0) return null;
+
+    return { idpIssuer: entity.getAttribute('entityID') || undefined, entryPoint, idpCerts };
+  }
+
+  /**
+   * Download and parse SAML metadata
+   * @param {string} url - Metadata URL
+   * @returns {Promise<Object|null>} Parsed settings, or null if unreachable or unusable
+   */
+  async fetchSamlMetadata(url) {
+    try {
+      return this.parseSamlMetadata(await fetchIdpDocument(url, 'application/samlmetadata+xml, application/xml, text/xml'));
+    } catch (error) {
+      console.error('Failed to fetch SAML metadata:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Download an OIDC configuration (what Issuer.discover does, within the fetch limits)
+   * @param {string} discoveryUrl - Issuer or .well-known URL
+   * @returns {Promise<Object>} openid-client Issuer
+   */
+  async discoverIssuer(discoveryUrl) {
+    const url = assertIdpUrl(discoveryUrl);
+    if (!url.pathname.includes('/.well-known/')) {
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    }
+
+    const metadata = JSON.parse(await fetchIdpDocument(url, 'application/json'));
+    if (!metadata.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint) {
+      throw new Error('Not an OpenID Connect configuration');
+    }
+    ['authorization_endpoint', 'token_endpoint', 'userinfo_endpoint', 'jwks_uri']
+      .filter(name => metadata[name])
+      .forEach(name => assertIdpUrl(metadata[name]));
+
+    return new Issuer({ ...ISSUER_DEFAULTS, ...metadata });
+  }
+
+  /**
+   * Check that an OIDC discovery URL answers with a usable configuration
+   * @param {string} discoveryUrl - Issuer or .well-known URL
+   * @returns {Promise<string|null>} Issuer identifier, or null if discovery fails
+   */
+  async checkDiscovery(discoveryUrl) {
+    try {
+      const issuer = await this.discoverIssuer(discoveryUrl);
+      return issuer.metadata.issuer;
+    } catch (error) {
+      console.error('OIDC discovery failed:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * OIDC client for an organization (discovery is cached until the settings change)
+   * @param {Object} organization - Organization document with sso.oidc.clientSecret selected
+   * @returns {Promise<Object>} openid-client Client
+   */
+  async getOidcClient(organization) {
+    const key = cacheKey(organization);
+    if (!this.oidcClients.has(key)) {
+      const { discoveryUrl, clientId, clientSecret } = organization.sso.oidc;
+      const issuer = await this.discoverIssuer(discoveryUrl);
+      const secret = clientSecret ? this.decrypt(clientSecret) : null;
+
+      this.oidcClients.set(key, new issuer.Client({
+        client_id: clientId,
+        client_secret: secret || undefined,
+        redirect_uris: [this.serviceProviderUrls(organization).oidcRedirectUri],
+        response_types: ['code'],
+        token_endpoint_auth_method: secret ? 'client_secret_basic' : 'none'
+      }));
+    }
+    return this.oidcClients.get(key);
+  }
+
+  /**
+   * SAML service provider for an organization. Kept per organization so the request IDs it
+   * issues can be matched against InResponseTo when the response comes back.
+   * @param {Object} organization - Organization document
+   * @returns {Object} node-saml SAML instance
+   */
+  getSamlProvider(organization) {
+    const key = cacheKey(organization);
+    if (!this.samlProviders.has(key)) {
+      const { entryPoint, idpIssuer, idpCerts } = organization.sso.saml;
+      const urls = this.serviceProviderUrls(organization);
+
+      this.samlProviders.set(key, new SAML({
+        entryPoint,
+        idpIssuer: idpIssuer || undefined,
+        idpCert: idpCerts,
+        issuer: urls.samlEntityId,
+        audience: urls.samlEntityId,
+        callbackUrl: urls.samlAcsUrl,
+        wantAssertionsSigned: true,
+        wantAuthnResponseSigned: false,
+        validateInResponseTo: 'always',
+        requestIdExpirationPeriodMs: TRANSACTION_TTL_MS,
+        identifierFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress'
+      }));
+    }
+    return this.samlProviders.get(key);
+  }
+
+  /**
+   * Service provider metadata to upload to a SAML identity provider
+   * @param {Object} organization - Organization document
+   * @returns {string} XML
+   */
+  samlMetadata(organization) {
+    const urls = this.serviceProviderUrls(organization);
+    const provider = organization.sso.saml?.entryPoint && organization.sso.saml.idpCerts?.length
+      ? this.getSamlProvider(organization)
+      // Metadata can be downloaded before the IdP side is configured
+      : new SAML({ issuer: urls.samlEntityId, callbackUrl: urls.samlAcsUrl, idpCert: 'unset' });
+    return provider.generateServiceProviderMetadata(null);
+  }
+
+  /**
+   * Begin an OIDC sign-in
+   * @param {Object} organization - Organization document with sso.oidc.clientSecret selected
+   * @param {string} redirect - Where to go after signing in
+   * @returns {Promise<Object>} { url, transaction } (transaction goes in the SSO cookie)
+   */
+  async startOidc(organization, redirect) {
+    const client = await this.getOidcClient(organization);
+    const state = generators.state();
+    const nonce = generators.nonce();
+    const codeVerifier = generators.codeVerifier();
+
+    const url = client.authorizationUrl({
+      scope: organization.sso.oidc.scopes || 'openid email profile',
+      state,
+      nonce,
+      code_challenge: generators.codeChallenge(codeVerifier),
+      code_challenge_method: 'S256'
+    });
+
+    const transaction = jwt.sign({
+      purpose: 'sso_oidc',
+      organizationId: organization._id,
+      state,
+      nonce,
+      codeVerifier,
+      redirect: this.safeRedirect(redirect)
+    }, process.env.JWT_SECRET, { expiresIn: TRANSACTION_EXPIRE });
+
+    return { url, transaction };
+  }
+
+  /**
+   * Finish an OIDC sign-in
+   * @param {Object} organization - Organization document with sso.oidc.clientSecret selected
+   * @param {Object} req - Express request (callback query)
+   * @param {string} transaction - Value of the SSO cookie
+   * @returns {Promise<Object|null>} { profile, redirect }, or null if the response is not valid
+   */
+  async finishOidc(organization, req, transaction) {
+    let stored;
+    try {
+      stored = jwt.verify(String(transaction || ''), process.env.JWT_SECRET);
+    } catch (error) {
+      return null;
+    }
+    if (stored.purpose !== 'sso_oidc' || stored.organizationId !== organization._id.toString()) return null;
+
+    try {
+      const client = await this.getOidcClient(organization);
+      const params = client.callbackParams(req);
+      const tokenSet = await client.callback(this.serviceProviderUrls(organization).oidcRedirectUri, params, {
+        state: stored.state,
+        nonce: stored.nonce,
+        code_verifier: stored.codeVerifier
+      });
+
+      let claims = tokenSet.claims();
+      if (!claims.email && tokenSet.access_token && client.issuer.metadata.userinfo_endpoint) {
+        claims = { ...claims, ...(await client.userinfo(tokenSet)) };
+      }
+
+      return {
+        redirect: stored.redirect,
+        profile: {
+          protocol: 'oidc',
+          subject: claims.sub,
+          email: claims.email,
+          // Only trust addresses the provider says it has verified, unless it does not say
+          emailVerified: claims.email_verified !== false,
+          firstName: claims.given_name || (claims.name || '').split(' ')[0],
+          lastName: claims.family_name || (claims.name || '').split(' ').slice(1).join(' ')
+        }
+      };
+    } catch (error) {
+      console.error('OIDC callback failed:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Begin a SAML sign-in
+   * @param {Object} organization - Organization document
+   * @param {string} redirect - Where to go after signing in
+   * @returns {Promise<Object>} { url, transaction } (transaction goes in the SSO cookie)
+   */
+  async startSaml(organization, redirect) {
+    // The RelayState comes back through the IdP, so it only counts together with the
+    // cookie set in the browser that started the sign-in
+    const nonce = generators.nonce();
+    const relayState = jwt.sign({
+      purpose: 'sso_saml',
+      organizationId: organization._id,
+      nonce,
+      redirect: this.safeRedirect(redirect)
+    }, process.env.JWT_SECRET, { expiresIn: TRANSACTION_EXPIRE });
+
+    const transaction = jwt.sign({
+      purpose: 'sso_saml',
+      organizationId: organization._id,
+      nonce
+    }, process.env.JWT_SECRET, { expiresIn: TRANSACTION_EXPIRE });
+
+    const url = await this.getSamlProvider(organization).getAuthorizeUrlAsync(relayState, undefined, {});
+    return { url, transaction };
+  }
+
+  /**
+   * Finish a SAML sign-in from the IdP's POST to the assertion consumer service
+   * @param {Object} organization - Organization document
+   * @param {Object} body - Form body with SAMLResponse and RelayState
+   * @param {string} transaction - Value of the SSO cookie
+   * @returns {Promise<Object|null>} { profile, redirect }, or null if the response is not valid
+   */
+  async finishSaml(organization, body, transaction) {
+    let relay;
+    let stored;
+    try {
+      relay = jwt.verify(String(body.RelayState || ''), process.env.JWT_SECRET);
+      stored = jwt.verify(String(transaction || ''), process.env.JWT_SECRET);
+    } catch (error) {
+      return null;
+    }
+    const organizationId = organization._id.toString();
+    if (relay.purpose !== 'sso_saml' || relay.organizationId !== organizationId) return null;
+    if (stored.purpose !== 'sso_saml' || stored.organizationId !== organizationId || stored.nonce !== relay.nonce) return null;
+
+    try {
+      const { profile, loggedOut } = await this.getSamlProvider(organization)
+        .validatePostResponseAsync({ SAMLResponse: body.SAMLResponse });
+      if (!profile || loggedOut) return null;
+
+      const email = pickAttribute(profile, SAML_ATTRIBUTES.email) ||
+        (/@/.test(profile.nameID || '') ? profile.nameID : '');
+
+      return {
+        redirect: relay.redirect,
+        profile: {
+          protocol: 'saml',
+          subject: profile.nameID,
+          email,
+          emailVerified: true,
+          firstName: pickAttribute(profile, SAML_ATTRIBUTES.firstName),
+          lastName: pickAttribute(profile, SAML_ATTRIBUTES.lastName)
+        }
+      };
+    } catch (error) {
+      console.error('SAML response rejected:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Find, link or create the user for an identity provider profile, and make sure they
+   * are a member of the organization
+   * @param {Object} organization - Organization document
+   * @param {Object} profile - { protocol, subject, email, emailVerified, firstName, lastName }
+   * @returns {Promise<Object>} { user } on success, or { error } with a message for the user
+   */
+  async provision(organization, profile) {
+    const email = String(profile.email || '').toLowerCase().trim();
+    if (!profile.subject || !email) {
+      return { error: 'Your identity provider did not send an email address.' };
+    }
+    if (!profile.emailVerified) {
+      return { error: 'Your identity provider has not verified your email address.' };
+    }
+
+    const domains = organization.sso.domains || [];
+    const onDomain = domains.includes(emailDomain(email));
+
+    let user = await User.findOne({
+      'sso.organizationId': organization._id,
+      'sso.subject': profile.subject
+    });
+
+    if (!user) {
+      // Only addresses on the organization's domains can be created or linked, so an
+      // identity provider cannot claim an account that belongs to someone else
+      if (!onDomain) {
+        return { error: `${email} is not on a domain ${organization.name} signs in with.` };
+      }
+      user = await User.findOne({ email });
+    }
+
+    const accountRole = organization.type === 'vendor' ? 'vendor' : 'customer';
+
+    if (user) {
+      if (!user.isActive) {
+        return { error: 'Account is deactivated. Please contact support.' };
+      }
+      if (user.role === 'superadmin') {
+        return { error: 'Administrator accounts sign in with a password.' };
+      }
+      if (user.role !== accountRole && !organization.getMember(user._id)) {
+        return { error: `Only ${organization.type} accounts can join ${organization.name}.` };
+      }
+    } else {
+      if (accountRole === 'vendor' && !organization.companyId) {
+        return { error: `${organization.name} has no company profile yet. Ask an owner to finish setting it up.` };
+      }
+
+      user = new User({
+        firstName: (profile.firstName || email.split('@')[0]).slice(0, 50),
+        lastName: (profile.lastName || '-').slice(0, 50),
+        email,
+        // Never used: SSO users sign in through their identity provider
+        password: crypto.randomBytes(32).toString('hex'),
+        role: accountRole,
+        companyId: accountRole === 'vendor' ? organization.companyId : undefined,
+        isEmailVerified: true
+      });
+    }
+
+    user.sso = {
+      organizationId: organization._id,
+      protocol: profile.protocol,
+      subject: profile.subject,
+      lastLoginAt: new Date()
+    };
+    await user.save();
+
+    if (!organization.getMember(user._id)) {
+      await Organization.updateOne(
+        { _id: organization._id, 'members.userId': { $ne: user._id } },
+        { $push: { members: { userId: user._id, role: organization.sso.defaultRole || 'member' } } }
+      );
+    }
+
+    const active = await organizationService.getActiveOrganization(user);
+    if (!active) {
+      user = await organizationService.activate(user, organization);
+    }
+
+    return { user };
+  }
+
+  /**
+   * Read the SSO transaction cookie
+   * @param {Object} req - Express request
+   * @returns {string|null} Transaction token
+   */
+  readTransactionCookie(req) {
+    const header = req.headers.cookie || '';
+    const pair = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${TRANSACTION_COOKIE}=`));
+    return pair ? decodeURIComponent(pair.slice(TRANSACTION_COOKIE.length + 1)) : null;
+  }
+
+  /**
+   * Cookie options for the SSO transaction. Lax comes back on the OIDC redirect; the SAML
+   * response is a cross-site POST from the IdP, which only carries SameSite=None cookies
+   * (over https; on localhost the IdP and the API are the same site, so lax works there).
+   * @param {string} protocol - 'oidc' or 'saml'
+   * @returns {Object} Express cookie options
+   */
+  transactionCookieOptions(protocol = 'oidc') {
+    const secure = process.env.NODE_ENV === 'production';
+    return {
+      httpOnly: true,
+      secure,
+      sameSite: protocol === 'saml' && secure ? 'none' : 'lax',
+      path: '/api/auth/sso'
+    };
+  }
+
+  /**
+   * Set the SSO transaction cookie
+   * @param {Object} res - Express response
+   * @param {string} transaction - Transaction token
+   * @param {string} protocol - 'oidc' or 'saml'
+   */
+  setTransactionCookie(res, transaction, protocol) {
+    res.cookie(TRANSACTION_COOKIE, transaction, { ...this.transactionCookieOptions(protocol), maxAge: TRANSACTION_TTL_MS });
+  }
+
+  /**
+   * Clear the SSO transaction cookie
+   * @param {Object} res - Express response
+   */
+  clearTransactionCookie(res) {
+    res.clearCookie(TRANSACTION_COOKIE, this.transactionCookieOptions());
+  }
+}
+
+module.exports = new SsoService();
@@ -0,0 +1,35 @@
+/**
+ * Storage Service - Selects the file storage driver
+ * STORAGE_DRIVER=local (default) stores on disk, STORAGE_DRIVER=s3 uses an S3-compatible bucket
+ */
+
+const LocalStorageDriver = require('./localStorageDriver');
+
+const drivers = {
+  local: () => new LocalStorageDriver(),
+  s3: () => {
+    const S3StorageDriver = require('./s3StorageDriver');
+    return new S3StorageDriver();
+  }
+};
+
+let activeDriver = null;
+
+/**
+ * Get the configured storage driver (created on first use)
+ * @returns {Object} Storage driver instance
+ */
+const getStorage = () => {
+  if (!activeDriver) {
+    const name = process.env.STORAGE_DRIVER || 'local';
+    if (!drivers[name]) {
+      throw new Error(`Unknown STORAGE_DRIVER "${name}". Use one of: ${Object.keys(drivers).join(', ')}`);
+    }
+    activeDriver = drivers[name]();
+  }
+  return activeDriver;
+};
+
+module.exports = {
+  getStorage
+};
@@ -0,0 +1,103 @@
+/**
+ * Local Storage Driver - Stores uploaded files on disk
+ * Download URLs are HMAC-signed links served by the attachments route
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+class LocalStorageDriver {
+  constructor() {
+    this.name = 'local';
+    this.rootDir = path.resolve(process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads'));
+    this.signingSecret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  }
+
+  /**
+   * Resolve a storage key to an absolute path inside the upload directory
+   * @param {string} key - Storage key
+   */
+  resolvePath(key) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  /**
+   * Save a file
+   * @param {string} key - Storage key
+   * @param {Buffer} buffer - File contents
+   */
+  async save(key, buffer) {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, buffer);
+  }
+
+  /**
+   * Remove a file (missing files are ignored)
+   * @param {string} key - Storage key
+   */
+  async remove(key) {
+    try {
+      await fs.promises.unlink(this.resolvePath(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  /**
+   * Open a read stream for a file
+   * @param {string} key - Storage key
+   */
+  createReadStream(key) {
+    return fs.createReadStream(this.resolvePath(key));
+  }
+
+  /**
+   * Compute the signature for a download link
+   * @param {string} attachmentId - Attachment ID
+   * @param {number} expires - Expiry as a unix timestamp (seconds)
+   */
+  sign(attachmentId, expires) {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${attachmentId}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Verify a download link signature and expiry
+   * @param {string} attachmentId - Attachment ID
+   * @param {string|number} expires - Expiry from the query string
+   * @param {string} signature - Signature from the query string
+   * @returns {boolean} Whether the link is valid
+   */
+  verify(attachmentId, expires, signature) {
+    const expiresAt = parseInt(expires);
+    if (!expiresAt || !signature || expiresAt < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(attachmentId, expiresAt));
+    const provided = Buffer.from(String(signature));
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Build a signed download URL
+   * @param {Object} attachment - Attachment document
+   * @param {Object} options - { baseUrl, expiresIn (seconds) }
+   * @returns {Promise<string>} Signed URL
+   */
+  async getDownloadUrl(attachment, { baseUrl, expiresIn }) {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.sign(attachment._id.toString(), expires);
+    return `${baseUrl}/api/attachments/${attachment._id}/download?expires=${expires}&signature=${signature}`;
+  }
+}
+
+module.exports = LocalStorageDriver;
@@ -0,0 +1,82 @@
+/**
+ * S3 Storage Driver - Stores uploaded files in an S3-compatible bucket
+ * Works with AWS S3 and compatible services (MinIO, Cloudflare R2, etc.)
+ *
+ * Optional: requires `npm install @aws-sdk/client-s3 @aws-sdk/s3-request-presigner`
+ */
+
+class S3StorageDriver {
+  constructor() {
+    let s3;
+    let presigner;
+    try {
+      s3 = require('@aws-sdk/client-s3');
+      presigner = require('@aws-sdk/s3-request-presigner');
+    } catch (error) {
+      throw new Error(
+        'STORAGE_DRIVER=s3 requires @aws-sdk/client-s3 and @aws-sdk/s3-request-presigner to be installed'
+      );
+    }
+
+    if (!process.env.S3_BUCKET) {
+      throw new Error('STORAGE_DRIVER=s3 requires S3_BUCKET to be set');
+    }
+
+    this.name = 's3';
+    this.s3 = s3;
+    this.getSignedUrl = presigner.getSignedUrl;
+    this.bucket = process.env.S3_BUCKET;
+    this.client = new s3.S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID ? {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+      } : undefined
+    });
+  }
+
+  /**
+   * Save a file
+   * @param {string} key - Object key
+   * @param {Buffer} buffer - File contents
+   * @param {string} mimeType - Content type
+   */
+  async save(key, buffer, mimeType) {
+    await this.client.send(new this.s3.PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: buffer,
+      ContentType: mimeType
+    }));
+  }
+
+  /**
+   * Remove a file
+   * @param {string} key - Object key
+   */
+  async remove(key) {
+    await this.client.send(new this.s3.DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key
+    }));
+  }
+
+  /**
+   * Build a presigned download URL
+   * @param {Object} attachment - Attachment document
+   * @param {Object} options - { expiresIn (seconds) }
+   * @returns {Promise<string>} Presigned URL
+   */
+  async getDownloadUrl(attachment, { expiresIn }) {
+    const command = new this.s3.GetObjectCommand({
+      Bucket: this.bucket,
+      Key: attachment.storageKey,
+      ResponseContentDisposition: `attachment; filename="${encodeURIComponent(attachment.originalName)}"`
+    });
+    return this.getSignedUrl(this.client, command, { expiresIn });
+  }
+}
+
+module.exports = S3StorageDriver;
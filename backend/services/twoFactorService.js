@@ -0,0 +1,191 @@
+/**
+ * Two-Factor Service - TOTP enrolment, verification and recovery codes
+ * Secrets are encrypted at rest with AES-256-GCM and recovery codes are stored as SHA-256
+ * hashes. Each TOTP time step is accepted once, and each recovery code works once.
+ */
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const { authenticator } = require('otplib');
+const User = require('../models/User');
+
+const TOTP_STEP_SECONDS = 30;
+
+// Accept the previous and next step to allow for clock drift
+const totp = authenticator.clone({ step: TOTP_STEP_SECONDS, window: 1 });
+
+const RECOVERY_CODE_COUNT = 10;
+
+// How long the password step of a two-factor login stays valid
+const CHALLENGE_EXPIRE = '5m';
+
+// Lower-case and drop separators so "ABCD-1234" and "abcd1234" match
+const normalizeRecoveryCode = (code) => String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashRecoveryCode = (code) => crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+class TwoFactorService {
+  get issuer() {
+    return process.env.TWO_FACTOR_ISSUER || 'AstroVault AI';
+  }
+
+  // Minutes a two-factor check counts as recent for sensitive routes
+  get recentMinutes() {
+    return parseInt(process.env.TWO_FACTOR_RECENT_MINUTES) || 30;
+  }
+
+  // Encryption key: TWO_FACTOR_ENCRYPTION_KEY if set, otherwise derived from JWT_SECRET
+  get encryptionKey() {
+    return crypto.createHash('sha256')
+      .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || `2fa:${process.env.JWT_SECRET}`)
+      .digest();
+  }
+
+  /**
+   * Encrypt a TOTP secret for storage
+   * @param {string} secret - Base32 secret
+   * @returns {string} iv.tag.ciphertext (base64)
+   */
+  encrypt(secret) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   * @param {string} value - Value produced by encrypt()
+   * @returns {string|null} Base32 secret, or null if it cannot be decrypted
+   */
+  decrypt(value) {
+    try {
+      const [iv, tag, encrypted] = String(value).split('.').map(part => Buffer.from(part, 'base64'));
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    } catch (error) {
+      console.error('Failed to decrypt two-factor secret:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Start enrolment: a new secret with its otpauth URL and QR code
+   * @param {Object} user - User document
+   * @returns {Promise<Object>} { secret, encryptedSecret, otpauthUrl, qrCode (data URL) }
+   */
+  async createEnrolment(user) {
+    const secret = totp.generateSecret();
+    const otpauthUrl = totp.keyuri(user.email, this.issuer, secret);
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 });
+
+    return { secret, encryptedSecret: this.encrypt(secret), otpauthUrl, qrCode };
+  }
+
+  /**
+   * Find the time step a code belongs to
+   * @param {string} encryptedSecret - Stored secret
+   * @param {string} code - Six-digit code
+   * @returns {number|null} Time step, or null if the code is wrong
+   */
+  matchStep(encryptedSecret, code) {
+    const secret = encryptedSecret && this.decrypt(encryptedSecret);
+    if (!secret || !/^\d{6}$/.test(String(code || ''))) return null;
+
+    const delta = totp.checkDelta(String(code), secret);
+    if (delta === null) return null;
+
+    return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+  }
+
+  /**
+   * Verify a TOTP code or a recovery code for a user with two-factor enabled
+   * The code's time step or the recovery code is consumed in the same update.
+   * @param {string} userId - User ID
+   * @param {Object} credentials - { code } or { recoveryCode }
+   * @returns {Promise<Object|null>} { method, recoveryCodesRemaining }, or null if rejected
+   */
+  async verify(userId, { code, recoveryCode }) {
+    const user = await User.findById(userId).select('+twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep');
+    if (!user || !user.twoFactor?.enabled) return null;
+
+    if (recoveryCode) {
+      const hash = hashRecoveryCode(recoveryCode);
+      const updated = await User.findOneAndUpdate(
+        { _id: userId, 'twoFactor.recoveryCodes': hash },
+        { $pull: { 'twoFactor.recoveryCodes': hash } },
+        { new: true }
+      ).select('+twoFactor.recoveryCodes');
+
+      return updated
+        ? { method: 'recovery_code', recoveryCodesRemaining: updated.twoFactor.recoveryCodes.length }
+        : null;
+    }
+
+    const step = this.matchStep(user.twoFactor.secret, code);
+    if (step === null) return null;
+
+    // Only one request can claim a given step
+    const claimed = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        $or: [{ 'twoFactor.lastUsedStep': { $lt: step } }, { 'twoFactor.lastUsedStep': null }]
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+
+    return claimed
+      ? { method: 'totp', recoveryCodesRemaining: (user.twoFactor.recoveryCodes || []).length }
+      : null;
+  }
+
+  /**
+   * Generate a fresh set of recovery codes
+   * @returns {Object} { codes (shown once), hashes (stored) }
+   */
+  generateRecoveryCodes() {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+  }
+
+  /**
+   * Sign the token that carries a password-verified login to the second step
+   * @param {Object} user - User document
+   * @returns {string} Short-lived JWT
+   */
+  signChallenge(user) {
+    return jwt.sign({ userId: user._id, purpose: '2fa_login' }, process.env.JWT_SECRET, {
+      expiresIn: CHALLENGE_EXPIRE
+    });
+  }
+
+  /**
+   * Read a login challenge token
+   * @param {string} token - Challenge token
+   * @returns {string|null} User ID, or null if invalid or expired
+   */
+  readChallenge(token) {
+    try {
+      const decoded = jwt.verify(String(token || ''), process.env.JWT_SECRET);
+      return decoded.purpose === '2fa_login' ? decoded.userId : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a session's two-factor check is recent enough for sensitive routes
+   * @param {Date} verifiedAt - When the session last passed a two-factor check
+   * @returns {boolean} True if within TWO_FACTOR_RECENT_MINUTES
+   */
+  isRecent(verifiedAt) {
+    return Boolean(verifiedAt) && Date.now() - new Date(verifiedAt).getTime() < this.recentMinutes * 60 * 1000;
+  }
+}
+
+module.exports = new TwoFactorService();
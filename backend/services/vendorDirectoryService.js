@@ -0,0 +1,253 @@
+/**
+ * Vendor Directory Service - Public vendor listings built from Vendor questionnaires
+ * Each entry joins a vendor's questionnaire with the Company of the vendor user (when they
+ * have one), so vendors appear as soon as they submit the questionnaire.
+ */
+
+const mongoose = require('mongoose');
+const Vendor = require('../models/Vendor');
+const Solution = require('../models/Solution');
+
+// Questionnaires that are listed (drafts and rejected vendors stay hidden)
+const LISTED_STATUSES = ['submitted', 'reviewed', 'approved'];
+
+// Solutions shown on vendor profiles and counted on cards
+const VISIBLE_SOLUTION = { status: 'approved', isActive: true };
+
+// Sort options for the directory
+const SORT_OPTIONS = {
+  verified: { isVerified: -1, solutionCount: -1, submittedAt: -1 },
+  newest: { submittedAt: -1 },
+  name: { name: 1 },
+  rating: { 'rating.average': -1, 'rating.count': -1 },
+  solutions: { solutionCount: -1, submittedAt: -1 }
+};
+
+// Questionnaire and company fields that are safe to show publicly (no contact details)
+const CARD_PROJECTION = {
+  name: { $ifNull: ['$company.name', '$companyName'] },
+  description: { $ifNull: ['$company.description', '$solutionDescription'] },
+  logo: '$company.logo',
+  website: 1,
+  companyType: 1,
+  companyTypeOther: 1,
+  companySize: 1,
+  foundedYear: 1,
+  location: { state: '$location.state', country: { $ifNull: ['$location.countryOther', '$location.country'] } },
+  solutionCategory: 1,
+  deploymentOptions: 1,
+  complianceCertifications: 1,
+  pricingModel: 1,
+  pricingRange: 1,
+  implementationTime: 1,
+  clientCount: 1,
+  isVerified: 1,
+  rating: { $ifNull: ['$company.rating', { average: 0, count: 0 }] },
+  solutionCount: 1,
+  submittedAt: 1
+};
+
+// Escape user input for use inside a RegExp
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Query string value (single or repeated) to a list; values such as
+// pricing ranges contain commas, so they are never split
+const toList = (value) => {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value])
+    .map(item => String(item).trim())
+    .filter(Boolean);
+};
+
+class VendorDirectoryService {
+  /**
+   * Filter options, taken from the questionnaire's choices
+   * @returns {Object} { companyTypes, companySizes, deploymentOptions, complianceCertifications, pricingRanges, categories }
+   */
+  async getFilterOptions() {
+    const enumValues = (path) => Vendor.schema.path(path).enumValues
+      || Vendor.schema.path(path).caster?.enumValues
+      || [];
+
+    const categories = await Vendor.distinct('solutionCategory', { status: { $in: LISTED_STATUSES } });
+
+    return {
+      companyTypes: enumValues('companyType'),
+      companySizes: enumValues('companySize'),
+      deploymentOptions: enumValues('deploymentOptions'),
+      complianceCertifications: enumValues('complianceCertifications'),
+      pricingRanges: enumValues('pricingRange'),
+      categories: categories.filter(Boolean).sort()
+    };
+  }
+
+  /**
+   * Join a vendor's user, company and visible solution count
+   * @returns {Array} Aggregation stages
+   */
+  joinStages() {
+    return [
+      {
+        $lookup: {
+          from: 'users',
+          localField: 'userId',
+          foreignField: '_id',
+          as: 'user'
+        }
+      },
+      { $unwind: '$user' },
+      { $match: { 'user.isActive': { $ne: false } } },
+      {
+        $lookup: {
+          from: 'companies',
+          localField: 'user.companyId',
+          foreignField: '_id',
+          as: 'company'
+        }
+      },
+      { $unwind: { path: '$company', preserveNullAndEmptyArrays: true } },
+      { $match: { 'company.isActive': { $ne: false } } },
+      {
+        $lookup: {
+          from: 'solutions',
+          let: { vendorUserId: '$userId', companyId: '$user.companyId' },
+          as: 'solutionStats',
+          pipeline: [
+            {
+              $match: {
+                ...VISIBLE_SOLUTION,
+                $expr: {
+                  $or: [
+                    { $eq: ['$vendorId', '$$vendorUserId'] },
+                    { $and: [{ $ne: ['$$companyId', null] }, { $eq: ['$companyId', '$$companyId'] }] }
+                  ]
+                }
+              }
+            },
+            { $count: 'total' }
+          ]
+        }
+      },
+      {
+        $addFields: {
+          solutionCount: { $ifNull: [{ $first: '$solutionStats.total' }, 0] },
+          isVerified: { $or: [{ $eq: ['$status', 'approved'] }, { $eq: ['$company.isVerified', true] }] }
+        }
+      }
+    ];
+  }
+
+  /**
+   * Search listed vendors
+   * @param {Object} filters - { search, companyType, companySize, deployment, compliance, pricingRange, category, verified }
+   * @param {Object} options - { page, limit, sort }
+   * @returns {Promise<Object>} { vendors, total }
+   */
+  async search(filters = {}, { page = 1, limit = 12, sort = 'verified' } = {}) {
+    const match = { status: { $in: LISTED_STATUSES } };
+
+    const companyTypes = toList(filters.companyType);
+    const companySizes = toList(filters.companySize);
+    const deployment = toList(filters.deployment);
+    const compliance = toList(filters.compliance);
+    const pricingRanges = toList(filters.pricingRange);
+    const categories = toList(filters.category);
+
+    if (companyTypes.length) match.companyType = { $in: companyTypes };
+    if (companySizes.length) match.companySize = { $in: companySizes };
+    if (deployment.length) match.deploymentOptions = { $in: deployment };
+    // Vendors must hold every requested certification
+    if (compliance.length) match.complianceCertifications = { $all: compliance };
+    if (pricingRanges.length) match.pricingRange = { $in: pricingRanges };
+    if (categories.length) match.solutionCategory = { $in: categories };
+
+    const afterJoin = {};
+    if (filters.search) {
+      const pattern = new RegExp(escapeRegex(String(filters.search).trim()), 'i');
+      afterJoin.$or = [
+        { companyName: pattern },
+        { solutionName: pattern },
+        { solutionDescription: pattern },
+        { solutionCategory: pattern },
+        { 'company.name': pattern },
+        { 'company.description': pattern }
+      ];
+    }
+    if (filters.verified !== undefined && filters.verified !== '') {
+      afterJoin.isVerified = filters.verified === true || filters.verified === 'true';
+    }
+
+    const [result] = await Vendor.aggregate([
+      { $match: match },
+      ...this.joinStages(),
+      { $match: afterJoin },
+      { $project: CARD_PROJECTION },
+      {
+        $facet: {
+          vendors: [
+            { $sort: SORT_OPTIONS[sort] || SORT_OPTIONS.verified },
+            { $skip: (page - 1) * limit },
+            { $limit: limit }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    return {
+      vendors: result.vendors,
+      total: result.total[0]?.count || 0
+    };
+  }
+
+  /**
+   * Get a listed vendor's public profile with all of their approved solutions
+   * @param {string} vendorId - Vendor ID
+   * @returns {Promise<Object|null>} Profile, or null if the vendor is not listed
+   */
+  async getProfile(vendorId) {
+    const [vendor] = await Vendor.aggregate([
+      { $match: { _id: new mongoose.Types.ObjectId(vendorId), status: { $in: LISTED_STATUSES } } },
+      ...this.joinStages(),
+      {
+        $project: {
+          ...CARD_PROJECTION,
+          userId: 1,
+          companyId: '$company._id',
+          highlights: '$company.highlights',
+          keyTeamMembers: '$company.keyTeamMembers',
+          teamSize: '$company.teamSize',
+          socialLinks: '$company.socialLinks',
+          complianceCertificationsOther: 1,
+          securityFeatures: 1,
+          keyFeatures: 1,
+          technologyStack: 1,
+          integrationCapabilities: 1,
+          targetSpecialties: 1,
+          targetInstitutionTypes: 1,
+          supportOffered: 1,
+          trainingProvided: 1,
+          awards: 1,
+          competitiveAdvantages: 1
+        }
+      }
+    ]);
+
+    if (!vendor) return null;
+
+    const solutions = await Solution.find({
+      ...VISIBLE_SOLUTION,
+      $or: [
+        { vendorId: vendor.userId },
+        ...(vendor.companyId ? [{ companyId: vendor.companyId }] : [])
+      ]
+    })
+      .select('title shortDescription category industry pricing.model rating images deployment.type')
+      .sort({ 'rating.average': -1, createdAt: -1 });
+
+    delete vendor.userId;
+    return { ...vendor, solutions };
+  }
+}
+
+module.exports = new VendorDirectoryService();
@@ -0,0 +1,194 @@
+/**
+ * In-memory stand-in for a Mongoose model
+ * Supports the queries and updates the services under test use (equality, $ne, $gt, $lt,
+ * $in, $or, $elemMatch; $set, $push, $pull), so service logic runs without MongoDB.
+ */
+
+const crypto = require('crypto');
+
+const newId = () => crypto.randomBytes(12).toString('hex');
+
+// Deep copy of plain data (structuredClone would hand back Dates from another realm under jest)
+const clone = (value) => {
+  if (value instanceof Date) return new Date(value.getTime());
+  if (Array.isArray(value)) return value.map(clone);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+  }
+  return value;
+};
+
+const isOperatorObject = (value) => value && typeof value === 'object' && !Array.isArray(value) &&
+  !(value instanceof Date) && Object.keys(value).some(key => key.startsWith('$'));
+
+// Values at a dotted path; arrays along the way are flattened like MongoDB does
+const getPath = (doc, path) => path.split('.').reduce((value, key) => {
+  if (Array.isArray(value)) return value.flatMap(item => (item == null ? [] : [item[key]]));
+  return value == null ? undefined : value[key];
+}, doc);
+
+const comparable = (value) => (value instanceof Date ? value.getTime() : value);
+
+const equals = (actual, expected) => {
+  if (expected === null) return actual === null || actual === undefined;
+  if (actual === null || actual === undefined) return false;
+  if (expected instanceof Date || actual instanceof Date) return comparable(actual) === comparable(expected);
+  return String(actual) === String(expected);
+};
+
+const matchValue = (actual, condition) => {
+  if (isOperatorObject(condition)) {
+    return Object.entries(condition).every(([operator, operand]) => {
+      switch (operator) {
+        case '$ne': return !matchValue(actual, operand);
+        case '$gt': return actual != null && comparable(actual) > comparable(operand);
+        case '$lt': return actual != null && comparable(actual) < comparable(operand);
+        case '$in': return operand.some(value => matchValue(actual, value));
+        case '$nin': return !operand.some(value => matchValue(actual, value));
+        case '$exists': return (actual !== undefined) === Boolean(operand);
+        case '$elemMatch': return Array.isArray(actual) && actual.some(item => matches(item, operand));
+        default: throw new Error(`memoryModel does not support ${operator}`);
+      }
+    });
+  }
+  if (Array.isArray(actual) && !Array.isArray(condition)) {
+    return actual.some(item => equals(item, condition)) || (condition === null && actual.length === 0);
+  }
+  return equals(actual, condition);
+};
+
+const matches = (doc, filter = {}) => Object.entries(filter).every(([key, condition]) => {
+  if (key === '$or') return condition.some(branch => matches(doc, branch));
+  return matchValue(getPath(doc, key), condition);
+});
+
+const setPath = (doc, path, value) => {
+  const keys = path.split('.');
+  const last = keys.pop();
+  const parent = keys.reduce((target, key) => {
+    if (target[key] == null) target[key] = {};
+    return target[key];
+  }, doc);
+  parent[last] = value;
+};
+
+const applyUpdate = (doc, update) => {
+  const operations = isOperatorObject(update) ? update : { $set: update };
+  Object.entries(operations).forEach(([operator, fields]) => {
+    Object.entries(fields).forEach(([path, value]) => {
+      const current = getPath(doc, path);
+      switch (operator) {
+        case '$set': setPath(doc, path, value); break;
+        case '$push': setPath(doc, path, [...(current || []), value]); break;
+        case '$pull': setPath(doc, path, (current || []).filter(item => !equals(item, value))); break;
+        default: throw new Error(`memoryModel does not support ${operator}`);
+      }
+    });
+  });
+};
+
+// Own data of a document, without prototype methods
+const plain = (doc) => clone({ ...doc });
+
+// Thenable query so chained .select()/.sort()/.lean() calls work
+const query = (run) => {
+  const chain = {
+    select: () => chain,
+    sort: () => chain,
+    populate: () => chain,
+    lean: () => chain,
+    then: (resolve, reject) => Promise.resolve().then(run).then(resolve, reject)
+  };
+  return chain;
+};
+
+/**
+ * Create a model class backed by a Map
+ * @param {Object} methods - Instance methods of the real schema that the code under test calls
+ * @returns {Function} Model class with the static query methods
+ */
+const createMemoryModel = (methods = {}) => {
+  const store = new Map();
+
+  class MemoryModel {
+    constructor(data = {}) {
+      Object.assign(this, clone(data));
+      if (!this._id) this._id = newId();
+    }
+
+    async save() {
+      const now = new Date();
+      if (!this.createdAt) this.createdAt = now;
+      this.updatedAt = now;
+      store.set(String(this._id), plain(this));
+      return this;
+    }
+
+    static hydrate(data) {
+      return data ? new MemoryModel(data) : null;
+    }
+
+    static all() {
+      return [...store.values()].map(data => MemoryModel.hydrate(data));
+    }
+
+    static reset() {
+      store.clear();
+    }
+
+    static async create(data) {
+      return new MemoryModel(data).save();
+    }
+
+    static findById(id) {
+      return query(() => MemoryModel.hydrate(store.get(String(id))));
+    }
+
+    static findOne(filter) {
+      return query(() => MemoryModel.hydrate([...store.values()].find(data => matches(data, filter))));
+    }
+
+    static find(filter) {
+      return query(() => [...store.values()].filter(data => matches(data, filter)).map(data => MemoryModel.hydrate(data)));
+    }
+
+    static exists(filter) {
+      return query(() => ([...store.values()].some(data => matches(data, filter)) ? { _id: true } : null));
+    }
+
+    static findOneAndUpdate(filter, update, options = {}) {
+      return query(() => {
+        const data = [...store.values()].find(item => matches(item, filter));
+        if (!data) return null;
+        const before = clone(data);
+        applyUpdate(data, update);
+        return MemoryModel.hydrate(options.new ? data : before);
+      });
+    }
+
+    static findByIdAndUpdate(id, update, options = {}) {
+      return MemoryModel.findOneAndUpdate({ _id: id }, update, options);
+    }
+
+    static updateOne(filter, update) {
+      return query(() => {
+        const data = [...store.values()].find(item => matches(item, filter));
+        if (data) applyUpdate(data, update);
+        return { matchedCount: data ? 1 : 0, modifiedCount: data ? 1 : 0 };
+      });
+    }
+
+    static updateMany(filter, update) {
+      return query(() => {
+        const targets = [...store.values()].filter(item => matches(item, filter));
+        targets.forEach(data => applyUpdate(data, update));
+        return { matchedCount: targets.length, modifiedCount: targets.length };
+      });
+    }
+  }
+
+  Object.assign(MemoryModel.prototype, methods);
+  return MemoryModel;
+};
+
+module.exports = { createMemoryModel, newId };
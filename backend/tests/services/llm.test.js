@@ -0,0 +1,164 @@
+/**
+ * LLM service tests
+ * Use the mock provider and a fake OpenAI client, so no API key or network is needed
+ */
+
+process.env.LLM_PROVIDER = 'mock';
+process.env.LLM_RETRY_BASE_MS = '1';
+process.env.LLM_RETRY_MAX_MS = '1';
+
+const llm = require('../../services/llm');
+const llmConfig = require('../../config/llm');
+const OpenAIProvider = require('../../services/llm/openaiProvider');
+
+// Collect every event of a provider stream
+const drain = async (events) => {
+  const collected = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+};
+
+// Error shaped like the ones the OpenAI SDK throws
+const apiError = (status) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('config/llm getTaskConfig', () => {
+  afterEach(() => {
+    delete process.env.LLM_INTERNET_SEARCH_MODEL;
+    delete process.env.LLM_INTERNET_SEARCH_TEMPERATURE;
+    delete process.env.LLM_MODEL;
+  });
+
+  it('applies per-task environment overrides', () => {
+    process.env.LLM_MODEL = 'shared-model';
+    process.env.LLM_INTERNET_SEARCH_MODEL = 'search-model';
+    process.env.LLM_INTERNET_SEARCH_TEMPERATURE = '0.1';
+
+    expect(llmConfig.getTaskConfig('internetSearch')).toMatchObject({ model: 'search-model', temperature: 0.1, maxTokens: 1200 });
+    expect(llmConfig.getTaskConfig('chat')).toMatchObject({ model: 'shared-model', temperature: 0.7 });
+  });
+
+  it('rejects unknown tasks', () => {
+    expect(() => llmConfig.getTaskConfig('poetry')).toThrow('Unknown LLM task "poetry"');
+  });
+});
+
+describe('llm service with the mock provider', () => {
+  const provider = llm.getLLMProvider();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers deterministically', async () => {
+    const messages = [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Find radiology AI' }];
+
+    const first = await llm.complete('chat', messages);
+    const second = await llm.complete('chat', messages);
+
+    expect(first).toEqual(second);
+    expect(first.content).toBe('Mock response to: Find radiology AI');
+    expect(first.model).toBe('mock');
+  });
+
+  it('returns JSON for parser tasks', async () => {
+    const result = await llm.complete('vendorParser', [{ role: 'user', content: '<html></html>' }]);
+    expect(JSON.parse(result.content)).toEqual({});
+  });
+
+  it('streams the same reply token by token', async () => {
+    const events = await drain(await llm.stream('chat', [{ role: 'user', content: 'hello there' }]));
+
+    expect(events.every(event => event.type === 'token')).toBe(true);
+    expect(events.map(event => event.content).join('')).toBe('Mock response to: hello there');
+  });
+
+  it('stops streaming once the request is aborted', async () => {
+    const controller = new AbortController();
+    const events = await llm.stream('chat', [{ role: 'user', content: 'a b c' }], { signal: controller.signal });
+    controller.abort();
+
+    await expect(drain(events)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('passes the task settings and overrides to the provider', async () => {
+    const complete = jest.spyOn(provider, 'complete');
+
+    await llm.complete('solutionParser', [{ role: 'user', content: 'x' }], { maxTokens: 50 });
+
+    expect(complete.mock.calls[0][0]).toMatchObject({ model: 'mock', temperature: 0.3, json: true, maxTokens: 50 });
+  });
+
+  it('retries rate limits and server errors', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const complete = jest.spyOn(provider, 'complete')
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(503));
+
+    const result = await llm.complete('chat', [{ role: 'user', content: 'retry me' }]);
+
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(result.content).toBe('Mock response to: retry me');
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const complete = jest.spyOn(provider, 'complete').mockRejectedValue(apiError(500));
+
+    await expect(llm.complete('chat', [{ role: 'user', content: 'x' }])).rejects.toMatchObject({ status: 500 });
+    expect(complete).toHaveBeenCalledTimes(llmConfig.retry.maxRetries + 1);
+  });
+
+  it('does not retry client errors', async () => {
+    const complete = jest.spyOn(provider, 'complete').mockRejectedValue(apiError(400));
+
+    await expect(llm.complete('chat', [{ role: 'user', content: 'x' }])).rejects.toMatchObject({ status: 400 });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OpenAIProvider', () => {
+  // Fake client whose create() returns the given value
+  const providerWith = (result) => {
+    const create = jest.fn().mockResolvedValue(result);
+    return { create, provider: new OpenAIProvider({ client: { chat: { completions: { create } } } }) };
+  };
+
+  it('maps provider-neutral requests to chat completion parameters', () => {
+    const { provider } = providerWith(null);
+
+    expect(provider.buildParams({
+      model: 'gpt-4o-mini',
+      messages: [],
+      temperature: 0.2,
+      maxTokens: 100,
+      json: true,
+      tools: [{ name: 'search', description: 'Search', parameters: { type: 'object' } }]
+    })).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [],
+      temperature: 0.2,
+      max_tokens: 100,
+      response_format: { type: 'json_object' },
+      tools: [{ type: 'function', function: { name: 'search', description: 'Search', parameters: { type: 'object' } } }]
+    });
+  });
+
+  it('assembles streamed tool call fragments', async () => {
+    const chunks = [
+      { choices: [{ delta: { content: 'Looking' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'search_', arguments: '{"q":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'solutions', arguments: '"ocr"}' } }] } }] }
+    ];
+    const { provider, create } = providerWith((async function* () { yield* chunks; })());
+
+    const events = await drain(await provider.stream({ model: 'm', messages: [] }));
+
+    expect(create.mock.calls[0][0].stream).toBe(true);
+    expect(events).toEqual([
+      { type: 'token', content: 'Looking' },
+      { type: 'tool_call', toolCall: { id: 'call_1', name: 'search_solutions', arguments: '{"q":"ocr"}' } }
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Realtime stream ticket tests
+ * Single-use tickets that open the event stream without putting the access token in the URL
+ */
+
+process.env.JWT_SECRET = 'test-secret';
+
+jest.mock('../../models/Session', () => require('../helpers/memoryModel').createMemoryModel());
+jest.mock('../../models/User', () => require('../helpers/memoryModel').createMemoryModel());
+
+const Session = require('../../models/Session');
+const User = require('../../models/User');
+const realtimeService = require('../../services/realtimeService');
+const sessionService = require('../../services/sessionService');
+const { authenticateStreamTicket } = require('../../middleware/auth');
+
+// Minimal Express request for sessionService.create()
+const request = { ip: '127.0.0.1', get: () => 'Mozilla/5.0 Chrome/120.0' };
+
+// Run the middleware and report whether it let the request through
+const openStream = async (ticket) => {
+  const req = { query: { ticket } };
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis()
+  };
+  const next = jest.fn();
+
+  await authenticateStreamTicket(req, res, next);
+
+  return { req, res, passed: next.mock.calls.length === 1 };
+};
+
+describe('realtime stream tickets', () => {
+  let user;
+  let session;
+
+  beforeEach(async () => {
+    Session.reset();
+    User.reset();
+    jest.restoreAllMocks();
+
+    user = await User.create({ email: 'ada@example.com', role: 'customer', isActive: true });
+    ({ session } = await sessionService.create(user, request));
+  });
+
+  it('opens the stream for the ticket holder with their session', async () => {
+    const { ticket, expiresIn } = realtimeService.issueTicket(user._id, session._id);
+
+    const { req, passed } = await openStream(ticket);
+
+    expect(expiresIn).toBe(30);
+    expect(passed).toBe(true);
+    expect(req.user._id).toBe(user._id);
+    expect(req.sessionId).toBe(session._id);
+  });
+
+  it('accepts each ticket only once', async () => {
+    const { ticket } = realtimeService.issueTicket(user._id, session._id);
+
+    expect((await openStream(ticket)).passed).toBe(true);
+
+    const replay = await openStream(ticket);
+    expect(replay.passed).toBe(false);
+    expect(replay.res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('refuses expired and unknown tickets', async () => {
+    const { ticket } = realtimeService.issueTicket(user._id, session._id);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 31 * 1000);
+
+    expect((await openStream(ticket)).passed).toBe(false);
+    expect((await openStream('made-up')).passed).toBe(false);
+    expect((await openStream(undefined)).passed).toBe(false);
+  });
+
+  it('refuses a ticket whose session was revoked after it was issued', async () => {
+    const { ticket } = realtimeService.issueTicket(user._id, session._id);
+    await sessionService.revoke(session._id, 'logout');
+
+    expect((await openStream(ticket)).passed).toBe(false);
+  });
+
+  it('refuses deactivated accounts', async () => {
+    const { ticket } = realtimeService.issueTicket(user._id, session._id);
+    await User.updateOne({ _id: user._id }, { isActive: false });
+
+    expect((await openStream(ticket)).passed).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Session service tests
+ * Refresh-token rotation, reuse detection and revocation against an in-memory Session model
+ */
+
+process.env.JWT_SECRET = 'test-secret';
+
+jest.mock('../../models/Session', () => require('../helpers/memoryModel').createMemoryModel({
+  isActive() {
+    return !this.revokedAt && this.expiresAt > new Date();
+  }
+}));
+
+const jwt = require('jsonwebtoken');
+const Session = require('../../models/Session');
+const realtimeService = require('../../services/realtimeService');
+const sessionService = require('../../services/sessionService');
+
+const user = { _id: '64b000000000000000000001' };
+
+// Minimal Express request for create()
+const request = { ip: '127.0.0.1', get: () => 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/120.0' };
+
+// Move a session's last rotation into the past
+const rotatedAgo = (sessionId, ms) => Session.updateOne(
+  { _id: sessionId },
+  { $set: { rotatedAt: new Date(Date.now() - ms) } }
+);
+
+describe('sessionService', () => {
+  beforeEach(() => {
+    Session.reset();
+    jest.restoreAllMocks();
+  });
+
+  describe('create', () => {
+    it('binds the access token to the session and stores only a hash of the refresh secret', async () => {
+      const { session, accessToken, refreshToken } = await sessionService.create(user, request);
+
+      const [sessionId, secret] = refreshToken.split('.');
+      expect(sessionId).toBe(session._id.toString());
+      expect(jwt.verify(accessToken, process.env.JWT_SECRET)).toMatchObject({ userId: user._id, sid: session._id });
+
+      const stored = Session.all()[0];
+      expect(stored.tokenHash).toHaveLength(64);
+      expect(stored.tokenHash).not.toContain(secret);
+    });
+  });
+
+  describe('rotate', () => {
+    it('issues a new refresh token and remembers the previous one', async () => {
+      const { session, refreshToken } = await sessionService.create(user, request);
+
+      const result = await sessionService.rotate(refreshToken);
+
+      expect(result.refreshToken).toBeDefined();
+      expect(result.refreshToken).not.toBe(refreshToken);
+      expect(jwt.verify(result.accessToken, process.env.JWT_SECRET).sid).toBe(session._id);
+
+      const stored = Session.all()[0];
+      expect(stored.previousTokenHash).toBe(session.tokenHash);
+      expect(stored.rotatedAt).toBeInstanceOf(Date);
+
+      // The chain keeps working with the latest token
+      expect((await sessionService.rotate(result.refreshToken)).refreshToken).toBeDefined();
+    });
+
+    it('rejects malformed, unknown and forged tokens', async () => {
+      const { session } = await sessionService.create(user, request);
+
+      expect(await sessionService.rotate(undefined)).toBeNull();
+      expect(await sessionService.rotate('not-a-token')).toBeNull();
+      expect(await sessionService.rotate(`64b0000000000000000000ff.${'a'.repeat(64)}`)).toBeNull();
+      expect(await sessionService.rotate(`${session._id}.${'a'.repeat(64)}`)).toBeNull();
+
+      // A wrong secret does not revoke the session
+      expect(Session.all()[0].revokedAt).toBeUndefined();
+    });
+
+    it('rejects tokens of revoked or expired sessions', async () => {
+      const revoked = await sessionService.create(user, request);
+      await sessionService.revoke(revoked.session._id, 'logout');
+      expect(await sessionService.rotate(revoked.refreshToken)).toBeNull();
+
+      const expired = await sessionService.create(user, request);
+      await Session.updateOne({ _id: expired.session._id }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+      expect(await sessionService.rotate(expired.refreshToken)).toBeNull();
+    });
+
+    it('accepts the previous token within the grace window without rotating again', async () => {
+      const { refreshToken } = await sessionService.create(user, request);
+      const rotated = await sessionService.rotate(refreshToken);
+
+      const replay = await sessionService.rotate(refreshToken);
+
+      expect(replay.accessToken).toBeDefined();
+      expect(replay.refreshToken).toBeUndefined();
+      expect(Session.all()[0].revokedAt).toBeUndefined();
+      expect((await sessionService.rotate(rotated.refreshToken)).refreshToken).toBeDefined();
+    });
+
+    it('revokes the session when a rotated token is reused after the grace window', async () => {
+      const { session, refreshToken } = await sessionService.create(user, request);
+      const rotated = await sessionService.rotate(refreshToken);
+      await rotatedAgo(session._id, 60 * 1000);
+      const closeSession = jest.spyOn(realtimeService, 'closeSession');
+
+      expect(await sessionService.rotate(refreshToken)).toBeNull();
+
+      const stored = Session.all()[0];
+      expect(stored.revokedReason).toBe('token_reuse');
+      expect(closeSession).toHaveBeenCalledWith(user._id, session._id);
+
+      // The legitimate holder of the latest token is signed out too
+      expect(await sessionService.rotate(rotated.refreshToken)).toBeNull();
+      expect(await sessionService.findActive(session._id)).toBeNull();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('revokes every other session and closes their event streams', async () => {
+      const current = await sessionService.create(user, request);
+      const other = await sessionService.create(user, request);
+      const stranger = await sessionService.create({ _id: '64b000000000000000000002' }, request);
+      const closeClients = jest.spyOn(realtimeService, 'closeClients');
+
+      expect(await sessionService.revokeAll(user._id, 'logout_all', current.session._id)).toBe(1);
+
+      expect(await sessionService.findActive(current.session._id)).not.toBeNull();
+      expect(await sessionService.findActive(other.session._id)).toBeNull();
+      expect(await sessionService.findActive(stranger.session._id)).not.toBeNull();
+
+      const [userId, match] = closeClients.mock.calls[0];
+      expect(userId).toBe(user._id);
+      expect(match(other.session._id)).toBe(true);
+      expect(match(current.session._id)).toBe(false);
+    });
+  });
+});
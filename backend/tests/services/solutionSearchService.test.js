@@ -0,0 +1,132 @@
+/**
+ * Solution search tests
+ * Run entirely on the local embedding provider and BM25, without a database
+ */
+
+process.env.EMBEDDING_PROVIDER = 'local';
+
+jest.mock('../../models/Solution', () => ({
+  find: jest.fn(),
+  bulkWrite: jest.fn()
+}));
+
+const Solution = require('../../models/Solution');
+const BM25Index = require('../../services/retrieval/bm25');
+const LocalEmbeddingProvider = require('../../services/retrieval/localEmbeddingProvider');
+const { tokenize, cosineSimilarity } = require('../../services/retrieval/text');
+const solutionSearchService = require('../../services/solutionSearchService');
+
+const SOLUTIONS = [
+  {
+    _id: 'radiology',
+    title: 'Chest X-ray triage',
+    description: 'Flags critical findings in chest radiographs for radiologists.',
+    category: 'Computer Vision',
+    industry: 'Healthcare',
+    useCases: ['Radiology worklist prioritization']
+  },
+  {
+    _id: 'chatbot',
+    title: 'Patient intake chatbot',
+    description: 'Conversational assistant that collects symptoms before appointments.',
+    category: 'Natural Language Processing',
+    industry: 'Healthcare',
+    useCases: ['Patient intake', 'Appointment scheduling']
+  },
+  {
+    _id: 'fraud',
+    title: 'Card fraud scoring',
+    description: 'Real-time transaction risk scores for payment teams.',
+    category: 'Predictive Analytics',
+    industry: 'Finance',
+    tags: ['fraud detection']
+  }
+];
+
+// Solution.find(...).select(...).lean()
+const mockFind = (solutions) => {
+  Solution.find.mockImplementation(() => ({
+    select: () => ({ lean: async () => solutions.map(solution => ({ ...solution })) })
+  }));
+};
+
+describe('retrieval text helpers', () => {
+  it('drops stopwords and folds simple plurals', () => {
+    expect(tokenize('We need chatbots for the pharmacies')).toEqual(['chatbot', 'pharmacy']);
+  });
+
+  it('treats regex characters in queries as plain separators', () => {
+    expect(tokenize('x-ray (.*) triage+')).toEqual(['ray', 'triage']);
+  });
+});
+
+describe('BM25Index', () => {
+  const index = new BM25Index(SOLUTIONS.map(solution => ({
+    id: solution._id,
+    text: `${solution.title} ${solution.description}`
+  })));
+
+  it('only scores documents that share a term with the query', () => {
+    const scores = index.score('fraud transactions');
+    expect([...scores.keys()]).toEqual(['fraud']);
+  });
+
+  it('ranks the document with more matching terms higher', () => {
+    const scores = index.score('chest radiographs assistant');
+    expect(scores.get('radiology')).toBeGreaterThan(scores.get('chatbot'));
+  });
+});
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('is deterministic and normalized', async () => {
+    const [first, second] = await provider.embed(['fraud analytics', 'fraud analytics']);
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(provider.dimensions);
+    expect(cosineSimilarity(first, second)).toBeCloseTo(1, 4);
+  });
+
+  it('places close spellings nearer than unrelated text', () => {
+    const query = provider.embedOne('analytic');
+    expect(cosineSimilarity(query, provider.embedOne('analytics')))
+      .toBeGreaterThan(cosineSimilarity(query, provider.embedOne('scheduling')));
+  });
+});
+
+describe('solutionSearchService.rank', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    solutionSearchService.invalidate();
+    mockFind(SOLUTIONS);
+  });
+
+  it('ranks by hybrid score and leaves out unrelated solutions', async () => {
+    const results = await solutionSearchService.rank('triage chest radiographs');
+
+    expect(results[0].id).toBe('radiology');
+    expect(results.map(result => result.id)).not.toContain('fraud');
+    expect(results[0].lexical).toBe(1);
+    expect(results[0].semantic).toBeGreaterThan(0);
+  });
+
+  it('embeds new solutions once and reuses the cached index', async () => {
+    await solutionSearchService.rank('patient intake');
+    await solutionSearchService.rank('fraud');
+
+    expect(Solution.find).toHaveBeenCalledTimes(1);
+    expect(Solution.bulkWrite).toHaveBeenCalledTimes(1);
+    expect(Solution.bulkWrite.mock.calls[0][0]).toHaveLength(SOLUTIONS.length);
+  });
+
+  it('does not re-embed solutions whose text is unchanged', async () => {
+    await solutionSearchService.rank('patient intake');
+    const stored = new Map(Solution.bulkWrite.mock.calls[0][0].map(op => [op.updateOne.filter._id, op.updateOne.update.$set.embedding]));
+
+    solutionSearchService.invalidate();
+    mockFind(SOLUTIONS.map(solution => ({ ...solution, embedding: stored.get(solution._id) })));
+    await solutionSearchService.rank('patient intake');
+
+    expect(Solution.bulkWrite).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * Single sign-on tests
+ * Just-in-time provisioning against in-memory models, and full OIDC and SAML sign-ins
+ * against the local mock identity provider (scripts/mock-idp.js)
+ */
+
+const net = require('net');
+
+process.env.JWT_SECRET = 'test-secret';
+
+jest.mock('../../models/User', () => {
+  const MemoryModel = require('../helpers/memoryModel').createMemoryModel();
+  // Accounts created by provisioning rely on the schema's isActive default
+  return class User extends MemoryModel {
+    constructor(data = {}) {
+      super({ isActive: true, ...data });
+    }
+  };
+});
+jest.mock('../../models/Organization', () => require('../helpers/memoryModel').createMemoryModel({
+  getMember(userId) {
+    return (this.members || []).find(member => member.userId.toString() === userId.toString());
+  }
+}));
+
+const User = require('../../models/User');
+const Organization = require('../../models/Organization');
+const ssoService = require('../../services/ssoService');
+
+const DOMAIN = 'example-hospital.org';
+
+const createOrganization = (overrides = {}) => Organization.create({
+  name: 'General Hospital',
+  type: 'customer',
+  members: [],
+  ...overrides,
+  sso: { enabled: true, domains: [DOMAIN], defaultRole: 'member', ...overrides.sso }
+});
+
+const profileFor = (email, overrides = {}) => ({
+  protocol: 'oidc',
+  subject: `sub-${email}`,
+  email,
+  emailVerified: true,
+  firstName: 'Jane',
+  lastName: 'Doe',
+  ...overrides
+});
+
+// Reserve a free local port for the mock IdP
+const freePort = () => new Promise((resolve, reject) => {
+  const server = net.createServer();
+  server.once('error', reject);
+  server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address();
+    server.close(() => resolve(port));
+  });
+});
+
+// Hidden form fields of an HTML page, unescaped
+const formFields = (html) => {
+  const unescape = (value) => value
+    .replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  return Object.fromEntries([...html.matchAll(/<input type="hidden" name="([^"]*)" value="([^"]*)">/g)]
+    .map(([, name, value]) => [unescape(name), unescape(value)]));
+};
+
+beforeEach(() => {
+  User.reset();
+  Organization.reset();
+  jest.restoreAllMocks();
+});
+
+describe('ssoService.provision', () => {
+  it('creates a user on the organization domain and adds them with the default role', async () => {
+    const organization = await createOrganization();
+
+    const { user, error } = await ssoService.provision(organization, profileFor(`jane@${DOMAIN}`));
+
+    expect(error).toBeUndefined();
+    expect(user).toMatchObject({
+      email: `jane@${DOMAIN}`,
+      firstName: 'Jane',
+      role: 'customer',
+      isEmailVerified: true,
+      activeOrganizationId: organization._id,
+      sso: { organizationId: organization._id, protocol: 'oidc', subject: `sub-jane@${DOMAIN}` }
+    });
+    expect((await Organization.findById(organization._id)).getMember(user._id)).toMatchObject({ role: 'member' });
+  });
+
+  it('signs in the same user again without adding them twice', async () => {
+    const organization = await createOrganization();
+    const first = await ssoService.provision(organization, profileFor(`jane@${DOMAIN}`));
+
+    const reloaded = await Organization.findById(organization._id);
+    const second = await ssoService.provision(reloaded, profileFor(`jane@${DOMAIN}`));
+
+    expect(second.user._id).toBe(first.user._id);
+    expect(User.all()).toHaveLength(1);
+    expect((await Organization.findById(organization._id)).members).toHaveLength(1);
+  });
+
+  it('links an existing password account with the same email', async () => {
+    const organization = await createOrganization();
+    const existing = await User.create({ email: `jane@${DOMAIN}`, role: 'customer', isActive: true });
+
+    const { user } = await ssoService.provision(organization, profileFor(`JANE@${DOMAIN.toUpperCase()}`));
+
+    expect(user._id).toBe(existing._id);
+    expect(User.all()).toHaveLength(1);
+    expect(user.sso.subject).toBe(`sub-JANE@${DOMAIN.toUpperCase()}`);
+  });
+
+  it('finds returning users by subject even after their email changes', async () => {
+    const organization = await createOrganization();
+    const { user } = await ssoService.provision(organization, profileFor(`jane@${DOMAIN}`, { subject: 'stable-id' }));
+
+    const again = await ssoService.provision(organization, profileFor('jane@elsewhere.org', { subject: 'stable-id' }));
+
+    expect(again.user._id).toBe(user._id);
+  });
+
+  it('refuses addresses outside the organization domains', async () => {
+    const organization = await createOrganization();
+    await User.create({ email: 'ceo@other-company.com', role: 'customer', isActive: true });
+
+    const { error } = await ssoService.provision(organization, profileFor('ceo@other-company.com'));
+
+    expect(error).toMatch(/not on a domain General Hospital signs in with/);
+    expect(User.all()[0].sso).toBeUndefined();
+  });
+
+  it('refuses profiles without a verified email', async () => {
+    const organization = await createOrganization();
+
+    expect((await ssoService.provision(organization, profileFor(`jane@${DOMAIN}`, { emailVerified: false }))).error)
+      .toMatch(/not verified/);
+    expect((await ssoService.provision(organization, profileFor('', {}))).error).toMatch(/did not send an email/);
+    expect(User.all()).toHaveLength(0);
+  });
+
+  it('does not sign in superadmins or deactivated accounts', async () => {
+    const organization = await createOrganization();
+    await User.create({ email: `admin@${DOMAIN}`, role: 'superadmin', isActive: true });
+    await User.create({ email: `gone@${DOMAIN}`, role: 'customer', isActive: false });
+
+    expect((await ssoService.provision(organization, profileFor(`admin@${DOMAIN}`))).error).toMatch(/sign in with a password/);
+    expect((await ssoService.provision(organization, profileFor(`gone@${DOMAIN}`))).error).toMatch(/deactivated/);
+  });
+
+  it('keeps vendor accounts out of buyer organizations', async () => {
+    const organization = await createOrganization();
+    await User.create({ email: `rep@${DOMAIN}`, role: 'vendor', isActive: true });
+
+    expect((await ssoService.provision(organization, profileFor(`rep@${DOMAIN}`))).error)
+      .toMatch(/Only customer accounts can join/);
+  });
+
+  it('provisions vendor users into the organization company', async () => {
+    const noCompany = await createOrganization({ type: 'vendor' });
+    expect((await ssoService.provision(noCompany, profileFor(`rep@${DOMAIN}`))).error).toMatch(/no company profile/);
+
+    const organization = await createOrganization({ type: 'vendor', companyId: 'company-1', sso: { domains: ['vendor.io'] } });
+    const { user } = await ssoService.provision(organization, profileFor('rep@vendor.io'));
+
+    expect(user).toMatchObject({ role: 'vendor', companyId: 'company-1', activeOrganizationId: organization._id });
+  });
+});
+
+describe('identity provider URLs', () => {
+  let server;
+  let base;
+
+  beforeAll(async () => {
+    const port = await freePort();
+    base = `http://localhost:${port}`;
+    server = require('http').createServer((req, res) => {
+      if (req.url === '/redirect') {
+        res.writeHead(302, { Location: `${base}/saml/metadata` });
+        return res.end();
+      }
+      res.end('x'.repeat(2 * 1024 * 1024));
+    });
+    await new Promise(resolve => server.listen(port, resolve));
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.SSO_ALLOW_PRIVATE_IDP;
+  });
+
+  it('only fetches https URLs on public addresses', async () => {
+    expect(await ssoService.fetchSamlMetadata('http://idp.example.com/metadata')).toBeNull();
+    expect(await ssoService.fetchSamlMetadata('https://169.254.169.254/latest/meta-data')).toBeNull();
+    expect(await ssoService.fetchSamlMetadata('https://[::1]/metadata')).toBeNull();
+    expect(await ssoService.fetchSamlMetadata('file:///etc/passwd')).toBeNull();
+    expect(await ssoService.checkDiscovery('https://10.0.0.8')).toBeNull();
+
+    const [error] = console.error.mock.calls.map(call => call[1]);
+    expect(error).toMatch(/must use https/);
+  });
+
+  it('refuses host names that resolve to private addresses', async () => {
+    expect(await ssoService.fetchSamlMetadata('https://localhost/metadata')).toBeNull();
+    expect(console.error.mock.calls[0][1]).toMatch(/resolves to a private address/);
+  });
+
+  it('does not follow redirects or read oversized responses', async () => {
+    process.env.SSO_ALLOW_PRIVATE_IDP = 'true';
+
+    expect(await ssoService.fetchSamlMetadata(`${base}/redirect`)).toBeNull();
+    expect(console.error.mock.calls[0][1]).toMatch(/answered 302/);
+
+    expect(await ssoService.checkDiscovery(`${base}/large`)).toBeNull();
+    expect(console.error.mock.calls[1][1]).toMatch(/larger than/);
+  });
+
+  it('never allows private addresses in production', async () => {
+    process.env.SSO_ALLOW_PRIVATE_IDP = 'true';
+    process.env.NODE_ENV = 'production';
+
+    try {
+      expect(await ssoService.fetchSamlMetadata(`${base}/redirect`)).toBeNull();
+      expect(console.error.mock.calls[0][1]).toMatch(/must use https/);
+    } finally {
+      process.env.NODE_ENV = 'test';
+    }
+  });
+});
+
+describe('sign-in through the mock identity provider', () => {
+  let server;
+  let issuer;
+
+  beforeAll(async () => {
+    // The mock IdP is plain http on localhost
+    process.env.SSO_ALLOW_PRIVATE_IDP = 'true';
+    const port = await freePort();
+    process.env.MOCK_IDP_PORT = String(port);
+    issuer = `http://localhost:${port}`;
+
+    const { createMockIdp } = require('../../scripts/mock-idp');
+    await new Promise(resolve => {
+      server = createMockIdp().listen(port, resolve);
+    });
+  }, 30000);
+
+  afterAll(() => {
+    delete process.env.SSO_ALLOW_PRIVATE_IDP;
+    return new Promise(resolve => server.close(resolve));
+  });
+
+  // The mock IdP logs every sign-in
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('OIDC', () => {
+    const createOidcOrganization = () => createOrganization({
+      sso: {
+        protocol: 'oidc',
+        oidc: { discoveryUrl: issuer, clientId: 'mock-client', clientSecret: ssoService.encrypt('mock-secret') }
+      }
+    });
+
+    // Sign in at the IdP and return the callback request it redirects to
+    const signInAtIdp = async (authorizationUrl, email) => {
+      const params = new URL(authorizationUrl).searchParams;
+      const response = await fetch(`${issuer}/authorize`, {
+        method: 'POST',
+        redirect: 'manual',
+        body: new URLSearchParams({
+          redirect_uri: params.get('redirect_uri'),
+          state: params.get('state'),
+          nonce: params.get('nonce'),
+          code_challenge: params.get('code_challenge'),
+          email,
+          firstName: 'Jane',
+          lastName: 'Doe'
+        })
+      });
+      const callback = new URL(response.headers.get('location'));
+      return { method: 'GET', url: `${callback.pathname}${callback.search}` };
+    };
+
+    it('completes the authorization code flow and provisions the user', async () => {
+      const organization = await createOidcOrganization();
+      expect(await ssoService.checkDiscovery(issuer)).toBe(issuer);
+
+      const { url, transaction } = await ssoService.startOidc(organization, '/solutions');
+      expect(url).toContain('code_challenge_method=S256');
+
+      const callback = await signInAtIdp(url, `jane@${DOMAIN}`);
+      const result = await ssoService.finishOidc(organization, callback, transaction);
+
+      expect(result.redirect).toBe('/solutions');
+      expect(result.profile).toMatchObject({ protocol: 'oidc', email: `jane@${DOMAIN}`, emailVerified: true, firstName: 'Jane' });
+
+      const { user } = await ssoService.provision(organization, result.profile);
+      expect(user.sso.subject).toBe(result.profile.subject);
+    });
+
+    it('rejects a callback that does not match the stored transaction', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const organization = await createOidcOrganization();
+
+      const first = await ssoService.startOidc(organization, '/dashboard');
+      const second = await ssoService.startOidc(organization, '/dashboard');
+      const callback = await signInAtIdp(first.url, `jane@${DOMAIN}`);
+
+      expect(await ssoService.finishOidc(organization, callback, second.transaction)).toBeNull();
+      expect(await ssoService.finishOidc(organization, callback, 'not-a-transaction')).toBeNull();
+    });
+
+    it('keeps post-login redirects on this site', async () => {
+      const organization = await createOidcOrganization();
+
+      const { transaction } = await ssoService.startOidc(organization, 'https://evil.example/phish');
+      expect(ssoService.safeRedirect('//evil.example')).toBe('/dashboard');
+      expect(require('jsonwebtoken').decode(transaction).redirect).toBe('/dashboard');
+    });
+  });
+
+  describe('SAML', () => {
+    const createSamlOrganization = async () => {
+      const saml = await ssoService.fetchSamlMetadata(`${issuer}/saml/metadata`);
+      return createOrganization({ sso: { protocol: 'saml', saml } });
+    };
+
+    // Sign in at the IdP and return the form it posts back to the assertion consumer service
+    const signInAtIdp = async (authorizeUrl, email) => {
+      const form = formFields(await (await fetch(authorizeUrl)).text());
+      const response = await fetch(`${issuer}/saml/sso`, {
+        method: 'POST',
+        body: new URLSearchParams({ ...form, email, firstName: 'Jane', lastName: 'Doe' })
+      });
+      return formFields(await response.text());
+    };
+
+    it('reads the IdP settings from its metadata', async () => {
+      const saml = await ssoService.fetchSamlMetadata(`${issuer}/saml/metadata`);
+
+      expect(saml).toMatchObject({ idpIssuer: `${issuer}/saml`, entryPoint: `${issuer}/saml/sso` });
+      expect(saml.idpCerts).toHaveLength(1);
+    });
+
+    it('accepts a signed assertion and provisions the user', async () => {
+      const organization = await createSamlOrganization();
+
+      const { url, transaction } = await ssoService.startSaml(organization, '/proposals');
+      const body = await signInAtIdp(url, `sam@${DOMAIN}`);
+      const result = await ssoService.finishSaml(organization, body, transaction);
+
+      expect(result.redirect).toBe('/proposals');
+      expect(result.profile).toMatchObject({ protocol: 'saml', subject: `sam@${DOMAIN}`, email: `sam@${DOMAIN}`, lastName: 'Doe' });
+
+      const { user } = await ssoService.provision(organization, result.profile);
+      expect(user.sso.protocol).toBe('saml');
+    });
+
+    it('rejects an assertion that was altered after signing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const organization = await createSamlOrganization();
+
+      const { url, transaction } = await ssoService.startSaml(organization, '/dashboard');
+      const body = await signInAtIdp(url, `sam@${DOMAIN}`);
+      const tampered = Buffer.from(body.SAMLResponse, 'base64').toString().replace(/sam@/g, 'ceo@');
+
+      expect(await ssoService.finishSaml(organization, { ...body, SAMLResponse: Buffer.from(tampered).toString('base64') }, transaction))
+        .toBeNull();
+    });
+
+    it('rejects a response meant for another organization', async () => {
+      const organization = await createSamlOrganization();
+      const other = await createSamlOrganization();
+
+      const { url, transaction } = await ssoService.startSaml(organization, '/dashboard');
+      const body = await signInAtIdp(url, `sam@${DOMAIN}`);
+
+      expect(await ssoService.finishSaml(other, body, transaction)).toBeNull();
+    });
+
+    it('rejects a response delivered to a browser that did not start the sign-in', async () => {
+      const organization = await createSamlOrganization();
+
+      const first = await ssoService.startSaml(organization, '/dashboard');
+      const second = await ssoService.startSaml(organization, '/dashboard');
+      const body = await signInAtIdp(first.url, `sam@${DOMAIN}`);
+
+      expect(await ssoService.finishSaml(organization, body, second.transaction)).toBeNull();
+      expect(await ssoService.finishSaml(organization, body, null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Two-factor service tests
+ * TOTP and recovery-code verification against an in-memory User model, plus the step-up check
+ */
+
+process.env.JWT_SECRET = 'test-secret';
+
+jest.mock('../../models/User', () => require('../helpers/memoryModel').createMemoryModel());
+
+const { authenticator } = require('otplib');
+const User = require('../../models/User');
+const twoFactorService = require('../../services/twoFactorService');
+const { requireTwoFactor } = require('../../middleware/auth');
+
+// Code an authenticator app would show, offset by whole 30-second steps
+const codeFor = (secret, stepOffset = 0) =>
+  authenticator.clone({ epoch: Date.now() + stepOffset * 30 * 1000 }).generate(secret);
+
+// User with two-factor enabled, a known secret and recovery codes
+const enrolledUser = async () => {
+  const secret = authenticator.generateSecret();
+  const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+  const user = await User.create({
+    email: 'admin@example.com',
+    twoFactor: {
+      enabled: true,
+      secret: twoFactorService.encrypt(secret),
+      recoveryCodes: hashes,
+      lastUsedStep: null
+    }
+  });
+  return { user, secret, codes };
+};
+
+// Run the middleware against a fake request and report what it did
+const runRequireTwoFactor = (req) => {
+  const res = { status: jest.fn(() => res), json: jest.fn(() => res) };
+  const next = jest.fn();
+  requireTwoFactor()(req, res, next);
+  return { res, next };
+};
+
+describe('twoFactorService', () => {
+  beforeEach(() => {
+    User.reset();
+    jest.restoreAllMocks();
+  });
+
+  describe('secret encryption', () => {
+    it('round-trips secrets and never stores them in the clear', () => {
+      const encrypted = twoFactorService.encrypt('JBSWY3DPEHPK3PXP');
+
+      expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+      expect(twoFactorService.encrypt('JBSWY3DPEHPK3PXP')).not.toBe(encrypted);
+      expect(twoFactorService.decrypt(encrypted)).toBe('JBSWY3DPEHPK3PXP');
+    });
+
+    it('refuses tampered ciphertext', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const [iv, tag, data] = twoFactorService.encrypt('JBSWY3DPEHPK3PXP').split('.');
+      const flipped = Buffer.from(data, 'base64');
+      flipped[0] ^= 1;
+
+      expect(twoFactorService.decrypt([iv, tag, flipped.toString('base64')].join('.'))).toBeNull();
+    });
+  });
+
+  describe('createEnrolment', () => {
+    it('returns a scannable otpauth URL for the user', async () => {
+      const enrolment = await twoFactorService.createEnrolment({ email: 'admin@example.com' });
+
+      expect(enrolment.otpauthUrl).toMatch(/^otpauth:\/\/totp\/AstroVault%20AI:admin%40example\.com\?secret=/);
+      expect(enrolment.qrCode).toMatch(/^data:image\/png;base64,/);
+      expect(twoFactorService.decrypt(enrolment.encryptedSecret)).toBe(enrolment.secret);
+    });
+  });
+
+  describe('verify with an authenticator code', () => {
+    it('accepts the current code once', async () => {
+      const { user, secret, codes } = await enrolledUser();
+      const code = codeFor(secret);
+
+      expect(await twoFactorService.verify(user._id, { code }))
+        .toEqual({ method: 'totp', recoveryCodesRemaining: codes.length });
+      expect(await twoFactorService.verify(user._id, { code })).toBeNull();
+    });
+
+    it('allows one step of clock drift but not more', async () => {
+      const { user, secret } = await enrolledUser();
+
+      expect(await twoFactorService.verify(user._id, { code: codeFor(secret, -3) })).toBeNull();
+      expect(await twoFactorService.verify(user._id, { code: codeFor(secret, -1) })).not.toBeNull();
+    });
+
+    it('does not accept an older step after a newer one was used', async () => {
+      const { user, secret } = await enrolledUser();
+
+      expect(await twoFactorService.verify(user._id, { code: codeFor(secret, 1) })).not.toBeNull();
+      expect(await twoFactorService.verify(user._id, { code: codeFor(secret) })).toBeNull();
+    });
+
+    it('rejects wrong and malformed codes', async () => {
+      const { user, secret } = await enrolledUser();
+      const wrong = String((Number(codeFor(secret)) + 1) % 1000000).padStart(6, '0');
+
+      expect(await twoFactorService.verify(user._id, { code: wrong })).toBeNull();
+      expect(await twoFactorService.verify(user._id, { code: '12345' })).toBeNull();
+      expect(await twoFactorService.verify(user._id, { code: 'abcdef' })).toBeNull();
+      expect(await twoFactorService.verify(user._id, {})).toBeNull();
+    });
+
+    it('rejects users without two-factor enabled', async () => {
+      const { user, secret } = await enrolledUser();
+      await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.enabled': false } });
+
+      expect(await twoFactorService.verify(user._id, { code: codeFor(secret) })).toBeNull();
+      expect(await twoFactorService.verify('64b0000000000000000000ff', { code: codeFor(secret) })).toBeNull();
+    });
+  });
+
+  describe('verify with a recovery code', () => {
+    it('accepts each code once, ignoring case and separators', async () => {
+      const { user, codes } = await enrolledUser();
+      const typed = codes[0].toUpperCase().replace('-', ' ');
+
+      expect(await twoFactorService.verify(user._id, { recoveryCode: typed }))
+        .toEqual({ method: 'recovery_code', recoveryCodesRemaining: codes.length - 1 });
+      expect(await twoFactorService.verify(user._id, { recoveryCode: codes[0] })).toBeNull();
+    });
+
+    it('rejects codes that were never issued', async () => {
+      const { user } = await enrolledUser();
+
+      expect(await twoFactorService.verify(user._id, { recoveryCode: 'aaaaa-bbbbb' })).toBeNull();
+    });
+  });
+
+  describe('login challenge', () => {
+    it('carries the user ID to the second step and nothing else', () => {
+      const token = twoFactorService.signChallenge({ _id: 'user-1' });
+
+      expect(twoFactorService.readChallenge(token)).toBe('user-1');
+      expect(twoFactorService.readChallenge('garbage')).toBeNull();
+    });
+  });
+});
+
+describe('requireTwoFactor step-up', () => {
+  const minutesAgo = (minutes) => new Date(Date.now() - minutes * 60 * 1000);
+
+  it('passes sessions verified within the recent window', () => {
+    const { next } = runRequireTwoFactor({ user: { twoFactor: { enabled: true } }, twoFactorVerifiedAt: minutesAgo(5) });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('asks for a fresh code once the check is too old', () => {
+    const { res, next } = runRequireTwoFactor({
+      user: { twoFactor: { enabled: true } },
+      twoFactorVerifiedAt: minutesAgo(twoFactorService.recentMinutes + 1)
+    });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json.mock.calls[0][0].code).toBe('TWO_FACTOR_REQUIRED');
+  });
+
+  it('asks users without two-factor to enrol first', () => {
+    const { res, next } = runRequireTwoFactor({ user: { twoFactor: { enabled: false } }, twoFactorVerifiedAt: new Date() });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.json.mock.calls[0][0].code).toBe('TWO_FACTOR_SETUP_REQUIRED');
+  });
+});
@@ -5,22 +5,8 @@ import {
   AdjustmentsHorizontalIcon,
   FunnelIcon
 } from '@heroicons/react/24/outline';
-
-// Filter options for solutions
-const CATEGORIES = [
-  'All Categories',
-  'Chatbots',
-  'Predictive Analytics', 
-  'Computer Vision',
-  'Recommendation Systems',
-  'Natural Language Processing',
-  'Machine Learning',
-  'Deep Learning',
-  'Robotic Process Automation',
-  'Voice Recognition',
-  'Image Recognition',
-  'Sentiment Analysis'
-];
+import { useTaxonomy, flattenTaxonomy } from '@/hooks/useCategories';
+import { TaxonomyEntry } from '@/lib/api';
 
 // Filter options for blog posts
 const BLOG_CATEGORIES = [
@@ -36,21 +22,6 @@ const BLOG_CATEGORIES = [
   'Future of AI'
 ];
 
-const INDUSTRIES = [
-  'All Industries',
-  'Healthcare',
-  'E-commerce',
-  'Finance',
-  'Technology',
-  'Manufacturing',
-  'Education',
-  'Retail',
-  'Real Estate',
-  'Travel',
-  'Media',
-  'Automotive'
-];
-
 const PRICING_MODELS = [
   'All Pricing',
   'Free',
@@ -69,28 +40,6 @@ const DEPLOYMENT_TYPES = [
   'API'
 ];
 
-// Filter options for queries
-const QUERY_CATEGORIES = [
-  'All Categories',
-  'Chatbots',
-  'Predictive Analytics',
-  'Computer Vision',
-  'Recommendation Systems',
-  'Machine Learning',
-  'Natural Language Processing'
-];
-
-const QUERY_INDUSTRIES = [
-  'All Industries',
-  'Healthcare',
-  'E-commerce',
-  'Finance',
-  'Technology',
-  'Manufacturing',
-  'Education',
-  'Retail'
-];
-
 const STATUS_OPTIONS = [
   'All Status',
   'active',
@@ -116,6 +65,34 @@ const QUERY_SORT_OPTIONS = [
   { value: 'urgent', label: 'Most Urgent' }
 ];
 
+interface SelectOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Build select options from the taxonomy, subcategories indented under their parent.
+ * Solution counts are only meaningful when filtering solutions.
+ */
+const taxonomyOptions = (
+  allLabel: string,
+  entries: TaxonomyEntry[] | undefined,
+  selected: string,
+  showCounts: boolean
+): SelectOption[] => {
+  const options = flattenTaxonomy(entries).map(({ value, entry, depth }) => ({
+    value,
+    label: `${depth ? '\u00A0\u00A0\u00A0\u00A0' : ''}${entry.name}${showCounts ? ` (${entry.solutionCount})` : ''}`
+  }));
+
+  // Keep a value that is not in the taxonomy (e.g. from a link) selectable
+  if (selected && selected !== allLabel && !options.some(option => option.value === selected)) {
+    options.unshift({ value: selected, label: selected });
+  }
+
+  return [{ value: allLabel, label: allLabel }, ...options];
+};
+
 interface FilterState {
   search: string;
   category: string;
@@ -147,6 +124,7 @@ const AdvancedSearchModal: React.FC<AdvancedSearchModalProps> = ({
   pageType
 }) => {
   const [filters, setFilters] = useState<FilterState>(currentFilters);
+  const { data: taxonomy } = useTaxonomy();
 
   const handleFilterChange = (key: keyof FilterState, value: any) => {
     setFilters(prev => ({
@@ -177,6 +155,11 @@ const AdvancedSearchModal: React.FC<AdvancedSearchModalProps> = ({
 
   const isSolutionsPage = pageType === 'solutions';
 
+  const categoryOptions = pageType === 'blog'
+    ? BLOG_CATEGORIES.map(category => ({ value: category, label: category }))
+    : taxonomyOptions('All Categories', taxonomy?.categories, filters.category, isSolutionsPage);
+  const industryOptions = taxonomyOptions('All Industries', taxonomy?.industries, filters.industry, isSolutionsPage);
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -236,9 +219,9 @@ const AdvancedSearchModal: React.FC<AdvancedSearchModalProps> = ({
                         onChange={(e) => handleFilterChange('category', e.target.value)}
                         className="w-full border border-gray-600 rounded-lg px-4 py-3 bg-gray-800 text-white focus:ring-blue-500 focus:border-blue-500 transition-colors"
                       >
-                        {(pageType === 'solutions' ? CATEGORIES : pageType === 'blog' ? BLOG_CATEGORIES : QUERY_CATEGORIES).map((category) => (
-                          <option key={category} value={category}>
-                            {category}
+                        {categoryOptions.map((category) => (
+                          <option key={category.value} value={category.value}>
+                            {category.label}
                           </option>
                         ))}
                       </select>
@@ -254,9 +237,9 @@ const AdvancedSearchModal: React.FC<AdvancedSearchModalProps> = ({
                         onChange={(e) => handleFilterChange('industry', e.target.value)}
                         className="w-full border border-gray-600 rounded-lg px-4 py-3 bg-gray-800 text-white focus:ring-blue-500 focus:border-blue-500 transition-colors"
                       >
-                        {(isSolutionsPage ? INDUSTRIES : QUERY_INDUSTRIES).map((industry) => (
-                          <option key={industry} value={industry}>
-                            {industry}
+                        {industryOptions.map((industry) => (
+                          <option key={industry.value} value={industry.value}>
+                            {industry.label}
                           </option>
                         ))}
                       </select>
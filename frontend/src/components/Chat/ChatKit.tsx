@@ -20,14 +20,28 @@ import {
   BuildingOfficeIcon,
   GlobeAltIcon,
   CurrencyDollarIcon,
-  ArrowTopRightOnSquareIcon
+  ArrowTopRightOnSquareIcon,
+  ClockIcon,
+  PlusIcon,
+  StopIcon
 } from '@heroicons/react/24/outline';
 import AIAvatar from './AIAvatar';
-import { chatApi, ChatMessage, ChatResponse, SolutionCard } from '@/lib/chatApi';
+import { chatApi, AgentAction, ChatMessage, ChatResponse, ChatSessionSummary, SolutionCard } from '@/lib/chatApi';
 import { toast } from 'react-hot-toast';
 import ParticleRing from '../Background/ParticleRing';
 import { useRouter } from 'next/router';
 
+// Generate a new client-side session ID
+const createSessionId = () => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Welcome message shown at the start of every conversation
+const createWelcomeMessage = (): ChatMessage => ({
+  role: 'assistant',
+  content: `👋 Hello! I'm **Agent**, your AI assistant for AstroVault AI. I can help you discover AI solutions, understand technologies, and connect with verified vendors.`,
+  timestamp: new Date().toISOString(),
+  showWelcomeGrid: true
+});
+
 interface ChatKitProps {
   className?: string;
   isFullscreen?: boolean;
@@ -52,6 +66,10 @@ const ChatKit: React.FC<ChatKitProps> = ({
   const [isTyping, setIsTyping] = useState(false);
   const [agentStatus, setAgentStatus] = useState<'online' | 'offline' | 'unknown'>('unknown');
   const [showScrollButton, setShowScrollButton] = useState(false);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [resumingSessionId, setResumingSessionId] = useState<string | null>(null);
+  const [resolvingActionId, setResolvingActionId] = useState<string | null>(null);
   
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -73,6 +91,21 @@ const ChatKit: React.FC<ChatKitProps> = ({
     }
   }, [messages.length]);
 
+  // Load previous conversations for the sidebar
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await chatApi.getSessions());
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  }, []);
+
+  // Keep a completed turn in the sidebar
+  const recordSessionActivity = useCallback((id: string) => {
+    chatApi.rememberSession(id);
+    loadSessions();
+  }, [loadSessions]);
+
   // Initialize chat session
   useEffect(() => {
     const initializeAIAgent = async () => {
@@ -82,18 +115,10 @@ const ChatKit: React.FC<ChatKitProps> = ({
         setAgentStatus(healthCheck.success ? 'online' : 'offline');
         
         // Generate new session ID
-        const newSessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        setSessionId(newSessionId);
+        setSessionId(createSessionId());
         
         // Add welcome message with grid layout
-        const welcomeMessage: ChatMessage = {
-          role: 'assistant',
-          content: `👋 Hello! I'm **Agent**, your AI assistant for AstroVault AI. I can help you discover AI solutions, understand technologies, and connect with verified vendors.`,
-          timestamp: new Date().toISOString(),
-          showWelcomeGrid: true
-        };
-        
-        setMessages([welcomeMessage]);
+        setMessages([createWelcomeMessage()]);
       } catch (error) {
         console.error('Error initializing chat:', error);
         setAgentStatus('offline');
@@ -102,8 +127,106 @@ const ChatKit: React.FC<ChatKitProps> = ({
     };
 
     initializeAIAgent();
+    loadSessions();
+  }, [loadSessions]);
+
+  // Abort controller for the reply currently being streamed
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight reply when the chat unmounts
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
   }, []);
 
+  // Stream the agent's reply into a new assistant bubble
+  const streamReply = useCallback(async (content: string, id: string) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setIsLoading(true);
+    setIsTyping(true);
+
+    let text = '';
+    let started = false;
+
+    // The streaming bubble is always the last message while a reply is in flight
+    const updateReply = (update: Partial<ChatMessage>) => {
+      setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], ...update }]);
+    };
+
+    try {
+      const result = await chatApi.streamMessage(content, id, {
+        onToken: (token) => {
+          text += token;
+          if (!started) {
+            started = true;
+            setIsTyping(false);
+            setMessages(prev => [...prev, {
+              role: 'assistant',
+              content: text,
+              timestamp: new Date().toISOString(),
+              isStreaming: true
+            }]);
+          } else {
+            updateReply({ content: text });
+          }
+        }
+      }, controller.signal);
+
+      const finalReply: Partial<ChatMessage> = {
+        content: result.response || text,
+        timestamp: result.timestamp,
+        solutionCards: result.stopped ? undefined : result.solutionCards,
+        actions: result.actions,
+        isStreaming: false,
+        stopped: result.stopped
+      };
+
+      if (started) {
+        updateReply(finalReply);
+      } else if (!result.stopped) {
+        setMessages(prev => [...prev, { role: 'assistant', ...finalReply } as ChatMessage]);
+      }
+
+      if (result.response || text) {
+        recordSessionActivity(id);
+      }
+
+      // Show context info if available
+      if (result.context) {
+        const { solutionsFound, companiesFound, queriesFound, blogsFound } = result.context;
+        if (solutionsFound > 0 || companiesFound > 0 || queriesFound > 0 || blogsFound > 0) {
+          toast.success(`Found ${solutionsFound} solutions, ${companiesFound} companies, ${queriesFound} queries, ${blogsFound} articles`);
+        }
+      }
+    } catch (error: any) {
+      console.error('Error sending message:', error);
+
+      if (started) {
+        updateReply({ isStreaming: false });
+      }
+
+      const errorMessage: ChatMessage = {
+        role: 'assistant',
+        content: `I apologize, but I'm experiencing technical difficulties right now. Please try again in a moment. 
+
+**Error:** ${error.message}`,
+        timestamp: new Date().toISOString()
+      };
+
+      setMessages(prev => [...prev, errorMessage]);
+      toast.error('Failed to get AI response');
+    } finally {
+      streamAbortRef.current = null;
+      setIsLoading(false);
+      setIsTyping(false);
+    }
+  }, [recordSessionActivity]);
+
+  // Stop generating the current reply
+  const handleStopGeneration = () => {
+    streamAbortRef.current?.abort();
+  };
+
   // Auto-send initial query if provided (e.g., from home page search)
   // Use a ref to track if we've already sent the initial query
   const hasSentInitialQuery = useRef(false);
@@ -122,50 +245,12 @@ const ChatKit: React.FC<ChatKitProps> = ({
         };
 
         setMessages(prev => [...prev, userMessage]);
-        setIsLoading(true);
-        setIsTyping(true);
-
-        chatApi.sendMessage(initialQuery.trim(), sessionId)
-          .then((response: ChatResponse) => {
-            if (response.success && response.data) {
-              const assistantMessage: ChatMessage = {
-                role: 'assistant',
-                content: response.data.response,
-                timestamp: response.data.timestamp,
-                solutionCards: response.data.solutionCards
-              };
-              
-              setMessages(prev => [...prev, assistantMessage]);
-              
-              if (response.data.context) {
-                const { solutionsFound, companiesFound, queriesFound, blogsFound } = response.data.context;
-                if (solutionsFound > 0 || companiesFound > 0 || queriesFound > 0 || blogsFound > 0) {
-                  toast.success(`Found ${solutionsFound} solutions, ${companiesFound} companies, ${queriesFound} queries, ${blogsFound} articles`);
-                }
-              }
-            }
-          })
-          .catch((error: any) => {
-            console.error('Error sending initial query:', error);
-            const errorMessage: ChatMessage = {
-              role: 'assistant',
-              content: `I apologize, but I'm experiencing technical difficulties right now. Please try again in a moment. 
-
-**Error:** ${error.message}`,
-              timestamp: new Date().toISOString()
-            };
-            setMessages(prev => [...prev, errorMessage]);
-            toast.error('Failed to get AI response');
-          })
-          .finally(() => {
-            setIsLoading(false);
-            setIsTyping(false);
-          });
+        streamReply(userMessage.content, sessionId);
       }, 500);
 
       return () => clearTimeout(timer);
     }
-  }, [initialQuery, sessionId, messages.length, isLoading]);
+  }, [initialQuery, sessionId, messages.length, isLoading, streamReply]);
 
   // Remove auto-scroll and auto-focus to prevent page jumping
   // Users can manually scroll and click to focus input when needed
@@ -185,49 +270,8 @@ const ChatKit: React.FC<ChatKitProps> = ({
     // Add user message immediately
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
-    setIsLoading(true);
-    setIsTyping(true);
-
-    try {
-      const response: ChatResponse = await chatApi.sendMessage(userMessage.content, sessionId);
-      
-      if (response.success && response.data) {
-        const assistantMessage: ChatMessage = {
-          role: 'assistant',
-          content: response.data.response,
-          timestamp: response.data.timestamp,
-          solutionCards: response.data.solutionCards
-        };
-        
-        setMessages(prev => [...prev, assistantMessage]);
-        
-        // Show context info if available
-        if (response.data.context) {
-          const { solutionsFound, companiesFound, queriesFound, blogsFound } = response.data.context;
-          if (solutionsFound > 0 || companiesFound > 0 || queriesFound > 0 || blogsFound > 0) {
-            toast.success(`Found ${solutionsFound} solutions, ${companiesFound} companies, ${queriesFound} queries, ${blogsFound} articles`);
-          }
-        }
-      } else {
-        throw new Error(response.error || 'Failed to get response');
-      }
-    } catch (error: any) {
-      console.error('Error sending message:', error);
-      
-      const errorMessage: ChatMessage = {
-        role: 'assistant',
-        content: `I apologize, but I'm experiencing technical difficulties right now. Please try again in a moment. 
 
-**Error:** ${error.message}`,
-        timestamp: new Date().toISOString()
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
-      toast.error('Failed to get AI response');
-    } finally {
-      setIsLoading(false);
-      setIsTyping(false);
-    }
+    await streamReply(userMessage.content, sessionId);
   };
 
   // Handle clearing conversation
@@ -236,16 +280,11 @@ const ChatKit: React.FC<ChatKitProps> = ({
     
     try {
       await chatApi.clearConversationHistory(sessionId);
+      chatApi.forgetSession(sessionId);
+      setSessions(prev => prev.filter(session => session.sessionId !== sessionId));
       
       // Reset to welcome message
-      const welcomeMessage: ChatMessage = {
-        role: 'assistant',
-        content: `👋 Hello! I'm **Agent**, your AI assistant for AstroVault AI. I can help you discover AI solutions, understand technologies, and connect with verified vendors.`,
-        timestamp: new Date().toISOString(),
-        showWelcomeGrid: true
-      };
-      
-      setMessages([welcomeMessage]);
+      setMessages([createWelcomeMessage()]);
       toast.success('Conversation cleared');
     } catch (error) {
       console.error('Error clearing conversation:', error);
@@ -253,6 +292,75 @@ const ChatKit: React.FC<ChatKitProps> = ({
     }
   };
 
+  // Start a fresh conversation, keeping the current one in the sidebar
+  const handleNewConversation = () => {
+    if (isLoading) return;
+    
+    setSessionId(createSessionId());
+    setMessages([createWelcomeMessage()]);
+    setShowHistory(false);
+  };
+
+  // Resume a previous conversation
+  const handleResumeSession = async (id: string) => {
+    if (isLoading || id === sessionId) {
+      setShowHistory(false);
+      return;
+    }
+    
+    try {
+      setResumingSessionId(id);
+      const result = await chatApi.getConversationHistory(id);
+      const history: ChatMessage[] = (result.data?.history || []).map(message => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        solutionCards: message.solutionCards,
+        actions: message.actions
+      }));
+      
+      setSessionId(id);
+      setMessages(history.length > 0 ? history : [createWelcomeMessage()]);
+      setShowHistory(false);
+    } catch (error: any) {
+      console.error('Error resuming conversation:', error);
+      chatApi.forgetSession(id);
+      setSessions(prev => prev.filter(session => session.sessionId !== id));
+      toast.error(error.message || 'Failed to load conversation');
+    } finally {
+      setResumingSessionId(null);
+    }
+  };
+
+  // Confirm or cancel an action the agent proposed
+  const handleResolveAction = async (actionId: string, confirm: boolean) => {
+    if (!sessionId || resolvingActionId) return;
+
+    try {
+      setResolvingActionId(actionId);
+      const { action, message } = confirm
+        ? await chatApi.confirmAction(actionId, sessionId)
+        : await chatApi.cancelAction(actionId, sessionId);
+
+      setMessages(prev => [
+        ...prev.map(item => item.actions?.some(existing => existing.actionId === actionId)
+          ? { ...item, actions: item.actions.map(existing => existing.actionId === actionId ? action : existing) }
+          : item),
+        message
+      ]);
+      recordSessionActivity(sessionId);
+
+      if (action.status === 'failed') {
+        toast.error(action.error || 'The action failed');
+      }
+    } catch (error: any) {
+      console.error('Error resolving action:', error);
+      toast.error(error.message || 'Failed to update action');
+    } finally {
+      setResolvingActionId(null);
+    }
+  };
+
   // Handle internet search request
   const handleInternetSearch = async (message: string) => {
     setIsLoading(true);
@@ -269,6 +377,7 @@ const ChatKit: React.FC<ChatKitProps> = ({
         };
         
         setMessages(prev => [...prev, assistantMessage]);
+        if (sessionId) recordSessionActivity(sessionId);
         toast.success('Internet search completed');
       } else {
         throw new Error(response.error || 'Failed to perform internet search');
@@ -436,6 +545,67 @@ const ChatKit: React.FC<ChatKitProps> = ({
   );
 
   // Solution Card Component
+  // Confirmation card for a write action the agent proposed
+  const ActionCard: React.FC<{ action: AgentAction }> = ({ action }) => (
+    <div className="mt-3 max-w-md rounded-xl border border-purple-200 bg-purple-50/80 p-3">
+      <p className="text-sm font-medium text-gray-900">{action.summary}</p>
+
+      {action.status === 'pending' && (
+        <div className="mt-3 flex items-center space-x-2">
+          <button
+            onClick={() => handleResolveAction(action.actionId, true)}
+            disabled={!!resolvingActionId}
+            className="inline-flex items-center px-3 py-1.5 rounded-lg bg-gradient-to-r from-purple-600 to-blue-600 text-white text-xs font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CheckCircleIcon className="h-4 w-4 mr-1" />
+            {resolvingActionId === action.actionId ? 'Working...' : 'Confirm'}
+          </button>
+          <button
+            onClick={() => handleResolveAction(action.actionId, false)}
+            disabled={!!resolvingActionId}
+            className="inline-flex items-center px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-xs font-medium hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <XMarkIcon className="h-4 w-4 mr-1" />
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {action.status === 'executing' && (
+        <p className="mt-2 text-xs text-gray-500">Working...</p>
+      )}
+
+      {action.status === 'completed' && (
+        <div className="mt-2 flex items-center justify-between text-xs">
+          <span className="inline-flex items-center text-green-700">
+            <CheckCircleIcon className="h-4 w-4 mr-1" />
+            Done
+          </span>
+          {action.result?.link && (
+            <button
+              onClick={() => router.push(action.result!.link!)}
+              className="inline-flex items-center text-purple-700 font-medium hover:underline"
+            >
+              {action.tool === 'draft_proposal' ? 'Review in wizard' : 'View'}
+              <ArrowTopRightOnSquareIcon className="h-3 w-3 ml-1" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {action.status === 'cancelled' && (
+        <p className="mt-2 text-xs text-gray-500">{action.error || 'Cancelled'}</p>
+      )}
+
+      {action.status === 'failed' && (
+        <p className="mt-2 inline-flex items-center text-xs text-red-600">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+          {action.error || 'Failed'}
+        </p>
+      )}
+    </div>
+  );
+
   const SolutionCard: React.FC<{ solution: SolutionCard }> = ({ solution }) => (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -535,6 +705,23 @@ const ChatKit: React.FC<ChatKitProps> = ({
           </div>
           
           <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setShowHistory(prev => !prev)}
+              className={`p-1.5 rounded-lg transition-colors ${
+                showHistory ? 'text-white bg-white/20' : 'text-gray-300 hover:text-white hover:bg-white/20'
+              }`}
+              title="Previous conversations"
+            >
+              <ClockIcon className="h-4 w-4" />
+            </button>
+            <button
+              onClick={handleNewConversation}
+              disabled={isLoading}
+              className="p-1.5 text-gray-300 hover:text-white hover:bg-white/20 rounded-lg transition-colors disabled:opacity-50"
+              title="New conversation"
+            >
+              <PlusIcon className="h-4 w-4" />
+            </button>
             {onToggleFullscreen && (
               <button
                 onClick={onToggleFullscreen}
@@ -554,6 +741,58 @@ const ChatKit: React.FC<ChatKitProps> = ({
           </div>
         </div>
 
+        {/* Previous Conversations Sidebar */}
+        <AnimatePresence>
+          {showHistory && (
+            <motion.aside
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.2 }}
+              className="absolute left-0 top-[57px] bottom-0 z-20 w-72 max-w-[85%] flex flex-col bg-black/70 backdrop-blur-xl border-r border-white/10"
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+                <h4 className="text-sm font-semibold text-white">Previous conversations</h4>
+                <button
+                  onClick={() => setShowHistory(false)}
+                  className="p-1 text-gray-300 hover:text-white hover:bg-white/20 rounded-lg transition-colors"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              </div>
+              
+              <div className="flex-1 overflow-y-auto p-2 space-y-1 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
+                {sessions.length === 0 ? (
+                  <p className="px-2 py-6 text-center text-xs text-gray-400">
+                    Your conversations will appear here
+                  </p>
+                ) : (
+                  sessions.map((session) => (
+                    <button
+                      key={session.sessionId}
+                      onClick={() => handleResumeSession(session.sessionId)}
+                      disabled={resumingSessionId !== null}
+                      className={`w-full text-left px-3 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                        session.sessionId === sessionId
+                          ? 'bg-purple-600/30 border border-purple-400/40'
+                          : 'hover:bg-white/10 border border-transparent'
+                      }`}
+                    >
+                      <p className="text-sm text-white truncate">{session.title}</p>
+                      <p className="text-xs text-gray-400 truncate">{session.lastMessage}</p>
+                      <p className="text-[10px] text-gray-500 mt-0.5">
+                        {resumingSessionId === session.sessionId
+                          ? 'Loading...'
+                          : new Date(session.lastMessageAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      </p>
+                    </button>
+                  ))
+                )}
+              </div>
+            </motion.aside>
+          )}
+        </AnimatePresence>
+
         {/* Messages Container - Scrollable Chat History */}
         <div 
           ref={chatContainerRef}
@@ -597,6 +836,9 @@ const ChatKit: React.FC<ChatKitProps> = ({
                       <div className="text-gray-900">
                         <div className="whitespace-pre-wrap mb-4">
                           {message.content}
+                          {message.isStreaming && (
+                            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-700 animate-pulse" />
+                          )}
                         </div>
                         {message.showWelcomeGrid && index === 0 && <WelcomeGrid />}
                         {message.solutionCards && message.solutionCards.length > 0 && (
@@ -611,6 +853,9 @@ const ChatKit: React.FC<ChatKitProps> = ({
                             </div>
                           </div>
                         )}
+                        {message.actions?.map(action => (
+                          <ActionCard key={action.actionId} action={action} />
+                        ))}
                       </div>
                     ) : (
                       <p className="text-white">{message.content}</p>
@@ -620,6 +865,7 @@ const ChatKit: React.FC<ChatKitProps> = ({
                   {/* Timestamp */}
                   <span className="text-xs text-gray-300 mt-1">
                     {formatTimestamp(message.timestamp || new Date().toISOString())}
+                    {message.stopped && ' • Stopped'}
                   </span>
                 </div>
               </div>
@@ -687,17 +933,24 @@ const ChatKit: React.FC<ChatKitProps> = ({
               </div>
             </div>
             
-            <button
-              type="submit"
-              disabled={!inputMessage.trim() || isLoading || agentStatus === 'offline'}
-              className="p-3 bg-blue-600/80 text-white rounded-2xl hover:bg-blue-600 focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-lg backdrop-blur-md border border-blue-500/30"
-            >
-              {isLoading ? (
-                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              ) : (
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStopGeneration}
+                className="p-3 bg-red-600/80 text-white rounded-2xl hover:bg-red-600 focus:ring-2 focus:ring-red-400 focus:ring-offset-2 transition-colors shadow-lg backdrop-blur-md border border-red-500/30"
+                title="Stop generating"
+              >
+                <StopIcon className="h-5 w-5" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!inputMessage.trim() || agentStatus === 'offline'}
+                className="p-3 bg-blue-600/80 text-white rounded-2xl hover:bg-blue-600 focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-lg backdrop-blur-md border border-blue-500/30"
+              >
                 <PaperAirplaneIcon className="h-5 w-5" />
-              )}
-            </button>
+              </button>
+            )}
           </form>
           
           {/* Status Message */}
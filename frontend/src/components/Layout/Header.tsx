@@ -8,6 +8,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
+import NotificationBell from './NotificationBell';
 import { 
   UserIcon, 
   CogIcon, 
@@ -102,6 +103,9 @@ const Header: React.FC = () => {
           <div className="flex items-center space-x-4">
             {isAuthenticated ? (
               <>
+                {/* Notifications */}
+                <NotificationBell />
+
                 {/* User Menu */}
                 <div className="relative">
                   <motion.button
@@ -0,0 +1,145 @@
+/**
+ * NotificationBell Component - Unread proposal chat messages
+ * Shows a live unread count in the header and links to each conversation
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BellIcon, ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import { proposalsApi } from '@/lib/api';
+import { useRealtimeEvent, usePollingFallback } from '@/hooks/useRealtime';
+
+interface UnreadThread {
+  proposalId: string;
+  responseId: string;
+  proposalTitle?: string;
+  unreadCount: number;
+  lastMessage?: string;
+  lastSenderName?: string;
+  lastMessageAt?: string;
+}
+
+// Refetch interval used when the realtime stream is unavailable
+const POLL_INTERVAL_MS = 30000;
+
+const NotificationBell: React.FC = () => {
+  const router = useRouter();
+  const [threads, setThreads] = useState<UnreadThread[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const loadUnread = async () => {
+    try {
+      const response = await proposalsApi.getUnreadMessages();
+      setThreads(response.threads || []);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadUnread();
+  }, []);
+
+  usePollingFallback(loadUnread, POLL_INTERVAL_MS);
+
+  // A new message for us bumps (or creates) its thread entry
+  useRealtimeEvent('notification', (data) => {
+    if (data.type !== 'chat:message') return;
+
+    setThreads((prev) => {
+      const existing = prev.find(
+        (t) => t.proposalId === data.proposalId && t.responseId === data.responseId
+      );
+      const others = prev.filter((t) => t !== existing);
+      return [
+        {
+          proposalId: data.proposalId,
+          responseId: data.responseId,
+          proposalTitle: data.proposalTitle,
+          unreadCount: (existing?.unreadCount || 0) + 1,
+          lastMessage: data.preview,
+          lastSenderName: data.senderName,
+          lastMessageAt: data.createdAt
+        },
+        ...others
+      ];
+    });
+  });
+
+  // Reading a thread (in any tab) clears it from the bell
+  useRealtimeEvent('chat:read', () => {
+    loadUnread();
+  });
+
+  const totalUnread = threads.reduce((sum, t) => sum + t.unreadCount, 0);
+
+  const openThread = (thread: UnreadThread) => {
+    setIsOpen(false);
+    router.push(`/proposals/${thread.proposalId}/chat?responseId=${thread.responseId}`);
+  };
+
+  return (
+    <div className="relative">
+      <motion.button
+        whileHover={{ scale: 1.05, y: -1 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full text-gray-600 hover:text-purple-600 hover:bg-gray-100 transition-all duration-300"
+        title="Notifications"
+      >
+        <BellIcon className="w-6 h-6" />
+        {totalUnread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+            {totalUnread > 99 ? '99+' : totalUnread}
+          </span>
+        )}
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            transition={{ duration: 0.2 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg py-1 ring-1 ring-black ring-opacity-5 z-50"
+          >
+            <div className="px-4 py-2 border-b border-gray-100 text-sm font-semibold text-gray-900">
+              Messages
+            </div>
+            {threads.length === 0 ? (
+              <div className="px-4 py-6 text-sm text-gray-500 text-center">You're all caught up.</div>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                {threads.map((thread) => (
+                  <button
+                    key={`${thread.proposalId}-${thread.responseId}`}
+                    onClick={() => openThread(thread)}
+                    className="flex items-start w-full text-left px-4 py-3 hover:bg-gray-50"
+                  >
+                    <ChatBubbleLeftRightIcon className="mr-3 mt-0.5 h-5 w-5 text-purple-500 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {thread.proposalTitle || 'Proposal conversation'}
+                        </span>
+                        <span className="text-xs font-semibold text-red-500">{thread.unreadCount}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">
+                        {thread.lastSenderName ? `${thread.lastSenderName}: ` : ''}
+                        {thread.lastMessage || 'Sent an attachment'}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NotificationBell;
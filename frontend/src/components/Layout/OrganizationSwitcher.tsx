@@ -0,0 +1,99 @@
+/**
+ * OrganizationSwitcher Component - Pick the organization you are working in
+ * Only shown to users who belong to more than one organization
+ */
+
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BuildingOffice2Icon, ChevronUpDownIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { organizationsApi, OrganizationSummary } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+const OrganizationSwitcher: React.FC = () => {
+  const { user } = useAuth();
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    if (!user?._id) return;
+
+    organizationsApi.getOrganizations()
+      .then((response) => {
+        setOrganizations(response.organizations || []);
+        setActiveId(response.activeOrganizationId);
+      })
+      .catch((error) => console.error('Error loading organizations:', error));
+  }, [user?._id]);
+
+  const handleSwitch = async (organization: OrganizationSummary) => {
+    setIsOpen(false);
+    if (organization._id === activeId) return;
+
+    try {
+      setSwitching(true);
+      await organizationsApi.switchOrganization(organization._id);
+      // Proposals, solutions and profiles on screen belong to the previous organization
+      window.location.reload();
+    } catch (error) {
+      console.error('Error switching organization:', error);
+      setSwitching(false);
+    }
+  };
+
+  if (organizations.length < 2) return null;
+
+  const active = organizations.find(organization => organization._id === activeId);
+
+  return (
+    <div className="relative px-3 pt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={switching}
+        className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-md border border-gray-200 text-left hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <BuildingOffice2Icon className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          <span className="text-xs font-medium text-gray-900 truncate">
+            {switching ? 'Switching...' : active?.name || 'Choose organization'}
+          </span>
+        </span>
+        <ChevronUpDownIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.ul
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 4 }}
+            transition={{ duration: 0.15 }}
+            className="absolute left-3 right-3 bottom-full mb-1 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-50"
+          >
+            {organizations.map(organization => (
+              <li key={organization._id}>
+                <button
+                  type="button"
+                  onClick={() => handleSwitch(organization)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-gray-50"
+                >
+                  <span className="min-w-0">
+                    <span className="block text-xs font-medium text-gray-900 truncate">{organization.name}</span>
+                    <span className="block text-xs text-gray-500 capitalize">
+                      {organization.myRole} · {organization.memberCount} member{organization.memberCount === 1 ? '' : 's'}
+                    </span>
+                  </span>
+                  {organization._id === activeId && <CheckIcon className="w-4 h-4 text-blue-600 flex-shrink-0" />}
+                </button>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default OrganizationSwitcher;
@@ -8,6 +8,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
+import OrganizationSwitcher from './OrganizationSwitcher';
 import { 
   Bars3Icon, 
   XMarkIcon, 
@@ -26,7 +27,9 @@ import {
   ChevronDownIcon,
   ChevronRightIcon,
   BuildingStorefrontIcon,
-  ClipboardDocumentCheckIcon
+  ClipboardDocumentCheckIcon,
+  UserGroupIcon,
+  BookmarkIcon
 } from '@heroicons/react/24/outline';
 
 interface SidebarProps {
@@ -93,6 +96,13 @@ const Sidebar: React.FC<SidebarProps> = ({
       badge: null,
       requiresAuth: true
     },
+    { 
+      name: 'Saved Lists', 
+      href: '/dashboard/bookmarks', 
+      icon: BookmarkIcon,
+      badge: null,
+      requiresAuth: true
+    },
     // Categories - Hidden for now
     // { 
     //   name: 'Categories', 
@@ -128,6 +138,12 @@ const Sidebar: React.FC<SidebarProps> = ({
       icon: UserIcon,
       requiresAuth: true
     },
+    {
+      name: 'Organization',
+      href: '/dashboard/organization',
+      icon: UserGroupIcon,
+      requiresAuth: true
+    },
     {
       name: 'Settings',
       href: '/dashboard/settings',
@@ -311,6 +327,9 @@ const Sidebar: React.FC<SidebarProps> = ({
         {/* User Section - Classic Compact Design */}
         {isAuthenticated ? (
           <div className="mt-auto border-t border-gray-200">
+            {/* Organization switcher (only with several organizations) */}
+            {!isCollapsed && <OrganizationSwitcher />}
+
             {/* User Profile - Compact */}
             <div className="p-3">
               <div className="flex items-center space-x-3">
@@ -0,0 +1,67 @@
+"use client";
+
+import Link from "next/link";
+import { AnimatePresence, motion } from "framer-motion";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { CompareItem, MAX_COMPARE, compareUrl } from "@/hooks/useCompareList";
+
+interface CompareBarProps {
+  items: CompareItem[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+// Floating tray listing the solutions picked for comparison
+export function CompareBar({ items, onRemove, onClear }: CompareBarProps) {
+  const canCompare = items.length >= 2;
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 bottom-6 z-50 flex justify-center px-4">
+      <AnimatePresence>
+        {items.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 40 }}
+            className="pointer-events-auto flex w-full max-w-4xl flex-wrap items-center gap-3 border border-gray-900 bg-black/80 p-4 backdrop-blur-md"
+          >
+            <span className="text-[10px] font-semibold uppercase tracking-[0.15em] text-gray-400">
+              Compare {items.length}/{MAX_COMPARE}
+            </span>
+            <div className="flex flex-1 flex-wrap gap-2">
+              {items.map((item) => (
+                <span
+                  key={item.id}
+                  className="flex items-center gap-1 rounded-full border border-gray-700 px-3 py-1 text-xs text-gray-200"
+                >
+                  <span className="max-w-[10rem] truncate">{item.title}</span>
+                  <button
+                    type="button"
+                    onClick={() => onRemove(item.id)}
+                    className="text-gray-400 hover:text-white"
+                    aria-label={`Remove ${item.title} from comparison`}
+                  >
+                    <XMarkIcon className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <button type="button" onClick={onClear} className="text-xs text-gray-400 hover:text-white">
+              Clear
+            </button>
+            {canCompare ? (
+              <Link
+                href={compareUrl(items.map((item) => item.id))}
+                className="rounded-full bg-white px-4 py-2 text-xs font-semibold uppercase tracking-[0.15em] text-gray-900 hover:bg-gray-200"
+              >
+                Compare
+              </Link>
+            ) : (
+              <span className="text-xs text-gray-500">Pick one more to compare</span>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -10,9 +10,11 @@ interface SolutionCardProps {
   cols: number;
   rows: number;
   isBlank?: boolean;
+  isCompared?: boolean;
+  onToggleCompare?: (id: string, title: string) => void;
 }
 
-export function SolutionCard({ id, title, description, category, cols, rows, isBlank = false }: SolutionCardProps) {
+export function SolutionCard({ id, title, description, category, cols, rows, isBlank = false, isCompared = false, onToggleCompare }: SolutionCardProps) {
   const router = useRouter();
   
   const handleClick = () => {
@@ -22,6 +24,12 @@ export function SolutionCard({ id, title, description, category, cols, rows, isB
       });
     }
   };
+
+  const handleCompareClick = (e: React.MouseEvent) => {
+    // Don't open the solution when adding it to the compare list
+    e.stopPropagation();
+    onToggleCompare?.(id, title);
+  };
   
   // Ensure cols doesn't exceed 4 (1/3 of 12 columns = max width)
   const maxCols = Math.min(cols, 4);
@@ -72,6 +80,21 @@ export function SolutionCard({ id, title, description, category, cols, rows, isB
         <>
           <div className="absolute bottom-0 right-0 h-40 w-40 translate-x-12 translate-y-12 bg-gradient-to-br from-white/20 to-transparent opacity-0 blur-2xl transition-opacity duration-500 group-hover:opacity-100" />
           <div className="absolute inset-0 bg-gradient-to-br from-transparent via-transparent to-white/10 opacity-0 transition-opacity duration-500 group-hover:opacity-100" />
+          {/* Compare Toggle - Appears on Hover, stays visible once selected */}
+          {onToggleCompare && (
+            <button
+              type="button"
+              onClick={handleCompareClick}
+              aria-pressed={isCompared}
+              className={`absolute top-4 right-4 z-10 rounded-full border px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.15em] transition-all duration-300 ${
+                isCompared
+                  ? "border-white bg-white text-gray-900 opacity-100"
+                  : "border-gray-700 text-gray-300 opacity-0 hover:bg-white/20 group-hover:opacity-100 focus:opacity-100"
+              }`}
+            >
+              {isCompared ? "✓ Compare" : "+ Compare"}
+            </button>
+          )}
           {/* Arrow Icon - Appears on Hover */}
           <div className="absolute bottom-6 right-6 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
             <svg
@@ -3,10 +3,12 @@
 import { useEffect, useState, useRef } from "react";
 import { useRouter } from "next/router";
 import { SolutionCard } from "./SolutionCard";
+import { CompareBar } from "./CompareBar";
 import { SearchBarCard } from "./SearchBarCard";
 import { ScrollableGrid, ScrollableGridRef } from "./ScrollableGrid";
 import { HamburgerMenu } from "./HamburgerMenu";
 import { useSolutions } from "@/hooks/useSolutions";
+import { useCompareList } from "@/hooks/useCompareList";
 import Sidebar from "@/components/Layout/Sidebar";
 import { chatApi, ChatResponse, SolutionCard as AISolutionCard } from "@/lib/chatApi";
 import { toast } from "react-hot-toast";
@@ -90,6 +92,7 @@ export function SolutionsGrid() {
   const [isAISearchActive, setIsAISearchActive] = useState(false);
   const [isAILoading, setIsAILoading] = useState(false);
   const scrollContainerRef = useRef<ScrollableGridRef>(null);
+  const compareList = useCompareList();
 
   const EXPANDED_SIDEBAR_WIDTH = 208;
   const COLLAPSED_SIDEBAR_WIDTH = 64;
@@ -536,6 +539,8 @@ export function SolutionsGrid() {
                 cols={gridDims.cols}
                 rows={gridDims.rows}
                 isBlank={isBlank}
+                isCompared={compareList.isSelected(assignedCard?.id ?? "")}
+                onToggleCompare={(id, title) => compareList.toggle({ id, title })}
               />
             );
           })}
@@ -567,12 +572,17 @@ export function SolutionsGrid() {
                 cols={gridDims.cols}
                 rows={gridDims.rows}
                 isBlank={isBlank}
+                isCompared={compareList.isSelected(assignedCard?.id ?? "")}
+                onToggleCompare={(id, title) => compareList.toggle({ id, title })}
               />
             );
           })}
         </div>
       </ScrollableGrid>
       </main>
+
+      {/* Compare tray - collects up to four solutions for the compare page */}
+      <CompareBar items={compareList.items} onRemove={compareList.remove} onClear={compareList.clear} />
     </div>
   );
 }
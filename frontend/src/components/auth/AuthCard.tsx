@@ -0,0 +1,49 @@
+/**
+ * AuthCard Component
+ * Centered card used by the password reset and email verification pages
+ */
+
+import React, { ReactNode } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+
+interface AuthCardProps {
+  title: string;
+  subtitle?: ReactNode;
+  children: ReactNode;
+}
+
+const AuthCard: React.FC<AuthCardProps> = ({ title, subtitle, children }) => (
+  <>
+    <Head>
+      <title>{title} - AstroVault AI</title>
+    </Head>
+
+    <div className="min-h-screen bg-gray-800 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4, ease: 'easeOut' }}
+        className="w-full max-w-md"
+      >
+        <div className="text-center mb-6">
+          <Link href="/" className="inline-flex items-center space-x-2">
+            <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-500 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-xl">AI</span>
+            </div>
+            <span className="text-2xl font-bold text-white">AstroVault AI</span>
+          </Link>
+        </div>
+
+        <div className="bg-gray-900 rounded-2xl shadow-2xl border border-gray-700 p-8">
+          <h1 className="text-2xl font-bold text-white mb-2">{title}</h1>
+          {subtitle && <p className="text-gray-400 mb-6">{subtitle}</p>}
+          {children}
+        </div>
+      </motion.div>
+    </div>
+  </>
+);
+
+export default AuthCard;
@@ -0,0 +1,320 @@
+/**
+ * SSO Settings Component
+ * Connect an organization to its OIDC or SAML identity provider
+ */
+
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { FingerPrintIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import { organizationsApi, SsoProtocol, SsoSettings as SsoSettingsData, SsoSettingsUpdate } from '@/lib/api';
+
+interface SsoSettingsProps {
+  organizationId: string;
+  // Email domains can only be changed by superadmins
+  canEditDomains: boolean;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const SsoSettings: React.FC<SsoSettingsProps> = ({ organizationId, canEditDomains }) => {
+  const [settings, setSettings] = useState<SsoSettingsData | null>(null);
+  const [protocol, setProtocol] = useState<SsoProtocol>('oidc');
+  const [enabled, setEnabled] = useState(false);
+  const [enforced, setEnforced] = useState(false);
+  const [defaultRole, setDefaultRole] = useState<SsoSettingsData['defaultRole']>('member');
+  const [domains, setDomains] = useState('');
+  const [discoveryUrl, setDiscoveryUrl] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [scopes, setScopes] = useState('openid email profile');
+  const [metadataUrl, setMetadataUrl] = useState('');
+  const [metadataXml, setMetadataXml] = useState('');
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [organizationId]);
+
+  const applySettings = (sso: SsoSettingsData) => {
+    setSettings(sso);
+    setProtocol(sso.protocol || 'oidc');
+    setEnabled(sso.enabled);
+    setEnforced(sso.enforced);
+    setDefaultRole(sso.defaultRole || 'member');
+    setDomains((sso.domains || []).join(', '));
+    setDiscoveryUrl(sso.oidc?.discoveryUrl || '');
+    setClientId(sso.oidc?.clientId || '');
+    setClientSecret('');
+    setScopes(sso.oidc?.scopes || 'openid email profile');
+    setMetadataUrl(sso.saml?.metadataUrl || '');
+    setMetadataXml('');
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const response = await organizationsApi.getSsoSettings(organizationId);
+      applySettings(response.sso);
+    } catch (error) {
+      console.error('Error fetching SSO settings:', error);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data: SsoSettingsUpdate = { protocol, enabled, enforced, defaultRole };
+    if (canEditDomains) {
+      data.domains = domains.split(/[\s,]+/).map(domain => domain.trim().toLowerCase()).filter(Boolean);
+    }
+    if (protocol === 'oidc') {
+      // A blank secret keeps the saved one
+      data.oidc = { discoveryUrl: discoveryUrl.trim(), clientId: clientId.trim(), scopes: scopes.trim() || undefined };
+      if (clientSecret) data.oidc.clientSecret = clientSecret;
+    } else {
+      data.saml = metadataXml.trim() ? { metadataXml: metadataXml.trim() } : { metadataUrl: metadataUrl.trim() || undefined };
+    }
+
+    try {
+      setWorking(true);
+      const response = await organizationsApi.updateSsoSettings(organizationId, data);
+      applySettings(response.sso);
+      toast.success(response.message || 'Single sign-on settings saved');
+    } catch (error) {
+      console.error('Error saving SSO settings:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    if (!confirm('Remove the identity provider and turn off single sign-on? Members will need to reset their password to sign in.')) return;
+
+    try {
+      setWorking(true);
+      const response = await organizationsApi.deleteSsoSettings(organizationId);
+      applySettings(response.sso);
+      toast.success(response.message || 'Single sign-on turned off');
+    } catch (error) {
+      console.error('Error turning off SSO:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('Copied');
+    } catch (error) {
+      toast.error('Could not copy');
+    }
+  };
+
+  const serviceProviderUrls = settings
+    ? protocol === 'oidc'
+      ? [{ label: 'Redirect URI', value: settings.serviceProvider.oidcRedirectUri }]
+      : [
+          { label: 'ACS URL', value: settings.serviceProvider.samlAcsUrl },
+          { label: 'Entity ID / metadata', value: settings.serviceProvider.samlMetadataUrl },
+        ]
+    : [];
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Single sign-on</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Let your team sign in with your company's identity provider. New people get an account on their first
+            sign-in and join this organization.
+          </p>
+        </div>
+        <FingerPrintIcon className="h-5 w-5 text-blue-500 shrink-0" />
+      </div>
+
+      {!settings ? (
+        <div className="text-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="flex gap-2">
+            {(['oidc', 'saml'] as SsoProtocol[]).map(item => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => setProtocol(item)}
+                className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                  protocol === item
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {item === 'oidc' ? 'OpenID Connect' : 'SAML 2.0'}
+              </button>
+            ))}
+          </div>
+
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+            <p className="text-xs text-gray-500">Register these with your identity provider:</p>
+            {serviceProviderUrls.map(url => (
+              <div key={url.label} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-gray-700">{url.label}</p>
+                  <p className="text-xs font-mono text-gray-900 truncate">{url.value}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => copy(url.value)}
+                  className="text-gray-400 hover:text-gray-600 shrink-0"
+                  title="Copy"
+                >
+                  <ClipboardDocumentIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {protocol === 'oidc' ? (
+            <>
+              <div>
+                <label className={labelClass}>Discovery URL</label>
+                <input
+                  value={discoveryUrl}
+                  onChange={(e) => setDiscoveryUrl(e.target.value)}
+                  placeholder="https://login.example.com/.well-known/openid-configuration"
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Client ID</label>
+                  <input value={clientId} onChange={(e) => setClientId(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Client secret</label>
+                  <input
+                    type="password"
+                    value={clientSecret}
+                    onChange={(e) => setClientSecret(e.target.value)}
+                    placeholder={settings.oidc.hasClientSecret ? 'Saved (leave blank to keep)' : ''}
+                    autoComplete="new-password"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Scopes</label>
+                <input value={scopes} onChange={(e) => setScopes(e.target.value)} className={inputClass} />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className={labelClass}>Metadata URL</label>
+                <input
+                  value={metadataUrl}
+                  onChange={(e) => setMetadataUrl(e.target.value)}
+                  placeholder="https://idp.example.com/metadata"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Or paste the metadata XML</label>
+                <textarea
+                  value={metadataXml}
+                  onChange={(e) => setMetadataXml(e.target.value)}
+                  rows={4}
+                  placeholder="<md:EntityDescriptor ...>"
+                  className={`${inputClass} font-mono text-xs`}
+                />
+              </div>
+              {settings.saml?.entryPoint && (
+                <p className="text-xs text-gray-500">
+                  Signing in at {settings.saml.entryPoint}
+                  {settings.saml.idpIssuer ? ` (${settings.saml.idpIssuer})` : ''}
+                </p>
+              )}
+            </>
+          )}
+
+          <div>
+            <label className={labelClass}>Email domains</label>
+            {canEditDomains ? (
+              <input
+                value={domains}
+                onChange={(e) => setDomains(e.target.value)}
+                placeholder="example-hospital.org, example.org"
+                className={inputClass}
+              />
+            ) : (
+              <p className="text-sm text-gray-900">
+                {settings.domains.length > 0 ? settings.domains.join(', ') : 'None yet'}
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Sign-ins are routed by email domain, and only addresses on these domains can sign in.
+              {!canEditDomains && ' Contact support to add or change a domain once you can show your organization owns it.'}
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Role for new members</label>
+            <select
+              value={defaultRole}
+              onChange={(e) => setDefaultRole(e.target.value as SsoSettingsData['defaultRole'])}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            >
+              <option value="member">Member</option>
+              <option value="admin">Admin</option>
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Turn on single sign-on
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enforced}
+              onChange={(e) => setEnforced(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Require single sign-on (turns off password sign-in for these domains)
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={working}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {working ? 'Saving...' : 'Save'}
+            </button>
+            {settings.protocol && (
+              <button
+                type="button"
+                onClick={handleTurnOff}
+                disabled={working}
+                className="px-4 py-2 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default SsoSettings;
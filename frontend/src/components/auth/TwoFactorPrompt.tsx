@@ -0,0 +1,144 @@
+/**
+ * Two-Factor Prompt Component
+ * Asks for an authenticator code when a sensitive admin request needs a recent two-factor
+ * check; the API client replays the request once the code is confirmed
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { ShieldCheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { motion, AnimatePresence } from 'framer-motion';
+import { authApi, setTwoFactorPrompt } from '@/lib/api';
+
+const TwoFactorPrompt: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const resolver = useRef<((verified: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    setTwoFactorPrompt(() => new Promise<boolean>((resolve) => {
+      resolver.current = resolve;
+      setCode('');
+      setUseRecoveryCode(false);
+      setIsOpen(true);
+    }));
+    return () => setTwoFactorPrompt(null);
+  }, []);
+
+  const finish = (verified: boolean) => {
+    setIsOpen(false);
+    resolver.current?.(verified);
+    resolver.current = null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setVerifying(true);
+      await authApi.verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+      finish(true);
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-[60] overflow-y-auto">
+        {/* Backdrop */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+          onClick={() => finish(false)}
+        />
+
+        {/* Modal */}
+        <div className="flex min-h-full items-center justify-center p-4">
+          <motion.form
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onSubmit={handleSubmit}
+            className="relative bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-md w-full overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div className="flex items-center gap-3">
+                <div className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center bg-blue-100">
+                  <ShieldCheckIcon className="w-6 h-6 text-blue-600" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900">Confirm it's you</h3>
+              </div>
+              <button
+                type="button"
+                onClick={() => finish(false)}
+                className="text-gray-400 hover:text-gray-500 transition-colors"
+              >
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600 leading-relaxed">
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes to continue.'
+                  : 'This action needs a recent two-factor check. Enter the 6-digit code from your authenticator app.'}
+              </p>
+              <input
+                value={code}
+                onChange={(e) => setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg tracking-widest text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                }}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => finish(false)}
+                disabled={verifying}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={verifying || (!useRecoveryCode && code.length !== 6) || !code}
+                className="px-4 py-2 text-sm font-medium text-white rounded-md bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {verifying ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          </motion.form>
+        </div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default TwoFactorPrompt;
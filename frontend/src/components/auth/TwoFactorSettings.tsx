@@ -0,0 +1,305 @@
+/**
+ * Two-Factor Settings Component
+ * Enrolment with a QR code, recovery codes, and turning two-factor off
+ */
+
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { KeyIcon, ExclamationTriangleIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import { authApi, TwoFactorStatus, TwoFactorSetup } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface TwoFactorSettingsProps {
+  // Highlight the section (superadmins are sent here after signing in without two-factor)
+  highlight?: boolean;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ highlight = false }) => {
+  const { refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [mode, setMode] = useState<'idle' | 'regenerate' | 'disable'>('idle');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await authApi.getTwoFactorStatus();
+      setStatus(response.twoFactor);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setMode('idle');
+    setCode('');
+    setPassword('');
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setWorking(true);
+      const response = await authApi.setupTwoFactor();
+      setSetup({ secret: response.secret, otpauthUrl: response.otpauthUrl, qrCode: response.qrCode });
+      setCode('');
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      const response = await authApi.enableTwoFactor(code);
+      setRecoveryCodes(response.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      toast.success('Two-factor authentication enabled');
+      await Promise.all([fetchStatus(), refreshUser()]);
+    } catch (error) {
+      console.error('Error enabling two-factor:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      const response = await authApi.regenerateRecoveryCodes({ code });
+      setRecoveryCodes(response.recoveryCodes);
+      resetForm();
+      fetchStatus();
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      await authApi.disableTwoFactor({ password, code });
+      toast.success('Two-factor authentication disabled');
+      resetForm();
+      setRecoveryCodes(null);
+      await Promise.all([fetchStatus(), refreshUser()]);
+    } catch (error) {
+      console.error('Error disabling two-factor:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  const codeInput = (
+    <input
+      value={code}
+      onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="6-digit code"
+      className={`${inputClass} tracking-widest`}
+    />
+  );
+
+  return (
+    <section
+      id="two-factor"
+      className={`bg-white rounded-lg shadow-sm border p-6 ${highlight && !status?.enabled ? 'border-yellow-400' : 'border-gray-200'}`}
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Two-factor authentication</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Sign in with a code from an authenticator app such as Google Authenticator, 1Password or Authy.
+          </p>
+        </div>
+        <KeyIcon className="h-5 w-5 text-blue-500 shrink-0" />
+      </div>
+
+      {status?.required && !status.enabled && (
+        <div className="flex items-start gap-3 p-4 mb-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <ExclamationTriangleIcon className="w-5 h-5 text-yellow-600 mt-0.5 shrink-0" />
+          <p className="text-sm text-yellow-800">
+            Superadmin accounts must use two-factor authentication. Approvals and user management stay locked until
+            it is set up.
+          </p>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="p-4 mb-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">Recovery codes</h3>
+            <button
+              onClick={copyRecoveryCodes}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <ClipboardDocumentIcon className="h-4 w-4" />
+              Copy
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            Each code signs you in once if you lose your device. Store them somewhere safe; they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map(item => (
+              <span key={item}>{item}</span>
+            ))}
+          </div>
+          <button
+            onClick={() => setRecoveryCodes(null)}
+            className="mt-4 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-white transition-colors"
+          >
+            I've saved them
+          </button>
+        </div>
+      )}
+
+      {!status ? (
+        <div className="text-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+        </div>
+      ) : status.enabled ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="text-sm text-gray-700">
+              <span className="px-2 py-0.5 mr-2 text-xs font-medium rounded-full border bg-green-100 text-green-800 border-green-200">
+                On
+              </span>
+              Since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : 'setup'} ·{' '}
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+            </div>
+            {mode === 'idle' && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setMode('regenerate')}
+                  className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  New recovery codes
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={() => setMode('disable')}
+                    className="px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {mode === 'regenerate' && (
+            <form onSubmit={handleRegenerate} className="space-y-3 max-w-sm">
+              <p className="text-sm text-gray-600">Enter a code from your app. Your current recovery codes will stop working.</p>
+              {codeInput}
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={working || code.length !== 6}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {working ? 'Generating...' : 'Generate codes'}
+                </button>
+                <button type="button" onClick={resetForm} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {mode === 'disable' && (
+            <form onSubmit={handleDisable} className="space-y-3 max-w-sm">
+              <p className="text-sm text-gray-600">Confirm with your password and a code from your app.</p>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                placeholder="Password"
+                className={inputClass}
+              />
+              {codeInput}
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={working || !password || code.length !== 6}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                >
+                  {working ? 'Turning off...' : 'Turn off two-factor'}
+                </button>
+                <button type="button" onClick={resetForm} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      ) : setup ? (
+        <form onSubmit={handleEnable} className="flex flex-col sm:flex-row gap-6">
+          <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 border border-gray-200 rounded-lg shrink-0" />
+          <div className="space-y-3 flex-1">
+            <ol className="text-sm text-gray-600 list-decimal list-inside space-y-1">
+              <li>Scan the QR code with your authenticator app.</li>
+              <li>Enter the 6-digit code it shows.</li>
+            </ol>
+            <p className="text-xs text-gray-500">
+              Can't scan? Enter this key instead:{' '}
+              <span className="font-mono text-gray-900 break-all">{setup.secret}</span>
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={working || code.length !== 6}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {working ? 'Verifying...' : 'Turn on'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setSetup(null)}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={handleStartSetup}
+          disabled={working}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {working ? 'Preparing...' : 'Set up two-factor authentication'}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default TwoFactorSettings;
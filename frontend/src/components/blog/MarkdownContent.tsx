@@ -0,0 +1,31 @@
+/**
+ * Markdown Content Component
+ * Renders blog Markdown (GitHub flavoured) with typography styles
+ */
+
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className = '' }) => (
+  <div className={`prose prose-lg max-w-none prose-headings:text-gray-900 prose-a:text-blue-600 prose-img:rounded-lg ${className}`}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        // External links open in a new tab
+        a: ({ node, href, ...props }) => (
+          <a href={href} {...(href?.startsWith('http') && { target: '_blank', rel: 'noopener noreferrer' })} {...props} />
+        )
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownContent;
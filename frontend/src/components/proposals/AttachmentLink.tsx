@@ -0,0 +1,58 @@
+/**
+ * Attachment Link Component
+ * Opens an uploaded file through a short-lived signed URL, or a plain link directly
+ */
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { attachmentsApi, ProposalAttachment } from '@/lib/api';
+
+interface AttachmentLinkProps {
+  attachment: ProposalAttachment;
+  className?: string;
+  children: React.ReactNode;
+}
+
+export const AttachmentLink: React.FC<AttachmentLinkProps> = ({ attachment, className, children }) => {
+  const [opening, setOpening] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Plain links open normally
+    if (!attachment.attachmentId) return;
+
+    e.preventDefault();
+    if (opening) return;
+
+    // Open the tab synchronously so popup blockers allow it, then point it at the signed URL
+    const newWindow = window.open('', '_blank');
+    setOpening(true);
+    try {
+      const response = await attachmentsApi.getDownloadUrl(attachment.attachmentId);
+      if (newWindow) {
+        newWindow.location.href = response.url;
+      } else {
+        window.location.href = response.url;
+      }
+    } catch (error: any) {
+      console.error('Error opening attachment:', error);
+      newWindow?.close();
+      toast.error('Failed to open file');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  return (
+    <a
+      href={attachment.attachmentId ? '#' : attachment.url}
+      onClick={handleClick}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={className}
+    >
+      {children}
+    </a>
+  );
+};
+
+export default AttachmentLink;
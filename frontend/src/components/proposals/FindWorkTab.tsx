@@ -19,7 +19,7 @@ import {
   UserIcon,
   CheckCircleIcon
 } from '@heroicons/react/24/outline';
-import { proposalsApi } from '@/lib/api';
+import { proposalsApi, ProposalStatus } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/router';
@@ -34,7 +34,7 @@ interface Proposal {
   description: string;
   category: string;
   industry: string;
-  status: 'draft' | 'active' | 'in_progress' | 'completed' | 'cancelled';
+  status: ProposalStatus;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   responsesCount: number;
   viewsCount: number;
@@ -18,7 +18,7 @@ import {
   SparklesIcon,
   ClockIcon
 } from '@heroicons/react/24/outline';
-import { proposalsApi } from '@/lib/api';
+import { proposalsApi, ResponseStatus } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/router';
@@ -33,7 +33,8 @@ interface VendorResponse {
   proposalText: string;
   proposedPrice?: string;
   proposedTimeline?: string;
-  status: 'pending' | 'viewed' | 'shortlisted' | 'rejected';
+  status: ResponseStatus;
+  viewedAt?: string;
   createdAt: string;
   updatedAt: string;
   // Check if there's an active chat
@@ -98,9 +99,11 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
                   proposedPrice: response.proposedPrice,
                   proposedTimeline: response.proposedTimeline,
                   status: response.status || 'pending',
+                  viewedAt: response.viewedAt,
                   createdAt: response.createdAt,
                   updatedAt: response.updatedAt,
-                  hasActiveChat: response.status === 'shortlisted' // Assume shortlisted has active chat
+                  // Assume shortlisted and hired vendors have an active chat
+                  hasActiveChat: response.status === 'shortlisted' || response.status === 'accepted'
                 });
               }
             });
@@ -118,11 +121,11 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
   };
 
   const getStageForResponse = (response: VendorResponse): PipelineStage => {
-    if (response.status === 'shortlisted' && response.hasActiveChat) {
+    if (response.status === 'accepted' || (response.status === 'shortlisted' && response.hasActiveChat)) {
       return 'activeDiscussion';
     } else if (response.status === 'shortlisted') {
       return 'shortlisted';
-    } else if (response.status === 'viewed') {
+    } else if (response.viewedAt) {
       return 'read';
     }
     return 'submitted';
@@ -187,15 +190,14 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
     
     try {
       setWithdrawingId(proposalToWithdraw.responseId);
-      // TODO: Implement withdraw API call
-      // await proposalsApi.withdrawResponse(proposalToWithdraw.proposalId, proposalToWithdraw.responseId);
+      await proposalsApi.withdrawResponse(proposalToWithdraw.proposalId, proposalToWithdraw.responseId);
       toast.success('Proposal withdrawn successfully');
       fetchMyProposals();
       setShowWithdrawModal(false);
       setProposalToWithdraw(null);
     } catch (error: any) {
       console.error('Error withdrawing proposal:', error);
-      toast.error('Failed to withdraw proposal');
+      toast.error(error.response?.data?.error || 'Failed to withdraw proposal');
     } finally {
       setWithdrawingId(null);
     }
@@ -227,8 +229,14 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
     return true;
   });
 
+  // A pending response the customer has opened is shown as viewed
+  const getDisplayStatus = (response: VendorResponse) =>
+    response.status === 'pending' && response.viewedAt ? 'viewed' : response.status;
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
+      case 'accepted':
+        return 'bg-emerald-100 text-emerald-800';
       case 'shortlisted':
         return 'bg-green-100 text-green-800';
       case 'viewed':
@@ -242,12 +250,16 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
 
   const getStatusLabel = (status: string) => {
     switch (status) {
+      case 'accepted':
+        return 'Hired';
       case 'shortlisted':
         return 'Shortlisted';
       case 'viewed':
         return 'Viewed';
       case 'rejected':
         return 'Rejected';
+      case 'withdrawn':
+        return 'Withdrawn';
       default:
         return 'Pending';
     }
@@ -299,7 +311,7 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
                         </p>
                       )}
                       <div className="flex items-center gap-2 pt-2 border-t border-gray-100">
-                        {response.status !== 'rejected' && (
+                        {response.status === 'pending' && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -311,7 +323,7 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
                             <PencilIcon className="w-4 h-4" />
                           </button>
                         )}
-                        {response.status === 'pending' && (
+                        {(response.status === 'pending' || response.status === 'shortlisted') && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -379,8 +391,8 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
                         Proposal
                       </span>
                     </div>
-                    <span className={`px-2.5 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(response.status)}`}>
-                      {getStatusLabel(response.status)}
+                    <span className={`px-2.5 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(getDisplayStatus(response))}`}>
+                      {getStatusLabel(getDisplayStatus(response))}
                     </span>
                   </div>
 
@@ -424,7 +436,7 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
                     >
                       View Details
                     </button>
-                    {response.status !== 'rejected' && (
+                    {response.status === 'pending' && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -448,7 +460,7 @@ export const MyProposalsTab: React.FC<MyProposalsTabProps> = ({ searchQuery, fil
                         <ChatBubbleLeftRightIcon className="w-5 h-5" />
                       </button>
                     )}
-                    {response.status === 'pending' && (
+                    {(response.status === 'pending' || response.status === 'shortlisted') && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -312,6 +312,8 @@ export const PostNeedWizard: React.FC<PostNeedWizardProps> = ({
           },
           timeline: step3Data.timeline,
           deploymentPreference: 'any',
+          dataType: step2Data.dataType,
+          compliance: step2Data.compliance ? [step2Data.compliance] : [],
           requiredFeatures: [],
           preferredFeatures: []
         },
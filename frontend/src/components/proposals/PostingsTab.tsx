@@ -8,7 +8,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { EyeIcon, ChatBubbleLeftRightIcon, CalendarIcon, TagIcon, SparklesIcon, ClockIcon, CurrencyDollarIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
-import { proposalsApi, solutionsApi } from '@/lib/api';
+import { proposalsApi, solutionsApi, ProposalStatus } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/router';
@@ -23,7 +23,7 @@ interface Proposal {
   description: string;
   category: string;
   industry: string;
-  status: 'draft' | 'active' | 'in_progress' | 'completed' | 'cancelled';
+  status: ProposalStatus;
   priority?: string;
   responsesCount: number;
   viewsCount: number;
@@ -83,7 +83,7 @@ export const PostingsTab: React.FC<PostingsTabProps> = ({ searchQuery, filters,
     setLoading(true);
     try {
       // Fetch all proposals created by this user, regardless of creatorType
-      // Note: Backend filters out expired proposals unless status is 'cancelled' or 'completed'
+      // Note: Backend filters out expired proposals unless status is 'hired', 'fulfilled' or 'cancelled'
       // For Postings tab, we want to see ALL user's proposals including expired/draft ones
       // So we don't send status filter, but backend will still apply expiry filter
       // If proposal is expired, it may be filtered - this is a backend limitation
@@ -134,9 +134,11 @@ export const PostingsTab: React.FC<PostingsTabProps> = ({ searchQuery, filters,
         return 'bg-green-100 text-green-800';
       case 'draft':
         return 'bg-gray-100 text-gray-800';
-      case 'in_progress':
+      case 'shortlisting':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'hired':
         return 'bg-blue-100 text-blue-800';
-      case 'completed':
+      case 'fulfilled':
         return 'bg-purple-100 text-purple-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
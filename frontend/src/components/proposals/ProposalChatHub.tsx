@@ -18,44 +18,66 @@ import {
 } from '@heroicons/react/24/outline';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { proposalsApi, attachmentsApi, ProposalAttachment, ProposalHire, ProposalStatus, ResponseStatus } from '@/lib/api';
+import { AttachmentLink } from './AttachmentLink';
+import { useRealtimeEvent, usePollingFallback } from '@/hooks/useRealtime';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface ChatMessage {
   _id: string;
   senderId: string;
   senderName: string;
-  senderRole: 'customer' | 'vendor';
+  senderRole: 'customer' | 'vendor' | 'superadmin';
   message: string;
-  attachments?: Array<{
-    name: string;
-    type: string;
-    url: string;
+  attachments?: ProposalAttachment[];
+  readBy?: Array<{
+    userId: string;
+    readAt: string;
   }>;
   createdAt: string;
 }
 
+// How long a typing indicator stays visible without a fresh event
+const TYPING_TIMEOUT_MS = 4000;
+// Minimum gap between typing events sent to the server
+const TYPING_THROTTLE_MS = 3000;
+// Refetch interval used when the realtime stream is unavailable
+const POLL_INTERVAL_MS = 15000;
+
 interface ProposalChatHubProps {
   proposalId: string;
+  responseId: string;
   proposalTitle: string;
   proposedSolutionTitle?: string;
   vendorName?: string;
   customerName?: string;
+  proposalStatus?: ProposalStatus;
+  responseStatus?: ResponseStatus;
+  hire?: ProposalHire | null;
   onClose?: () => void;
   onFulfilled?: () => void;
+  onStatusChange?: () => void;
 }
 
 export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
   proposalId,
+  responseId,
   proposalTitle,
   proposedSolutionTitle,
   vendorName,
   customerName,
+  proposalStatus,
+  responseStatus,
+  hire,
   onClose,
-  onFulfilled
+  onFulfilled,
+  onStatusChange
 }) => {
   const { user } = useAuth();
   const router = useRouter();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSentRef = useRef(0);
   
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -66,35 +88,55 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [showSidebar, setShowSidebar] = useState(true);
   const [milestoneType, setMilestoneType] = useState<string>('');
+  const [typingUser, setTypingUser] = useState<string | null>(null);
 
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Load chat messages (would be from API in real implementation)
+  // Load the message thread for this response
   useEffect(() => {
-    loadMessages();
-  }, [proposalId]);
+    if (proposalId && responseId) {
+      loadMessages();
+    }
+  }, [proposalId, responseId]);
+
+  // Clear any pending typing indicator timer on unmount
+  useEffect(() => {
+    return () => {
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const isCurrentThread = (data: any) =>
+    data?.proposalId === proposalId && data?.responseId === responseId;
+
+  // Append messages, skipping ones we already have (our own sends echo back)
+  const appendMessages = (incoming: ChatMessage[]) => {
+    setMessages((prev) => {
+      const knownIds = new Set(prev.map((m) => m._id));
+      const fresh = incoming.filter((m) => !knownIds.has(m._id));
+      return fresh.length > 0 ? [...prev, ...fresh] : prev;
+    });
+  };
+
+  const markThreadRead = async () => {
+    try {
+      await proposalsApi.markMessagesRead(proposalId, responseId);
+    } catch (error: any) {
+      console.error('Error marking messages as read:', error);
+    }
+  };
 
   const loadMessages = async () => {
     setLoading(true);
     try {
-      // TODO: Fetch messages from API
-      // const response = await proposalsApi.getChatMessages(proposalId);
-      // setMessages(response.messages || []);
-      
-      // Mock data for now
-      setMessages([
-        {
-          _id: '1',
-          senderId: user?._id || '',
-          senderName: customerName || 'Customer',
-          senderRole: 'customer',
-          message: 'Hello! I\'m interested in learning more about your solution.',
-          createdAt: new Date().toISOString()
-        }
-      ]);
+      const response = await proposalsApi.getChatMessages(proposalId, responseId);
+      setMessages(response.messages || []);
+      markThreadRead();
     } catch (error: any) {
       console.error('Error loading messages:', error);
       toast.error('Failed to load chat messages');
@@ -103,36 +145,117 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
     }
   };
 
+  // Polling fallback: fetch only messages newer than the latest one we hold
+  const pollMessages = async () => {
+    try {
+      const latest = messages[messages.length - 1];
+      const response = await proposalsApi.getChatMessages(proposalId, responseId, {
+        after: latest?.createdAt
+      });
+      const incoming: ChatMessage[] = response.messages || [];
+      if (incoming.length > 0) {
+        appendMessages(incoming);
+        if (incoming.some((m) => m.senderId !== user?._id)) {
+          markThreadRead();
+        }
+      }
+    } catch (error: any) {
+      console.error('Error polling messages:', error);
+    }
+  };
+
+  usePollingFallback(pollMessages, POLL_INTERVAL_MS, !!(proposalId && responseId));
+
+  useRealtimeEvent('chat:message', (data) => {
+    if (!isCurrentThread(data)) return;
+    appendMessages([data.message]);
+    if (data.message.senderId !== user?._id) {
+      setTypingUser(null);
+      markThreadRead();
+    }
+  });
+
+  useRealtimeEvent('chat:typing', (data) => {
+    if (!isCurrentThread(data) || data.userId === user?._id) return;
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    if (data.isTyping) {
+      setTypingUser(data.userName);
+      typingTimeoutRef.current = setTimeout(() => setTypingUser(null), TYPING_TIMEOUT_MS);
+    } else {
+      setTypingUser(null);
+    }
+  });
+
+  useRealtimeEvent('chat:read', (data) => {
+    if (!isCurrentThread(data) || data.userId === user?._id) return;
+
+    // Record the receipt on every message the reader had not seen yet
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.senderId !== data.userId && !m.readBy?.some((r) => r.userId === data.userId)
+          ? { ...m, readBy: [...(m.readBy || []), { userId: data.userId, readAt: data.readAt }] }
+          : m
+      )
+    );
+  });
+
+  // Hire verification happens elsewhere, so refresh lifecycle state when it lands
+  useRealtimeEvent('notification', (data) => {
+    if (data.proposalId !== proposalId || !data.type?.startsWith('hire:')) return;
+    onStatusChange?.();
+  });
+
+  const notifyTyping = (isTyping: boolean) => {
+    const now = Date.now();
+    if (isTyping && now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    // Only say we stopped if the other side was told we started
+    if (!isTyping && lastTypingSentRef.current === 0) return;
+
+    lastTypingSentRef.current = isTyping ? now : 0;
+    proposalsApi.sendTypingIndicator(proposalId, responseId, isTyping).catch((error) => {
+      console.error('Error sending typing indicator:', error);
+    });
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() && selectedFiles.length === 0) return;
 
     setSending(true);
     try {
-      // TODO: Send message via API
-      // const response = await proposalsApi.sendChatMessage(proposalId, {
-      //   message: newMessage.trim(),
-      //   attachments: selectedFiles
-      // });
-
-      // Add message to local state
-      const message: ChatMessage = {
-        _id: Date.now().toString(),
-        senderId: user?._id || '',
-        senderName: user ? `${user.firstName} ${user.lastName}` : 'You',
-        senderRole: (user?.role === 'customer' ? 'customer' : 'vendor') as 'customer' | 'vendor',
-        message: newMessage.trim(),
-        attachments: selectedFiles.map((file, idx) => ({
-          name: file.name,
-          type: file.type,
-          url: URL.createObjectURL(file)
-        })),
-        createdAt: new Date().toISOString()
-      };
-
-      setMessages([...messages, message]);
+      // Store the files first, then reference them from the message
+      let attachments: ProposalAttachment[] = [];
+      if (selectedFiles.length > 0) {
+        const uploadResponse = await attachmentsApi.upload(proposalId, selectedFiles, {
+          responseId,
+          context: 'chat'
+        });
+        attachments = (uploadResponse.attachments || []).map((a: any) => ({
+          attachmentId: a._id,
+          name: a.name,
+          type: a.type
+        }));
+      }
+
+      const messageText = milestoneType && attachments.length > 0
+        ? `[${milestoneType}] ${newMessage.trim()}`.trim()
+        : newMessage.trim();
+
+      const response = await proposalsApi.sendChatMessage(proposalId, responseId, {
+        message: messageText,
+        attachments
+      });
+
+      if (response.success && response.chatMessage) {
+        appendMessages([response.chatMessage]);
+      }
       setNewMessage('');
       setSelectedFiles([]);
+      setMilestoneType('');
+      notifyTyping(false);
     } catch (error: any) {
       console.error('Error sending message:', error);
       toast.error('Failed to send message');
@@ -156,15 +279,14 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
 
     setHiring(true);
     try {
-      // TODO: Update proposal status via API and notify admin
-      // await proposalsApi.markAsHired(proposalId, responseId);
+      await proposalsApi.markAsHired(proposalId, responseId);
       toast.success('Vendor marked as hired! Admin will verify the connection.');
-      if (onFulfilled) {
-        onFulfilled();
+      if (onStatusChange) {
+        onStatusChange();
       }
     } catch (error: any) {
       console.error('Error marking as hired:', error);
-      toast.error('Failed to mark vendor as hired');
+      toast.error(error.response?.data?.error || 'Failed to mark vendor as hired');
     } finally {
       setHiring(false);
     }
@@ -175,8 +297,7 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
 
     setFulfilling(true);
     try {
-      // TODO: Update proposal status via API
-      // await proposalsApi.updateProposal(proposalId, { status: 'fulfilled' });
+      await proposalsApi.markAsFulfilled(proposalId);
       toast.success('Proposal marked as fulfilled!');
       if (onFulfilled) {
         onFulfilled();
@@ -186,7 +307,7 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
       }
     } catch (error: any) {
       console.error('Error marking as fulfilled:', error);
-      toast.error('Failed to mark proposal as fulfilled');
+      toast.error(error.response?.data?.error || 'Failed to mark proposal as fulfilled');
     } finally {
       setFulfilling(false);
     }
@@ -199,6 +320,17 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
 
   const isCustomer = user?.role === 'customer';
 
+  // Lifecycle actions for this thread's response
+  const isHiredResponse = proposalStatus === 'hired' && hire?.responseId === responseId;
+  const canHire = (proposalStatus === 'active' || proposalStatus === 'shortlisting')
+    && (responseStatus === 'pending' || responseStatus === 'shortlisted');
+  const canFulfill = isHiredResponse && hire?.verificationStatus === 'verified';
+  const isOwnMessage = (message: ChatMessage) => message.senderId === user?._id;
+
+  // Show a "Seen" receipt under our most recent message once the other party read it
+  const lastOwnMessage = [...messages].reverse().find(isOwnMessage);
+  const lastOwnMessageSeen = !!lastOwnMessage?.readBy?.some((r) => r.userId !== user?._id);
+
   return (
     <div className="flex flex-col h-full bg-white">
       {/* Context Header */}
@@ -256,22 +388,22 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
                 key={message._id}
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
-                className={`flex ${message.senderRole === (user?.role === 'customer' ? 'customer' : 'vendor') ? 'justify-end' : 'justify-start'}`}
+                className={`flex ${isOwnMessage(message) ? 'justify-end' : 'justify-start'}`}
               >
                 <div
                   className={`max-w-2xl ${
-                    message.senderRole === (user?.role === 'customer' ? 'customer' : 'vendor')
+                    isOwnMessage(message)
                       ? 'bg-blue-600 text-white'
                       : 'bg-white text-gray-900 border border-gray-200'
                   } rounded-lg p-4 shadow-sm`}
                 >
                   {/* Message Header */}
                   <div className="flex items-center gap-2 mb-2">
-                    <UserIcon className={`w-4 h-4 ${message.senderRole === (user?.role === 'customer' ? 'customer' : 'vendor') ? 'text-blue-100' : 'text-gray-400'}`} />
-                    <span className={`text-sm font-medium ${message.senderRole === (user?.role === 'customer' ? 'customer' : 'vendor') ? 'text-blue-100' : 'text-gray-600'}`}>
+                    <UserIcon className={`w-4 h-4 ${isOwnMessage(message) ? 'text-blue-100' : 'text-gray-400'}`} />
+                    <span className={`text-sm font-medium ${isOwnMessage(message) ? 'text-blue-100' : 'text-gray-600'}`}>
                       {message.senderName}
                     </span>
-                    <span className={`text-xs ${message.senderRole === (user?.role === 'customer' ? 'customer' : 'vendor') ? 'text-blue-200' : 'text-gray-500'}`}>
+                    <span className={`text-xs ${isOwnMessage(message) ? 'text-blue-200' : 'text-gray-500'}`}>
                       {formatTime(message.createdAt)}
                     </span>
                   </div>
@@ -283,26 +415,32 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
                   {message.attachments && message.attachments.length > 0 && (
                     <div className="space-y-2 mt-3 pt-3 border-t border-opacity-20">
                       {message.attachments.map((attachment, idx) => (
-                        <a
+                        <AttachmentLink
                           key={idx}
-                          href={attachment.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
+                          attachment={attachment}
                           className={`inline-flex items-center gap-2 text-sm ${
-                            message.senderRole === (user?.role === 'customer' ? 'customer' : 'vendor')
+                            isOwnMessage(message)
                               ? 'text-blue-100 hover:text-white'
                               : 'text-blue-600 hover:text-blue-800'
                           }`}
                         >
                           <DocumentIcon className="w-4 h-4" />
                           {attachment.name}
-                        </a>
+                        </AttachmentLink>
                       ))}
                     </div>
                   )}
+
+                  {/* Read receipt */}
+                  {message._id === lastOwnMessage?._id && lastOwnMessageSeen && (
+                    <div className="text-xs text-blue-200 text-right mt-1">Seen</div>
+                  )}
                 </div>
               </motion.div>
             ))}
+            {typingUser && (
+              <div className="text-sm text-gray-500 italic">{typingUser} is typing...</div>
+            )}
             <div ref={messagesEndRef} />
           </div>
         )}
@@ -404,7 +542,10 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
             <div className="flex-1">
               <textarea
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  notifyTyping(e.target.value.length > 0);
+                }}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' && !e.shiftKey) {
                     e.preventDefault();
@@ -478,24 +619,34 @@ export const ProposalChatHub: React.FC<ProposalChatHubProps> = ({
         </form>
 
         {/* Action Buttons - Only for customers */}
-        {isCustomer && (
+        {isCustomer && (canHire || isHiredResponse) && (
           <div className="px-4 pb-4 border-t border-gray-200 pt-4 space-y-3">
-            <button
-              onClick={handleMarkHired}
-              disabled={hiring}
-              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-            >
-              <CheckCircleIcon className="w-5 h-5" />
-              {hiring ? 'Marking as Hired...' : 'Mark as Hired'}
-            </button>
-            <button
-              onClick={handleMarkFulfilled}
-              disabled={fulfilling}
-              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 via-blue-600 to-indigo-600 text-white rounded-md hover:from-purple-700 hover:via-blue-700 hover:to-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <CheckCircleIcon className="w-4 h-4" />
-              {fulfilling ? 'Marking...' : 'Mark as Fulfilled'}
-            </button>
+            {canHire && (
+              <button
+                onClick={handleMarkHired}
+                disabled={hiring}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                <CheckCircleIcon className="w-5 h-5" />
+                {hiring ? 'Marking as Hired...' : 'Mark as Hired'}
+              </button>
+            )}
+            {isHiredResponse && hire?.verificationStatus === 'pending' && (
+              <p className="text-sm text-center text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+                Hire is awaiting admin verification
+              </p>
+            )}
+            {isHiredResponse && (
+              <button
+                onClick={handleMarkFulfilled}
+                disabled={fulfilling || !canFulfill}
+                title={canFulfill ? undefined : 'Available once an admin verifies the hire'}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 via-blue-600 to-indigo-600 text-white rounded-md hover:from-purple-700 hover:via-blue-700 hover:to-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <CheckCircleIcon className="w-4 h-4" />
+                {fulfilling ? 'Marking...' : 'Mark as Fulfilled'}
+              </button>
+            )}
           </div>
         )}
       </div>
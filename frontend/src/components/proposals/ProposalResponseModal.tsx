@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { XMarkIcon, SparklesIcon, CheckCircleIcon, PlusIcon, MagnifyingGlassIcon, PaperClipIcon, DocumentIcon, LinkIcon } from '@heroicons/react/24/outline';
-import { proposalsApi, solutionsApi } from '@/lib/api';
+import { proposalsApi, solutionsApi, attachmentsApi, ProposalAttachment } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -32,11 +32,7 @@ interface ProposalResponseModalProps {
     proposedPrice?: string;
     proposedTimeline?: string;
     caseStudyLink?: string;
-    attachments?: Array<{
-      name: string;
-      type: string;
-      url?: string;
-    }>;
+    attachments?: ProposalAttachment[];
   };
   isEditMode?: boolean;
 }
@@ -58,7 +54,8 @@ interface AttachedFile {
   name: string;
   type: 'pdf' | 'link' | 'document';
   url?: string;
-  file?: File;
+  attachmentId?: string; // Set once the file has been uploaded
+  file?: File; // Pending upload
 }
 
 interface ResponseFormData {
@@ -128,8 +125,9 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
         attachments: existingResponse.attachments?.map(att => ({
           id: Date.now().toString() + Math.random(),
           name: att.name,
-          type: att.type === 'pdf' ? 'pdf' : 'document',
-          url: att.url
+          type: att.type === 'pdf' || att.type === 'application/pdf' ? 'pdf' : 'document',
+          url: att.url,
+          attachmentId: att.attachmentId
         })) || [],
         caseStudyLink: existingResponse.caseStudyLink || ''
       };
@@ -306,12 +304,27 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
       if (formData.caseStudyLink.trim()) {
         responseData.caseStudyLink = formData.caseStudyLink.trim();
       }
-      if (formData.attachments.length > 0) {
-        responseData.attachments = formData.attachments.map(a => ({
-          name: a.name,
-          type: a.type,
-          url: a.url
-        }));
+      if (formData.attachments.length > 0 || (isEditMode && existingResponse?.attachments?.length)) {
+        // Upload newly picked files first; the response only references stored files
+        const pending = formData.attachments.filter(a => a.file && !a.attachmentId);
+        let uploaded: Array<{ _id: string }> = [];
+        if (pending.length > 0) {
+          const uploadResponse = await attachmentsApi.upload(proposal._id, pending.map(a => a.file as File), {
+            responseId: isEditMode ? existingResponse?._id : undefined,
+            context: 'response'
+          });
+          uploaded = uploadResponse.attachments || [];
+        }
+
+        responseData.attachments = formData.attachments.map(a => {
+          const pendingIndex = pending.indexOf(a);
+          return {
+            attachmentId: pendingIndex >= 0 ? uploaded[pendingIndex]?._id : a.attachmentId,
+            name: a.name,
+            type: a.type,
+            url: a.url
+          };
+        });
       }
 
       let response;
@@ -806,7 +819,7 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
                               </label>
                               <input
                                 type="file"
-                                accept=".pdf,.doc,.docx"
+                                accept=".pdf,.doc,.docx,.ppt,.pptx"
                                 onChange={(e) => {
                                   const files = Array.from(e.target.files || []);
                                   files.forEach((file) => {
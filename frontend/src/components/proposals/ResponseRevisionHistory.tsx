@@ -0,0 +1,123 @@
+/**
+ * Response Revision History Component
+ * Lets buyers step through the versions of a vendor response and see what changed
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { ResponseRevision } from '@/lib/api';
+import { diffWords } from '@/utils/textDiff';
+
+interface ResponseRevisionHistoryProps {
+  revisions: ResponseRevision[];
+}
+
+const FIELD_LABELS: Array<{ key: 'proposedPrice' | 'proposedTimeline' | 'caseStudyLink'; label: string }> = [
+  { key: 'proposedPrice', label: 'Estimated Cost' },
+  { key: 'proposedTimeline', label: 'Time to Implement' },
+  { key: 'caseStudyLink', label: 'Case Study Link' }
+];
+
+export const ResponseRevisionHistory: React.FC<ResponseRevisionHistoryProps> = ({ revisions }) => {
+  const sorted = [...revisions].sort((a, b) => a.version - b.version);
+  const [selectedIndex, setSelectedIndex] = useState(sorted.length - 1);
+
+  // Jump to the latest version whenever a different response is shown
+  useEffect(() => {
+    setSelectedIndex(sorted.length - 1);
+  }, [sorted.length]);
+
+  if (sorted.length < 2) return null;
+
+  const current = sorted[selectedIndex];
+  const previous = selectedIndex > 0 ? sorted[selectedIndex - 1] : null;
+
+  const textSegments = previous ? diffWords(previous.proposalText, current.proposalText) : [];
+  const changedFields = previous
+    ? FIELD_LABELS.filter(({ key }) => (previous[key] || '') !== (current[key] || ''))
+    : [];
+
+  const attachmentNames = (revision: ResponseRevision | null) => (revision?.attachments || []).map((a) => a.name);
+  const addedFiles = attachmentNames(current).filter((name) => !attachmentNames(previous).includes(name));
+  const removedFiles = attachmentNames(previous).filter((name) => !attachmentNames(current).includes(name));
+  const solutionChanged = !!previous && (previous.solutionId || '') !== (current.solutionId || '');
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+        <ClockIcon className="w-5 h-5 text-gray-400" />
+        Revision History
+      </h4>
+
+      {/* Version selector */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {sorted.map((revision, index) => (
+          <button
+            key={revision.version}
+            onClick={() => setSelectedIndex(index)}
+            className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+              index === selectedIndex
+                ? 'bg-purple-600 text-white border-purple-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            v{revision.version}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-4">
+        <p className="text-xs text-gray-500">
+          Version {current.version}
+          {current.createdAt && ` • ${new Date(current.createdAt).toLocaleString()}`}
+          {previous && ` • compared with v${previous.version}`}
+        </p>
+
+        {!previous ? (
+          <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{current.proposalText}</p>
+        ) : (
+          <>
+            {/* Pitch text diff */}
+            <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+              {textSegments.map((segment, index) => (
+                <span
+                  key={index}
+                  className={
+                    segment.type === 'added' ? 'bg-green-100 text-green-900' :
+                    segment.type === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+                    undefined
+                  }
+                >
+                  {segment.value}
+                </span>
+              ))}
+            </p>
+
+            {/* Other field changes */}
+            {(changedFields.length > 0 || solutionChanged || addedFiles.length > 0 || removedFiles.length > 0) && (
+              <ul className="space-y-1 text-sm border-t border-gray-200 pt-3">
+                {changedFields.map(({ key, label }) => (
+                  <li key={key} className="text-gray-700">
+                    <span className="font-medium">{label}:</span>{' '}
+                    <span className="text-red-700 line-through">{previous[key] || 'not set'}</span>
+                    {' → '}
+                    <span className="text-green-700">{current[key] || 'not set'}</span>
+                  </li>
+                ))}
+                {solutionChanged && (
+                  <li className="text-gray-700"><span className="font-medium">Linked solution changed</span></li>
+                )}
+                {addedFiles.map((name) => (
+                  <li key={`added-${name}`} className="text-green-700">+ {name}</li>
+                ))}
+                {removedFiles.map((name) => (
+                  <li key={`removed-${name}`} className="text-red-700">− {name}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
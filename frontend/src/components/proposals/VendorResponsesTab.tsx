@@ -18,7 +18,9 @@ import {
   CheckCircleIcon,
   DocumentIcon
 } from '@heroicons/react/24/outline';
-import { proposalsApi } from '@/lib/api';
+import { proposalsApi, ProposalAttachment, ResponseStatus } from '@/lib/api';
+import { AttachmentLink } from './AttachmentLink';
+import { ViewProposalModal } from './ViewProposalModal';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/router';
@@ -44,13 +46,11 @@ interface ProposalResponse {
   proposalText: string;
   proposedPrice?: string;
   proposedTimeline?: string;
-  status: 'pending' | 'viewed' | 'shortlisted' | 'rejected';
+  status: ResponseStatus;
+  viewedAt?: string;
+  version?: number;
   caseStudyLink?: string;
-  attachments?: Array<{
-    name: string;
-    type: string;
-    url?: string;
-  }>;
+  attachments?: ProposalAttachment[];
   createdAt: string;
 }
 
@@ -67,6 +67,7 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
   const [compareMode, setCompareMode] = useState(false);
   const [selectedForCompare, setSelectedForCompare] = useState<string[]>([]);
   const [shortlistingId, setShortlistingId] = useState<string | null>(null);
+  const [viewingResponse, setViewingResponse] = useState<{ proposalId: string; responseId: string } | null>(null);
 
   useEffect(() => {
     fetchVendorResponses();
@@ -132,7 +133,7 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
       fetchVendorResponses();
     } catch (error: any) {
       console.error('Error declining response:', error);
-      toast.error('Failed to decline proposal');
+      toast.error(error.response?.data?.error || 'Failed to decline proposal');
     }
   };
 
@@ -152,16 +153,32 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
     }
   };
 
-  const getStatusBadgeColor = (status: string) => {
-    switch (status) {
+  const getStatusBadgeColor = (response: ProposalResponse) => {
+    switch (response.status) {
+      case 'accepted':
+        return 'bg-emerald-100 text-emerald-800';
       case 'shortlisted':
         return 'bg-green-100 text-green-800';
-      case 'viewed':
-        return 'bg-blue-100 text-blue-800';
       case 'rejected':
+      case 'withdrawn':
         return 'bg-red-100 text-red-800';
       default:
-        return 'bg-gray-100 text-gray-800';
+        return response.viewedAt ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getStatusLabel = (response: ProposalResponse) => {
+    switch (response.status) {
+      case 'accepted':
+        return 'Hired';
+      case 'shortlisted':
+        return 'Shortlisted';
+      case 'rejected':
+        return 'Declined';
+      case 'withdrawn':
+        return 'Withdrawn';
+      default:
+        return response.viewedAt ? 'Viewed' : 'Pending';
     }
   };
 
@@ -271,8 +288,8 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     className={`p-4 border rounded-lg ${
-                      response.status === 'shortlisted' ? 'border-green-300 bg-green-50' :
-                      response.status === 'rejected' ? 'border-gray-200 bg-gray-50 opacity-60' :
+                      response.status === 'shortlisted' || response.status === 'accepted' ? 'border-green-300 bg-green-50' :
+                      response.status === 'rejected' || response.status === 'withdrawn' ? 'border-gray-200 bg-gray-50 opacity-60' :
                       'border-gray-200 bg-white'
                     }`}
                   >
@@ -281,11 +298,14 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-1">
                           <h4 className="font-semibold text-gray-900">{response.vendorCompany || response.vendorName}</h4>
-                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusBadgeColor(response.status)}`}>
-                            {response.status === 'shortlisted' ? 'Shortlisted' :
-                             response.status === 'viewed' ? 'Viewed' :
-                             response.status === 'rejected' ? 'Declined' : 'Pending'}
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusBadgeColor(response)}`}>
+                            {getStatusLabel(response)}
                           </span>
+                          {(response.version || 1) > 1 && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                              Revised · v{response.version}
+                            </span>
+                          )}
                         </div>
                         <p className="text-sm text-gray-600">{response.vendorName}</p>
                       </div>
@@ -345,20 +365,21 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
                     {response.attachments && response.attachments.length > 0 && (
                       <div className="mb-3 flex flex-wrap gap-2">
                         {response.attachments.map((attachment, idx) => (
-                          <div
+                          <AttachmentLink
                             key={idx}
-                            className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-md text-sm text-gray-700"
+                            attachment={attachment}
+                            className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-md text-sm text-gray-700 hover:bg-gray-200"
                           >
                             <PaperClipIcon className="w-4 h-4" />
                             {attachment.name}
-                          </div>
+                          </AttachmentLink>
                         ))}
                       </div>
                     )}
 
                     {/* Engagement Actions */}
                     <div className="flex items-center gap-2 pt-3 border-t border-gray-200">
-                      {response.status !== 'shortlisted' && response.status !== 'rejected' && (
+                      {response.status === 'pending' && (
                         <button
                           onClick={() => handleShortlist(response._id, response.proposalId)}
                           disabled={shortlistingId === response._id}
@@ -368,10 +389,10 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
                           {shortlistingId === response._id ? 'Shortlisting...' : 'Shortlist'}
                         </button>
                       )}
-                      {response.status === 'shortlisted' && (
+                      {(response.status === 'shortlisted' || response.status === 'accepted') && (
                         <div className="flex items-center gap-2 px-4 py-2 bg-green-100 text-green-800 rounded-md">
                           <CheckCircleIcon className="w-4 h-4" />
-                          <span className="text-sm font-medium">Shortlisted</span>
+                          <span className="text-sm font-medium">{response.status === 'accepted' ? 'Hired' : 'Shortlisted'}</span>
                         </div>
                       )}
                       <button
@@ -381,7 +402,14 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
                         <ChatBubbleLeftRightIcon className="w-4 h-4" />
                         Initiate Chat
                       </button>
-                      {response.status !== 'rejected' && (
+                      <button
+                        onClick={() => setViewingResponse({ proposalId: response.proposalId, responseId: response._id })}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                      >
+                        <EyeIcon className="w-4 h-4" />
+                        {(response.version || 1) > 1 ? 'View Changes' : 'View Details'}
+                      </button>
+                      {(response.status === 'pending' || response.status === 'shortlisted') && (
                         <button
                           onClick={() => handleDecline(response._id, response.proposalId)}
                           className="flex items-center gap-2 px-4 py-2 bg-red-100 text-red-700 rounded-md hover:bg-red-200 transition-colors"
@@ -398,6 +426,16 @@ export const VendorResponsesTab: React.FC<VendorResponsesTabProps> = ({ searchQu
           ))}
         </div>
       )}
+
+      {/* Full response with revision history */}
+      {viewingResponse && (
+        <ViewProposalModal
+          isOpen={!!viewingResponse}
+          onClose={() => setViewingResponse(null)}
+          proposalId={viewingResponse.proposalId}
+          vendorResponseId={viewingResponse.responseId}
+        />
+      )}
     </div>
   );
 };
@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { XMarkIcon, SparklesIcon, TagIcon, CurrencyDollarIcon, ClockIcon, UserIcon, CheckCircleIcon, DocumentTextIcon, BuildingOfficeIcon, CalendarIcon, EyeIcon } from '@heroicons/react/24/outline';
-import { proposalsApi } from '@/lib/api';
+import { proposalsApi, ResponseStatus } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import { motion } from 'framer-motion';
 
@@ -55,7 +55,8 @@ interface Proposal {
     proposalText: string;
     proposedPrice?: string;
     proposedTimeline?: string;
-    status: 'pending' | 'viewed' | 'shortlisted' | 'rejected';
+    status: ResponseStatus;
+    viewedAt?: string;
     createdAt: string;
   }>;
 }
@@ -120,10 +121,14 @@ export const ViewOpportunityModal: React.FC<ViewOpportunityModalProps> = ({
     switch (status) {
       case 'active':
         return 'bg-green-100 text-green-800 border-green-200';
-      case 'in_progress':
+      case 'shortlisting':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'hired':
         return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'completed':
+      case 'fulfilled':
         return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800 border-red-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -363,12 +368,15 @@ export const ViewOpportunityModal: React.FC<ViewOpportunityModalProps> = ({
                                 )}
                               </div>
                               <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                                response.status === 'accepted' ? 'bg-emerald-100 text-emerald-800' :
                                 response.status === 'shortlisted' ? 'bg-green-100 text-green-800' :
-                                response.status === 'viewed' ? 'bg-blue-100 text-blue-800' :
-                                response.status === 'rejected' ? 'bg-red-100 text-red-800' :
+                                response.status === 'rejected' || response.status === 'withdrawn' ? 'bg-red-100 text-red-800' :
+                                response.viewedAt ? 'bg-blue-100 text-blue-800' :
                                 'bg-gray-100 text-gray-800'
                               }`}>
-                                {response.status || 'Pending'}
+                                {response.status === 'accepted' ? 'hired' :
+                                 response.status === 'pending' && response.viewedAt ? 'viewed' :
+                                 response.status || 'Pending'}
                               </span>
                             </div>
 
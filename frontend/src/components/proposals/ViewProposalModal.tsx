@@ -5,7 +5,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { XMarkIcon, SparklesIcon, CheckCircleIcon, DocumentIcon, LinkIcon, ClockIcon, CurrencyDollarIcon } from '@heroicons/react/24/outline';
-import { proposalsApi, solutionsApi } from '@/lib/api';
+import { proposalsApi, solutionsApi, ProposalAttachment, ResponseRevision, ResponseStatus } from '@/lib/api';
+import { AttachmentLink } from './AttachmentLink';
+import { ResponseRevisionHistory } from './ResponseRevisionHistory';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -51,12 +53,11 @@ interface VendorResponse {
   proposedPrice?: string;
   proposedTimeline?: string;
   caseStudyLink?: string;
-  attachments?: Array<{
-    name: string;
-    type: string;
-    url?: string;
-  }>;
-  status: 'pending' | 'viewed' | 'shortlisted' | 'rejected';
+  attachments?: ProposalAttachment[];
+  status: ResponseStatus;
+  viewedAt?: string;
+  version?: number;
+  revisions?: ResponseRevision[];
   createdAt: string;
   updatedAt: string;
 }
@@ -145,8 +146,14 @@ export const ViewProposalModal: React.FC<ViewProposalModalProps> = ({
 
   if (!isOpen) return null;
 
+  // A pending response the customer has opened is shown as viewed
+  const getDisplayStatus = (response: VendorResponse) =>
+    response.status === 'pending' && response.viewedAt ? 'viewed' : response.status;
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
+      case 'accepted':
+        return 'bg-emerald-100 text-emerald-800';
       case 'shortlisted':
         return 'bg-green-100 text-green-800';
       case 'viewed':
@@ -160,12 +167,16 @@ export const ViewProposalModal: React.FC<ViewProposalModalProps> = ({
 
   const getStatusLabel = (status: string) => {
     switch (status) {
+      case 'accepted':
+        return 'Hired';
       case 'shortlisted':
         return 'Shortlisted';
       case 'viewed':
         return 'Viewed';
       case 'rejected':
         return 'Rejected';
+      case 'withdrawn':
+        return 'Withdrawn';
       default:
         return 'Pending';
     }
@@ -297,8 +308,8 @@ export const ViewProposalModal: React.FC<ViewProposalModalProps> = ({
                   {/* Status Badge */}
                   <div className="flex items-center justify-between pb-4 border-b border-gray-200">
                     <h3 className="text-xl font-bold text-gray-900">Proposal Details</h3>
-                    <span className={`px-3 py-1 text-sm font-medium rounded-full ${getStatusBadgeColor(vendorResponse.status)}`}>
-                      {getStatusLabel(vendorResponse.status)}
+                    <span className={`px-3 py-1 text-sm font-medium rounded-full ${getStatusBadgeColor(getDisplayStatus(vendorResponse))}`}>
+                      {getStatusLabel(getDisplayStatus(vendorResponse))}
                     </span>
                   </div>
 
@@ -373,15 +384,13 @@ export const ViewProposalModal: React.FC<ViewProposalModalProps> = ({
                                       <p className="text-xs text-gray-500">{attachment.type?.toUpperCase() || 'DOCUMENT'}</p>
                                     </div>
                                   </div>
-                                  {attachment.url && (
-                                    <a
-                                      href={attachment.url}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
+                                  {(attachment.attachmentId || attachment.url) && (
+                                    <AttachmentLink
+                                      attachment={attachment}
                                       className="text-xs text-purple-600 hover:text-purple-800 underline"
                                     >
                                       View
-                                    </a>
+                                    </AttachmentLink>
                                   )}
                                 </div>
                               ))}
@@ -419,6 +428,11 @@ export const ViewProposalModal: React.FC<ViewProposalModalProps> = ({
                     </div>
                   )}
 
+                  {/* Revision History */}
+                  {vendorResponse.revisions && vendorResponse.revisions.length > 1 && (
+                    <ResponseRevisionHistory revisions={vendorResponse.revisions} />
+                  )}
+
                   {/* Submission Info */}
                   <div className="pt-4 border-t border-gray-200">
                     <div className="flex items-center justify-between text-xs text-gray-500">
@@ -0,0 +1,189 @@
+/**
+ * Save To List Modal Component
+ * Adds a solution to (or removes it from) the user's bookmark lists, with a quick way to
+ * start a new list
+ */
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BookmarkIcon, XMarkIcon, UserGroupIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { bookmarksApi, BookmarkList } from '@/lib/api';
+
+interface SaveToListModalProps {
+  // Solution to save; the modal is closed when null
+  solution: { _id: string; title: string } | null;
+  onClose: () => void;
+}
+
+const SaveToListModal: React.FC<SaveToListModalProps> = ({ solution, onClose }) => {
+  const [lists, setLists] = useState<BookmarkList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newListName, setNewListName] = useState('');
+  const [working, setWorking] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (solution) {
+      setNewListName('');
+      fetchLists();
+    }
+  }, [solution?._id]);
+
+  const fetchLists = async () => {
+    if (!solution) return;
+    try {
+      setLoading(true);
+      const response = await bookmarksApi.getLists(solution._id);
+      setLists(response.lists);
+    } catch (error) {
+      console.error('Error fetching bookmark lists:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (list: BookmarkList) => {
+    if (!solution) return;
+
+    try {
+      setWorking(list._id);
+      const response = list.savedItemId
+        ? await bookmarksApi.removeItem(list._id, list.savedItemId)
+        : await bookmarksApi.addItem(list._id, solution._id);
+      toast.success(response.message || 'Saved');
+      await fetchLists();
+    } catch (error) {
+      console.error('Error updating bookmark list:', error);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!solution || !newListName.trim()) return;
+
+    try {
+      setWorking('new');
+      const { list } = await bookmarksApi.createList({ name: newListName.trim() });
+      const response = await bookmarksApi.addItem(list._id, solution._id);
+      toast.success(response.message || 'Saved');
+      setNewListName('');
+      await fetchLists();
+    } catch (error) {
+      console.error('Error creating bookmark list:', error);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  if (!solution) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        {/* Backdrop */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="flex min-h-full items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-md w-full overflow-hidden"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center bg-blue-100">
+                  <BookmarkIcon className="w-6 h-6 text-blue-600" />
+                </div>
+                <div className="min-w-0">
+                  <h3 className="text-lg font-semibold text-gray-900">Save to list</h3>
+                  <p className="text-sm text-gray-500 truncate">{solution.title}</p>
+                </div>
+              </div>
+              <button onClick={onClose} className="text-gray-400 hover:text-gray-500 transition-colors">
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="p-6 space-y-4">
+              {loading ? (
+                <div className="text-center py-6">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+                </div>
+              ) : (
+                <ul className="space-y-2 max-h-72 overflow-y-auto">
+                  {lists.map(list => (
+                    <li key={list._id}>
+                      <label className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(list.savedItemId)}
+                          disabled={working !== null}
+                          onChange={() => handleToggle(list)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        <span className="flex-1 min-w-0">
+                          <span className="block text-sm font-medium text-gray-900 truncate">{list.name}</span>
+                          <span className="block text-xs text-gray-500">
+                            {list.itemCount} saved
+                            {list.shared && list.organizationId && ` · Shared with ${list.organizationId.name}`}
+                          </span>
+                        </span>
+                        {list.shared && <UserGroupIcon className="h-4 w-4 text-gray-400 shrink-0" />}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form onSubmit={handleCreate} className="flex gap-2">
+                <input
+                  value={newListName}
+                  onChange={(e) => setNewListName(e.target.value)}
+                  maxLength={100}
+                  placeholder="New list, e.g. Radiology AI shortlist"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={working !== null || !newListName.trim()}
+                  className="inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  Create
+                </button>
+              </form>
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex items-center justify-between">
+              <Link href="/dashboard/bookmarks" className="text-sm text-blue-600 hover:text-blue-700">
+                Manage lists
+              </Link>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default SaveToListModal;
@@ -0,0 +1,642 @@
+/**
+ * Solution Reviews Component
+ * Rating summary with sub-rating breakdown, review list and the customer's own review form
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import { motion } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import {
+  StarIcon,
+  HandThumbUpIcon,
+  FlagIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  ClockIcon,
+  BuildingOfficeIcon,
+  CheckBadgeIcon
+} from '@heroicons/react/24/outline';
+import { useAuth } from '@/contexts/AuthContext';
+import { reviewsApi, Review, ReviewInput, ReviewStats, ReviewSubRating } from '@/lib/api';
+
+interface SolutionReviewsProps {
+  solutionId: string;
+  onStatsChange?: (stats: ReviewStats) => void;
+}
+
+type SortOption = 'newest' | 'helpful' | 'highest' | 'lowest';
+
+const SUB_RATING_LABELS: Record<ReviewSubRating, string> = {
+  features: 'Features',
+  easeOfUse: 'Ease of Use',
+  valueForMoney: 'Value for Money',
+  customerSupport: 'Customer Support'
+};
+
+const DURATION_OPTIONS = ['Less than 3 months', '3-6 months', '6-12 months', '1-2 years', 'More than 2 years'];
+const COMPANY_SIZE_OPTIONS = ['1-10', '11-50', '51-200', '201-1000', '1000+'];
+
+const STATUS_LABELS: Record<Review['status'], { label: string; className: string }> = {
+  pending: { label: 'Awaiting moderation', className: 'bg-yellow-500/20 text-yellow-300' },
+  approved: { label: 'Published', className: 'bg-green-500/20 text-green-300' },
+  rejected: { label: 'Not published', className: 'bg-red-500/20 text-red-300' },
+  flagged: { label: 'Under review', className: 'bg-orange-500/20 text-orange-300' }
+};
+
+const PAGE_SIZE = 5;
+
+const emptyForm = (): ReviewInput => ({
+  title: '',
+  content: '',
+  rating: { overall: 0 },
+  isAnonymous: false,
+  implementation: { duration: '', companySize: '', useCase: '', challenges: [], benefits: [] }
+});
+
+// Split a textarea into list items, one per line
+const toList = (value: string) => value.split('\n').map(item => item.trim()).filter(Boolean);
+
+const Stars: React.FC<{ value: number; size?: string; onChange?: (value: number) => void }> = ({
+  value,
+  size = 'h-5 w-5',
+  onChange
+}) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map(star => {
+      const Icon = star <= Math.round(value) ? StarSolidIcon : StarIcon;
+      return onChange ? (
+        <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} star${star > 1 ? 's' : ''}`}>
+          <Icon className={`${size} text-yellow-400 hover:scale-110 transition-transform`} />
+        </button>
+      ) : (
+        <Icon key={star} className={`${size} text-yellow-400`} />
+      );
+    })}
+  </div>
+);
+
+const SolutionReviews: React.FC<SolutionReviewsProps> = ({ solutionId, onStatsChange }) => {
+  const router = useRouter();
+  const { user, isAuthenticated } = useAuth();
+
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [myReview, setMyReview] = useState<Review | null>(null);
+  const [sort, setSort] = useState<SortOption>('newest');
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ReviewInput>(emptyForm());
+  const [challengesText, setChallengesText] = useState('');
+  const [benefitsText, setBenefitsText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState('');
+
+  const fetchReviews = useCallback(async (nextPage: number) => {
+    try {
+      setLoading(true);
+      const response = await reviewsApi.getSolutionReviews(solutionId, {
+        page: nextPage,
+        limit: PAGE_SIZE,
+        sort,
+        verified: verifiedOnly || undefined
+      });
+      if (response.success) {
+        setReviews(prev => nextPage === 1 ? response.reviews : [...prev, ...response.reviews]);
+        setStats(response.stats);
+        setMyReview(response.myReview);
+        setPage(nextPage);
+        setTotalPages(response.totalPages || 1);
+        onStatsChange?.(response.stats);
+      }
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [solutionId, sort, verifiedOnly, onStatsChange]);
+
+  useEffect(() => {
+    fetchReviews(1);
+  }, [fetchReviews]);
+
+  const openForm = () => {
+    if (!isAuthenticated) {
+      router.push('/auth/login');
+      return;
+    }
+
+    if (myReview) {
+      setForm({
+        title: myReview.title,
+        content: myReview.content,
+        rating: { ...myReview.rating },
+        isAnonymous: myReview.isAnonymous,
+        implementation: { ...emptyForm().implementation, ...myReview.implementation }
+      });
+      setChallengesText((myReview.implementation?.challenges || []).join('\n'));
+      setBenefitsText((myReview.implementation?.benefits || []).join('\n'));
+    } else {
+      setForm(emptyForm());
+      setChallengesText('');
+      setBenefitsText('');
+    }
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.rating.overall) {
+      toast.error('Please choose an overall rating');
+      return;
+    }
+
+    const review: ReviewInput = {
+      ...form,
+      implementation: {
+        ...form.implementation,
+        challenges: toList(challengesText),
+        benefits: toList(benefitsText)
+      }
+    };
+
+    try {
+      setSubmitting(true);
+      const response = myReview
+        ? await reviewsApi.updateReview(myReview._id, review)
+        : await reviewsApi.createReview(solutionId, review);
+
+      if (response.success) {
+        toast.success(response.message || 'Review submitted');
+        setShowForm(false);
+        fetchReviews(1);
+      }
+    } catch (error: any) {
+      console.error('Error saving review:', error);
+      toast.error(error.response?.data?.error || 'Failed to save review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!myReview || !window.confirm('Delete your review?')) return;
+
+    try {
+      await reviewsApi.deleteReview(myReview._id);
+      toast.success('Review deleted');
+      fetchReviews(1);
+    } catch (error: any) {
+      console.error('Error deleting review:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete review');
+    }
+  };
+
+  const handleHelpful = async (review: Review) => {
+    if (!isAuthenticated) {
+      router.push('/auth/login');
+      return;
+    }
+
+    try {
+      const response = await reviewsApi.toggleHelpful(review._id);
+      if (response.success) {
+        setReviews(prev => prev.map(item => item._id === review._id
+          ? { ...item, helpful: { count: response.helpful.count }, isHelpfulToMe: response.helpful.isHelpfulToMe }
+          : item));
+      }
+    } catch (error: any) {
+      console.error('Error voting on review:', error);
+      toast.error(error.response?.data?.error || 'Failed to update vote');
+    }
+  };
+
+  const handleReport = async (reviewId: string) => {
+    if (!reportReason.trim()) return;
+
+    try {
+      await reviewsApi.reportReview(reviewId, reportReason.trim());
+      toast.success('Thanks, our team will take a look');
+      setReviews(prev => prev.filter(item => item._id !== reviewId));
+      setReportingId(null);
+      setReportReason('');
+    } catch (error: any) {
+      console.error('Error reporting review:', error);
+      toast.error(error.response?.data?.error || 'Failed to report review');
+    }
+  };
+
+  const canReview = !user || user.role === 'customer';
+  const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-8">
+      {/* Rating Summary */}
+      <div className="bg-gradient-to-br from-gray-800/50 to-gray-700/50 rounded-2xl p-8 border border-gray-600/50 backdrop-blur-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="text-center md:border-r md:border-gray-600/50">
+            <div className="text-5xl font-bold text-white mb-2">
+              {stats?.totalReviews ? stats.averageRating.toFixed(1) : '—'}
+            </div>
+            <div className="flex justify-center mb-2">
+              <Stars value={stats?.averageRating || 0} />
+            </div>
+            <p className="text-gray-400 text-sm">
+              {stats?.totalReviews || 0} review{stats?.totalReviews === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {[5, 4, 3, 2, 1].map(star => {
+              const count = stats?.ratingDistribution[star as 1 | 2 | 3 | 4 | 5] || 0;
+              const percent = stats?.totalReviews ? (count / stats.totalReviews) * 100 : 0;
+              return (
+                <div key={star} className="flex items-center text-sm">
+                  <span className="w-8 text-gray-300">{star}★</span>
+                  <div className="flex-1 h-2 mx-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${percent}%` }} />
+                  </div>
+                  <span className="w-8 text-right text-gray-400">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            {(Object.keys(SUB_RATING_LABELS) as ReviewSubRating[]).map(key => {
+              const value = stats?.breakdown?.[key];
+              return (
+                <div key={key}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-300">{SUB_RATING_LABELS[key]}</span>
+                    <span className="text-gray-400">{value ? value.toFixed(1) : '—'}</span>
+                  </div>
+                  <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-purple-500 to-blue-500 rounded-full"
+                      style={{ width: `${value ? (value / 5) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Own Review */}
+      {canReview && !showForm && (
+        <div className="bg-gradient-to-br from-gray-800/50 to-gray-700/50 rounded-2xl p-6 border border-gray-600/50 backdrop-blur-sm">
+          {myReview ? (
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-3 mb-1">
+                  <h3 className="text-lg font-semibold text-white">Your review: {myReview.title}</h3>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_LABELS[myReview.status].className}`}>
+                    {STATUS_LABELS[myReview.status].label}
+                  </span>
+                </div>
+                <Stars value={myReview.rating.overall} size="h-4 w-4" />
+                {myReview.status === 'rejected' && myReview.moderationNote && (
+                  <p className="text-sm text-red-300 mt-2">Moderator note: {myReview.moderationNote}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={openForm}
+                  className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-700/50 text-gray-200 border border-gray-600/50 rounded-lg hover:bg-gray-600/50"
+                >
+                  <PencilSquareIcon className="h-4 w-4" />
+                  Edit
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-1 px-3 py-2 text-sm bg-red-600/20 text-red-300 border border-red-500/30 rounded-lg hover:bg-red-600/30"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-gray-300">Used this solution? Share your experience with other buyers.</p>
+              <button
+                onClick={openForm}
+                className="px-5 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:opacity-90 whitespace-nowrap"
+              >
+                Write a Review
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Review Form */}
+      {showForm && (
+        <motion.form
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          onSubmit={handleSubmit}
+          className="bg-gradient-to-br from-gray-800/50 to-gray-700/50 rounded-2xl p-6 border border-gray-600/50 backdrop-blur-sm space-y-5"
+        >
+          <h3 className="text-xl font-bold text-white">{myReview ? 'Edit your review' : 'Write a review'}</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Overall rating *</label>
+              <Stars
+                value={form.rating.overall}
+                size="h-7 w-7"
+                onChange={(overall) => setForm({ ...form, rating: { ...form.rating, overall } })}
+              />
+            </div>
+            {(Object.keys(SUB_RATING_LABELS) as ReviewSubRating[]).map(key => (
+              <div key={key}>
+                <label className="block text-sm text-gray-300 mb-1">{SUB_RATING_LABELS[key]}</label>
+                <Stars
+                  value={form.rating[key] || 0}
+                  onChange={(value) => setForm({ ...form, rating: { ...form.rating, [key]: value } })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <input
+            type="text"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            placeholder="Summarize your experience"
+            maxLength={100}
+            required
+            className={inputClass}
+          />
+          <textarea
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+            placeholder="What worked well, and what didn't?"
+            maxLength={1000}
+            rows={4}
+            required
+            className={inputClass}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <select
+              value={form.implementation?.duration || ''}
+              onChange={(e) => setForm({ ...form, implementation: { ...form.implementation, duration: e.target.value } })}
+              className={inputClass}
+            >
+              <option value="">How long have you used it?</option>
+              {DURATION_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+            <select
+              value={form.implementation?.companySize || ''}
+              onChange={(e) => setForm({ ...form, implementation: { ...form.implementation, companySize: e.target.value } })}
+              className={inputClass}
+            >
+              <option value="">Company size</option>
+              {COMPANY_SIZE_OPTIONS.map(option => <option key={option} value={option}>{option} employees</option>)}
+            </select>
+            <input
+              type="text"
+              value={form.implementation?.useCase || ''}
+              onChange={(e) => setForm({ ...form, implementation: { ...form.implementation, useCase: e.target.value } })}
+              placeholder="Main use case"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <textarea
+              value={challengesText}
+              onChange={(e) => setChallengesText(e.target.value)}
+              placeholder="Implementation challenges (one per line)"
+              rows={3}
+              className={inputClass}
+            />
+            <textarea
+              value={benefitsText}
+              onChange={(e) => setBenefitsText(e.target.value)}
+              placeholder="Benefits you saw (one per line)"
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.isAnonymous}
+              onChange={(e) => setForm({ ...form, isAnonymous: e.target.checked })}
+              className="rounded border-gray-600 bg-gray-800"
+            />
+            Post anonymously
+          </label>
+
+          <div className="flex justify-between items-center">
+            <p className="text-xs text-gray-400">Reviews are published after moderation.</p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-5 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Submit Review'}
+              </button>
+            </div>
+          </div>
+        </motion.form>
+      )}
+
+      {/* Review List */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-2xl font-bold text-white">Customer Reviews</h3>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={verifiedOnly}
+              onChange={(e) => setVerifiedOnly(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-800"
+            />
+            Verified customers only ({stats?.verifiedReviews || 0})
+          </label>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as SortOption)}
+            className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="newest">Newest</option>
+            <option value="helpful">Most helpful</option>
+            <option value="highest">Highest rated</option>
+            <option value="lowest">Lowest rated</option>
+          </select>
+        </div>
+      </div>
+
+      {!loading && reviews.length === 0 ? (
+        <div className="bg-gray-800/50 rounded-2xl p-10 border border-gray-600/50 text-center">
+          <StarIcon className="h-10 w-10 text-gray-500 mx-auto mb-3" />
+          <p className="text-gray-300">{verifiedOnly ? 'No reviews from verified customers yet' : 'No reviews yet'}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <div
+              key={review._id}
+              className="bg-gradient-to-br from-gray-800/50 to-gray-700/50 rounded-2xl p-6 border border-gray-600/50 backdrop-blur-sm"
+            >
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div>
+                  <Stars value={review.rating.overall} size="h-4 w-4" />
+                  <h4 className="text-lg font-semibold text-white mt-1">{review.title}</h4>
+                  {review.isVerified && (
+                    <span
+                      className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-green-500/20 text-green-300"
+                      title="The reviewer's organization bought this solution through AstroVault"
+                    >
+                      <CheckBadgeIcon className="h-4 w-4" />
+                      Verified customer
+                    </span>
+                  )}
+                  <p className="text-sm text-gray-400">
+                    {[review.customerName, review.customerRole, review.customerCompany].filter(Boolean).join(' · ')}
+                    {' · '}
+                    {new Date(review.reviewedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+
+              <p className="text-gray-300 leading-relaxed mb-4">{review.content}</p>
+
+              {review.implementation && (
+                <div className="space-y-3 mb-4">
+                  <div className="flex flex-wrap gap-4 text-sm text-gray-400">
+                    {review.implementation.duration && (
+                      <span className="flex items-center gap-1">
+                        <ClockIcon className="h-4 w-4" />
+                        Used for {review.implementation.duration}
+                      </span>
+                    )}
+                    {review.implementation.companySize && (
+                      <span className="flex items-center gap-1">
+                        <BuildingOfficeIcon className="h-4 w-4" />
+                        {review.implementation.companySize} employees
+                      </span>
+                    )}
+                    {review.implementation.useCase && <span>Use case: {review.implementation.useCase}</span>}
+                  </div>
+                  {((review.implementation.benefits?.length || 0) > 0 || (review.implementation.challenges?.length || 0) > 0) && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                      {(review.implementation.benefits?.length || 0) > 0 && (
+                        <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+                          <p className="font-medium text-green-300 mb-1">Benefits</p>
+                          <ul className="list-disc list-inside text-gray-300 space-y-0.5">
+                            {review.implementation.benefits!.map((item, idx) => <li key={idx}>{item}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                      {(review.implementation.challenges?.length || 0) > 0 && (
+                        <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-3">
+                          <p className="font-medium text-orange-300 mb-1">Challenges</p>
+                          <ul className="list-disc list-inside text-gray-300 space-y-0.5">
+                            {review.implementation.challenges!.map((item, idx) => <li key={idx}>{item}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {(Object.keys(SUB_RATING_LABELS) as ReviewSubRating[]).some(key => review.rating[key]) && (
+                <div className="flex flex-wrap gap-4 text-xs text-gray-400 mb-4">
+                  {(Object.keys(SUB_RATING_LABELS) as ReviewSubRating[])
+                    .filter(key => review.rating[key])
+                    .map(key => (
+                      <span key={key}>{SUB_RATING_LABELS[key]}: {review.rating[key]}/5</span>
+                    ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-4 text-sm">
+                <button
+                  onClick={() => handleHelpful(review)}
+                  className={`flex items-center gap-1 ${review.isHelpfulToMe ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}
+                >
+                  <HandThumbUpIcon className="h-4 w-4" />
+                  Helpful ({review.helpful.count})
+                </button>
+                {isAuthenticated && reportingId !== review._id && (
+                  <button
+                    onClick={() => setReportingId(review._id)}
+                    className="flex items-center gap-1 text-gray-400 hover:text-red-300"
+                  >
+                    <FlagIcon className="h-4 w-4" />
+                    Report
+                  </button>
+                )}
+              </div>
+
+              {reportingId === review._id && (
+                <div className="flex gap-2 mt-3">
+                  <input
+                    type="text"
+                    value={reportReason}
+                    onChange={(e) => setReportReason(e.target.value)}
+                    placeholder="Why should this review be removed?"
+                    maxLength={200}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => handleReport(review._id)}
+                    disabled={!reportReason.trim()}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Report
+                  </button>
+                  <button
+                    onClick={() => { setReportingId(null); setReportReason(''); }}
+                    className="px-3 py-2 text-gray-300 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {page < totalPages && (
+            <div className="text-center">
+              <button
+                onClick={() => fetchReviews(page + 1)}
+                disabled={loading}
+                className="px-5 py-2 bg-gray-700/50 text-gray-200 border border-gray-600/50 rounded-lg hover:bg-gray-600/50 disabled:opacity-50"
+              >
+                {loading ? 'Loading...' : 'Load more reviews'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SolutionReviews;
@@ -4,7 +4,7 @@
  */
 
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { authApi, apiUtils } from '@/lib/api';
+import { authApi, apiUtils, refreshAccessToken } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 
 // User type definition
@@ -13,7 +13,7 @@ export interface User {
   firstName: string;
   lastName: string;
   email: string;
-  role: 'customer' | 'vendor' | 'superadmin';
+  role: 'customer' | 'vendor' | 'editor' | 'superadmin';
   avatar?: string;
   phone?: string;
   bio?: string;
@@ -23,14 +23,25 @@ export interface User {
     country: string;
   };
   companyId?: string;
+  // Organization new proposals, solutions and profiles belong to
+  activeOrganizationId?: string;
   interests?: string[];
   industry?: string;
   isEmailVerified: boolean;
   isActive: boolean;
+  twoFactor?: {
+    enabled: boolean;
+    enabledAt?: string;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+// Outcome of the password step: either signed in, or a two-factor code is needed
+export type LoginResult =
+  | { twoFactorRequired: true; challengeToken: string }
+  | { twoFactorRequired: false; twoFactorSetupRequired: boolean };
+
 // Auth state interface
 interface AuthState {
   user: User | null;
@@ -44,6 +55,7 @@ type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: User }
   | { type: 'AUTH_FAILURE'; payload: string }
+  | { type: 'AUTH_CHALLENGE' }
   | { type: 'AUTH_LOGOUT' }
   | { type: 'AUTH_CLEAR_ERROR' }
   | { type: 'AUTH_UPDATE_USER'; payload: Partial<User> };
@@ -81,6 +93,13 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isLoading: false,
         error: action.payload,
       };
+    case 'AUTH_CHALLENGE':
+      // Password accepted, waiting for the two-factor code
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+      };
     case 'AUTH_LOGOUT':
       return {
         ...state,
@@ -106,7 +125,11 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 
 // Auth context interface
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string }
+  ) => Promise<LoginResult>;
   register: (userData: {
     firstName: string;
     lastName: string;
@@ -140,7 +163,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     let isMounted = true;
     
     const checkAuth = async () => {
-      const token = apiUtils.getAuthToken();
+      // The access token is a session cookie; the refresh cookie restores it after a browser restart
+      const token = apiUtils.getAuthToken() || await refreshAccessToken();
       
       if (token) {
         try {
@@ -180,13 +204,26 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, []);
 
+  // The API client signals when a session can no longer be refreshed
+  useEffect(() => {
+    const handleSessionEnded = () => dispatch({ type: 'AUTH_LOGOUT' });
+
+    window.addEventListener('auth:session-ended', handleSessionEnded);
+    return () => window.removeEventListener('auth:session-ended', handleSessionEnded);
+  }, []);
+
   // Login function
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       dispatch({ type: 'AUTH_START' });
       
       const response = await authApi.login({ email, password });
       
+      if (response.success && response.twoFactorRequired && response.challengeToken) {
+        dispatch({ type: 'AUTH_CHALLENGE' });
+        return { twoFactorRequired: true, challengeToken: response.challengeToken };
+      }
+      
       if (response.success && response.token && response.user) {
         // Store token in cookies
         apiUtils.setAuthToken(response.token);
@@ -195,6 +232,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         dispatch({ type: 'AUTH_SUCCESS', payload: response.user });
         
         toast.success('Login successful!');
+        return { twoFactorRequired: false, twoFactorSetupRequired: Boolean(response.twoFactorSetupRequired) };
       } else {
         throw new Error(response.message || 'Login failed');
       }
@@ -205,6 +243,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Second login step with an authenticator or recovery code
+  const completeTwoFactorLogin = async (
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string }
+  ): Promise<LoginResult> => {
+    const response = await authApi.loginTwoFactor({ challengeToken, ...credentials });
+    
+    if (!response.success || !response.token || !response.user) {
+      throw new Error(response.message || 'Login failed');
+    }
+    
+    apiUtils.setAuthToken(response.token);
+    dispatch({ type: 'AUTH_SUCCESS', payload: response.user });
+    toast.success(response.message || 'Login successful!');
+    return { twoFactorRequired: false, twoFactorSetupRequired: false };
+  };
+
   // Register function
   const register = async (userData: {
     firstName: string;
@@ -315,6 +370,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     ...state,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
     updateProfile,
@@ -0,0 +1,72 @@
+/**
+ * Custom hooks for the category/industry taxonomy
+ * Provides React Query integration for taxonomy data and superadmin management
+ */
+
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { categoriesApi, TaxonomyEntry, TaxonomyEntryInput } from '@/lib/api';
+import { toast } from 'react-hot-toast';
+
+// Hook to fetch active categories and industries with live counts
+export const useTaxonomy = () => {
+  return useQuery(
+    ['taxonomy'],
+    () => categoriesApi.getCategories(),
+    {
+      staleTime: 10 * 60 * 1000, // 10 minutes
+      select: (data) => ({
+        categories: data.categories || [],
+        industries: data.industries || []
+      })
+    }
+  );
+};
+
+// Hook to fetch the full taxonomy for management (superadmin)
+export const useManagedTaxonomy = () => {
+  return useQuery(
+    ['taxonomy', 'manage'],
+    () => categoriesApi.getManagedCategories(),
+    {
+      select: (data) => ({
+        categories: data.categories || [],
+        industries: data.industries || [],
+        unmapped: data.unmapped || []
+      })
+    }
+  );
+};
+
+// Hook returning the create, update, merge and delete mutations for taxonomy entries
+export const useTaxonomyMutations = () => {
+  const queryClient = useQueryClient();
+
+  const onSuccess = (data: any) => {
+    queryClient.invalidateQueries('taxonomy');
+    // Re-pointed solutions change list filters and counts
+    if (data?.repointed) {
+      queryClient.invalidateQueries('solutions');
+    }
+    toast.success(data?.message || 'Saved');
+  };
+
+  return {
+    create: useMutation((entry: TaxonomyEntryInput) => categoriesApi.createCategory(entry), { onSuccess }),
+    update: useMutation(
+      ({ id, entry }: { id: string; entry: TaxonomyEntryInput }) => categoriesApi.updateCategory(id, entry),
+      { onSuccess }
+    ),
+    merge: useMutation(
+      ({ id, targetId }: { id: string; targetId: string }) => categoriesApi.mergeCategory(id, targetId),
+      { onSuccess }
+    ),
+    remove: useMutation((id: string) => categoriesApi.deleteCategory(id), { onSuccess })
+  };
+};
+
+// Flatten a taxonomy tree into select options, children indented under their parent
+export const flattenTaxonomy = (entries: TaxonomyEntry[] = []) =>
+  entries.flatMap(entry => [
+    { value: entry.name, label: entry.name, entry, depth: 0 },
+    ...(entry.children || []).map(child => ({ value: child.name, label: child.name, entry: child, depth: 1 }))
+  ]);
@@ -0,0 +1,75 @@
+/**
+ * Custom hook for the solution compare list
+ * Keeps the shortlisted solutions in localStorage so the list survives navigation and
+ * stays in sync across components and tabs
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+
+export const MAX_COMPARE = 4;
+
+const STORAGE_KEY = 'compareSolutions';
+const CHANGE_EVENT = 'compare-solutions-change';
+
+export interface CompareItem {
+  id: string;
+  title: string;
+}
+
+const readItems = (): CompareItem[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const items = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(items) ? items.slice(0, MAX_COMPARE) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const writeItems = (items: CompareItem[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Link to the compare page for a set of solution IDs
+export const compareUrl = (ids: string[]) => `/solutions/compare?ids=${ids.join(',')}`;
+
+export const useCompareList = () => {
+  const [items, setItems] = useState<CompareItem[]>([]);
+
+  useEffect(() => {
+    const sync = () => setItems(readItems());
+    sync();
+
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const isSelected = useCallback((id: string) => items.some(item => item.id === id), [items]);
+
+  const toggle = useCallback((item: CompareItem) => {
+    const current = readItems();
+    if (current.some(existing => existing.id === item.id)) {
+      writeItems(current.filter(existing => existing.id !== item.id));
+      return;
+    }
+    if (current.length >= MAX_COMPARE) {
+      toast.error(`You can compare up to ${MAX_COMPARE} solutions`);
+      return;
+    }
+    writeItems([...current, item]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    writeItems(readItems().filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => writeItems([]), []);
+
+  return { items, isSelected, toggle, remove, clear };
+};
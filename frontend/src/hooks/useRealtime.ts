@@ -0,0 +1,43 @@
+/**
+ * Hooks for the realtime push channel
+ * Subscribe to server events and run a polling fallback when the stream is unavailable
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { realtime, RealtimeEvent, RealtimeStatus } from '../lib/realtime';
+
+// Subscribe to a realtime event for the lifetime of the component
+export function useRealtimeEvent(event: RealtimeEvent, handler: (data: any) => void, enabled = true) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return realtime.on(event, (data) => handlerRef.current(data));
+  }, [event, enabled]);
+}
+
+// Current connection status of the realtime channel
+export function useRealtimeStatus(): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>(realtime.getStatus());
+
+  useEffect(() => realtime.onStatusChange(setStatus), []);
+
+  return status;
+}
+
+// Run a callback on an interval only while the channel has fallen back to polling
+export function usePollingFallback(callback: () => void, intervalMs: number, enabled = true) {
+  const status = useRealtimeStatus();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (!enabled || status !== 'polling') return;
+
+    const timer = setInterval(() => callbackRef.current(), intervalMs);
+    return () => clearInterval(timer);
+  }, [status, intervalMs, enabled]);
+
+  return status;
+}
@@ -3,22 +3,100 @@
  * Handles all API calls to the backend with proper error handling and authentication
  */
 
-import axios, { AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { toast } from 'react-hot-toast';
 import Cookies from 'js-cookie';
 
 // API base configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
 // Create axios instance with default configuration
 const api = axios.create({
   baseURL: API_BASE_URL,
   timeout: 10000,
+  // Sends the httpOnly refresh token cookie to /auth endpoints
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Endpoints whose 401s mean bad credentials rather than an expired access token
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+// Only one refresh runs at a time; requests that fail meanwhile wait for it and are replayed
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token with the refresh token cookie
+ * Resolves to null when the session has ended.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(`${API_BASE_URL}/auth/refresh`, null, { withCredentials: true, timeout: 10000 })
+      .then((response) => {
+        const token: string | undefined = response.data?.token;
+        if (token) {
+          apiUtils.setAuthToken(token);
+        }
+        return token || null;
+      })
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+/**
+ * Get an access token that will still be accepted
+ * For requests made outside axios (fetch streams); refreshes when the token is
+ * about to expire. Anonymous visitors get null.
+ */
+export const getValidAuthToken = async (): Promise<string | null> => {
+  const token = apiUtils.getAuthToken();
+  if (!token) return null;
+
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (!payload.exp || payload.exp * 1000 > Date.now() + 30 * 1000) {
+      return token;
+    }
+  } catch (error) {
+    // Not a readable JWT; let the refresh decide
+  }
+  return refreshAccessToken();
+};
+
+// Sensitive admin routes ask for a fresh two-factor check. The app registers a prompt
+// (TwoFactorPrompt) that resolves true once the code is confirmed; concurrent requests share it.
+let twoFactorPrompt: (() => Promise<boolean>) | null = null;
+let twoFactorPromise: Promise<boolean> | null = null;
+
+export const setTwoFactorPrompt = (prompt: (() => Promise<boolean>) | null) => {
+  twoFactorPrompt = prompt;
+};
+
+const requestTwoFactor = (): Promise<boolean> => {
+  if (!twoFactorPromise) {
+    twoFactorPromise = (twoFactorPrompt ? twoFactorPrompt() : Promise.resolve(false)).finally(() => {
+      twoFactorPromise = null;
+    });
+  }
+  return twoFactorPromise;
+};
+
+// Tell the app the session is gone (AuthContext signs out and sends the user to login)
+const endSession = () => {
+  Cookies.remove('auth_token');
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('auth:session-ended'));
+  }
+  toast.error('Session expired. Please login again.');
+};
+
 // Request interceptor to add authentication token
 api.interceptors.request.use(
   (config) => {
@@ -52,16 +130,48 @@ api.interceptors.response.use(
     const errorMessage = (data as any)?.message || 'An error occurred';
     const errorMessageLower = (errorMessage as string).toLowerCase();
 
+    // Expired access token: refresh silently, then replay the request once
+    const config = error.config as
+      | (InternalAxiosRequestConfig & { _retried?: boolean; _twoFactorRetried?: boolean })
+      | undefined;
+    const isAuthEndpoint = NO_REFRESH_URLS.some((url) => config?.url?.includes(url));
+    if (status === 401 && config && !isAuthEndpoint) {
+      if (config._retried) {
+        endSession();
+        return Promise.reject(error);
+      }
+      config._retried = true;
+      return refreshAccessToken().then((token) => {
+        if (!token) {
+          endSession();
+          return Promise.reject(error);
+        }
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      });
+    }
+
+    // Sensitive route needs a recent two-factor check: ask for a code, then replay once
+    const errorCode = (data as any)?.code;
+    if (status === 403 && errorCode === 'TWO_FACTOR_REQUIRED' && config && !config._twoFactorRetried) {
+      config._twoFactorRetried = true;
+      return requestTwoFactor().then((verified) => (verified ? api(config) : Promise.reject(error)));
+    }
+
     switch (status) {
       case 401:
-        // Unauthorized - clear token and redirect to login
-        Cookies.remove('auth_token');
-        if (typeof window !== 'undefined') {
-          window.location.href = '/auth/login';
-        }
-        toast.error('Session expired. Please login again.');
+        // Wrong credentials on sign-in
+        toast.error(errorMessage);
         break;
       case 403:
+        if (errorCode === 'TWO_FACTOR_SETUP_REQUIRED' || errorCode === 'TWO_FACTOR_REQUIRED') {
+          toast.error(errorMessage);
+          break;
+        }
+        // The login page switches to the single sign-on button
+        if (errorCode === 'SSO_REQUIRED') {
+          break;
+        }
         toast.error('Access denied. You do not have permission.');
         break;
       case 404:
@@ -124,6 +234,554 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   totalPages: number;
 }
 
+// Proposal lifecycle: draft → active → shortlisting → hired → fulfilled (or cancelled)
+export type ProposalStatus = 'draft' | 'active' | 'shortlisting' | 'hired' | 'fulfilled' | 'cancelled';
+
+// Vendor response lifecycle: pending → shortlisted → accepted/rejected/withdrawn
+export type ResponseStatus = 'pending' | 'shortlisted' | 'accepted' | 'rejected' | 'withdrawn';
+
+// Hired response awaiting or past admin verification
+export interface ProposalHire {
+  responseId: string;
+  hiredBy?: string;
+  hiredAt?: string;
+  verificationStatus: 'pending' | 'verified' | 'rejected';
+  verifiedBy?: string;
+  verifiedAt?: string;
+  verificationNote?: string;
+}
+
+// Snapshot of a vendor response's content at one version
+export interface ResponseRevision {
+  version: number;
+  solutionId?: string;
+  proposalText?: string;
+  proposedPrice?: string;
+  proposedTimeline?: string;
+  caseStudyLink?: string;
+  attachments?: Array<{ attachmentId?: string; name: string }>;
+  editedBy?: string;
+  createdAt: string;
+}
+
+// File or link attached to a proposal response or chat message
+export interface ProposalAttachment {
+  attachmentId?: string;
+  name: string;
+  type: string;
+  url?: string;
+  size?: number;
+}
+
+// Review moderation status
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+
+// What proved the reviewer bought the solution
+export type ReviewVerificationSource = 'proposal' | 'query' | 'manual';
+
+// Optional sub-ratings next to the overall score
+export type ReviewSubRating = 'features' | 'easeOfUse' | 'valueForMoney' | 'customerSupport';
+
+export interface Review {
+  _id: string;
+  title: string;
+  content: string;
+  rating: { overall: number } & Partial<Record<ReviewSubRating, number>>;
+  solutionId: string;
+  customerName: string;
+  customerCompany?: string;
+  customerRole?: string;
+  status: ReviewStatus;
+  isVerified: boolean;
+  verification?: {
+    source: ReviewVerificationSource;
+    reason?: string;
+    updatedAt?: string;
+  };
+  isAnonymous: boolean;
+  helpful: { count: number };
+  isHelpfulToMe?: boolean;
+  implementation?: {
+    duration?: string;
+    companySize?: string;
+    useCase?: string;
+    challenges?: string[];
+    benefits?: string[];
+  };
+  moderationNote?: string;
+  reviewedAt: string;
+  lastUpdated?: string;
+}
+
+// Approved-review statistics for a solution
+export interface ReviewStats {
+  averageRating: number;
+  totalReviews: number;
+  verifiedReviews: number;
+  ratingDistribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  breakdown: Record<ReviewSubRating, number | null>;
+}
+
+export type ReviewInput = Pick<Review, 'title' | 'content' | 'rating' | 'isAnonymous' | 'implementation'>;
+
+// Solution with the fields lined up on the compare page
+export interface ComparedSolution {
+  _id: string;
+  title: string;
+  slug?: string;
+  shortDescription?: string;
+  category?: string;
+  companyId?: { _id: string; name: string; logo?: string; isVerified?: boolean } | null;
+  pricing?: {
+    model?: string;
+    price?: { amount?: number; currency?: string; period?: string };
+    freeTrial?: { available?: boolean; duration?: string };
+    customPricing?: { available?: boolean; description?: string };
+  };
+  deployment?: {
+    type?: string;
+    setupTime?: string;
+    integrationComplexity?: 'low' | 'medium' | 'high';
+    supportLevel?: string;
+  };
+  certifications?: Array<{ name: string; issuer?: string; date?: string; expiry?: string }>;
+  compliance?: Array<{ standard: string; status?: string; description?: string }>;
+  integrationHighlights?: string[];
+  performanceMetrics?: Array<{ metric: string; value: string; description?: string }>;
+  implementationTime?: string;
+  ratingStats: ReviewStats;
+}
+
+// Blog post lifecycle status
+export type BlogStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+// Solution card linked from a blog post
+export interface BlogRelatedSolution {
+  _id: string;
+  title: string;
+  slug?: string;
+  shortDescription?: string;
+  category?: string;
+  industry?: string;
+  pricing?: { model?: string };
+  rating?: { average: number; count: number };
+  images?: Array<{ url: string; alt?: string }>;
+  companyId?: { _id: string; name: string; logo?: string } | string;
+}
+
+export interface BlogPost {
+  _id: string;
+  title: string;
+  slug: string;
+  excerpt: string;
+  content?: string;
+  authorId: string;
+  authorName: string;
+  authorBio?: string;
+  authorAvatar?: string;
+  category: string;
+  subcategory?: string;
+  industry: string;
+  tags: string[];
+  featuredImage?: { url?: string; alt?: string; caption?: string };
+  status: BlogStatus;
+  isFeatured: boolean;
+  publishedAt?: string;
+  scheduledAt?: string;
+  views: number;
+  likes: number;
+  readTime: number;
+  metaTitle?: string;
+  metaDescription?: string;
+  relatedSolutions?: BlogRelatedSolution[];
+  updatedAt: string;
+}
+
+// Fields authors can edit; related solutions are sent as IDs
+export type BlogPostInput = Partial<Pick<BlogPost,
+  'title' | 'excerpt' | 'content' | 'category' | 'industry' | 'tags' | 'featuredImage' | 'isFeatured' | 'metaTitle' | 'metaDescription'
+>> & { relatedSolutions?: string[] };
+
+// Newsletter lifecycle status
+export type NewsletterStatus = 'draft' | 'scheduled' | 'published' | 'sending' | 'sent' | 'archived';
+
+// Who a newsletter is sent to
+export type NewsletterAudience = 'all' | 'customers' | 'vendors' | 'specific-industry' | 'custom';
+
+export interface NewsletterDistribution {
+  targetAudience: NewsletterAudience;
+  industryFilter?: string[];
+  roleFilter?: string[];
+  customFilters?: { interests?: string[] };
+  recipientCount?: number;
+}
+
+export interface NewsletterMetrics {
+  sent: number;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  unsubscribed: number;
+  bounced: number;
+}
+
+export interface Newsletter {
+  _id: string;
+  title: string;
+  slug: string;
+  description: string;
+  content?: string;
+  category: string;
+  industry: string;
+  tags: string[];
+  status: NewsletterStatus;
+  scheduledAt?: string;
+  sentAt?: string;
+  sendError?: string;
+  distribution: NewsletterDistribution;
+  metrics: NewsletterMetrics;
+  openRate: number;
+  clickRate: number;
+  featuredSolutions?: Array<{ _id: string; title: string; category?: string }>;
+  featuredBlogs?: Array<{ _id: string; title: string; slug: string; category?: string }>;
+  template?: { headerImage?: string; footerContent?: string; colors?: { primary?: string } };
+  version: number;
+  updatedAt: string;
+}
+
+// Fields superadmins can edit; featured content is sent as IDs
+export type NewsletterInput = Partial<Pick<Newsletter,
+  'title' | 'description' | 'content' | 'category' | 'industry' | 'tags' | 'distribution' | 'template'
+>> & { featuredSolutions?: string[]; featuredBlogs?: string[] };
+
+// Public vendor directory listing (questionnaire joined with company profile)
+export interface VendorListing {
+  _id: string;
+  name: string;
+  description?: string;
+  logo?: string;
+  website?: string;
+  companyType?: string;
+  companyTypeOther?: string;
+  companySize?: string;
+  foundedYear?: number;
+  location?: { state?: string; country?: string };
+  solutionCategory: string[];
+  deploymentOptions: string[];
+  complianceCertifications: string[];
+  pricingModel?: string;
+  pricingRange?: string;
+  implementationTime?: string;
+  clientCount?: number;
+  isVerified: boolean;
+  rating: { average: number; count: number };
+  solutionCount: number;
+  submittedAt?: string;
+}
+
+export interface VendorProfile extends VendorListing {
+  companyId?: string;
+  highlights?: Array<{ title: string; description?: string; year?: number }>;
+  keyTeamMembers?: Array<{ name: string; position?: string; linkedin?: string; image?: string }>;
+  teamSize?: number;
+  socialLinks?: { linkedin?: string; twitter?: string; facebook?: string; github?: string };
+  complianceCertificationsOther?: string;
+  securityFeatures?: string[];
+  keyFeatures?: string[];
+  technologyStack?: string[];
+  integrationCapabilities?: string[];
+  targetSpecialties?: string[];
+  targetInstitutionTypes?: string[];
+  supportOffered?: string[];
+  trainingProvided?: string[];
+  awards?: string[];
+  competitiveAdvantages?: string[];
+  solutions: Array<{
+    _id: string;
+    title: string;
+    shortDescription?: string;
+    category: string;
+    industry?: string;
+    pricing?: { model?: string };
+    rating?: { average: number; count: number };
+    images?: Array<{ url: string; alt?: string; isPrimary?: boolean }>;
+  }>;
+}
+
+export interface VendorDirectoryFilters {
+  companyTypes: string[];
+  companySizes: string[];
+  deploymentOptions: string[];
+  complianceCertifications: string[];
+  pricingRanges: string[];
+  categories: string[];
+}
+
+export type VendorDirectorySort = 'verified' | 'newest' | 'name' | 'rating' | 'solutions';
+
+// Solution contact requests (leads)
+export type InquiryStatus = 'new' | 'contacted' | 'qualified' | 'won' | 'lost';
+
+export interface InquiryReply {
+  _id: string;
+  message: string;
+  authorId?: string;
+  emailed: boolean;
+  createdAt: string;
+}
+
+export interface InquiryNote {
+  _id: string;
+  content: string;
+  authorId?: { _id: string; firstName: string; lastName: string } | null;
+  createdAt: string;
+}
+
+export interface Inquiry {
+  _id: string;
+  solutionId: { _id: string; title: string } | string | null;
+  vendorId: string;
+  buyerId: { _id: string; firstName: string; lastName: string; email: string; avatar?: string } | string;
+  name: string;
+  email: string;
+  company?: string;
+  message: string;
+  status: InquiryStatus;
+  statusChangedAt?: string;
+  // Vendor only
+  notes?: InquiryNote[];
+  replies: InquiryReply[];
+  lastActivityAt: string;
+  createdAt: string;
+}
+
+// An inquiry as the buyer who sent it sees it
+export type SentInquiry = Omit<Inquiry, 'status' | 'statusChangedAt' | 'notes'>;
+
+export type InquiryInput = Pick<Inquiry, 'name' | 'email' | 'company' | 'message'>;
+
+// Category/industry taxonomy
+export type TaxonomyType = 'category' | 'industry';
+
+export interface TaxonomyEntry {
+  _id: string;
+  name: string;
+  slug: string;
+  type: TaxonomyType;
+  parentId: string | null;
+  description?: string;
+  icon?: string;
+  order: number;
+  solutionCount: number;
+  companyCount: number;
+  averageRating: number;
+  // Top-level categories only
+  topIndustries?: string[];
+  topTags?: string[];
+  // Management view only
+  synonyms?: string[];
+  isActive?: boolean;
+  children?: TaxonomyEntry[];
+}
+
+// Solution values that match no taxonomy entry (management view)
+export interface UnmappedTaxonomyValue {
+  field: 'category' | 'subcategory' | 'industry';
+  value: string;
+  solutionCount: number;
+}
+
+export interface Taxonomy {
+  categories: TaxonomyEntry[];
+  industries: TaxonomyEntry[];
+  unmapped?: UnmappedTaxonomyValue[];
+}
+
+export type TaxonomyEntryInput = Partial<Pick<TaxonomyEntry,
+  'name' | 'type' | 'parentId' | 'description' | 'icon' | 'synonyms' | 'order' | 'isActive'
+>>;
+
+// A signed-in device
+export interface AuthSession {
+  _id: string;
+  device: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Two-factor state of the current user and session
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  required: boolean;
+  recoveryCodesRemaining: number;
+  verifiedAt: string | null;
+  recentlyVerified: boolean;
+}
+
+// New two-factor secret to scan or type into an authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Organizations: teams that own proposals, solutions and profiles together
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export type OrganizationType = 'vendor' | 'buyer';
+
+export interface OrganizationMember {
+  // Populated on the organization detail view
+  userId: string | { _id: string; firstName: string; lastName: string; email: string; avatar?: string };
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+  _id: string;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  invitedBy?: string | { _id: string; firstName: string; lastName: string };
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface Organization {
+  _id: string;
+  name: string;
+  type: OrganizationType;
+  companyId?: string | { _id: string; name: string; logo?: string };
+  myRole: OrganizationRole | null;
+  members: OrganizationMember[];
+  // Owners and admins only
+  invitations?: OrganizationInvitation[];
+  sso?: { enabled: boolean; protocol?: SsoProtocol; enforced?: boolean };
+  createdAt: string;
+}
+
+// Organization as listed in the switcher
+export type OrganizationSummary = Omit<Organization, 'members' | 'invitations'> & { memberCount: number };
+
+// Single sign-on through an organization's identity provider
+export type SsoProtocol = 'oidc' | 'saml';
+
+// Organization that signs in an email domain
+export interface SsoDiscovery {
+  organizationId: string;
+  organizationName: string;
+  protocol?: SsoProtocol;
+  enforced?: boolean;
+}
+
+export interface SsoSettings {
+  enabled: boolean;
+  protocol?: SsoProtocol;
+  domains: string[];
+  defaultRole: Exclude<OrganizationRole, 'owner'>;
+  enforced: boolean;
+  oidc: { discoveryUrl?: string; clientId?: string; scopes?: string; hasClientSecret: boolean };
+  saml?: { metadataUrl?: string; entryPoint?: string; idpIssuer?: string; idpCerts?: string[] };
+  // URLs to register at the identity provider
+  serviceProvider: { oidcRedirectUri: string; samlAcsUrl: string; samlEntityId: string; samlMetadataUrl: string };
+}
+
+export interface SsoSettingsUpdate {
+  protocol: SsoProtocol;
+  enabled?: boolean;
+  enforced?: boolean;
+  defaultRole?: SsoSettings['defaultRole'];
+  // Superadmins only
+  domains?: string[];
+  oidc?: { discoveryUrl: string; clientId: string; clientSecret?: string; scopes?: string };
+  saml?: { metadataUrl?: string; metadataXml?: string };
+}
+
+// Bookmark lists: named shortlists of saved solutions, optionally shared with an organization
+export interface BookmarkList {
+  _id: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  userId: { _id: string; firstName: string; lastName: string };
+  organizationId?: { _id: string; name: string } | null;
+  shared: boolean;
+  isOwner: boolean;
+  itemCount: number;
+  // Only with ?solutionId: the saved entry for that solution, if any
+  savedItemId?: string | null;
+  // Detail view only: may rename, share or delete
+  canManage?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BookmarkItem {
+  _id: string;
+  solution: {
+    _id: string;
+    title: string;
+    slug?: string;
+    shortDescription?: string;
+    category?: string;
+    pricing?: { model?: string };
+    deployment?: { type?: string };
+    rating?: { average: number; count: number };
+    companyId?: { _id: string; name: string; logo?: string; isVerified?: boolean } | null;
+    status: string;
+    isActive: boolean;
+  };
+  // Private to whoever saved the solution; empty for other members of a shared list
+  note: string;
+  isMine: boolean;
+  addedBy?: { _id: string; firstName: string; lastName: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BookmarkListInput = Partial<Pick<BookmarkList, 'name' | 'description' | 'shared'>>;
+
+// Transactional mail outbox (dev mailbox)
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxEmail {
+  _id: string;
+  template: string;
+  to: string;
+  subject: string;
+  // Detail view only
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+  userId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  transport?: string;
+  messageId?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
+export interface MailTemplate {
+  name: string;
+  description: string;
+  sample: Record<string, unknown>;
+}
+
+export interface RenderedMail {
+  template: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
 // Auth API functions
 export const authApi = {
   // Register new user
@@ -141,12 +799,30 @@ export const authApi = {
     return response.data;
   },
 
-  // Login user
+  // Login user (returns a challenge token instead when two-factor is on)
   login: async (credentials: { email: string; password: string }) => {
     const response = await api.post<ApiResponse>('/auth/login', credentials);
     return response.data;
   },
 
+  // Finish a two-factor login
+  loginTwoFactor: async (data: { challengeToken: string; code?: string; recoveryCode?: string }) => {
+    const response = await api.post<ApiResponse>('/auth/login/2fa', data);
+    return response.data;
+  },
+
+  // Find the organization that signs in an email's domain with SSO
+  discoverSso: async (email: string) => {
+    const response = await api.get<ApiResponse & { sso: SsoDiscovery | null }>('/auth/sso/discover', { params: { email } });
+    return response.data;
+  },
+
+  // URL that starts an SSO sign-in (navigated to, not fetched)
+  getSsoStartUrl: (organizationId: string, redirect?: string) => {
+    const query = redirect ? `?redirect=${encodeURIComponent(redirect)}` : '';
+    return `${API_BASE_URL}/auth/sso/${organizationId}/start${query}`;
+  },
+
   // Get user profile
   getProfile: async () => {
     const response = await api.get<ApiResponse>('/auth/profile');
@@ -168,11 +844,89 @@ export const authApi = {
     return response.data;
   },
 
-  // Logout
+  // Email a password reset link
+  forgotPassword: async (email: string) => {
+    const response = await api.post<ApiResponse>('/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  // Reset password with the emailed token
+  resetPassword: async (token: string, newPassword: string) => {
+    const response = await api.put<ApiResponse>('/auth/reset-password', { token, newPassword });
+    return response.data;
+  },
+
+  // Verify email address with the emailed token
+  verifyEmail: async (token: string) => {
+    const response = await api.post<ApiResponse>('/auth/verify-email', { token });
+    return response.data;
+  },
+
+  // Send a new verification email to the current user
+  resendVerification: async () => {
+    const response = await api.post<ApiResponse>('/auth/verify-email/resend');
+    return response.data;
+  },
+
+  // Logout (revokes this session)
   logout: async () => {
     const response = await api.post<ApiResponse>('/auth/logout');
     return response.data;
   },
+
+  // Sign out everywhere
+  logoutAll: async () => {
+    const response = await api.post<ApiResponse>('/auth/logout-all');
+    return response.data;
+  },
+
+  // Get active sessions
+  getSessions: async () => {
+    const response = await api.get<ApiResponse & { count: number; sessions: AuthSession[] }>('/auth/sessions');
+    return response.data;
+  },
+
+  // Sign out one session
+  revokeSession: async (id: string) => {
+    const response = await api.delete<ApiResponse>(`/auth/sessions/${id}`);
+    return response.data;
+  },
+
+  // Get two-factor status
+  getTwoFactorStatus: async () => {
+    const response = await api.get<ApiResponse & { twoFactor: TwoFactorStatus }>('/auth/2fa');
+    return response.data;
+  },
+
+  // Start two-factor enrolment
+  setupTwoFactor: async () => {
+    const response = await api.post<ApiResponse & TwoFactorSetup>('/auth/2fa/setup');
+    return response.data;
+  },
+
+  // Confirm enrolment; returns recovery codes
+  enableTwoFactor: async (code: string) => {
+    const response = await api.post<ApiResponse & { recoveryCodes: string[] }>('/auth/2fa/enable', { code });
+    return response.data;
+  },
+
+  // Confirm a code for sensitive admin actions
+  verifyTwoFactor: async (data: { code?: string; recoveryCode?: string }) => {
+    const response = await api.post<ApiResponse>('/auth/2fa/verify', data);
+    return response.data;
+  },
+
+  // Replace recovery codes
+  regenerateRecoveryCodes: async (data: { code?: string; recoveryCode?: string }) => {
+    const response = await api.post<ApiResponse & { recoveryCodes: string[] }>('/auth/2fa/recovery-codes', data);
+    return response.data;
+  },
+
+  // Turn two-factor off
+  disableTwoFactor: async (data: { password: string; code?: string; recoveryCode?: string }) => {
+    const response = await api.post<ApiResponse>('/auth/2fa/disable', data);
+    return response.data;
+  },
 };
 
 // Solutions API functions
@@ -184,6 +938,7 @@ export const solutionsApi = {
     category?: string;
     industry?: string;
     vendorId?: string;
+    organizationId?: string;
     search?: string;
     sort?: string;
     minRating?: number;
@@ -260,6 +1015,241 @@ export const solutionsApi = {
     const response = await api.get<ApiResponse>(`/solutions/${id}/stats`);
     return response.data;
   },
+  // Compare 2 to 4 solutions side by side, in the order given
+  compareSolutions: async (ids: string[]) => {
+    const response = await api.get<{
+      success: boolean;
+      count: number;
+      solutions: ComparedSolution[];
+      missing: string[];
+    }>('/solutions/compare', { params: { ids: ids.join(',') } });
+    return response.data;
+  },
+};
+
+// Reviews API functions
+export const reviewsApi = {
+  // Get approved reviews, rating stats and the current user's own review
+  getSolutionReviews: async (solutionId: string, params: {
+    page?: number;
+    limit?: number;
+    sort?: 'newest' | 'helpful' | 'highest' | 'lowest';
+    verified?: boolean;
+  } = {}) => {
+    const response = await api.get<ApiResponse>(`/reviews/solution/${solutionId}`, { params });
+    return response.data;
+  },
+
+  // Review a solution (goes to moderation)
+  createReview: async (solutionId: string, review: ReviewInput) => {
+    const response = await api.post<ApiResponse>('/reviews', { ...review, solutionId });
+    return response.data;
+  },
+
+  // Update own review (goes back to moderation)
+  updateReview: async (id: string, review: Partial<ReviewInput>) => {
+    const response = await api.put<ApiResponse>(`/reviews/${id}`, review);
+    return response.data;
+  },
+
+  // Delete a review
+  deleteReview: async (id: string) => {
+    const response = await api.delete<ApiResponse>(`/reviews/${id}`);
+    return response.data;
+  },
+
+  // Mark or unmark a review as helpful
+  toggleHelpful: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/reviews/${id}/helpful`);
+    return response.data;
+  },
+
+  // Report a review for moderation
+  reportReview: async (id: string, reason: string) => {
+    const response = await api.post<ApiResponse>(`/reviews/${id}/report`, { reason });
+    return response.data;
+  },
+
+  // Get pending and reported reviews (superadmin)
+  getModerationQueue: async (params: { status?: ReviewStatus; page?: number; limit?: number } = {}) => {
+    const response = await api.get<ApiResponse>('/reviews/admin/queue', { params });
+    return response.data;
+  },
+
+  // Approve or reject a review (superadmin)
+  moderateReview: async (id: string, status: 'approved' | 'rejected', note?: string) => {
+    const response = await api.put<ApiResponse>(`/reviews/${id}/moderate`, { status, note });
+    return response.data;
+  },
+
+  // Override verified-customer status, or go back to the automatic check (superadmin)
+  setVerification: async (id: string, status: 'verified' | 'unverified' | 'automatic', reason?: string) => {
+    const response = await api.put<ApiResponse>(`/reviews/${id}/verification`, { status, reason });
+    return response.data;
+  },
+};
+
+// Blog API functions
+export const blogApi = {
+  // Get published posts
+  getBlogs: async (params: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    category?: string;
+    industry?: string;
+    tag?: string;
+    sort?: 'newest' | 'oldest' | 'popular' | 'trending';
+  } = {}) => {
+    const response = await api.get<ApiResponse>('/blogs', { params });
+    return response.data;
+  },
+
+  // Get a post by slug with related solutions and posts
+  getBlog: async (slug: string) => {
+    const response = await api.get<ApiResponse>(`/blogs/${slug}`);
+    return response.data;
+  },
+
+  // Get posts in every status (superadmin/editor)
+  getManagedBlogs: async (params: { page?: number; limit?: number; status?: BlogStatus; search?: string } = {}) => {
+    const response = await api.get<ApiResponse>('/blogs/manage', { params });
+    return response.data;
+  },
+
+  // Get a post for editing (superadmin/editor)
+  getManagedBlog: async (id: string) => {
+    const response = await api.get<ApiResponse>(`/blogs/manage/${id}`);
+    return response.data;
+  },
+
+  // Search approved solutions to link from a post (superadmin/editor)
+  searchSolutions: async (q: string) => {
+    const response = await api.get<ApiResponse>('/blogs/manage/solutions', { params: { q } });
+    return response.data;
+  },
+
+  // Create a draft post
+  createBlog: async (blog: BlogPostInput) => {
+    const response = await api.post<ApiResponse>('/blogs', blog);
+    return response.data;
+  },
+
+  // Update a post
+  updateBlog: async (id: string, blog: BlogPostInput) => {
+    const response = await api.put<ApiResponse>(`/blogs/${id}`, blog);
+    return response.data;
+  },
+
+  // Delete a post
+  deleteBlog: async (id: string) => {
+    const response = await api.delete<ApiResponse>(`/blogs/${id}`);
+    return response.data;
+  },
+
+  // Publish a post now
+  publishBlog: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/blogs/${id}/publish`);
+    return response.data;
+  },
+
+  // Schedule a post for later
+  scheduleBlog: async (id: string, scheduledAt: string) => {
+    const response = await api.post<ApiResponse>(`/blogs/${id}/schedule`, { scheduledAt });
+    return response.data;
+  },
+
+  // Move a post back to drafts
+  unpublishBlog: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/blogs/${id}/unpublish`);
+    return response.data;
+  },
+};
+
+export const newslettersApi = {
+  // Get newsletters in every status (superadmin)
+  getNewsletters: async (params: { page?: number; limit?: number; status?: NewsletterStatus } = {}) => {
+    const response = await api.get<ApiResponse>('/newsletters', { params });
+    return response.data;
+  },
+
+  // Get a newsletter with its delivery failures
+  getNewsletter: async (id: string) => {
+    const response = await api.get<ApiResponse>(`/newsletters/${id}`);
+    return response.data;
+  },
+
+  // Create a draft newsletter
+  createNewsletter: async (newsletter: NewsletterInput) => {
+    const response = await api.post<ApiResponse>('/newsletters', newsletter);
+    return response.data;
+  },
+
+  // Update an unsent newsletter
+  updateNewsletter: async (id: string, newsletter: NewsletterInput) => {
+    const response = await api.put<ApiResponse>(`/newsletters/${id}`, newsletter);
+    return response.data;
+  },
+
+  // Delete an unsent newsletter
+  deleteNewsletter: async (id: string) => {
+    const response = await api.delete<ApiResponse>(`/newsletters/${id}`);
+    return response.data;
+  },
+
+  // Count subscribers in an audience segment
+  countAudience: async (distribution: NewsletterDistribution) => {
+    const response = await api.post<ApiResponse>('/newsletters/audience', { distribution });
+    return response.data;
+  },
+
+  // Search solutions and blog posts to feature
+  searchContent: async (q: string) => {
+    const response = await api.get<ApiResponse>('/newsletters/content', { params: { q } });
+    return response.data;
+  },
+
+  // Render the email HTML
+  getPreview: async (id: string) => {
+    const response = await api.get<ApiResponse>(`/newsletters/${id}/preview`);
+    return response.data;
+  },
+
+  // Send a test copy to the current user
+  sendTest: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/newsletters/${id}/test`);
+    return response.data;
+  },
+
+  // Schedule the send
+  scheduleNewsletter: async (id: string, scheduledAt: string) => {
+    const response = await api.post<ApiResponse>(`/newsletters/${id}/schedule`, { scheduledAt });
+    return response.data;
+  },
+
+  // Cancel a scheduled send
+  unscheduleNewsletter: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/newsletters/${id}/unschedule`);
+    return response.data;
+  },
+
+  // Send now
+  sendNewsletter: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/newsletters/${id}/send`);
+    return response.data;
+  },
+
+  // Unsubscribe with the token from a newsletter link (public)
+  unsubscribe: async (token: string) => {
+    const response = await api.post<ApiResponse>(`/newsletters/unsubscribe/${token}`);
+    return response.data;
+  },
+
+  // Subscribe again with the same token (public)
+  resubscribe: async (token: string) => {
+    const response = await api.post<ApiResponse>(`/newsletters/resubscribe/${token}`);
+    return response.data;
+  },
 };
 
 // Companies API functions
@@ -396,6 +1386,304 @@ export const vendorApi = {
     const response = await api.post<ApiResponse>('/vendor', data);
     return response.data;
   },
+
+  // Search the public vendor directory; list filters are sent as repeated params
+  getDirectory: async (params: {
+    page?: number;
+    limit?: number;
+    sort?: VendorDirectorySort;
+    search?: string;
+    companyType?: string[];
+    companySize?: string[];
+    deployment?: string[];
+    compliance?: string[];
+    pricingRange?: string[];
+    category?: string[];
+    verified?: boolean;
+  } = {}) => {
+    const response = await api.get<ApiResponse>('/vendor/directory', { params });
+    return response.data;
+  },
+
+  // Get vendor directory filter options
+  getDirectoryFilters: async () => {
+    const response = await api.get<ApiResponse>('/vendor/directory/filters');
+    return response.data;
+  },
+
+  // Get a vendor's public profile with approved solutions
+  getVendorProfile: async (id: string) => {
+    const response = await api.get<ApiResponse>(`/vendor/directory/${id}`);
+    return response.data;
+  },
+};
+
+export const inquiriesApi = {
+  // Send the vendor an inquiry about a solution
+  sendInquiry: async (solutionId: string, inquiry: InquiryInput) => {
+    const response = await api.post<ApiResponse>(`/solutions/${solutionId}/contact`, inquiry);
+    return response.data;
+  },
+
+  // Get inquiries the current user has sent, with vendor replies
+  getMyInquiries: async (params: { page?: number; limit?: number; solutionId?: string } = {}) => {
+    const response = await api.get<ApiResponse>('/inquiries/mine', { params });
+    return response.data;
+  },
+
+  // Get the vendor inbox with per-status counts
+  getInquiries: async (params: {
+    page?: number;
+    limit?: number;
+    status?: InquiryStatus;
+    solutionId?: string;
+    search?: string;
+  } = {}) => {
+    const response = await api.get<ApiResponse>('/inquiries', { params });
+    return response.data;
+  },
+
+  // Get an inquiry with notes and replies
+  getInquiry: async (id: string) => {
+    const response = await api.get<ApiResponse>(`/inquiries/${id}`);
+    return response.data;
+  },
+
+  // Move an inquiry through the pipeline
+  updateStatus: async (id: string, status: InquiryStatus) => {
+    const response = await api.put<ApiResponse>(`/inquiries/${id}/status`, { status });
+    return response.data;
+  },
+
+  // Add a private note
+  addNote: async (id: string, content: string) => {
+    const response = await api.post<ApiResponse>(`/inquiries/${id}/notes`, { content });
+    return response.data;
+  },
+
+  // Reply to the buyer by email
+  reply: async (id: string, message: string) => {
+    const response = await api.post<ApiResponse>(`/inquiries/${id}/replies`, { message });
+    return response.data;
+  },
+};
+
+export const mailApi = {
+  // Get outbox emails with per-status counts and the active transport
+  getOutbox: async (params: {
+    page?: number;
+    limit?: number;
+    status?: OutboxStatus;
+    template?: string;
+    search?: string;
+  } = {}) => {
+    const response = await api.get<ApiResponse>('/mail/outbox', { params });
+    return response.data;
+  },
+
+  // Get one outbox email with its HTML and text
+  getOutboxEmail: async (id: string) => {
+    const response = await api.get<ApiResponse>(`/mail/outbox/${id}`);
+    return response.data;
+  },
+
+  // Queue a failed email again
+  retry: async (id: string) => {
+    const response = await api.post<ApiResponse>(`/mail/outbox/${id}/retry`);
+    return response.data;
+  },
+
+  // List transactional templates
+  getTemplates: async () => {
+    const response = await api.get<ApiResponse>('/mail/templates');
+    return response.data;
+  },
+
+  // Render a template with its sample data
+  previewTemplate: async (name: string) => {
+    const response = await api.get<ApiResponse>(`/mail/templates/${name}/preview`);
+    return response.data;
+  },
+
+  // Queue a test email (to the current user unless an address is given)
+  sendTest: async (template: string, to?: string) => {
+    const response = await api.post<ApiResponse>('/mail/test', { template, to: to || undefined });
+    return response.data;
+  },
+};
+
+export const organizationsApi = {
+  // Get my organizations and the active one
+  getOrganizations: async () => {
+    const response = await api.get<ApiResponse & {
+      count: number;
+      activeOrganizationId: string | null;
+      organizations: OrganizationSummary[];
+    }>('/organizations');
+    return response.data;
+  },
+
+  // Create an organization (I become its owner and it becomes active)
+  createOrganization: async (data: { name: string; type?: OrganizationType }) => {
+    const response = await api.post<ApiResponse & { organization: Organization }>('/organizations', data);
+    return response.data;
+  },
+
+  // Get an organization with members and pending invitations
+  getOrganization: async (id: string) => {
+    const response = await api.get<ApiResponse & { organization: Organization }>(`/organizations/${id}`);
+    return response.data;
+  },
+
+  // Rename an organization
+  updateOrganization: async (id: string, data: { name: string }) => {
+    const response = await api.put<ApiResponse & { organization: Organization }>(`/organizations/${id}`, data);
+    return response.data;
+  },
+
+  // Make an organization the active one
+  switchOrganization: async (id: string) => {
+    const response = await api.post<ApiResponse & { activeOrganizationId: string }>(`/organizations/${id}/switch`);
+    return response.data;
+  },
+
+  // Invite someone by email
+  inviteMember: async (id: string, data: { email: string; role: OrganizationInvitation['role'] }) => {
+    const response = await api.post<ApiResponse & { invitation: OrganizationInvitation }>(`/organizations/${id}/invitations`, data);
+    return response.data;
+  },
+
+  // Cancel a pending invitation
+  revokeInvitation: async (id: string, invitationId: string) => {
+    const response = await api.delete<ApiResponse>(`/organizations/${id}/invitations/${invitationId}`);
+    return response.data;
+  },
+
+  // Accept an invitation sent to my email
+  acceptInvitation: async (token: string) => {
+    const response = await api.post<ApiResponse & { organization: Organization }>('/organizations/invitations/accept', { token });
+    return response.data;
+  },
+
+  // Change a member's role
+  updateMemberRole: async (id: string, userId: string, role: OrganizationRole) => {
+    const response = await api.put<ApiResponse>(`/organizations/${id}/members/${userId}`, { role });
+    return response.data;
+  },
+
+  // Remove a member (or leave, with my own ID)
+  removeMember: async (id: string, userId: string) => {
+    const response = await api.delete<ApiResponse>(`/organizations/${id}/members/${userId}`);
+    return response.data;
+  },
+
+  // Get single sign-on settings (owners and admins)
+  getSsoSettings: async (id: string) => {
+    const response = await api.get<ApiResponse & { sso: SsoSettings }>(`/organizations/${id}/sso`);
+    return response.data;
+  },
+
+  // Configure OIDC or SAML single sign-on
+  updateSsoSettings: async (id: string, data: SsoSettingsUpdate) => {
+    const response = await api.put<ApiResponse & { sso: SsoSettings }>(`/organizations/${id}/sso`, data);
+    return response.data;
+  },
+
+  // Turn single sign-on off
+  deleteSsoSettings: async (id: string) => {
+    const response = await api.delete<ApiResponse & { sso: SsoSettings }>(`/organizations/${id}/sso`);
+    return response.data;
+  },
+};
+
+export const bookmarksApi = {
+  // Get my lists and lists shared with my organizations (solutionId marks where it is saved)
+  getLists: async (solutionId?: string) => {
+    const response = await api.get<ApiResponse & { count: number; lists: BookmarkList[] }>('/bookmarks/lists', {
+      params: solutionId ? { solutionId } : undefined
+    });
+    return response.data;
+  },
+
+  // Create a list
+  createList: async (data: BookmarkListInput) => {
+    const response = await api.post<ApiResponse & { list: BookmarkList }>('/bookmarks/lists', data);
+    return response.data;
+  },
+
+  // Get a list with its saved solutions and notes
+  getList: async (id: string) => {
+    const response = await api.get<ApiResponse & { list: BookmarkList; items: BookmarkItem[] }>(`/bookmarks/lists/${id}`);
+    return response.data;
+  },
+
+  // Rename, describe or share a list
+  updateList: async (id: string, data: BookmarkListInput) => {
+    const response = await api.put<ApiResponse & { list: BookmarkList }>(`/bookmarks/lists/${id}`, data);
+    return response.data;
+  },
+
+  // Delete a list and its saved solutions
+  deleteList: async (id: string) => {
+    const response = await api.delete<ApiResponse>(`/bookmarks/lists/${id}`);
+    return response.data;
+  },
+
+  // Save a solution to a list
+  addItem: async (id: string, solutionId: string, note?: string) => {
+    const response = await api.post<ApiResponse>(`/bookmarks/lists/${id}/items`, { solutionId, note });
+    return response.data;
+  },
+
+  // Update the note on a saved solution
+  updateItemNote: async (id: string, itemId: string, note: string) => {
+    const response = await api.put<ApiResponse>(`/bookmarks/lists/${id}/items/${itemId}`, { note });
+    return response.data;
+  },
+
+  // Remove a solution from a list
+  removeItem: async (id: string, itemId: string) => {
+    const response = await api.delete<ApiResponse>(`/bookmarks/lists/${id}/items/${itemId}`);
+    return response.data;
+  },
+};
+
+export const categoriesApi = {
+  // Get active categories and industries with live solution counts
+  getCategories: async () => {
+    const response = await api.get<ApiResponse & Taxonomy>('/categories');
+    return response.data;
+  },
+
+  // Get every entry with synonyms and unmapped solution values (superadmin)
+  getManagedCategories: async () => {
+    const response = await api.get<ApiResponse & Taxonomy>('/categories/manage');
+    return response.data;
+  },
+
+  // Create a category or industry
+  createCategory: async (entry: TaxonomyEntryInput) => {
+    const response = await api.post<ApiResponse>('/categories', entry);
+    return response.data;
+  },
+
+  // Rename, move or edit an entry; solutions using the old name are re-pointed
+  updateCategory: async (id: string, entry: TaxonomyEntryInput) => {
+    const response = await api.put<ApiResponse>(`/categories/${id}`, entry);
+    return response.data;
+  },
+
+  // Merge an entry into another of the same type
+  mergeCategory: async (id: string, targetId: string) => {
+    const response = await api.post<ApiResponse>(`/categories/${id}/merge`, { targetId });
+    return response.data;
+  },
+
+  // Delete an unused entry
+  deleteCategory: async (id: string) => {
+    const response = await api.delete<ApiResponse>(`/categories/${id}`);
+    return response.data;
+  },
 };
 
 // User API functions (for solutions-hub-main compatibility)
@@ -478,14 +1766,58 @@ export const proposalsApi = {
     proposalText: string;
     proposedPrice?: string;
     proposedTimeline?: string;
+    caseStudyLink?: string;
+    attachments?: ProposalAttachment[];
   }) => {
     const response = await api.post<ApiResponse>(`/proposals/${proposalId}/responses`, responseData);
     return response.data;
   },
 
-  // Update response status (accept/reject)
-  updateResponseStatus: async (proposalId: string, responseId: string, status: 'accepted' | 'rejected' | 'pending') => {
-    const response = await api.put<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}`, { status });
+  // Update response status (shortlist/accept/reject)
+  updateResponseStatus: async (proposalId: string, responseId: string, status: 'shortlisted' | 'accepted' | 'rejected', note?: string) => {
+    const response = await api.put<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}`, { status, note });
+    return response.data;
+  },
+
+  // Withdraw a vendor response
+  withdrawResponse: async (proposalId: string, responseId: string, reason?: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/withdraw`, { reason });
+    return response.data;
+  },
+
+  // Record that the proposal owner has opened a response
+  markResponseViewed: async (proposalId: string, responseId: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/view`);
+    return response.data;
+  },
+
+  // Hire the vendor behind a response (pending admin verification)
+  markAsHired: async (proposalId: string, responseId: string, note?: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/hire`, { responseId, note });
+    return response.data;
+  },
+
+  // Verify or reject a pending hire (superadmin)
+  verifyHire: async (proposalId: string, approved: boolean, note?: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/hire/verify`, { approved, note });
+    return response.data;
+  },
+
+  // Mark a proposal with a verified hire as fulfilled
+  markAsFulfilled: async (proposalId: string, note?: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/fulfill`, { note });
+    return response.data;
+  },
+
+  // Cancel a proposal
+  cancelProposal: async (proposalId: string, note?: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/cancel`, { note });
+    return response.data;
+  },
+
+  // Get hires awaiting verification (superadmin)
+  getPendingHires: async () => {
+    const response = await api.get<ApiResponse>('/proposals/hires/pending');
     return response.data;
   },
 
@@ -496,15 +1828,81 @@ export const proposalsApi = {
     proposedPrice?: string;
     proposedTimeline?: string;
     caseStudyLink?: string;
-    attachments?: Array<{
-      name: string;
-      type: string;
-      url?: string;
-    }>;
+    attachments?: ProposalAttachment[];
   }) => {
     const response = await api.put<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/update`, responseData);
     return response.data;
   },
+
+  // Get chat messages for a response thread
+  getChatMessages: async (proposalId: string, responseId: string, params: {
+    before?: string;
+    after?: string;
+    limit?: number;
+  } = {}) => {
+    const response = await api.get<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/messages`, { params });
+    return response.data;
+  },
+
+  // Send a chat message to a response thread
+  sendChatMessage: async (proposalId: string, responseId: string, messageData: {
+    message: string;
+    attachments?: ProposalAttachment[];
+  }) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/messages`, messageData);
+    return response.data;
+  },
+
+  // Tell the other party whether the current user is typing
+  sendTypingIndicator: async (proposalId: string, responseId: string, isTyping: boolean) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/messages/typing`, { isTyping });
+    return response.data;
+  },
+
+  // Mark a response thread as read
+  markMessagesRead: async (proposalId: string, responseId: string) => {
+    const response = await api.post<ApiResponse>(`/proposals/${proposalId}/responses/${responseId}/messages/read`);
+    return response.data;
+  },
+
+  // Get unread chat messages across all threads
+  getUnreadMessages: async () => {
+    const response = await api.get<ApiResponse>('/proposals/messages/unread');
+    return response.data;
+  },
+};
+
+// Attachments API functions
+export const attachmentsApi = {
+  // Upload files to a proposal (optionally scoped to a response thread)
+  upload: async (proposalId: string, files: File[], options: {
+    responseId?: string;
+    context?: 'response' | 'chat';
+  } = {}) => {
+    const formData = new FormData();
+    formData.append('proposalId', proposalId);
+    if (options.responseId) formData.append('responseId', options.responseId);
+    if (options.context) formData.append('context', options.context);
+    files.forEach((file) => formData.append('files', file));
+
+    const response = await api.post<ApiResponse>('/attachments', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000, // 1 minute - large documents on slow connections
+    });
+    return response.data;
+  },
+
+  // Get a short-lived signed download URL
+  getDownloadUrl: async (attachmentId: string) => {
+    const response = await api.get<ApiResponse>(`/attachments/${attachmentId}/url`);
+    return response.data;
+  },
+
+  // Delete an uploaded file
+  deleteAttachment: async (attachmentId: string) => {
+    const response = await api.delete<ApiResponse>(`/attachments/${attachmentId}`);
+    return response.data;
+  },
 };
 
 // Data Fields API functions
@@ -531,8 +1929,9 @@ export const dataFieldsApi = {
 // Utility functions
 export const apiUtils = {
   // Set authentication token
+  // Short-lived access token; the httpOnly refresh cookie keeps the session alive
   setAuthToken: (token: string) => {
-    Cookies.set('auth_token', token, { expires: 7, secure: true, sameSite: 'strict' });
+    Cookies.set('auth_token', token, { secure: true, sameSite: 'strict' });
   },
 
   // Remove authentication token
@@ -3,7 +3,7 @@
  * Handles communication with the AI agent backend
  */
 
-import api from './api';
+import api, { API_BASE_URL, getValidAuthToken } from './api';
 
 export interface SolutionCard {
   id: string;
@@ -19,12 +19,28 @@ export interface SolutionCard {
   isPremium?: boolean;
 }
 
+// Write action proposed by the agent; it only runs once the user confirms it
+export interface AgentAction {
+  actionId: string;
+  tool: string;
+  summary: string;
+  status: 'pending' | 'executing' | 'completed' | 'cancelled' | 'failed';
+  result?: {
+    message?: string;
+    link?: string;
+  };
+  error?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp?: string;
   solutionCards?: SolutionCard[];
+  actions?: AgentAction[];
   showWelcomeGrid?: boolean;
+  isStreaming?: boolean;
+  stopped?: boolean;
 }
 
 export interface ChatResponse {
@@ -40,23 +56,94 @@ export interface ChatResponse {
     };
     timestamp: string;
     solutionCards?: SolutionCard[];
+    actions?: AgentAction[];
   };
   error?: string;
 }
 
+export interface ChatStreamHandlers {
+  onStart?: (sessionId: string) => void;
+  onToken?: (content: string) => void;
+}
+
+export interface ChatStreamResult {
+  response: string;
+  sessionId: string;
+  stopped: boolean;
+  context?: {
+    solutionsFound: number;
+    companiesFound: number;
+    queriesFound: number;
+    blogsFound: number;
+  };
+  solutionCards?: SolutionCard[];
+  actions?: AgentAction[];
+  timestamp: string;
+}
+
+export interface ActionResolution {
+  action: AgentAction;
+  message: ChatMessage;
+}
+
 export interface ConversationHistory {
   success: boolean;
   data?: {
     sessionId: string;
+    title: string | null;
     history: ChatMessage[];
     messageCount: number;
   };
   error?: string;
 }
 
+export interface ChatSessionSummary {
+  sessionId: string;
+  title: string;
+  messageCount: number;
+  lastMessage: string;
+  lastMessageAt: string;
+  createdAt: string;
+}
+
+// Anonymous session IDs are kept in the browser so they can be listed again
+const STORED_SESSIONS_KEY = 'chat_session_ids';
+const MAX_STORED_SESSIONS = 20;
+
 class ChatApi {
   private baseUrl = '/chat';
 
+  /**
+   * Get session IDs started in this browser, newest first
+   */
+  getStoredSessionIds(): string[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORED_SESSIONS_KEY) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Remember a session ID so it shows up in previous conversations
+   */
+  rememberSession(sessionId: string): void {
+    if (typeof window === 'undefined') return;
+    const ids = [sessionId, ...this.getStoredSessionIds().filter((id) => id !== sessionId)];
+    localStorage.setItem(STORED_SESSIONS_KEY, JSON.stringify(ids.slice(0, MAX_STORED_SESSIONS)));
+  }
+
+  /**
+   * Forget a session ID stored in this browser
+   */
+  forgetSession(sessionId: string): void {
+    if (typeof window === 'undefined') return;
+    const ids = this.getStoredSessionIds().filter((id) => id !== sessionId);
+    localStorage.setItem(STORED_SESSIONS_KEY, JSON.stringify(ids));
+  }
+
   /**
    * Send message to AI agent
    */
@@ -74,6 +161,116 @@ class ChatApi {
     }
   }
 
+  /**
+   * Send message to AI agent and stream the reply
+   * Tokens are passed to handlers as they arrive; aborting the signal stops
+   * generation and resolves with the partial reply marked as stopped.
+   */
+  async streamMessage(
+    message: string,
+    sessionId: string | undefined,
+    handlers: ChatStreamHandlers = {},
+    signal?: AbortSignal
+  ): Promise<ChatStreamResult> {
+    // The stream bypasses the axios refresh interceptor, so refresh up front
+    const token = await getValidAuthToken();
+    let partial = '';
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${this.baseUrl}/message/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify({ message: message.trim(), sessionId }),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to send message');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split('\n\n');
+        buffer = frames.pop() || '';
+
+        for (const frame of frames) {
+          let event = 'message';
+          let data = '';
+          frame.split('\n').forEach((line) => {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            if (line.startsWith('data:')) data += line.slice(5).trim();
+          });
+          if (!data) continue;
+
+          const payload = JSON.parse(data);
+          if (event === 'start') {
+            handlers.onStart?.(payload.sessionId);
+          } else if (event === 'token') {
+            partial += payload.content;
+            handlers.onToken?.(payload.content);
+          } else if (event === 'error') {
+            throw new Error(payload.error || 'Failed to get response');
+          } else if (event === 'done') {
+            return payload as ChatStreamResult;
+          }
+        }
+      }
+
+      throw new Error('The response stream ended unexpectedly');
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        return {
+          response: partial,
+          sessionId: sessionId || '',
+          stopped: true,
+          timestamp: new Date().toISOString()
+        };
+      }
+      console.error('Error streaming message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm and run an action the agent proposed
+   */
+  async confirmAction(actionId: string, sessionId: string): Promise<ActionResolution> {
+    try {
+      const response = await api.post(`${this.baseUrl}/actions/${actionId}/confirm`, { sessionId });
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Error confirming action:', error);
+      throw new Error(error.response?.data?.error || 'Failed to confirm action');
+    }
+  }
+
+  /**
+   * Cancel an action the agent proposed
+   */
+  async cancelAction(actionId: string, sessionId: string): Promise<ActionResolution> {
+    try {
+      const response = await api.post(`${this.baseUrl}/actions/${actionId}/cancel`, { sessionId });
+
+      return response.data.data;
+    } catch (error: any) {
+      console.error('Error cancelling action:', error);
+      throw new Error(error.response?.data?.error || 'Failed to cancel action');
+    }
+  }
+
   /**
    * Get conversation history for a session
    */
@@ -102,6 +299,23 @@ class ChatApi {
     }
   }
 
+  /**
+   * List previous conversations (own sessions when signed in, plus sessions started in this browser)
+   */
+  async getSessions(): Promise<ChatSessionSummary[]> {
+    try {
+      const ids = this.getStoredSessionIds();
+      const response = await api.get(`${this.baseUrl}/sessions`, {
+        params: ids.length > 0 ? { ids: ids.join(',') } : undefined
+      });
+
+      return response.data.data?.sessions || [];
+    } catch (error: any) {
+      console.error('Error fetching conversations:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch conversations');
+    }
+  }
+
   /**
    * Get AI agent statistics
    */
@@ -0,0 +1,237 @@
+/**
+ * Realtime Client
+ * Maintains a single Server-Sent Events connection to the backend and fans
+ * events out to subscribers. Falls back to polling when the stream is blocked.
+ */
+
+import { API_BASE_URL, apiUtils, getValidAuthToken, refreshAccessToken } from './api';
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'polling';
+
+export type RealtimeEvent =
+  | 'connected'
+  | 'chat:message'
+  | 'chat:typing'
+  | 'chat:read'
+  | 'notification';
+
+type EventHandler = (data: any) => void;
+type StatusHandler = (status: RealtimeStatus) => void;
+
+interface ConnectOptions {
+  // Get a new access token first (the last one was refused)
+  refresh?: boolean;
+  // Scheduled attempt to leave polling for the stream again
+  retry?: boolean;
+}
+
+// Consecutive failures before giving up on the stream and switching to polling
+const MAX_CONNECT_FAILURES = 3;
+
+// Pause before reopening a dropped stream
+const RECONNECT_DELAY_MS = 3000;
+
+// While polling, try the stream again this often (the server or proxy may be back)
+const STREAM_RETRY_MS = 2 * 60 * 1000;
+
+// Force polling where proxies are known to buffer event streams
+const FORCE_POLLING = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === 'polling';
+
+const EVENTS: RealtimeEvent[] = ['connected', 'chat:message', 'chat:typing', 'chat:read', 'notification'];
+
+// Exchange the access token for a single-use stream ticket (null when refused or offline)
+const requestStreamTicket = async (token: string): Promise<string | null> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/realtime/ticket`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.ticket || null;
+  } catch (error) {
+    return null;
+  }
+};
+
+class RealtimeClient {
+  private source: EventSource | null = null;
+  private handlers = new Map<RealtimeEvent, Set<EventHandler>>();
+  private statusHandlers = new Set<StatusHandler>();
+  private status: RealtimeStatus = 'idle';
+  private failures = 0;
+  private subscribers = 0;
+  private opening = false;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Open the stream when the first subscriber arrives. EventSource cannot send headers, so the
+  // access token buys a single-use ticket for the stream URL; every (re)connect asks for a new one.
+  private async connect(options: ConnectOptions = {}) {
+    if (typeof window === 'undefined' || this.source || this.opening || this.subscribers <= 0) return;
+    if (this.status === 'polling' && !options.retry) return;
+
+    if (!apiUtils.getAuthToken()) return;
+
+    if (FORCE_POLLING || typeof EventSource === 'undefined') {
+      this.setStatus('polling');
+      return;
+    }
+
+    this.clearReconnect();
+    const attempt = ++this.attempt;
+    this.opening = true;
+    if (this.status !== 'polling') {
+      this.setStatus('connecting');
+    }
+
+    const token = await (options.refresh ? refreshAccessToken() : getValidAuthToken());
+    const ticket = token ? await requestStreamTicket(token) : null;
+    this.opening = false;
+
+    // Disconnected (logout, last subscriber gone) while the ticket was on its way
+    if (attempt !== this.attempt || this.subscribers <= 0) return;
+
+    if (!token) {
+      // No usable session right now; polling requests sign the user out if it has ended
+      this.setStatus('polling');
+      this.scheduleConnect(STREAM_RETRY_MS, { retry: true, refresh: true });
+      return;
+    }
+
+    if (!ticket) {
+      // Most likely the access token was refused, so the next try refreshes it first
+      this.handleFailure(true);
+      return;
+    }
+
+    const source = new EventSource(`${API_BASE_URL}/realtime/stream?ticket=${encodeURIComponent(ticket)}`);
+    this.source = source;
+
+    source.onopen = () => {
+      this.failures = 0;
+      this.setStatus('connected');
+    };
+
+    source.onerror = () => {
+      if (this.source !== source) return;
+
+      // EventSource would retry on its own with the same URL, i.e. with a ticket that is already
+      // used up. Reopen it ourselves instead. A stream that fails before it ever opened was most
+      // likely refused, so the next try refreshes the access token first.
+      const refused = this.status !== 'connected';
+      this.closeSource();
+      this.handleFailure(refused);
+    };
+
+    EVENTS.forEach((event) => {
+      source.addEventListener(event, (e) => {
+        let data: any = null;
+        try {
+          data = JSON.parse((e as MessageEvent).data);
+        } catch (error) {
+          console.error('Invalid realtime payload:', error);
+          return;
+        }
+        this.handlers.get(event)?.forEach((handler) => handler(data));
+      });
+    });
+  }
+
+  // Reopen the stream shortly, or fall back to polling after repeated refusals
+  private handleFailure(refused: boolean) {
+    if (refused) {
+      this.failures += 1;
+    }
+
+    if (this.status === 'polling' || this.failures >= MAX_CONNECT_FAILURES) {
+      this.setStatus('polling');
+      this.scheduleConnect(STREAM_RETRY_MS, { retry: true, refresh: true });
+    } else {
+      this.setStatus('connecting');
+      this.scheduleConnect(RECONNECT_DELAY_MS, { refresh: refused });
+    }
+  }
+
+  private scheduleConnect(delayMs: number, options: ConnectOptions) {
+    this.clearReconnect();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect(options);
+    }, delayMs);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private closeSource() {
+    if (this.source) {
+      this.source.close();
+      this.source = null;
+    }
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusHandlers.forEach((handler) => handler(status));
+  }
+
+  private retain() {
+    this.subscribers += 1;
+    this.connect();
+  }
+
+  private release() {
+    this.subscribers -= 1;
+    if (this.subscribers <= 0) {
+      this.subscribers = 0;
+      this.disconnect();
+    }
+  }
+
+  // Subscribe to an event; returns an unsubscribe function
+  on(event: RealtimeEvent, handler: EventHandler) {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    this.retain();
+
+    return () => {
+      this.handlers.get(event)?.delete(handler);
+      this.release();
+    };
+  }
+
+  // Subscribe to connection status changes; returns an unsubscribe function
+  onStatusChange(handler: StatusHandler) {
+    this.statusHandlers.add(handler);
+    handler(this.status);
+    return () => {
+      this.statusHandlers.delete(handler);
+    };
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  // Close the stream and reset so the next subscriber reconnects (e.g. after login)
+  disconnect() {
+    this.clearReconnect();
+    this.attempt += 1;
+    this.opening = false;
+    this.closeSource();
+    this.failures = 0;
+    this.setStatus('idle');
+  }
+}
+
+export const realtime = new RealtimeClient();
+
+export default realtime;
@@ -9,6 +9,7 @@ import { QueryClient, QueryClientProvider } from 'react-query';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { UserProvider } from '@/contexts/UserContext';
+import TwoFactorPrompt from '@/components/auth/TwoFactorPrompt';
 import '@/styles/globals.css';
 
 // Create a client for React Query
@@ -30,6 +31,9 @@ function MyApp({ Component, pageProps }: AppProps) {
         <div className="min-h-screen bg-gray-50">
           <Component {...pageProps} />
           
+          {/* Asks for a code when an admin action needs a recent two-factor check */}
+          <TwoFactorPrompt />
+          
           {/* Global Toast Notifications */}
           <Toaster
             position="top-right"
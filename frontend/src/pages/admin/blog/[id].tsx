@@ -0,0 +1,530 @@
+/**
+ * Admin Blog Editor Page
+ * Markdown editor with live preview, related solutions and scheduled publishing
+ * (`/admin/blog/new` creates a post)
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import Layout from '@/components/Layout/Layout';
+import MarkdownContent from '@/components/blog/MarkdownContent';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowLeftIcon,
+  CalendarDaysIcon,
+  EyeIcon,
+  MagnifyingGlassIcon,
+  RocketLaunchIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { blogApi, BlogPost, BlogPostInput } from '@/lib/api';
+
+type EditorView = 'write' | 'preview' | 'split';
+
+interface LinkedSolution {
+  _id: string;
+  title: string;
+  category?: string;
+}
+
+interface EditorForm {
+  title: string;
+  excerpt: string;
+  content: string;
+  category: string;
+  industry: string;
+  tags: string;
+  imageUrl: string;
+  imageAlt: string;
+  isFeatured: boolean;
+  metaTitle: string;
+  metaDescription: string;
+}
+
+const emptyForm: EditorForm = {
+  title: '',
+  excerpt: '',
+  content: '',
+  category: '',
+  industry: '',
+  tags: '',
+  imageUrl: '',
+  imageAlt: '',
+  isFeatured: false,
+  metaTitle: '',
+  metaDescription: ''
+};
+
+// datetime-local value for an ISO date, in the browser's time zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const AdminBlogEditorPage: React.FC = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const isNew = id === 'new';
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const [post, setPost] = useState<BlogPost | null>(null);
+  const [form, setForm] = useState<EditorForm>(emptyForm);
+  const [linkedSolutions, setLinkedSolutions] = useState<LinkedSolution[]>([]);
+  const [view, setView] = useState<EditorView>('split');
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [solutionSearch, setSolutionSearch] = useState('');
+  const [solutionResults, setSolutionResults] = useState<LinkedSolution[]>([]);
+  const searchTimer = useRef<NodeJS.Timeout | null>(null);
+
+  const canAuthor = user?.role === 'superadmin' || user?.role === 'editor';
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (!canAuthor) {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, canAuthor, authLoading, router]);
+
+  useEffect(() => {
+    if (!router.isReady || !isAuthenticated || !canAuthor) return;
+
+    // Nothing to fetch for a new post, or one we just created here
+    if (isNew || post?._id === id) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchPost = async () => {
+      try {
+        setLoading(true);
+        const response = await blogApi.getManagedBlog(id as string);
+        if (response.success) {
+          loadPost(response.blog);
+        }
+      } catch (err: any) {
+        console.error('Error fetching blog post:', err);
+        router.push('/admin/blog');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPost();
+  }, [router.isReady, id, isAuthenticated, canAuthor]);
+
+  // Search solutions to link, debounced
+  useEffect(() => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    if (!solutionSearch.trim()) {
+      setSolutionResults([]);
+      return;
+    }
+
+    searchTimer.current = setTimeout(async () => {
+      try {
+        const response = await blogApi.searchSolutions(solutionSearch.trim());
+        setSolutionResults(response.solutions || []);
+      } catch (err) {
+        console.error('Error searching solutions:', err);
+      }
+    }, 300);
+  }, [solutionSearch]);
+
+  const loadPost = (blog: BlogPost) => {
+    setPost(blog);
+    setForm({
+      title: blog.title,
+      excerpt: blog.excerpt,
+      content: blog.content || '',
+      category: blog.category,
+      industry: blog.industry,
+      tags: (blog.tags || []).join(', '),
+      imageUrl: blog.featuredImage?.url || '',
+      imageAlt: blog.featuredImage?.alt || '',
+      isFeatured: blog.isFeatured,
+      metaTitle: blog.metaTitle || '',
+      metaDescription: blog.metaDescription || ''
+    });
+    setLinkedSolutions((blog.relatedSolutions || []).filter(Boolean).map(solution => ({
+      _id: solution._id,
+      title: solution.title,
+      category: solution.category
+    })));
+    setScheduleAt(toLocalInput(blog.scheduledAt));
+  };
+
+  const buildPayload = (): BlogPostInput => ({
+    title: form.title,
+    excerpt: form.excerpt,
+    content: form.content,
+    category: form.category,
+    industry: form.industry,
+    tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    featuredImage: { url: form.imageUrl, alt: form.imageAlt },
+    isFeatured: form.isFeatured,
+    metaTitle: form.metaTitle,
+    metaDescription: form.metaDescription,
+    relatedSolutions: linkedSolutions.map(solution => solution._id)
+  });
+
+  // Save the content; returns the post ID so publish/schedule can follow
+  const handleSave = async (notify = true): Promise<string | null> => {
+    try {
+      setSaving(true);
+      const response = post
+        ? await blogApi.updateBlog(post._id, buildPayload())
+        : await blogApi.createBlog(buildPayload());
+
+      if (response.success) {
+        if (!post) {
+          router.replace(`/admin/blog/${response.blog._id}`, undefined, { shallow: true });
+        }
+        setPost({ ...response.blog, relatedSolutions: post?.relatedSolutions });
+        if (notify) toast.success(response.message || 'Post saved');
+        return response.blog._id;
+      }
+    } catch (err: any) {
+      console.error('Error saving blog post:', err);
+      toast.error(err.response?.data?.error || 'Failed to save post');
+    } finally {
+      setSaving(false);
+    }
+    return null;
+  };
+
+  const handleLifecycle = async (action: 'publish' | 'schedule' | 'unpublish') => {
+    // Publishing or scheduling saves pending edits first
+    const postId = action === 'unpublish' ? post?._id : await handleSave(false);
+    if (!postId) return;
+
+    try {
+      setSaving(true);
+      const response = action === 'publish'
+        ? await blogApi.publishBlog(postId)
+        : action === 'schedule'
+          ? await blogApi.scheduleBlog(postId, new Date(scheduleAt).toISOString())
+          : await blogApi.unpublishBlog(postId);
+
+      if (response.success) {
+        toast.success(response.message || 'Post updated');
+        setPost(prev => prev ? { ...prev, ...response.blog, relatedSolutions: prev.relatedSolutions } : response.blog);
+      }
+    } catch (err: any) {
+      console.error(`Error running ${action}:`, err);
+      toast.error(err.response?.data?.error || `Failed to ${action} post`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addSolution = (solution: LinkedSolution) => {
+    if (!linkedSolutions.some(linked => linked._id === solution._id)) {
+      setLinkedSolutions([...linkedSolutions, solution]);
+    }
+    setSolutionSearch('');
+    setSolutionResults([]);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const requiredFilled = form.title && form.excerpt && form.content && form.category && form.industry;
+
+  return (
+    <>
+      <Head>
+        <title>{isNew && !post ? 'New Post' : 'Edit Post'} - AstroVault AI</title>
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <div>
+                <Link href="/admin/blog" className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-2">
+                  <ArrowLeftIcon className="w-4 h-4 mr-1" />
+                  All posts
+                </Link>
+                <h1 className="text-3xl font-bold text-white">{post ? 'Edit Post' : 'New Post'}</h1>
+                {post && (
+                  <p className="text-sm text-gray-400 mt-1">
+                    Status: <span className="text-white">{post.status}</span>
+                    {post.status === 'scheduled' && post.scheduledAt && ` for ${new Date(post.scheduledAt).toLocaleString()}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                {post && (
+                  <Link
+                    href={`/blog/${post.slug}`}
+                    target="_blank"
+                    className="flex items-center gap-2 px-4 py-2 text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700"
+                  >
+                    <EyeIcon className="w-4 h-4" />
+                    {post.status === 'published' ? 'View' : 'Preview'}
+                  </Link>
+                )}
+                <button
+                  onClick={() => handleSave()}
+                  disabled={saving || !requiredFilled}
+                  className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : post?.status === 'published' ? 'Update' : 'Save Draft'}
+                </button>
+                {post && post.status !== 'draft' ? (
+                  <button
+                    onClick={() => handleLifecycle('unpublish')}
+                    disabled={saving}
+                    className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors disabled:opacity-50"
+                  >
+                    Move to Drafts
+                  </button>
+                ) : null}
+                {post?.status !== 'published' && (
+                  <button
+                    onClick={() => handleLifecycle('publish')}
+                    disabled={saving || !requiredFilled}
+                    className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <RocketLaunchIcon className="w-4 h-4" />
+                    Publish Now
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              {/* Main Editor */}
+              <div className="lg:col-span-3 space-y-4">
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="Post title"
+                  maxLength={200}
+                  className={`${inputClass} text-2xl font-semibold`}
+                />
+                <textarea
+                  value={form.excerpt}
+                  onChange={(e) => setForm({ ...form, excerpt: e.target.value })}
+                  placeholder="Short excerpt shown on the blog list (max 300 characters)"
+                  maxLength={300}
+                  rows={2}
+                  className={inputClass}
+                />
+
+                {/* View toggle */}
+                <div className="flex items-center justify-between">
+                  <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+                    {(['write', 'split', 'preview'] as EditorView[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setView(option)}
+                        className={`px-3 py-1 text-sm rounded-md capitalize ${
+                          view === option ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-xs text-gray-400">
+                    Markdown · {form.content.split(/\s+/).filter(Boolean).length} words
+                  </span>
+                </div>
+
+                <div className={`grid gap-4 ${view === 'split' ? 'grid-cols-1 xl:grid-cols-2' : 'grid-cols-1'}`}>
+                  {view !== 'preview' && (
+                    <textarea
+                      value={form.content}
+                      onChange={(e) => setForm({ ...form, content: e.target.value })}
+                      placeholder={'# Heading\n\nWrite your post in **Markdown**...'}
+                      className={`${inputClass} font-mono text-sm min-h-[32rem]`}
+                    />
+                  )}
+                  {view !== 'write' && (
+                    <div className="bg-white rounded-lg p-6 min-h-[32rem] overflow-auto">
+                      {form.content ? (
+                        <MarkdownContent content={form.content} />
+                      ) : (
+                        <p className="text-gray-400">Nothing to preview yet</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Settings Sidebar */}
+              <div className="space-y-4">
+                {/* Scheduling */}
+                {post?.status !== 'published' && (
+                  <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+                    <h2 className="text-white font-semibold mb-3 flex items-center gap-2">
+                      <CalendarDaysIcon className="w-5 h-5" />
+                      Schedule
+                    </h2>
+                    <input
+                      type="datetime-local"
+                      value={scheduleAt}
+                      onChange={(e) => setScheduleAt(e.target.value)}
+                      min={toLocalInput(new Date().toISOString())}
+                      className={`${inputClass} mb-3`}
+                    />
+                    <button
+                      onClick={() => handleLifecycle('schedule')}
+                      disabled={saving || !requiredFilled || !scheduleAt}
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {post?.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                    </button>
+                  </div>
+                )}
+
+                {/* Details */}
+                <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-3">
+                  <h2 className="text-white font-semibold">Details</h2>
+                  <input
+                    type="text"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                    placeholder="Category"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={form.industry}
+                    onChange={(e) => setForm({ ...form, industry: e.target.value })}
+                    placeholder="Industry"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={form.tags}
+                    onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                    placeholder="Tags, comma separated"
+                    className={inputClass}
+                  />
+                  <input
+                    type="url"
+                    value={form.imageUrl}
+                    onChange={(e) => setForm({ ...form, imageUrl: e.target.value })}
+                    placeholder="Featured image URL"
+                    className={inputClass}
+                  />
+                  {form.imageUrl && (
+                    <input
+                      type="text"
+                      value={form.imageAlt}
+                      onChange={(e) => setForm({ ...form, imageAlt: e.target.value })}
+                      placeholder="Image alt text"
+                      className={inputClass}
+                    />
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={form.isFeatured}
+                      onChange={(e) => setForm({ ...form, isFeatured: e.target.checked })}
+                      className="rounded border-gray-600 bg-gray-800"
+                    />
+                    Featured post
+                  </label>
+                </div>
+
+                {/* Related Solutions */}
+                <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+                  <h2 className="text-white font-semibold mb-3">Related Solutions</h2>
+                  <div className="space-y-2 mb-3">
+                    {linkedSolutions.map(solution => (
+                      <div key={solution._id} className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-800 rounded-lg">
+                        <span className="text-sm text-white truncate">{solution.title}</span>
+                        <button
+                          onClick={() => setLinkedSolutions(linkedSolutions.filter(linked => linked._id !== solution._id))}
+                          className="text-gray-400 hover:text-red-400"
+                          title="Remove"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  {linkedSolutions.length < 6 && (
+                    <div className="relative">
+                      <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-3 top-3" />
+                      <input
+                        type="text"
+                        value={solutionSearch}
+                        onChange={(e) => setSolutionSearch(e.target.value)}
+                        placeholder="Search solutions to link"
+                        className={`${inputClass} pl-9`}
+                      />
+                      {solutionResults.length > 0 && (
+                        <div className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg shadow-lg max-h-60 overflow-auto">
+                          {solutionResults.map(solution => (
+                            <button
+                              key={solution._id}
+                              onClick={() => addSolution(solution)}
+                              className="block w-full text-left px-3 py-2 hover:bg-gray-700"
+                            >
+                              <p className="text-sm text-white">{solution.title}</p>
+                              {solution.category && <p className="text-xs text-gray-400">{solution.category}</p>}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* SEO */}
+                <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-3">
+                  <h2 className="text-white font-semibold">SEO</h2>
+                  <input
+                    type="text"
+                    value={form.metaTitle}
+                    onChange={(e) => setForm({ ...form, metaTitle: e.target.value })}
+                    placeholder="Meta title (defaults to the post title)"
+                    className={inputClass}
+                  />
+                  <textarea
+                    value={form.metaDescription}
+                    onChange={(e) => setForm({ ...form, metaDescription: e.target.value })}
+                    placeholder="Meta description (defaults to the excerpt)"
+                    rows={3}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminBlogEditorPage;
@@ -0,0 +1,216 @@
+/**
+ * Admin Blog Page
+ * Lists posts in every status for superadmins and editors
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import Layout from '@/components/Layout/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  PlusIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  EyeIcon,
+  DocumentTextIcon
+} from '@heroicons/react/24/outline';
+import { blogApi, BlogPost, BlogStatus } from '@/lib/api';
+
+const STATUS_STYLES: Record<BlogStatus, string> = {
+  draft: 'bg-gray-500/20 text-gray-300',
+  scheduled: 'bg-blue-500/20 text-blue-300',
+  published: 'bg-green-500/20 text-green-300',
+  archived: 'bg-yellow-500/20 text-yellow-300'
+};
+
+const FILTERS: Array<{ id: BlogStatus | ''; label: string }> = [
+  { id: '', label: 'All' },
+  { id: 'draft', label: 'Drafts' },
+  { id: 'scheduled', label: 'Scheduled' },
+  { id: 'published', label: 'Published' }
+];
+
+const AdminBlogPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [posts, setPosts] = useState<BlogPost[]>([]);
+  const [filter, setFilter] = useState<BlogStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canAuthor = user?.role === 'superadmin' || user?.role === 'editor';
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (!canAuthor) {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, canAuthor, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated && canAuthor) {
+      fetchPosts();
+    }
+  }, [isAuthenticated, canAuthor, filter]);
+
+  const fetchPosts = async () => {
+    try {
+      setLoading(true);
+      const response = await blogApi.getManagedBlogs(filter ? { status: filter, limit: 50 } : { limit: 50 });
+      setPosts(response.blogs || []);
+    } catch (err: any) {
+      console.error('Error fetching blog posts:', err);
+      setError(err.response?.data?.error || 'Failed to fetch blog posts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (post: BlogPost) => {
+    if (!window.confirm(`Delete "${post.title}"? This cannot be undone.`)) return;
+
+    try {
+      await blogApi.deleteBlog(post._id);
+      toast.success('Post deleted');
+      setPosts(prev => prev.filter(p => p._id !== post._id));
+    } catch (err: any) {
+      console.error('Error deleting blog post:', err);
+      toast.error(err.response?.data?.error || 'Failed to delete post');
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Blog Posts - AstroVault AI</title>
+        <meta name="description" content="Write and schedule blog posts" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="flex items-start justify-between mb-8">
+              <div>
+                <h1 className="text-3xl font-bold text-white mb-2">Blog Posts</h1>
+                <p className="text-gray-300">
+                  {user?.role === 'superadmin' ? 'Every post on the blog' : 'Your posts'}
+                </p>
+              </div>
+              <Link
+                href="/admin/blog/new"
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <PlusIcon className="w-4 h-4" />
+                New Post
+              </Link>
+            </div>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+                <p className="text-red-300">{error}</p>
+              </div>
+            )}
+
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {FILTERS.map(option => (
+                <button
+                  key={option.id || 'all'}
+                  onClick={() => setFilter(option.id)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    filter === option.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-900 text-gray-300 border border-gray-700 hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {posts.length === 0 ? (
+              <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                <DocumentTextIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                <p className="text-gray-300">No posts yet</p>
+              </div>
+            ) : (
+              <div className="bg-gray-900 rounded-lg border border-gray-700 divide-y divide-gray-700">
+                {posts.map(post => (
+                  <div key={post._id} className="flex items-center justify-between gap-4 p-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[post.status]}`}>
+                          {post.status}
+                        </span>
+                        {post.isFeatured && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-500/20 text-purple-300">
+                            featured
+                          </span>
+                        )}
+                      </div>
+                      <h2 className="text-white font-semibold truncate">{post.title}</h2>
+                      <p className="text-sm text-gray-400">
+                        {post.authorName} ·{' '}
+                        {post.status === 'scheduled' && post.scheduledAt
+                          ? `Goes live ${new Date(post.scheduledAt).toLocaleString()}`
+                          : post.status === 'published' && post.publishedAt
+                            ? `Published ${new Date(post.publishedAt).toLocaleDateString()} · ${post.views} views`
+                            : `Edited ${new Date(post.updatedAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Link
+                        href={`/blog/${post.slug}`}
+                        className="p-2 text-gray-400 hover:text-white"
+                        title={post.status === 'published' ? 'View' : 'Preview'}
+                      >
+                        <EyeIcon className="w-5 h-5" />
+                      </Link>
+                      <Link
+                        href={`/admin/blog/${post._id}`}
+                        className="p-2 text-gray-400 hover:text-white"
+                        title="Edit"
+                      >
+                        <PencilSquareIcon className="w-5 h-5" />
+                      </Link>
+                      <button
+                        onClick={() => handleDelete(post)}
+                        className="p-2 text-gray-400 hover:text-red-400"
+                        title="Delete"
+                      >
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminBlogPage;
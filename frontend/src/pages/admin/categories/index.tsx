@@ -0,0 +1,507 @@
+/**
+ * Admin Categories Page
+ * Superadmin management of the category/industry taxonomy: create, rename, move, merge,
+ * and map solution values that match no entry
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Layout from '@/components/Layout/Layout';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ArrowsRightLeftIcon,
+  ExclamationTriangleIcon,
+  TagIcon
+} from '@heroicons/react/24/outline';
+import { TaxonomyEntry, TaxonomyEntryInput, TaxonomyType, UnmappedTaxonomyValue } from '@/lib/api';
+import { useManagedTaxonomy, useTaxonomyMutations, flattenTaxonomy } from '@/hooks/useCategories';
+
+const TABS: Array<{ id: TaxonomyType; label: string }> = [
+  { id: 'category', label: 'Categories' },
+  { id: 'industry', label: 'Industries' }
+];
+
+interface EntryForm {
+  name: string;
+  parentId: string;
+  icon: string;
+  description: string;
+  synonyms: string;
+  order: number;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: EntryForm = {
+  name: '',
+  parentId: '',
+  icon: '',
+  description: '',
+  synonyms: '',
+  order: 0,
+  isActive: true
+};
+
+const inputClass = 'w-full border border-gray-600 rounded-lg px-3 py-2 bg-gray-800 text-white text-sm focus:ring-blue-500 focus:border-blue-500';
+
+const AdminCategoriesPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const isSuperadmin = isAuthenticated && user?.role === 'superadmin';
+
+  const [tab, setTab] = useState<TaxonomyType>('category');
+  // null = closed, '' = creating, otherwise the ID of the entry being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [mappingTargets, setMappingTargets] = useState<Record<string, string>>({});
+
+  const { data, isLoading, error } = useManagedTaxonomy();
+  const { create, update, merge, remove } = useTaxonomyMutations();
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (user?.role !== 'superadmin') {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, user, authLoading, router]);
+
+  const entries: TaxonomyEntry[] = (tab === 'category' ? data?.categories : data?.industries) || [];
+  const flatEntries = flattenTaxonomy(entries).map(({ entry, depth }) => ({ entry, depth }));
+  const unmapped = (data?.unmapped || []).filter((item: UnmappedTaxonomyValue) =>
+    tab === 'industry' ? item.field === 'industry' : item.field !== 'industry'
+  );
+  const saving = create.isLoading || update.isLoading || merge.isLoading || remove.isLoading;
+
+  const closePanels = () => {
+    setEditingId(null);
+    setMergingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const openCreate = (parentId = '') => {
+    setMergingId(null);
+    setEditingId('');
+    setForm({ ...EMPTY_FORM, parentId });
+  };
+
+  const openEdit = (entry: TaxonomyEntry) => {
+    setMergingId(null);
+    setEditingId(entry._id);
+    setForm({
+      name: entry.name,
+      parentId: entry.parentId || '',
+      icon: entry.icon || '',
+      description: entry.description || '',
+      synonyms: (entry.synonyms || []).join(', '),
+      order: entry.order || 0,
+      isActive: entry.isActive !== false
+    });
+  };
+
+  const openMerge = (entry: TaxonomyEntry) => {
+    setEditingId(null);
+    setMergingId(entry._id);
+    setMergeTargetId('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry: TaxonomyEntryInput = {
+      name: form.name.trim(),
+      parentId: form.parentId || null,
+      icon: form.icon.trim(),
+      description: form.description.trim(),
+      synonyms: form.synonyms.split(',').map(synonym => synonym.trim().toLowerCase()).filter(Boolean),
+      order: Number(form.order) || 0,
+      isActive: form.isActive
+    };
+
+    try {
+      if (editingId) {
+        await update.mutateAsync({ id: editingId, entry });
+      } else {
+        await create.mutateAsync({ ...entry, type: tab });
+      }
+      closePanels();
+    } catch (err) {
+      // Errors are shown by the API client
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergingId || !mergeTargetId) return;
+    try {
+      await merge.mutateAsync({ id: mergingId, targetId: mergeTargetId });
+      closePanels();
+    } catch (err) {
+      // Errors are shown by the API client
+    }
+  };
+
+  const handleDelete = async (entry: TaxonomyEntry) => {
+    if (!confirm(`Delete "${entry.name}"?`)) return;
+    try {
+      await remove.mutateAsync(entry._id);
+    } catch (err) {
+      // Errors are shown by the API client
+    }
+  };
+
+  // Map an unmapped value onto an entry as a synonym, or create a new entry from it
+  const handleMapValue = async (item: UnmappedTaxonomyValue) => {
+    const key = `${item.field}:${item.value}`;
+    const targetId = mappingTargets[key];
+    if (!targetId) return;
+
+    try {
+      if (targetId === 'new') {
+        await create.mutateAsync({ name: item.value, type: tab });
+      } else {
+        const target = flatEntries.find(({ entry }) => entry._id === targetId)?.entry;
+        if (!target) return;
+        await update.mutateAsync({
+          id: target._id,
+          entry: { synonyms: [...(target.synonyms || []), item.value.toLowerCase()] }
+        });
+      }
+      setMappingTargets(({ [key]: _, ...rest }) => rest);
+    } catch (err) {
+      // Errors are shown by the API client
+    }
+  };
+
+  if (authLoading || (isSuperadmin && isLoading)) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const renderForm = () => {
+    const parentOptions = entries.filter(entry => entry._id !== editingId);
+    return (
+      <form onSubmit={handleSave} className="bg-gray-900 rounded-lg p-6 border border-blue-500/50 mb-6 space-y-4">
+        <h2 className="text-lg font-semibold text-white">
+          {editingId ? 'Edit entry' : `New ${tab}`}
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Icon (emoji)</label>
+            <input
+              value={form.icon}
+              onChange={(e) => setForm({ ...form, icon: e.target.value })}
+              className={inputClass}
+              maxLength={16}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-300 mb-1">Parent</label>
+            <select
+              value={form.parentId}
+              onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">None (top level)</option>
+              {parentOptions.map(entry => (
+                <option key={entry._id} value={entry._id}>{entry.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Order</label>
+            <input
+              type="number"
+              value={form.order}
+              onChange={(e) => setForm({ ...form, order: parseInt(e.target.value, 10) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Description</label>
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClass}
+            rows={2}
+            maxLength={500}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Synonyms</label>
+          <input
+            value={form.synonyms}
+            onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+            className={inputClass}
+            placeholder="Comma-separated, e.g. nlp, text analytics"
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Solutions using a synonym are re-pointed to this entry. Renaming keeps the old name as a synonym.
+          </p>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={form.isActive}
+            onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+            className="rounded border-gray-600 bg-gray-800 text-blue-600"
+          />
+          <span>Shown on the categories page and in filters</span>
+        </label>
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={closePanels}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-800 text-gray-300 border border-gray-700 hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Categories - AstroVault AI</title>
+        <meta name="description" content="Manage solution categories and industries" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="mb-8 flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-white mb-2">Categories & Industries</h1>
+                <p className="text-gray-300">Rename, move and merge entries; solutions are re-pointed automatically</p>
+                {!!error && (
+                  <div className="mt-4 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+                    <p className="text-red-300">Failed to load the taxonomy</p>
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => openCreate()}
+                className="inline-flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <PlusIcon className="h-4 w-4" />
+                <span>New {tab}</span>
+              </button>
+            </div>
+
+            {/* Tabs */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {TABS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => {
+                    setTab(option.id);
+                    closePanels();
+                  }}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    tab === option.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-900 text-gray-300 border border-gray-700 hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {editingId !== null && renderForm()}
+
+            {/* Unmapped solution values */}
+            {unmapped.length > 0 && (
+              <div className="bg-yellow-900/20 rounded-lg p-6 border border-yellow-500/30 mb-6">
+                <div className="flex items-center space-x-2 mb-3">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400" />
+                  <h2 className="text-lg font-semibold text-white">Values that match no {tab}</h2>
+                </div>
+                <div className="space-y-2">
+                  {unmapped.map((item: UnmappedTaxonomyValue) => {
+                    const key = `${item.field}:${item.value}`;
+                    return (
+                      <div key={key} className="flex flex-wrap items-center gap-3">
+                        <span className="text-white font-medium">{item.value}</span>
+                        <span className="text-xs text-gray-400">
+                          {item.field} · {item.solutionCount} {item.solutionCount === 1 ? 'solution' : 'solutions'}
+                        </span>
+                        <select
+                          value={mappingTargets[key] || ''}
+                          onChange={(e) => setMappingTargets(prev => ({ ...prev, [key]: e.target.value }))}
+                          className="ml-auto border border-gray-600 rounded-lg px-3 py-1 bg-gray-800 text-white text-sm"
+                        >
+                          <option value="">Map to...</option>
+                          <option value="new">Create as new {tab}</option>
+                          {flatEntries.map(({ entry, depth }) => (
+                            <option key={entry._id} value={entry._id}>
+                              {depth ? '\u00A0\u00A0\u00A0\u00A0' : ''}{entry.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleMapValue(item)}
+                          disabled={!mappingTargets[key] || saving}
+                          className="px-3 py-1 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Apply
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Entries */}
+            {flatEntries.length === 0 ? (
+              <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                <TagIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                <p className="text-gray-300">No {tab === 'category' ? 'categories' : 'industries'} yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {flatEntries.map(({ entry, depth }) => (
+                  <motion.div
+                    key={entry._id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className={`bg-gray-900 rounded-lg p-4 border border-gray-700 ${depth ? 'ml-8' : ''}`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center flex-wrap gap-2">
+                          {entry.icon && <span className="text-xl">{entry.icon}</span>}
+                          <h3 className="text-white font-semibold">{entry.name}</h3>
+                          <span className="text-xs text-gray-500">/{entry.slug}</span>
+                          {entry.isActive === false && (
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-gray-700 text-gray-300">Hidden</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-400 mt-1">
+                          {entry.solutionCount} solutions · {entry.companyCount} companies
+                          {entry.averageRating ? ` · ${entry.averageRating.toFixed(1)} avg rating` : ''}
+                        </p>
+                        {entry.synonyms && entry.synonyms.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {entry.synonyms.map(synonym => (
+                              <span key={synonym} className="px-2 py-0.5 rounded-full text-xs bg-gray-800 text-gray-300 border border-gray-700">
+                                {synonym}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        {!depth && (
+                          <button
+                            onClick={() => openCreate(entry._id)}
+                            title="Add child"
+                            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg"
+                          >
+                            <PlusIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => openEdit(entry)}
+                          title="Edit"
+                          className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openMerge(entry)}
+                          title="Merge into another entry"
+                          className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg"
+                        >
+                          <ArrowsRightLeftIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry)}
+                          title="Delete"
+                          className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-800 rounded-lg"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {mergingId === entry._id && (
+                      <div className="mt-4 pt-4 border-t border-gray-700 flex flex-wrap items-center gap-3">
+                        <span className="text-sm text-gray-300">Merge "{entry.name}" into</span>
+                        <select
+                          value={mergeTargetId}
+                          onChange={(e) => setMergeTargetId(e.target.value)}
+                          className="border border-gray-600 rounded-lg px-3 py-1 bg-gray-800 text-white text-sm"
+                        >
+                          <option value="">Choose an entry...</option>
+                          {flatEntries
+                            .filter(option => option.entry._id !== entry._id)
+                            .map(option => (
+                              <option key={option.entry._id} value={option.entry._id}>
+                                {option.depth ? '\u00A0\u00A0\u00A0\u00A0' : ''}{option.entry.name}
+                              </option>
+                            ))}
+                        </select>
+                        <button
+                          onClick={handleMerge}
+                          disabled={!mergeTargetId || saving}
+                          className="px-3 py-1 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {saving ? 'Merging...' : 'Merge'}
+                        </button>
+                        <button
+                          onClick={closePanels}
+                          className="px-3 py-1 rounded-lg text-sm text-gray-300 hover:text-white"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminCategoriesPage;
@@ -0,0 +1,218 @@
+/**
+ * Admin Hire Verification Page
+ * Superadmin queue for confirming customer-vendor hires before fulfilment
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Layout from '@/components/Layout/Layout';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  CheckIcon,
+  XMarkIcon,
+  ClockIcon,
+  BuildingOfficeIcon,
+  UserIcon
+} from '@heroicons/react/24/outline';
+import { proposalsApi, ProposalHire } from '@/lib/api';
+
+interface PendingHire {
+  proposalId: string;
+  proposalTitle: string;
+  customer: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  hire: ProposalHire;
+  response: {
+    _id: string;
+    vendorName: string;
+    vendorCompany?: string;
+    proposedPrice?: string;
+    proposedTimeline?: string;
+  } | null;
+}
+
+const AdminHiresPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [hires, setHires] = useState<PendingHire[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (user?.role !== 'superadmin') {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, user, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'superadmin') {
+      fetchPendingHires();
+    }
+  }, [isAuthenticated, user]);
+
+  const fetchPendingHires = async () => {
+    try {
+      setLoading(true);
+      const response = await proposalsApi.getPendingHires();
+      setHires(response.hires || []);
+    } catch (err: any) {
+      console.error('Error fetching pending hires:', err);
+      setError(err.response?.data?.error || 'Failed to fetch pending hires');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (proposalId: string, approved: boolean) => {
+    try {
+      setProcessingId(proposalId);
+      await proposalsApi.verifyHire(proposalId, approved, notes[proposalId]);
+      toast.success(approved ? 'Hire verified' : 'Hire rejected');
+      setHires(prev => prev.filter(h => h.proposalId !== proposalId));
+    } catch (err: any) {
+      console.error('Error verifying hire:', err);
+      toast.error(err.response?.data?.error || 'Failed to update hire');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Hire Verification - AstroVault AI</title>
+        <meta name="description" content="Verify hires between customers and vendors" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-white mb-2">Hire Verification</h1>
+              <p className="text-gray-300">Confirm hires before customers can mark their proposals as fulfilled</p>
+              {error && (
+                <div className="mt-4 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+                  <p className="text-red-300">{error}</p>
+                </div>
+              )}
+            </div>
+
+            {hires.length === 0 ? (
+              <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                <ClockIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                <p className="text-gray-300">No hires are awaiting verification</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {hires.map((item) => (
+                  <motion.div
+                    key={item.proposalId}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-gray-900 rounded-lg p-6 border border-gray-700"
+                  >
+                    <div className="flex items-start justify-between gap-4 mb-4">
+                      <div>
+                        <h2 className="text-lg font-semibold text-white">{item.proposalTitle}</h2>
+                        {item.hire.hiredAt && (
+                          <p className="text-sm text-gray-400">
+                            Hired {new Date(item.hire.hiredAt).toLocaleString()}
+                          </p>
+                        )}
+                      </div>
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-500/20 text-yellow-300">
+                        Pending verification
+                      </span>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-sm">
+                      <div className="flex items-start gap-2 text-gray-300">
+                        <UserIcon className="w-4 h-4 mt-0.5 text-gray-400" />
+                        <div>
+                          <p className="font-medium text-white">
+                            {item.customer ? `${item.customer.firstName} ${item.customer.lastName}` : 'Unknown customer'}
+                          </p>
+                          <p className="text-gray-400">{item.customer?.email}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-start gap-2 text-gray-300">
+                        <BuildingOfficeIcon className="w-4 h-4 mt-0.5 text-gray-400" />
+                        <div>
+                          <p className="font-medium text-white">
+                            {item.response?.vendorCompany || item.response?.vendorName || 'Unknown vendor'}
+                          </p>
+                          {(item.response?.proposedPrice || item.response?.proposedTimeline) && (
+                            <p className="text-gray-400">
+                              {[item.response?.proposedPrice, item.response?.proposedTimeline].filter(Boolean).join(' • ')}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <textarea
+                      value={notes[item.proposalId] || ''}
+                      onChange={(e) => setNotes({ ...notes, [item.proposalId]: e.target.value })}
+                      placeholder="Verification notes (optional)"
+                      rows={2}
+                      className="w-full px-3 py-2 mb-4 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => handleVerify(item.proposalId, false)}
+                        disabled={processingId === item.proposalId}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                      >
+                        <XMarkIcon className="w-4 h-4" />
+                        Reject
+                      </button>
+                      <button
+                        onClick={() => handleVerify(item.proposalId, true)}
+                        disabled={processingId === item.proposalId}
+                        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        <CheckIcon className="w-4 h-4" />
+                        Verify Hire
+                      </button>
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminHiresPage;
@@ -0,0 +1,457 @@
+/**
+ * Admin Dev Mailbox Page
+ * Superadmin view of the transactional email outbox: delivery status, rendered messages,
+ * retries, and template previews with test sends
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Layout from '@/components/Layout/Layout';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  EnvelopeIcon,
+  ArrowPathIcon,
+  PaperAirplaneIcon,
+  MagnifyingGlassIcon,
+  DocumentTextIcon
+} from '@heroicons/react/24/outline';
+import { mailApi, OutboxEmail, OutboxStatus, MailTemplate, RenderedMail } from '@/lib/api';
+
+const FILTERS: Array<{ id: OutboxStatus | ''; label: string }> = [
+  { id: '', label: 'All' },
+  { id: 'queued', label: 'Queued' },
+  { id: 'sending', label: 'Sending' },
+  { id: 'sent', label: 'Sent' },
+  { id: 'failed', label: 'Failed' }
+];
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  queued: 'bg-yellow-500/20 text-yellow-300',
+  sending: 'bg-blue-500/20 text-blue-300',
+  sent: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300'
+};
+
+const PAGE_SIZE = 20;
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+const AdminMailboxPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [view, setView] = useState<'outbox' | 'templates'>('outbox');
+
+  // Outbox
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<OutboxStatus, number>>>({});
+  const [transport, setTransport] = useState('');
+  const [filter, setFilter] = useState<OutboxStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<OutboxEmail | null>(null);
+  const [retrying, setRetrying] = useState(false);
+
+  // Templates
+  const [templates, setTemplates] = useState<MailTemplate[]>([]);
+  const [activeTemplate, setActiveTemplate] = useState('');
+  const [preview, setPreview] = useState<RenderedMail | null>(null);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [sendingTest, setSendingTest] = useState(false);
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (user?.role !== 'superadmin') {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, user, authLoading, router]);
+
+  const isSuperadmin = isAuthenticated && user?.role === 'superadmin';
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    if (isSuperadmin) {
+      fetchOutbox();
+    }
+  }, [isSuperadmin, filter, debouncedSearch, page]);
+
+  useEffect(() => {
+    if (isSuperadmin && view === 'templates' && templates.length === 0) {
+      fetchTemplates();
+    }
+  }, [isSuperadmin, view]);
+
+  const fetchOutbox = async () => {
+    try {
+      setLoading(true);
+      const response = await mailApi.getOutbox({
+        page,
+        limit: PAGE_SIZE,
+        status: filter || undefined,
+        search: debouncedSearch || undefined
+      });
+      setEmails(response.emails || []);
+      setCounts(response.counts || {});
+      setTransport(response.transport || '');
+      setTotalPages(response.totalPages || 1);
+    } catch (err) {
+      console.error('Error fetching outbox:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await mailApi.getTemplates();
+      const list: MailTemplate[] = response.templates || [];
+      setTemplates(list);
+      if (list.length > 0) {
+        handlePreview(list[0].name);
+      }
+    } catch (err) {
+      console.error('Error fetching mail templates:', err);
+    }
+  };
+
+  const handleSelect = async (emailId: string) => {
+    try {
+      const response = await mailApi.getOutboxEmail(emailId);
+      setSelected(response.email);
+    } catch (err) {
+      console.error('Error fetching email:', err);
+    }
+  };
+
+  const handleRetry = async (emailId: string) => {
+    try {
+      setRetrying(true);
+      const response = await mailApi.retry(emailId);
+      toast.success(response.message || 'Email queued for retry');
+      setSelected(response.email);
+      fetchOutbox();
+    } catch (err) {
+      console.error('Error retrying email:', err);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handlePreview = async (name: string) => {
+    try {
+      setActiveTemplate(name);
+      const response = await mailApi.previewTemplate(name);
+      setPreview({ template: response.template, subject: response.subject, html: response.html, text: response.text });
+    } catch (err) {
+      console.error('Error previewing template:', err);
+    }
+  };
+
+  const handleSendTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeTemplate) return;
+
+    try {
+      setSendingTest(true);
+      const response = await mailApi.sendTest(activeTemplate, testRecipient.trim());
+      toast.success(response.message || 'Test email queued');
+      fetchOutbox();
+    } catch (err) {
+      console.error('Error sending test email:', err);
+    } finally {
+      setSendingTest(false);
+    }
+  };
+
+  if (authLoading || !isSuperadmin) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Dev Mailbox - AstroVault AI</title>
+        <meta name="description" content="Transactional email outbox" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-white mb-2">Dev Mailbox</h1>
+                <p className="text-gray-300">Every transactional email the platform sends, with delivery status and retries</p>
+              </div>
+              <div className="flex items-center gap-3">
+                {transport && (
+                  <span className="px-3 py-1 text-xs font-medium rounded-full bg-gray-900 border border-gray-700 text-gray-300">
+                    Transport: {transport}
+                  </span>
+                )}
+                <div className="flex rounded-lg border border-gray-700 overflow-hidden">
+                  {(['outbox', 'templates'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-4 py-2 text-sm font-medium capitalize transition-colors ${
+                        view === option ? 'bg-blue-600 text-white' : 'bg-gray-900 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {view === 'outbox' ? (
+              <>
+                {/* Filters */}
+                <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6">
+                  <div className="flex flex-wrap gap-2">
+                    {FILTERS.map(option => {
+                      const count = option.id
+                        ? counts[option.id]
+                        : Object.values(counts).reduce((sum, value) => sum + (value || 0), 0);
+                      return (
+                        <button
+                          key={option.id || 'all'}
+                          onClick={() => { setFilter(option.id); setPage(1); }}
+                          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            filter === option.id
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-900 text-gray-300 border border-gray-700 hover:bg-gray-700'
+                          }`}
+                        >
+                          {option.label} ({count || 0})
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <div className="relative md:ml-auto md:w-72">
+                    <MagnifyingGlassIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                    <input
+                      type="text"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search recipient or subject"
+                      className="w-full pl-9 pr-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                  {/* List */}
+                  <div className="lg:col-span-2">
+                    {loading ? (
+                      <div className="flex justify-center py-12">
+                        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+                      </div>
+                    ) : emails.length === 0 ? (
+                      <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                        <EnvelopeIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                        <p className="text-gray-300">No emails</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {emails.map(email => (
+                          <motion.button
+                            key={email._id}
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            onClick={() => handleSelect(email._id)}
+                            className={`w-full text-left bg-gray-900 rounded-lg p-4 border transition-colors ${
+                              selected?._id === email._id ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+                            }`}
+                          >
+                            <div className="flex items-start justify-between gap-3">
+                              <p className="text-white font-medium truncate">{email.subject}</p>
+                              <span className={`shrink-0 px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[email.status]}`}>
+                                {email.status}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-400 truncate">{email.to}</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {email.template} · {formatDate(email.createdAt)}
+                              {email.attempts > 1 && ` · ${email.attempts} attempts`}
+                            </p>
+                          </motion.button>
+                        ))}
+                      </div>
+                    )}
+
+                    {totalPages > 1 && (
+                      <div className="flex items-center justify-between mt-4 text-sm text-gray-300">
+                        <button
+                          onClick={() => setPage(page - 1)}
+                          disabled={page <= 1}
+                          className="px-3 py-1 rounded-lg bg-gray-900 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          Previous
+                        </button>
+                        <span>Page {page} of {totalPages}</span>
+                        <button
+                          onClick={() => setPage(page + 1)}
+                          disabled={page >= totalPages}
+                          className="px-3 py-1 rounded-lg bg-gray-900 border border-gray-700 hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Detail */}
+                  <div className="lg:col-span-3">
+                    {selected ? (
+                      <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
+                        <div className="p-4 border-b border-gray-700">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <h2 className="text-lg font-semibold text-white">{selected.subject}</h2>
+                              <p className="text-sm text-gray-400">To {selected.to}</p>
+                            </div>
+                            {(selected.status === 'failed' || selected.status === 'queued') && (
+                              <button
+                                onClick={() => handleRetry(selected._id)}
+                                disabled={retrying}
+                                className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                              >
+                                <ArrowPathIcon className={`w-4 h-4 ${retrying ? 'animate-spin' : ''}`} />
+                                {selected.status === 'failed' ? 'Retry' : 'Send now'}
+                              </button>
+                            )}
+                          </div>
+                          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-xs text-gray-400">
+                            <dt>Status</dt>
+                            <dd className="text-gray-200">{selected.status} ({selected.attempts}/{selected.maxAttempts} attempts)</dd>
+                            <dt>Queued</dt>
+                            <dd className="text-gray-200">{formatDate(selected.createdAt)}</dd>
+                            {selected.status === 'queued' && (
+                              <>
+                                <dt>Next attempt</dt>
+                                <dd className="text-gray-200">{formatDate(selected.nextAttemptAt)}</dd>
+                              </>
+                            )}
+                            {selected.sentAt && (
+                              <>
+                                <dt>Sent</dt>
+                                <dd className="text-gray-200">{formatDate(selected.sentAt)} via {selected.transport}</dd>
+                              </>
+                            )}
+                            {selected.headers && Object.entries(selected.headers).map(([name, value]) => (
+                              <React.Fragment key={name}>
+                                <dt>{name}</dt>
+                                <dd className="text-gray-200 truncate">{value}</dd>
+                              </React.Fragment>
+                            ))}
+                          </dl>
+                          {selected.lastError && (
+                            <div className="mt-3 p-3 bg-red-900/20 border border-red-500/30 rounded-lg">
+                              <p className="text-sm text-red-300">{selected.lastError}</p>
+                            </div>
+                          )}
+                        </div>
+                        <iframe
+                          title="Email preview"
+                          srcDoc={selected.html}
+                          sandbox=""
+                          className="w-full h-[560px] bg-white"
+                        />
+                      </div>
+                    ) : (
+                      <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                        <DocumentTextIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                        <p className="text-gray-300">Select an email to see how it rendered</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                {/* Template list */}
+                <div className="lg:col-span-2 space-y-2">
+                  {templates.map(template => (
+                    <button
+                      key={template.name}
+                      onClick={() => handlePreview(template.name)}
+                      className={`w-full text-left bg-gray-900 rounded-lg p-4 border transition-colors ${
+                        activeTemplate === template.name ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      <p className="text-white font-medium">{template.name}</p>
+                      <p className="text-sm text-gray-400">{template.description}</p>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Preview */}
+                <div className="lg:col-span-3">
+                  {preview && (
+                    <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
+                      <div className="p-4 border-b border-gray-700">
+                        <h2 className="text-lg font-semibold text-white mb-3">{preview.subject}</h2>
+                        <form onSubmit={handleSendTest} className="flex flex-col sm:flex-row gap-2">
+                          <input
+                            type="email"
+                            value={testRecipient}
+                            onChange={(e) => setTestRecipient(e.target.value)}
+                            placeholder={user?.email || 'Recipient'}
+                            className="flex-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <button
+                            type="submit"
+                            disabled={sendingTest}
+                            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            <PaperAirplaneIcon className="w-4 h-4" />
+                            Send test
+                          </button>
+                        </form>
+                      </div>
+                      <iframe
+                        title="Template preview"
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="w-full h-[560px] bg-white"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminMailboxPage;
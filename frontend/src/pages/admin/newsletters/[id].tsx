@@ -0,0 +1,671 @@
+/**
+ * Admin Newsletter Composer Page
+ * Compose a newsletter, feature solutions and blog posts, pick an audience and schedule or send it
+ * (`/admin/newsletters/new` creates one)
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import Layout from '@/components/Layout/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowLeftIcon,
+  CalendarDaysIcon,
+  EyeIcon,
+  MagnifyingGlassIcon,
+  PaperAirplaneIcon,
+  UserGroupIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import {
+  newslettersApi,
+  Newsletter,
+  NewsletterAudience,
+  NewsletterDistribution,
+  NewsletterInput
+} from '@/lib/api';
+
+interface FeaturedItem {
+  _id: string;
+  title: string;
+  category?: string;
+}
+
+interface ComposerForm {
+  title: string;
+  description: string;
+  content: string;
+  category: string;
+  industry: string;
+  headerImage: string;
+  footerContent: string;
+  targetAudience: NewsletterAudience;
+  industryFilter: string;
+  roleFilter: string[];
+  interests: string;
+}
+
+const emptyForm: ComposerForm = {
+  title: '',
+  description: '',
+  content: '',
+  category: '',
+  industry: '',
+  headerImage: '',
+  footerContent: '',
+  targetAudience: 'all',
+  industryFilter: '',
+  roleFilter: [],
+  interests: ''
+};
+
+const AUDIENCES: Array<{ id: NewsletterAudience; label: string }> = [
+  { id: 'all', label: 'Everyone' },
+  { id: 'customers', label: 'Customers' },
+  { id: 'vendors', label: 'Vendors' },
+  { id: 'specific-industry', label: 'Specific industries' },
+  { id: 'custom', label: 'Custom segment' }
+];
+
+const ROLES = ['customer', 'vendor', 'editor', 'superadmin'];
+
+// Comma-separated input to a trimmed list
+const toList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// datetime-local value for an ISO date, in the browser's time zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const AdminNewsletterComposerPage: React.FC = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const isNew = id === 'new';
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const [newsletter, setNewsletter] = useState<Newsletter | null>(null);
+  const [failures, setFailures] = useState<Array<{ _id: string; email: string; error?: string }>>([]);
+  const [form, setForm] = useState<ComposerForm>(emptyForm);
+  const [solutions, setSolutions] = useState<FeaturedItem[]>([]);
+  const [blogs, setBlogs] = useState<FeaturedItem[]>([]);
+  const [recipientCount, setRecipientCount] = useState<number | null>(null);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [contentSearch, setContentSearch] = useState('');
+  const [searchResults, setSearchResults] = useState<{ solutions: FeaturedItem[]; blogs: FeaturedItem[] }>({ solutions: [], blogs: [] });
+  const searchTimer = useRef<NodeJS.Timeout | null>(null);
+  const audienceTimer = useRef<NodeJS.Timeout | null>(null);
+
+  const isSuperadmin = user?.role === 'superadmin';
+  const isLocked = newsletter ? ['sending', 'sent'].includes(newsletter.status) : false;
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (!isSuperadmin) {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, isSuperadmin, authLoading, router]);
+
+  useEffect(() => {
+    if (!router.isReady || !isAuthenticated || !isSuperadmin) return;
+
+    // Nothing to fetch for a new newsletter, or one we just created here
+    if (isNew || newsletter?._id === id) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchNewsletter = async () => {
+      try {
+        setLoading(true);
+        const response = await newslettersApi.getNewsletter(id as string);
+        if (response.success) {
+          loadNewsletter(response.newsletter);
+          setFailures(response.failures || []);
+        }
+      } catch (err: any) {
+        console.error('Error fetching newsletter:', err);
+        router.push('/admin/newsletters');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchNewsletter();
+  }, [router.isReady, id, isAuthenticated, isSuperadmin]);
+
+  // Search content to feature, debounced
+  useEffect(() => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    if (!contentSearch.trim()) {
+      setSearchResults({ solutions: [], blogs: [] });
+      return;
+    }
+
+    searchTimer.current = setTimeout(async () => {
+      try {
+        const response = await newslettersApi.searchContent(contentSearch.trim());
+        setSearchResults({ solutions: response.solutions || [], blogs: response.blogs || [] });
+      } catch (err) {
+        console.error('Error searching content:', err);
+      }
+    }, 300);
+  }, [contentSearch]);
+
+  // Count the audience as the segment changes, debounced
+  useEffect(() => {
+    if (!isSuperadmin || isLocked) return;
+    if (audienceTimer.current) clearTimeout(audienceTimer.current);
+    if (form.targetAudience === 'specific-industry' && toList(form.industryFilter).length === 0) {
+      setRecipientCount(0);
+      return;
+    }
+
+    audienceTimer.current = setTimeout(async () => {
+      try {
+        const response = await newslettersApi.countAudience(buildDistribution());
+        setRecipientCount(response.recipientCount);
+      } catch (err) {
+        console.error('Error counting audience:', err);
+      }
+    }, 400);
+  }, [isSuperadmin, isLocked, form.targetAudience, form.industryFilter, form.roleFilter, form.interests]);
+
+  const loadNewsletter = (data: Newsletter) => {
+    setNewsletter(data);
+    setForm({
+      title: data.title,
+      description: data.description,
+      content: data.content || '',
+      category: data.category,
+      industry: data.industry,
+      headerImage: data.template?.headerImage || '',
+      footerContent: data.template?.footerContent || '',
+      targetAudience: data.distribution?.targetAudience || 'all',
+      industryFilter: (data.distribution?.industryFilter || []).join(', '),
+      roleFilter: data.distribution?.roleFilter || [],
+      interests: (data.distribution?.customFilters?.interests || []).join(', ')
+    });
+    setSolutions((data.featuredSolutions || []).filter(Boolean));
+    setBlogs((data.featuredBlogs || []).filter(Boolean));
+    setScheduleAt(toLocalInput(data.scheduledAt));
+  };
+
+  const buildDistribution = (): NewsletterDistribution => ({
+    targetAudience: form.targetAudience,
+    industryFilter: ['specific-industry', 'custom'].includes(form.targetAudience) ? toList(form.industryFilter) : [],
+    roleFilter: form.targetAudience === 'custom' ? form.roleFilter : [],
+    customFilters: form.targetAudience === 'custom' ? { interests: toList(form.interests) } : {}
+  });
+
+  const buildPayload = (): NewsletterInput => ({
+    title: form.title,
+    description: form.description,
+    content: form.content,
+    category: form.category,
+    industry: form.industry,
+    template: { headerImage: form.headerImage, footerContent: form.footerContent },
+    distribution: buildDistribution(),
+    featuredSolutions: solutions.map(solution => solution._id),
+    featuredBlogs: blogs.map(blog => blog._id)
+  });
+
+  // Save the newsletter; returns its ID so later actions can follow
+  const handleSave = async (notify = true): Promise<string | null> => {
+    try {
+      setSaving(true);
+      const response = newsletter
+        ? await newslettersApi.updateNewsletter(newsletter._id, buildPayload())
+        : await newslettersApi.createNewsletter(buildPayload());
+
+      if (response.success) {
+        if (!newsletter) {
+          router.replace(`/admin/newsletters/${response.newsletter._id}`, undefined, { shallow: true });
+        }
+        setNewsletter(response.newsletter);
+        if (notify) toast.success(response.message || 'Newsletter saved');
+        return response.newsletter._id;
+      }
+    } catch (err: any) {
+      console.error('Error saving newsletter:', err);
+      toast.error(err.response?.data?.error || 'Failed to save newsletter');
+    } finally {
+      setSaving(false);
+    }
+    return null;
+  };
+
+  const handlePreview = async () => {
+    const newsletterId = isLocked ? newsletter?._id : await handleSave(false);
+    if (!newsletterId) return;
+
+    try {
+      const response = await newslettersApi.getPreview(newsletterId);
+      setPreviewHtml(response.html);
+    } catch (err: any) {
+      console.error('Error rendering preview:', err);
+      toast.error(err.response?.data?.error || 'Failed to render preview');
+    }
+  };
+
+  const handleAction = async (action: 'test' | 'schedule' | 'unschedule' | 'send') => {
+    if (action === 'send' && !window.confirm(`Send "${form.title}" to ${recipientCount ?? 'all matching'} subscribers now?`)) {
+      return;
+    }
+
+    // Everything except unscheduling saves pending edits first
+    const newsletterId = action === 'unschedule' ? newsletter?._id : await handleSave(false);
+    if (!newsletterId) return;
+
+    try {
+      setSaving(true);
+      const response = action === 'test'
+        ? await newslettersApi.sendTest(newsletterId)
+        : action === 'schedule'
+          ? await newslettersApi.scheduleNewsletter(newsletterId, new Date(scheduleAt).toISOString())
+          : action === 'unschedule'
+            ? await newslettersApi.unscheduleNewsletter(newsletterId)
+            : await newslettersApi.sendNewsletter(newsletterId);
+
+      if (response.success) {
+        toast.success(response.message || 'Done');
+        if (response.newsletter) setNewsletter(response.newsletter);
+      }
+    } catch (err: any) {
+      console.error(`Error running ${action}:`, err);
+      toast.error(err.response?.data?.error || 'Action failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addFeatured = (kind: 'solution' | 'blog', item: FeaturedItem) => {
+    const [list, setList] = kind === 'solution' ? [solutions, setSolutions] : [blogs, setBlogs];
+    if (list.length < 6 && !list.some(existing => existing._id === item._id)) {
+      setList([...list, item]);
+    }
+    setContentSearch('');
+  };
+
+  const toggleRole = (role: string) => {
+    setForm({
+      ...form,
+      roleFilter: form.roleFilter.includes(role)
+        ? form.roleFilter.filter(r => r !== role)
+        : [...form.roleFilter, role]
+    });
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const requiredFilled = form.title && form.description && form.content && form.category && form.industry;
+
+  const renderChips = (items: FeaturedItem[], onRemove: (id: string) => void) => items.map(item => (
+    <div key={item._id} className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-800 rounded-lg">
+      <span className="text-sm text-white truncate">{item.title}</span>
+      {!isLocked && (
+        <button onClick={() => onRemove(item._id)} className="text-gray-400 hover:text-red-400" title="Remove">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  ));
+
+  return (
+    <>
+      <Head>
+        <title>{newsletter ? 'Edit Newsletter' : 'New Newsletter'} - AstroVault AI</title>
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <div>
+                <Link href="/admin/newsletters" className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-2">
+                  <ArrowLeftIcon className="w-4 h-4 mr-1" />
+                  All newsletters
+                </Link>
+                <h1 className="text-3xl font-bold text-white">{newsletter ? newsletter.title : 'New Newsletter'}</h1>
+                {newsletter && (
+                  <p className="text-sm text-gray-400 mt-1">
+                    Status: <span className="text-white">{newsletter.status}</span>
+                    {newsletter.status === 'scheduled' && newsletter.scheduledAt && ` for ${new Date(newsletter.scheduledAt).toLocaleString()}`}
+                    {newsletter.sentAt && ` · sent ${new Date(newsletter.sentAt).toLocaleString()}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={handlePreview}
+                  disabled={saving || !requiredFilled}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                >
+                  <EyeIcon className="w-4 h-4" />
+                  Preview
+                </button>
+                {!isLocked && (
+                  <>
+                    <button
+                      onClick={() => handleAction('test')}
+                      disabled={saving || !requiredFilled}
+                      className="px-4 py-2 text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      Send Test to Me
+                    </button>
+                    <button
+                      onClick={() => handleSave()}
+                      disabled={saving || !requiredFilled}
+                      className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save Draft'}
+                    </button>
+                    <button
+                      onClick={() => handleAction('send')}
+                      disabled={saving || !requiredFilled || recipientCount === 0}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <PaperAirplaneIcon className="w-4 h-4" />
+                      Send Now
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {newsletter?.sendError && (
+              <div className="mb-6 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+                <p className="text-red-300">
+                  The last send stopped early: {newsletter.sendError}. Sending again skips everyone who already received it.
+                </p>
+              </div>
+            )}
+
+            {/* Metrics */}
+            {isLocked && newsletter && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                {[
+                  { label: 'Delivered', value: newsletter.metrics.delivered },
+                  { label: 'Failed', value: newsletter.metrics.bounced },
+                  { label: 'Opened', value: `${newsletter.metrics.opened} (${newsletter.openRate}%)` },
+                  { label: 'Clicked', value: `${newsletter.metrics.clicked} (${newsletter.clickRate}%)` },
+                  { label: 'Unsubscribed', value: newsletter.metrics.unsubscribed }
+                ].map(metric => (
+                  <div key={metric.label} className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+                    <p className="text-sm text-gray-400">{metric.label}</p>
+                    <p className="text-2xl font-bold text-white">{metric.value}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {failures.length > 0 && (
+              <div className="mb-6 bg-gray-900 rounded-lg p-4 border border-gray-700">
+                <h2 className="text-white font-semibold mb-2">Failed deliveries</h2>
+                <ul className="text-sm text-gray-300 space-y-1">
+                  {failures.map(failure => (
+                    <li key={failure._id}>{failure.email} <span className="text-gray-500">– {failure.error}</span></li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Content */}
+              <div className="lg:col-span-2 space-y-4">
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="Subject line"
+                  maxLength={200}
+                  disabled={isLocked}
+                  className={`${inputClass} text-xl font-semibold`}
+                />
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Intro shown under the title (max 500 characters)"
+                  maxLength={500}
+                  rows={2}
+                  disabled={isLocked}
+                  className={inputClass}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <input
+                    type="text"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                    placeholder="Category"
+                    disabled={isLocked}
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={form.industry}
+                    onChange={(e) => setForm({ ...form, industry: e.target.value })}
+                    placeholder="Industry"
+                    disabled={isLocked}
+                    className={inputClass}
+                  />
+                </div>
+                <textarea
+                  value={form.content}
+                  onChange={(e) => setForm({ ...form, content: e.target.value })}
+                  placeholder={'# Heading\n\nWrite the newsletter in Markdown: headings, paragraphs, - lists, **bold**, *italics* and [links](https://example.com).'}
+                  disabled={isLocked}
+                  className={`${inputClass} font-mono text-sm min-h-[24rem]`}
+                />
+                <input
+                  type="url"
+                  value={form.headerImage}
+                  onChange={(e) => setForm({ ...form, headerImage: e.target.value })}
+                  placeholder="Header image URL (optional)"
+                  disabled={isLocked}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={form.footerContent}
+                  onChange={(e) => setForm({ ...form, footerContent: e.target.value })}
+                  placeholder="Footer text (optional)"
+                  disabled={isLocked}
+                  className={inputClass}
+                />
+              </div>
+
+              {/* Sidebar */}
+              <div className="space-y-4">
+                {/* Audience */}
+                <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-3">
+                  <h2 className="text-white font-semibold flex items-center gap-2">
+                    <UserGroupIcon className="w-5 h-5" />
+                    Audience
+                  </h2>
+                  <select
+                    value={form.targetAudience}
+                    onChange={(e) => setForm({ ...form, targetAudience: e.target.value as NewsletterAudience })}
+                    disabled={isLocked}
+                    className={inputClass}
+                  >
+                    {AUDIENCES.map(audience => (
+                      <option key={audience.id} value={audience.id}>{audience.label}</option>
+                    ))}
+                  </select>
+                  {form.targetAudience === 'custom' && (
+                    <div className="flex flex-wrap gap-3">
+                      {ROLES.map(role => (
+                        <label key={role} className="flex items-center gap-1 text-sm text-gray-300 capitalize">
+                          <input
+                            type="checkbox"
+                            checked={form.roleFilter.includes(role)}
+                            onChange={() => toggleRole(role)}
+                            disabled={isLocked}
+                            className="rounded border-gray-600 bg-gray-800"
+                          />
+                          {role}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  {['specific-industry', 'custom'].includes(form.targetAudience) && (
+                    <input
+                      type="text"
+                      value={form.industryFilter}
+                      onChange={(e) => setForm({ ...form, industryFilter: e.target.value })}
+                      placeholder="Industries, comma separated"
+                      disabled={isLocked}
+                      className={inputClass}
+                    />
+                  )}
+                  {form.targetAudience === 'custom' && (
+                    <input
+                      type="text"
+                      value={form.interests}
+                      onChange={(e) => setForm({ ...form, interests: e.target.value })}
+                      placeholder="Interests, comma separated"
+                      disabled={isLocked}
+                      className={inputClass}
+                    />
+                  )}
+                  <p className="text-sm text-gray-400">
+                    {isLocked
+                      ? `Sent to ${newsletter?.distribution.recipientCount ?? newsletter?.metrics.sent} subscribers`
+                      : recipientCount === null
+                        ? 'Counting subscribers...'
+                        : `${recipientCount} subscribed ${recipientCount === 1 ? 'user' : 'users'} match`}
+                  </p>
+                </div>
+
+                {/* Scheduling */}
+                {!isLocked && (
+                  <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+                    <h2 className="text-white font-semibold mb-3 flex items-center gap-2">
+                      <CalendarDaysIcon className="w-5 h-5" />
+                      Schedule
+                    </h2>
+                    <input
+                      type="datetime-local"
+                      value={scheduleAt}
+                      onChange={(e) => setScheduleAt(e.target.value)}
+                      min={toLocalInput(new Date().toISOString())}
+                      className={`${inputClass} mb-3`}
+                    />
+                    <button
+                      onClick={() => handleAction('schedule')}
+                      disabled={saving || !requiredFilled || !scheduleAt}
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {newsletter?.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                    </button>
+                    {newsletter?.status === 'scheduled' && (
+                      <button
+                        onClick={() => handleAction('unschedule')}
+                        disabled={saving}
+                        className="w-full mt-2 px-4 py-2 text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        Cancel Schedule
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Featured Content */}
+                <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+                  <h2 className="text-white font-semibold mb-3">Featured Content</h2>
+                  {solutions.length > 0 && <p className="text-xs text-gray-400 mb-1">Solutions</p>}
+                  <div className="space-y-2 mb-3">
+                    {renderChips(solutions, (itemId) => setSolutions(solutions.filter(s => s._id !== itemId)))}
+                  </div>
+                  {blogs.length > 0 && <p className="text-xs text-gray-400 mb-1">Blog posts</p>}
+                  <div className="space-y-2 mb-3">
+                    {renderChips(blogs, (itemId) => setBlogs(blogs.filter(b => b._id !== itemId)))}
+                  </div>
+                  {!isLocked && (
+                    <div className="relative">
+                      <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-3 top-3" />
+                      <input
+                        type="text"
+                        value={contentSearch}
+                        onChange={(e) => setContentSearch(e.target.value)}
+                        placeholder="Search solutions and posts"
+                        className={`${inputClass} pl-9`}
+                      />
+                      {(searchResults.solutions.length > 0 || searchResults.blogs.length > 0) && (
+                        <div className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg shadow-lg max-h-72 overflow-auto">
+                          {searchResults.solutions.map(item => (
+                            <button
+                              key={item._id}
+                              onClick={() => addFeatured('solution', item)}
+                              className="block w-full text-left px-3 py-2 hover:bg-gray-700"
+                            >
+                              <p className="text-sm text-white">{item.title}</p>
+                              <p className="text-xs text-gray-400">Solution{item.category && ` · ${item.category}`}</p>
+                            </button>
+                          ))}
+                          {searchResults.blogs.map(item => (
+                            <button
+                              key={item._id}
+                              onClick={() => addFeatured('blog', item)}
+                              className="block w-full text-left px-3 py-2 hover:bg-gray-700"
+                            >
+                              <p className="text-sm text-white">{item.title}</p>
+                              <p className="text-xs text-gray-400">Blog post{item.category && ` · ${item.category}`}</p>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Email Preview */}
+        {previewHtml && (
+          <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={() => setPreviewHtml(null)}>
+            <div className="bg-white rounded-lg w-full max-w-3xl h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+                <p className="font-semibold text-gray-900">Email preview</p>
+                <button onClick={() => setPreviewHtml(null)} className="text-gray-500 hover:text-gray-700">
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              </div>
+              <iframe title="Newsletter preview" srcDoc={previewHtml} sandbox="" className="flex-1 w-full rounded-b-lg" />
+            </div>
+          </div>
+        )}
+      </Layout>
+    </>
+  );
+};
+
+export default AdminNewsletterComposerPage;
@@ -0,0 +1,239 @@
+/**
+ * Admin Newsletters Page
+ * Lists newsletters with their send status and engagement metrics
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import Layout from '@/components/Layout/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  PlusIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  EnvelopeIcon
+} from '@heroicons/react/24/outline';
+import { newslettersApi, Newsletter, NewsletterStatus } from '@/lib/api';
+
+const STATUS_STYLES: Record<NewsletterStatus, string> = {
+  draft: 'bg-gray-500/20 text-gray-300',
+  scheduled: 'bg-blue-500/20 text-blue-300',
+  published: 'bg-purple-500/20 text-purple-300',
+  sending: 'bg-yellow-500/20 text-yellow-300',
+  sent: 'bg-green-500/20 text-green-300',
+  archived: 'bg-gray-500/20 text-gray-400'
+};
+
+const FILTERS: Array<{ id: NewsletterStatus | ''; label: string }> = [
+  { id: '', label: 'All' },
+  { id: 'draft', label: 'Drafts' },
+  { id: 'scheduled', label: 'Scheduled' },
+  { id: 'sent', label: 'Sent' }
+];
+
+const AdminNewslettersPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [newsletters, setNewsletters] = useState<Newsletter[]>([]);
+  const [filter, setFilter] = useState<NewsletterStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (user?.role !== 'superadmin') {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, user, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'superadmin') {
+      fetchNewsletters();
+    }
+  }, [isAuthenticated, user, filter]);
+
+  const fetchNewsletters = async () => {
+    try {
+      setLoading(true);
+      const response = await newslettersApi.getNewsletters(filter ? { status: filter, limit: 50 } : { limit: 50 });
+      setNewsletters(response.newsletters || []);
+    } catch (err: any) {
+      console.error('Error fetching newsletters:', err);
+      setError(err.response?.data?.error || 'Failed to fetch newsletters');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (newsletter: Newsletter) => {
+    if (!window.confirm(`Delete "${newsletter.title}"? This cannot be undone.`)) return;
+
+    try {
+      await newslettersApi.deleteNewsletter(newsletter._id);
+      toast.success('Newsletter deleted');
+      setNewsletters(prev => prev.filter(n => n._id !== newsletter._id));
+    } catch (err: any) {
+      console.error('Error deleting newsletter:', err);
+      toast.error(err.response?.data?.error || 'Failed to delete newsletter');
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Newsletters - AstroVault AI</title>
+        <meta name="description" content="Compose and send newsletters" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="flex items-start justify-between mb-8">
+              <div>
+                <h1 className="text-3xl font-bold text-white mb-2">Newsletters</h1>
+                <p className="text-gray-300">Compose, target and track newsletters</p>
+              </div>
+              <Link
+                href="/admin/newsletters/new"
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <PlusIcon className="w-4 h-4" />
+                New Newsletter
+              </Link>
+            </div>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+                <p className="text-red-300">{error}</p>
+              </div>
+            )}
+
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {FILTERS.map(option => (
+                <button
+                  key={option.id || 'all'}
+                  onClick={() => setFilter(option.id)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    filter === option.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-900 text-gray-300 border border-gray-700 hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {newsletters.length === 0 ? (
+              <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                <EnvelopeIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                <p className="text-gray-300">No newsletters yet</p>
+              </div>
+            ) : (
+              <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-700">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      <th className="px-4 py-3">Newsletter</th>
+                      <th className="px-4 py-3">Audience</th>
+                      <th className="px-4 py-3 text-right">Delivered</th>
+                      <th className="px-4 py-3 text-right">Opened</th>
+                      <th className="px-4 py-3 text-right">Clicked</th>
+                      <th className="px-4 py-3 text-right">Unsubscribed</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {newsletters.map(newsletter => (
+                      <tr key={newsletter._id}>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[newsletter.status]}`}>
+                            {newsletter.status}
+                          </span>
+                          <p className="text-white font-semibold mt-1">{newsletter.title}</p>
+                          <p className="text-xs text-gray-400">
+                            {newsletter.status === 'scheduled' && newsletter.scheduledAt
+                              ? `Sends ${new Date(newsletter.scheduledAt).toLocaleString()}`
+                              : newsletter.sentAt
+                                ? `Sent ${new Date(newsletter.sentAt).toLocaleString()}`
+                                : `Edited ${new Date(newsletter.updatedAt).toLocaleDateString()}`}
+                          </p>
+                          {newsletter.sendError && (
+                            <p className="text-xs text-red-400 mt-1">Last send failed: {newsletter.sendError}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-300">
+                          {newsletter.distribution.targetAudience}
+                          {newsletter.distribution.recipientCount !== undefined && (
+                            <span className="text-gray-500"> · {newsletter.distribution.recipientCount}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-300 text-right">
+                          {newsletter.metrics.delivered}
+                          {newsletter.metrics.bounced > 0 && (
+                            <span className="text-red-400"> ({newsletter.metrics.bounced} failed)</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-300 text-right">
+                          {newsletter.metrics.opened} <span className="text-gray-500">({newsletter.openRate}%)</span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-300 text-right">
+                          {newsletter.metrics.clicked} <span className="text-gray-500">({newsletter.clickRate}%)</span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-300 text-right">{newsletter.metrics.unsubscribed}</td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-end gap-2">
+                            <Link
+                              href={`/admin/newsletters/${newsletter._id}`}
+                              className="p-2 text-gray-400 hover:text-white"
+                              title={['sending', 'sent'].includes(newsletter.status) ? 'View' : 'Edit'}
+                            >
+                              <PencilSquareIcon className="w-5 h-5" />
+                            </Link>
+                            {!['sending', 'sent'].includes(newsletter.status) && (
+                              <button
+                                onClick={() => handleDelete(newsletter)}
+                                className="p-2 text-gray-400 hover:text-red-400"
+                                title="Delete"
+                              >
+                                <TrashIcon className="w-5 h-5" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminNewslettersPage;
@@ -0,0 +1,341 @@
+/**
+ * Admin Review Moderation Page
+ * Superadmin queue for approving new reviews and handling reported ones
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Layout from '@/components/Layout/Layout';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import {
+  CheckIcon,
+  XMarkIcon,
+  ChatBubbleLeftRightIcon,
+  FlagIcon,
+  UserIcon,
+  CheckBadgeIcon
+} from '@heroicons/react/24/outline';
+import { StarIcon } from '@heroicons/react/24/solid';
+import { reviewsApi, Review, ReviewStatus } from '@/lib/api';
+
+interface QueuedReview extends Omit<Review, 'solutionId'> {
+  solutionId: { _id: string; title: string; slug?: string } | null;
+  customerId: { _id: string; firstName: string; lastName: string; email: string } | null;
+  reported: { count: number; open: number; reasons: string[] };
+}
+
+const FILTERS: Array<{ id: ReviewStatus | ''; label: string }> = [
+  { id: '', label: 'Needs action' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'flagged', label: 'Reported' },
+  { id: 'approved', label: 'Published' },
+  { id: 'rejected', label: 'Rejected' }
+];
+
+type VerificationChoice = 'verified' | 'unverified' | 'automatic';
+
+const VERIFICATION_SOURCES: Record<string, string> = {
+  proposal: 'verified proposal hire',
+  query: 'resolved query',
+  manual: 'manual override'
+};
+
+const AdminReviewsPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [reviews, setReviews] = useState<QueuedReview[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<ReviewStatus, number>>>({});
+  const [filter, setFilter] = useState<ReviewStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [verificationDrafts, setVerificationDrafts] = useState<Record<string, { status: VerificationChoice; reason: string }>>({});
+
+  // Check authentication and role
+  useEffect(() => {
+    if (!authLoading) {
+      if (!isAuthenticated) {
+        router.push('/auth/login');
+        return;
+      }
+      if (user?.role !== 'superadmin') {
+        router.push('/dashboard');
+        return;
+      }
+    }
+  }, [isAuthenticated, user, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === 'superadmin') {
+      fetchQueue();
+    }
+  }, [isAuthenticated, user, filter]);
+
+  const fetchQueue = async () => {
+    try {
+      setLoading(true);
+      const response = await reviewsApi.getModerationQueue(filter ? { status: filter } : {});
+      setReviews(response.reviews || []);
+      setCounts(response.counts || {});
+    } catch (err: any) {
+      console.error('Error fetching moderation queue:', err);
+      setError(err.response?.data?.error || 'Failed to fetch reviews');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleModerate = async (reviewId: string, status: 'approved' | 'rejected') => {
+    try {
+      setProcessingId(reviewId);
+      await reviewsApi.moderateReview(reviewId, status, notes[reviewId]);
+      toast.success(status === 'approved' ? 'Review published' : 'Review rejected');
+      setReviews(prev => prev.filter(r => r._id !== reviewId));
+    } catch (err: any) {
+      console.error('Error moderating review:', err);
+      toast.error(err.response?.data?.error || 'Failed to update review');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleVerification = async (reviewId: string) => {
+    const draft = verificationDrafts[reviewId];
+    if (!draft) return;
+
+    try {
+      setProcessingId(reviewId);
+      const response = await reviewsApi.setVerification(reviewId, draft.status, draft.reason);
+      toast.success(response.message || 'Verification updated');
+      setReviews(prev => prev.map(r => r._id === reviewId
+        ? { ...r, isVerified: response.isVerified, verification: response.verification }
+        : r));
+      setVerificationDrafts(({ [reviewId]: _, ...rest }) => rest);
+    } catch (err: any) {
+      console.error('Error updating verification:', err);
+      toast.error(err.response?.data?.error || 'Failed to update verification');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-gray-800 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Review Moderation - AstroVault AI</title>
+        <meta name="description" content="Moderate solution reviews" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-screen bg-gray-800">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {/* Header */}
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-white mb-2">Review Moderation</h1>
+              <p className="text-gray-300">Publish new reviews and decide on reported ones</p>
+              {error && (
+                <div className="mt-4 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+                  <p className="text-red-300">{error}</p>
+                </div>
+              )}
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {FILTERS.map(option => {
+                const count = option.id
+                  ? counts[option.id]
+                  : (counts.pending || 0) + (counts.flagged || 0);
+                return (
+                  <button
+                    key={option.id || 'queue'}
+                    onClick={() => setFilter(option.id)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filter === option.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-900 text-gray-300 border border-gray-700 hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label} ({count || 0})
+                  </button>
+                );
+              })}
+            </div>
+
+            {reviews.length === 0 ? (
+              <div className="bg-gray-900 rounded-lg p-12 border border-gray-700 text-center">
+                <ChatBubbleLeftRightIcon className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                <p className="text-gray-300">No reviews to moderate</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {reviews.map((review) => (
+                  <motion.div
+                    key={review._id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-gray-900 rounded-lg p-6 border border-gray-700"
+                  >
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <div>
+                        <p className="text-sm text-blue-400">{review.solutionId?.title || 'Deleted solution'}</p>
+                        <h2 className="text-lg font-semibold text-white">{review.title}</h2>
+                        <div className="flex items-center mt-1">
+                          {[1, 2, 3, 4, 5].map(star => (
+                            <StarIcon
+                              key={star}
+                              className={`w-4 h-4 ${star <= review.rating.overall ? 'text-yellow-400' : 'text-gray-600'}`}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                      {review.status === 'flagged' || review.reported.open > 0 ? (
+                        <span className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-orange-500/20 text-orange-300">
+                          <FlagIcon className="w-3 h-3" />
+                          Reported {review.reported.count}×{review.status === 'flagged' ? ' · hidden' : ' · still published'}
+                        </span>
+                      ) : (
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          review.status === 'rejected' ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'
+                        }`}>
+                          {review.status === 'rejected' ? 'Rejected' : 'Pending'}
+                        </span>
+                      )}
+                    </div>
+
+                    <p className="text-gray-300 mb-4 whitespace-pre-line">{review.content}</p>
+
+                    <div className="flex items-start gap-2 text-sm text-gray-300 mb-4">
+                      <UserIcon className="w-4 h-4 mt-0.5 text-gray-400" />
+                      <div>
+                        <p className="font-medium text-white">
+                          {review.customerName}
+                          {review.isAnonymous && <span className="text-gray-400 font-normal"> (posting anonymously)</span>}
+                        </p>
+                        <p className="text-gray-400">
+                          {[review.customerId?.email, review.customerCompany].filter(Boolean).join(' • ')}
+                        </p>
+                      </div>
+                    </div>
+
+                    {review.reported.reasons.length > 0 && (
+                      <div className="mb-4 p-3 bg-orange-900/20 border border-orange-500/30 rounded-lg text-sm">
+                        <p className="font-medium text-orange-300 mb-1">Report reasons</p>
+                        <ul className="list-disc list-inside text-gray-300 space-y-0.5">
+                          {review.reported.reasons.map((reason, idx) => <li key={idx}>{reason}</li>)}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Verified-customer status */}
+                    <div className="mb-4 p-3 bg-gray-800 border border-gray-700 rounded-lg text-sm">
+                      <div className="flex items-center gap-2 mb-2">
+                        <CheckBadgeIcon className={`w-4 h-4 ${review.isVerified ? 'text-green-400' : 'text-gray-500'}`} />
+                        <span className="text-white font-medium">
+                          {review.isVerified ? 'Verified customer' : 'Not verified'}
+                        </span>
+                        {review.verification?.source && (
+                          <span className="text-gray-400">
+                            via {VERIFICATION_SOURCES[review.verification.source]}
+                            {review.verification.reason && `: ${review.verification.reason}`}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex flex-col md:flex-row gap-2">
+                        <select
+                          value={verificationDrafts[review._id]?.status || ''}
+                          onChange={(e) => setVerificationDrafts({
+                            ...verificationDrafts,
+                            [review._id]: { status: e.target.value as VerificationChoice, reason: verificationDrafts[review._id]?.reason || '' }
+                          })}
+                          className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="" disabled>Override...</option>
+                          <option value="verified">Mark verified</option>
+                          <option value="unverified">Mark unverified</option>
+                          <option value="automatic">Use automatic check</option>
+                        </select>
+                        {verificationDrafts[review._id] && verificationDrafts[review._id].status !== 'automatic' && (
+                          <input
+                            type="text"
+                            value={verificationDrafts[review._id].reason}
+                            onChange={(e) => setVerificationDrafts({
+                              ...verificationDrafts,
+                              [review._id]: { ...verificationDrafts[review._id], reason: e.target.value }
+                            })}
+                            placeholder="Reason (required)"
+                            maxLength={500}
+                            className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        )}
+                        {verificationDrafts[review._id] && (
+                          <button
+                            onClick={() => handleVerification(review._id)}
+                            disabled={
+                              processingId === review._id ||
+                              (verificationDrafts[review._id].status !== 'automatic' && verificationDrafts[review._id].reason.trim().length < 5)
+                            }
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    <textarea
+                      value={notes[review._id] ?? review.moderationNote ?? ''}
+                      onChange={(e) => setNotes({ ...notes, [review._id]: e.target.value })}
+                      placeholder="Note to the reviewer (optional, shown if rejected)"
+                      rows={2}
+                      className="w-full px-3 py-2 mb-4 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+
+                    <div className="flex justify-end gap-3">
+                      {review.status !== 'rejected' && (
+                        <button
+                          onClick={() => handleModerate(review._id, 'rejected')}
+                          disabled={processingId === review._id}
+                          className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                          Reject
+                        </button>
+                      )}
+                      {(review.status !== 'approved' || review.reported.open > 0) && (
+                        <button
+                          onClick={() => handleModerate(review._id, 'approved')}
+                          disabled={processingId === review._id}
+                          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                        >
+                          <CheckIcon className="w-4 h-4" />
+                          {review.status === 'flagged' || review.reported.open > 0 ? 'Keep Published' : 'Publish'}
+                        </button>
+                      )}
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default AdminReviewsPage;
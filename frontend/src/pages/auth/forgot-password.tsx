@@ -0,0 +1,107 @@
+/**
+ * Forgot Password Page
+ * Requests a password reset link by email
+ */
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import AuthCard from '@/components/auth/AuthCard';
+import { authApi } from '@/lib/api';
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+const ForgotPasswordPage: React.FC = () => {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>();
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await authApi.forgotPassword(data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <AuthCard title="Check your email">
+        <div className="flex items-start gap-3 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg mb-6">
+          <EnvelopeIcon className="w-5 h-5 text-blue-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">
+            If an account exists for <span className="text-white font-medium">{sentTo}</span>, we sent a link to reset
+            your password. The link expires in one hour and can be used once.
+          </p>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <button
+            onClick={() => setSentTo(null)}
+            className="text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            Use a different email
+          </button>
+          <Link href="/auth/login" className="text-blue-400 hover:text-blue-300 transition-colors">
+            Back to sign in
+          </Link>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Forgot your password?"
+      subtitle="Enter the email address you signed up with and we'll send you a reset link."
+    >
+      <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+            Email Address
+          </label>
+          <input
+            {...register('email', {
+              required: 'Email is required',
+              pattern: {
+                value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                message: 'Invalid email address',
+              },
+            })}
+            id="email"
+            type="email"
+            autoComplete="email"
+            className={`w-full px-4 py-3 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              errors.email ? 'border-red-500' : 'border-gray-600'
+            }`}
+            placeholder="Enter your email"
+          />
+          {errors.email && (
+            <p className="mt-1 text-xs text-red-400">{errors.email.message}</p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? 'Sending...' : 'Send reset link'}
+        </button>
+      </form>
+
+      <p className="mt-6 text-center text-sm text-gray-400">
+        Remembered it? <Link href="/auth/login" className="text-blue-400 hover:text-blue-300 transition-colors">Sign in</Link>
+      </p>
+    </AuthCard>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -3,14 +3,17 @@
  * User authentication login form with validation and error handling
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, LoginResult } from '@/contexts/AuthContext';
+import { authApi, SsoDiscovery } from '@/lib/api';
 import { useForm } from 'react-hook-form';
-import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+import { EyeIcon, EyeSlashIcon, ShieldCheckIcon, BuildingOffice2Icon } from '@heroicons/react/24/outline';
+
+const EMAIL_PATTERN = /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i;
 
 interface LoginFormData {
   email: string;
@@ -20,9 +23,19 @@ interface LoginFormData {
 
 const LoginPage: React.FC = () => {
   const router = useRouter();
-  const { login, isAuthenticated, isLoading, error, clearError } = useAuth();
+  const { login, completeTwoFactorLogin, isAuthenticated, isLoading, error, clearError } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set once the password is accepted for an account with two-factor on
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  // The submit handlers redirect themselves (superadmins may be sent to set up two-factor)
+  const signingIn = useRef(false);
+  // Organization that signs in the entered email's domain with single sign-on
+  const [ssoOrganization, setSsoOrganization] = useState<SsoDiscovery | null>(null);
+  const ssoLookupEmail = useRef('');
+  const ssoError = typeof router.query.sso_error === 'string' ? router.query.sso_error : '';
 
   const {
     register,
@@ -33,7 +46,7 @@ const LoginPage: React.FC = () => {
 
   // Redirect if already authenticated
   useEffect(() => {
-    if (isAuthenticated && !isLoading) {
+    if (isAuthenticated && !isLoading && !signingIn.current) {
       const redirectTo = (router.query.redirect as string) || '/dashboard';
       router.push(redirectTo);
     }
@@ -44,19 +57,68 @@ const LoginPage: React.FC = () => {
     clearError();
   }, []);
 
+  // Offer single sign-on when the email's domain belongs to an organization that uses it
+  const lookupSso = async (email: string) => {
+    const normalized = email.trim().toLowerCase();
+    if (normalized === ssoLookupEmail.current) return;
+    ssoLookupEmail.current = normalized;
+
+    if (!EMAIL_PATTERN.test(normalized)) {
+      setSsoOrganization(null);
+      return;
+    }
+
+    try {
+      const response = await authApi.discoverSso(normalized);
+      if (ssoLookupEmail.current === normalized) {
+        setSsoOrganization(response.sso);
+      }
+    } catch (error) {
+      console.error('SSO discovery failed:', error);
+    }
+  };
+
+  const startSso = () => {
+    if (!ssoOrganization) return;
+    const redirect = typeof router.query.redirect === 'string' ? router.query.redirect : undefined;
+    window.location.href = authApi.getSsoStartUrl(ssoOrganization.organizationId, redirect);
+  };
+
+  // Redirect to the intended page, or to settings when a superadmin still has to enrol
+  const redirectAfterLogin = (result: LoginResult) => {
+    if (!result.twoFactorRequired && result.twoFactorSetupRequired) {
+      router.push('/dashboard/settings?setup=2fa');
+      return;
+    }
+    const redirectTo = (router.query.redirect as string) || '/dashboard';
+    router.push(redirectTo);
+  };
+
   // Handle form submission
   const onSubmit = async (data: LoginFormData) => {
     try {
       setIsSubmitting(true);
+      signingIn.current = true;
       clearError();
       
-      await login(data.email, data.password);
+      const result = await login(data.email, data.password);
       
-      // Redirect to dashboard or intended page
-      const redirectTo = (router.query.redirect as string) || '/dashboard';
-      router.push(redirectTo);
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
+      redirectAfterLogin(result);
     } catch (error: any) {
+      signingIn.current = false;
       console.error('Login error:', error);
+
+      // The organization turned password sign-in off for this domain
+      const data = error.response?.data;
+      if (data?.code === 'SSO_REQUIRED' && data.sso) {
+        clearError();
+        setSsoOrganization({ ...data.sso, enforced: true });
+        return;
+      }
       
       // Handle specific error cases
       if (error.message?.includes('Invalid credentials')) {
@@ -68,6 +130,37 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  // Second step: authenticator or recovery code
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken || !twoFactorCode.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      const result = await completeTwoFactorLogin(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: twoFactorCode.trim() } : { code: twoFactorCode.trim() }
+      );
+      redirectAfterLogin(result);
+    } catch (error: any) {
+      console.error('Two-factor login error:', error);
+      setTwoFactorCode('');
+      // The challenge lasts five minutes; after that the password step starts over
+      if (error.response?.data?.message?.includes('sign-in has expired')) {
+        resetChallenge();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetChallenge = () => {
+    signingIn.current = false;
+    setChallengeToken(null);
+    setUseRecoveryCode(false);
+    setTwoFactorCode('');
+  };
+
   // Animation variants
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -180,138 +273,225 @@ const LoginPage: React.FC = () => {
                     Welcome to AstroVault AI
                   </h2>
                   <p className="text-gray-400">
-                    Don't have an account? <Link href="/auth/register" className="text-blue-400 hover:text-blue-300 transition-colors">Click here</Link>
+                    Don't have an account? <Link href={{ pathname: '/auth/register', query: router.query.redirect ? { redirect: router.query.redirect } : {} }} className="text-blue-400 hover:text-blue-300 transition-colors">Click here</Link>
                   </p>
                 </motion.div>
                 {/* Global Error Display */}
-                {error && (
+                {(error || ssoError) && (
                   <motion.div
                     initial={{ opacity: 0, y: -10 }}
                     animate={{ opacity: 1, y: 0 }}
                     className="mb-4 p-3 bg-red-900/20 border border-red-500/30 rounded-lg"
                   >
-                    <p className="text-sm text-red-300">{error}</p>
+                    <p className="text-sm text-red-300">{error || ssoError}</p>
                   </motion.div>
                 )}
 
-                {/* Login Form */}
-                <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
-                  {/* Email Field */}
-                  <div>
-                    <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
-                      Email Address
-                    </label>
-                    <input
-                      {...register('email', {
-                        required: 'Email is required',
-                        pattern: {
-                          value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                          message: 'Invalid email address',
-                        },
-                      })}
-                      type="email"
-                      autoComplete="email"
-                      className={`w-full px-4 py-3 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                        errors.email ? 'border-red-500' : 'border-gray-600'
-                      }`}
-                      placeholder="Enter your email"
-                    />
-                    {errors.email && (
-                      <p className="mt-1 text-xs text-red-400">{errors.email.message}</p>
-                    )}
-                  </div>
-
-                  {/* Password Field */}
-                  <div>
-                    <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                      Password
-                    </label>
-                    <div className="relative">
-                      <input
-                        {...register('password', {
-                          required: 'Password is required',
-                          minLength: {
-                            value: 6,
-                            message: 'Password must be at least 6 characters',
-                          },
-                        })}
-                        type={showPassword ? 'text' : 'password'}
-                        autoComplete="current-password"
-                        className={`w-full px-4 py-3 pr-10 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                          errors.password ? 'border-red-500' : 'border-gray-600'
-                        }`}
-                        placeholder="Enter your password"
-                      />
-                      <button
-                        type="button"
-                        className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                        onClick={() => setShowPassword(!showPassword)}
-                      >
-                        {showPassword ? (
-                          <EyeSlashIcon className="h-5 w-5 text-gray-400 hover:text-gray-300" />
-                        ) : (
-                          <EyeIcon className="h-5 w-5 text-gray-400 hover:text-gray-300" />
-                        )}
-                      </button>
+                {challengeToken ? (
+                  <form className="space-y-6" onSubmit={onSubmitTwoFactor}>
+                    <div className="flex items-start gap-3 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg">
+                      <ShieldCheckIcon className="w-5 h-5 text-blue-300 mt-0.5 shrink-0" />
+                      <p className="text-sm text-gray-300">
+                        {useRecoveryCode
+                          ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                          : 'Enter the 6-digit code from your authenticator app.'}
+                      </p>
                     </div>
-                    {errors.password && (
-                      <p className="mt-1 text-xs text-red-400">{errors.password.message}</p>
-                    )}
-                  </div>
 
-                  {/* Remember Me & Forgot Password */}
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
+                    <div>
+                      <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-300 mb-2">
+                        {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                      </label>
                       <input
-                        {...register('rememberMe')}
-                        type="checkbox"
-                        className="h-4 w-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                        id="twoFactorCode"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+                        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                        autoComplete="one-time-code"
+                        autoFocus
+                        className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white tracking-widest placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
                       />
-                      <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-300">
-                        Remember me
-                      </label>
                     </div>
 
-                    <div className="text-sm">
-                      <Link
-                        href="/auth/forgot-password"
-                        className="font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200"
-                      >
-                        Forgot your password?
-                      </Link>
-                    </div>
-                  </div>
-
-                  {/* Submit Button */}
-                  <div>
                     <motion.button
                       type="submit"
-                      disabled={isSubmitting}
+                      disabled={isSubmitting || (!useRecoveryCode && twoFactorCode.length !== 6) || !twoFactorCode}
                       whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
                       whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
                       className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
                     >
-                      {isSubmitting ? (
-                        <div className="flex items-center space-x-2">
-                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                          <span>Signing in...</span>
+                      {isSubmitting ? 'Verifying...' : 'Verify'}
+                    </motion.button>
+
+                    <div className="flex items-center justify-between text-sm">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setUseRecoveryCode(!useRecoveryCode);
+                          setTwoFactorCode('');
+                        }}
+                        className="text-blue-400 hover:text-blue-300 transition-colors"
+                      >
+                        {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={resetChallenge}
+                        className="text-gray-400 hover:text-gray-300 transition-colors"
+                      >
+                        Back to sign in
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    {/* Login Form */}
+                    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+                      {/* Email Field */}
+                      <div>
+                        <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+                          Email Address
+                        </label>
+                        <input
+                          {...register('email', {
+                            required: 'Email is required',
+                            pattern: {
+                              value: EMAIL_PATTERN,
+                              message: 'Invalid email address',
+                            },
+                            onBlur: (e) => lookupSso(e.target.value),
+                          })}
+                          type="email"
+                          autoComplete="email"
+                          className={`w-full px-4 py-3 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                            errors.email ? 'border-red-500' : 'border-gray-600'
+                          }`}
+                          placeholder="Enter your email"
+                        />
+                        {errors.email && (
+                          <p className="mt-1 text-xs text-red-400">{errors.email.message}</p>
+                        )}
+                      </div>
+
+                      {/* Single sign-on for the email's organization */}
+                      {ssoOrganization && (
+                        <div className="p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg space-y-3">
+                          <div className="flex items-start gap-3">
+                            <BuildingOffice2Icon className="w-5 h-5 text-blue-300 mt-0.5 shrink-0" />
+                            <p className="text-sm text-gray-300">
+                              {ssoOrganization.enforced
+                                ? `${ssoOrganization.organizationName} signs in with your company account.`
+                                : `${ssoOrganization.organizationName} lets you sign in with your company account.`}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={startSso}
+                            className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+                          >
+                            Continue with SSO
+                          </button>
                         </div>
-                      ) : (
-                        'Login'
                       )}
-                    </motion.button>
-                  </div>
-                </form>
 
-                {/* Forgot Password Link */}
-                <div className="mt-6 text-center">
-                  <Link
-                    href="/auth/forgot-password"
-                    className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
-                  >
-                    Forgot your password? Click here
-                  </Link>
-                </div>
+                      {!ssoOrganization?.enforced && (
+                        <>
+                          {/* Password Field */}
+                          <div>
+                            <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                              Password
+                            </label>
+                            <div className="relative">
+                              <input
+                                {...register('password', {
+                                  required: 'Password is required',
+                                  minLength: {
+                                    value: 6,
+                                    message: 'Password must be at least 6 characters',
+                                  },
+                                })}
+                                type={showPassword ? 'text' : 'password'}
+                                autoComplete="current-password"
+                                className={`w-full px-4 py-3 pr-10 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                  errors.password ? 'border-red-500' : 'border-gray-600'
+                                }`}
+                                placeholder="Enter your password"
+                              />
+                              <button
+                                type="button"
+                                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                                onClick={() => setShowPassword(!showPassword)}
+                              >
+                                {showPassword ? (
+                                  <EyeSlashIcon className="h-5 w-5 text-gray-400 hover:text-gray-300" />
+                                ) : (
+                                  <EyeIcon className="h-5 w-5 text-gray-400 hover:text-gray-300" />
+                                )}
+                              </button>
+                            </div>
+                            {errors.password && (
+                              <p className="mt-1 text-xs text-red-400">{errors.password.message}</p>
+                            )}
+                          </div>
+
+                          {/* Remember Me & Forgot Password */}
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center">
+                              <input
+                                {...register('rememberMe')}
+                                type="checkbox"
+                                className="h-4 w-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                              />
+                              <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-300">
+                                Remember me
+                              </label>
+                            </div>
+
+                            <div className="text-sm">
+                              <Link
+                                href="/auth/forgot-password"
+                                className="font-medium text-blue-400 hover:text-blue-300 transition-colors duration-200"
+                              >
+                                Forgot your password?
+                              </Link>
+                            </div>
+                          </div>
+
+                          {/* Submit Button */}
+                          <div>
+                            <motion.button
+                              type="submit"
+                              disabled={isSubmitting}
+                              whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
+                              whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
+                              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                            >
+                              {isSubmitting ? (
+                                <div className="flex items-center space-x-2">
+                                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                                  <span>Signing in...</span>
+                                </div>
+                              ) : (
+                                'Login'
+                              )}
+                            </motion.button>
+                          </div>
+                        </>
+                      )}
+                    </form>
+
+                    {/* Forgot Password Link */}
+                    <div className="mt-6 text-center">
+                      <Link
+                        href="/auth/forgot-password"
+                        className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+                      >
+                        Forgot your password? Click here
+                      </Link>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </div>
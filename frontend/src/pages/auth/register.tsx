@@ -48,7 +48,7 @@ const RegisterPage: React.FC = () => {
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated && !isLoading) {
-      router.push('/dashboard');
+      router.push((router.query.redirect as string) || '/dashboard');
     }
   }, [isAuthenticated, isLoading, router.query.redirect]);
 
@@ -76,8 +76,8 @@ const RegisterPage: React.FC = () => {
 
       await registerUser(registrationData);
       
-      // Redirect to dashboard
-      router.push('/dashboard');
+      // Redirect to dashboard (or back to an invitation being accepted)
+      router.push((router.query.redirect as string) || '/dashboard');
     } catch (error: any) {
       console.error('Registration error:', error);
       
@@ -202,7 +202,7 @@ const RegisterPage: React.FC = () => {
                     Create your account
                   </h2>
                   <p className="text-gray-400">
-                    Already have an account? <Link href="/auth/login" className="text-blue-400 hover:text-blue-300 transition-colors">Click here</Link>
+                    Already have an account? <Link href={{ pathname: '/auth/login', query: router.query.redirect ? { redirect: router.query.redirect } : {} }} className="text-blue-400 hover:text-blue-300 transition-colors">Click here</Link>
                   </p>
                 </motion.div>
                 {/* Global Error Display */}
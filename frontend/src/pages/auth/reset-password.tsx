@@ -0,0 +1,165 @@
+/**
+ * Reset Password Page
+ * Sets a new password with the single-use token from the reset email
+ */
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { EyeIcon, EyeSlashIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import AuthCard from '@/components/auth/AuthCard';
+import { authApi, apiUtils } from '@/lib/api';
+
+interface ResetPasswordFormData {
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const ResetPasswordPage: React.FC = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [showPassword, setShowPassword] = useState(false);
+  const [done, setDone] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>();
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await authApi.resetPassword(token, data.newPassword);
+      // Every session was revoked, including this browser's
+      apiUtils.removeAuthToken();
+      setDone(true);
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      // A malformed token fails validation, an unknown or used one fails the lookup
+      const data = error.response?.data;
+      const message = data?.errors?.find((item: any) => item.field === 'token')?.message || data?.message || '';
+      if (message.toLowerCase().includes('reset link')) {
+        setLinkError(message);
+      }
+    }
+  };
+
+  if (router.isReady && (!token || linkError)) {
+    return (
+      <AuthCard title="Reset link not valid">
+        <p className="text-gray-300 mb-6">
+          {linkError || 'This page needs the link from your reset email.'} Reset links expire after one hour and
+          work only once.
+        </p>
+        <Link
+          href="/auth/forgot-password"
+          className="block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          Request a new link
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (done) {
+    return (
+      <AuthCard title="Password updated">
+        <div className="flex items-start gap-3 p-4 bg-green-900/20 border border-green-500/30 rounded-lg mb-6">
+          <CheckCircleIcon className="w-5 h-5 text-green-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">
+            Your password has been changed and you have been signed out everywhere. Sign in with your new password.
+          </p>
+        </div>
+        <Link
+          href="/auth/login"
+          className="block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          Sign in
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a new password" subtitle="You will be signed out on every device once your password is changed.">
+      <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        <div>
+          <label htmlFor="newPassword" className="block text-sm font-medium text-gray-300 mb-2">
+            New Password
+          </label>
+          <div className="relative">
+            <input
+              {...register('newPassword', {
+                required: 'Password is required',
+                minLength: {
+                  value: 6,
+                  message: 'Password must be at least 6 characters',
+                },
+                pattern: {
+                  value: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+                  message: 'Password must contain an uppercase letter, a lowercase letter and a number',
+                },
+              })}
+              id="newPassword"
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              className={`w-full px-4 py-3 pr-10 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                errors.newPassword ? 'border-red-500' : 'border-gray-600'
+              }`}
+              placeholder="Enter a new password"
+            />
+            <button
+              type="button"
+              className="absolute inset-y-0 right-0 pr-3 flex items-center"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? (
+                <EyeSlashIcon className="h-5 w-5 text-gray-400 hover:text-gray-300" />
+              ) : (
+                <EyeIcon className="h-5 w-5 text-gray-400 hover:text-gray-300" />
+              )}
+            </button>
+          </div>
+          {errors.newPassword && (
+            <p className="mt-1 text-xs text-red-400">{errors.newPassword.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
+            Confirm Password
+          </label>
+          <input
+            {...register('confirmPassword', {
+              required: 'Please confirm your password',
+              validate: value => value === watch('newPassword') || 'Passwords do not match',
+            })}
+            id="confirmPassword"
+            type={showPassword ? 'text' : 'password'}
+            autoComplete="new-password"
+            className={`w-full px-4 py-3 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              errors.confirmPassword ? 'border-red-500' : 'border-gray-600'
+            }`}
+            placeholder="Repeat the new password"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-xs text-red-400">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !token}
+          className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? 'Saving...' : 'Reset password'}
+        </button>
+      </form>
+    </AuthCard>
+  );
+};
+
+export default ResetPasswordPage;
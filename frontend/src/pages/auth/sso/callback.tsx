@@ -0,0 +1,74 @@
+/**
+ * SSO Callback Page
+ * The API redirects here after an identity provider sign-in, with the new session in the
+ * refresh cookie; this page exchanges it for an access token and continues to the app
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import AuthCard from '@/components/auth/AuthCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiUtils, refreshAccessToken } from '@/lib/api';
+
+// Only follow redirects to pages on this site
+const safeRedirect = (redirect: unknown) =>
+  typeof redirect === 'string' && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
+
+const SsoCallbackPage: React.FC = () => {
+  const router = useRouter();
+  const { refreshUser } = useAuth();
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    const finishSignIn = async () => {
+      // A token from an earlier account in this browser must not outlive the new session
+      apiUtils.removeAuthToken();
+
+      const token = await refreshAccessToken();
+      if (!token) {
+        setFailed(true);
+        return;
+      }
+
+      await refreshUser();
+      toast.success('Login successful!');
+      router.replace(safeRedirect(router.query.redirect));
+    };
+
+    finishSignIn();
+  }, [router.isReady]);
+
+  if (failed) {
+    return (
+      <AuthCard title="Sign-in did not complete">
+        <div className="flex items-start gap-3 p-4 bg-red-900/20 border border-red-500/30 rounded-lg mb-6">
+          <ExclamationTriangleIcon className="w-5 h-5 text-red-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">
+            We could not start your session. Your browser may be blocking cookies for this site.
+          </p>
+        </div>
+        <Link
+          href="/auth/login"
+          className="block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          Back to sign in
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Signing you in">
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default SsoCallbackPage;
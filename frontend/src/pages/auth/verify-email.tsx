@@ -0,0 +1,117 @@
+/**
+ * Verify Email Page
+ * Confirms an email address with the single-use token from the verification email
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import AuthCard from '@/components/auth/AuthCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/lib/api';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, user, refreshUser } = useAuth();
+  const [state, setState] = useState<VerifyState>('verifying');
+  const [message, setMessage] = useState('');
+  const [resending, setResending] = useState(false);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (!router.isReady || attempted.current) return;
+    attempted.current = true;
+
+    const token = typeof router.query.token === 'string' ? router.query.token : '';
+    if (!token) {
+      setState('failed');
+      setMessage('This page needs the link from your verification email.');
+      return;
+    }
+
+    authApi.verifyEmail(token)
+      .then(() => {
+        setState('verified');
+        if (isAuthenticated) {
+          refreshUser();
+        }
+      })
+      .catch((error: any) => {
+        setState('failed');
+        const data = error.response?.data;
+        setMessage(data?.errors?.[0]?.message || data?.message || 'This verification link could not be used.');
+      });
+  }, [router.isReady]);
+
+  const handleResend = async () => {
+    try {
+      setResending(true);
+      const response = await authApi.resendVerification();
+      toast.success(response.message || 'Verification email sent');
+    } catch (error) {
+      console.error('Resend verification error:', error);
+    } finally {
+      setResending(false);
+    }
+  };
+
+  if (state === 'verifying') {
+    return (
+      <AuthCard title="Verifying your email">
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (state === 'verified') {
+    return (
+      <AuthCard title="Email verified">
+        <div className="flex items-start gap-3 p-4 bg-green-900/20 border border-green-500/30 rounded-lg mb-6">
+          <CheckCircleIcon className="w-5 h-5 text-green-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">Thanks for confirming your email address.</p>
+        </div>
+        <Link
+          href={isAuthenticated ? '/dashboard' : '/auth/login'}
+          className="block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Verification link not valid">
+      <div className="flex items-start gap-3 p-4 bg-red-900/20 border border-red-500/30 rounded-lg mb-6">
+        <ExclamationTriangleIcon className="w-5 h-5 text-red-300 mt-0.5 shrink-0" />
+        <p className="text-sm text-gray-300">
+          {message} Verification links expire after 24 hours and work only once.
+        </p>
+      </div>
+      {isAuthenticated && !user?.isEmailVerified ? (
+        <button
+          onClick={handleResend}
+          disabled={resending}
+          className="w-full py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {resending ? 'Sending...' : 'Send a new link'}
+        </button>
+      ) : (
+        <Link
+          href={isAuthenticated ? '/dashboard' : '/auth/login?redirect=/dashboard'}
+          className="block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          {isAuthenticated ? 'Go to your dashboard' : 'Sign in to request a new link'}
+        </Link>
+      )}
+    </AuthCard>
+  );
+};
+
+export default VerifyEmailPage;
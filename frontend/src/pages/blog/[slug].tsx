@@ -0,0 +1,268 @@
+/**
+ * Blog Post Page
+ * Renders a published post with its related solutions and further reading
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeftIcon,
+  CalendarIcon,
+  ClockIcon,
+  EyeIcon,
+  TagIcon,
+  StarIcon,
+  BookOpenIcon
+} from '@heroicons/react/24/outline';
+import Layout from '@/components/Layout/Layout';
+import MarkdownContent from '@/components/blog/MarkdownContent';
+import { blogApi, BlogPost, BlogRelatedSolution } from '@/lib/api';
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+const BlogPostPage: React.FC = () => {
+  const router = useRouter();
+  const { slug } = router.query;
+  const [post, setPost] = useState<BlogPost | null>(null);
+  const [relatedBlogs, setRelatedBlogs] = useState<BlogPost[]>([]);
+  const [isPreview, setIsPreview] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof slug !== 'string') return;
+
+    const fetchPost = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await blogApi.getBlog(slug);
+        if (response.success) {
+          setPost(response.blog);
+          setRelatedBlogs(response.relatedBlogs || []);
+          setIsPreview(response.isPreview);
+        }
+      } catch (err: any) {
+        console.error('Error fetching blog post:', err);
+        setError(err.response?.status === 404 ? 'This post could not be found' : 'Failed to load blog post');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPost();
+  }, [slug]);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-white flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || !post) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-white flex flex-col items-center justify-center text-center px-4">
+          <BookOpenIcon className="h-16 w-16 text-gray-400 mb-4" />
+          <h1 className="text-xl font-medium text-gray-900 mb-2">{error || 'Post not found'}</h1>
+          <Link href="/blog" className="text-blue-600 hover:text-blue-700">
+            Back to the blog
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const relatedSolutions = (post.relatedSolutions || []).filter(Boolean) as BlogRelatedSolution[];
+
+  return (
+    <>
+      <Head>
+        <title>{post.metaTitle || post.title} - AstroVault AI</title>
+        <meta name="description" content={post.metaDescription || post.excerpt} />
+        {isPreview && <meta name="robots" content="noindex" />}
+      </Head>
+
+      <Layout>
+        <div className="bg-white">
+          <article className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {isPreview && (
+              <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                Preview of a {post.status} post
+                {post.status === 'scheduled' && post.scheduledAt && ` (goes live ${new Date(post.scheduledAt).toLocaleString()})`}.
+                Only authors can see this page.
+              </div>
+            )}
+
+            <Link href="/blog" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-6">
+              <ArrowLeftIcon className="h-4 w-4 mr-1" />
+              All posts
+            </Link>
+
+            {/* Header */}
+            <motion.header initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+              <div className="flex items-center space-x-2 mb-4">
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
+                  {post.category}
+                </span>
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  {post.industry}
+                </span>
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">{post.title}</h1>
+              <p className="text-lg text-gray-600 mb-6">{post.excerpt}</p>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
+                <div className="flex items-center space-x-2">
+                  {post.authorAvatar && (
+                    <img src={post.authorAvatar} alt={post.authorName} className="w-8 h-8 rounded-full" />
+                  )}
+                  <span className="text-gray-700 font-medium">{post.authorName}</span>
+                </div>
+                {post.publishedAt && (
+                  <div className="flex items-center space-x-1">
+                    <CalendarIcon className="h-4 w-4" />
+                    <span>{formatDate(post.publishedAt)}</span>
+                  </div>
+                )}
+                <div className="flex items-center space-x-1">
+                  <ClockIcon className="h-4 w-4" />
+                  <span>{post.readTime} min read</span>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <EyeIcon className="h-4 w-4" />
+                  <span>{post.views} views</span>
+                </div>
+              </div>
+            </motion.header>
+
+            {post.featuredImage?.url && (
+              <figure className="mb-8">
+                <img
+                  src={post.featuredImage.url}
+                  alt={post.featuredImage.alt || post.title}
+                  className="w-full rounded-xl object-cover max-h-[28rem]"
+                />
+                {post.featuredImage.caption && (
+                  <figcaption className="text-sm text-gray-500 mt-2 text-center">{post.featuredImage.caption}</figcaption>
+                )}
+              </figure>
+            )}
+
+            <MarkdownContent content={post.content || ''} />
+
+            {post.tags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mt-8 pt-6 border-t border-gray-200">
+                <TagIcon className="h-4 w-4 text-gray-400" />
+                {post.tags.map(tag => (
+                  <span key={tag} className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-700">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {post.authorBio && (
+              <div className="mt-8 p-6 bg-gray-50 rounded-xl flex items-start space-x-4">
+                {post.authorAvatar && (
+                  <img src={post.authorAvatar} alt={post.authorName} className="w-12 h-12 rounded-full" />
+                )}
+                <div>
+                  <p className="font-semibold text-gray-900">About {post.authorName}</p>
+                  <p className="text-gray-600 text-sm mt-1">{post.authorBio}</p>
+                </div>
+              </div>
+            )}
+          </article>
+
+          {/* Related Solutions */}
+          {relatedSolutions.length > 0 && (
+            <section className="bg-gray-50 border-t border-gray-200">
+              <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+                <h2 className="text-2xl font-bold text-gray-900 mb-6">Solutions mentioned in this post</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {relatedSolutions.map(solution => (
+                    <Link
+                      key={solution._id}
+                      href={`/solutions/${solution._id}`}
+                      className="bg-white rounded-lg shadow-sm border border-gray-200 p-5 hover:shadow-md transition-shadow"
+                    >
+                      <div className="flex items-center space-x-3 mb-3">
+                        {typeof solution.companyId === 'object' && solution.companyId?.logo ? (
+                          <img src={solution.companyId.logo} alt={solution.companyId.name} className="w-10 h-10 rounded-lg object-cover" />
+                        ) : (
+                          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-white font-bold">
+                            {solution.title.charAt(0)}
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <h3 className="font-semibold text-gray-900 truncate">{solution.title}</h3>
+                          {typeof solution.companyId === 'object' && solution.companyId?.name && (
+                            <p className="text-xs text-gray-500 truncate">{solution.companyId.name}</p>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-sm text-gray-600 line-clamp-3 mb-3">{solution.shortDescription}</p>
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{solution.category}</span>
+                        {solution.rating?.count ? (
+                          <span className="flex items-center">
+                            <StarIcon className="h-4 w-4 text-yellow-400 mr-1" />
+                            {solution.rating.average.toFixed(1)}
+                          </span>
+                        ) : (
+                          <span>{solution.pricing?.model}</span>
+                        )}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* Further Reading */}
+          {relatedBlogs.length > 0 && (
+            <section className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Keep reading</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {relatedBlogs.map(related => (
+                  <Link
+                    key={related._id}
+                    href={`/blog/${related.slug}`}
+                    className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow"
+                  >
+                    {related.featuredImage?.url && (
+                      <img src={related.featuredImage.url} alt={related.title} className="w-full h-32 object-cover" />
+                    )}
+                    <div className="p-4">
+                      <h3 className="font-semibold text-gray-900 line-clamp-2 mb-2">{related.title}</h3>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(related.publishedAt)} · {related.readTime} min read
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default BlogPostPage;
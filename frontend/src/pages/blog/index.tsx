@@ -1,9 +1,9 @@
 /**
  * Blog Page - Database-driven Blog Posts
- * Displays blog posts with filtering, search, and pagination
+ * Displays published blog posts with filtering, search, and pagination
  */
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import { 
   FunnelIcon,
@@ -20,130 +20,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import Link from 'next/link';
 import Layout from '@/components/Layout/Layout';
 import AdvancedSearchModal from '@/components/AdvancedSearchModal';
+import { blogApi, BlogPost } from '@/lib/api';
 
-// Sample blog posts (in a real app, this would come from the database)
-const BLOG_POSTS = [
-  {
-    _id: '1',
-    title: 'The Future of AI in Healthcare: Trends and Opportunities',
-    slug: 'future-of-ai-in-healthcare-trends-and-opportunities',
-    excerpt: 'Explore how artificial intelligence is revolutionizing healthcare delivery, from diagnosis to treatment optimization.',
-    content: 'Artificial intelligence is transforming healthcare at an unprecedented pace...',
-    authorId: '1',
-    authorName: 'Dr. Sarah Johnson',
-    authorAvatar: 'https://images.unsplash.com/photo-1559839734-2b71ea197ec2?w=150&h=150&fit=crop&crop=face',
-    category: 'Healthcare AI',
-    industry: 'Healthcare',
-    tags: ['healthcare', 'ai-trends', 'medical-ai', 'innovation'],
-    status: 'published',
-    isFeatured: true,
-    publishedAt: '2025-01-15T10:00:00Z',
-    readTime: 8,
-    views: 1250,
-    likes: 45,
-    image: 'https://images.unsplash.com/photo-1576091160399-112ba8d25d1f?w=800&h=400&fit=crop'
-  },
-  {
-    _id: '2',
-    title: 'Building Effective AI Chatbots: Best Practices and Common Pitfalls',
-    slug: 'building-effective-ai-chatbots-best-practices-and-common-pitfalls',
-    excerpt: 'Learn the essential strategies for creating AI chatbots that actually work and deliver value to your business.',
-    content: 'Creating an effective AI chatbot requires careful planning and execution...',
-    authorId: '2',
-    authorName: 'John Smith',
-    authorAvatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=150&h=150&fit=crop&crop=face',
-    category: 'AI Chatbots',
-    industry: 'Technology',
-    tags: ['chatbots', 'best-practices', 'customer-service', 'automation'],
-    status: 'published',
-    isFeatured: true,
-    publishedAt: '2025-01-10T14:30:00Z',
-    readTime: 6,
-    views: 890,
-    likes: 32,
-    image: 'https://images.unsplash.com/photo-1485827404703-89b55fcc595e?w=800&h=400&fit=crop'
-  },
-  {
-    _id: '3',
-    title: 'Machine Learning in Finance: Risk Assessment and Fraud Detection',
-    slug: 'machine-learning-finance-risk-assessment-fraud-detection',
-    excerpt: 'Discover how financial institutions are leveraging ML to improve risk management and detect fraudulent activities.',
-    content: 'The financial industry has been at the forefront of adopting machine learning...',
-    authorId: '3',
-    authorName: 'Michael Chen',
-    authorAvatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
-    category: 'Machine Learning',
-    industry: 'Finance',
-    tags: ['machine-learning', 'finance', 'risk-management', 'fraud-detection'],
-    status: 'published',
-    isFeatured: false,
-    publishedAt: '2025-01-08T09:15:00Z',
-    readTime: 10,
-    views: 756,
-    likes: 28,
-    image: 'https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800&h=400&fit=crop'
-  },
-  {
-    _id: '4',
-    title: 'Computer Vision Applications in Manufacturing: Quality Control Revolution',
-    slug: 'computer-vision-manufacturing-quality-control-revolution',
-    excerpt: 'How computer vision is transforming quality control processes in manufacturing industries.',
-    content: 'Manufacturing companies are increasingly turning to computer vision...',
-    authorId: '4',
-    authorName: 'Emily Davis',
-    authorAvatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
-    category: 'Computer Vision',
-    industry: 'Manufacturing',
-    tags: ['computer-vision', 'manufacturing', 'quality-control', 'automation'],
-    status: 'published',
-    isFeatured: false,
-    publishedAt: '2025-01-05T16:45:00Z',
-    readTime: 7,
-    views: 634,
-    likes: 19,
-    image: 'https://images.unsplash.com/photo-1565043589221-1a6fd9e2a937?w=800&h=400&fit=crop'
-  },
-  {
-    _id: '5',
-    title: 'Natural Language Processing: Breaking Down Language Barriers in Business',
-    slug: 'natural-language-processing-breaking-down-language-barriers-business',
-    excerpt: 'Explore how NLP is helping businesses communicate across languages and extract insights from text data.',
-    content: 'Natural Language Processing has evolved significantly in recent years...',
-    authorId: '5',
-    authorName: 'David Wilson',
-    authorAvatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=150&h=150&fit=crop&crop=face',
-    category: 'Natural Language Processing',
-    industry: 'Technology',
-    tags: ['nlp', 'language-processing', 'business', 'communication'],
-    status: 'published',
-    isFeatured: false,
-    publishedAt: '2025-01-03T11:20:00Z',
-    readTime: 9,
-    views: 567,
-    likes: 23,
-    image: 'https://images.unsplash.com/photo-1516321318423-f06f85e504b3?w=800&h=400&fit=crop'
-  },
-  {
-    _id: '6',
-    title: 'AI Ethics in Business: Responsible AI Implementation',
-    slug: 'ai-ethics-business-responsible-ai-implementation',
-    excerpt: 'Understanding the importance of ethical AI practices and how to implement responsible AI in your organization.',
-    content: 'As AI becomes more prevalent in business operations...',
-    authorId: '6',
-    authorName: 'Lisa Anderson',
-    authorAvatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150&h=150&fit=crop&crop=face',
-    category: 'AI Ethics',
-    industry: 'Technology',
-    tags: ['ai-ethics', 'responsible-ai', 'business', 'governance'],
-    status: 'published',
-    isFeatured: false,
-    publishedAt: '2025-01-01T08:00:00Z',
-    readTime: 12,
-    views: 423,
-    likes: 31,
-    image: 'https://images.unsplash.com/photo-1552664730-d307ca884978?w=800&h=400&fit=crop'
-  }
-];
+// Shown when a post has no featured image
+const PLACEHOLDER_IMAGE = 'https://images.unsplash.com/photo-1677442136019-21780ecad995?w=800&h=400&fit=crop';
 
 const CATEGORIES = [
   'All Categories',
@@ -194,36 +74,44 @@ const BlogPage: React.FC = () => {
     limit: 12
   });
 
-  // Filter and sort blog posts
-  const filteredPosts = BLOG_POSTS
-    .filter(post => {
-      if (filters.search && !post.title.toLowerCase().includes(filters.search.toLowerCase()) && 
-          !post.excerpt.toLowerCase().includes(filters.search.toLowerCase())) {
-        return false;
-      }
-      if (filters.category !== 'All Categories' && post.category !== filters.category) {
-        return false;
-      }
-      if (filters.industry !== 'All Industries' && post.industry !== filters.industry) {
-        return false;
-      }
-      return true;
-    })
-    .sort((a, b) => {
-      switch (filters.sort) {
-        case 'oldest':
-          return new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime();
-        case 'popular':
-          return b.views - a.views;
-        case 'trending':
-          return b.likes - a.likes;
-        default:
-          return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
+  const [posts, setPosts] = useState<BlogPost[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  // Fetch published posts whenever the filters change
+  useEffect(() => {
+    const fetchPosts = async () => {
+      try {
+        setLoading(true);
+        const response = await blogApi.getBlogs({
+          page: filters.page,
+          limit: filters.limit,
+          search: filters.search || undefined,
+          category: filters.category !== 'All Categories' ? filters.category : undefined,
+          industry: filters.industry !== 'All Industries' ? filters.industry : undefined,
+          sort: filters.sort as 'newest' | 'oldest' | 'popular' | 'trending'
+        });
+        if (response.success) {
+          setPosts(response.blogs);
+          setTotal(response.total);
+          setTotalPages(response.totalPages || 1);
+        }
+      } catch (error) {
+        console.error('Error fetching blog posts:', error);
+      } finally {
+        setLoading(false);
       }
-    });
+    };
+
+    fetchPosts();
+  }, [filters.search, filters.category, filters.industry, filters.sort, filters.page, filters.limit]);
+
+  const filteredPosts = posts;
 
   const handleFilterChange = (key: keyof FilterState, value: any) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+    // Any filter other than the page itself starts again from page 1
+    setFilters(prev => ({ ...prev, [key]: value, ...(key !== 'page' && key !== 'viewMode' && { page: 1 }) }));
   };
 
   const handleAdvancedSearch = (newFilters: FilterState) => {
@@ -236,7 +124,9 @@ const BlogPage: React.FC = () => {
       category: 'All Categories',
       industry: 'All Industries',
       sort: 'newest',
-      viewMode: filters.viewMode
+      viewMode: filters.viewMode,
+      page: 1,
+      limit: filters.limit
     });
   };
 
@@ -244,7 +134,8 @@ const BlogPage: React.FC = () => {
     router.push(`/blog/${slug}`);
   };
 
-  const formatDate = (dateString: string) => {
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
@@ -266,7 +157,7 @@ const BlogPage: React.FC = () => {
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
               <div className="flex items-center justify-between">
                 <div className="text-sm text-gray-600">
-                  Showing <span className="font-medium">{filteredPosts.length}</span> blog posts
+                  Showing <span className="font-medium">{filteredPosts.length}</span> of {total} blog posts
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
@@ -303,8 +194,8 @@ const BlogPage: React.FC = () => {
               >
                 <div className="relative h-64 md:h-80">
                   <img
-                    src={filteredPosts[0].image}
-                    alt={filteredPosts[0].title}
+                    src={filteredPosts[0].featuredImage?.url || PLACEHOLDER_IMAGE}
+                    alt={filteredPosts[0].featuredImage?.alt || filteredPosts[0].title}
                     className="w-full h-full object-cover"
                   />
                   <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
@@ -324,11 +215,13 @@ const BlogPage: React.FC = () => {
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <div className="flex items-center space-x-4">
                       <div className="flex items-center space-x-2">
-                        <img
-                          src={filteredPosts[0].authorAvatar}
-                          alt={filteredPosts[0].authorName}
-                          className="w-6 h-6 rounded-full"
-                        />
+                        {filteredPosts[0].authorAvatar && (
+                          <img
+                            src={filteredPosts[0].authorAvatar}
+                            alt={filteredPosts[0].authorName}
+                            className="w-6 h-6 rounded-full"
+                          />
+                        )}
                         <span className="text-gray-700">{filteredPosts[0].authorName}</span>
                       </div>
                       <div className="flex items-center space-x-1">
@@ -377,8 +270,8 @@ const BlogPage: React.FC = () => {
                     >
                       <div className="relative h-48">
                         <img
-                          src={post.image}
-                          alt={post.title}
+                          src={post.featuredImage?.url || PLACEHOLDER_IMAGE}
+                          alt={post.featuredImage?.alt || post.title}
                           className="w-full h-full object-cover"
                         />
                         {post.isFeatured && (
@@ -405,11 +298,13 @@ const BlogPage: React.FC = () => {
                         <div className="flex items-center justify-between text-sm text-gray-500">
                           <div className="flex items-center space-x-3">
                             <div className="flex items-center space-x-1">
-                              <img
-                                src={post.authorAvatar}
-                                alt={post.authorName}
-                                className="w-5 h-5 rounded-full"
-                              />
+                              {post.authorAvatar && (
+                                <img
+                                  src={post.authorAvatar}
+                                  alt={post.authorName}
+                                  className="w-5 h-5 rounded-full"
+                                />
+                              )}
                               <span>{post.authorName}</span>
                             </div>
                             <div className="flex items-center space-x-1">
@@ -452,8 +347,8 @@ const BlogPage: React.FC = () => {
                       <div className="flex items-start space-x-6">
                         <div className="flex-shrink-0">
                           <img
-                            src={post.image}
-                            alt={post.title}
+                            src={post.featuredImage?.url || PLACEHOLDER_IMAGE}
+                            alt={post.featuredImage?.alt || post.title}
                             className="w-32 h-32 rounded-lg object-cover"
                           />
                         </div>
@@ -480,11 +375,13 @@ const BlogPage: React.FC = () => {
                           <div className="flex items-center justify-between text-sm text-gray-500">
                             <div className="flex items-center space-x-4">
                               <div className="flex items-center space-x-2">
-                                <img
-                                  src={post.authorAvatar}
-                                  alt={post.authorName}
-                                  className="w-5 h-5 rounded-full"
-                                />
+                                {post.authorAvatar && (
+                                  <img
+                                    src={post.authorAvatar}
+                                    alt={post.authorName}
+                                    className="w-5 h-5 rounded-full"
+                                  />
+                                )}
                                 <span>{post.authorName}</span>
                               </div>
                               <div className="flex items-center space-x-1">
@@ -515,8 +412,38 @@ const BlogPage: React.FC = () => {
               )}
             </AnimatePresence>
 
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center space-x-4 mt-8">
+                <button
+                  onClick={() => handleFilterChange('page', filters.page - 1)}
+                  disabled={filters.page <= 1}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {filters.page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => handleFilterChange('page', filters.page + 1)}
+                  disabled={filters.page >= totalPages}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+
+            {/* Loading State */}
+            {loading && filteredPosts.length === 0 && (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+              </div>
+            )}
+
             {/* Empty State */}
-            {filteredPosts.length === 0 && (
+            {!loading && filteredPosts.length === 0 && (
               <div className="text-center py-12">
                 <BookOpenIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No blog posts found</h3>
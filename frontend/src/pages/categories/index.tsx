@@ -1,138 +1,49 @@
 /**
  * Categories Page - AI Solution Categories
- * Browse AI solutions by categories with statistics and featured solutions
+ * Browse AI solutions by categories with live statistics and featured solutions
  */
 
-import { useState } from 'react';
 import { useRouter } from 'next/router';
-import { 
+import {
   SparklesIcon,
   ArrowRightIcon,
-  ChartBarIcon,
-  TagIcon,
-  BuildingOfficeIcon,
-  TrendingUpIcon,
-  StarIcon,
-  EyeIcon,
-  HeartIcon
+  StarIcon
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import { useFeaturedSolutions } from '@/hooks/useSolutions';
+import { useTaxonomy } from '@/hooks/useCategories';
+import { TaxonomyEntry } from '@/lib/api';
 import Layout from '@/components/Layout/Layout';
 import Link from 'next/link';
 
-// AI Solution Categories with descriptions and stats
-const CATEGORIES = [
-  {
-    id: 'chatbots',
-    name: 'Chatbots',
-    description: 'AI-powered conversational agents for customer service, sales, and support',
-    icon: '🤖',
-    stats: { solutions: 45, companies: 12, avgRating: 4.7 },
-    popularTags: ['Customer Service', 'Sales', 'Support', 'NLP'],
-    industries: ['E-commerce', 'Healthcare', 'Finance', 'Retail']
-  },
-  {
-    id: 'predictive-analytics',
-    name: 'Predictive Analytics',
-    description: 'Machine learning models for forecasting, risk assessment, and data insights',
-    icon: '📊',
-    stats: { solutions: 32, companies: 8, avgRating: 4.8 },
-    popularTags: ['Forecasting', 'Risk Assessment', 'Data Science', 'ML'],
-    industries: ['Finance', 'Healthcare', 'Manufacturing', 'Retail']
-  },
-  {
-    id: 'computer-vision',
-    name: 'Computer Vision',
-    description: 'Image recognition, object detection, and visual AI applications',
-    icon: '👁️',
-    stats: { solutions: 28, companies: 6, avgRating: 4.6 },
-    popularTags: ['Image Recognition', 'Object Detection', 'Medical Imaging', 'Security'],
-    industries: ['Healthcare', 'Automotive', 'Security', 'Manufacturing']
-  },
-  {
-    id: 'recommendation-systems',
-    name: 'Recommendation Systems',
-    description: 'Personalized content and product recommendations using AI',
-    icon: '🎯',
-    stats: { solutions: 24, companies: 7, avgRating: 4.5 },
-    popularTags: ['Personalization', 'E-commerce', 'Content', 'Collaborative Filtering'],
-    industries: ['E-commerce', 'Media', 'Gaming', 'Education']
-  },
-  {
-    id: 'natural-language-processing',
-    name: 'Natural Language Processing',
-    description: 'Text analysis, sentiment analysis, and language understanding',
-    icon: '📝',
-    stats: { solutions: 36, companies: 10, avgRating: 4.4 },
-    popularTags: ['Sentiment Analysis', 'Text Mining', 'Translation', 'Summarization'],
-    industries: ['Finance', 'Media', 'Legal', 'Customer Service']
-  },
-  {
-    id: 'machine-learning',
-    name: 'Machine Learning',
-    description: 'ML platforms, model training, and automated ML solutions',
-    icon: '🧠',
-    stats: { solutions: 41, companies: 9, avgRating: 4.6 },
-    popularTags: ['Model Training', 'AutoML', 'MLOps', 'Deep Learning'],
-    industries: ['Technology', 'Finance', 'Healthcare', 'Manufacturing']
-  },
-  {
-    id: 'robotic-process-automation',
-    name: 'Robotic Process Automation',
-    description: 'Automated workflows and business process optimization',
-    icon: '⚙️',
-    stats: { solutions: 19, companies: 5, avgRating: 4.3 },
-    popularTags: ['Workflow Automation', 'Process Optimization', 'BPA', 'Integration'],
-    industries: ['Finance', 'Healthcare', 'Manufacturing', 'Government']
-  },
-  {
-    id: 'voice-recognition',
-    name: 'Voice Recognition',
-    description: 'Speech-to-text, voice assistants, and audio processing',
-    icon: '🎤',
-    stats: { solutions: 15, companies: 4, avgRating: 4.2 },
-    popularTags: ['Speech-to-Text', 'Voice Assistants', 'Audio Processing', 'ASR'],
-    industries: ['Healthcare', 'Automotive', 'Customer Service', 'Accessibility']
-  },
-  {
-    id: 'image-recognition',
-    name: 'Image Recognition',
-    description: 'Visual search, image classification, and visual content analysis',
-    icon: '🖼️',
-    stats: { solutions: 22, companies: 6, avgRating: 4.5 },
-    popularTags: ['Visual Search', 'Image Classification', 'Content Moderation', 'OCR'],
-    industries: ['E-commerce', 'Social Media', 'Security', 'Publishing']
-  },
-  {
-    id: 'sentiment-analysis',
-    name: 'Sentiment Analysis',
-    description: 'Emotion detection, opinion mining, and social media monitoring',
-    icon: '😊',
-    stats: { solutions: 18, companies: 5, avgRating: 4.4 },
-    popularTags: ['Emotion Detection', 'Opinion Mining', 'Social Monitoring', 'Brand Analysis'],
-    industries: ['Marketing', 'Media', 'Finance', 'Customer Service']
-  }
-];
-
 const CategoriesPage: React.FC = () => {
   const router = useRouter();
-  
+
+  // Fetch the taxonomy with live approved-solution counts
+  const { data: taxonomy, isLoading } = useTaxonomy();
+  const categories = taxonomy?.categories || [];
+  const industries = taxonomy?.industries || [];
+
   // Fetch featured solutions for each category
   const { data: featuredData } = useFeaturedSolutions(20);
   const featuredSolutions = featuredData?.solutions || [];
 
-  // Group solutions by category
-  const solutionsByCategory = CATEGORIES.reduce((acc, category) => {
-    acc[category.id] = featuredSolutions.filter((solution: any) => 
-      solution.category.toLowerCase().replace(/\s+/g, '-') === category.id
+  // Group solutions by category (solutions store the canonical category name)
+  const solutionsByCategory = categories.reduce((acc, category) => {
+    acc[category._id] = featuredSolutions.filter((solution: any) =>
+      solution.category?.toLowerCase() === category.name.toLowerCase()
     );
     return acc;
   }, {} as Record<string, any[]>);
 
-  // Handle category click
-  const handleCategoryClick = (categoryId: string) => {
-    router.push(`/solutions?category=${categoryId}`);
+  // Handle category or subcategory click
+  const handleCategoryClick = (category: TaxonomyEntry) => {
+    router.push(`/solutions?category=${category.slug}`);
+  };
+
+  // Handle industry click
+  const handleIndustryClick = (industry: TaxonomyEntry) => {
+    router.push(`/solutions?industry=${industry.slug}`);
   };
 
   // Handle tag click
@@ -145,21 +56,28 @@ const CategoriesPage: React.FC = () => {
       <div className="bg-white">
       {/* Categories Grid */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : categories.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">No categories have been set up yet.</div>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {CATEGORIES.map((category, index) => (
+          {categories.map((category, index) => (
             <motion.div
-              key={category.id}
+              key={category._id}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.1 }}
+              transition={{ delay: Math.min(index, 10) * 0.1 }}
               whileHover={{ y: -8 }}
               className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 cursor-pointer group"
-              onClick={() => handleCategoryClick(category.id)}
+              onClick={() => handleCategoryClick(category)}
             >
               {/* Category Header */}
               <div className="p-6">
                 <div className="flex items-center space-x-4 mb-4">
-                  <div className="text-4xl">{category.icon}</div>
+                  <div className="text-4xl">{category.icon || '📁'}</div>
                   <div className="flex-1">
                     <h3 className="text-xl font-semibold text-gray-900 group-hover:text-blue-500 transition-colors">
                       {category.name}
@@ -174,74 +92,101 @@ const CategoriesPage: React.FC = () => {
                 <div className="grid grid-cols-3 gap-4 mb-4">
                   <div className="text-center">
                     <div className="text-lg font-bold text-blue-500">
-                      {category.stats.solutions}
+                      {category.solutionCount}
                     </div>
                     <div className="text-xs text-gray-500">Solutions</div>
                   </div>
                   <div className="text-center">
                     <div className="text-lg font-bold text-blue-500">
-                      {category.stats.companies}
+                      {category.companyCount}
                     </div>
                     <div className="text-xs text-gray-500">Companies</div>
                   </div>
                   <div className="text-center">
                     <div className="text-lg font-bold text-blue-500">
-                      {category.stats.avgRating}
+                      {category.averageRating ? category.averageRating.toFixed(1) : '–'}
                     </div>
                     <div className="text-xs text-gray-500">Avg Rating</div>
                   </div>
                 </div>
 
+                {/* Subcategories */}
+                {category.children && category.children.length > 0 && (
+                  <div className="mb-4">
+                    <div className="text-sm font-medium text-gray-700 mb-2">Subcategories</div>
+                    <div className="flex flex-wrap gap-1">
+                      {category.children.map((child) => (
+                        <button
+                          key={child._id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleCategoryClick(child);
+                          }}
+                          className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-50 text-purple-600 hover:bg-purple-100 transition-colors border border-purple-200"
+                        >
+                          {child.icon && <span className="mr-1">{child.icon}</span>}
+                          {child.name}
+                          <span className="ml-1 text-purple-400">{child.solutionCount}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Popular Tags */}
-                <div className="mb-4">
-                  <div className="text-sm font-medium text-gray-700 mb-2">Popular Tags</div>
-                  <div className="flex flex-wrap gap-1">
-                    {category.popularTags.slice(0, 3).map((tag) => (
-                      <button
-                        key={tag}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleTagClick(tag);
-                        }}
-                        className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-600 hover:bg-blue-100 transition-colors border border-blue-200"
-                      >
-                        {tag}
-                      </button>
-                    ))}
-                    {category.popularTags.length > 3 && (
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
-                        +{category.popularTags.length - 3} more
-                      </span>
-                    )}
+                {category.topTags && category.topTags.length > 0 && (
+                  <div className="mb-4">
+                    <div className="text-sm font-medium text-gray-700 mb-2">Popular Tags</div>
+                    <div className="flex flex-wrap gap-1">
+                      {category.topTags.slice(0, 3).map((tag) => (
+                        <button
+                          key={tag}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleTagClick(tag);
+                          }}
+                          className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-600 hover:bg-blue-100 transition-colors border border-blue-200"
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                      {category.topTags.length > 3 && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
+                          +{category.topTags.length - 3} more
+                        </span>
+                      )}
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* Industries */}
-                <div className="mb-4">
-                  <div className="text-sm font-medium text-gray-700 mb-2">Popular Industries</div>
-                  <div className="flex flex-wrap gap-1">
-                    {category.industries.slice(0, 2).map((industry) => (
-                      <span
-                        key={industry}
-                        className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-50 text-green-600 border border-green-200"
-                      >
-                        {industry}
-                      </span>
-                    ))}
-                    {category.industries.length > 2 && (
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
-                        +{category.industries.length - 2} more
-                      </span>
-                    )}
+                {category.topIndustries && category.topIndustries.length > 0 && (
+                  <div className="mb-4">
+                    <div className="text-sm font-medium text-gray-700 mb-2">Popular Industries</div>
+                    <div className="flex flex-wrap gap-1">
+                      {category.topIndustries.slice(0, 2).map((industry) => (
+                        <span
+                          key={industry}
+                          className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-50 text-green-600 border border-green-200"
+                        >
+                          {industry}
+                        </span>
+                      ))}
+                      {category.topIndustries.length > 2 && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
+                          +{category.topIndustries.length - 2} more
+                        </span>
+                      )}
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* Featured Solutions Preview */}
-                {solutionsByCategory[category.id]?.length > 0 && (
+                {solutionsByCategory[category._id]?.length > 0 && (
                   <div className="mb-4">
                     <div className="text-sm font-medium text-gray-700 mb-2">Featured Solutions</div>
                     <div className="space-y-2">
-                      {solutionsByCategory[category.id].slice(0, 2).map((solution: any) => (
+                      {solutionsByCategory[category._id].slice(0, 2).map((solution: any) => (
                         <div
                           key={solution._id}
                           onClick={(e) => {
@@ -271,7 +216,7 @@ const CategoriesPage: React.FC = () => {
                 {/* View Solutions Button */}
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-500">
-                    {category.stats.solutions} solutions available
+                    {category.solutionCount} {category.solutionCount === 1 ? 'solution' : 'solutions'} available
                   </span>
                   <ArrowRightIcon className="h-5 w-5 text-blue-500 group-hover:translate-x-1 transition-transform" />
                 </div>
@@ -279,6 +224,27 @@ const CategoriesPage: React.FC = () => {
             </motion.div>
           ))}
         </div>
+        )}
+
+        {/* Industries */}
+        {industries.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Browse by Industry</h2>
+            <div className="flex flex-wrap gap-2">
+              {industries.map((industry) => (
+                <button
+                  key={industry._id}
+                  onClick={() => handleIndustryClick(industry)}
+                  className="inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium bg-gray-50 text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors border border-gray-200"
+                >
+                  {industry.icon && <span className="mr-2">{industry.icon}</span>}
+                  {industry.name}
+                  <span className="ml-2 text-xs text-gray-500">{industry.solutionCount}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Call to Action */}
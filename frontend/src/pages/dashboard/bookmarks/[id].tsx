@@ -0,0 +1,349 @@
+/**
+ * Saved List Page
+ * Solutions saved in one bookmark list, with notes, sharing and a shortcut to compare them
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import Layout from '../../../components/Layout/Layout';
+import { useAuth } from '../../../contexts/AuthContext';
+import { bookmarksApi, BookmarkList, BookmarkItem } from '../../../lib/api';
+import { MAX_COMPARE, compareUrl } from '../../../hooks/useCompareList';
+import { toast } from 'react-hot-toast';
+import { ArrowLeftIcon, StarIcon, TrashIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const BookmarkListPage: React.FC = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [list, setList] = useState<BookmarkList | null>(null);
+  const [items, setItems] = useState<BookmarkItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<string[]>([]);
+  const [working, setWorking] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push(`/auth/login?redirect=${encodeURIComponent(router.asPath)}`);
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated && typeof id === 'string') {
+      fetchList();
+    }
+  }, [isAuthenticated, id]);
+
+  const fetchList = async () => {
+    try {
+      setLoading(true);
+      const response = await bookmarksApi.getList(id as string);
+      setList(response.list);
+      setItems(response.items);
+      setName(response.list.name);
+      setDescription(response.list.description || '');
+      setNotes(Object.fromEntries(response.items.map(item => [item._id, item.note])));
+      setSelected(prev => prev.filter(solutionId => response.items.some(item => item.solution._id === solutionId)));
+    } catch (error) {
+      console.error('Error fetching bookmark list:', error);
+      setList(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!list) return;
+
+    try {
+      setWorking(true);
+      await bookmarksApi.updateList(list._id, { name: name.trim(), description: description.trim() });
+      toast.success('List updated');
+      await fetchList();
+    } catch (error) {
+      console.error('Error updating bookmark list:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleShareChange = async (shared: boolean) => {
+    if (!list) return;
+
+    try {
+      setWorking(true);
+      await bookmarksApi.updateList(list._id, { shared });
+      toast.success(shared ? 'List shared with your organization' : 'List is private again');
+      await fetchList();
+    } catch (error) {
+      console.error('Error sharing bookmark list:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!list || !confirm(`Delete "${list.name}" and the notes in it?`)) return;
+
+    try {
+      setWorking(true);
+      await bookmarksApi.deleteList(list._id);
+      toast.success('List deleted');
+      router.push('/dashboard/bookmarks');
+    } catch (error) {
+      console.error('Error deleting bookmark list:', error);
+      setWorking(false);
+    }
+  };
+
+  const handleSaveNote = async (item: BookmarkItem) => {
+    if (!list) return;
+
+    try {
+      await bookmarksApi.updateItemNote(list._id, item._id, notes[item._id] || '');
+      setItems(prev => prev.map(entry => entry._id === item._id ? { ...entry, note: notes[item._id] || '' } : entry));
+      toast.success('Note saved');
+    } catch (error) {
+      console.error('Error saving note:', error);
+    }
+  };
+
+  const handleRemove = async (item: BookmarkItem) => {
+    if (!list) return;
+
+    try {
+      const response = await bookmarksApi.removeItem(list._id, item._id);
+      toast.success(response.message || 'Removed');
+      await fetchList();
+    } catch (error) {
+      console.error('Error removing saved solution:', error);
+    }
+  };
+
+  const toggleSelected = (solutionId: string) => {
+    setSelected(prev => {
+      if (prev.includes(solutionId)) return prev.filter(entry => entry !== solutionId);
+      if (prev.length >= MAX_COMPARE) {
+        toast.error(`You can compare up to ${MAX_COMPARE} solutions`);
+        return prev;
+      }
+      return [...prev, solutionId];
+    });
+  };
+
+  if (isLoading || !user) {
+    return (
+      <Layout title="Saved Lists">
+        <div className="min-h-screen bg-white flex items-center justify-center">
+          <div className="text-gray-900">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Saved Lists">
+      <Head>
+        <title>{list ? `${list.name} - ` : ''}Saved Lists - AstroVault AI</title>
+      </Head>
+      <div className="bg-white min-h-screen">
+        <div className="max-w-3xl px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+          <Link href="/dashboard/bookmarks" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeftIcon className="h-4 w-4" />
+            All lists
+          </Link>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+            </div>
+          ) : !list ? (
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900">List not found</h2>
+              <p className="text-sm text-gray-500 mt-1">It may have been deleted or is no longer shared with you.</p>
+            </section>
+          ) : (
+            <>
+              <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div className="min-w-0">
+                    <h2 className="text-lg font-semibold text-gray-900">{list.name}</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {list.shared && list.organizationId
+                        ? `Shared with ${list.organizationId.name}`
+                        : 'Only you can see this list'}
+                      {!list.isOwner && ` · Created by ${list.userId.firstName} ${list.userId.lastName}`}
+                    </p>
+                    {list.description && !list.canManage && (
+                      <p className="text-sm text-gray-600 mt-2">{list.description}</p>
+                    )}
+                  </div>
+                  {list.shared && <UserGroupIcon className="h-5 w-5 text-blue-500 shrink-0" />}
+                </div>
+
+                {list.canManage && (
+                  <div className="space-y-4">
+                    <form onSubmit={handleUpdate} className="space-y-3 max-w-lg">
+                      <input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} className={inputClass} />
+                      <input
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        maxLength={500}
+                        placeholder="Description (optional)"
+                        className={inputClass}
+                      />
+                      <button
+                        type="submit"
+                        disabled={working || !name.trim() || (name.trim() === list.name && description.trim() === (list.description || ''))}
+                        className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                      >
+                        Save
+                      </button>
+                    </form>
+
+                    {(list.isOwner || list.shared) && (
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={list.shared}
+                          disabled={working || (list.shared && !list.isOwner) || (!list.shared && !user.activeOrganizationId)}
+                          onChange={(e) => handleShareChange(e.target.checked)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        Share with my organization (members can add solutions; notes stay private)
+                      </label>
+                    )}
+
+                    {!list.isDefault && (
+                      <button
+                        onClick={handleDelete}
+                        disabled={working}
+                        className="px-4 py-2 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                      >
+                        Delete list
+                      </button>
+                    )}
+                  </div>
+                )}
+              </section>
+
+              <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between gap-4 mb-2">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    {items.length} {items.length === 1 ? 'solution' : 'solutions'}
+                  </h3>
+                  {items.length >= 2 && (
+                    selected.length >= 2 ? (
+                      <Link
+                        href={compareUrl(selected)}
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        Compare {selected.length}
+                      </Link>
+                    ) : (
+                      <span className="text-xs text-gray-500">Select 2 to {MAX_COMPARE} solutions to compare</span>
+                    )
+                  )}
+                </div>
+
+                {items.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-6 text-center">
+                    Nothing saved yet. Use the bookmark button on a solution to add it here.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {items.map(item => {
+                      const { solution } = item;
+                      const listed = solution.isActive && solution.status === 'approved';
+                      const noteChanged = (notes[item._id] || '') !== item.note;
+
+                      return (
+                        <li key={item._id} className="py-4 space-y-2">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="flex items-start gap-3 min-w-0">
+                              <input
+                                type="checkbox"
+                                checked={selected.includes(solution._id)}
+                                disabled={!listed}
+                                onChange={() => toggleSelected(solution._id)}
+                                className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                title="Select to compare"
+                              />
+                              <div className="min-w-0">
+                                <Link
+                                  href={`/solutions/${solution._id}`}
+                                  className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                                >
+                                  {solution.title}
+                                </Link>
+                                <p className="text-xs text-gray-500 mt-0.5 flex items-center gap-1 flex-wrap">
+                                  {[solution.companyId?.name, solution.category, solution.pricing?.model].filter(Boolean).join(' · ')}
+                                  {solution.rating && solution.rating.count > 0 && (
+                                    <span className="inline-flex items-center gap-0.5">
+                                      · <StarIcon className="h-3 w-3 text-yellow-500" /> {solution.rating.average.toFixed(1)}
+                                    </span>
+                                  )}
+                                </p>
+                                {!listed && <p className="text-xs text-red-600 mt-0.5">No longer listed</p>}
+                                {list.shared && item.addedBy && (
+                                  <p className="text-xs text-gray-400 mt-0.5">
+                                    Added by {item.addedBy.firstName} {item.addedBy.lastName}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                            {(item.isMine || list.canManage) && (
+                              <button
+                                onClick={() => handleRemove(item)}
+                                className="text-gray-400 hover:text-red-600 shrink-0"
+                                title="Remove from list"
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                          {item.isMine && (
+                            <div className="pl-7 flex gap-2">
+                              <textarea
+                                value={notes[item._id] || ''}
+                                onChange={(e) => setNotes(prev => ({ ...prev, [item._id]: e.target.value }))}
+                                maxLength={1000}
+                                rows={2}
+                                placeholder="Add a private note"
+                                className={`${inputClass} text-sm`}
+                              />
+                              {noteChanged && (
+                                <button
+                                  onClick={() => handleSaveNote(item)}
+                                  className="self-start px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                  Save
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default BookmarkListPage;
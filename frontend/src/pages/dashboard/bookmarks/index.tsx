@@ -0,0 +1,191 @@
+/**
+ * Saved Lists Page
+ * The user's bookmark lists and lists shared with their organizations
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import Layout from '../../../components/Layout/Layout';
+import { useAuth } from '../../../contexts/AuthContext';
+import { bookmarksApi, BookmarkList } from '../../../lib/api';
+import { toast } from 'react-hot-toast';
+import { BookmarkIcon, PlusIcon, UserGroupIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const BookmarkListsPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [lists, setLists] = useState<BookmarkList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [shared, setShared] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login?redirect=/dashboard/bookmarks');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchLists();
+    }
+  }, [isAuthenticated]);
+
+  const fetchLists = async () => {
+    try {
+      setLoading(true);
+      const response = await bookmarksApi.getLists();
+      setLists(response.lists);
+    } catch (error) {
+      console.error('Error fetching bookmark lists:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setWorking(true);
+      const response = await bookmarksApi.createList({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        shared
+      });
+      toast.success(response.message || 'List created');
+      setName('');
+      setDescription('');
+      setShared(false);
+      await fetchLists();
+    } catch (error) {
+      console.error('Error creating bookmark list:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (isLoading || !user) {
+    return (
+      <Layout title="Saved Lists">
+        <div className="min-h-screen bg-white flex items-center justify-center">
+          <div className="text-gray-900">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const myLists = lists.filter(list => list.isOwner);
+  const sharedWithMe = lists.filter(list => !list.isOwner);
+
+  const renderList = (list: BookmarkList) => (
+    <li key={list._id}>
+      <Link
+        href={`/dashboard/bookmarks/${list._id}`}
+        className="flex items-center justify-between gap-4 py-3 group"
+      >
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600">{list.name}</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {list.itemCount} {list.itemCount === 1 ? 'solution' : 'solutions'}
+            {list.shared && list.organizationId && ` · Shared with ${list.organizationId.name}`}
+            {!list.isOwner && ` · by ${list.userId.firstName} ${list.userId.lastName}`}
+          </p>
+          {list.description && <p className="text-sm text-gray-600 mt-1 truncate">{list.description}</p>}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {list.shared && <UserGroupIcon className="h-4 w-4 text-gray-400" />}
+          <ChevronRightIcon className="h-4 w-4 text-gray-400" />
+        </div>
+      </Link>
+    </li>
+  );
+
+  return (
+    <Layout title="Saved Lists">
+      <Head>
+        <title>Saved Lists - AstroVault AI</title>
+      </Head>
+      <div className="bg-white min-h-screen">
+        <div className="max-w-3xl px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">New list</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  Group solutions you are evaluating into shortlists, and keep notes on each one.
+                </p>
+              </div>
+              <BookmarkIcon className="h-5 w-5 text-blue-500 shrink-0" />
+            </div>
+            <form onSubmit={handleCreate} className="space-y-3 max-w-lg">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="Radiology AI shortlist"
+                className={inputClass}
+              />
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+                placeholder="Description (optional)"
+                className={inputClass}
+              />
+              {user.activeOrganizationId && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={shared}
+                    onChange={(e) => setShared(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  Share with my organization
+                </label>
+              )}
+              <button
+                type="submit"
+                disabled={working || !name.trim()}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <PlusIcon className="h-4 w-4" />
+                Create
+              </button>
+            </form>
+          </section>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+            </div>
+          ) : (
+            <>
+              <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">My lists</h2>
+                <ul className="divide-y divide-gray-200">{myLists.map(renderList)}</ul>
+              </section>
+
+              {sharedWithMe.length > 0 && (
+                <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-2">Shared with me</h2>
+                  <ul className="divide-y divide-gray-200">{sharedWithMe.map(renderList)}</ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default BookmarkListsPage;
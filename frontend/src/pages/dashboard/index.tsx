@@ -21,7 +21,11 @@ import {
   ExclamationTriangleIcon,
   BellIcon,
   UserIcon,
-  XMarkIcon
+  XMarkIcon,
+  TagIcon,
+  InboxIcon,
+  EnvelopeIcon,
+  BookmarkIcon
 } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
@@ -41,7 +45,7 @@ const getActivityIcon = (iconName: string) => {
   return iconMap[iconName] || DocumentTextIcon;
 };
 import Layout from '@/components/Layout/Layout';
-import api from '@/lib/api';
+import api, { authApi } from '@/lib/api';
 import { useRouter } from 'next/router';
 
 interface Solution {
@@ -679,6 +683,7 @@ const UserStatsSection: React.FC = () => {
 const DashboardPage: React.FC = () => {
   const router = useRouter();
   const { user } = useAuth();
+  const [resendingVerification, setResendingVerification] = useState(false);
   
   // Search state
   const [searchValue, setSearchValue] = useState('');
@@ -941,6 +946,19 @@ const DashboardPage: React.FC = () => {
 
   const statsCards = getStatsCards();
 
+  // Send a new email verification link
+  const handleResendVerification = async () => {
+    try {
+      setResendingVerification(true);
+      const response = await authApi.resendVerification();
+      toast.success(response.message || 'Verification email sent');
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+    } finally {
+      setResendingVerification(false);
+    }
+  };
+
   // Handle quick actions
   const handleQuickAction = (action: string) => {
     switch (action) {
@@ -961,6 +979,27 @@ const DashboardPage: React.FC = () => {
         // Navigate to Pending Solutions page
         router.push('/admin/solutions');
         break;
+      case 'review-moderation':
+        router.push('/admin/reviews');
+        break;
+      case 'manage-blog':
+        router.push('/admin/blog');
+        break;
+      case 'newsletters':
+        router.push('/admin/newsletters');
+        break;
+      case 'manage-categories':
+        router.push('/admin/categories');
+        break;
+      case 'mailbox':
+        router.push('/admin/mailbox');
+        break;
+      case 'inquiries':
+        router.push('/vendor/inquiries');
+        break;
+      case 'bookmarks':
+        router.push('/dashboard/bookmarks');
+        break;
       case 'view-analytics':
         // Scroll to the analytics section or show a message
         toast.success('Analytics feature coming soon!');
@@ -978,13 +1017,25 @@ const DashboardPage: React.FC = () => {
           { id: 'browse-solutions', label: 'Browse Solutions', icon: SparklesIcon },
           { id: 'manage-users', label: 'Manage Users', icon: UserGroupIcon },
           { id: 'view-analytics', label: 'View Analytics', icon: ChartBarIcon },
-          { id: 'pending-solutions', label: 'Pending Solutions', icon: ClockIcon }
+          { id: 'pending-solutions', label: 'Pending Solutions', icon: ClockIcon },
+          { id: 'review-moderation', label: 'Review Moderation', icon: ChatBubbleLeftRightIcon },
+          { id: 'manage-blog', label: 'Blog Posts', icon: DocumentTextIcon },
+          { id: 'newsletters', label: 'Newsletters', icon: BellIcon },
+          { id: 'manage-categories', label: 'Categories', icon: TagIcon },
+          { id: 'mailbox', label: 'Dev Mailbox', icon: EnvelopeIcon }
+        ];
+      case 'editor':
+        return [
+          { id: 'manage-blog', label: 'Blog Posts', icon: DocumentTextIcon },
+          { id: 'browse-solutions', label: 'Browse Solutions', icon: SparklesIcon }
         ];
       case 'vendor':
         return [
           { id: 'add-solution', label: 'Add Solution', icon: PlusIcon },
           { id: 'browse-solutions', label: 'Browse Solutions', icon: SparklesIcon },
           { id: 'view-queries', label: 'View Queries', icon: DocumentTextIcon },
+          { id: 'inquiries', label: 'Inquiries', icon: InboxIcon },
+          { id: 'bookmarks', label: 'Saved Lists', icon: BookmarkIcon },
           { id: 'analytics', label: 'Analytics', icon: ChartBarIcon }
         ];
       case 'customer':
@@ -992,7 +1043,7 @@ const DashboardPage: React.FC = () => {
           { id: 'post-query', label: 'Post Query', icon: PlusIcon },
           { id: 'browse-solutions', label: 'Browse Solutions', icon: SparklesIcon },
           { id: 'my-queries', label: 'My Queries', icon: DocumentTextIcon },
-          { id: 'bookmarks', label: 'Bookmarks', icon: HeartIcon }
+          { id: 'bookmarks', label: 'Saved Lists', icon: BookmarkIcon }
         ];
       default:
         return [];
@@ -1065,6 +1116,39 @@ const DashboardPage: React.FC = () => {
           <p className="mt-2 text-lg text-gray-600">{welcome.subtitle}</p>
         </div>
 
+        {/* Email verification reminder */}
+        {!user.isEmailVerified && (
+          <div className="mb-8 flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 shrink-0" />
+            <p className="flex-1 text-sm text-yellow-800">
+              Please confirm your email address. We sent a link to <span className="font-medium">{user.email}</span>.
+            </p>
+            <button
+              onClick={handleResendVerification}
+              disabled={resendingVerification}
+              className="px-4 py-2 text-sm font-medium text-yellow-800 bg-white border border-yellow-300 rounded-lg hover:bg-yellow-100 disabled:opacity-50 transition-colors"
+            >
+              {resendingVerification ? 'Sending...' : 'Resend link'}
+            </button>
+          </div>
+        )}
+
+        {/* Superadmins must enrol in two-factor before using admin actions */}
+        {user.role === 'superadmin' && !user.twoFactor?.enabled && (
+          <div className="mb-8 flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 shrink-0" />
+            <p className="flex-1 text-sm text-yellow-800">
+              Set up two-factor authentication to approve solutions and manage users.
+            </p>
+            <button
+              onClick={() => router.push('/dashboard/settings?setup=2fa')}
+              className="px-4 py-2 text-sm font-medium text-yellow-800 bg-white border border-yellow-300 rounded-lg hover:bg-yellow-100 transition-colors"
+            >
+              Set up now
+            </button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           {statsCards.map((stat, index) => (
@@ -0,0 +1,393 @@
+/**
+ * Organization Page
+ * Team members, roles, invitations and single sign-on for the active organization
+ * (superadmins can open any organization with ?id=)
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Layout from '../../components/Layout/Layout';
+import SsoSettings from '../../components/auth/SsoSettings';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  organizationsApi,
+  Organization,
+  OrganizationMember,
+  OrganizationInvitation,
+  OrganizationRole
+} from '../../lib/api';
+import { toast } from 'react-hot-toast';
+import { UserGroupIcon, EnvelopeIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member'
+};
+
+// Members are populated on the detail view
+const memberUser = (member: OrganizationMember) =>
+  typeof member.userId === 'string'
+    ? { _id: member.userId, firstName: '', lastName: '', email: '' }
+    : member.userId;
+
+const OrganizationPage: React.FC = () => {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading, refreshUser } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationInvitation['role']>('member');
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [working, setWorking] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login?redirect=/dashboard/organization');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const isSuperadmin = user?.role === 'superadmin';
+  const requestedId = isSuperadmin && typeof router.query.id === 'string' ? router.query.id : null;
+
+  useEffect(() => {
+    if (isAuthenticated && router.isReady) {
+      fetchOrganization();
+    }
+  }, [isAuthenticated, router.isReady, user?.activeOrganizationId, requestedId]);
+
+  const fetchOrganization = async () => {
+    try {
+      setLoading(true);
+      const list = requestedId ? null : await organizationsApi.getOrganizations();
+      const activeId = requestedId || list?.activeOrganizationId || list?.organizations[0]?._id;
+
+      if (!activeId) {
+        setOrganization(null);
+        return;
+      }
+
+      const response = await organizationsApi.getOrganization(activeId);
+      setOrganization(response.organization);
+      setName(response.organization.name);
+    } catch (error) {
+      console.error('Error fetching organization:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canManage = organization?.myRole === 'owner' || organization?.myRole === 'admin' || (isSuperadmin && Boolean(organization));
+  const isOwner = organization?.myRole === 'owner' || (isSuperadmin && Boolean(organization));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      await organizationsApi.createOrganization({ name: newOrganizationName.trim() });
+      toast.success('Organization created');
+      setNewOrganizationName('');
+      await refreshUser();
+      await fetchOrganization();
+    } catch (error) {
+      console.error('Error creating organization:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization) return;
+
+    try {
+      setWorking(true);
+      await organizationsApi.updateOrganization(organization._id, { name: name.trim() });
+      toast.success('Organization renamed');
+      await fetchOrganization();
+    } catch (error) {
+      console.error('Error renaming organization:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization) return;
+
+    try {
+      setWorking(true);
+      const response = await organizationsApi.inviteMember(organization._id, { email: inviteEmail.trim(), role: inviteRole });
+      toast.success(response.message || 'Invitation sent');
+      setInviteEmail('');
+      setInviteRole('member');
+      await fetchOrganization();
+    } catch (error) {
+      console.error('Error inviting member:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: OrganizationInvitation) => {
+    if (!organization) return;
+
+    try {
+      await organizationsApi.revokeInvitation(organization._id, invitation._id);
+      toast.success('Invitation cancelled');
+      await fetchOrganization();
+    } catch (error) {
+      console.error('Error cancelling invitation:', error);
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    if (!organization) return;
+
+    try {
+      await organizationsApi.updateMemberRole(organization._id, memberUser(member)._id, role);
+      toast.success('Role updated');
+      await fetchOrganization();
+    } catch (error) {
+      console.error('Error updating role:', error);
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!organization || !user) return;
+
+    const person = memberUser(member);
+    const leaving = person._id === user._id;
+    const question = leaving
+      ? `Leave ${organization.name}? You will lose access to its proposals, solutions and profile.`
+      : `Remove ${person.firstName} ${person.lastName} from ${organization.name}?`;
+    if (!confirm(question)) return;
+
+    try {
+      const response = await organizationsApi.removeMember(organization._id, person._id);
+      toast.success(response.message || 'Member removed');
+      if (leaving) {
+        await refreshUser();
+      }
+      await fetchOrganization();
+    } catch (error) {
+      console.error('Error removing member:', error);
+    }
+  };
+
+  // Show loading while authentication is being checked
+  if (isLoading || !isAuthenticated) {
+    return (
+      <Layout title="Organization">
+        <div className="min-h-screen bg-white flex items-center justify-center">
+          <div className="text-gray-900">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const createForm = (
+    <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2 max-w-lg">
+      <input
+        value={newOrganizationName}
+        onChange={(e) => setNewOrganizationName(e.target.value)}
+        placeholder={user?.role === 'vendor' ? 'Company or sales team name' : 'Hospital or department name'}
+        className={inputClass}
+      />
+      <button
+        type="submit"
+        disabled={working || newOrganizationName.trim().length < 2}
+        className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors shrink-0"
+      >
+        <PlusIcon className="h-4 w-4" />
+        Create
+      </button>
+    </form>
+  );
+
+  return (
+    <Layout title="Organization">
+      <Head>
+        <title>Organization - AstroVault AI</title>
+      </Head>
+      <div className="bg-white min-h-screen">
+        <div className="max-w-3xl px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+            </div>
+          ) : !organization ? (
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Work as a team</h2>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Create an organization to share proposals, solutions and your profile with colleagues instead of
+                    sharing one login.
+                  </p>
+                </div>
+                <UserGroupIcon className="h-5 w-5 text-blue-500 shrink-0" />
+              </div>
+              {createForm}
+            </section>
+          ) : (
+            <>
+              <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{organization.name}</h2>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {organization.type === 'vendor' ? 'Vendor' : 'Buyer'} organization · You are{' '}
+                      {organization.myRole === 'member' ? 'a' : 'an'} {ROLE_LABELS[organization.myRole || 'member'].toLowerCase()}
+                    </p>
+                  </div>
+                  <UserGroupIcon className="h-5 w-5 text-blue-500 shrink-0" />
+                </div>
+
+                {canManage && (
+                  <form onSubmit={handleRename} className="flex gap-2 max-w-lg mb-6">
+                    <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+                    <button
+                      type="submit"
+                      disabled={working || name.trim().length < 2 || name.trim() === organization.name}
+                      className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors shrink-0"
+                    >
+                      Rename
+                    </button>
+                  </form>
+                )}
+
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Members</h3>
+                <ul className="divide-y divide-gray-200">
+                  {organization.members.map(member => {
+                    const person = memberUser(member);
+                    const isSelf = person._id === user?._id;
+                    // Only owners can change an owner's role or make someone an owner
+                    const canEditRole = canManage && !isSelf && (isOwner || member.role !== 'owner');
+
+                    return (
+                      <li key={person._id} className="flex items-center justify-between gap-4 py-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {person.firstName} {person.lastName}
+                            {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                          </p>
+                          <p className="text-xs text-gray-500 truncate">{person.email}</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {canEditRole ? (
+                            <select
+                              value={member.role}
+                              onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-lg text-gray-900"
+                            >
+                              {(isOwner ? ['owner', 'admin', 'member'] : ['admin', 'member']).map(role => (
+                                <option key={role} value={role}>{ROLE_LABELS[role as OrganizationRole]}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full border bg-gray-100 text-gray-700 border-gray-200">
+                              {ROLE_LABELS[member.role]}
+                            </span>
+                          )}
+                          {(isSelf || canEditRole) && (
+                            <button
+                              onClick={() => handleRemove(member)}
+                              className="px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                            >
+                              {isSelf ? 'Leave' : 'Remove'}
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+
+              {canManage && (
+                <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">Invite teammates</h2>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Invitations are emailed and expire after 7 days. Admins can invite people and edit the
+                        organization profile.
+                      </p>
+                    </div>
+                    <EnvelopeIcon className="h-5 w-5 text-blue-500 shrink-0" />
+                  </div>
+
+                  <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="colleague@example.com"
+                      className={inputClass}
+                    />
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as OrganizationInvitation['role'])}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                    >
+                      <option value="member">Member</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={working || !inviteEmail.trim()}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors shrink-0"
+                    >
+                      {working ? 'Sending...' : 'Send invitation'}
+                    </button>
+                  </form>
+
+                  {(organization.invitations || []).length > 0 && (
+                    <ul className="divide-y divide-gray-200 mt-4">
+                      {(organization.invitations || []).map(invitation => (
+                        <li key={invitation._id} className="flex items-center justify-between gap-4 py-3">
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 truncate">{invitation.email}</p>
+                            <p className="text-xs text-gray-500">
+                              {ROLE_LABELS[invitation.role]} · Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleRevokeInvitation(invitation)}
+                            className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors shrink-0"
+                          >
+                            Cancel
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+              )}
+
+              {canManage && <SsoSettings organizationId={organization._id} canEditDomains={isSuperadmin} />}
+
+              <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900">Another organization</h2>
+                <p className="text-sm text-gray-500 mt-1 mb-4">
+                  Create a separate organization. Switch between organizations from the sidebar.
+                </p>
+                {createForm}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default OrganizationPage;
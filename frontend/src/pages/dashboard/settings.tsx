@@ -0,0 +1,182 @@
+/**
+ * Account Settings Page
+ * Security settings: two-factor authentication, signed-in devices and sign out everywhere
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Layout from '../../components/Layout/Layout';
+import TwoFactorSettings from '../../components/auth/TwoFactorSettings';
+import { useAuth } from '../../contexts/AuthContext';
+import { authApi, apiUtils, AuthSession } from '../../lib/api';
+import { toast } from 'react-hot-toast';
+import {
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  ArrowRightOnRectangleIcon,
+  ShieldCheckIcon
+} from '@heroicons/react/24/outline';
+
+const isMobileDevice = (session: AuthSession) => /android|iphone|ipad|mobile/i.test(session.userAgent || '');
+
+const SettingsPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading, logout } = useAuth();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [signingOutAll, setSigningOutAll] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login?redirect=/dashboard/settings');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchSessions();
+    }
+  }, [isAuthenticated]);
+
+  const fetchSessions = async () => {
+    try {
+      setLoadingSessions(true);
+      const response = await authApi.getSessions();
+      setSessions(response.sessions || []);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setLoadingSessions(false);
+    }
+  };
+
+  const handleRevoke = async (session: AuthSession) => {
+    if (session.current) {
+      await logout();
+      router.push('/auth/login');
+      return;
+    }
+
+    try {
+      setRevokingId(session._id);
+      await authApi.revokeSession(session._id);
+      setSessions(prev => prev.filter(item => item._id !== session._id));
+      toast.success('Device signed out');
+    } catch (error) {
+      console.error('Error revoking session:', error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out on every device, including this one?')) return;
+
+    try {
+      setSigningOutAll(true);
+      await authApi.logoutAll();
+      apiUtils.removeAuthToken();
+      toast.success('Signed out everywhere');
+      window.location.href = '/auth/login';
+    } catch (error) {
+      console.error('Error signing out everywhere:', error);
+      setSigningOutAll(false);
+    }
+  };
+
+  // Show loading while authentication is being checked
+  if (isLoading || !isAuthenticated) {
+    return (
+      <Layout title="Settings">
+        <div className="min-h-screen bg-white flex items-center justify-center">
+          <div className="text-gray-900">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Settings">
+      <Head>
+        <title>Settings - AstroVault AI</title>
+      </Head>
+      <div className="bg-white min-h-screen">
+        <div className="max-w-3xl px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+          <TwoFactorSettings highlight={router.query.setup === '2fa'} />
+
+          <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Signed-in devices</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  Devices stay signed in for up to 30 days of inactivity. Sign out any you don't recognise.
+                </p>
+              </div>
+              <ShieldCheckIcon className="h-5 w-5 text-blue-500 shrink-0" />
+            </div>
+
+            {loadingSessions ? (
+              <div className="text-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+              </div>
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4">No active sessions.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {sessions.map(session => {
+                  const DeviceIcon = isMobileDevice(session) ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+                  return (
+                    <li key={session._id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <DeviceIcon className="h-6 w-6 text-gray-400 shrink-0" />
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-gray-900 truncate">{session.device}</span>
+                            {session.current && (
+                              <span className="px-2 py-0.5 text-xs font-medium rounded-full border bg-green-100 text-green-800 border-green-200">
+                                This device
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {session.ip ? `${session.ip} · ` : ''}
+                            Last active {new Date(session.lastUsedAt).toLocaleString()} · Signed in{' '}
+                            {new Date(session.createdAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleRevoke(session)}
+                        disabled={revokingId === session._id}
+                        className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors shrink-0"
+                      >
+                        {revokingId === session._id ? 'Signing out...' : 'Sign out'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="border-t border-gray-200 mt-4 pt-4 flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-500">Lost a device or shared your password? End every session at once.</p>
+              <button
+                onClick={handleSignOutEverywhere}
+                disabled={signingOutAll}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors shrink-0"
+              >
+                <ArrowRightOnRectangleIcon className="h-4 w-4" />
+                {signingOutAll ? 'Signing out...' : 'Sign out everywhere'}
+              </button>
+            </div>
+          </section>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,94 @@
+/**
+ * Newsletter Unsubscribe Page
+ * Opened from the unsubscribe link in newsletter emails; the token identifies the recipient
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { EnvelopeIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import Layout from '@/components/Layout/Layout';
+import { newslettersApi } from '@/lib/api';
+
+const NewsletterUnsubscribePage: React.FC = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [subscribed, setSubscribed] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleChange = async (subscribe: boolean) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = subscribe
+        ? await newslettersApi.resubscribe(token)
+        : await newslettersApi.unsubscribe(token);
+      setSubscribed(subscribe);
+      setMessage(response.message || null);
+    } catch (err: any) {
+      console.error('Error updating subscription:', err);
+      setError(err.response?.data?.error || 'This link is invalid or has expired');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Newsletter Subscription - AstroVault AI</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <Layout>
+        <div className="min-h-[60vh] bg-white flex items-center justify-center px-4 py-16">
+          <div className="max-w-md w-full text-center">
+            {subscribed ? (
+              <EnvelopeIcon className="h-14 w-14 text-blue-600 mx-auto mb-4" />
+            ) : (
+              <CheckCircleIcon className="h-14 w-14 text-green-600 mx-auto mb-4" />
+            )}
+
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              {subscribed ? 'Unsubscribe from newsletters?' : 'You have been unsubscribed'}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {message || 'You will stop receiving AstroVault AI newsletters. Account emails are not affected.'}
+            </p>
+
+            {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+            {!token && router.isReady ? (
+              <p className="text-gray-500 text-sm">Use the unsubscribe link from one of our emails.</p>
+            ) : subscribed ? (
+              <button
+                onClick={() => handleChange(false)}
+                disabled={submitting}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Updating...' : 'Unsubscribe'}
+              </button>
+            ) : (
+              <button
+                onClick={() => handleChange(true)}
+                disabled={submitting}
+                className="px-6 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Updating...' : 'Subscribe again'}
+              </button>
+            )}
+
+            <div className="mt-8">
+              <Link href="/" className="text-sm text-gray-500 hover:text-gray-700">Back to AstroVault AI</Link>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default NewsletterUnsubscribePage;
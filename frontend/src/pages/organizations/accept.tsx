@@ -0,0 +1,126 @@
+/**
+ * Accept Organization Invitation Page
+ * Joins the organization from an emailed invitation link once the invitee is signed in
+ */
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { CheckCircleIcon, ExclamationTriangleIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+import AuthCard from '@/components/auth/AuthCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { organizationsApi } from '@/lib/api';
+
+type AcceptState = 'ready' | 'accepting' | 'joined' | 'failed';
+
+const primaryButtonClass =
+  'block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors';
+
+const AcceptInvitationPage: React.FC = () => {
+  const router = useRouter();
+  const { isAuthenticated, isLoading, user, refreshUser } = useAuth();
+  const [state, setState] = useState<AcceptState>('ready');
+  const [message, setMessage] = useState('');
+
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const redirect = `/organizations/accept?token=${encodeURIComponent(token)}`;
+
+  const handleAccept = async () => {
+    try {
+      setState('accepting');
+      const response = await organizationsApi.acceptInvitation(token);
+      setMessage(response.message || 'You joined the organization.');
+      setState('joined');
+      await refreshUser();
+    } catch (error: any) {
+      const data = error.response?.data;
+      setMessage(data?.errors?.[0]?.message || data?.message || 'This invitation could not be used.');
+      setState('failed');
+    }
+  };
+
+  if (!router.isReady || isLoading) {
+    return (
+      <AuthCard title="Organization invitation">
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (!token) {
+    return (
+      <AuthCard title="Invitation link not valid">
+        <div className="flex items-start gap-3 p-4 bg-red-900/20 border border-red-500/30 rounded-lg">
+          <ExclamationTriangleIcon className="w-5 h-5 text-red-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">This page needs the link from your invitation email.</p>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <AuthCard title="Join your team" subtitle="Sign in or create an account with the email address the invitation was sent to.">
+        <div className="space-y-3">
+          <Link href={{ pathname: '/auth/login', query: { redirect } }} className={primaryButtonClass}>
+            Sign in
+          </Link>
+          <Link
+            href={{ pathname: '/auth/register', query: { redirect } }}
+            className="block w-full text-center py-3 px-4 rounded-lg text-sm font-medium text-gray-300 border border-gray-600 hover:bg-gray-700 transition-colors"
+          >
+            Create an account
+          </Link>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (state === 'joined') {
+    return (
+      <AuthCard title="Welcome aboard">
+        <div className="flex items-start gap-3 p-4 bg-green-900/20 border border-green-500/30 rounded-lg mb-6">
+          <CheckCircleIcon className="w-5 h-5 text-green-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">{message}</p>
+        </div>
+        <Link href="/dashboard/organization" className={primaryButtonClass}>
+          See your team
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (state === 'failed') {
+    return (
+      <AuthCard title="Invitation not accepted">
+        <div className="flex items-start gap-3 p-4 bg-red-900/20 border border-red-500/30 rounded-lg mb-6">
+          <ExclamationTriangleIcon className="w-5 h-5 text-red-300 mt-0.5 shrink-0" />
+          <p className="text-sm text-gray-300">
+            {message} Invitations expire after 7 days and work only once; ask your team for a new one.
+          </p>
+        </div>
+        <Link href="/dashboard" className={primaryButtonClass}>
+          Go to your dashboard
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Join your team" subtitle={`Signed in as ${user?.email}`}>
+      <div className="flex items-start gap-3 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg mb-6">
+        <UserGroupIcon className="w-5 h-5 text-blue-300 mt-0.5 shrink-0" />
+        <p className="text-sm text-gray-300">
+          You'll share proposals, solutions and the organization profile with your teammates.
+        </p>
+      </div>
+      <button onClick={handleAccept} disabled={state === 'accepting'} className={primaryButtonClass}>
+        {state === 'accepting' ? 'Joining...' : 'Accept invitation'}
+      </button>
+    </AuthCard>
+  );
+};
+
+export default AcceptInvitationPage;
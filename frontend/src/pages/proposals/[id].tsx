@@ -9,8 +9,9 @@ import Head from 'next/head';
 import { motion } from 'framer-motion';
 import Layout from '@/components/Layout/Layout';
 import { useAuth } from '@/contexts/AuthContext';
-import { proposalsApi } from '@/lib/api';
+import { proposalsApi, ProposalAttachment, ProposalStatus, ResponseStatus } from '@/lib/api';
 import { ProposalResponseModal } from '@/components/proposals/ProposalResponseModal';
+import { AttachmentLink } from '@/components/proposals/AttachmentLink';
 import {
   DocumentTextIcon,
   TagIcon,
@@ -49,13 +50,10 @@ interface ProposalResponse {
   proposalText: string;
   proposedPrice?: string;
   proposedTimeline?: string;
-  status: 'pending' | 'viewed' | 'shortlisted' | 'rejected';
+  status: ResponseStatus;
+  viewedAt?: string;
   caseStudyLink?: string;
-  attachments?: Array<{
-    name: string;
-    type: string;
-    url?: string;
-  }>;
+  attachments?: ProposalAttachment[];
   createdAt: string;
 }
 
@@ -76,7 +74,7 @@ interface Proposal {
     requiredFeatures: string[];
     preferredFeatures: string[];
   };
-  status: string;
+  status: ProposalStatus;
   priority: string;
   responsesCount: number;
   viewsCount: number;
@@ -117,8 +115,7 @@ const ProposalDetailPage: React.FC = () => {
         // Mark responses as viewed when customer opens them
         if (user?.role === 'customer' && response.proposal.responses) {
           response.proposal.responses.forEach((resp: ProposalResponse) => {
-            if (resp.status === 'pending') {
-              // Update status to viewed (would be done via API in real implementation)
+            if (!resp.viewedAt) {
               markResponseAsViewed(resp._id);
             }
           });
@@ -136,10 +133,15 @@ const ProposalDetailPage: React.FC = () => {
 
   const markResponseAsViewed = async (responseId: string) => {
     try {
-      // Update status to viewed via API
-      await proposalsApi.updateResponseStatus(id as string, responseId, 'viewed');
-      // Refresh proposal to get updated status
-      fetchProposal();
+      const result = await proposalsApi.markResponseViewed(id as string, responseId);
+      if (!result.viewedAt) return;
+
+      setProposal(prev => prev ? {
+        ...prev,
+        responses: prev.responses?.map(resp =>
+          resp._id === responseId ? { ...resp, viewedAt: result.viewedAt } : resp
+        )
+      } : prev);
     } catch (error: any) {
       console.error('Error marking response as viewed:', error);
     }
@@ -169,9 +171,11 @@ const ProposalDetailPage: React.FC = () => {
     switch (status) {
       case 'active':
         return 'bg-green-100 text-green-800';
-      case 'in_progress':
+      case 'shortlisting':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'hired':
         return 'bg-blue-100 text-blue-800';
-      case 'completed':
+      case 'fulfilled':
         return 'bg-gray-100 text-gray-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
@@ -387,12 +391,17 @@ const ProposalDetailPage: React.FC = () => {
                           <div className="flex items-center gap-3 mb-2">
                             <h3 className="text-lg font-semibold text-gray-900">{response.vendorCompany || response.vendorName}</h3>
                             <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                              response.status === 'accepted' ? 'bg-emerald-100 text-emerald-800' :
                               response.status === 'shortlisted' ? 'bg-green-100 text-green-800' :
-                              response.status === 'viewed' ? 'bg-blue-100 text-blue-800' :
+                              response.status === 'rejected' || response.status === 'withdrawn' ? 'bg-red-100 text-red-800' :
+                              response.viewedAt ? 'bg-blue-100 text-blue-800' :
                               'bg-gray-100 text-gray-800'
                             }`}>
-                              {response.status === 'shortlisted' ? 'Shortlisted' :
-                               response.status === 'viewed' ? 'Viewed' : 'Pending Review'}
+                              {response.status === 'accepted' ? 'Hired' :
+                               response.status === 'shortlisted' ? 'Shortlisted' :
+                               response.status === 'rejected' ? 'Declined' :
+                               response.status === 'withdrawn' ? 'Withdrawn' :
+                               response.viewedAt ? 'Viewed' : 'Pending Review'}
                             </span>
                           </div>
                           <p className="text-sm text-gray-600">
@@ -451,20 +460,21 @@ const ProposalDetailPage: React.FC = () => {
                       {response.attachments && response.attachments.length > 0 && (
                         <div className="mb-4 flex flex-wrap gap-2">
                           {response.attachments.map((attachment, idx) => (
-                            <div
+                            <AttachmentLink
                               key={idx}
-                              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-md text-sm text-gray-700"
+                              attachment={attachment}
+                              className="inline-flex items-center gap-2 px-3 py-2 bg-gray-100 rounded-md text-sm text-gray-700 hover:bg-gray-200"
                             >
                               <PaperClipIcon className="w-4 h-4" />
                               {attachment.name}
-                            </div>
+                            </AttachmentLink>
                           ))}
                         </div>
                       )}
 
                       {/* Actions */}
                       <div className="flex items-center gap-3 pt-4 border-t border-gray-200">
-                        {response.status !== 'shortlisted' && (
+                        {response.status === 'pending' && (
                           <button
                             onClick={() => handleShortlist(response._id)}
                             disabled={shortlistingId === response._id}
@@ -474,10 +484,10 @@ const ProposalDetailPage: React.FC = () => {
                             {shortlistingId === response._id ? 'Shortlisting...' : 'Shortlist'}
                           </button>
                         )}
-                        {response.status === 'shortlisted' && (
+                        {(response.status === 'shortlisted' || response.status === 'accepted') && (
                           <div className="flex items-center gap-2 px-4 py-2 bg-green-100 text-green-800 rounded-md">
                             <CheckCircleIcon className="w-4 h-4" />
-                            <span className="text-sm font-medium">Shortlisted</span>
+                            <span className="text-sm font-medium">{response.status === 'accepted' ? 'Hired' : 'Shortlisted'}</span>
                           </div>
                         )}
                         <button
@@ -31,23 +31,23 @@ const ProposalChatPage: React.FC = () => {
     if (id) {
       loadProposalData();
     }
-  }, [id, responseId]);
+  }, [id, responseId, user?._id]);
 
-  const loadProposalData = async () => {
+  const loadProposalData = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       const proposalResponse = await proposalsApi.getProposal(id as string);
       
       if (proposalResponse.success) {
         setProposal(proposalResponse.proposal);
         
-        // Find the specific response if responseId is provided
-        if (responseId && proposalResponse.proposal.responses) {
-          const foundResponse = proposalResponse.proposal.responses.find(
-            (r: any) => r._id === responseId
-          );
-          setResponse(foundResponse);
-        }
+        // Find the response whose thread should be opened. Vendors without an
+        // explicit responseId land on their own response.
+        const responses = proposalResponse.proposal.responses || [];
+        const foundResponse = responseId
+          ? responses.find((r: any) => r._id === responseId)
+          : responses.find((r: any) => (r.vendorId?._id || r.vendorId) === user?._id);
+        setResponse(foundResponse || null);
       }
     } catch (error: any) {
       console.error('Error loading proposal:', error);
@@ -77,7 +77,7 @@ const ProposalChatPage: React.FC = () => {
     );
   }
 
-  if (!proposal) {
+  if (!proposal || !response) {
     return (
       <Layout title="Chat Not Found">
         <div className="min-h-screen bg-white flex items-center justify-center">
@@ -121,12 +121,17 @@ const ProposalChatPage: React.FC = () => {
         <div className="flex-1 overflow-hidden">
           <ProposalChatHub
             proposalId={id as string}
+            responseId={response._id}
             proposalTitle={proposal.title}
             proposedSolutionTitle={proposedSolutionTitle}
             vendorName={vendorName}
             customerName={customerName}
+            proposalStatus={proposal.status}
+            responseStatus={response.status}
+            hire={proposal.hire}
             onClose={handleClose}
             onFulfilled={handleFulfilled}
+            onStatusChange={() => loadProposalData(false)}
           />
         </div>
       </div>
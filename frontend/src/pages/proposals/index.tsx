@@ -26,7 +26,7 @@ import {
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import Layout from '@/components/Layout/Layout';
-import { proposalsApi, solutionsApi } from '@/lib/api';
+import { proposalsApi, solutionsApi, ProposalStatus } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import Head from 'next/head';
 import { PostNeedWizard } from '@/components/proposals/PostNeedWizard';
@@ -62,8 +62,9 @@ const STATUS_OPTIONS = [
   'All Status',
   'draft',
   'active',
-  'in_progress',
-  'completed',
+  'shortlisting',
+  'hired',
+  'fulfilled',
   'cancelled'
 ];
 
@@ -100,7 +101,7 @@ interface Proposal {
     requiredFeatures: string[];
     preferredFeatures: string[];
   };
-  status: 'draft' | 'active' | 'in_progress' | 'completed' | 'cancelled';
+  status: ProposalStatus;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   responsesCount: number;
   viewsCount: number;
@@ -134,6 +135,7 @@ const ProposalsPage: React.FC = () => {
   const [showResponseModal, setShowResponseModal] = useState(false);
   const [selectedProposal, setSelectedProposal] = useState<Proposal | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [draftProposal, setDraftProposal] = useState<any>(null);
   
   // Tab state based on user role
   const [activeTab, setActiveTab] = useState<'findWork' | 'myPostings' | 'myProposals' | 'postings' | 'vendorResponses'>(
@@ -183,6 +185,36 @@ const ProposalsPage: React.FC = () => {
     }
   }, [isAuthenticated, authLoading, router]);
 
+  // Open a draft (e.g. one prepared by the AI agent) in the wizard via ?draft=<id>
+  useEffect(() => {
+    const draftId = router.query.draft;
+    if (!isAuthenticated || typeof draftId !== 'string') return;
+
+    const loadDraft = async () => {
+      try {
+        const response = await proposalsApi.getProposal(draftId);
+        if (response.success && response.proposal?.status === 'draft') {
+          setDraftProposal(response.proposal);
+          setShowCreateModal(true);
+        }
+      } catch (error) {
+        console.error('Error loading draft proposal:', error);
+        toast.error('Failed to load draft proposal');
+      }
+    };
+
+    loadDraft();
+  }, [router.query.draft, isAuthenticated]);
+
+  // Close the wizard and drop the ?draft= parameter
+  const closeWizard = () => {
+    setShowCreateModal(false);
+    if (draftProposal) {
+      setDraftProposal(null);
+      router.replace('/proposals', undefined, { shallow: true });
+    }
+  };
+
   // Fetch proposals based on active tab
   const fetchProposals = async () => {
     if (!isAuthenticated) return;
@@ -300,9 +332,11 @@ const ProposalsPage: React.FC = () => {
         return 'bg-green-100 text-green-800';
       case 'draft':
         return 'bg-gray-100 text-gray-800';
-      case 'in_progress':
+      case 'shortlisting':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'hired':
         return 'bg-blue-100 text-blue-800';
-      case 'completed':
+      case 'fulfilled':
         return 'bg-purple-100 text-purple-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
@@ -713,10 +747,12 @@ const ProposalsPage: React.FC = () => {
       {/* Post Need Wizard */}
       <PostNeedWizard
         isOpen={showCreateModal}
-        onClose={() => setShowCreateModal(false)}
+        onClose={closeWizard}
+        existingProposal={draftProposal || undefined}
+        isEditMode={!!draftProposal}
         onSuccess={(proposalId, matchedVendors) => {
           fetchProposals();
-          setShowCreateModal(false);
+          closeWizard();
           // Trigger refresh for PostingsTab
           setRefreshTrigger(prev => prev + 1);
           if (matchedVendors && matchedVendors.length > 0) {
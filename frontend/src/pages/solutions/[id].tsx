@@ -1,17 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import { motion } from 'framer-motion';
 import Layout from '../../components/Layout/Layout';
 import { useAuth } from '../../contexts/AuthContext';
-import api from '../../lib/api';
+import api, { ReviewStats, SentInquiry, inquiriesApi } from '../../lib/api';
+import { toast } from 'react-hot-toast';
 import ParticleRing from '../../components/Background/ParticleRing';
+import SolutionReviews from '../../components/solutions/SolutionReviews';
+import SaveToListModal from '../../components/solutions/SaveToListModal';
 import {
   SparklesIcon,
   StarIcon,
   EyeIcon,
   HeartIcon,
   ShareIcon,
+  BookmarkIcon,
   PhoneIcon,
   EnvelopeIcon,
   GlobeAltIcon,
@@ -110,13 +114,17 @@ const SolutionDetailPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isLiked, setIsLiked] = useState(false);
+  const [showSaveModal, setShowSaveModal] = useState(false);
   const [showContactForm, setShowContactForm] = useState(false);
+  const [activeTab, setActiveTab] = useState<'overview' | 'reviews'>('overview');
   const [contactForm, setContactForm] = useState({
     name: '',
     email: '',
     company: '',
     message: ''
   });
+  const [sendingInquiry, setSendingInquiry] = useState(false);
+  const [myInquiries, setMyInquiries] = useState<SentInquiry[]>([]);
 
   // Fetch solution details
   useEffect(() => {
@@ -125,6 +133,30 @@ const SolutionDetailPage: React.FC = () => {
     }
   }, [id]);
 
+  // Load the inquiries the signed-in user already sent about this solution
+  useEffect(() => {
+    if (id && isAuthenticated) {
+      inquiriesApi.getMyInquiries({ solutionId: id as string })
+        .then(response => setMyInquiries(response.inquiries || []))
+        .catch(error => console.error('Error fetching inquiries:', error));
+    }
+  }, [id, isAuthenticated]);
+
+  // Allow deep links straight to the reviews tab
+  useEffect(() => {
+    if (router.query.tab === 'reviews') {
+      setActiveTab('reviews');
+    }
+  }, [router.query.tab]);
+
+  // Keep the headline rating in sync with the reviews tab
+  const handleReviewStats = useCallback((stats: ReviewStats) => {
+    setSolution(prev => prev ? {
+      ...prev,
+      rating: { average: stats.averageRating, count: stats.totalReviews }
+    } : prev);
+  }, []);
+
   const fetchSolution = async () => {
     try {
       setLoading(true);
@@ -164,6 +196,14 @@ const SolutionDetailPage: React.FC = () => {
     }
   };
 
+  const handleSave = () => {
+    if (!isAuthenticated) {
+      router.push(`/auth/login?redirect=${encodeURIComponent(router.asPath)}`);
+      return;
+    }
+    setShowSaveModal(true);
+  };
+
   const handleShare = async () => {
     if (navigator.share) {
       try {
@@ -182,6 +222,19 @@ const SolutionDetailPage: React.FC = () => {
     }
   };
 
+  const openContactForm = () => {
+    if (!isAuthenticated) {
+      router.push('/auth/login');
+      return;
+    }
+    setContactForm(prev => ({
+      ...prev,
+      name: prev.name || [user?.firstName, user?.lastName].filter(Boolean).join(' '),
+      email: prev.email || user?.email || ''
+    }));
+    setShowContactForm(true);
+  };
+
   const handleContactSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isAuthenticated) {
@@ -190,22 +243,20 @@ const SolutionDetailPage: React.FC = () => {
     }
 
     try {
-      const response = await api.post(`/solutions/${id}/contact`, {
-        ...contactForm,
-        solutionId: id,
-        vendorId: solution?.vendor._id
-      });
+      setSendingInquiry(true);
+      const response = await inquiriesApi.sendInquiry(id as string, contactForm);
 
-      if (response.data.success) {
-        alert('Message sent successfully! The vendor will contact you soon.');
+      if (response.success) {
+        toast.success('Message sent! The vendor will get back to you soon.');
+        setMyInquiries(prev => [response.inquiry, ...prev]);
         setShowContactForm(false);
         setContactForm({ name: '', email: '', company: '', message: '' });
-      } else {
-        alert('Failed to send message. Please try again.');
       }
     } catch (error) {
+      // Errors are shown by the API client
       console.error('Error sending message:', error);
-      alert('Failed to send message. Please try again.');
+    } finally {
+      setSendingInquiry(false);
     }
   };
 
@@ -311,7 +362,7 @@ const SolutionDetailPage: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-4xl mx-auto mb-12">
                 <div className="bg-gradient-to-r from-purple-600/20 to-blue-600/20 rounded-xl p-6 border border-purple-600/30 backdrop-blur-sm">
                   <div className="text-3xl font-bold text-blue-400 mb-2">
-                    {solution.rating?.average || '4.8'}
+                    {solution.rating?.count ? solution.rating.average.toFixed(1) : 'New'}
                   </div>
                   <div className="text-gray-300 text-sm">Rating</div>
                 </div>
@@ -374,6 +425,13 @@ const SolutionDetailPage: React.FC = () => {
                       <ShareIcon className="h-5 w-5 mr-2 inline" />
                       Share
                     </button>
+                    <button
+                      onClick={handleSave}
+                      className="px-6 py-3 bg-gray-700/50 text-gray-300 border border-gray-600/50 rounded-xl hover:bg-gray-600/50 transition-all duration-200"
+                    >
+                      <BookmarkIcon className="h-5 w-5 mr-2 inline" />
+                      Save
+                    </button>
                   </div>
                 </div>
               </div>
@@ -383,6 +441,30 @@ const SolutionDetailPage: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Main Content */}
               <div className="lg:col-span-2 space-y-8">
+                {/* Tabs */}
+                <div className="flex space-x-2 bg-gray-800/50 rounded-xl p-1 border border-gray-600/50">
+                  {([
+                    { id: 'overview', label: 'Overview' },
+                    { id: 'reviews', label: `Reviews (${solution.rating?.count || 0})` }
+                  ] as const).map(tab => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id)}
+                      className={`flex-1 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                        activeTab === tab.id
+                          ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white'
+                          : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
+
+                {activeTab === 'reviews' ? (
+                  <SolutionReviews solutionId={solution._id} onStatsChange={handleReviewStats} />
+                ) : (
+                <>
                 {/* Description */}
                 <div className="bg-gradient-to-br from-gray-800/50 to-gray-700/50 rounded-2xl p-8 border border-gray-600/50 backdrop-blur-sm">
                   <h2 className="text-3xl font-bold text-white mb-6 flex items-center">
@@ -627,6 +709,8 @@ const SolutionDetailPage: React.FC = () => {
                     )}
                   </div>
                 </div>
+                </>
+                )}
               </div>
 
               {/* Sidebar */}
@@ -636,10 +720,7 @@ const SolutionDetailPage: React.FC = () => {
                   <h3 className="text-lg font-bold text-white mb-4">Quick Actions</h3>
                   <div className="space-y-3">
                     <button
-                      onClick={() => {
-                        // TODO: Implement in-app contact functionality
-                        console.log('Contact vendor via app');
-                      }}
+                      onClick={openContactForm}
                       className="w-full bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-2.5 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 transition-all duration-200 flex items-center justify-center space-x-2"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -680,7 +761,7 @@ const SolutionDetailPage: React.FC = () => {
                     <h3 className="text-lg font-bold text-white mb-4">Contact Vendor</h3>
                   {!showContactForm ? (
                     <button
-                      onClick={() => setShowContactForm(true)}
+                      onClick={openContactForm}
                       className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-purple-700 transition-all duration-200"
                     >
                       Get in Touch
@@ -733,9 +814,10 @@ const SolutionDetailPage: React.FC = () => {
                       <div className="flex space-x-3">
                         <button
                           type="submit"
-                          className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-purple-700 transition-all duration-200"
+                          disabled={sendingInquiry}
+                          className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-purple-700 transition-all duration-200 disabled:opacity-50"
                         >
-                          Send Message
+                          {sendingInquiry ? 'Sending...' : 'Send Message'}
                         </button>
                         <button
                           type="button"
@@ -747,6 +829,36 @@ const SolutionDetailPage: React.FC = () => {
                       </div>
                     </form>
                   )}
+
+                  {/* Inquiries the buyer already sent */}
+                  {myInquiries.length > 0 && (
+                    <div className="mt-6 pt-6 border-t border-gray-600/50">
+                      <h4 className="text-sm font-semibold text-gray-300 mb-3">Your inquiries</h4>
+                      <div className="space-y-3">
+                        {myInquiries.map((inquiry) => (
+                          <div key={inquiry._id} className="bg-gray-700/30 rounded-lg p-3 border border-gray-600/50">
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="text-xs text-gray-400">
+                                {new Date(inquiry.createdAt).toLocaleDateString()}
+                              </span>
+                              <span className="text-xs px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300 border border-blue-500/30">
+                                {inquiry.replies.length > 0 ? 'Replied' : 'Sent'}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-300 whitespace-pre-line line-clamp-3">{inquiry.message}</p>
+                            {inquiry.replies.map((reply) => (
+                              <div key={reply._id} className="mt-2 pl-3 border-l-2 border-purple-500/50">
+                                <p className="text-xs text-purple-300 mb-1">
+                                  Vendor reply · {new Date(reply.createdAt).toLocaleDateString()}
+                                </p>
+                                <p className="text-sm text-gray-200 whitespace-pre-line">{reply.message}</p>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 )}
 
@@ -842,7 +954,7 @@ const SolutionDetailPage: React.FC = () => {
                         <svg className="w-4 h-4 text-yellow-400" fill="currentColor" viewBox="0 0 20 20">
                           <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                         </svg>
-                        <span className="text-white font-medium">{solution.rating?.average?.toFixed(1) || '4.8'}</span>
+                        <span className="text-white font-medium">{solution.rating?.count ? solution.rating.average.toFixed(1) : 'No reviews yet'}</span>
                       </div>
                     </div>
                   </div>
@@ -920,6 +1032,9 @@ const SolutionDetailPage: React.FC = () => {
           </motion.div>
         </div>
       </div>
+
+      {/* Save to bookmark list */}
+      <SaveToListModal solution={showSaveModal ? solution : null} onClose={() => setShowSaveModal(false)} />
     </Layout>
   );
 };
@@ -0,0 +1,350 @@
+/**
+ * Solution Compare Page
+ * Lines up 2 to 4 shortlisted solutions attribute by attribute, highlights where they differ
+ * and exports the table as CSV; the solution IDs live in the URL so comparisons can be shared
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowDownTrayIcon,
+  LinkIcon,
+  XMarkIcon,
+  CheckBadgeIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import Layout from '../../components/Layout/Layout';
+import { solutionsApi, ComparedSolution, ReviewSubRating } from '../../lib/api';
+import { MAX_COMPARE, compareUrl } from '../../hooks/useCompareList';
+
+interface CompareRow {
+  section: string;
+  label: string;
+  values: string[];
+}
+
+const EMPTY = '—';
+
+const SUB_RATING_LABELS: Record<ReviewSubRating, string> = {
+  features: 'Features',
+  easeOfUse: 'Ease of use',
+  valueForMoney: 'Value for money',
+  customerSupport: 'Customer support'
+};
+
+const capitalize = (value?: string) =>
+  value ? value.charAt(0).toUpperCase() + value.slice(1).replace(/-/g, ' ') : EMPTY;
+
+const formatPrice = (pricing: ComparedSolution['pricing']) => {
+  if (!pricing?.price?.amount) {
+    return pricing?.customPricing?.available ? pricing.customPricing.description || 'Custom pricing' : EMPTY;
+  }
+  const { amount, currency = 'USD', period } = pricing.price;
+  let price = `${amount} ${currency}`;
+  try {
+    price = new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch (error) {
+    // Unknown currency codes keep the plain format
+  }
+  return period ? `${price} / ${period.replace(/-/g, ' ')}` : price;
+};
+
+const formatList = (values: string[]) => (values.length > 0 ? values.join('; ') : EMPTY);
+
+// Build the table; each row holds one display string per solution
+const buildRows = (solutions: ComparedSolution[]): CompareRow[] => {
+  const row = (section: string, label: string, value: (solution: ComparedSolution) => string): CompareRow => ({
+    section,
+    label,
+    values: solutions.map(solution => value(solution) || EMPTY)
+  });
+
+  // One row per metric name, in the order they first appear
+  const metricNames = Array.from(new Set(
+    solutions.flatMap(solution => (solution.performanceMetrics || []).map(metric => metric.metric?.trim()).filter((name): name is string => Boolean(name)))
+  ));
+
+  return [
+    row('Overview', 'Vendor', solution => solution.companyId?.name || EMPTY),
+    row('Overview', 'Category', solution => solution.category || EMPTY),
+    row('Pricing', 'Pricing model', solution => capitalize(solution.pricing?.model)),
+    row('Pricing', 'Price', solution => formatPrice(solution.pricing)),
+    row('Pricing', 'Free trial', solution =>
+      solution.pricing?.freeTrial?.available ? solution.pricing.freeTrial.duration || 'Yes' : 'No'),
+    row('Deployment', 'Deployment type', solution => capitalize(solution.deployment?.type)),
+    row('Deployment', 'Integration complexity', solution => capitalize(solution.deployment?.integrationComplexity)),
+    row('Deployment', 'Implementation time', solution => solution.implementationTime || solution.deployment?.setupTime || EMPTY),
+    row('Deployment', 'Support level', solution => capitalize(solution.deployment?.supportLevel)),
+    row('Trust', 'Certifications', solution =>
+      formatList((solution.certifications || []).filter(cert => cert.name).map(cert => cert.issuer ? `${cert.name} (${cert.issuer})` : cert.name))),
+    row('Trust', 'Compliance', solution =>
+      formatList((solution.compliance || []).filter(item => item.standard).map(item => item.status ? `${item.standard} (${item.status})` : item.standard))),
+    row('Integrations', 'Integrations', solution => formatList((solution.integrationHighlights || []).filter(Boolean))),
+    ...metricNames.map(name => row('Performance', name, solution =>
+      solution.performanceMetrics?.find(metric => metric.metric?.trim() === name)?.value || EMPTY)),
+    row('Ratings', 'Overall rating', solution =>
+      solution.ratingStats.totalReviews > 0
+        ? `${solution.ratingStats.averageRating.toFixed(1)} (${solution.ratingStats.totalReviews} reviews)`
+        : 'No reviews yet'),
+    ...(Object.keys(SUB_RATING_LABELS) as ReviewSubRating[]).map(key => row('Ratings', SUB_RATING_LABELS[key], solution => {
+      const value = solution.ratingStats.breakdown[key];
+      return value === null || value === undefined ? EMPTY : value.toFixed(1);
+    }))
+  ];
+};
+
+const isDifferent = (row: CompareRow) => new Set(row.values.map(value => value.toLowerCase())).size > 1;
+
+// Vendor-entered text must not run as a spreadsheet formula
+const csvCell = (value: string) => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const SolutionComparePage: React.FC = () => {
+  const router = useRouter();
+  const [solutions, setSolutions] = useState<ComparedSolution[]>([]);
+  const [missingCount, setMissingCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const ids = useMemo(() => {
+    const value = router.query.ids;
+    return Array.from(new Set((Array.isArray(value) ? value.join(',') : value || '').split(',').filter(Boolean)));
+  }, [router.query.ids]);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    if (ids.length < 2 || ids.length > MAX_COMPARE) {
+      setError(`Pick between 2 and ${MAX_COMPARE} solutions to compare.`);
+      setLoading(false);
+      return;
+    }
+
+    const fetchComparison = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await solutionsApi.compareSolutions(ids);
+        setSolutions(response.solutions);
+        setMissingCount(response.missing.length);
+      } catch (err: any) {
+        console.error('Error fetching comparison:', err);
+        setError(err.response?.data?.message || 'These solutions could not be compared.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [router.isReady, ids.join(',')]);
+
+  const rows = useMemo(() => buildRows(solutions), [solutions]);
+  const differenceCount = rows.filter(isDifferent).length;
+  const visibleRows = differencesOnly ? rows.filter(isDifferent) : rows;
+
+  const handleRemove = (id: string) => {
+    const remaining = solutions.map(solution => solution._id).filter(solutionId => solutionId !== id);
+    router.replace(remaining.length >= 2 ? compareUrl(remaining) : '/');
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Comparison link copied');
+    } catch (err) {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleExport = () => {
+    const lines = [
+      ['Section', 'Attribute', ...solutions.map(solution => solution.title)],
+      ...rows.map(row => [row.section, row.label, ...row.values.map(value => (value === EMPTY ? '' : value))])
+    ].map(line => line.map(csvCell).join(','));
+
+    const blob = new Blob(['\uFEFF' + lines.join('\n')], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'solution-comparison.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="bg-gray-800 min-h-screen flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-300">Loading comparison...</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || solutions.length < 2) {
+    return (
+      <Layout>
+        <div className="bg-gray-800 min-h-screen flex items-center justify-center">
+          <div className="text-center max-w-md">
+            <h1 className="text-2xl font-bold text-white mb-4">Nothing to compare</h1>
+            <p className="text-gray-300 mb-6">
+              {error || 'Some of these solutions are no longer listed. Pick at least two to compare.'}
+            </p>
+            <button
+              onClick={() => router.push('/')}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Browse Solutions
+            </button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  let previousSection = '';
+
+  return (
+    <Layout>
+      <Head>
+        <title>Compare {solutions.map(solution => solution.title).join(' vs ')} - AstroVault AI</title>
+      </Head>
+
+      <div className="bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 min-h-screen">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-white">Compare solutions</h1>
+              <p className="text-gray-400 mt-2">
+                {differenceCount} of {rows.length} attributes differ
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={differencesOnly}
+                  onChange={(e) => setDifferencesOnly(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-purple-600"
+                />
+                Only show differences
+              </label>
+              <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-gray-200 border border-gray-600 rounded-lg hover:bg-gray-700/50 transition-colors"
+              >
+                <LinkIcon className="h-4 w-4" />
+                Copy link
+              </button>
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg hover:opacity-90 transition-opacity"
+              >
+                <ArrowDownTrayIcon className="h-4 w-4" />
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {missingCount > 0 && (
+            <div className="flex items-start gap-3 p-4 mb-6 bg-yellow-900/20 border border-yellow-500/30 rounded-lg">
+              <ExclamationTriangleIcon className="h-5 w-5 text-yellow-300 shrink-0" />
+              <p className="text-sm text-gray-300">
+                {missingCount === 1 ? 'One solution in this link is' : `${missingCount} solutions in this link are`} no longer listed
+                and {missingCount === 1 ? 'was' : 'were'} left out.
+              </p>
+            </div>
+          )}
+
+          <div className="overflow-x-auto rounded-2xl border border-gray-600/50 bg-gray-800/50 backdrop-blur-sm">
+            <table className="w-full min-w-[48rem] text-sm">
+              <thead>
+                <tr className="border-b border-gray-600/50">
+                  <th className="w-48 p-4 text-left align-bottom text-xs font-semibold uppercase tracking-wider text-gray-400">
+                    Attribute
+                  </th>
+                  {solutions.map(solution => (
+                    <th key={solution._id} className="p-4 text-left align-top">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <Link
+                            href={`/solutions/${solution._id}`}
+                            className="block text-base font-semibold text-white hover:text-purple-300"
+                          >
+                            {solution.title}
+                          </Link>
+                          {solution.companyId?.name && (
+                            <span className="mt-1 flex items-center gap-1 text-xs font-normal text-gray-400">
+                              {solution.companyId.name}
+                              {solution.companyId.isVerified && <CheckBadgeIcon className="h-4 w-4 text-blue-400" />}
+                            </span>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => handleRemove(solution._id)}
+                          className="text-gray-500 hover:text-white shrink-0"
+                          title="Remove from comparison"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => {
+                  const different = isDifferent(row);
+                  const showSection = row.section !== previousSection;
+                  previousSection = row.section;
+
+                  return (
+                    <React.Fragment key={`${row.section}-${row.label}`}>
+                      {showSection && (
+                        <tr className="bg-gray-900/40">
+                          <td
+                            colSpan={solutions.length + 1}
+                            className="px-4 py-2 text-xs font-semibold uppercase tracking-wider text-purple-300"
+                          >
+                            {row.section}
+                          </td>
+                        </tr>
+                      )}
+                      <tr className={`border-t border-gray-700/50 ${different ? 'bg-purple-500/10' : ''}`}>
+                        <td className="p-4 align-top font-medium text-gray-300">
+                          <span className="flex items-center gap-2">
+                            {different && <span className="h-2 w-2 rounded-full bg-purple-400" title="Differs" />}
+                            {row.label}
+                          </span>
+                        </td>
+                        {row.values.map((value, index) => (
+                          <td
+                            key={solutions[index]._id}
+                            className={`p-4 align-top ${value === EMPTY ? 'text-gray-500' : different ? 'text-white' : 'text-gray-300'}`}
+                          >
+                            {value}
+                          </td>
+                        ))}
+                      </tr>
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default SolutionComparePage;
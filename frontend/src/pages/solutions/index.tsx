@@ -30,40 +30,13 @@ import {
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSolutions, useSearchSolutions } from '@/hooks/useSolutions';
+import { useTaxonomy, flattenTaxonomy } from '@/hooks/useCategories';
+import { TaxonomyEntry } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 import Layout from '@/components/Layout/Layout';
+import SaveToListModal from '@/components/solutions/SaveToListModal';
 
 // Filter options for the solutions
-const CATEGORIES = [
-  'All Categories',
-  'Chatbots',
-  'Predictive Analytics', 
-  'Computer Vision',
-  'Recommendation Systems',
-  'Natural Language Processing',
-  'Machine Learning',
-  'Deep Learning',
-  'Robotic Process Automation',
-  'Voice Recognition',
-  'Image Recognition',
-  'Sentiment Analysis'
-];
-
-const INDUSTRIES = [
-  'All Industries',
-  'Healthcare',
-  'E-commerce',
-  'Finance',
-  'Technology',
-  'Manufacturing',
-  'Education',
-  'Retail',
-  'Real Estate',
-  'Travel',
-  'Media',
-  'Automotive'
-];
-
 const PRICING_MODELS = [
   'All Pricing',
   'Free',
@@ -111,6 +84,8 @@ const SolutionsPage: React.FC = () => {
   const router = useRouter();
   const { user } = useAuth();
   
+  const [savingSolution, setSavingSolution] = useState<{ _id: string; title: string } | null>(null);
+  
   // Filter state management
   const [filters, setFilters] = useState<FilterState>({
     search: '',
@@ -145,6 +120,28 @@ const SolutionsPage: React.FC = () => {
     maxPrice: filters.maxPrice || undefined
   });
 
+  // Apply category/industry links (e.g. from the categories page), shown by their taxonomy name
+  const { data: taxonomy } = useTaxonomy();
+  useEffect(() => {
+    if (!router.isReady) return;
+    const { category, industry } = router.query;
+    const nameFor = (entries: TaxonomyEntry[] | undefined, value: string) => {
+      const match = flattenTaxonomy(entries).find(({ entry }) =>
+        entry.slug === value || entry.name.toLowerCase() === value.toLowerCase()
+      );
+      return match ? match.value : value;
+    };
+
+    if (typeof category === 'string' || typeof industry === 'string') {
+      setFilters(prev => ({
+        ...prev,
+        ...(typeof category === 'string' && { category: nameFor(taxonomy?.categories, category) }),
+        ...(typeof industry === 'string' && { industry: nameFor(taxonomy?.industries, industry) }),
+        page: 1
+      }));
+    }
+  }, [router.isReady, router.query.category, router.query.industry, taxonomy]);
+
   const solutions = solutionsData?.solutions || [];
   const totalSolutions = solutionsData?.total || 0;
   const totalPages = Math.ceil(totalSolutions / filters.limit);
@@ -191,6 +188,15 @@ const SolutionsPage: React.FC = () => {
     router.push(`/solutions/${solutionId}`);
   };
 
+  // Open the save-to-list dialog (signing in first if needed)
+  const handleSaveClick = (solution: { _id: string; title: string }) => {
+    if (!user) {
+      router.push(`/auth/login?redirect=${encodeURIComponent(router.asPath)}`);
+      return;
+    }
+    setSavingSolution(solution);
+  };
+
   // Format price display
   const formatPrice = (pricing: any) => {
     if (!pricing) return 'Contact for pricing';
@@ -486,16 +492,28 @@ const SolutionsPage: React.FC = () => {
                               {/* {solution.description} */}
                             </p>
                             
-                            {/* Connect Button */}
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleSolutionClick(solution._id);
-                              }}
-                              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200 shadow-lg hover:shadow-xl"
-                            >
-                              Connect with Vendor
-                            </button>
+                            {/* Connect and Save Buttons */}
+                            <div className="flex gap-2">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleSolutionClick(solution._id);
+                                }}
+                                className="flex-1 bg-gradient-to-r from-purple-600 to-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200 shadow-lg hover:shadow-xl"
+                              >
+                                Connect with Vendor
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleSaveClick(solution);
+                                }}
+                                title="Save to list"
+                                className="px-3 rounded-lg border border-gray-300 text-gray-600 hover:text-blue-600 hover:border-blue-300 transition-colors"
+                              >
+                                <BookmarkIcon className="h-5 w-5" />
+                              </button>
+                            </div>
                           </div>
                         </div>
                       </motion.div>
@@ -579,8 +597,18 @@ const SolutionsPage: React.FC = () => {
                                   </p>
                                 </div>
 
-                                {/* Connect Button */}
-                                <div className="flex justify-end">
+                                {/* Connect and Save Buttons */}
+                                <div className="flex justify-end gap-2">
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleSaveClick(solution);
+                                    }}
+                                    title="Save to list"
+                                    className="px-3 rounded-lg border border-gray-300 text-gray-600 hover:text-blue-600 hover:border-blue-300 transition-colors"
+                                  >
+                                    <BookmarkIcon className="h-5 w-5" />
+                                  </button>
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
@@ -673,6 +701,9 @@ const SolutionsPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Save to bookmark list */}
+      <SaveToListModal solution={savingSolution} onClose={() => setSavingSolution(null)} />
     </Layout>
   );
 };
@@ -0,0 +1,394 @@
+/**
+ * Vendor Profile Page
+ * Public company overview with key team members, highlights, certifications and approved solutions
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeftIcon,
+  BuildingOfficeIcon,
+  CalendarIcon,
+  CheckBadgeIcon,
+  CloudIcon,
+  CurrencyDollarIcon,
+  GlobeAltIcon,
+  MapPinIcon,
+  ShieldCheckIcon,
+  SparklesIcon,
+  StarIcon,
+  TrophyIcon,
+  UserGroupIcon,
+  ClockIcon
+} from '@heroicons/react/24/outline';
+import Layout from '@/components/Layout/Layout';
+import { vendorApi, VendorProfile } from '@/lib/api';
+
+/**
+ * Titled list of tags; hidden when there is nothing to show
+ */
+const TagList: React.FC<{ title: string; items?: string[] }> = ({ title, items }) => {
+  if (!items || items.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-500 mb-2">{title}</h3>
+      <div className="flex flex-wrap gap-2">
+        {items.map(item => (
+          <span key={item} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            {item}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const VendorProfilePage: React.FC = () => {
+  const router = useRouter();
+  const { id } = router.query;
+  const [vendor, setVendor] = useState<VendorProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof id !== 'string') return;
+
+    const fetchVendor = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await vendorApi.getVendorProfile(id);
+        if (response.success) {
+          setVendor(response.vendor);
+        }
+      } catch (err: any) {
+        console.error('Error fetching vendor profile:', err);
+        setError(err.response?.status === 404 || err.response?.status === 400
+          ? 'This vendor could not be found'
+          : 'Failed to load vendor profile');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVendor();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-white flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error || !vendor) {
+    return (
+      <Layout>
+        <div className="min-h-screen bg-white flex flex-col items-center justify-center text-center px-4">
+          <BuildingOfficeIcon className="h-16 w-16 text-gray-400 mb-4" />
+          <h1 className="text-xl font-medium text-gray-900 mb-2">{error || 'Vendor not found'}</h1>
+          <Link href="/vendors" className="text-blue-600 hover:text-blue-700">
+            Back to the vendor directory
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const location = [vendor.location?.state, vendor.location?.country].filter(Boolean).join(', ');
+  const certifications = [
+    ...vendor.complianceCertifications.filter(cert => cert !== 'Other'),
+    ...(vendor.complianceCertificationsOther ? [vendor.complianceCertificationsOther] : [])
+  ];
+  const companyType = vendor.companyType === 'Other' ? vendor.companyTypeOther : vendor.companyType;
+  const team = vendor.keyTeamMembers || [];
+  const highlights = [...(vendor.highlights || [])].sort((a, b) => (b.year || 0) - (a.year || 0));
+
+  const facts = [
+    { icon: CloudIcon, label: 'Deployment', value: vendor.deploymentOptions.join(', ') },
+    { icon: CurrencyDollarIcon, label: 'Pricing', value: [vendor.pricingModel, vendor.pricingRange].filter(Boolean).join(' · ') },
+    { icon: ClockIcon, label: 'Implementation', value: vendor.implementationTime },
+    { icon: UserGroupIcon, label: 'Clients', value: vendor.clientCount }
+  ].filter(fact => fact.value);
+
+  return (
+    <>
+      <Head>
+        <title>{vendor.name} - AstroVault AI</title>
+        <meta name="description" content={vendor.description} />
+      </Head>
+
+      <Layout>
+        <div className="bg-white">
+          <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <Link href="/vendors" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-6">
+              <ArrowLeftIcon className="h-4 w-4 mr-1" />
+              All vendors
+            </Link>
+
+            {/* Header */}
+            <motion.header
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex flex-col md:flex-row md:items-start gap-6 mb-10"
+            >
+              {vendor.logo ? (
+                <img src={vendor.logo} alt={vendor.name} className="w-24 h-24 rounded-xl object-cover flex-shrink-0" />
+              ) : (
+                <div className="w-24 h-24 rounded-xl bg-primary-100 flex items-center justify-center flex-shrink-0">
+                  <BuildingOfficeIcon className="h-12 w-12 text-primary-600" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2 mb-2">
+                  <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{vendor.name}</h1>
+                  {vendor.isVerified && (
+                    <CheckBadgeIcon className="h-7 w-7 text-green-500 flex-shrink-0" title="Verified vendor" />
+                  )}
+                </div>
+                {vendor.description && (
+                  <p className="text-lg text-gray-600 mb-4">{vendor.description}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
+                  {vendor.website && (
+                    <a
+                      href={vendor.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center space-x-1 text-blue-600 hover:text-blue-700"
+                    >
+                      <GlobeAltIcon className="h-4 w-4" />
+                      <span>{vendor.website.replace(/^https?:\/\//, '')}</span>
+                    </a>
+                  )}
+                  {location && (
+                    <div className="flex items-center space-x-1">
+                      <MapPinIcon className="h-4 w-4" />
+                      <span>{location}</span>
+                    </div>
+                  )}
+                  {vendor.foundedYear && (
+                    <div className="flex items-center space-x-1">
+                      <CalendarIcon className="h-4 w-4" />
+                      <span>Founded {vendor.foundedYear}</span>
+                    </div>
+                  )}
+                  {vendor.companySize && (
+                    <div className="flex items-center space-x-1">
+                      <UserGroupIcon className="h-4 w-4" />
+                      <span>{vendor.companySize} employees</span>
+                    </div>
+                  )}
+                  {companyType && (
+                    <div className="flex items-center space-x-1">
+                      <BuildingOfficeIcon className="h-4 w-4" />
+                      <span>{companyType}</span>
+                    </div>
+                  )}
+                  {vendor.rating.count > 0 && (
+                    <div className="flex items-center space-x-1">
+                      <StarIcon className="h-4 w-4 text-yellow-400 fill-current" />
+                      <span className="text-gray-900 font-medium">{vendor.rating.average.toFixed(1)}</span>
+                      <span>({vendor.rating.count})</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </motion.header>
+
+            <div className="lg:grid lg:grid-cols-3 lg:gap-8">
+              {/* Main Column */}
+              <div className="lg:col-span-2 space-y-10">
+                {/* Company Overview */}
+                <section>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">Company overview</h2>
+                  {facts.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+                      {facts.map(fact => (
+                        <div key={fact.label} className="flex items-start space-x-3 p-4 bg-gray-50 rounded-lg">
+                          <fact.icon className="h-5 w-5 text-primary-600 mt-0.5" />
+                          <div>
+                            <p className="text-xs text-gray-500">{fact.label}</p>
+                            <p className="text-sm font-medium text-gray-900">{fact.value}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="space-y-4">
+                    <TagList title="Solution categories" items={vendor.solutionCategory} />
+                    <TagList title="Key features" items={vendor.keyFeatures} />
+                    <TagList title="Technology" items={vendor.technologyStack} />
+                    <TagList title="Integrations" items={vendor.integrationCapabilities} />
+                    <TagList title="Specialties" items={vendor.targetSpecialties} />
+                    <TagList title="Institution types" items={vendor.targetInstitutionTypes} />
+                    <TagList title="Support" items={vendor.supportOffered} />
+                    <TagList title="Training" items={vendor.trainingProvided} />
+                  </div>
+                </section>
+
+                {/* Highlights */}
+                {(highlights.length > 0 || (vendor.awards?.length ?? 0) > 0) && (
+                  <section>
+                    <h2 className="text-2xl font-bold text-gray-900 mb-4">Highlights</h2>
+                    <ul className="space-y-4">
+                      {highlights.map((highlight, index) => (
+                        <li key={`${highlight.title}-${index}`} className="flex items-start space-x-3">
+                          <SparklesIcon className="h-5 w-5 text-primary-600 mt-0.5 flex-shrink-0" />
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {highlight.title}
+                              {highlight.year && <span className="ml-2 text-sm font-normal text-gray-500">{highlight.year}</span>}
+                            </p>
+                            {highlight.description && (
+                              <p className="text-sm text-gray-600">{highlight.description}</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                      {vendor.awards?.map(award => (
+                        <li key={award} className="flex items-start space-x-3">
+                          <TrophyIcon className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+                          <p className="font-medium text-gray-900">{award}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                {/* Key Team Members */}
+                {team.length > 0 && (
+                  <section>
+                    <h2 className="text-2xl font-bold text-gray-900 mb-4">Key team members</h2>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {team.map((member, index) => (
+                        <div key={`${member.name}-${index}`} className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg">
+                          {member.image ? (
+                            <img src={member.image} alt={member.name} className="w-12 h-12 rounded-full object-cover" />
+                          ) : (
+                            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-white font-bold">
+                              {member.name.charAt(0)}
+                            </div>
+                          )}
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{member.name}</p>
+                            {member.position && <p className="text-sm text-gray-500 truncate">{member.position}</p>}
+                            {member.linkedin && (
+                              <a
+                                href={member.linkedin}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-blue-600 hover:text-blue-700"
+                              >
+                                LinkedIn
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+              </div>
+
+              {/* Sidebar */}
+              <aside className="mt-10 lg:mt-0 space-y-6">
+                <div className="p-6 border border-gray-200 rounded-lg">
+                  <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+                    <ShieldCheckIcon className="h-5 w-5 text-green-600 mr-2" />
+                    Certifications
+                  </h2>
+                  {certifications.length > 0 ? (
+                    <ul className="space-y-2">
+                      {certifications.map(cert => (
+                        <li key={cert} className="flex items-center text-sm text-gray-700">
+                          <CheckBadgeIcon className="h-4 w-4 text-green-500 mr-2" />
+                          {cert}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">No certifications listed.</p>
+                  )}
+                  {(vendor.securityFeatures?.length ?? 0) > 0 && (
+                    <div className="mt-4 pt-4 border-t border-gray-200">
+                      <TagList title="Security" items={vendor.securityFeatures} />
+                    </div>
+                  )}
+                </div>
+
+                {(vendor.competitiveAdvantages?.length ?? 0) > 0 && (
+                  <div className="p-6 border border-gray-200 rounded-lg">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Why {vendor.name}</h2>
+                    <ul className="list-disc list-inside space-y-1 text-sm text-gray-700">
+                      {vendor.competitiveAdvantages?.map(advantage => (
+                        <li key={advantage}>{advantage}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </aside>
+            </div>
+          </div>
+
+          {/* Solutions */}
+          <section className="bg-gray-50 border-t border-gray-200">
+            <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">
+                Solutions by {vendor.name} ({vendor.solutions.length})
+              </h2>
+              {vendor.solutions.length === 0 ? (
+                <p className="text-gray-600">This vendor has no approved solutions yet.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {vendor.solutions.map(solution => {
+                    const image = solution.images?.find(img => img.isPrimary) || solution.images?.[0];
+                    return (
+                      <Link
+                        key={solution._id}
+                        href={`/solutions/${solution._id}`}
+                        className="bg-white rounded-lg shadow-sm border border-gray-200 p-5 hover:shadow-md transition-shadow"
+                      >
+                        <div className="flex items-center space-x-3 mb-3">
+                          {image ? (
+                            <img src={image.url} alt={image.alt || solution.title} className="w-10 h-10 rounded-lg object-cover" />
+                          ) : (
+                            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center text-white font-bold">
+                              {solution.title.charAt(0)}
+                            </div>
+                          )}
+                          <h3 className="font-semibold text-gray-900 truncate">{solution.title}</h3>
+                        </div>
+                        <p className="text-sm text-gray-600 line-clamp-3 mb-3">{solution.shortDescription}</p>
+                        <div className="flex items-center justify-between text-xs text-gray-500">
+                          <span>{solution.category}</span>
+                          {solution.rating?.count ? (
+                            <span className="flex items-center">
+                              <StarIcon className="h-4 w-4 text-yellow-400 mr-1" />
+                              {solution.rating.average.toFixed(1)}
+                            </span>
+                          ) : (
+                            <span>{solution.pricing?.model}</span>
+                          )}
+                        </div>
+                      </Link>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </section>
+        </div>
+      </Layout>
+    </>
+  );
+};
+
+export default VendorProfilePage;
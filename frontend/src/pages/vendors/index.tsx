@@ -1,255 +1,225 @@
 /**
- * Vendors Page - Database-driven Company Listings
- * Displays verified AI solution vendors with filtering and search
+ * Vendors Page - Database-driven Vendor Directory
+ * Lists vendors from their questionnaires and company profiles with filtering, search, and pagination
  */
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
-import { 
+import {
   MagnifyingGlassIcon,
   FunnelIcon,
   BuildingOfficeIcon,
   GlobeAltIcon,
-  PhoneIcon,
-  MailIcon,
   StarIcon,
-  EyeIcon,
   CheckBadgeIcon,
   SparklesIcon,
-  TagIcon,
   UserGroupIcon,
-  ArrowPathIcon,
-  XMarkIcon
+  ShieldCheckIcon,
+  CloudIcon
 } from '@heroicons/react/24/outline';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAuth } from '@/contexts/AuthContext';
-import { toast } from 'react-hot-toast';
 import Link from 'next/link';
 import Layout from '@/components/Layout/Layout';
+import { vendorApi, VendorListing, VendorDirectoryFilters, VendorDirectorySort } from '@/lib/api';
 
-// Sample vendor data (in a real app, this would come from the database)
-const VENDORS = [
-  {
-    _id: '1',
-    name: 'TechBot Solutions',
-    slug: 'techbot-solutions',
-    description: 'Leading provider of AI-powered customer service solutions with 99.9% uptime.',
-    website: 'https://techbot.ai',
-    industry: 'Technology',
-    companySize: '51-200',
-    email: 'contact@techbot.ai',
-    phone: '+1-555-TECH-BOT',
-    categories: ['Customer Service', 'AI Chatbots', 'Automation'],
-    isVerified: true,
-    rating: { average: 4.8, count: 156 },
-    logo: 'https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=150&h=150&fit=crop',
-    founded: '2019',
-    location: 'San Francisco, CA',
-    solutions: 12,
-    employees: 150,
-    clients: 500
-  },
-  {
-    _id: '2',
-    name: 'DataFlow AI',
-    slug: 'dataflow-ai',
-    description: 'Advanced predictive analytics and machine learning solutions for enterprise.',
-    website: 'https://dataflow.ai',
-    industry: 'Technology',
-    companySize: '201-500',
-    email: 'info@dataflow.ai',
-    phone: '+1-555-DATA-FLW',
-    categories: ['Predictive Analytics', 'Machine Learning', 'Data Science'],
-    isVerified: true,
-    rating: { average: 4.6, count: 89 },
-    logo: 'https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=150&h=150&fit=crop',
-    founded: '2018',
-    location: 'New York, NY',
-    solutions: 8,
-    employees: 300,
-    clients: 200
-  },
-  {
-    _id: '3',
-    name: 'MedTech AI',
-    slug: 'medtech-ai',
-    description: 'Revolutionary AI solutions for healthcare and medical imaging.',
-    website: 'https://medtech.ai',
-    industry: 'Healthcare',
-    companySize: '11-50',
-    email: 'hello@medtech.ai',
-    phone: '+1-555-MED-TECH',
-    categories: ['Healthcare', 'Medical AI', 'Computer Vision'],
-    isVerified: true,
-    rating: { average: 4.9, count: 234 },
-    logo: 'https://images.unsplash.com/photo-1576091160399-112ba8d25d1f?w=150&h=150&fit=crop',
-    founded: '2020',
-    location: 'Boston, MA',
-    solutions: 6,
-    employees: 45,
-    clients: 120
-  },
-  {
-    _id: '4',
-    name: 'RetailAI Pro',
-    slug: 'retailai-pro',
-    description: 'Smart recommendation engines and inventory optimization for retail.',
-    website: 'https://retailai.pro',
-    industry: 'E-commerce',
-    companySize: '51-200',
-    email: 'sales@retailai.pro',
-    phone: '+1-555-RETAIL-AI',
-    categories: ['E-commerce', 'Recommendation Systems', 'Retail Tech'],
-    isVerified: false,
-    rating: { average: 4.5, count: 67 },
-    logo: 'https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=150&h=150&fit=crop',
-    founded: '2021',
-    location: 'Austin, TX',
-    solutions: 4,
-    employees: 80,
-    clients: 150
-  },
-  {
-    _id: '5',
-    name: 'FinTech AI Labs',
-    slug: 'fintech-ai-labs',
-    description: 'Advanced AI solutions for financial services and risk management.',
-    website: 'https://fintechailabs.com',
-    industry: 'Finance',
-    companySize: '201-500',
-    email: 'contact@fintechailabs.com',
-    phone: '+1-555-FINTECH-AI',
-    categories: ['Finance', 'Risk Management', 'Fraud Detection'],
-    isVerified: true,
-    rating: { average: 4.7, count: 145 },
-    logo: 'https://images.unsplash.com/photo-1559526324-4b87b5e36e44?w=150&h=150&fit=crop',
-    founded: '2017',
-    location: 'Chicago, IL',
-    solutions: 15,
-    employees: 250,
-    clients: 300
-  },
-  {
-    _id: '6',
-    name: 'EduTech AI',
-    slug: 'edutech-ai',
-    description: 'Personalized learning solutions powered by artificial intelligence.',
-    website: 'https://edutechai.com',
-    industry: 'Education',
-    companySize: '11-50',
-    email: 'hello@edutechai.com',
-    phone: '+1-555-EDU-TECH',
-    categories: ['Education', 'Personalized Learning', 'NLP'],
-    isVerified: true,
-    rating: { average: 4.4, count: 98 },
-    logo: 'https://images.unsplash.com/photo-1522202176988-66273c2fd55f?w=150&h=150&fit=crop',
-    founded: '2019',
-    location: 'Seattle, WA',
-    solutions: 7,
-    employees: 35,
-    clients: 80
-  }
-];
-
-const INDUSTRIES = [
-  'All Industries',
-  'Technology',
-  'Healthcare',
-  'Finance',
-  'E-commerce',
-  'Education',
-  'Manufacturing'
-];
-
-const COMPANY_SIZES = [
-  'All Sizes',
-  '1-10',
-  '11-50',
-  '51-200',
-  '201-500',
-  '500+'
-];
-
-const SORT_OPTIONS = [
+const SORT_OPTIONS: Array<{ value: VendorDirectorySort; label: string }> = [
+  { value: 'verified', label: 'Verified First' },
   { value: 'newest', label: 'Newest First' },
-  { value: 'oldest', label: 'Oldest First' },
+  { value: 'name', label: 'Name (A-Z)' },
   { value: 'rating', label: 'Highest Rated' },
-  { value: 'solutions', label: 'Most Solutions' },
-  { value: 'verified', label: 'Verified First' }
+  { value: 'solutions', label: 'Most Solutions' }
 ];
 
+const EMPTY_OPTIONS: VendorDirectoryFilters = {
+  companyTypes: [],
+  companySizes: [],
+  deploymentOptions: [],
+  complianceCertifications: [],
+  pricingRanges: [],
+  categories: []
+};
+
+// Debounce for the search box, so the API is not queried on every keystroke
+const SEARCH_DELAY_MS = 300;
+
 interface FilterState {
   search: string;
-  industry: string;
-  companySize: string;
+  category: string;
+  companyType: string[];
+  companySize: string[];
+  deployment: string[];
+  compliance: string[];
+  pricingRange: string[];
   verified: boolean | null;
-  sort: string;
+  sort: VendorDirectorySort;
   viewMode: 'grid' | 'list';
+  page: number;
+  limit: number;
 }
 
+type ListFilter = 'companyType' | 'companySize' | 'deployment' | 'compliance' | 'pricingRange';
+
+const INITIAL_FILTERS: FilterState = {
+  search: '',
+  category: '',
+  companyType: [],
+  companySize: [],
+  deployment: [],
+  compliance: [],
+  pricingRange: [],
+  verified: null,
+  sort: 'verified',
+  viewMode: 'grid',
+  page: 1,
+  limit: 12
+};
+
+const formatLocation = (vendor: VendorListing) => (
+  [vendor.location?.state, vendor.location?.country].filter(Boolean).join(', ')
+);
+
+/**
+ * Checkbox list for a multi-value filter
+ */
+const CheckboxFilter: React.FC<{
+  label: string;
+  hint?: string;
+  options: string[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}> = ({ label, hint, options, selected, onToggle }) => {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      {hint && <p className="text-xs text-gray-500 mb-2">{hint}</p>}
+      <div className="space-y-2">
+        {options.map((option) => (
+          <label key={option} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={selected.includes(option)}
+              onChange={() => onToggle(option)}
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+            <span className="ml-2 text-sm text-gray-700">{option}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Vendor logo, falling back to an icon when the company has none
+ */
+const VendorLogo: React.FC<{ vendor: VendorListing; size: string }> = ({ vendor, size }) => (
+  vendor.logo ? (
+    <img
+      src={vendor.logo}
+      alt={vendor.name}
+      className={`${size} rounded-lg object-cover`}
+    />
+  ) : (
+    <div className={`${size} rounded-lg bg-primary-100 flex items-center justify-center`}>
+      <BuildingOfficeIcon className="h-8 w-8 text-primary-600" />
+    </div>
+  )
+);
+
 const VendorsPage: React.FC = () => {
   const router = useRouter();
-  const { user } = useAuth();
-  
-  const [filters, setFilters] = useState<FilterState>({
-    search: '',
-    industry: 'All Industries',
-    companySize: 'All Sizes',
-    verified: null,
-    sort: 'verified',
-    viewMode: 'grid'
-  });
-
-  // Filter and sort vendors
-  const filteredVendors = VENDORS
-    .filter(vendor => {
-      if (filters.search && !vendor.name.toLowerCase().includes(filters.search.toLowerCase()) && 
-          !vendor.description.toLowerCase().includes(filters.search.toLowerCase())) {
-        return false;
-      }
-      if (filters.industry !== 'All Industries' && vendor.industry !== filters.industry) {
-        return false;
-      }
-      if (filters.companySize !== 'All Sizes' && vendor.companySize !== filters.companySize) {
-        return false;
-      }
-      if (filters.verified !== null && vendor.isVerified !== filters.verified) {
-        return false;
-      }
-      return true;
-    })
-    .sort((a, b) => {
-      switch (filters.sort) {
-        case 'oldest':
-          return parseInt(a.founded) - parseInt(b.founded);
-        case 'rating':
-          return b.rating.average - a.rating.average;
-        case 'solutions':
-          return b.solutions - a.solutions;
-        case 'verified':
-          return (b.isVerified ? 1 : 0) - (a.isVerified ? 1 : 0);
-        default:
-          return parseInt(b.founded) - parseInt(a.founded);
+
+  const [filters, setFilters] = useState<FilterState>(INITIAL_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [options, setOptions] = useState<VendorDirectoryFilters>(EMPTY_OPTIONS);
+  const [vendors, setVendors] = useState<VendorListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  // Load the filter options once
+  useEffect(() => {
+    vendorApi.getDirectoryFilters()
+      .then(response => {
+        if (response.success) {
+          setOptions(response.filters);
+        }
+      })
+      .catch(error => console.error('Error fetching vendor filters:', error));
+  }, []);
+
+  // Apply the search box after the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.search === searchInput ? prev : { ...prev, search: searchInput, page: 1 }));
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Fetch vendors whenever the filters change
+  useEffect(() => {
+    const fetchVendors = async () => {
+      try {
+        setLoading(true);
+        const response = await vendorApi.getDirectory({
+          page: filters.page,
+          limit: filters.limit,
+          sort: filters.sort,
+          search: filters.search || undefined,
+          category: filters.category ? [filters.category] : undefined,
+          companyType: filters.companyType,
+          companySize: filters.companySize,
+          deployment: filters.deployment,
+          compliance: filters.compliance,
+          pricingRange: filters.pricingRange,
+          verified: filters.verified ?? undefined
+        });
+        if (response.success) {
+          setVendors(response.vendors);
+          setTotal(response.total);
+          setTotalPages(response.totalPages || 1);
+        }
+      } catch (error) {
+        console.error('Error fetching vendors:', error);
+      } finally {
+        setLoading(false);
       }
-    });
+    };
+
+    fetchVendors();
+  }, [
+    filters.search, filters.category, filters.companyType, filters.companySize, filters.deployment,
+    filters.compliance, filters.pricingRange, filters.verified, filters.sort, filters.page, filters.limit
+  ]);
 
   const handleFilterChange = (key: keyof FilterState, value: any) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
+    // Any filter other than the page itself starts again from page 1
+    setFilters(prev => ({ ...prev, [key]: value, ...(key !== 'page' && key !== 'viewMode' && { page: 1 }) }));
+  };
+
+  const toggleListFilter = (key: ListFilter, value: string) => {
+    const selected = filters[key];
+    handleFilterChange(key, selected.includes(value)
+      ? selected.filter(item => item !== value)
+      : [...selected, value]);
   };
 
   const clearFilters = () => {
+    setSearchInput('');
     setFilters({
-      search: '',
-      industry: 'All Industries',
-      companySize: 'All Sizes',
-      verified: null,
-      sort: 'verified',
-      viewMode: filters.viewMode
+      ...INITIAL_FILTERS,
+      viewMode: filters.viewMode,
+      limit: filters.limit
     });
   };
 
-  const handleVendorClick = (slug: string) => {
-    router.push(`/vendors/${slug}`);
+  const handleVendorClick = (id: string) => {
+    router.push(`/vendors/${id}`);
   };
 
   return (
@@ -260,11 +230,11 @@ const VendorsPage: React.FC = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
           <div className="text-center">
             <h1 className="text-4xl font-bold text-gray-900 sm:text-5xl">
-              Verified AI Vendors
+              AI Vendor Directory
             </h1>
             <p className="mt-6 text-xl text-gray-600 max-w-3xl mx-auto">
-              Discover trusted AI solution providers who have been verified for quality, 
-              reliability, and expertise. Connect with industry leaders.
+              Discover AI solution providers by deployment model, compliance and pricing.
+              Verified vendors have been reviewed by our team.
             </p>
           </div>
         </div>
@@ -274,7 +244,7 @@ const VendorsPage: React.FC = () => {
         <div className="lg:grid lg:grid-cols-4 lg:gap-8">
           {/* Filters Sidebar */}
           <div className="lg:col-span-1">
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 sticky top-8">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 sticky top-8 max-h-[calc(100vh-4rem)] overflow-y-auto">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-lg font-semibold text-gray-900">Filters</h2>
                 <button
@@ -294,49 +264,70 @@ const VendorsPage: React.FC = () => {
                   <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                   <input
                     type="text"
-                    value={filters.search}
-                    onChange={(e) => handleFilterChange('search', e.target.value)}
-                    placeholder="Search vendors..."
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Company, solution or category..."
                     className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
                   />
                 </div>
               </div>
 
-              {/* Industry Filter */}
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Industry
-                </label>
-                <select
-                  value={filters.industry}
-                  onChange={(e) => handleFilterChange('industry', e.target.value)}
-                  className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
-                >
-                  {INDUSTRIES.map((industry) => (
-                    <option key={industry} value={industry}>
-                      {industry}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {/* Category Filter */}
+              {options.categories.length > 0 && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Solution Category
+                  </label>
+                  <select
+                    value={filters.category}
+                    onChange={(e) => handleFilterChange('category', e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">All Categories</option>
+                    {options.categories.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
 
-              {/* Company Size Filter */}
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Company Size
-                </label>
-                <select
-                  value={filters.companySize}
-                  onChange={(e) => handleFilterChange('companySize', e.target.value)}
-                  className="w-full border border-gray-300 rounded-md px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
-                >
-                  {COMPANY_SIZES.map((size) => (
-                    <option key={size} value={size}>
-                      {size}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              <CheckboxFilter
+                label="Company Type"
+                options={options.companyTypes}
+                selected={filters.companyType}
+                onToggle={(value) => toggleListFilter('companyType', value)}
+              />
+
+              <CheckboxFilter
+                label="Company Size"
+                options={options.companySizes}
+                selected={filters.companySize}
+                onToggle={(value) => toggleListFilter('companySize', value)}
+              />
+
+              <CheckboxFilter
+                label="Deployment"
+                options={options.deploymentOptions}
+                selected={filters.deployment}
+                onToggle={(value) => toggleListFilter('deployment', value)}
+              />
+
+              <CheckboxFilter
+                label="Compliance"
+                hint="Vendors must hold every selected certification"
+                options={options.complianceCertifications}
+                selected={filters.compliance}
+                onToggle={(value) => toggleListFilter('compliance', value)}
+              />
+
+              <CheckboxFilter
+                label="Pricing Range"
+                options={options.pricingRanges}
+                selected={filters.pricingRange}
+                onToggle={(value) => toggleListFilter('pricingRange', value)}
+              />
 
               {/* Verification Filter */}
               <div className="mb-6">
@@ -403,7 +394,8 @@ const VendorsPage: React.FC = () => {
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
               <div className="flex items-center justify-between">
                 <div className="text-sm text-gray-700">
-                  Showing <span className="font-medium">{filteredVendors.length}</span> vendors
+                  Showing <span className="font-medium">{vendors.length}</span> of{' '}
+                  <span className="font-medium">{total}</span> vendors
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
@@ -440,25 +432,21 @@ const VendorsPage: React.FC = () => {
                   exit={{ opacity: 0 }}
                   className="grid grid-cols-1 md:grid-cols-2 gap-6"
                 >
-                  {filteredVendors.map((vendor, index) => (
+                  {vendors.map((vendor, index) => (
                     <motion.div
                       key={vendor._id}
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: index * 0.1 }}
+                      transition={{ delay: index * 0.05 }}
                       whileHover={{ y: -4 }}
                       className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow cursor-pointer"
-                      onClick={() => handleVendorClick(vendor.slug)}
+                      onClick={() => handleVendorClick(vendor._id)}
                     >
                       <div className="p-6">
                         {/* Header */}
                         <div className="flex items-start space-x-4 mb-4">
                           <div className="flex-shrink-0">
-                            <img
-                              src={vendor.logo}
-                              alt={vendor.name}
-                              className="w-16 h-16 rounded-lg object-cover"
-                            />
+                            <VendorLogo vendor={vendor} size="w-16 h-16" />
                           </div>
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center space-x-2 mb-1">
@@ -466,7 +454,7 @@ const VendorsPage: React.FC = () => {
                                 {vendor.name}
                               </h3>
                               {vendor.isVerified && (
-                                <CheckBadgeIcon className="h-5 w-5 text-green-500" />
+                                <CheckBadgeIcon className="h-5 w-5 text-green-500 flex-shrink-0" />
                               )}
                             </div>
                             <p className="text-sm text-gray-600 line-clamp-2">
@@ -477,14 +465,14 @@ const VendorsPage: React.FC = () => {
 
                         {/* Categories */}
                         <div className="flex flex-wrap gap-2 mb-4">
-                          {vendor.categories.slice(0, 3).map((category) => (
+                          {vendor.solutionCategory.slice(0, 3).map((category) => (
                             <span key={category} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
                               {category}
                             </span>
                           ))}
-                          {vendor.categories.length > 3 && (
+                          {vendor.solutionCategory.length > 3 && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
-                              +{vendor.categories.length - 3} more
+                              +{vendor.solutionCategory.length - 3} more
                             </span>
                           )}
                         </div>
@@ -493,24 +481,32 @@ const VendorsPage: React.FC = () => {
                         <div className="grid grid-cols-3 gap-4 mb-4">
                           <div className="text-center">
                             <div className="text-lg font-bold text-primary-600">
-                              {vendor.solutions}
+                              {vendor.solutionCount}
                             </div>
                             <div className="text-xs text-gray-500">Solutions</div>
                           </div>
                           <div className="text-center">
                             <div className="text-lg font-bold text-primary-600">
-                              {vendor.employees}
+                              {vendor.companySize || '—'}
                             </div>
                             <div className="text-xs text-gray-500">Employees</div>
                           </div>
                           <div className="text-center">
                             <div className="text-lg font-bold text-primary-600">
-                              {vendor.clients}
+                              {vendor.clientCount || '—'}
                             </div>
                             <div className="text-xs text-gray-500">Clients</div>
                           </div>
                         </div>
 
+                        {/* Compliance */}
+                        {vendor.complianceCertifications.length > 0 && (
+                          <div className="flex items-center flex-wrap gap-1 mb-4 text-xs text-gray-600">
+                            <ShieldCheckIcon className="h-4 w-4 text-green-600" />
+                            {vendor.complianceCertifications.filter(cert => cert !== 'Other').join(' · ')}
+                          </div>
+                        )}
+
                         {/* Rating */}
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-1">
@@ -523,7 +519,7 @@ const VendorsPage: React.FC = () => {
                             </span>
                           </div>
                           <div className="text-sm text-gray-500">
-                            {vendor.location}
+                            {formatLocation(vendor)}
                           </div>
                         </div>
                       </div>
@@ -538,23 +534,19 @@ const VendorsPage: React.FC = () => {
                   exit={{ opacity: 0 }}
                   className="space-y-4"
                 >
-                  {filteredVendors.map((vendor, index) => (
+                  {vendors.map((vendor, index) => (
                     <motion.div
                       key={vendor._id}
                       initial={{ opacity: 0, x: -20 }}
                       animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.1 }}
+                      transition={{ delay: index * 0.05 }}
                       className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow cursor-pointer"
-                      onClick={() => handleVendorClick(vendor.slug)}
+                      onClick={() => handleVendorClick(vendor._id)}
                     >
                       <div className="flex items-start space-x-6">
                         {/* Logo */}
                         <div className="flex-shrink-0">
-                          <img
-                            src={vendor.logo}
-                            alt={vendor.name}
-                            className="w-20 h-20 rounded-lg object-cover"
-                          />
+                          <VendorLogo vendor={vendor} size="w-20 h-20" />
                         </div>
 
                         {/* Content */}
@@ -572,35 +564,47 @@ const VendorsPage: React.FC = () => {
                               <p className="text-gray-600 mb-3 line-clamp-2">
                                 {vendor.description}
                               </p>
-                              
+
                               {/* Categories */}
                               <div className="flex flex-wrap gap-2 mb-3">
-                                {vendor.categories.map((category) => (
+                                {vendor.solutionCategory.map((category) => (
                                   <span key={category} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
                                     {category}
                                   </span>
                                 ))}
                               </div>
 
-                              {/* Contact Info */}
-                              <div className="flex items-center space-x-6 text-sm text-gray-500">
-                                <div className="flex items-center space-x-1">
-                                  <GlobeAltIcon className="h-4 w-4" />
-                                  <span>{vendor.website}</span>
-                                </div>
-                                <div className="flex items-center space-x-1">
-                                  <BuildingOfficeIcon className="h-4 w-4" />
-                                  <span>{vendor.location}</span>
-                                </div>
-                                <div className="flex items-center space-x-1">
-                                  <UserGroupIcon className="h-4 w-4" />
-                                  <span>{vendor.companySize} employees</span>
-                                </div>
+                              {/* Company Info */}
+                              <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-gray-500">
+                                {vendor.website && (
+                                  <div className="flex items-center space-x-1">
+                                    <GlobeAltIcon className="h-4 w-4" />
+                                    <span>{vendor.website.replace(/^https?:\/\//, '')}</span>
+                                  </div>
+                                )}
+                                {formatLocation(vendor) && (
+                                  <div className="flex items-center space-x-1">
+                                    <BuildingOfficeIcon className="h-4 w-4" />
+                                    <span>{formatLocation(vendor)}</span>
+                                  </div>
+                                )}
+                                {vendor.companySize && (
+                                  <div className="flex items-center space-x-1">
+                                    <UserGroupIcon className="h-4 w-4" />
+                                    <span>{vendor.companySize} employees</span>
+                                  </div>
+                                )}
+                                {vendor.deploymentOptions.length > 0 && (
+                                  <div className="flex items-center space-x-1">
+                                    <CloudIcon className="h-4 w-4" />
+                                    <span>{vendor.deploymentOptions.join(', ')}</span>
+                                  </div>
+                                )}
                               </div>
                             </div>
 
                             {/* Stats and Rating */}
-                            <div className="flex flex-col items-end space-y-2">
+                            <div className="flex flex-col items-end space-y-2 ml-4">
                               <div className="flex items-center space-x-1">
                                 <StarIcon className="h-4 w-4 text-yellow-400 fill-current" />
                                 <span className="text-sm font-medium text-gray-900">
@@ -611,11 +615,18 @@ const VendorsPage: React.FC = () => {
                                 </span>
                               </div>
                               <div className="text-sm text-gray-500">
-                                {vendor.solutions} solutions
-                              </div>
-                              <div className="text-sm text-gray-500">
-                                Founded {vendor.founded}
+                                {vendor.solutionCount} solutions
                               </div>
+                              {vendor.pricingRange && (
+                                <div className="text-sm text-gray-500 whitespace-nowrap">
+                                  {vendor.pricingRange}
+                                </div>
+                              )}
+                              {vendor.foundedYear && (
+                                <div className="text-sm text-gray-500">
+                                  Founded {vendor.foundedYear}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -626,9 +637,39 @@ const VendorsPage: React.FC = () => {
               )}
             </AnimatePresence>
 
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center space-x-4 mt-8">
+                <button
+                  onClick={() => handleFilterChange('page', filters.page - 1)}
+                  disabled={filters.page <= 1}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-300">
+                  Page {filters.page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => handleFilterChange('page', filters.page + 1)}
+                  disabled={filters.page >= totalPages}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-200 hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+
+            {/* Loading State */}
+            {loading && vendors.length === 0 && (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+              </div>
+            )}
+
             {/* Empty State */}
-            {filteredVendors.length === 0 && (
-              <div className="text-center py-12">
+            {!loading && vendors.length === 0 && (
+              <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
                 <BuildingOfficeIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No vendors found</h3>
                 <p className="text-gray-600 mb-4">
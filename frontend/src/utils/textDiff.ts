@@ -0,0 +1,59 @@
+/**
+ * Word-level text diff
+ * Used to show what changed between revisions of a vendor response
+ */
+
+export interface DiffSegment {
+  value: string;
+  type: 'added' | 'removed' | 'unchanged';
+}
+
+// Split into words while keeping whitespace as separate tokens
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter((token) => token.length > 0);
+
+/**
+ * Diff two strings word by word using a longest-common-subsequence table
+ * @param before - Previous text
+ * @param after - New text
+ * @returns Segments in display order, with adjacent segments of the same type merged
+ */
+export const diffWords = (before: string = '', after: string = ''): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (value: string, type: DiffSegment['type']) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      segments.push({ value, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'unchanged');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return segments;
+};